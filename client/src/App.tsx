@@ -7,37 +7,72 @@ import { ComponentManager } from '@/components/ComponentManager';
 import { IncidentManager } from '@/components/IncidentManager';
 import { MaintenanceManager } from '@/components/MaintenanceManager';
 import { PlanSelector } from '@/components/PlanSelector';
+import { LoginForm } from '@/components/LoginForm';
+import { OrganizationForm } from '@/components/OrganizationForm';
+import { ApiKeyManager } from '@/components/ApiKeyManager';
+import { WebhookManager } from '@/components/WebhookManager';
+import { JobManager } from '@/components/JobManager';
+import { TeamManager } from '@/components/TeamManager';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { AccountSettings } from '@/components/AccountSettings';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+import { CustomDomainSettings } from '@/components/CustomDomainSettings';
+import { PrivateAccessSettings } from '@/components/PrivateAccessSettings';
+import { LocaleSettings } from '@/components/LocaleSettings';
+import { SubscriberManager } from '@/components/SubscriberManager';
+import { ChatIntegrationManager } from '@/components/ChatIntegrationManager';
+import { SmsManager } from '@/components/SmsManager';
+import { UptimeBars } from '@/components/UptimeBars';
+import { Button } from '@/components/ui/button';
 // Using type-only imports for better TypeScript compliance
-import type { StatusPage, Component, Incident, MaintenanceWindow, PlanType } from '../../server/src/schema';
+import type { AuthUser, Organization, StatusPage, Component, ComponentUptime, Incident, MaintenanceWindow } from '../../server/src/schema';
 
 function App() {
-  // User data - in real app this would come from auth system
-  const currentUser = {
-    id: 1,
-    name: 'John Doe',
-    email: 'john@example.com',
-    role: 'owner' as const
-  };
-
-  const currentOrganization = {
-    id: 1,
-    name: 'EdgeTech Corp',
-    plan_type: 'pro' as PlanType
-  };
+  // Signed-in user, resolved from the session cookie
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [organizationsLoaded, setOrganizationsLoaded] = useState(false);
+  const currentOrganization = organizations.length > 0 ? organizations[0] : null;
+  const currentOrganizationId = currentOrganization?.id;
 
   // State management
   const [statusPages, setStatusPages] = useState<StatusPage[]>([]);
   const [components, setComponents] = useState<Component[]>([]);
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [maintenanceWindows, setMaintenanceWindows] = useState<MaintenanceWindow[]>([]);
+  const [uptime, setUptime] = useState<ComponentUptime[]>([]);
   const [selectedStatusPage, setSelectedStatusPage] = useState<StatusPage | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'components' | 'incidents' | 'maintenance' | 'settings'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'components' | 'incidents' | 'maintenance' | 'team' | 'api-keys' | 'webhooks' | 'audit-log' | 'jobs' | 'settings' | 'account'>('overview');
   const [isLoading, setIsLoading] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+
+  // Restore an existing session on first load
+  useEffect(() => {
+    trpc.me.query()
+      .then((user: AuthUser | null) => setCurrentUser(user))
+      .catch((error: unknown) => console.error('Failed to load session:', error))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  // Load organizations the signed-in user belongs to
+  const loadOrganizations = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      const result = await trpc.getOrganizations.query();
+      setOrganizations(result);
+    } catch (error) {
+      console.error('Failed to load organizations:', error);
+    } finally {
+      setOrganizationsLoaded(true);
+    }
+  }, [currentUser]);
 
   // Load status pages
   const loadStatusPages = useCallback(async () => {
+    if (!currentOrganizationId) return;
     try {
-      const result = await trpc.getStatusPages.query({ organizationId: currentOrganization.id });
+      const result = await trpc.getStatusPages.query({ organizationId: currentOrganizationId });
       setStatusPages(result);
       if (result.length > 0 && !selectedStatusPage) {
         setSelectedStatusPage(result[0]);
@@ -45,7 +80,7 @@ function App() {
     } catch (error) {
       console.error('Failed to load status pages:', error);
     }
-  }, [selectedStatusPage, currentOrganization.id]);
+  }, [selectedStatusPage, currentOrganizationId]);
 
   // Load components for selected status page
   const loadComponents = useCallback(async () => {
@@ -80,7 +115,21 @@ function App() {
     }
   }, [selectedStatusPage]);
 
+  const loadUptime = useCallback(async () => {
+    if (!selectedStatusPage) return;
+    try {
+      const result = await trpc.getStatusPageUptime.query({ statusPageId: selectedStatusPage.id });
+      setUptime(result);
+    } catch (error) {
+      console.error('Failed to load uptime:', error);
+    }
+  }, [selectedStatusPage]);
+
   // Load all data when component mounts or status page changes
+  useEffect(() => {
+    loadOrganizations();
+  }, [loadOrganizations]);
+
   useEffect(() => {
     loadStatusPages();
   }, [loadStatusPages]);
@@ -93,6 +142,13 @@ function App() {
     }
   }, [selectedStatusPage, loadComponents, loadIncidents, loadMaintenanceWindows]);
 
+  // Status changes show up in today's bar, so the uptime follows the components
+  useEffect(() => {
+    if (selectedStatusPage) {
+      loadUptime();
+    }
+  }, [selectedStatusPage, components, loadUptime]);
+
   // Handle status page creation
   const handleStatusPageCreate = async (statusPage: StatusPage) => {
     setStatusPages((prev: StatusPage[]) => [...prev, statusPage]);
@@ -101,6 +157,12 @@ function App() {
     }
   };
 
+  // Keep the list and the selection in sync after a page is edited
+  const handleStatusPageUpdate = (statusPage: StatusPage) => {
+    setStatusPages((prev: StatusPage[]) => prev.map((page: StatusPage) => (page.id === statusPage.id ? statusPage : page)));
+    setSelectedStatusPage(statusPage);
+  };
+
   // Get status badge variant based on component status
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
@@ -130,6 +192,53 @@ function App() {
     return status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await trpc.resendVerificationEmail.mutate();
+      setVerificationSent(true);
+    } catch (error) {
+      console.error('Failed to resend verification email:', error);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Failed to log out:', error);
+    } finally {
+      setCurrentUser(null);
+      setOrganizations([]);
+      setOrganizationsLoaded(false);
+      setStatusPages([]);
+      setSelectedStatusPage(null);
+    }
+  };
+
+  if (!authChecked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return <LoginForm onLogin={setCurrentUser} />;
+  }
+
+  if (!currentOrganization) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 px-4 py-12">
+        {organizationsLoaded && (
+          <OrganizationForm
+            onSuccess={(organization: Organization) => setOrganizations([organization])}
+          />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       {/* Header */}
@@ -160,19 +269,37 @@ function App() {
               <div className="flex items-center gap-2">
                 <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
                   <span className="text-gray-600 text-sm font-medium">
-                    {currentUser.name.charAt(0)}
+                    {currentUser.first_name.charAt(0)}
                   </span>
                 </div>
                 <div className="hidden md:block text-sm">
-                  <div className="font-medium text-gray-900">{currentUser.name}</div>
+                  <div className="font-medium text-gray-900">{currentUser.first_name} {currentUser.last_name}</div>
                   <div className="text-gray-600">{currentUser.email}</div>
                 </div>
+                <Button size="sm" variant="outline" onClick={handleLogout}>
+                  Sign Out
+                </Button>
               </div>
             </div>
           </div>
         </div>
       </header>
 
+      {!currentUser.email_verified_at && (
+        <div className="border-b bg-yellow-50">
+          <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4 text-sm text-yellow-800">
+            <span>📧 Please verify {currentUser.email} using the link we emailed you.</span>
+            {verificationSent ? (
+              <span>Verification email sent.</span>
+            ) : (
+              <Button size="sm" variant="outline" onClick={handleResendVerification}>
+                Resend email
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
           {/* Sidebar */}
@@ -209,6 +336,7 @@ function App() {
                   </div>
                   <StatusPageForm
                     organizationId={currentOrganization.id}
+                    planType={currentOrganization.plan_type}
                     onSuccess={handleStatusPageCreate}
                     isLoading={isLoading}
                     setIsLoading={setIsLoading}
@@ -225,11 +353,17 @@ function App() {
                       { id: 'components', label: '🔧 Components', icon: '🔧' },
                       { id: 'incidents', label: '🚨 Incidents', icon: '🚨' },
                       { id: 'maintenance', label: '⚙️ Maintenance', icon: '⚙️' },
-                      { id: 'settings', label: '⚙️ Settings', icon: '⚙️' }
+                      { id: 'team', label: '👥 Team', icon: '👥' },
+                      { id: 'api-keys', label: '🔑 API Keys', icon: '🔑' },
+                      { id: 'webhooks', label: '🪝 Webhooks', icon: '🪝' },
+                      { id: 'audit-log', label: '📜 Audit Log', icon: '📜' },
+                      { id: 'jobs', label: '📬 Background Jobs', icon: '📬' },
+                      { id: 'settings', label: '⚙️ Settings', icon: '⚙️' },
+                      { id: 'account', label: '🔐 Account', icon: '🔐' }
                     ].map((item: { id: string; label: string; icon: string }) => (
                       <button
                         key={item.id}
-                        onClick={() => setActiveTab(item.id as 'overview' | 'components' | 'incidents' | 'maintenance' | 'settings')}
+                        onClick={() => setActiveTab(item.id as 'overview' | 'components' | 'incidents' | 'maintenance' | 'team' | 'api-keys' | 'webhooks' | 'audit-log' | 'jobs' | 'settings' | 'account')}
                         className={`w-full p-2 rounded-md text-left transition-all ${
                           activeTab === item.id
                             ? 'bg-blue-100 text-blue-700'
@@ -259,6 +393,7 @@ function App() {
                   </p>
                   <StatusPageForm
                     organizationId={currentOrganization.id}
+                    planType={currentOrganization.plan_type}
                     onSuccess={handleStatusPageCreate}
                     isLoading={isLoading}
                     setIsLoading={setIsLoading}
@@ -339,6 +474,23 @@ function App() {
                       </CardContent>
                     </Card>
 
+                    {/* Uptime */}
+                    {uptime.length > 0 && (
+                      <Card>
+                        <CardHeader>
+                          <CardTitle>📈 Uptime (last 90 days)</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                          {uptime.map((componentUptime: ComponentUptime) => (
+                            <div key={componentUptime.component_id}>
+                              <div className="font-medium text-sm mb-1">{componentUptime.name}</div>
+                              <UptimeBars uptime={componentUptime} />
+                            </div>
+                          ))}
+                        </CardContent>
+                      </Card>
+                    )}
+
                     {/* Recent Incidents */}
                     <Card>
                       <CardHeader>
@@ -388,8 +540,11 @@ function App() {
                     statusPageId={selectedStatusPage.id}
                     incidents={incidents}
                     components={components}
-                    userId={currentUser.id}
                     onIncidentsChange={setIncidents}
+                    onComponentsChange={loadComponents}
+                    translationLocales={selectedStatusPage.enabled_locales.filter(
+                      locale => locale !== selectedStatusPage.default_locale
+                    )}
                   />
                 )}
 
@@ -399,44 +554,140 @@ function App() {
                     statusPageId={selectedStatusPage.id}
                     maintenanceWindows={maintenanceWindows}
                     components={components}
-                    userId={currentUser.id}
                     onMaintenanceChange={setMaintenanceWindows}
+                    onComponentsChange={loadComponents}
+                  />
+                )}
+
+                {/* Team Tab */}
+                {activeTab === 'team' && (
+                  <TeamManager
+                    organizationId={currentOrganization.id}
+                    currentUserId={currentUser.id}
+                    planType={currentOrganization.plan_type}
+                    requireTwoFactor={currentOrganization.require_two_factor}
+                    onOrganizationChange={loadOrganizations}
                   />
                 )}
 
+                {/* API Keys Tab */}
+                {activeTab === 'api-keys' && (
+                  <ApiKeyManager
+                    organizationId={currentOrganization.id}
+                    statusPages={statusPages}
+                  />
+                )}
+
+                {/* Webhooks Tab */}
+                {activeTab === 'webhooks' && (
+                  <WebhookManager organizationId={currentOrganization.id} />
+                )}
+
+                {/* Audit Log Tab */}
+                {activeTab === 'audit-log' && (
+                  <AuditLogViewer organizationId={currentOrganization.id} />
+                )}
+
+                {/* Background Jobs Tab */}
+                {activeTab === 'jobs' && (
+                  <JobManager organizationId={currentOrganization.id} />
+                )}
+
                 {/* Settings Tab */}
                 {activeTab === 'settings' && (
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>⚙️ Status Page Settings</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <div>
-                          <label className="block text-sm font-medium mb-1">Page Name</label>
-                          <p className="text-gray-700">{selectedStatusPage.name}</p>
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium mb-1">Slug</label>
-                          <p className="text-gray-700">{selectedStatusPage.slug}</p>
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium mb-1">Description</label>
-                          <p className="text-gray-700">{selectedStatusPage.description || 'No description'}</p>
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium mb-1">Visibility</label>
-                          <Badge variant={selectedStatusPage.is_public ? 'default' : 'outline'}>
-                            {selectedStatusPage.is_public ? 'Public' : 'Private'}
-                          </Badge>
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium mb-1">Created</label>
-                          <p className="text-gray-700">{selectedStatusPage.created_at.toLocaleDateString()}</p>
+                  <>
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>⚙️ Status Page Settings</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Page Name</label>
+                            <p className="text-gray-700">{selectedStatusPage.name}</p>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Slug</label>
+                            <p className="text-gray-700">{selectedStatusPage.slug}</p>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Description</label>
+                            <p className="text-gray-700">{selectedStatusPage.description || 'No description'}</p>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Visibility</label>
+                            <Badge variant={selectedStatusPage.is_public ? 'default' : 'outline'}>
+                              {selectedStatusPage.is_public ? 'Public' : 'Private'}
+                            </Badge>
+                            <a
+                              href={`/s/${encodeURIComponent(selectedStatusPage.slug)}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="ml-3 text-blue-600 hover:text-blue-700 text-sm"
+                            >
+                              {selectedStatusPage.is_public ? 'View public page →' : 'View private page →'}
+                            </a>
+                          </div>
+                          {selectedStatusPage.is_public && (
+                            <div>
+                              <label className="block text-sm font-medium mb-1">Statuspage-compatible API</label>
+                              <p className="text-gray-700 text-sm font-mono">
+                                /s/{selectedStatusPage.slug}/api/v2/summary.json
+                              </p>
+                            </div>
+                          )}
+                          {selectedStatusPage.is_public && (
+                            <div>
+                              <label className="block text-sm font-medium mb-1">Badge and embed</label>
+                              <img
+                                src={`/s/${encodeURIComponent(selectedStatusPage.slug)}/badge.svg`}
+                                alt={`${selectedStatusPage.name} status`}
+                                className="mb-2"
+                              />
+                              <p className="text-gray-700 text-sm font-mono break-all">
+                                ![Status]({window.location.origin}/s/{selectedStatusPage.slug}/badge.svg)
+                              </p>
+                              <p className="text-gray-700 text-sm font-mono break-all mt-1">
+                                {`<script src="${window.location.origin}/s/${selectedStatusPage.slug}/embed.js" async></script>`}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-1">
+                                The script shows a banner on your site during active incidents and maintenance.
+                                Per-component badges are at /s/{selectedStatusPage.slug}/components/&lt;id&gt;/badge.svg.
+                              </p>
+                            </div>
+                          )}
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Created</label>
+                            <p className="text-gray-700">{selectedStatusPage.created_at.toLocaleDateString()}</p>
+                          </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                      </CardContent>
+                    </Card>
+                    <CustomDomainSettings
+                      statusPage={selectedStatusPage}
+                      planType={currentOrganization.plan_type}
+                      onUpdate={handleStatusPageUpdate}
+                    />
+                    <PrivateAccessSettings
+                      statusPage={selectedStatusPage}
+                      onUpdate={handleStatusPageUpdate}
+                    />
+                    <LocaleSettings
+                      statusPage={selectedStatusPage}
+                      onUpdate={handleStatusPageUpdate}
+                    />
+                    <SubscriberManager statusPageId={selectedStatusPage.id} />
+                    <SmsManager statusPageId={selectedStatusPage.id} organizationId={currentOrganization.id} />
+                    <ChatIntegrationManager statusPageId={selectedStatusPage.id} />
+                  </>
+                )}
+
+                {/* Account Tab */}
+                {activeTab === 'account' && (
+                  <>
+                    <AccountSettings />
+                    <TwoFactorSettings />
+                  </>
                 )}
               </div>
             )}
@@ -0,0 +1,141 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import type { InvitationDetails } from '../../../server/src/schema';
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+export function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const [details, setDetails] = useState<InvitationDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+  const [formData, setFormData] = useState({ first_name: '', last_name: '', password: '' });
+
+  useEffect(() => {
+    trpc.getInvitationDetails.query({ token })
+      .then((result: InvitationDetails) => setDetails(result))
+      .catch((error: unknown) => {
+        console.error('Failed to load invitation:', error);
+        setError('This invitation link is invalid, has expired or has already been used.');
+      });
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.acceptInvitation.mutate(
+        details?.account_exists ? { token } : { token, ...formData }
+      );
+      setAccepted(true);
+    } catch (error) {
+      console.error('Failed to accept invitation:', error);
+      setError('Could not accept the invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+          </div>
+          <CardTitle>
+            {details ? `✉️ Join ${details.organization_name}` : '✉️ Invitation'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {accepted ? (
+            <div className="space-y-4">
+              <p className="text-gray-700">🎉 You have joined {details?.organization_name}.</p>
+              <Button className="w-full" onClick={() => window.location.assign('/')}>
+                Go to dashboard
+              </Button>
+            </div>
+          ) : !details ? (
+            <p className="text-sm text-gray-600">{error ?? 'Loading invitation...'}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                You have been invited to join <strong>{details.organization_name}</strong> as{' '}
+                <strong>{details.role}</strong> with <strong>{details.email}</strong>.
+              </p>
+
+              {details.account_exists ? (
+                <p className="text-sm text-gray-600">
+                  You already have an account. Accept the invitation, then sign in as usual.
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="invite-first-name" className="block text-sm font-medium mb-1">
+                        First Name *
+                      </label>
+                      <Input
+                        id="invite-first-name"
+                        value={formData.first_name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev) => ({ ...prev, first_name: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="invite-last-name" className="block text-sm font-medium mb-1">
+                        Last Name *
+                      </label>
+                      <Input
+                        id="invite-last-name"
+                        value={formData.last_name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev) => ({ ...prev, last_name: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label htmlFor="invite-password" className="block text-sm font-medium mb-1">
+                      Password *
+                    </label>
+                    <Input
+                      id="invite-password"
+                      type="password"
+                      minLength={8}
+                      value={formData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev) => ({ ...prev, password: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                </>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? 'Please wait...' : '✅ Accept Invitation'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { ChangePasswordInput } from '../../../server/src/schema';
+
+export function AccountSettings() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ChangePasswordInput>({
+    current_password: '',
+    new_password: ''
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await trpc.changePassword.mutate(formData);
+      setFormData({ current_password: '', new_password: '' });
+      setNotice('Password changed. Other devices have been signed out.');
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setError(error instanceof Error && /incorrect/i.test(error.message) ? error.message : 'Could not change password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🔐 Change Password</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium mb-1">
+              Current Password *
+            </label>
+            <Input
+              id="current-password"
+              type="password"
+              value={formData.current_password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: ChangePasswordInput) => ({ ...prev, current_password: e.target.value }))
+              }
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium mb-1">
+              New Password *
+            </label>
+            <Input
+              id="new-password"
+              type="password"
+              minLength={8}
+              value={formData.new_password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: ChangePasswordInput) => ({ ...prev, new_password: e.target.value }))
+              }
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : '💾 Change Password'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { ApiKey, ApiKeyScope, CreateApiKeyInput, StatusPage } from '../../../server/src/schema';
+
+interface ApiKeyManagerProps {
+  organizationId: number;
+  statusPages: StatusPage[];
+}
+
+export function ApiKeyManager({ organizationId, statusPages }: ApiKeyManagerProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateApiKeyInput>({
+    organization_id: organizationId,
+    name: '',
+    scopes: ['read'],
+    status_page_ids: [],
+    expires_at: null
+  });
+
+  const scopeOptions: { value: ApiKeyScope; label: string }[] = [
+    { value: 'read', label: '👀 Read' },
+    { value: 'incidents:write', label: '🚨 Incidents' },
+    { value: 'components:write', label: '🔧 Components' },
+    { value: 'maintenance:write', label: '⚙️ Maintenance' }
+  ];
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      const result = await trpc.getApiKeys.query({ organizationId });
+      setApiKeys(result);
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const resetForm = () => {
+    setFormData({
+      organization_id: organizationId,
+      name: '',
+      scopes: ['read'],
+      status_page_ids: [],
+      expires_at: null
+    });
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const result = await trpc.createApiKey.mutate(formData);
+      setApiKeys((prev: ApiKey[]) => [...prev, result.api_key]);
+      setCreatedToken(result.token);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (apiKeyId: number) => {
+    if (!confirm('Revoke this API key? Integrations using it will stop working immediately.')) return;
+
+    setIsLoading(true);
+    try {
+      const revokedKey = await trpc.revokeApiKey.mutate({ id: apiKeyId });
+      setApiKeys((prev: ApiKey[]) => prev.map((k: ApiKey) => (k.id === apiKeyId ? revokedKey : k)));
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleScopeToggle = (scope: ApiKeyScope) => {
+    setFormData((prev: CreateApiKeyInput) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s: ApiKeyScope) => s !== scope)
+        : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleStatusPageToggle = (statusPageId: number) => {
+    setFormData((prev: CreateApiKeyInput) => ({
+      ...prev,
+      status_page_ids: prev.status_page_ids.includes(statusPageId)
+        ? prev.status_page_ids.filter((id: number) => id !== statusPageId)
+        : [...prev.status_page_ids, statusPageId]
+    }));
+  };
+
+  const isExpired = (apiKey: ApiKey) => {
+    return apiKey.expires_at !== null && apiKey.expires_at <= new Date();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">🔑 API Keys</h2>
+        <Button onClick={() => setShowForm(true)} disabled={isLoading}>
+          ➕ New API Key
+        </Button>
+      </div>
+
+      {/* Newly created token, shown only once */}
+      {createdToken && (
+        <Card className="border-green-500">
+          <CardContent className="pt-6 space-y-3">
+            <p className="text-sm font-medium text-gray-900">
+              Copy your new API key now. It will not be shown again.
+            </p>
+            <Input readOnly value={createdToken} className="font-mono" />
+            <Button variant="outline" size="sm" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* API Key Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Create API Key</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="api-key-name" className="block text-sm font-medium mb-1">
+                  Name *
+                </label>
+                <Input
+                  id="api-key-name"
+                  placeholder="Deploy pipeline"
+                  value={formData.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateApiKeyInput) => ({ ...prev, name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Scopes *
+                </label>
+                <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+                  {scopeOptions.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.scopes.includes(option.value)}
+                        onChange={() => handleScopeToggle(option.value)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {statusPages.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Restrict to Status Pages
+                  </label>
+                  <div className="space-y-2 max-h-40 overflow-y-auto border rounded-md p-3">
+                    {statusPages.map((page: StatusPage) => (
+                      <label key={page.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={formData.status_page_ids.includes(page.id)}
+                          onChange={() => handleStatusPageToggle(page.id)}
+                          className="rounded"
+                        />
+                        <span className="text-sm">{page.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Leave empty to allow every status page in the organization.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="api-key-expires" className="block text-sm font-medium mb-1">
+                  Expires
+                </label>
+                <Input
+                  id="api-key-expires"
+                  type="datetime-local"
+                  value={formData.expires_at ? formData.expires_at.toISOString().slice(0, 16) : ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateApiKeyInput) => ({
+                      ...prev,
+                      expires_at: e.target.value ? new Date(e.target.value) : null
+                    }))
+                  }
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isLoading || formData.scopes.length === 0} className="flex-1">
+                  {isLoading ? 'Creating...' : '🔑 Create API Key'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetForm}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* API Keys List */}
+      <div className="space-y-4">
+        {apiKeys.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="text-6xl mb-4">🔑</div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No API keys yet</h3>
+              <p className="text-gray-600">
+                Create a key to report incidents and update components from your own tooling.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          apiKeys.map((apiKey: ApiKey) => (
+            <Card key={apiKey.id}>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-gray-900">{apiKey.name}</h3>
+                      {apiKey.revoked_at ? (
+                        <Badge variant="destructive">Revoked</Badge>
+                      ) : isExpired(apiKey) ? (
+                        <Badge variant="outline">Expired</Badge>
+                      ) : (
+                        <Badge variant="default">Active</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm font-mono text-gray-600">{apiKey.token_prefix}…</p>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map((scope: ApiKeyScope) => (
+                        <Badge key={scope} variant="secondary">{scope}</Badge>
+                      ))}
+                      {apiKey.status_page_ids.map((id: number) => (
+                        <Badge key={id} variant="outline">
+                          {statusPages.find((page: StatusPage) => page.id === id)?.name ?? `Page #${id}`}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Created {apiKey.created_at.toLocaleDateString()} · Last used{' '}
+                      {apiKey.last_used_at ? apiKey.last_used_at.toLocaleString() : 'never'}
+                      {apiKey.expires_at && ` · Expires ${apiKey.expires_at.toLocaleString()}`}
+                    </div>
+                  </div>
+                  {!apiKey.revoked_at && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(apiKey.id)}
+                      disabled={isLoading}
+                    >
+                      🗑️ Revoke
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogPage,
+  OrganizationMemberDetails
+} from '../../../server/src/schema';
+
+interface AuditLogViewerProps {
+  organizationId: number;
+}
+
+interface AuditLogFilters {
+  entityType: AuditEntityType | 'all';
+  entityId: string;
+  actorUserId: string;
+  from: string;
+  to: string;
+}
+
+const entityTypeOptions: { value: AuditEntityType; label: string }[] = [
+  { value: 'organization', label: '🏢 Organization' },
+  { value: 'user', label: '🙋 User' },
+  { value: 'member', label: '👤 Member' },
+  { value: 'invitation', label: '✉️ Invitation' },
+  { value: 'api_key', label: '🔑 API Key' },
+  { value: 'sso_connection', label: '🏢 SSO Connection' },
+  { value: 'status_page', label: '📄 Status Page' },
+  { value: 'component', label: '🔧 Component' },
+  { value: 'incident', label: '🚨 Incident' },
+  { value: 'incident_update', label: '📝 Incident Update' },
+  { value: 'maintenance_window', label: '⚙️ Maintenance' }
+];
+
+const actionVariants: Record<AuditLogEntry['action'], 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive'
+};
+
+const emptyFilters: AuditLogFilters = { entityType: 'all', entityId: '', actorUserId: 'all', from: '', to: '' };
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export function AuditLogViewer({ organizationId }: AuditLogViewerProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [page, setPage] = useState<AuditLogPage | null>(null);
+  const [members, setMembers] = useState<OrganizationMemberDetails[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>(emptyFilters);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (cursor?: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await trpc.getAuditLog.query({
+        organization_id: organizationId,
+        entity_type: filters.entityType === 'all' ? undefined : filters.entityType,
+        entity_id: filters.entityId ? Number(filters.entityId) : undefined,
+        actor_user_id: filters.actorUserId === 'all' ? undefined : Number(filters.actorUserId),
+        from: filters.from ? new Date(filters.from) : undefined,
+        // The date input is a day; include all of it
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+        cursor,
+        limit: 50
+      });
+      setEntries((prev: AuditLogEntry[]) => (cursor ? [...prev, ...result.entries] : result.entries));
+      setPage(result);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId, filters]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    trpc.getOrganizationMembers.query({ organizationId })
+      .then((result: OrganizationMemberDetails[]) => setMembers(result))
+      .catch((error: unknown) => console.error('Failed to load team members:', error));
+  }, [organizationId]);
+
+  const changedFields = (entry: AuditLogEntry): string[] => {
+    return [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>📜 Audit Log</CardTitle>
+          <p className="text-sm text-gray-600">
+            Every change to pages, components, incidents, maintenance and the team.{' '}
+            {page && (page.retention_days === null
+              ? 'Entries are kept indefinitely on your plan.'
+              : `Entries are kept for ${page.retention_days} days on your plan.`)}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <Select
+              value={filters.entityType || 'all'}
+              onValueChange={(value: string) =>
+                setFilters((prev: AuditLogFilters) => ({ ...prev, entityType: value as AuditLogFilters['entityType'] }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {entityTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              placeholder="Entity ID"
+              value={filters.entityId}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFilters((prev: AuditLogFilters) => ({ ...prev, entityId: e.target.value }))
+              }
+            />
+            <Select
+              value={filters.actorUserId || 'all'}
+              onValueChange={(value: string) =>
+                setFilters((prev: AuditLogFilters) => ({ ...prev, actorUserId: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {members.map((member: OrganizationMemberDetails) => (
+                  <SelectItem key={member.user_id} value={member.user_id.toString()}>
+                    {member.first_name} {member.last_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="From"
+              value={filters.from}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFilters((prev: AuditLogFilters) => ({ ...prev, from: e.target.value }))
+              }
+            />
+            <Input
+              type="date"
+              aria-label="To"
+              value={filters.to}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFilters((prev: AuditLogFilters) => ({ ...prev, to: e.target.value }))
+              }
+            />
+          </div>
+          <Button variant="outline" size="sm" className="mt-3" onClick={() => setFilters(emptyFilters)}>
+            Clear Filters
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {entries.length === 0 && !isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500">No changes recorded yet.</CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry: AuditLogEntry) => (
+            <Card key={entry.id}>
+              <CardContent className="p-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant={actionVariants[entry.action]}>{entry.action}</Badge>
+                  <span className="font-medium text-gray-900">
+                    {entityTypeOptions.find((option) => option.value === entry.entity_type)?.label ?? entry.entity_type}{' '}
+                    #{entry.entity_id}
+                  </span>
+                  <span className="text-gray-600">
+                    by {entry.actor_name ?? 'System'}
+                    {entry.api_key_name && ` via API key "${entry.api_key_name}"`}
+                  </span>
+                  <span className="text-gray-400 ml-auto">{entry.created_at.toLocaleString()}</span>
+                </div>
+                {changedFields(entry).length > 0 && (
+                  <div className="text-xs font-mono bg-gray-50 rounded-md p-2 space-y-1">
+                    {changedFields(entry).map((field: string) => (
+                      <div key={field} className="break-all">
+                        <span className="text-gray-500">{field}:</span>{' '}
+                        {entry.action !== 'create' && (
+                          <span className="text-red-700">{formatValue(entry.before?.[field])}</span>
+                        )}
+                        {entry.action === 'update' && ' → '}
+                        {entry.action !== 'delete' && (
+                          <span className="text-green-700">{formatValue(entry.after?.[field])}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {page?.next_cursor && (
+        <Button variant="outline" onClick={() => loadEntries(page.next_cursor!)} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Load More'}
+        </Button>
+      )}
+    </div>
+  );
+}
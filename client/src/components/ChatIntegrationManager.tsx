@@ -0,0 +1,271 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatIntegration, ChatProvider, CreateChatIntegrationInput } from '../../../server/src/schema';
+
+interface ChatIntegrationManagerProps {
+  statusPageId: number;
+}
+
+const providerNames: Record<ChatProvider, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams'
+};
+
+// Incidents, incident updates and maintenance transitions are posted to every active channel
+export function ChatIntegrationManager({ statusPageId }: ChatIntegrationManagerProps) {
+  const [integrations, setIntegrations] = useState<ChatIntegration[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateChatIntegrationInput>({
+    status_page_id: statusPageId,
+    provider: 'slack',
+    name: '',
+    webhook_url: null,
+    bot_token: null,
+    channel: null
+  });
+
+  const loadIntegrations = useCallback(async () => {
+    try {
+      const result = await trpc.getChatIntegrations.query({ statusPageId });
+      setIntegrations(result);
+    } catch (error) {
+      console.error('Failed to load chat integrations:', error);
+    }
+  }, [statusPageId]);
+
+  useEffect(() => {
+    loadIntegrations();
+  }, [loadIntegrations]);
+
+  const resetForm = () => {
+    setFormData({
+      status_page_id: statusPageId,
+      provider: 'slack',
+      name: '',
+      webhook_url: null,
+      bot_token: null,
+      channel: null
+    });
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await trpc.createChatIntegration.mutate(formData);
+      setIntegrations((prev: ChatIntegration[]) => [...prev, result]);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to add chat integration:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to add the channel');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (integration: ChatIntegration) => {
+    setIsLoading(true);
+    try {
+      const updated = await trpc.updateChatIntegration.mutate({ id: integration.id, is_active: !integration.is_active });
+      setIntegrations((prev: ChatIntegration[]) => prev.map((i: ChatIntegration) => (i.id === integration.id ? updated : i)));
+    } catch (error) {
+      console.error('Failed to update chat integration:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendTest = async (integration: ChatIntegration) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await trpc.sendTestChatMessage.mutate({ id: integration.id });
+      setMessage(`Test message sent to ${integration.name}`);
+    } catch (error) {
+      console.error('Failed to send test chat message:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to send the test message');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (integrationId: number) => {
+    if (!confirm('Remove this channel? Nothing more will be posted to it.')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteChatIntegration.mutate({ id: integrationId });
+      setIntegrations((prev: ChatIntegration[]) => prev.filter((i: ChatIntegration) => i.id !== integrationId));
+    } catch (error) {
+      console.error('Failed to remove chat integration:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>💬 Slack & Teams</CardTitle>
+          {!showForm && (
+            <Button size="sm" onClick={() => setShowForm(true)} disabled={isLoading}>
+              ➕ Add Channel
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && <p className="text-sm text-gray-700">{message}</p>}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Provider</label>
+                <Select
+                  value={formData.provider || 'slack'}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: CreateChatIntegrationInput) => ({
+                      ...prev,
+                      provider: value as ChatProvider,
+                      bot_token: null,
+                      channel: null
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="slack">Slack</SelectItem>
+                    <SelectItem value="teams">Microsoft Teams</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label htmlFor="chat-name" className="block text-sm font-medium mb-1">
+                  Name *
+                </label>
+                <Input
+                  id="chat-name"
+                  placeholder="#incidents"
+                  value={formData.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateChatIntegrationInput) => ({ ...prev, name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="chat-webhook-url" className="block text-sm font-medium mb-1">
+                Incoming webhook URL{formData.provider === 'teams' && ' *'}
+              </label>
+              <Input
+                id="chat-webhook-url"
+                type="url"
+                placeholder={formData.provider === 'slack' ? 'https://hooks.slack.com/services/…' : 'https://….webhook.office.com/…'}
+                value={formData.webhook_url || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateChatIntegrationInput) => ({ ...prev, webhook_url: e.target.value || null }))
+                }
+                required={formData.provider === 'teams'}
+              />
+            </div>
+
+            {formData.provider === 'slack' && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="chat-bot-token" className="block text-sm font-medium mb-1">
+                      Bot token
+                    </label>
+                    <Input
+                      id="chat-bot-token"
+                      type="password"
+                      placeholder="xoxb-…"
+                      value={formData.bot_token || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateChatIntegrationInput) => ({ ...prev, bot_token: e.target.value || null }))
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="chat-channel" className="block text-sm font-medium mb-1">
+                      Channel ID
+                    </label>
+                    <Input
+                      id="chat-channel"
+                      placeholder="C0123456789"
+                      value={formData.channel || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateChatIntegrationInput) => ({ ...prev, channel: e.target.value || null }))
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Incoming webhooks cannot reply in threads. With a bot token (chat:write) and channel ID,
+                  updates are posted as replies to the first message about each incident or maintenance.
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading} className="flex-1">
+                {isLoading ? 'Adding...' : '💬 Add Channel'}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {integrations.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No channels yet</p>
+        ) : (
+          integrations.map((integration: ChatIntegration) => (
+            <div key={integration.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{integration.name}</span>
+                  <Badge variant="secondary">{providerNames[integration.provider]}</Badge>
+                  {integration.has_bot_token && <Badge variant="outline">Threaded</Badge>}
+                  {!integration.is_active && <Badge variant="outline">Disabled</Badge>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {integration.channel ? `Channel ${integration.channel} · ` : ''}
+                  Added {integration.created_at.toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleSendTest(integration)} disabled={isLoading}>
+                  Send test
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleToggleActive(integration)} disabled={isLoading}>
+                  {integration.is_active ? 'Disable' : 'Enable'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleDelete(integration.id)} disabled={isLoading}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
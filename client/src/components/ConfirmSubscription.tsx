@@ -0,0 +1,38 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+
+interface ConfirmSubscriptionProps {
+  token: string;
+}
+
+export function ConfirmSubscription({ token }: ConfirmSubscriptionProps) {
+  const [isConfirmed, setIsConfirmed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    trpc.confirmSubscription.mutate({ token })
+      .then(() => setIsConfirmed(true))
+      .catch((error: unknown) => {
+        console.error('Failed to confirm subscription:', error);
+        setError('This confirmation link is invalid or has expired. Subscribe again from the status page.');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>✉️ Status updates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isConfirmed ? (
+            <p className="text-gray-700">✅ Your subscription is confirmed. We will email you when something changes.</p>
+          ) : (
+            <p className="text-sm text-gray-600">{error ?? 'Confirming your subscription...'}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
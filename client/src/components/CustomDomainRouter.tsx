@@ -0,0 +1,37 @@
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import App from '../App';
+import { PublicStatusPageView, StatusPageUnlockForm } from '@/components/PublicStatusPage';
+import type { PublicStatusPage } from '../../../server/src/schema';
+
+// The server matches the request's Host against verified custom domains; any other host gets the dashboard
+export function CustomDomainRouter() {
+  // undefined while the lookup is in flight, null when this host is not a custom domain
+  const [page, setPage] = useState<PublicStatusPage | null | undefined>(undefined);
+  const [isLocked, setIsLocked] = useState(false);
+  const [unlockCount, setUnlockCount] = useState(0);
+
+  useEffect(() => {
+    setIsLocked(false);
+    trpc.getPublicStatusPageForHost.query()
+      .then(setPage)
+      .catch((error: unknown) => {
+        if (error instanceof Error && error.message === 'Status page is private') {
+          setIsLocked(true);
+          return;
+        }
+        console.error('Failed to resolve custom domain:', error);
+        setPage(null);
+      });
+  }, [unlockCount]);
+
+  if (isLocked) {
+    return <StatusPageUnlockForm onUnlocked={() => setUnlockCount((count: number) => count + 1)} />;
+  }
+
+  if (page === undefined) {
+    return null;
+  }
+
+  return page ? <PublicStatusPageView data={page} /> : <App />;
+}
@@ -0,0 +1,115 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import type { PlanType, StatusPage } from '../../../server/src/schema';
+
+interface CustomDomainSettingsProps {
+  statusPage: StatusPage;
+  planType: PlanType;
+  onUpdate: (statusPage: StatusPage) => void;
+}
+
+// Matches the plans PlanSelector lists custom domains for
+const customDomainPlans: PlanType[] = ['plus', 'enterprise'];
+
+export function CustomDomainSettings({ statusPage, planType, onUpdate }: CustomDomainSettingsProps) {
+  const [domain, setDomain] = useState(statusPage.custom_domain ?? '');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDomain(statusPage.custom_domain ?? '');
+    setError(null);
+  }, [statusPage.id, statusPage.custom_domain]);
+
+  const runAction = async (action: () => Promise<StatusPage>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onUpdate(await action());
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(
+      () => trpc.updateStatusPage.mutate({ id: statusPage.id, custom_domain: domain.trim() || null }),
+      'Failed to save custom domain'
+    );
+  };
+
+  const handleVerify = () => {
+    return runAction(
+      () => trpc.verifyCustomDomain.mutate({ status_page_id: statusPage.id }),
+      'Failed to verify custom domain'
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🌐 Custom Domain</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!customDomainPlans.includes(planType) ? (
+          <p className="text-sm text-gray-600">
+            Serve this status page on your own domain. Available on the Plus and Enterprise plans.
+          </p>
+        ) : (
+          <>
+            <form onSubmit={handleSave} className="flex gap-2">
+              <Input
+                placeholder="status.mycompany.com"
+                value={domain}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDomain(e.target.value)}
+              />
+              <Button type="submit" disabled={isLoading}>
+                Save
+              </Button>
+            </form>
+
+            {statusPage.custom_domain && statusPage.custom_domain_verification_token && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{statusPage.custom_domain}</span>
+                  <Badge variant={statusPage.custom_domain_verified_at ? 'default' : 'outline'}>
+                    {statusPage.custom_domain_verified_at ? '✅ Verified' : '⏳ Pending verification'}
+                  </Badge>
+                </div>
+
+                {statusPage.custom_domain_verified_at ? (
+                  <p className="text-sm text-gray-600">
+                    Point a CNAME record for {statusPage.custom_domain} at this server to serve the page there.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Add this TXT record to your DNS, then verify. DNS changes can take a while to propagate.
+                    </p>
+                    <div className="text-sm border rounded-lg p-3 bg-gray-50 space-y-1 font-mono break-all">
+                      <div>Name: _edgestatus-challenge.{statusPage.custom_domain}</div>
+                      <div>Value: edgestatus-verification={statusPage.custom_domain_verification_token}</div>
+                    </div>
+                    <Button variant="outline" onClick={handleVerify} disabled={isLoading}>
+                      🔍 Verify Domain
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useState, useEffect, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { useMessages } from '@/lib/i18n';
+import type {
+  IncidentHistory as IncidentHistoryData,
+  IncidentHistoryFilters,
+  IncidentHistoryMonth,
+  IncidentStatus,
+  Locale,
+  PublicIncident
+} from '../../../server/src/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IncidentHistoryProps {
+  components: { id: number; name: string }[];
+  load: (filters: Omit<IncidentHistoryFilters, 'limit'>) => Promise<IncidentHistoryData>;
+  renderIncident: (incident: PublicIncident) => ReactNode;
+}
+
+const statusOptions: IncidentStatus[] = ['investigating', 'identified', 'monitoring', 'resolved'];
+
+// Months are UTC, like the server's grouping
+const formatMonth = (month: string, locale: Locale) => {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+// A month cut off at the end of one page continues at the start of the next
+const mergeMonths = (existing: IncidentHistoryMonth[], next: IncidentHistoryMonth[]) => {
+  const merged = existing.map(month => ({ ...month, incidents: [...month.incidents] }));
+  for (const month of next) {
+    const last = merged.at(-1);
+    if (last && last.month === month.month) {
+      last.incidents.push(...month.incidents);
+    } else {
+      merged.push(month);
+    }
+  }
+  return merged;
+};
+
+// Searchable, month-by-month archive shared by the public page and the dashboard
+export function IncidentHistory({ components, load, renderIncident }: IncidentHistoryProps) {
+  const { locale, messages } = useMessages();
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<IncidentStatus | 'all'>('all');
+  const [componentId, setComponentId] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  // Filters apply when submitted
+  const [applied, setApplied] = useState<Omit<IncidentHistoryFilters, 'limit' | 'cursor'>>({});
+  const [months, setMonths] = useState<IncidentHistoryMonth[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await load({ ...applied, cursor });
+      setMonths((prev: IncidentHistoryMonth[]) => (cursor ? mergeMonths(prev, result.months) : result.months));
+      setNextCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Failed to load incident history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load incident history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [load, applied]);
+
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied({
+      query: query.trim() || undefined,
+      statuses: status === 'all' ? undefined : [status],
+      component_ids: componentId === 'all' ? undefined : [parseInt(componentId, 10)],
+      from: from ? new Date(`${from}T00:00:00Z`) : undefined,
+      // The end date is inclusive, so the range runs to the start of the following day
+      to: to ? new Date(new Date(`${to}T00:00:00Z`).getTime() + DAY_MS) : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            placeholder={messages.searchPlaceholder}
+            value={query}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+          />
+          <Button type="submit" disabled={isLoading}>
+            {messages.search}
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Select value={status} onValueChange={(value: string) => setStatus(value as IncidentStatus | 'all')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{messages.allStatuses}</SelectItem>
+              {statusOptions.map(option => (
+                <SelectItem key={option} value={option}>{messages.statusLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={componentId} onValueChange={setComponentId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{messages.allComponents}</SelectItem>
+              {components.map(component => (
+                <SelectItem key={component.id} value={component.id.toString()}>{component.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            aria-label={messages.from}
+            value={from}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label={messages.to}
+            value={to}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTo(e.target.value)}
+          />
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {months.length === 0 && !isLoading ? (
+        <p className="text-gray-500 text-center py-4">{messages.noMatches}</p>
+      ) : (
+        months.map(month => (
+          <div key={month.month} className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{formatMonth(month.month, locale)}</h3>
+            {month.incidents.map(incident => (
+              <div key={incident.id}>{renderIncident(incident)}</div>
+            ))}
+          </div>
+        ))
+      )}
+
+      {nextCursor && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => fetchPage(nextCursor)} disabled={isLoading}>
+            {isLoading ? messages.loadingMore : messages.loadOlder}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { IncidentHistory } from '@/components/IncidentHistory';
+import { IncidentTranslations } from '@/components/IncidentTranslations';
 import { trpc } from '@/utils/trpc';
 import { useState, useCallback } from 'react';
 import type { 
@@ -10,31 +12,45 @@ import type {
   Component, 
   CreateIncidentInput, 
   IncidentStatus,
+  ComponentStatus,
   IncidentUpdate,
-  CreateIncidentUpdateInput
+  CreateIncidentUpdateInput,
+  IncidentHistoryFilters,
+  Locale,
+  PublicIncident
 } from '../../../server/src/schema';
 
 interface IncidentManagerProps {
   statusPageId: number;
   incidents: Incident[];
   components: Component[];
-  userId: number;
   onIncidentsChange: (incidents: Incident[]) => void;
+  // An incident can change the status of its affected components
+  onComponentsChange?: () => void;
+  // Languages incidents can be translated into: the page's enabled languages other than its default
+  translationLocales?: Locale[];
 }
 
-export function IncidentManager({ statusPageId, incidents, components, userId, onIncidentsChange }: IncidentManagerProps) {
+export function IncidentManager({
+  statusPageId,
+  incidents,
+  components,
+  onIncidentsChange,
+  onComponentsChange,
+  translationLocales = []
+}: IncidentManagerProps) {
   const [showForm, setShowForm] = useState(false);
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   const [incidentUpdates, setIncidentUpdates] = useState<IncidentUpdate[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showUpdateForm, setShowUpdateForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const [formData, setFormData] = useState<CreateIncidentInput>({
     status_page_id: statusPageId,
     title: '',
     description: '',
     status: 'investigating',
-    created_by: userId,
     affected_component_ids: []
   });
 
@@ -42,8 +58,7 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
     incident_id: 0,
     title: '',
     description: '',
-    status: 'investigating',
-    created_by: userId
+    status: 'investigating'
   });
 
   const statusOptions: { value: IncidentStatus; label: string; color: string }[] = [
@@ -53,13 +68,20 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
     { value: 'resolved', label: '✅ Resolved', color: 'bg-green-500' }
   ];
 
+  const componentStatusOptions: { value: ComponentStatus; label: string }[] = [
+    { value: 'operational', label: '🟢 Operational' },
+    { value: 'performance_issues', label: '🟡 Performance Issues' },
+    { value: 'partial_outage', label: '🟠 Partial Outage' },
+    { value: 'major_outage', label: '🔴 Major Outage' },
+    { value: 'under_maintenance', label: '🔵 Under Maintenance' }
+  ];
+
   const resetForm = () => {
     setFormData({
       status_page_id: statusPageId,
       title: '',
       description: '',
       status: 'investigating',
-      created_by: userId,
       affected_component_ids: []
     });
     setShowForm(false);
@@ -70,8 +92,7 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
       incident_id: 0,
       title: '',
       description: '',
-      status: 'investigating',
-      created_by: userId
+      status: 'investigating'
     });
     setShowUpdateForm(false);
   };
@@ -92,6 +113,9 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
     try {
       const newIncident = await trpc.createIncident.mutate(formData);
       onIncidentsChange([...incidents, newIncident]);
+      if (formData.component_status && formData.affected_component_ids.length > 0) {
+        onComponentsChange?.();
+      }
       resetForm();
     } catch (error) {
       console.error('Failed to create incident:', error);
@@ -138,6 +162,36 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
     await loadIncidentUpdates(incident.id);
   };
 
+  const loadHistory = useCallback((filters: Omit<IncidentHistoryFilters, 'limit'>) => {
+    return trpc.getIncidentHistory.query({ status_page_id: statusPageId, ...filters });
+  }, [statusPageId]);
+
+  // History entries open the same detail view as the list
+  const renderHistoryIncident = (incident: PublicIncident) => {
+    const fullIncident = incidents.find((item: Incident) => item.id === incident.id);
+    return (
+      <div
+        className="border rounded-lg p-4 cursor-pointer hover:shadow-md transition-shadow"
+        onClick={() => fullIncident && handleViewIncident(fullIncident)}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h4 className="font-semibold">{incident.title}</h4>
+            <p className="text-gray-600 text-sm mt-1 line-clamp-2">{incident.description}</p>
+          </div>
+          <Badge variant={getStatusBadgeVariant(incident.status)}>
+            {formatStatus(incident.status)}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
+          <span>Created: {incident.created_at.toLocaleDateString()}</span>
+          {incident.resolved_at && <span>Resolved: {incident.resolved_at.toLocaleDateString()}</span>}
+          <span>{incident.updates.length} update{incident.updates.length === 1 ? '' : 's'}</span>
+        </div>
+      </div>
+    );
+  };
+
   const handleComponentToggle = (componentId: number) => {
     setFormData((prev: CreateIncidentInput) => ({
       ...prev,
@@ -353,6 +407,10 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
             )}
           </CardContent>
         </Card>
+
+        {translationLocales.length > 0 && (
+          <IncidentTranslations incident={selectedIncident} updates={incidentUpdates} locales={translationLocales} />
+        )}
       </div>
     );
   }
@@ -362,9 +420,14 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
       {/* Header */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">🚨 Incidents</h2>
-        <Button onClick={() => setShowForm(true)} disabled={isLoading}>
-          ➕ Report Incident
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowHistory(!showHistory)}>
+            {showHistory ? '📋 Recent' : '🗂️ History'}
+          </Button>
+          <Button onClick={() => setShowForm(true)} disabled={isLoading}>
+            ➕ Report Incident
+          </Button>
+        </div>
       </div>
 
       {/* Incident Form */}
@@ -463,6 +526,35 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
                 </div>
               )}
 
+              {formData.affected_component_ids.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Set Affected Components To
+                  </label>
+                  <Select
+                    value={formData.component_status ?? 'unchanged'}
+                    onValueChange={(value: string) =>
+                      setFormData((prev: CreateIncidentInput) => ({
+                        ...prev,
+                        component_status: value === 'unchanged' ? undefined : value as ComponentStatus
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unchanged">Leave as they are</SelectItem>
+                      {componentStatusOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button type="submit" disabled={isLoading} className="flex-1">
                   {isLoading ? 'Creating...' : '🚨 Report Incident'}
@@ -481,8 +573,20 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
         </Card>
       )}
 
+      {/* Incident History */}
+      {showHistory && (
+        <Card>
+          <CardHeader>
+            <CardTitle>🗂️ Incident History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <IncidentHistory components={components} load={loadHistory} renderIncident={renderHistoryIncident} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Incidents List */}
-      <div className="space-y-4">
+      {!showHistory && <div className="space-y-4">
         {incidents.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
@@ -533,7 +637,7 @@ export function IncidentManager({ statusPageId, incidents, components, userId, o
             </Card>
           ))
         )}
-      </div>
+      </div>}
     </div>
   );
 }
\ No newline at end of file
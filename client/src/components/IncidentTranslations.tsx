@@ -0,0 +1,163 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { localeNames } from '@/lib/i18n';
+import { useState, useEffect, useCallback } from 'react';
+import type { Incident, IncidentTranslations as IncidentTranslationsData, IncidentUpdate, Locale } from '../../../server/src/schema';
+
+interface IncidentTranslationsProps {
+  incident: Incident;
+  updates: IncidentUpdate[];
+  // The page's enabled languages other than its default language
+  locales: Locale[];
+}
+
+interface TranslationDraft {
+  title: string;
+  description: string;
+}
+
+const INCIDENT_KEY = 'incident';
+const updateKey = (updateId: number) => `update-${updateId}`;
+
+// Untranslated text is shown to visitors as written, so translations can be added one item at a time
+export function IncidentTranslations({ incident, updates, locales }: IncidentTranslationsProps) {
+  const [locale, setLocale] = useState<Locale>(locales[0]);
+  const [translations, setTranslations] = useState<IncidentTranslationsData>({ incident: [], updates: [] });
+  const [drafts, setDrafts] = useState<Record<string, TranslationDraft>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTranslations = useCallback(async () => {
+    try {
+      setTranslations(await trpc.getIncidentTranslations.query({ incidentId: incident.id }));
+    } catch (error) {
+      console.error('Failed to load translations:', error);
+    }
+  }, [incident.id]);
+
+  useEffect(() => {
+    loadTranslations();
+  }, [loadTranslations]);
+
+  useEffect(() => {
+    const next: Record<string, TranslationDraft> = {};
+    const incidentTranslation = translations.incident.find(t => t.locale === locale);
+    next[INCIDENT_KEY] = {
+      title: incidentTranslation?.title ?? '',
+      description: incidentTranslation?.description ?? ''
+    };
+    for (const update of updates) {
+      const updateTranslation = translations.updates.find(t => t.incident_update_id === update.id && t.locale === locale);
+      next[updateKey(update.id)] = {
+        title: updateTranslation?.title ?? '',
+        description: updateTranslation?.description ?? ''
+      };
+    }
+    setDrafts(next);
+  }, [translations, updates, locale]);
+
+  const setDraft = (key: string, field: keyof TranslationDraft, value: string) => {
+    setDrafts((prev: Record<string, TranslationDraft>) => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      await loadTranslations();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveIncident = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(
+      () => trpc.upsertIncidentTranslation.mutate({ incident_id: incident.id, locale, ...drafts[INCIDENT_KEY] }),
+      'Failed to save translation'
+    );
+  };
+
+  const handleSaveUpdate = (updateId: number) => (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(
+      () => trpc.upsertIncidentUpdateTranslation.mutate({ incident_update_id: updateId, locale, ...drafts[updateKey(updateId)] }),
+      'Failed to save translation'
+    );
+  };
+
+  const handleRemove = () => {
+    return runAction(
+      () => trpc.deleteIncidentTranslation.mutate({ incident_id: incident.id, locale }),
+      'Failed to remove translation'
+    );
+  };
+
+  const renderForm = (key: string, original: TranslationDraft, onSubmit: (e: React.FormEvent) => void) => {
+    const draft = drafts[key] ?? { title: '', description: '' };
+    return (
+      <form key={key} onSubmit={onSubmit} className="border rounded-lg p-4 space-y-2">
+        <p className="text-xs text-gray-500">{original.title}</p>
+        <Input
+          placeholder="Translated title"
+          value={draft.title}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(key, 'title', e.target.value)}
+          required
+        />
+        <textarea
+          placeholder="Translated description"
+          value={draft.description}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraft(key, 'description', e.target.value)}
+          required
+          rows={3}
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <Button type="submit" size="sm" disabled={isLoading}>
+          Save
+        </Button>
+      </form>
+    );
+  };
+
+  const hasTranslation = translations.incident.some(t => t.locale === locale)
+    || translations.updates.some(t => t.locale === locale);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>🌐 Translations</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={locale} onValueChange={(value: string) => setLocale(value as Locale)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {locales.map(option => (
+                  <SelectItem key={option} value={option}>{localeNames[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasTranslation && (
+              <Button variant="outline" size="sm" onClick={handleRemove} disabled={isLoading}>
+                Remove {localeNames[locale]}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderForm(INCIDENT_KEY, incident, handleSaveIncident)}
+        {updates.map(update => renderForm(updateKey(update.id), update, handleSaveUpdate(update.id)))}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
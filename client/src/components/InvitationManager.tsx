@@ -0,0 +1,166 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { Invitation, InvitationStatus, CreateInvitationInput } from '../../../server/src/schema';
+
+interface InvitationManagerProps {
+  organizationId: number;
+}
+
+type InvitableRole = CreateInvitationInput['role'];
+
+export function InvitationManager({ organizationId }: InvitationManagerProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateInvitationInput>({
+    organization_id: organizationId,
+    email: '',
+    role: 'member'
+  });
+
+  const roleOptions: { value: InvitableRole; label: string }[] = [
+    { value: 'admin', label: '🛠️ Admin' },
+    { value: 'member', label: '👤 Member' },
+    { value: 'viewer', label: '👀 Viewer' }
+  ];
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      const result = await trpc.getInvitations.query({ organizationId });
+      setInvitations(result);
+    } catch (error) {
+      console.error('Failed to load invitations:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const invitation = await trpc.createInvitation.mutate(formData);
+      setInvitations((prev: Invitation[]) => [invitation, ...prev]);
+      setFormData((prev: CreateInvitationInput) => ({ ...prev, email: '' }));
+    } catch (error) {
+      console.error('Failed to send invitation:', error);
+      setError(error instanceof Error ? error.message : 'Could not send the invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (invitationId: number) => {
+    setIsLoading(true);
+    try {
+      const revoked = await trpc.revokeInvitation.mutate({ id: invitationId });
+      setInvitations((prev: Invitation[]) => prev.map((i: Invitation) => (i.id === invitationId ? revoked : i)));
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getStatusBadgeVariant = (status: InvitationStatus) => {
+    switch (status) {
+      case 'pending': return 'secondary';
+      case 'accepted': return 'default';
+      case 'revoked': return 'destructive';
+      case 'expired': return 'outline';
+      default: return 'outline';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">✉️ Invitations</h2>
+
+      {/* Invitation Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite a teammate</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="email"
+              placeholder="teammate@example.com"
+              value={formData.email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateInvitationInput) => ({ ...prev, email: e.target.value }))
+              }
+              required
+            />
+            <Select
+              value={formData.role || 'member'}
+              onValueChange={(value: InvitableRole) =>
+                setFormData((prev: CreateInvitationInput) => ({ ...prev, role: value }))
+              }
+            >
+              <SelectTrigger className="md:w-48">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                {roleOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Sending...' : '📨 Send Invite'}
+            </Button>
+          </form>
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Invitations List */}
+      <Card>
+        <CardContent className="pt-6">
+          {invitations.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No invitations sent yet</p>
+          ) : (
+            <div className="space-y-3">
+              {invitations.map((invitation: Invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium text-gray-900">{invitation.email}</div>
+                    <div className="text-xs text-gray-500">
+                      {invitation.role} · sent {invitation.created_at.toLocaleDateString()}
+                      {invitation.status === 'pending' && ` · expires ${invitation.expires_at.toLocaleString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={getStatusBadgeVariant(invitation.status)}>{invitation.status}</Badge>
+                    {invitation.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(invitation.id)}
+                        disabled={isLoading}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
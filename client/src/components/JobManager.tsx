@@ -0,0 +1,126 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { Job, JobQueue, JobStatus } from '../../../server/src/schema';
+
+interface JobManagerProps {
+  organizationId: number;
+}
+
+const statusOptions: { value: JobStatus; label: string }[] = [
+  { value: 'pending', label: '⏳ Pending' },
+  { value: 'running', label: '🏃 Running' },
+  { value: 'succeeded', label: '✅ Succeeded' },
+  { value: 'dead', label: '💀 Failed' }
+];
+
+const statusVariants: Record<JobStatus, 'default' | 'destructive' | 'outline' | 'secondary'> = {
+  pending: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  dead: 'destructive'
+};
+
+const jobTypeLabels: Record<string, string> = {
+  'subscribers.notify': 'Find email subscribers to notify',
+  'chat.notify': 'Find chat channels to post to',
+  'sms.notify': 'Find SMS subscribers to text',
+  'subscriber.email': 'Email a subscriber',
+  'chat.post': 'Post to a chat channel',
+  'sms.text': 'Text an SMS subscriber'
+};
+
+// Notifications are sent in the background; failed jobs are retried automatically until they run out of attempts
+export function JobManager({ organizationId }: JobManagerProps) {
+  const [queue, setQueue] = useState<JobQueue | null>(null);
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await trpc.getJobs.query({ organization_id: organizationId, status: status ?? undefined });
+      setQueue(result);
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+    }
+  }, [organizationId, status]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleRetry = async (job: Job) => {
+    setIsLoading(true);
+    try {
+      await trpc.retryJob.mutate({ id: job.id });
+      await loadJobs();
+    } catch (error) {
+      console.error('Failed to retry job:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">📬 Background Jobs</h2>
+        <Button variant="outline" onClick={loadJobs} disabled={isLoading}>
+          🔄 Refresh
+        </Button>
+      </div>
+
+      {/* Status filter with counts */}
+      <div className="flex flex-wrap gap-2">
+        <Button variant={status === null ? 'default' : 'outline'} size="sm" onClick={() => setStatus(null)}>
+          All
+        </Button>
+        {statusOptions.map((option) => (
+          <Button
+            key={option.value}
+            variant={status === option.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatus(option.value)}
+          >
+            {option.label} ({queue?.counts[option.value] ?? 0})
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          {!queue || queue.jobs.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No jobs</p>
+          ) : (
+            queue.jobs.map((job: Job) => (
+              <div key={job.id} className="flex items-center justify-between gap-4 text-sm border-b last:border-b-0 pb-3 last:pb-0">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={statusVariants[job.status]}>{job.status === 'dead' ? 'failed' : job.status}</Badge>
+                    <span className="font-medium">{jobTypeLabels[job.type] ?? job.type}</span>
+                  </div>
+                  <div className="text-gray-500">
+                    Queued {job.created_at.toLocaleString()}
+                    {' · '}
+                    {job.attempts} of {job.max_attempts} attempts
+                    {job.status === 'pending' && job.attempts > 0 && ` · Retrying ${job.run_at.toLocaleString()}`}
+                    {job.finished_at && ` · Finished ${job.finished_at.toLocaleString()}`}
+                  </div>
+                  {job.last_error && <div className="text-red-600 break-words">{job.last_error}</div>}
+                </div>
+                {job.status === 'dead' && (
+                  <Button size="sm" variant="outline" onClick={() => handleRetry(job)} disabled={isLoading}>
+                    🔁 Retry
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { localeNames, supportedLocales } from '@/lib/i18n';
+import { useState, useEffect } from 'react';
+import type { Locale, StatusPage } from '../../../server/src/schema';
+
+interface LocaleSettingsProps {
+  statusPage: StatusPage;
+  onUpdate: (statusPage: StatusPage) => void;
+}
+
+// Visitors see the page in the first enabled language their browser asks for, or in the default language
+export function LocaleSettings({ statusPage, onUpdate }: LocaleSettingsProps) {
+  const [defaultLocale, setDefaultLocale] = useState<Locale>(statusPage.default_locale);
+  const [enabledLocales, setEnabledLocales] = useState<Locale[]>(statusPage.enabled_locales);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDefaultLocale(statusPage.default_locale);
+    setEnabledLocales(statusPage.enabled_locales);
+    setError(null);
+  }, [statusPage.default_locale, statusPage.enabled_locales]);
+
+  const handleLocaleToggle = (locale: Locale) => {
+    setEnabledLocales((prev: Locale[]) =>
+      prev.includes(locale) ? prev.filter(l => l !== locale) : [...prev, locale]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      onUpdate(await trpc.updateStatusPage.mutate({
+        id: statusPage.id,
+        default_locale: defaultLocale,
+        // The default language is always enabled
+        enabled_locales: [defaultLocale, ...enabledLocales.filter(l => l !== defaultLocale)]
+      }));
+    } catch (error) {
+      console.error('Failed to save languages:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save languages');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🌐 Languages</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Enabled languages</label>
+            <div className="flex flex-wrap gap-4">
+              {supportedLocales.map(locale => (
+                <label key={locale} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={enabledLocales.includes(locale) || locale === defaultLocale}
+                    disabled={locale === defaultLocale}
+                    onChange={() => handleLocaleToggle(locale)}
+                    className="rounded"
+                  />
+                  <span className="text-sm">{localeNames[locale]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Default language</label>
+            <Select value={defaultLocale} onValueChange={(value: string) => setDefaultLocale(value as Locale)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {supportedLocales.map(locale => (
+                  <SelectItem key={locale} value={locale}>{localeNames[locale]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              Incidents are written in the default language. Translations for the other languages are added per incident.
+            </p>
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : 'Save Languages'}
+          </Button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
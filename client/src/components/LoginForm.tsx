@@ -0,0 +1,294 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { AuthUser, LoginInput, CreateUserInput } from '../../../server/src/schema';
+
+interface LoginFormProps {
+  onLogin: (user: AuthUser) => void;
+}
+
+export function LoginForm({ onLogin }: LoginFormProps) {
+  const [mode, setMode] = useState<'login' | 'signup' | 'forgot' | 'sso' | 'two-factor'>('login');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [organizationSlug, setOrganizationSlug] = useState('');
+  const [formData, setFormData] = useState<CreateUserInput>({
+    email: '',
+    password: '',
+    first_name: '',
+    last_name: '',
+    role: 'member'
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      if (mode === 'forgot') {
+        await trpc.requestPasswordReset.mutate({ email: formData.email });
+        setNotice('If an account exists for that email, a password reset link is on its way.');
+        return;
+      }
+
+      if (mode === 'sso') {
+        const result = await trpc.startSsoLogin.mutate({ organization_slug: organizationSlug.trim() });
+        // The identity provider sends the browser back to /sso/callback
+        window.location.assign(result.authorization_url);
+        return;
+      }
+
+      if (mode === 'signup') {
+        await trpc.createUser.mutate(formData);
+      }
+
+      const credentials: LoginInput = { email: formData.email, password: formData.password };
+      const result = await trpc.login.mutate(credentials);
+      if (result.user) {
+        onLogin(result.user);
+      } else {
+        setMode('two-factor');
+      }
+    } catch (error) {
+      console.error('Authentication failed:', error);
+      setError(
+        mode === 'login'
+          ? error instanceof Error && /deactivated/i.test(error.message) ? error.message : 'Invalid email or password'
+          : mode === 'signup'
+            ? 'Could not create account'
+            : mode === 'sso'
+              ? error instanceof Error ? error.message : 'Could not start single sign-on'
+              : 'Could not request a password reset'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const user = await trpc.verifyTwoFactorLogin.mutate({ code: twoFactorCode });
+      onLogin(user);
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      // The challenge is discarded after too many attempts or when it expires, so send the user back to the start
+      if (error instanceof Error && /expired/i.test(error.message)) {
+        setMode('login');
+        setTwoFactorCode('');
+        setError('Your sign-in attempt expired. Please sign in again.');
+      } else {
+        setError('Invalid authentication code');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (mode === 'two-factor') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="flex items-center gap-2 mb-2">
+              <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">E</span>
+              </div>
+              <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+            </div>
+            <CardTitle>📱 Two-factor authentication</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="two-factor-code" className="block text-sm font-medium mb-1">
+                  Authentication code *
+                </label>
+                <Input
+                  id="two-factor-code"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={twoFactorCode}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTwoFactorCode(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? 'Please wait...' : '✅ Verify'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+          </div>
+          <CardTitle>
+            {mode === 'login'
+              ? 'Sign in to your account'
+              : mode === 'signup' ? 'Create your account' : mode === 'sso' ? 'Sign in with SSO' : 'Reset your password'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'signup' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="first-name" className="block text-sm font-medium mb-1">
+                    First Name *
+                  </label>
+                  <Input
+                    id="first-name"
+                    value={formData.first_name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateUserInput) => ({ ...prev, first_name: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="last-name" className="block text-sm font-medium mb-1">
+                    Last Name *
+                  </label>
+                  <Input
+                    id="last-name"
+                    value={formData.last_name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateUserInput) => ({ ...prev, last_name: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+              </div>
+            )}
+
+            {mode === 'sso' ? (
+              <div>
+                <label htmlFor="organization-slug" className="block text-sm font-medium mb-1">
+                  Organization *
+                </label>
+                <Input
+                  id="organization-slug"
+                  placeholder="your-organization"
+                  value={organizationSlug}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOrganizationSlug(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The organization's slug, as used in its status page address.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium mb-1">
+                  Email *
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={formData.email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateUserInput) => ({ ...prev, email: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+            )}
+
+            {mode !== 'forgot' && mode !== 'sso' && (
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium mb-1">
+                  Password *
+                </label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={formData.password}
+                  minLength={mode === 'signup' ? 8 : undefined}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateUserInput) => ({ ...prev, password: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+            <Button type="submit" disabled={isLoading} className="w-full">
+              {isLoading
+                ? 'Please wait...'
+                : mode === 'login'
+                  ? '🔐 Sign In'
+                  : mode === 'signup' ? '🚀 Create Account' : mode === 'sso' ? '🏢 Continue' : '📨 Send Reset Link'}
+            </Button>
+          </form>
+
+          {mode === 'login' && (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  setMode('forgot');
+                  setError(null);
+                }}
+                className="w-full mt-4 text-sm text-gray-600 hover:text-gray-700"
+              >
+                Forgot your password?
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setMode('sso');
+                  setError(null);
+                }}
+                className="w-full mt-4 text-sm text-gray-600 hover:text-gray-700"
+              >
+                🏢 Sign in with SSO
+              </button>
+            </>
+          )}
+
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'login' ? 'signup' : 'login');
+              setError(null);
+              setNotice(null);
+            }}
+            className="w-full mt-4 text-sm text-blue-600 hover:text-blue-700"
+          >
+            {mode === 'login' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+          </button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,16 +16,17 @@ interface MaintenanceManagerProps {
   statusPageId: number;
   maintenanceWindows: MaintenanceWindow[];
   components: Component[];
-  userId: number;
   onMaintenanceChange: (windows: MaintenanceWindow[]) => void;
+  // Starting or ending a window changes the status of its affected components
+  onComponentsChange?: () => void;
 }
 
 export function MaintenanceManager({ 
   statusPageId, 
   maintenanceWindows, 
   components, 
-  userId, 
-  onMaintenanceChange 
+  onMaintenanceChange,
+  onComponentsChange
 }: MaintenanceManagerProps) {
   const [showForm, setShowForm] = useState(false);
   const [editingMaintenance, setEditingMaintenance] = useState<MaintenanceWindow | null>(null);
@@ -37,7 +38,6 @@ export function MaintenanceManager({
     description: '',
     scheduled_start: new Date(),
     scheduled_end: new Date(),
-    created_by: userId,
     affected_component_ids: []
   });
 
@@ -58,7 +58,6 @@ export function MaintenanceManager({
       description: '',
       scheduled_start: now,
       scheduled_end: later,
-      created_by: userId,
       affected_component_ids: []
     });
     setEditingMaintenance(null);
@@ -105,7 +104,6 @@ export function MaintenanceManager({
       description: maintenance.description,
       scheduled_start: maintenance.scheduled_start,
       scheduled_end: maintenance.scheduled_end,
-      created_by: userId,
       affected_component_ids: [] // We'd need to fetch this from the backend
     });
     setEditingMaintenance(maintenance);
@@ -127,6 +125,7 @@ export function MaintenanceManager({
       onMaintenanceChange(maintenanceWindows.map((m: MaintenanceWindow) => 
         m.id === maintenanceId ? updatedMaintenance : m
       ));
+      onComponentsChange?.();
     } catch (error) {
       console.error('Failed to update maintenance status:', error);
     } finally {
@@ -134,6 +133,20 @@ export function MaintenanceManager({
     }
   };
 
+  const handleDownloadCalendar = async (maintenance: MaintenanceWindow) => {
+    try {
+      const ics = await trpc.getMaintenanceWindowCalendar.query({ maintenanceWindowId: maintenance.id });
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `maintenance-${maintenance.id}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download maintenance calendar:', error);
+    }
+  };
+
   const handleComponentToggle = (componentId: number) => {
     setFormData((prev: CreateMaintenanceWindowInput) => ({
       ...prev,
@@ -396,6 +409,14 @@ export function MaintenanceManager({
                   </div>
                   
                   <div className="flex gap-2 ml-4">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownloadCalendar(maintenance)}
+                      title="Download as an iCalendar (.ics) event"
+                    >
+                      📆 Add to calendar
+                    </Button>
                     {maintenance.status === 'scheduled' && (
                       <>
                         <Button
@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { Organization, CreateOrganizationInput } from '../../../server/src/schema';
+
+interface OrganizationFormProps {
+  onSuccess: (organization: Organization) => void;
+}
+
+export function OrganizationForm({ onSuccess }: OrganizationFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<CreateOrganizationInput>({
+    name: '',
+    slug: '',
+    plan_type: 'free'
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const organization = await trpc.createOrganization.mutate(formData);
+      onSuccess(organization);
+    } catch (error) {
+      console.error('Failed to create organization:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-lg mx-auto">
+      <CardHeader>
+        <CardTitle>🏢 Create your organization</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="organization-name" className="block text-sm font-medium mb-1">
+              Organization Name *
+            </label>
+            <Input
+              id="organization-name"
+              placeholder="EdgeTech Corp"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateOrganizationInput) => ({
+                  ...prev,
+                  name: e.target.value,
+                  slug: e.target.value.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+                }))
+              }
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="organization-slug" className="block text-sm font-medium mb-1">
+              Slug *
+            </label>
+            <Input
+              id="organization-slug"
+              placeholder="edgetech-corp"
+              value={formData.slug}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateOrganizationInput) => ({
+                  ...prev,
+                  slug: e.target.value.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+                }))
+              }
+              required
+            />
+          </div>
+
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Creating...' : '🚀 Create Organization'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import type { StatusPage, StatusPageAccess } from '../../../server/src/schema';
+
+interface PrivateAccessSettingsProps {
+  statusPage: StatusPage;
+  onUpdate: (statusPage: StatusPage) => void;
+}
+
+// Members of the organization can always view a private page; these settings open it to others
+export function PrivateAccessSettings({ statusPage, onUpdate }: PrivateAccessSettingsProps) {
+  const [access, setAccess] = useState<StatusPageAccess | null>(null);
+  const [password, setPassword] = useState('');
+  const [allowlist, setAllowlist] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    setPassword('');
+    trpc.getStatusPageAccess.query({ status_page_id: statusPage.id })
+      .then((result: StatusPageAccess) => {
+        setAccess(result);
+        setAllowlist(result.ip_allowlist.join('\n'));
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load page access:', error);
+        setAccess(null);
+      });
+  }, [statusPage.id]);
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateAccess = (input: { password?: string | null; ip_allowlist?: string[] }, failureMessage: string) => {
+    return runAction(async () => {
+      const result = await trpc.updateStatusPageAccess.mutate({ status_page_id: statusPage.id, ...input });
+      setAccess(result);
+      setAllowlist(result.ip_allowlist.join('\n'));
+      setPassword('');
+    }, failureMessage);
+  };
+
+  const handleToggleVisibility = () => {
+    return runAction(async () => {
+      onUpdate(await trpc.updateStatusPage.mutate({ id: statusPage.id, is_public: !statusPage.is_public }));
+    }, 'Failed to change visibility');
+  };
+
+  const handleSetPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    return updateAccess({ password }, 'Failed to set page password');
+  };
+
+  const handleSaveAllowlist = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entries = allowlist.split(/[\s,]+/).filter(entry => entry !== '');
+    return updateAccess({ ip_allowlist: entries }, 'Failed to save IP allowlist');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🔒 Private Access</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {statusPage.is_public
+              ? 'Anyone with the link can view this page.'
+              : 'Only organization members, visitors with the page password and allowlisted addresses can view this page.'}
+          </p>
+          <Button variant="outline" onClick={handleToggleVisibility} disabled={isLoading}>
+            {statusPage.is_public ? 'Make Private' : 'Make Public'}
+          </Button>
+        </div>
+
+        {access && (
+          <>
+            <form onSubmit={handleSetPassword} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium">Page password</label>
+                <Badge variant={access.password_protected ? 'default' : 'outline'}>
+                  {access.password_protected ? 'Set' : 'Not set'}
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  placeholder={access.password_protected ? 'New password' : 'At least 8 characters'}
+                  value={password}
+                  minLength={8}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                />
+                <Button type="submit" disabled={isLoading || password.length < 8}>
+                  Save
+                </Button>
+                {access.password_protected && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={isLoading}
+                    onClick={() => updateAccess({ password: null }, 'Failed to remove page password')}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Changing or removing the password signs out everyone who unlocked the page with it.
+              </p>
+            </form>
+
+            <form onSubmit={handleSaveAllowlist} className="space-y-2">
+              <label className="block text-sm font-medium">IP allowlist</label>
+              <Textarea
+                placeholder={'10.0.0.0/8\n203.0.113.7'}
+                value={allowlist}
+                rows={4}
+                className="font-mono"
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setAllowlist(e.target.value)}
+              />
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-gray-500">One address or CIDR range per line.</p>
+                <Button type="submit" variant="outline" disabled={isLoading}>
+                  Save Allowlist
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,546 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { UptimeBars } from '@/components/UptimeBars';
+import { IncidentHistory } from '@/components/IncidentHistory';
+import {
+  LocaleContext,
+  catalogs,
+  formatDateTime,
+  localeNames,
+  pickLocale,
+  supportedLocales,
+  translated,
+  useMessages
+} from '@/lib/i18n';
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  ComponentStatus,
+  ComponentUptime,
+  IncidentHistoryFilters,
+  Locale,
+  PublicIncident,
+  PublicMaintenanceWindow,
+  PublicStatusPage as PublicStatusPageData
+} from '../../../server/src/schema';
+
+interface PublicStatusPageProps {
+  slug: string;
+}
+
+const statusColors: Record<ComponentStatus, string> = {
+  operational: 'bg-green-500',
+  performance_issues: 'bg-yellow-500',
+  partial_outage: 'bg-orange-500',
+  major_outage: 'bg-red-500',
+  under_maintenance: 'bg-blue-500'
+};
+
+// Before a page has loaded its languages are unknown, so any supported language the visitor asks for is used
+const visitorMessages = () => catalogs[pickLocale('en', supportedLocales)];
+
+function IncidentTimeline({ incident }: { incident: PublicIncident }) {
+  const { locale, messages } = useMessages();
+  const text = translated(incident, incident.translations, locale);
+  return (
+    <div id={`incident-${incident.id}`} className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">{text.title}</h3>
+          <p className="text-sm text-gray-600">{text.description}</p>
+        </div>
+        <Badge variant={incident.status === 'resolved' ? 'secondary' : 'destructive'}>
+          {messages.statusLabels[incident.status]}
+        </Badge>
+      </div>
+      {incident.updates.length > 0 && (
+        <div className="border-l-2 border-gray-200 pl-4 space-y-3">
+          {incident.updates.map(update => {
+            const updateText = translated(update, update.translations, locale);
+            return (
+              <div key={update.id}>
+                <div className="text-sm">
+                  <span className="font-medium">{messages.statusLabels[update.status]}</span>
+                  {' — '}
+                  <span className="font-medium">{updateText.title}</span>
+                </div>
+                <p className="text-sm text-gray-700">{updateText.description}</p>
+                <div className="text-xs text-gray-500">{formatDateTime(update.created_at, locale)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="text-xs text-gray-500">
+        {incident.resolved_at
+          ? messages.resolved(formatDateTime(incident.resolved_at, locale))
+          : messages.started(formatDateTime(incident.created_at, locale))}
+      </div>
+    </div>
+  );
+}
+
+function MaintenanceItem({ maintenance }: { maintenance: PublicMaintenanceWindow }) {
+  const { locale, messages } = useMessages();
+  return (
+    <div id={`maintenance-${maintenance.id}`} className="border rounded-lg p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold">{maintenance.title}</h3>
+          <p className="text-sm text-gray-600">{maintenance.description}</p>
+        </div>
+        <Badge variant="outline">{messages.statusLabels[maintenance.status]}</Badge>
+      </div>
+      <div className="text-xs text-gray-500 mt-2">
+        {formatDateTime(maintenance.scheduled_start, locale)} – {formatDateTime(maintenance.scheduled_end, locale)}
+      </div>
+    </div>
+  );
+}
+
+// Double opt-in: nothing is sent to the address until the link in the confirmation email is followed
+function SubscribeForm({ slug }: { slug: string }) {
+  const { messages } = useMessages();
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.subscribeToStatusPage.mutate({ slug, email });
+      setIsSubscribed(true);
+    } catch (error) {
+      console.error('Failed to subscribe:', error);
+      setError(error instanceof Error ? error.message : 'Failed to subscribe');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSubscribed) {
+    return <p className="text-sm text-gray-700">✉️ {messages.checkInbox}</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          placeholder={messages.emailPlaceholder}
+          value={email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? messages.subscribing : messages.subscribe}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+// Nothing but the verification code is texted until the number enters it here
+function SmsSubscribeForm({ slug }: { slug: string }) {
+  const { messages } = useMessages();
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'phone' | 'code' | 'subscribed'>('phone');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.subscribeToSmsUpdates.mutate({ slug, phone_number: phoneNumber });
+      setStep('code');
+    } catch (error) {
+      console.error('Failed to subscribe by SMS:', error);
+      setError(error instanceof Error ? error.message : 'Failed to subscribe');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.verifySmsSubscription.mutate({ slug, phone_number: phoneNumber, code });
+      setStep('subscribed');
+    } catch (error) {
+      console.error('Failed to verify SMS subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to verify');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (step === 'subscribed') {
+    return <p className="text-sm text-gray-700">📱 {messages.smsSubscribed}</p>;
+  }
+
+  if (step === 'code') {
+    return (
+      <form onSubmit={handleVerify} className="space-y-2">
+        <p className="text-sm text-gray-700">{messages.codeSent(phoneNumber)}</p>
+        <div className="flex gap-2">
+          <Input
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder={messages.codePlaceholder}
+            value={code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+            required
+          />
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? messages.verifying : messages.verify}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleRequestCode} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="tel"
+          autoComplete="tel"
+          placeholder={messages.phonePlaceholder}
+          value={phoneNumber}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPhoneNumber(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? messages.sendingCode : messages.sendCode}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+// Public, read-only view of a status page; rendered outside the dashboard and needs no account
+// Without a slug, the page unlocked is the one served on the current custom domain
+export function StatusPageUnlockForm({ slug, onUnlocked }: { slug?: string; onUnlocked: () => void }) {
+  const messages = visitorMessages();
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.unlockStatusPage.mutate({ slug, password });
+      onUnlocked();
+    } catch (error) {
+      console.error('Failed to unlock status page:', error);
+      setError(error instanceof Error ? error.message : 'Failed to unlock status page');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="py-8 space-y-4">
+          <div className="text-center">
+            <div className="text-4xl mb-2">🔒</div>
+            <h1 className="text-xl font-semibold">{messages.privateTitle}</h1>
+            <p className="text-sm text-gray-600 mt-1">{messages.privateHint}</p>
+          </div>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <Input
+              type="password"
+              placeholder={messages.pagePassword}
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              required
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? messages.unlocking : messages.unlock}
+            </Button>
+          </form>
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function PublicStatusPage({ slug }: PublicStatusPageProps) {
+  const [data, setData] = useState<PublicStatusPageData | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [unlockCount, setUnlockCount] = useState(0);
+
+  useEffect(() => {
+    setIsLocked(false);
+    trpc.getPublicStatusPage.query({ slug })
+      .then(setData)
+      .catch((error: unknown) => {
+        // The server tells visitors who may not see a private page that it is private, so they can unlock it
+        if (error instanceof Error && error.message === 'Status page is private') {
+          setIsLocked(true);
+          return;
+        }
+        console.error('Failed to load status page:', error);
+        setNotFound(true);
+      });
+  }, [slug, unlockCount]);
+
+  if (isLocked) {
+    return <StatusPageUnlockForm slug={slug} onUnlocked={() => setUnlockCount((count: number) => count + 1)} />;
+  }
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8 text-center">
+            <div className="text-4xl mb-2">🔍</div>
+            <h1 className="text-xl font-semibold">{visitorMessages().notFoundTitle}</h1>
+            <p className="text-sm text-gray-600 mt-1">{visitorMessages().notFoundHint}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-500">{visitorMessages().loading}</p>
+      </div>
+    );
+  }
+
+  return <PublicStatusPageView data={data} />;
+}
+
+// Also rendered directly when a custom domain has already resolved the page
+export function PublicStatusPageView({ data }: { data: PublicStatusPageData }) {
+  const [locale, setLocale] = useState<Locale>(() => pickLocale(data.page.default_locale, data.page.enabled_locales));
+  const messages = catalogs[locale];
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Kept in the address so a shared link opens in the same language
+  const handleLocaleChange = (value: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('lang', value);
+    window.history.replaceState(null, '', url);
+    setLocale(value as Locale);
+  };
+
+  useEffect(() => {
+    document.title = `${data.page.name} Status`;
+  }, [data.page.name]);
+
+  // Lets feed readers discover the page's feeds from its URL alone
+  useEffect(() => {
+    const links = (['rss', 'atom'] as const).map(format => {
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.type = `application/${format}+xml`;
+      link.title = `${data.page.name} status history`;
+      link.href = `${data.page.url}/history.${format}`;
+      document.head.appendChild(link);
+      return link;
+    });
+    return () => links.forEach(link => link.remove());
+  }, [data.page.name, data.page.url]);
+
+  // Uptime bars are a nice-to-have; the page renders without them
+  const [uptime, setUptime] = useState<ComponentUptime[]>([]);
+  useEffect(() => {
+    trpc.getPublicUptime.query({ slug: data.page.slug })
+      .then(setUptime)
+      .catch((error: unknown) => console.error('Failed to load uptime:', error));
+  }, [data.page.slug]);
+
+  const [showHistory, setShowHistory] = useState(false);
+  const loadHistory = useCallback((filters: Omit<IncidentHistoryFilters, 'limit'>) => {
+    return trpc.getPublicIncidentHistory.query({ slug: data.page.slug, ...filters });
+  }, [data.page.slug]);
+
+  const { page, overall_status, components, active_incidents, upcoming_maintenance, past_incidents } = data;
+  const brandColor = page.branding_primary_color || '#2563eb';
+
+  return (
+    <LocaleContext.Provider value={locale}>
+      <div className="min-h-screen bg-gray-50">
+        <header className="text-white" style={{ backgroundColor: brandColor }}>
+          <div className="max-w-3xl mx-auto px-4 py-8 flex items-center gap-4">
+            {page.branding_logo_url && (
+              <img src={page.branding_logo_url} alt={page.name} className="h-10 w-10 rounded bg-white object-contain" />
+            )}
+            <div className="flex-1">
+              <h1 className="text-2xl font-bold">{page.name}</h1>
+              {page.description && <p className="text-sm opacity-90">{page.description}</p>}
+            </div>
+            {page.enabled_locales.length > 1 && (
+              <Select value={locale} onValueChange={handleLocaleChange}>
+                <SelectTrigger className="w-32 bg-white text-gray-900" aria-label={messages.language}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {page.enabled_locales.map(option => (
+                    <SelectItem key={option} value={option}>{localeNames[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </header>
+
+        <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+          <Card>
+            <CardContent className="py-6 flex items-center gap-4">
+              <div className={`w-4 h-4 rounded-full ${statusColors[overall_status]}`}></div>
+              <div className="font-semibold text-lg">{messages.overallHeadlines[overall_status]}</div>
+            </CardContent>
+          </Card>
+
+          {active_incidents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>🚨 {messages.activeIncidents}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {active_incidents.map(incident => (
+                  <IncidentTimeline key={incident.id} incident={incident} />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>🔧 {messages.components}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {components.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">{messages.noComponents}</p>
+              ) : (
+                <div className="space-y-3">
+                  {components.map(component => {
+                    const componentUptime = uptime.find(u => u.component_id === component.id);
+                    return (
+                      <div key={component.id} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="flex items-center gap-3">
+                              <div className={`w-3 h-3 rounded-full ${statusColors[component.status]}`}></div>
+                              <span className="font-medium">{component.name}</span>
+                            </div>
+                            {component.description && (
+                              <p className="text-xs text-gray-500 ml-6">{component.description}</p>
+                            )}
+                          </div>
+                          <span className="text-sm text-gray-700">{messages.statusLabels[component.status]}</span>
+                        </div>
+                        {componentUptime && <UptimeBars uptime={componentUptime} />}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {upcoming_maintenance.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>⚙️ {messages.scheduledMaintenance}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {upcoming_maintenance.map(maintenance => (
+                  <MaintenanceItem key={maintenance.id} maintenance={maintenance} />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{showHistory ? `🗂️ ${messages.incidentHistory}` : `📋 ${messages.pastIncidents}`}</CardTitle>
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {showHistory ? messages.recentIncidents : messages.browseHistory}
+                </button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {showHistory ? (
+                <IncidentHistory
+                  components={components}
+                  load={loadHistory}
+                  renderIncident={incident => <IncidentTimeline incident={incident} />}
+                />
+              ) : past_incidents.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">{messages.noIncidents}</p>
+              ) : (
+                past_incidents.map(incident => (
+                  <IncidentTimeline key={incident.id} incident={incident} />
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>✉️ {messages.subscribeByEmail}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SubscribeForm slug={page.slug} />
+            </CardContent>
+          </Card>
+
+          {data.sms_subscriptions && (
+            <Card>
+              <CardHeader>
+                <CardTitle>📱 {messages.subscribeBySms}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SmsSubscribeForm slug={page.slug} />
+              </CardContent>
+            </Card>
+          )}
+        </main>
+
+        <footer className="text-center text-xs text-gray-400 pb-8 space-y-1">
+          <div>
+            {messages.feeds}{' '}
+            <a href={`${page.url}/history.rss`} className="underline hover:text-gray-600">RSS</a>
+            {' · '}
+            <a href={`${page.url}/history.atom`} className="underline hover:text-gray-600">Atom</a>
+            {' · '}
+            <a href={`${page.url}/maintenance.ics`} className="underline hover:text-gray-600">{messages.maintenanceCalendar}</a>
+          </div>
+          <div>{messages.poweredBy}</div>
+        </footer>
+      </div>
+    </LocaleContext.Provider>
+  );
+}
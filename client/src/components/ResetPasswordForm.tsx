@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+
+interface ResetPasswordFormProps {
+  token: string;
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [completed, setCompleted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmation) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await trpc.resetPassword.mutate({ token, password });
+      setCompleted(true);
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+      setError('This reset link is invalid, has expired or has already been used.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+          </div>
+          <CardTitle>🔑 Choose a new password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {completed ? (
+            <div className="space-y-4">
+              <p className="text-gray-700">✅ Your password has been changed. Sign in with your new password.</p>
+              <Button className="w-full" onClick={() => window.location.assign('/')}>
+                Go to sign in
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="reset-password" className="block text-sm font-medium mb-1">
+                  New Password *
+                </label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  minLength={8}
+                  value={password}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="reset-password-confirmation" className="block text-sm font-medium mb-1">
+                  Confirm Password *
+                </label>
+                <Input
+                  id="reset-password-confirmation"
+                  type="password"
+                  minLength={8}
+                  value={confirmation}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmation(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" disabled={isLoading} className="w-full">
+                {isLoading ? 'Please wait...' : '🔐 Reset Password'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { SmsEventType, SmsRuleComponentStatus, SmsSubscriber, SmsUsage } from '../../../server/src/schema';
+
+interface SmsManagerProps {
+  statusPageId: number;
+  organizationId: number;
+}
+
+const eventLabels: Record<SmsEventType, string> = {
+  'incident.created': 'New incidents',
+  'incident.updated': 'Incident updates',
+  'incident.resolved': 'Resolved incidents',
+  'maintenance.scheduled': 'Scheduled maintenance',
+  'maintenance.started': 'Maintenance started',
+  'maintenance.completed': 'Maintenance completed'
+};
+
+const minStatusLabels: Record<SmsRuleComponentStatus, string> = {
+  performance_issues: 'Performance issues or worse',
+  partial_outage: 'Partial outage or worse',
+  major_outage: 'Major outage only'
+};
+
+// Which events are texted; incident events may require an affected component to be down this far
+type RuleSelection = Partial<Record<SmsEventType, SmsRuleComponentStatus | null>>;
+
+// Visitors subscribe from the public page once the page has rules; notification texts count against the organization's monthly quota, verification codes do not
+export function SmsManager({ statusPageId, organizationId }: SmsManagerProps) {
+  const [rules, setRules] = useState<RuleSelection>({});
+  const [subscribers, setSubscribers] = useState<SmsSubscriber[]>([]);
+  const [usage, setUsage] = useState<SmsUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSmsSettings = useCallback(async () => {
+    try {
+      const [ruleResult, subscriberResult, usageResult] = await Promise.all([
+        trpc.getSmsRules.query({ status_page_id: statusPageId }),
+        trpc.getSmsSubscribers.query({ status_page_id: statusPageId }),
+        trpc.getSmsUsage.query({ organizationId })
+      ]);
+      setRules(Object.fromEntries(ruleResult.map(rule => [rule.event_type, rule.min_component_status as SmsRuleComponentStatus | null])));
+      setSubscribers(subscriberResult);
+      setUsage(usageResult);
+    } catch (error) {
+      console.error('Failed to load SMS settings:', error);
+    }
+  }, [statusPageId, organizationId]);
+
+  useEffect(() => {
+    loadSmsSettings();
+  }, [loadSmsSettings]);
+
+  const handleEventToggle = (eventType: SmsEventType) => {
+    setRules((prev: RuleSelection) => {
+      const next = { ...prev };
+      if (eventType in next) {
+        delete next[eventType];
+      } else {
+        next[eventType] = null;
+      }
+      return next;
+    });
+  };
+
+  const handleSaveRules = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const saved = await trpc.setSmsRules.mutate({
+        status_page_id: statusPageId,
+        rules: (Object.keys(eventLabels) as SmsEventType[])
+          .filter(eventType => eventType in rules)
+          .map(eventType => ({ event_type: eventType, min_component_status: rules[eventType] ?? null }))
+      });
+      setRules(Object.fromEntries(saved.map(rule => [rule.event_type, rule.min_component_status as SmsRuleComponentStatus | null])));
+      setMessage('SMS rules saved');
+    } catch (error) {
+      console.error('Failed to save SMS rules:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to save SMS rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (subscriberId: number) => {
+    setIsLoading(true);
+    try {
+      await trpc.deleteSmsSubscriber.mutate({ id: subscriberId });
+      setSubscribers((prev: SmsSubscriber[]) => prev.filter((s: SmsSubscriber) => s.id !== subscriberId));
+    } catch (error) {
+      console.error('Failed to remove SMS subscriber:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifiedCount = subscribers.filter((s: SmsSubscriber) => s.verified_at !== null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>📱 SMS Notifications</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {usage && (
+          usage.quota === 0 ? (
+            <p className="text-sm text-gray-600">
+              Text messages are not included in the {usage.plan_type} plan. Upgrade to send SMS notifications.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {usage.used} of {usage.quota} texts sent this month across the organization
+              (resets {usage.period_end.toLocaleDateString()})
+            </p>
+          )
+        )}
+
+        <form onSubmit={handleSaveRules} className="space-y-3">
+          <label className="block text-sm font-medium">Text subscribers about</label>
+          {(Object.keys(eventLabels) as SmsEventType[]).map(eventType => (
+            <div key={eventType} className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={eventType in rules}
+                  onChange={() => handleEventToggle(eventType)}
+                  className="rounded"
+                />
+                <span className="text-sm">{eventLabels[eventType]}</span>
+              </label>
+              {eventType.startsWith('incident.') && eventType in rules && (
+                <Select
+                  value={rules[eventType] ?? 'any'}
+                  onValueChange={(value: string) =>
+                    setRules((prev: RuleSelection) => ({
+                      ...prev,
+                      [eventType]: value === 'any' ? null : value as SmsRuleComponentStatus
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any incident</SelectItem>
+                    {(Object.keys(minStatusLabels) as SmsRuleComponentStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{minStatusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Visitors can only subscribe by SMS while at least one event is selected. A component status limits texts
+            to incidents that took an affected component at least that far down.
+          </p>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : 'Save SMS Rules'}
+          </Button>
+          {message && <p className="text-sm text-gray-700">{message}</p>}
+        </form>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium">Subscribers</label>
+          {subscribers.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No SMS subscribers yet</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {verifiedCount} verified of {subscribers.length}
+              </p>
+              {subscribers.map((subscriber: SmsSubscriber) => (
+                <div key={subscriber.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium font-mono">{subscriber.phone_number}</div>
+                    <div className="text-xs text-gray-500">
+                      Subscribed {subscriber.created_at.toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={subscriber.verified_at ? 'default' : 'secondary'}>
+                      {subscriber.verified_at ? 'Verified' : 'Pending'}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(subscriber.id)}
+                      disabled={isLoading}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useRef } from 'react';
+
+interface SsoCallbackProps {
+  code: string;
+  state: string;
+}
+
+export function SsoCallback({ code, state }: SsoCallbackProps) {
+  const [error, setError] = useState<string | null>(null);
+  // Authorization codes are single use, so guard against the effect running twice in development
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    trpc.completeSsoLogin.mutate({ code, state })
+      .then(() => window.location.replace('/'))
+      .catch((error: unknown) => {
+        console.error('Failed to complete single sign-on:', error);
+        setError(error instanceof Error ? error.message : 'Single sign-on failed. Please try again.');
+      });
+  }, [code, state]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+          </div>
+          <CardTitle>🏢 Single sign-on</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">{error ?? 'Signing you in...'}</p>
+          {error && (
+            <Button className="w-full" onClick={() => window.location.assign('/')}>
+              Back to sign in
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { PlanType, SsoConnection, SsoRole, SsoRoleMapping } from '../../../server/src/schema';
+
+interface SsoSettingsProps {
+  organizationId: number;
+  planType: PlanType;
+}
+
+interface SsoFormData {
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  allowed_domains: string;
+  default_role: SsoRole;
+  groups_claim: string;
+  role_mappings: { group: string; role: SsoRole }[];
+  is_enabled: boolean;
+}
+
+const emptyForm: SsoFormData = {
+  issuer: '',
+  client_id: '',
+  client_secret: '',
+  allowed_domains: '',
+  default_role: 'member',
+  groups_claim: '',
+  role_mappings: [],
+  is_enabled: true
+};
+
+const roleOptions: { value: SsoRole; label: string }[] = [
+  { value: 'admin', label: '🛠️ Admin' },
+  { value: 'member', label: '👤 Member' },
+  { value: 'viewer', label: '👀 Viewer' }
+];
+
+const toFormData = (connection: SsoConnection): SsoFormData => ({
+  issuer: connection.issuer,
+  client_id: connection.client_id,
+  client_secret: '',
+  allowed_domains: connection.allowed_domains.join(', '),
+  default_role: connection.default_role,
+  groups_claim: connection.groups_claim ?? '',
+  role_mappings: connection.role_mappings.map((mapping: SsoRoleMapping) => ({ ...mapping })),
+  is_enabled: connection.is_enabled
+});
+
+export function SsoSettings({ organizationId, planType }: SsoSettingsProps) {
+  const [connection, setConnection] = useState<SsoConnection | null>(null);
+  const [formData, setFormData] = useState<SsoFormData>(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConnection = useCallback(async () => {
+    try {
+      const result = await trpc.getSsoConnection.query({ organizationId });
+      setConnection(result);
+      setFormData(result ? toFormData(result) : emptyForm);
+    } catch (error) {
+      console.error('Failed to load SSO connection:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadConnection();
+  }, [loadConnection]);
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      await loadConnection();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(() => trpc.upsertSsoConnection.mutate({
+      organization_id: organizationId,
+      issuer: formData.issuer.trim(),
+      client_id: formData.client_id.trim(),
+      // Left blank when editing to keep the stored secret
+      client_secret: formData.client_secret || undefined,
+      allowed_domains: formData.allowed_domains.split(/[\s,]+/).filter(Boolean),
+      default_role: formData.default_role,
+      groups_claim: formData.groups_claim.trim() || null,
+      role_mappings: formData.role_mappings.filter((mapping) => mapping.group.trim()),
+      is_enabled: formData.is_enabled
+    }), 'Failed to save SSO connection');
+  };
+
+  const handleVerifyDomain = (domain: string) => {
+    return runAction(() => trpc.verifySsoDomain.mutate({ organizationId, domain }), 'Failed to verify domain');
+  };
+
+  const handleDelete = () => {
+    if (!confirm('Remove single sign-on? Members will need to sign in with a password.')) return;
+    return runAction(() => trpc.deleteSsoConnection.mutate({ organizationId }), 'Failed to remove SSO connection');
+  };
+
+  const updateMapping = (index: number, changes: Partial<SsoFormData['role_mappings'][number]>) => {
+    setFormData((prev: SsoFormData) => ({
+      ...prev,
+      role_mappings: prev.role_mappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping))
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🏢 Single Sign-On
+          {connection && (
+            <Badge variant={connection.is_enabled ? 'default' : 'outline'}>
+              {connection.is_enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {planType !== 'enterprise' ? (
+          <p className="text-sm text-gray-600">
+            Let members sign in through your OpenID Connect identity provider. Available on the enterprise plan.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {connection && (
+              <p className="text-sm text-gray-600">
+                Redirect URI for your identity provider:{' '}
+                <span className="font-mono break-all">{connection.redirect_uri}</span>
+              </p>
+            )}
+
+            {connection && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Domain verification</div>
+                <p className="text-xs text-gray-500">
+                  Members can only sign in with addresses on verified domains. Add this TXT record to each domain&apos;s DNS, then verify it.
+                </p>
+                {connection.allowed_domains.map((domain: string) => (
+                  <div key={domain} className="flex items-center justify-between gap-2 text-sm border rounded-lg p-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{domain}</span>
+                        <Badge variant={connection.verified_domains.includes(domain) ? 'default' : 'outline'}>
+                          {connection.verified_domains.includes(domain) ? '✅ Verified' : '⏳ Pending verification'}
+                        </Badge>
+                      </div>
+                      {!connection.verified_domains.includes(domain) && (
+                        <div className="font-mono text-xs text-gray-600 break-all">
+                          <div>Name: _edgestatus-challenge.{domain}</div>
+                          <div>Value: edgestatus-verification={connection.domain_verification_token}</div>
+                        </div>
+                      )}
+                    </div>
+                    {!connection.verified_domains.includes(domain) && (
+                      <Button type="button" size="sm" variant="outline" onClick={() => handleVerifyDomain(domain)} disabled={isLoading}>
+                        🔍 Verify
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="sso-issuer" className="block text-sm font-medium mb-1">Issuer URL *</label>
+                <Input
+                  id="sso-issuer"
+                  type="url"
+                  placeholder="https://login.example.com"
+                  value={formData.issuer}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, issuer: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="sso-domains" className="block text-sm font-medium mb-1">Allowed email domains *</label>
+                <Input
+                  id="sso-domains"
+                  placeholder="example.com, example.io"
+                  value={formData.allowed_domains}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, allowed_domains: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="sso-client-id" className="block text-sm font-medium mb-1">Client ID *</label>
+                <Input
+                  id="sso-client-id"
+                  value={formData.client_id}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, client_id: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="sso-client-secret" className="block text-sm font-medium mb-1">
+                  Client secret {connection ? '' : '*'}
+                </label>
+                <Input
+                  id="sso-client-secret"
+                  type="password"
+                  placeholder={connection ? 'Leave blank to keep the current secret' : ''}
+                  value={formData.client_secret}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, client_secret: e.target.value }))
+                  }
+                  required={!connection}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Default role</label>
+                <Select
+                  value={formData.default_role || 'member'}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, default_role: value as SsoRole }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roleOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label htmlFor="sso-groups-claim" className="block text-sm font-medium mb-1">Groups claim</label>
+                <Input
+                  id="sso-groups-claim"
+                  placeholder="groups"
+                  value={formData.groups_claim}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: SsoFormData) => ({ ...prev, groups_claim: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+
+            {formData.groups_claim.trim() && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Group role mappings</div>
+                <p className="text-xs text-gray-500">
+                  Roles are synced from these groups on every sign-in; the highest matching role wins.
+                </p>
+                {formData.role_mappings.map((mapping, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder="Group name"
+                      value={mapping.group}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateMapping(index, { group: e.target.value })}
+                    />
+                    <Select
+                      value={mapping.role || 'member'}
+                      onValueChange={(value: string) => updateMapping(index, { role: value as SsoRole })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roleOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        setFormData((prev: SsoFormData) => ({
+                          ...prev,
+                          role_mappings: prev.role_mappings.filter((_, i) => i !== index)
+                        }))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev: SsoFormData) => ({
+                      ...prev,
+                      role_mappings: [...prev.role_mappings, { group: '', role: 'member' }]
+                    }))
+                  }
+                >
+                  ➕ Add Mapping
+                </Button>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.is_enabled}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SsoFormData) => ({ ...prev, is_enabled: e.target.checked }))
+                }
+              />
+              Allow members to sign in with SSO
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : '💾 Save'}
+              </Button>
+              {connection && (
+                <Button type="button" variant="outline" onClick={handleDelete} disabled={isLoading}>
+                  🗑️ Remove
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,16 +3,17 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { trpc } from '@/utils/trpc';
 import { useState } from 'react';
-import type { StatusPage, CreateStatusPageInput } from '../../../server/src/schema';
+import type { StatusPage, CreateStatusPageInput, PlanType } from '../../../server/src/schema';
 
 interface StatusPageFormProps {
   organizationId: number;
+  planType: PlanType;
   onSuccess: (statusPage: StatusPage) => void;
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
 }
 
-export function StatusPageForm({ organizationId, onSuccess, isLoading, setIsLoading }: StatusPageFormProps) {
+export function StatusPageForm({ organizationId, planType, onSuccess, isLoading, setIsLoading }: StatusPageFormProps) {
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState<CreateStatusPageInput>({
     organization_id: organizationId,
@@ -139,22 +140,24 @@ export function StatusPageForm({ organizationId, onSuccess, isLoading, setIsLoad
             />
           </div>
 
-          <div>
-            <label htmlFor="custom_domain" className="block text-sm font-medium mb-1">
-              Custom Domain
-            </label>
-            <Input
-              id="custom_domain"
-              placeholder="status.mycompany.com"
-              value={formData.custom_domain || ''}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                setFormData((prev: CreateStatusPageInput) => ({ 
-                  ...prev, 
-                  custom_domain: e.target.value || null 
-                }))
-              }
-            />
-          </div>
+          {(planType === 'plus' || planType === 'enterprise') && (
+            <div>
+              <label htmlFor="custom_domain" className="block text-sm font-medium mb-1">
+                Custom Domain
+              </label>
+              <Input
+                id="custom_domain"
+                placeholder="status.mycompany.com"
+                value={formData.custom_domain || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateStatusPageInput) => ({ 
+                    ...prev, 
+                    custom_domain: e.target.value || null 
+                  }))
+                }
+              />
+            </div>
+          )}
 
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { Subscriber } from '../../../server/src/schema';
+
+interface SubscriberManagerProps {
+  statusPageId: number;
+}
+
+// Visitors subscribe themselves from the public page; only confirmed addresses receive notifications
+export function SubscriberManager({ statusPageId }: SubscriberManagerProps) {
+  const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSubscribers = useCallback(async () => {
+    try {
+      const result = await trpc.getSubscribers.query({ status_page_id: statusPageId });
+      setSubscribers(result);
+    } catch (error) {
+      console.error('Failed to load subscribers:', error);
+    }
+  }, [statusPageId]);
+
+  useEffect(() => {
+    loadSubscribers();
+  }, [loadSubscribers]);
+
+  const handleDelete = async (subscriberId: number) => {
+    setIsLoading(true);
+    try {
+      await trpc.deleteSubscriber.mutate({ id: subscriberId });
+      setSubscribers((prev: Subscriber[]) => prev.filter((s: Subscriber) => s.id !== subscriberId));
+    } catch (error) {
+      console.error('Failed to remove subscriber:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const confirmedCount = subscribers.filter((s: Subscriber) => s.confirmed_at !== null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>✉️ Email Subscribers</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {subscribers.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No subscribers yet</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {confirmedCount} confirmed of {subscribers.length}
+            </p>
+            {subscribers.map((subscriber: Subscriber) => (
+              <div key={subscriber.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="font-medium">{subscriber.email}</div>
+                  <div className="text-xs text-gray-500">
+                    Subscribed {subscriber.created_at.toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={subscriber.confirmed_at ? 'default' : 'secondary'}>
+                    {subscriber.confirmed_at ? 'Confirmed' : 'Pending'}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(subscriber.id)}
+                    disabled={isLoading}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
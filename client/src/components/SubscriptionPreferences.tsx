@@ -0,0 +1,103 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import type { SubscriptionPreferences as SubscriptionPreferencesData } from '../../../server/src/schema';
+
+interface SubscriptionPreferencesProps {
+  token: string;
+}
+
+// Reached from the link in subscriber emails; subscribers have no account, so the link is all they need
+export function SubscriptionPreferences({ token }: SubscriptionPreferencesProps) {
+  const [preferences, setPreferences] = useState<SubscriptionPreferencesData | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    trpc.getSubscriptionPreferences.query({ token })
+      .then((result: SubscriptionPreferencesData) => {
+        setPreferences(result);
+        setSelectedIds(result.component_ids);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load subscription preferences:', error);
+        setError('This link is invalid or has expired. Use the link in a more recent email.');
+      });
+  }, [token]);
+
+  const handleComponentToggle = (componentId: number) => {
+    setIsSaved(false);
+    setSelectedIds((prev: number[]) =>
+      prev.includes(componentId) ? prev.filter(id => id !== componentId) : [...prev, componentId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await trpc.updateSubscriptionPreferences.mutate({ token, component_ids: selectedIds });
+      setPreferences(result);
+      setSelectedIds(result.component_ids);
+      setIsSaved(true);
+    } catch (error) {
+      console.error('Failed to save subscription preferences:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save your preferences');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>✉️ {preferences ? `${preferences.status_page_name} updates` : 'Status updates'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!preferences ? (
+            <p className="text-sm text-gray-600">{error ?? 'Loading your preferences...'}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Choose the components {preferences.email} hears about. With none chosen, you hear about all of them.
+                Problems that affect the whole page are always sent.
+              </p>
+              {preferences.components.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">This page has no components</p>
+              ) : (
+                <div className="space-y-2 border rounded-md p-3">
+                  {preferences.components.map(component => (
+                    <label key={component.id} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(component.id)}
+                        onChange={() => handleComponentToggle(component.id)}
+                        className="rounded mt-1"
+                      />
+                      <span>
+                        <span className="text-sm">{component.name}</span>
+                        {component.description && (
+                          <span className="block text-xs text-gray-500">{component.description}</span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save Preferences'}
+              </Button>
+              {isSaved && <p className="text-sm text-green-700">✅ Your preferences have been saved.</p>}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
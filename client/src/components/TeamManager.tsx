@@ -0,0 +1,195 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InvitationManager } from '@/components/InvitationManager';
+import { SsoSettings } from '@/components/SsoSettings';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { OrganizationMemberDetails, PlanType, UserRole } from '../../../server/src/schema';
+
+interface TeamManagerProps {
+  organizationId: number;
+  currentUserId: number;
+  planType: PlanType;
+  requireTwoFactor: boolean;
+  onOrganizationChange: () => void;
+}
+
+export function TeamManager({ organizationId, currentUserId, planType, requireTwoFactor, onOrganizationChange }: TeamManagerProps) {
+  const [members, setMembers] = useState<OrganizationMemberDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const roleOptions: { value: UserRole; label: string }[] = [
+    { value: 'owner', label: '👑 Owner' },
+    { value: 'admin', label: '🛠️ Admin' },
+    { value: 'member', label: '👤 Member' },
+    { value: 'viewer', label: '👀 Viewer' }
+  ];
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const result = await trpc.getOrganizationMembers.query({ organizationId });
+      setMembers(result);
+    } catch (error) {
+      console.error('Failed to load team members:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // Only owners can manage the team; everyone else gets a read-only list
+  const canManage = members.some(
+    (member: OrganizationMemberDetails) => member.user_id === currentUserId && member.role === 'owner'
+  );
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      await loadMembers();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoleChange = (member: OrganizationMemberDetails, role: UserRole) => {
+    return runAction(
+      () => trpc.updateMemberRole.mutate({ organizationId, userId: member.user_id, role }),
+      'Failed to change role'
+    );
+  };
+
+  const handleRemove = (member: OrganizationMemberDetails) => {
+    if (!confirm(`Remove ${member.first_name} ${member.last_name} from the organization?`)) return;
+    return runAction(
+      () => trpc.removeOrganizationMember.mutate({ organizationId, userId: member.user_id }),
+      'Failed to remove member'
+    );
+  };
+
+  const handleTransfer = (member: OrganizationMemberDetails) => {
+    if (!confirm(`Transfer ownership to ${member.first_name} ${member.last_name}? You will become an admin.`)) return;
+    return runAction(async () => {
+      await trpc.transferOrganizationOwnership.mutate({ organizationId, newOwnerId: member.user_id });
+      onOrganizationChange();
+    }, 'Failed to transfer ownership');
+  };
+
+  const handleRequireTwoFactorToggle = () => {
+    return runAction(async () => {
+      await trpc.updateOrganizationSecurity.mutate({ id: organizationId, require_two_factor: !requireTwoFactor });
+      onOrganizationChange();
+    }, 'Failed to update security settings');
+  };
+
+  const handleActiveToggle = (member: OrganizationMemberDetails) => {
+    if (member.is_active) {
+      if (!confirm(`Deactivate ${member.first_name} ${member.last_name}? They will be signed out everywhere and their API keys will stop working.`)) return;
+      return runAction(() => trpc.deactivateUser.mutate({ userId: member.user_id }), 'Failed to deactivate account');
+    }
+    return runAction(() => trpc.reactivateUser.mutate({ userId: member.user_id }), 'Failed to reactivate account');
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">👥 Team</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members ({members.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+          <div className="space-y-3">
+            {members.map((member: OrganizationMemberDetails) => (
+              <div key={member.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
+                    <span className="text-gray-600 text-sm font-medium">{member.first_name.charAt(0)}</span>
+                  </div>
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {member.first_name} {member.last_name}
+                      {member.user_id === currentUserId && <span className="text-gray-500 font-normal"> (you)</span>}
+                      {!member.is_active && <Badge variant="destructive" className="ml-2">Deactivated</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {member.email} · joined {member.created_at.toLocaleDateString()}
+                    </div>
+                  </div>
+                </div>
+
+                {canManage ? (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={member.role || 'member'}
+                      onValueChange={(value: UserRole) => handleRoleChange(member, value)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roleOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {member.user_id !== currentUserId && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => handleTransfer(member)} disabled={isLoading}>
+                          👑 Make Owner
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleActiveToggle(member)} disabled={isLoading}>
+                          {member.is_active ? '⏸️ Deactivate' : '▶️ Reactivate'}
+                        </Button>
+                      </>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => handleRemove(member)} disabled={isLoading}>
+                      🗑️ Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant={member.role === 'owner' ? 'default' : 'outline'}>{member.role}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>🛡️ Security</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <div>
+              <div className="font-medium text-gray-900">Require two-factor authentication</div>
+              <p className="text-sm text-gray-600">
+                Members without 2FA can still view everything but cannot make changes until they enroll.
+              </p>
+            </div>
+            <Button variant="outline" onClick={handleRequireTwoFactorToggle} disabled={isLoading}>
+              {requireTwoFactor ? '🔓 Stop Requiring' : '🔒 Require 2FA'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManage && <SsoSettings organizationId={organizationId} planType={planType} />}
+
+      {canManage && <InvitationManager organizationId={organizationId} />}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { TwoFactorEnrollment, TwoFactorStatus } from '../../../server/src/schema';
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const result = await trpc.getTwoFactorStatus.query();
+      setStatus(result);
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      setCode('');
+      await loadStatus();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = () => runAction(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await trpc.startTwoFactorEnrollment.mutate());
+  }, 'Failed to start enrollment');
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(async () => {
+      const result = await trpc.confirmTwoFactorEnrollment.mutate({ code });
+      setEnrollment(null);
+      setRecoveryCodes(result.recovery_codes);
+    }, 'Failed to confirm enrollment');
+  };
+
+  const handleRegenerate = () => runAction(async () => {
+    const result = await trpc.regenerateRecoveryCodes.mutate({ code });
+    setRecoveryCodes(result.recovery_codes);
+  }, 'Failed to regenerate recovery codes');
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication for your account?')) return;
+    return runAction(async () => {
+      await trpc.disableTwoFactor.mutate({ code });
+      setRecoveryCodes(null);
+    }, 'Failed to disable two-factor authentication');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📱 Two-Factor Authentication
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'outline'}>
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 max-w-xl">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Recovery codes, shown only once right after they are generated */}
+        {recoveryCodes && (
+          <div className="border border-green-500 rounded-md p-4 space-y-3">
+            <p className="text-sm font-medium text-gray-900">
+              Save these recovery codes somewhere safe. Each one can be used once if you lose your authenticator.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode: string) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button onClick={handleStart} disabled={isLoading}>
+              🔒 Set Up Two-Factor Authentication
+            </Button>
+          </div>
+        )}
+
+        {enrollment && (
+          <form onSubmit={handleConfirm} className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Open the provisioning link on your phone, or add the key below to your authenticator app manually.
+              Then enter the 6-digit code it shows.
+            </p>
+            <a href={enrollment.provisioning_uri} className="text-sm text-blue-600 hover:text-blue-700 break-all">
+              {enrollment.provisioning_uri}
+            </a>
+            <Input readOnly value={enrollment.secret} className="font-mono" />
+            <Input
+              placeholder="123456"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+              required
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Verifying...' : '✅ Enable'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Enabled {status.enabled_at?.toLocaleDateString()} · {status.recovery_codes_remaining} recovery codes left
+            </p>
+            <Input
+              placeholder="Authentication or recovery code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRegenerate} disabled={isLoading || !code}>
+                🔄 New Recovery Codes
+              </Button>
+              <Button variant="outline" onClick={handleDisable} disabled={isLoading || !code}>
+                🔓 Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
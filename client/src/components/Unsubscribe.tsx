@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+
+interface UnsubscribeProps {
+  token: string;
+}
+
+// Unsubscribing takes a click rather than happening on load, so link scanners that open emailed links unsubscribe no one
+export function Unsubscribe({ token }: UnsubscribeProps) {
+  const [isUnsubscribed, setIsUnsubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.unsubscribe.mutate({ token });
+      setIsUnsubscribed(true);
+    } catch (error) {
+      console.error('Failed to unsubscribe:', error);
+      setError('This unsubscribe link is invalid or has expired.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>✉️ Status updates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isUnsubscribed ? (
+            <p className="text-gray-700">✅ You have been unsubscribed and will receive no more emails.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">Stop receiving status update emails for this page?</p>
+              <Button className="w-full" onClick={handleUnsubscribe} disabled={isLoading}>
+                {isLoading ? 'Unsubscribing...' : 'Unsubscribe'}
+              </Button>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { formatNumber, useMessages, type Messages } from '@/lib/i18n';
+import type { ComponentStatus, ComponentUptime, Locale, UptimeDay } from '../../../server/src/schema';
+
+const barColors: Record<ComponentStatus, string> = {
+  operational: 'bg-green-500',
+  performance_issues: 'bg-yellow-500',
+  partial_outage: 'bg-orange-500',
+  major_outage: 'bg-red-500',
+  under_maintenance: 'bg-blue-500'
+};
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const dayTooltip = (day: UptimeDay, locale: Locale, messages: Messages) => {
+  if (day.uptime_percentage === null) {
+    return `${day.date}: ${messages.noData}`;
+  }
+  const details = (Object.entries(day.durations) as [ComponentStatus, number | undefined][])
+    .filter(([status]) => status !== 'operational')
+    .map(([status, seconds]) => `${messages.statusLabels[status]} ${formatDuration(seconds ?? 0)}`);
+  return [`${day.date}: ${messages.uptimePercent(formatNumber(day.uptime_percentage, locale))}`, ...details].join('\n');
+};
+
+// One bar per day, oldest on the left, colored by the worst status seen that day
+export function UptimeBars({ uptime }: { uptime: ComponentUptime }) {
+  const { locale, messages } = useMessages();
+  return (
+    <div>
+      <div className="flex gap-px h-8" role="img" aria-label={`${uptime.name}: ${messages.uptimeDaysAgo(uptime.days.length)} – ${messages.today}`}>
+        {uptime.days.map((day: UptimeDay) => (
+          <div
+            key={day.date}
+            title={dayTooltip(day, locale, messages)}
+            className={`flex-1 rounded-sm ${day.worst_status ? barColors[day.worst_status] : 'bg-gray-200'}`}
+          ></div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{messages.uptimeDaysAgo(uptime.days.length)}</span>
+        <span>
+          {uptime.uptime_percentage === null ? messages.noData : messages.uptimePercent(formatNumber(uptime.uptime_percentage, locale))}
+        </span>
+        <span>{messages.today}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import type { AuthUser } from '../../../server/src/schema';
+
+interface VerifyEmailProps {
+  token: string;
+}
+
+export function VerifyEmail({ token }: VerifyEmailProps) {
+  const [verifiedUser, setVerifiedUser] = useState<AuthUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    trpc.verifyEmail.mutate({ token })
+      .then((result: AuthUser) => setVerifiedUser(result))
+      .catch((error: unknown) => {
+        console.error('Failed to verify email:', error);
+        setError('This verification link is invalid or has expired. Sign in to request a new one.');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-2xl font-bold text-gray-900">EdgeStatus</span>
+          </div>
+          <CardTitle>📧 Email verification</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {verifiedUser ? (
+            <p className="text-gray-700">✅ {verifiedUser.email} has been verified.</p>
+          ) : (
+            <p className="text-sm text-gray-600">{error ?? 'Verifying your email address...'}</p>
+          )}
+          <Button className="w-full" onClick={() => window.location.assign('/')}>
+            Go to dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
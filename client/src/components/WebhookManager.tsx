@@ -0,0 +1,368 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  CreateWebhookEndpointInput,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType
+} from '../../../server/src/schema';
+
+interface WebhookManagerProps {
+  organizationId: number;
+}
+
+const eventOptions: { value: WebhookEventType; label: string }[] = [
+  { value: 'incident.created', label: '🚨 Incident created' },
+  { value: 'incident.updated', label: '📝 Incident updated' },
+  { value: 'incident.resolved', label: '✅ Incident resolved' },
+  { value: 'component.status_changed', label: '🔧 Component status changed' },
+  { value: 'maintenance.started', label: '⚙️ Maintenance started' },
+  { value: 'maintenance.completed', label: '🏁 Maintenance completed' }
+];
+
+const deliveryStatusVariants: Record<WebhookDeliveryStatus, 'default' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  failed: 'destructive',
+  pending: 'outline'
+};
+
+export function WebhookManager({ organizationId }: WebhookManagerProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [openEndpointId, setOpenEndpointId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [formData, setFormData] = useState<CreateWebhookEndpointInput>({
+    organization_id: organizationId,
+    url: '',
+    description: null,
+    event_types: eventOptions.map((option) => option.value)
+  });
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      const result = await trpc.getWebhookEndpoints.query({ organizationId });
+      setEndpoints(result);
+    } catch (error) {
+      console.error('Failed to load webhook endpoints:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  const loadDeliveries = useCallback(async (endpointId: number) => {
+    try {
+      const result = await trpc.getWebhookDeliveries.query({ webhook_endpoint_id: endpointId, limit: 50 });
+      setDeliveries(result);
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+    }
+  }, []);
+
+  const resetForm = () => {
+    setFormData({
+      organization_id: organizationId,
+      url: '',
+      description: null,
+      event_types: eventOptions.map((option) => option.value)
+    });
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const result = await trpc.createWebhookEndpoint.mutate(formData);
+      setEndpoints((prev: WebhookEndpoint[]) => [result.webhook_endpoint, ...prev]);
+      setRevealedSecret(result.secret);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to create webhook endpoint:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    setIsLoading(true);
+    try {
+      const updated = await trpc.updateWebhookEndpoint.mutate({ id: endpoint.id, is_active: !endpoint.is_active });
+      setEndpoints((prev: WebhookEndpoint[]) => prev.map((e: WebhookEndpoint) => (e.id === endpoint.id ? updated : e)));
+    } catch (error) {
+      console.error('Failed to update webhook endpoint:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotateSecret = async (endpointId: number) => {
+    if (!confirm('Rotate the signing secret? Signatures made with the current secret stop verifying immediately.')) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.rotateWebhookSecret.mutate({ id: endpointId });
+      setRevealedSecret(result.secret);
+    } catch (error) {
+      console.error('Failed to rotate webhook secret:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (endpointId: number) => {
+    if (!confirm('Delete this webhook endpoint and its delivery log?')) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteWebhookEndpoint.mutate({ id: endpointId });
+      setEndpoints((prev: WebhookEndpoint[]) => prev.filter((e: WebhookEndpoint) => e.id !== endpointId));
+      if (openEndpointId === endpointId) {
+        setOpenEndpointId(null);
+      }
+    } catch (error) {
+      console.error('Failed to delete webhook endpoint:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleDeliveries = async (endpointId: number) => {
+    if (openEndpointId === endpointId) {
+      setOpenEndpointId(null);
+      return;
+    }
+    setDeliveries([]);
+    setOpenEndpointId(endpointId);
+    await loadDeliveries(endpointId);
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setIsLoading(true);
+    try {
+      await trpc.redeliverWebhook.mutate({ id: delivery.id });
+      await loadDeliveries(delivery.webhook_endpoint_id);
+    } catch (error) {
+      console.error('Failed to redeliver webhook:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEventToggle = (eventType: WebhookEventType) => {
+    setFormData((prev: CreateWebhookEndpointInput) => ({
+      ...prev,
+      event_types: prev.event_types.includes(eventType)
+        ? prev.event_types.filter((t: WebhookEventType) => t !== eventType)
+        : [...prev.event_types, eventType]
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">🪝 Webhooks</h2>
+        <Button onClick={() => setShowForm(true)} disabled={isLoading}>
+          ➕ New Endpoint
+        </Button>
+      </div>
+
+      {/* Signing secret, shown only once */}
+      {revealedSecret && (
+        <Card className="border-green-500">
+          <CardContent className="pt-6 space-y-3">
+            <p className="text-sm font-medium text-gray-900">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <Input readOnly value={revealedSecret} className="font-mono" />
+            <p className="text-xs text-gray-500">
+              Each request carries an X-EdgeStatus-Signature header of the form t=&lt;timestamp&gt;,v1=&lt;signature&gt;,
+              where the signature is the hex HMAC-SHA256 of "&lt;timestamp&gt;.&lt;request body&gt;" with this secret.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Endpoint Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Webhook Endpoint</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="webhook-url" className="block text-sm font-medium mb-1">
+                  URL *
+                </label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  placeholder="https://example.com/hooks/edgestatus"
+                  value={formData.url}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateWebhookEndpointInput) => ({ ...prev, url: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="webhook-description" className="block text-sm font-medium mb-1">
+                  Description
+                </label>
+                <Input
+                  id="webhook-description"
+                  placeholder="Incident bot"
+                  value={formData.description || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateWebhookEndpointInput) => ({ ...prev, description: e.target.value || null }))
+                  }
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Events *
+                </label>
+                <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+                  {eventOptions.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.event_types.includes(option.value)}
+                        onChange={() => handleEventToggle(option.value)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isLoading || formData.event_types.length === 0} className="flex-1">
+                  {isLoading ? 'Adding...' : '🪝 Add Endpoint'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetForm}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Endpoints List */}
+      <div className="space-y-4">
+        {endpoints.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="text-6xl mb-4">🪝</div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No webhook endpoints yet</h3>
+              <p className="text-gray-600">
+                Add an endpoint to receive incident, component and maintenance events as signed JSON.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          endpoints.map((endpoint: WebhookEndpoint) => (
+            <Card key={endpoint.id}>
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-gray-900 font-mono text-sm break-all">{endpoint.url}</h3>
+                      {endpoint.is_active ? (
+                        <Badge variant="default">Active</Badge>
+                      ) : (
+                        <Badge variant="outline">Disabled</Badge>
+                      )}
+                    </div>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-600">{endpoint.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.event_types.map((eventType: WebhookEventType) => (
+                        <Badge key={eventType} variant="secondary">{eventType}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Created {endpoint.created_at.toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    <Button size="sm" variant="outline" onClick={() => handleToggleDeliveries(endpoint.id)}>
+                      📋 {openEndpointId === endpoint.id ? 'Hide deliveries' : 'Deliveries'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleToggleActive(endpoint)} disabled={isLoading}>
+                      {endpoint.is_active ? '⏸️ Disable' : '▶️ Enable'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleRotateSecret(endpoint.id)} disabled={isLoading}>
+                      🔄 Rotate secret
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(endpoint.id)} disabled={isLoading}>
+                      🗑️ Delete
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Delivery Log */}
+                {openEndpointId === endpoint.id && (
+                  <div className="border-t pt-4 space-y-2">
+                    {deliveries.length === 0 ? (
+                      <p className="text-sm text-gray-500">No deliveries yet.</p>
+                    ) : (
+                      deliveries.map((delivery: WebhookDelivery) => (
+                        <div key={delivery.id} className="flex items-center justify-between gap-4 text-sm">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <Badge variant={deliveryStatusVariants[delivery.status]}>{delivery.status}</Badge>
+                            <span className="font-mono">{delivery.event_type}</span>
+                            <span className="text-gray-500">
+                              {delivery.response_status !== null ? `HTTP ${delivery.response_status}` : delivery.error ?? 'Not sent yet'}
+                              {' · '}
+                              {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                              {delivery.last_attempt_at && ` · ${delivery.last_attempt_at.toLocaleString()}`}
+                              {delivery.status === 'pending' && delivery.next_attempt_at && delivery.attempts > 0 &&
+                                ` · Retrying ${delivery.next_attempt_at.toLocaleString()}`}
+                            </span>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRedeliver(delivery)}
+                            disabled={isLoading || !endpoint.is_active}
+                          >
+                            🔁 Redeliver
+                          </Button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
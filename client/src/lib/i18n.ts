@@ -0,0 +1,491 @@
+import { createContext, useContext } from 'react';
+import type { ComponentStatus, IncidentStatus, Locale, MaintenanceStatus, Translations } from '../../../server/src/schema';
+
+// Interface text of the public status page. Incident and maintenance text is written by the
+// page's operators and comes translated (or not) from the server.
+export interface Messages {
+  statusLabels: Record<ComponentStatus | IncidentStatus | MaintenanceStatus, string>;
+  overallHeadlines: Record<ComponentStatus, string>;
+  activeIncidents: string;
+  components: string;
+  noComponents: string;
+  scheduledMaintenance: string;
+  pastIncidents: string;
+  incidentHistory: string;
+  browseHistory: string;
+  recentIncidents: string;
+  noIncidents: string;
+  started: (date: string) => string;
+  resolved: (date: string) => string;
+  subscribeByEmail: string;
+  emailPlaceholder: string;
+  subscribe: string;
+  subscribing: string;
+  checkInbox: string;
+  subscribeBySms: string;
+  phonePlaceholder: string;
+  sendCode: string;
+  sendingCode: string;
+  codeSent: (phoneNumber: string) => string;
+  codePlaceholder: string;
+  verify: string;
+  verifying: string;
+  smsSubscribed: string;
+  feeds: string;
+  maintenanceCalendar: string;
+  poweredBy: string;
+  language: string;
+  loading: string;
+  notFoundTitle: string;
+  notFoundHint: string;
+  privateTitle: string;
+  privateHint: string;
+  pagePassword: string;
+  unlock: string;
+  unlocking: string;
+  uptimeDaysAgo: (days: number) => string;
+  uptimePercent: (percentage: string) => string;
+  noData: string;
+  today: string;
+  searchPlaceholder: string;
+  search: string;
+  allStatuses: string;
+  allComponents: string;
+  from: string;
+  to: string;
+  noMatches: string;
+  loadOlder: string;
+  loadingMore: string;
+}
+
+const en: Messages = {
+  statusLabels: {
+    operational: 'Operational',
+    performance_issues: 'Performance Issues',
+    partial_outage: 'Partial Outage',
+    major_outage: 'Major Outage',
+    under_maintenance: 'Under Maintenance',
+    investigating: 'Investigating',
+    identified: 'Identified',
+    monitoring: 'Monitoring',
+    resolved: 'Resolved',
+    scheduled: 'Scheduled',
+    in_progress: 'In Progress',
+    completed: 'Completed',
+    cancelled: 'Cancelled'
+  },
+  overallHeadlines: {
+    operational: '🟢 All Systems Operational',
+    performance_issues: '🟡 Degraded Performance',
+    partial_outage: '🟠 Partial System Outage',
+    major_outage: '🔴 Major System Outage',
+    under_maintenance: '🔧 Scheduled Maintenance In Progress'
+  },
+  activeIncidents: 'Active Incidents',
+  components: 'Components',
+  noComponents: 'No components listed',
+  scheduledMaintenance: 'Scheduled Maintenance',
+  pastIncidents: 'Past Incidents',
+  incidentHistory: 'Incident History',
+  browseHistory: 'Browse full history →',
+  recentIncidents: '← Recent incidents',
+  noIncidents: 'No incidents reported',
+  started: date => `Started ${date}`,
+  resolved: date => `Resolved ${date}`,
+  subscribeByEmail: 'Get email updates',
+  emailPlaceholder: 'Email address',
+  subscribe: 'Subscribe',
+  subscribing: 'Subscribing...',
+  checkInbox: 'Almost done: confirm your subscription with the link in the email we just sent you.',
+  subscribeBySms: 'Get text message updates',
+  phonePlaceholder: 'Phone number, like +14155550123',
+  sendCode: 'Send code',
+  sendingCode: 'Sending...',
+  codeSent: phoneNumber => `Enter the 6-digit code we just texted to ${phoneNumber}.`,
+  codePlaceholder: '6-digit code',
+  verify: 'Verify',
+  verifying: 'Verifying...',
+  smsSubscribed: 'You are subscribed. We will text you when something changes; reply STOP to unsubscribe.',
+  feeds: 'Subscribe to updates:',
+  maintenanceCalendar: 'Maintenance calendar',
+  poweredBy: 'Powered by EdgeStatus',
+  language: 'Language',
+  loading: 'Loading status...',
+  notFoundTitle: 'Status page not found',
+  notFoundHint: 'This status page does not exist.',
+  privateTitle: 'This status page is private',
+  privateHint: 'Enter the page password, or sign in with an account in the organization that owns it.',
+  pagePassword: 'Page password',
+  unlock: 'View Status Page',
+  unlocking: 'Unlocking...',
+  uptimeDaysAgo: days => `${days} days ago`,
+  uptimePercent: percentage => `${percentage}% uptime`,
+  noData: 'No data',
+  today: 'Today',
+  searchPlaceholder: 'Search incidents and updates',
+  search: '🔍 Search',
+  allStatuses: 'All statuses',
+  allComponents: 'All components',
+  from: 'From',
+  to: 'To',
+  noMatches: 'No incidents match these filters',
+  loadOlder: 'Load older incidents',
+  loadingMore: 'Loading...'
+};
+
+const de: Messages = {
+  statusLabels: {
+    operational: 'Betriebsbereit',
+    performance_issues: 'Leistungsprobleme',
+    partial_outage: 'Teilausfall',
+    major_outage: 'Schwerer Ausfall',
+    under_maintenance: 'In Wartung',
+    investigating: 'Wird untersucht',
+    identified: 'Ursache erkannt',
+    monitoring: 'Wird beobachtet',
+    resolved: 'Behoben',
+    scheduled: 'Geplant',
+    in_progress: 'Läuft',
+    completed: 'Abgeschlossen',
+    cancelled: 'Abgesagt'
+  },
+  overallHeadlines: {
+    operational: '🟢 Alle Systeme betriebsbereit',
+    performance_issues: '🟡 Eingeschränkte Leistung',
+    partial_outage: '🟠 Teilweiser Systemausfall',
+    major_outage: '🔴 Schwerer Systemausfall',
+    under_maintenance: '🔧 Geplante Wartung läuft'
+  },
+  activeIncidents: 'Aktuelle Störungen',
+  components: 'Komponenten',
+  noComponents: 'Keine Komponenten aufgeführt',
+  scheduledMaintenance: 'Geplante Wartungen',
+  pastIncidents: 'Vergangene Störungen',
+  incidentHistory: 'Störungsverlauf',
+  browseHistory: 'Gesamten Verlauf durchsuchen →',
+  recentIncidents: '← Aktuelle Störungen',
+  noIncidents: 'Keine Störungen gemeldet',
+  started: date => `Begonnen ${date}`,
+  resolved: date => `Behoben ${date}`,
+  subscribeByEmail: 'Updates per E-Mail erhalten',
+  emailPlaceholder: 'E-Mail-Adresse',
+  subscribe: 'Abonnieren',
+  subscribing: 'Wird abonniert...',
+  checkInbox: 'Fast geschafft: Bestätigen Sie Ihr Abonnement über den Link in der E-Mail, die wir Ihnen gerade gesendet haben.',
+  subscribeBySms: 'Updates per SMS erhalten',
+  phonePlaceholder: 'Telefonnummer, z. B. +491701234567',
+  sendCode: 'Code senden',
+  sendingCode: 'Wird gesendet...',
+  codeSent: phoneNumber => `Geben Sie den 6-stelligen Code ein, den wir gerade an ${phoneNumber} gesendet haben.`,
+  codePlaceholder: '6-stelliger Code',
+  verify: 'Bestätigen',
+  verifying: 'Wird bestätigt...',
+  smsSubscribed: 'Sie sind angemeldet. Wir senden Ihnen eine SMS, wenn sich etwas ändert; antworten Sie STOP, um sich abzumelden.',
+  feeds: 'Updates abonnieren:',
+  maintenanceCalendar: 'Wartungskalender',
+  poweredBy: 'Bereitgestellt von EdgeStatus',
+  language: 'Sprache',
+  loading: 'Status wird geladen...',
+  notFoundTitle: 'Statusseite nicht gefunden',
+  notFoundHint: 'Diese Statusseite existiert nicht.',
+  privateTitle: 'Diese Statusseite ist privat',
+  privateHint: 'Geben Sie das Passwort der Seite ein oder melden Sie sich mit einem Konto der Organisation an, der sie gehört.',
+  pagePassword: 'Passwort der Seite',
+  unlock: 'Statusseite anzeigen',
+  unlocking: 'Wird entsperrt...',
+  uptimeDaysAgo: days => `vor ${days} Tagen`,
+  uptimePercent: percentage => `${percentage} % Verfügbarkeit`,
+  noData: 'Keine Daten',
+  today: 'Heute',
+  searchPlaceholder: 'Störungen und Updates durchsuchen',
+  search: '🔍 Suchen',
+  allStatuses: 'Alle Status',
+  allComponents: 'Alle Komponenten',
+  from: 'Von',
+  to: 'Bis',
+  noMatches: 'Keine Störungen entsprechen diesen Filtern',
+  loadOlder: 'Ältere Störungen laden',
+  loadingMore: 'Wird geladen...'
+};
+
+const fr: Messages = {
+  statusLabels: {
+    operational: 'Opérationnel',
+    performance_issues: 'Performances dégradées',
+    partial_outage: 'Panne partielle',
+    major_outage: 'Panne majeure',
+    under_maintenance: 'En maintenance',
+    investigating: 'Enquête en cours',
+    identified: 'Cause identifiée',
+    monitoring: 'Sous surveillance',
+    resolved: 'Résolu',
+    scheduled: 'Planifiée',
+    in_progress: 'En cours',
+    completed: 'Terminée',
+    cancelled: 'Annulée'
+  },
+  overallHeadlines: {
+    operational: '🟢 Tous les systèmes sont opérationnels',
+    performance_issues: '🟡 Performances dégradées',
+    partial_outage: '🟠 Panne partielle des systèmes',
+    major_outage: '🔴 Panne majeure des systèmes',
+    under_maintenance: '🔧 Maintenance planifiée en cours'
+  },
+  activeIncidents: 'Incidents en cours',
+  components: 'Composants',
+  noComponents: 'Aucun composant',
+  scheduledMaintenance: 'Maintenances planifiées',
+  pastIncidents: 'Incidents passés',
+  incidentHistory: 'Historique des incidents',
+  browseHistory: 'Parcourir tout l’historique →',
+  recentIncidents: '← Incidents récents',
+  noIncidents: 'Aucun incident signalé',
+  started: date => `Début : ${date}`,
+  resolved: date => `Résolu : ${date}`,
+  subscribeByEmail: 'Recevoir les mises à jour par e-mail',
+  emailPlaceholder: 'Adresse e-mail',
+  subscribe: 'S’abonner',
+  subscribing: 'Abonnement...',
+  checkInbox: 'Presque terminé : confirmez votre abonnement avec le lien de l’e-mail que nous venons de vous envoyer.',
+  subscribeBySms: 'Recevoir les mises à jour par SMS',
+  phonePlaceholder: 'Numéro de téléphone, par ex. +33612345678',
+  sendCode: 'Envoyer le code',
+  sendingCode: 'Envoi...',
+  codeSent: phoneNumber => `Saisissez le code à 6 chiffres que nous venons d’envoyer au ${phoneNumber}.`,
+  codePlaceholder: 'Code à 6 chiffres',
+  verify: 'Vérifier',
+  verifying: 'Vérification...',
+  smsSubscribed: 'Vous êtes abonné. Nous vous enverrons un SMS en cas de changement ; répondez STOP pour vous désabonner.',
+  feeds: 'Suivre les mises à jour :',
+  maintenanceCalendar: 'Calendrier des maintenances',
+  poweredBy: 'Propulsé par EdgeStatus',
+  language: 'Langue',
+  loading: 'Chargement du statut...',
+  notFoundTitle: 'Page de statut introuvable',
+  notFoundHint: 'Cette page de statut n’existe pas.',
+  privateTitle: 'Cette page de statut est privée',
+  privateHint: 'Saisissez le mot de passe de la page, ou connectez-vous avec un compte de l’organisation propriétaire.',
+  pagePassword: 'Mot de passe de la page',
+  unlock: 'Afficher la page de statut',
+  unlocking: 'Déverrouillage...',
+  uptimeDaysAgo: days => `il y a ${days} jours`,
+  uptimePercent: percentage => `${percentage} % de disponibilité`,
+  noData: 'Aucune donnée',
+  today: 'Aujourd’hui',
+  searchPlaceholder: 'Rechercher dans les incidents et les mises à jour',
+  search: '🔍 Rechercher',
+  allStatuses: 'Tous les statuts',
+  allComponents: 'Tous les composants',
+  from: 'Du',
+  to: 'Au',
+  noMatches: 'Aucun incident ne correspond à ces filtres',
+  loadOlder: 'Charger les incidents plus anciens',
+  loadingMore: 'Chargement...'
+};
+
+const es: Messages = {
+  statusLabels: {
+    operational: 'Operativo',
+    performance_issues: 'Problemas de rendimiento',
+    partial_outage: 'Interrupción parcial',
+    major_outage: 'Interrupción grave',
+    under_maintenance: 'En mantenimiento',
+    investigating: 'Investigando',
+    identified: 'Identificado',
+    monitoring: 'En observación',
+    resolved: 'Resuelto',
+    scheduled: 'Programado',
+    in_progress: 'En curso',
+    completed: 'Completado',
+    cancelled: 'Cancelado'
+  },
+  overallHeadlines: {
+    operational: '🟢 Todos los sistemas operativos',
+    performance_issues: '🟡 Rendimiento degradado',
+    partial_outage: '🟠 Interrupción parcial del sistema',
+    major_outage: '🔴 Interrupción grave del sistema',
+    under_maintenance: '🔧 Mantenimiento programado en curso'
+  },
+  activeIncidents: 'Incidentes activos',
+  components: 'Componentes',
+  noComponents: 'No hay componentes',
+  scheduledMaintenance: 'Mantenimiento programado',
+  pastIncidents: 'Incidentes anteriores',
+  incidentHistory: 'Historial de incidentes',
+  browseHistory: 'Ver todo el historial →',
+  recentIncidents: '← Incidentes recientes',
+  noIncidents: 'No se han registrado incidentes',
+  started: date => `Inicio: ${date}`,
+  resolved: date => `Resuelto: ${date}`,
+  subscribeByEmail: 'Recibir actualizaciones por correo',
+  emailPlaceholder: 'Correo electrónico',
+  subscribe: 'Suscribirse',
+  subscribing: 'Suscribiendo...',
+  checkInbox: 'Casi listo: confirma tu suscripción con el enlace del correo que te acabamos de enviar.',
+  subscribeBySms: 'Recibir actualizaciones por SMS',
+  phonePlaceholder: 'Número de teléfono, p. ej. +34612345678',
+  sendCode: 'Enviar código',
+  sendingCode: 'Enviando...',
+  codeSent: phoneNumber => `Introduce el código de 6 dígitos que acabamos de enviar al ${phoneNumber}.`,
+  codePlaceholder: 'Código de 6 dígitos',
+  verify: 'Verificar',
+  verifying: 'Verificando...',
+  smsSubscribed: 'Te has suscrito. Te enviaremos un SMS cuando algo cambie; responde STOP para darte de baja.',
+  feeds: 'Suscribirse a las actualizaciones:',
+  maintenanceCalendar: 'Calendario de mantenimiento',
+  poweredBy: 'Con la tecnología de EdgeStatus',
+  language: 'Idioma',
+  loading: 'Cargando estado...',
+  notFoundTitle: 'Página de estado no encontrada',
+  notFoundHint: 'Esta página de estado no existe.',
+  privateTitle: 'Esta página de estado es privada',
+  privateHint: 'Introduce la contraseña de la página o inicia sesión con una cuenta de la organización propietaria.',
+  pagePassword: 'Contraseña de la página',
+  unlock: 'Ver la página de estado',
+  unlocking: 'Desbloqueando...',
+  uptimeDaysAgo: days => `hace ${days} días`,
+  uptimePercent: percentage => `${percentage} % de disponibilidad`,
+  noData: 'Sin datos',
+  today: 'Hoy',
+  searchPlaceholder: 'Buscar en incidentes y actualizaciones',
+  search: '🔍 Buscar',
+  allStatuses: 'Todos los estados',
+  allComponents: 'Todos los componentes',
+  from: 'Desde',
+  to: 'Hasta',
+  noMatches: 'Ningún incidente coincide con estos filtros',
+  loadOlder: 'Cargar incidentes anteriores',
+  loadingMore: 'Cargando...'
+};
+
+const ja: Messages = {
+  statusLabels: {
+    operational: '正常稼働',
+    performance_issues: 'パフォーマンス低下',
+    partial_outage: '一部障害',
+    major_outage: '重大な障害',
+    under_maintenance: 'メンテナンス中',
+    investigating: '調査中',
+    identified: '原因特定',
+    monitoring: '経過観察中',
+    resolved: '解決済み',
+    scheduled: '予定',
+    in_progress: '実施中',
+    completed: '完了',
+    cancelled: '中止'
+  },
+  overallHeadlines: {
+    operational: '🟢 すべてのシステムが正常に稼働しています',
+    performance_issues: '🟡 パフォーマンスが低下しています',
+    partial_outage: '🟠 一部のシステムで障害が発生しています',
+    major_outage: '🔴 重大なシステム障害が発生しています',
+    under_maintenance: '🔧 予定メンテナンスを実施中です'
+  },
+  activeIncidents: '発生中の障害',
+  components: 'コンポーネント',
+  noComponents: 'コンポーネントはありません',
+  scheduledMaintenance: '予定メンテナンス',
+  pastIncidents: '過去の障害',
+  incidentHistory: '障害履歴',
+  browseHistory: 'すべての履歴を見る →',
+  recentIncidents: '← 最近の障害',
+  noIncidents: '報告された障害はありません',
+  started: date => `開始: ${date}`,
+  resolved: date => `解決: ${date}`,
+  subscribeByEmail: 'メールで最新情報を受け取る',
+  emailPlaceholder: 'メールアドレス',
+  subscribe: '登録',
+  subscribing: '登録中...',
+  checkInbox: 'あと少しです。お送りしたメールのリンクから登録を確認してください。',
+  subscribeBySms: 'SMSで更新情報を受け取る',
+  phonePlaceholder: '電話番号（例: +819012345678）',
+  sendCode: 'コードを送信',
+  sendingCode: '送信中...',
+  codeSent: phoneNumber => `${phoneNumber} に送信した6桁のコードを入力してください。`,
+  codePlaceholder: '6桁のコード',
+  verify: '確認',
+  verifying: '確認中...',
+  smsSubscribed: '登録が完了しました。変更があるとSMSでお知らせします。配信停止は STOP と返信してください。',
+  feeds: '最新情報を購読:',
+  maintenanceCalendar: 'メンテナンスカレンダー',
+  poweredBy: 'Powered by EdgeStatus',
+  language: '言語',
+  loading: 'ステータスを読み込んでいます...',
+  notFoundTitle: 'ステータスページが見つかりません',
+  notFoundHint: 'このステータスページは存在しません。',
+  privateTitle: 'このステータスページは非公開です',
+  privateHint: 'ページのパスワードを入力するか、所有する組織のアカウントでサインインしてください。',
+  pagePassword: 'ページのパスワード',
+  unlock: 'ステータスページを表示',
+  unlocking: 'ロックを解除しています...',
+  uptimeDaysAgo: days => `${days}日前`,
+  uptimePercent: percentage => `稼働率 ${percentage}%`,
+  noData: 'データなし',
+  today: '今日',
+  searchPlaceholder: '障害と更新を検索',
+  search: '🔍 検索',
+  allStatuses: 'すべてのステータス',
+  allComponents: 'すべてのコンポーネント',
+  from: '開始日',
+  to: '終了日',
+  noMatches: '条件に一致する障害はありません',
+  loadOlder: '以前の障害を読み込む',
+  loadingMore: '読み込み中...'
+};
+
+export const catalogs: Record<Locale, Messages> = { en, de, fr, es, ja };
+
+export const supportedLocales = Object.keys(catalogs) as Locale[];
+
+// Each language's name in that language, for the language switcher
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  ja: '日本語'
+};
+
+// The dashboard is in English
+export const statusLabel = (status: keyof Messages['statusLabels'], locale: Locale = 'en'): string => {
+  return catalogs[locale].statusLabels[status];
+};
+
+// ?lang= wins, then the browser's preferred languages, then the page's default language
+export const pickLocale = (defaultLocale: Locale, enabledLocales: Locale[]): Locale => {
+  const requested = new URLSearchParams(window.location.search).get('lang');
+  const preferred = [requested, ...navigator.languages.map(language => language.split('-')[0].toLowerCase())];
+  return (preferred.find(language => enabledLocales.includes(language as Locale)) as Locale | undefined) ?? defaultLocale;
+};
+
+// Dates are shown in the viewer's own time zone, which is named so there is no doubt
+export const formatDateTime = (date: Date, locale: Locale): string => {
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).format(date);
+};
+
+export const formatNumber = (value: number, locale: Locale): string => {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 3 }).format(value);
+};
+
+// Operator-written text in the viewer's language when there is a translation, otherwise as written
+export const translated = (
+  original: { title: string; description: string },
+  translations: Translations,
+  locale: Locale
+): { title: string; description: string } => {
+  return translations[locale] ?? original;
+};
+
+export const LocaleContext = createContext<Locale>('en');
+
+export const useMessages = (): { locale: Locale; messages: Messages } => {
+  const locale = useContext(LocaleContext);
+  return { locale, messages: catalogs[locale] };
+};
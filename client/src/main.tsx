@@ -2,9 +2,45 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { AcceptInvitation } from './components/AcceptInvitation.tsx'
+import { ResetPasswordForm } from './components/ResetPasswordForm.tsx'
+import { VerifyEmail } from './components/VerifyEmail.tsx'
+import { ConfirmSubscription } from './components/ConfirmSubscription.tsx'
+import { Unsubscribe } from './components/Unsubscribe.tsx'
+import { SubscriptionPreferences } from './components/SubscriptionPreferences.tsx'
+import { SsoCallback } from './components/SsoCallback.tsx'
+import { PublicStatusPage } from './components/PublicStatusPage.tsx'
+import { CustomDomainRouter } from './components/CustomDomainRouter.tsx'
+
+// Public status pages and pages reached from emailed links or identity provider redirects render on their own, outside the dashboard
+const { pathname, search } = window.location
+const params = new URLSearchParams(search)
+const token = params.get('token')
+const ssoCode = params.get('code')
+const ssoState = params.get('state')
+
+const page = pathname.startsWith('/s/')
+  ? <PublicStatusPage slug={decodeURIComponent(pathname.slice('/s/'.length).replace(/\/$/, ''))} />
+  : pathname === '/sso/callback' && ssoCode && ssoState
+  ? <SsoCallback code={ssoCode} state={ssoState} />
+  : !token
+  ? <CustomDomainRouter />
+  : pathname === '/invite'
+    ? <AcceptInvitation token={token} />
+    : pathname === '/reset-password'
+      ? <ResetPasswordForm token={token} />
+      : pathname === '/verify-email'
+        ? <VerifyEmail token={token} />
+        : pathname === '/confirm-subscription'
+          ? <ConfirmSubscription token={token} />
+          : pathname === '/unsubscribe'
+            ? <Unsubscribe token={token} />
+            : pathname === '/subscription-preferences'
+              ? <SubscriptionPreferences token={token} />
+              : <App />
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {page}
   </StrictMode>,
 )
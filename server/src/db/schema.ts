@@ -1,12 +1,57 @@
-import { serial, text, pgTable, timestamp, boolean, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, boolean, integer, pgEnum, unique, uniqueIndex, jsonb, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Define enums
 export const planTypeEnum = pgEnum('plan_type', ['free', 'pro', 'plus', 'enterprise']);
 export const userRoleEnum = pgEnum('user_role', ['owner', 'admin', 'member', 'viewer']);
+// Roles single sign-on may hand out; ownership is only ever transferred
+export const ssoRoleEnum = pgEnum('sso_role', ['admin', 'member', 'viewer']);
 export const incidentStatusEnum = pgEnum('incident_status', ['investigating', 'identified', 'monitoring', 'resolved']);
 export const maintenanceStatusEnum = pgEnum('maintenance_status', ['scheduled', 'in_progress', 'completed', 'cancelled']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'revoked', 'expired']);
+export const apiKeyScopeEnum = pgEnum('api_key_scope', ['read', 'incidents:write', 'components:write', 'maintenance:write']);
 export const componentStatusEnum = pgEnum('component_status', ['operational', 'performance_issues', 'partial_outage', 'major_outage', 'under_maintenance']);
+export const componentStatusChangeSourceEnum = pgEnum('component_status_change_source', ['component', 'incident', 'maintenance']);
+export const localeEnum = pgEnum('locale', ['en', 'de', 'fr', 'es', 'ja']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete']);
+export const webhookEventTypeEnum = pgEnum('webhook_event_type', [
+  'incident.created',
+  'incident.updated',
+  'incident.resolved',
+  'component.status_changed',
+  'maintenance.started',
+  'maintenance.completed'
+]);
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'succeeded', 'failed']);
+export const chatProviderEnum = pgEnum('chat_provider', ['slack', 'teams']);
+export const smsEventTypeEnum = pgEnum('sms_event_type', [
+  'incident.created',
+  'incident.updated',
+  'incident.resolved',
+  'maintenance.scheduled',
+  'maintenance.started',
+  'maintenance.completed'
+]);
+export const smsMessageKindEnum = pgEnum('sms_message_kind', ['verification', 'notification']);
+export const smsMessageStatusEnum = pgEnum('sms_message_status', ['pending', 'sent', 'failed']);
+export const jobStatusEnum = pgEnum('job_status', ['pending', 'running', 'succeeded', 'dead']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', [
+  'organization',
+  'user',
+  'member',
+  'invitation',
+  'api_key',
+  'sso_connection',
+  'status_page',
+  'component',
+  'incident',
+  'incident_update',
+  'maintenance_window',
+  'subscriber',
+  'webhook_endpoint',
+  'chat_integration',
+  'sms_subscriber'
+]);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -17,6 +62,7 @@ export const usersTable = pgTable('users', {
   last_name: text('last_name').notNull(),
   role: userRoleEnum('role').notNull().default('member'),
   is_active: boolean('is_active').notNull().default(true),
+  email_verified_at: timestamp('email_verified_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -28,25 +74,36 @@ export const organizationsTable = pgTable('organizations', {
   slug: text('slug').notNull().unique(),
   plan_type: planTypeEnum('plan_type').notNull().default('free'),
   owner_id: integer('owner_id').notNull().references(() => usersTable.id),
+  require_two_factor: boolean('require_two_factor').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// Status pages table
+// Status pages table (a custom domain serves the page once its TXT record has been verified). Only verified
+// domains are unique: an unverified claim must not lock the domain's real owner out.
 export const statusPagesTable = pgTable('status_pages', {
   id: serial('id').primaryKey(),
   organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
   name: text('name').notNull(),
-  slug: text('slug').notNull(),
+  slug: text('slug').notNull().unique(),
   description: text('description'),
   custom_domain: text('custom_domain'),
+  custom_domain_verification_token: text('custom_domain_verification_token'),
+  custom_domain_verified_at: timestamp('custom_domain_verified_at'),
   branding_logo_url: text('branding_logo_url'),
   branding_primary_color: text('branding_primary_color'),
   branding_secondary_color: text('branding_secondary_color'),
   is_public: boolean('is_public').notNull().default(true),
+  // Addresses and CIDR ranges that may view the page while it is private
+  access_ip_allowlist: jsonb('access_ip_allowlist').$type<string[]>().notNull().default([]),
+  // Language the public page is written in and the languages visitors can switch to
+  default_locale: localeEnum('default_locale').notNull().default('en'),
+  enabled_locales: jsonb('enabled_locales').$type<(typeof localeEnum.enumValues)[number][]>().notNull().default(['en']),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex('status_pages_verified_custom_domain_idx').on(table.custom_domain).where(sql`${table.custom_domain_verified_at} is not null`),
+]);
 
 // Components table
 export const componentsTable = pgTable('components', {
@@ -71,7 +128,11 @@ export const incidentsTable = pgTable('incidents', {
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
   resolved_at: timestamp('resolved_at'),
-});
+}, (table) => [
+  index('incidents_status_page_created_at_idx').on(table.status_page_id, table.created_at),
+  // Full-text search over the incident history; lib/incident_history.ts queries the same expression
+  index('incidents_search_idx').using('gin', sql`to_tsvector('english', ${table.title} || ' ' || ${table.description})`),
+]);
 
 // Incident updates table
 export const incidentUpdatesTable = pgTable('incident_updates', {
@@ -82,7 +143,9 @@ export const incidentUpdatesTable = pgTable('incident_updates', {
   status: incidentStatusEnum('status').notNull(),
   created_by: integer('created_by').notNull().references(() => usersTable.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('incident_updates_search_idx').using('gin', sql`to_tsvector('english', ${table.title} || ' ' || ${table.description})`),
+]);
 
 // Maintenance windows table
 export const maintenanceWindowsTable = pgTable('maintenance_windows', {
@@ -95,6 +158,8 @@ export const maintenanceWindowsTable = pgTable('maintenance_windows', {
   scheduled_end: timestamp('scheduled_end').notNull(),
   actual_start: timestamp('actual_start'),
   actual_end: timestamp('actual_end'),
+  // iCalendar SEQUENCE: bumped whenever the window is rescheduled or (un)cancelled, so calendars replace their copy
+  sequence: integer('sequence').notNull().default(0),
   created_by: integer('created_by').notNull().references(() => usersTable.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -125,6 +190,361 @@ export const maintenanceAffectedComponentsTable = pgTable('maintenance_affected_
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Sessions table (server-side login sessions, token stored hashed)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  two_factor_pending: boolean('two_factor_pending').notNull().default(false),
+  two_factor_attempts: integer('two_factor_attempts').notNull().default(0),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Two-factor credentials table (one TOTP secret per user, enabled once the first code is confirmed)
+export const twoFactorCredentialsTable = pgTable('two_factor_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id).unique(),
+  secret: text('secret').notNull(),
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Two-factor recovery codes table (single-use, code stored hashed)
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Password reset tokens table (single-use, token stored hashed)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// API keys table (organization-level tokens for automation, token stored hashed)
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
+  name: text('name').notNull(),
+  token_prefix: text('token_prefix').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  scopes: apiKeyScopeEnum('scopes').array().notNull(),
+  created_by: integer('created_by').notNull().references(() => usersTable.id),
+  last_used_at: timestamp('last_used_at'),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// API key status page restrictions (many-to-many relationship, no rows means all pages)
+export const apiKeyStatusPagesTable = pgTable('api_key_status_pages', {
+  id: serial('id').primaryKey(),
+  api_key_id: integer('api_key_id').notNull().references(() => apiKeysTable.id),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Organization invitations table (email invites, accepted through a signed token)
+export const invitationsTable = pgTable('invitations', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
+  email: text('email').notNull(),
+  role: userRoleEnum('role').notNull().default('member'),
+  status: invitationStatusEnum('status').notNull().default('pending'),
+  invited_by: integer('invited_by').notNull().references(() => usersTable.id),
+  expires_at: timestamp('expires_at').notNull(),
+  accepted_at: timestamp('accepted_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Single sign-on connections table (one OpenID Connect provider per organization)
+export const ssoConnectionsTable = pgTable('sso_connections', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id).unique(),
+  issuer: text('issuer').notNull(),
+  client_id: text('client_id').notNull(),
+  client_secret: text('client_secret').notNull(),
+  allowed_domains: text('allowed_domains').array().notNull(),
+  // Allowed domains only take effect once their DNS challenge for this token is verified
+  domain_verification_token: text('domain_verification_token').notNull(),
+  verified_domains: text('verified_domains').array().notNull().default(sql`'{}'`),
+  default_role: ssoRoleEnum('default_role').notNull().default('member'),
+  groups_claim: text('groups_claim'),
+  is_enabled: boolean('is_enabled').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// SSO role mappings table (IdP group name to organization role)
+export const ssoRoleMappingsTable = pgTable('sso_role_mappings', {
+  id: serial('id').primaryKey(),
+  sso_connection_id: integer('sso_connection_id').notNull().references(() => ssoConnectionsTable.id),
+  group_name: text('group_name').notNull(),
+  role: ssoRoleEnum('role').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// SSO identities table (links an identity provider subject to a local user)
+export const ssoIdentitiesTable = pgTable('sso_identities', {
+  id: serial('id').primaryKey(),
+  sso_connection_id: integer('sso_connection_id').notNull().references(() => ssoConnectionsTable.id),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  subject: text('subject').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('sso_identities_connection_subject_unique').on(table.sso_connection_id, table.subject),
+]);
+
+// SSO login attempts table (state, nonce and PKCE verifier of one authorization request, state stored hashed)
+export const ssoLoginAttemptsTable = pgTable('sso_login_attempts', {
+  id: serial('id').primaryKey(),
+  sso_connection_id: integer('sso_connection_id').notNull().references(() => ssoConnectionsTable.id),
+  state_hash: text('state_hash').notNull().unique(),
+  nonce: text('nonce').notNull(),
+  code_verifier: text('code_verifier').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Audit log table (append-only record of changes; actor is null for changes made by the system)
+export const auditLogsTable = pgTable('audit_logs', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
+  actor_user_id: integer('actor_user_id').references(() => usersTable.id),
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id),
+  entity_type: auditEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  action: auditActionEnum('action').notNull(),
+  before: jsonb('before').$type<Record<string, unknown>>(),
+  after: jsonb('after').$type<Record<string, unknown>>(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('audit_logs_organization_created_at_idx').on(table.organization_id, table.created_at),
+]);
+
+// Component status history (one row per status change; uptime is rolled up from it)
+export const componentStatusChangesTable = pgTable('component_status_changes', {
+  id: serial('id').primaryKey(),
+  component_id: integer('component_id').notNull().references(() => componentsTable.id),
+  previous_status: componentStatusEnum('previous_status').notNull(),
+  status: componentStatusEnum('status').notNull(),
+  source: componentStatusChangeSourceEnum('source').notNull(),
+  // Incident or maintenance window behind the change, if any
+  source_id: integer('source_id'),
+  changed_at: timestamp('changed_at').defaultNow().notNull(),
+}, (table) => [
+  index('component_status_changes_component_changed_at_idx').on(table.component_id, table.changed_at),
+]);
+
+// Status page passwords table (shared password for viewing a private page, stored hashed)
+export const statusPagePasswordsTable = pgTable('status_page_passwords', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id).unique(),
+  password_hash: text('password_hash').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Status page sessions table (viewer sessions for private pages, each valid for one page only; token stored hashed)
+export const statusPageSessionsTable = pgTable('status_page_sessions', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Incident translations table (an incident's title and description in one of the page's other languages)
+export const incidentTranslationsTable = pgTable('incident_translations', {
+  id: serial('id').primaryKey(),
+  incident_id: integer('incident_id').notNull().references(() => incidentsTable.id),
+  locale: localeEnum('locale').notNull(),
+  title: text('title').notNull(),
+  description: text('description').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.incident_id, table.locale),
+]);
+
+// Incident update translations table
+export const incidentUpdateTranslationsTable = pgTable('incident_update_translations', {
+  id: serial('id').primaryKey(),
+  incident_update_id: integer('incident_update_id').notNull().references(() => incidentUpdatesTable.id),
+  locale: localeEnum('locale').notNull(),
+  title: text('title').notNull(),
+  description: text('description').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.incident_update_id, table.locale),
+]);
+
+// Subscribers table (email subscriptions to a status page; mail is only sent once confirmed_at is set)
+export const subscribersTable = pgTable('subscribers', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  email: text('email').notNull(),
+  confirmed_at: timestamp('confirmed_at'),
+  confirmation_sent_at: timestamp('confirmation_sent_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.status_page_id, table.email),
+]);
+
+// Subscriber components table (components a subscriber chose; a subscriber without any hears about every component)
+export const subscriberComponentsTable = pgTable('subscriber_components', {
+  id: serial('id').primaryKey(),
+  subscriber_id: integer('subscriber_id').notNull().references(() => subscribersTable.id),
+  component_id: integer('component_id').notNull().references(() => componentsTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.subscriber_id, table.component_id),
+]);
+
+// Webhook endpoints table (organization-wide; the secret signs payloads, so it is stored as is)
+export const webhookEndpointsTable = pgTable('webhook_endpoints', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
+  url: text('url').notNull(),
+  description: text('description'),
+  secret: text('secret').notNull(),
+  event_types: webhookEventTypeEnum('event_types').array().notNull(),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Webhook deliveries table (one event sent to one endpoint; a manual redelivery is a new row with the same event_id)
+export const webhookDeliveriesTable = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  webhook_endpoint_id: integer('webhook_endpoint_id').notNull().references(() => webhookEndpointsTable.id),
+  event_id: text('event_id').notNull(),
+  event_type: webhookEventTypeEnum('event_type').notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: webhookDeliveryStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  // When the next attempt is due; null once the delivery has succeeded or given up
+  next_attempt_at: timestamp('next_attempt_at'),
+  last_attempt_at: timestamp('last_attempt_at'),
+  response_status: integer('response_status'),
+  response_body: text('response_body'),
+  error: text('error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('webhook_deliveries_endpoint_created_at_idx').on(table.webhook_endpoint_id, table.created_at),
+  index('webhook_deliveries_next_attempt_at_idx').on(table.next_attempt_at),
+]);
+
+// Chat integrations table (Slack or Teams channels a status page posts to). Slack integrations with
+// a bot token and channel post through the Web API, which is what lets updates thread under the first message.
+export const chatIntegrationsTable = pgTable('chat_integrations', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  provider: chatProviderEnum('provider').notNull(),
+  name: text('name').notNull(),
+  webhook_url: text('webhook_url'),
+  bot_token: text('bot_token'),
+  channel: text('channel'),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Chat threads table (the first message posted about an incident or maintenance window, which later ones reply to)
+export const chatThreadsTable = pgTable('chat_threads', {
+  id: serial('id').primaryKey(),
+  chat_integration_id: integer('chat_integration_id').notNull().references(() => chatIntegrationsTable.id),
+  incident_id: integer('incident_id').references(() => incidentsTable.id),
+  maintenance_window_id: integer('maintenance_window_id').references(() => maintenanceWindowsTable.id),
+  thread_ts: text('thread_ts').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.chat_integration_id, table.incident_id),
+  unique().on(table.chat_integration_id, table.maintenance_window_id),
+]);
+
+// SMS subscribers table (phone numbers subscribed to a status page; texts are only sent once verified_at is set).
+// The pending verification code is stored hashed and allows a few attempts before a new one has to be requested.
+export const smsSubscribersTable = pgTable('sms_subscribers', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  phone_number: text('phone_number').notNull(),
+  verification_code_hash: text('verification_code_hash'),
+  verification_sent_at: timestamp('verification_sent_at'),
+  verification_expires_at: timestamp('verification_expires_at'),
+  verification_attempts: integer('verification_attempts').notNull().default(0),
+  verified_at: timestamp('verified_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.status_page_id, table.phone_number),
+]);
+
+// SMS rules table (the events a status page texts its subscribers about; a page without rules sends no texts).
+// Incident rules with a minimum component status only fire for incidents that took an affected component at least that far down.
+export const smsRulesTable = pgTable('sms_rules', {
+  id: serial('id').primaryKey(),
+  status_page_id: integer('status_page_id').notNull().references(() => statusPagesTable.id),
+  event_type: smsEventTypeEnum('event_type').notNull(),
+  min_component_status: componentStatusEnum('min_component_status'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.status_page_id, table.event_type),
+]);
+
+// SMS messages table (every text handed to the provider; sent notifications count against the organization's monthly
+// quota, so rows outlive the status page and subscriber they were sent for). A pending row reserves its place in the
+// quota while the provider is called. Verification codes record the page and address that asked for them instead.
+export const smsMessagesTable = pgTable('sms_messages', {
+  id: serial('id').primaryKey(),
+  organization_id: integer('organization_id').notNull().references(() => organizationsTable.id),
+  status_page_id: integer('status_page_id').references(() => statusPagesTable.id),
+  requester_ip: text('requester_ip'),
+  to: text('to').notNull(),
+  kind: smsMessageKindEnum('kind').notNull(),
+  status: smsMessageStatusEnum('status').notNull(),
+  provider_message_id: text('provider_message_id'),
+  error: text('error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('sms_messages_organization_created_at_idx').on(table.organization_id, table.created_at),
+  index('sms_messages_requester_ip_created_at_idx').on(table.requester_ip, table.created_at),
+]);
+
+// Background jobs table (work handed off by requests, such as notification fan-out). Failed jobs are retried
+// until they run out of attempts and are dead-lettered; organization_id is null for work that belongs to no organization.
+export const jobsTable = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  type: text('type').notNull(),
+  payload: jsonb('payload').$type<unknown>().notNull(),
+  organization_id: integer('organization_id').references(() => organizationsTable.id),
+  // Enqueueing a job whose type and key are already queued returns the queued job instead
+  idempotency_key: text('idempotency_key'),
+  status: jobStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  max_attempts: integer('max_attempts').notNull(),
+  // When the job is next due; while it runs, locked_until is when its worker's claim expires
+  run_at: timestamp('run_at').defaultNow().notNull(),
+  locked_until: timestamp('locked_until'),
+  last_error: text('last_error'),
+  finished_at: timestamp('finished_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('jobs_type_idempotency_key_unique').on(table.type, table.idempotency_key),
+  index('jobs_status_run_at_idx').on(table.status, table.run_at),
+  index('jobs_organization_created_at_idx').on(table.organization_id, table.created_at),
+]);
+
 // Define relations
 export const usersRelations = relations(usersTable, ({ many, one }) => ({
   ownedOrganizations: many(organizationsTable),
@@ -132,6 +552,11 @@ export const usersRelations = relations(usersTable, ({ many, one }) => ({
   createdIncidents: many(incidentsTable),
   createdIncidentUpdates: many(incidentUpdatesTable),
   createdMaintenanceWindows: many(maintenanceWindowsTable),
+  sessions: many(sessionsTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  twoFactorCredential: one(twoFactorCredentialsTable),
+  recoveryCodes: many(recoveryCodesTable),
+  ssoIdentities: many(ssoIdentitiesTable),
 }));
 
 export const organizationsRelations = relations(organizationsTable, ({ one, many }) => ({
@@ -141,6 +566,12 @@ export const organizationsRelations = relations(organizationsTable, ({ one, many
   }),
   statusPages: many(statusPagesTable),
   members: many(organizationMembersTable),
+  apiKeys: many(apiKeysTable),
+  invitations: many(invitationsTable),
+  ssoConnection: one(ssoConnectionsTable),
+  webhookEndpoints: many(webhookEndpointsTable),
+  smsMessages: many(smsMessagesTable),
+  jobs: many(jobsTable),
 }));
 
 export const statusPagesRelations = relations(statusPagesTable, ({ one, many }) => ({
@@ -151,6 +582,10 @@ export const statusPagesRelations = relations(statusPagesTable, ({ one, many })
   components: many(componentsTable),
   incidents: many(incidentsTable),
   maintenanceWindows: many(maintenanceWindowsTable),
+  subscribers: many(subscribersTable),
+  chatIntegrations: many(chatIntegrationsTable),
+  smsSubscribers: many(smsSubscribersTable),
+  smsRules: many(smsRulesTable),
 }));
 
 export const componentsRelations = relations(componentsTable, ({ one, many }) => ({
@@ -160,6 +595,8 @@ export const componentsRelations = relations(componentsTable, ({ one, many }) =>
   }),
   incidentAffected: many(incidentAffectedComponentsTable),
   maintenanceAffected: many(maintenanceAffectedComponentsTable),
+  statusChanges: many(componentStatusChangesTable),
+  subscribers: many(subscriberComponentsTable),
 }));
 
 export const incidentsRelations = relations(incidentsTable, ({ one, many }) => ({
@@ -173,9 +610,10 @@ export const incidentsRelations = relations(incidentsTable, ({ one, many }) => (
   }),
   updates: many(incidentUpdatesTable),
   affectedComponents: many(incidentAffectedComponentsTable),
+  translations: many(incidentTranslationsTable),
 }));
 
-export const incidentUpdatesRelations = relations(incidentUpdatesTable, ({ one }) => ({
+export const incidentUpdatesRelations = relations(incidentUpdatesTable, ({ one, many }) => ({
   incident: one(incidentsTable, {
     fields: [incidentUpdatesTable.incident_id],
     references: [incidentsTable.id],
@@ -184,6 +622,7 @@ export const incidentUpdatesRelations = relations(incidentUpdatesTable, ({ one }
     fields: [incidentUpdatesTable.created_by],
     references: [usersTable.id],
   }),
+  translations: many(incidentUpdateTranslationsTable),
 }));
 
 export const maintenanceWindowsRelations = relations(maintenanceWindowsTable, ({ one, many }) => ({
@@ -231,6 +670,238 @@ export const maintenanceAffectedComponentsRelations = relations(maintenanceAffec
   }),
 }));
 
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const twoFactorCredentialsRelations = relations(twoFactorCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorCredentialsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one, many }) => ({
+  organization: one(organizationsTable, {
+    fields: [apiKeysTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+  createdBy: one(usersTable, {
+    fields: [apiKeysTable.created_by],
+    references: [usersTable.id],
+  }),
+  statusPages: many(apiKeyStatusPagesTable),
+}));
+
+export const apiKeyStatusPagesRelations = relations(apiKeyStatusPagesTable, ({ one }) => ({
+  apiKey: one(apiKeysTable, {
+    fields: [apiKeyStatusPagesTable.api_key_id],
+    references: [apiKeysTable.id],
+  }),
+  statusPage: one(statusPagesTable, {
+    fields: [apiKeyStatusPagesTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+}));
+
+export const invitationsRelations = relations(invitationsTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [invitationsTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+  invitedBy: one(usersTable, {
+    fields: [invitationsTable.invited_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const ssoConnectionsRelations = relations(ssoConnectionsTable, ({ one, many }) => ({
+  organization: one(organizationsTable, {
+    fields: [ssoConnectionsTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+  roleMappings: many(ssoRoleMappingsTable),
+  identities: many(ssoIdentitiesTable),
+  loginAttempts: many(ssoLoginAttemptsTable),
+}));
+
+export const ssoIdentitiesRelations = relations(ssoIdentitiesTable, ({ one }) => ({
+  ssoConnection: one(ssoConnectionsTable, {
+    fields: [ssoIdentitiesTable.sso_connection_id],
+    references: [ssoConnectionsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [ssoIdentitiesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const ssoRoleMappingsRelations = relations(ssoRoleMappingsTable, ({ one }) => ({
+  ssoConnection: one(ssoConnectionsTable, {
+    fields: [ssoRoleMappingsTable.sso_connection_id],
+    references: [ssoConnectionsTable.id],
+  }),
+}));
+
+export const ssoLoginAttemptsRelations = relations(ssoLoginAttemptsTable, ({ one }) => ({
+  ssoConnection: one(ssoConnectionsTable, {
+    fields: [ssoLoginAttemptsTable.sso_connection_id],
+    references: [ssoConnectionsTable.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogsTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [auditLogsTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+  actor: one(usersTable, {
+    fields: [auditLogsTable.actor_user_id],
+    references: [usersTable.id],
+  }),
+  apiKey: one(apiKeysTable, {
+    fields: [auditLogsTable.api_key_id],
+    references: [apiKeysTable.id],
+  }),
+}));
+
+export const statusPagePasswordsRelations = relations(statusPagePasswordsTable, ({ one }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [statusPagePasswordsTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+}));
+
+export const statusPageSessionsRelations = relations(statusPageSessionsTable, ({ one }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [statusPageSessionsTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+}));
+
+export const componentStatusChangesRelations = relations(componentStatusChangesTable, ({ one }) => ({
+  component: one(componentsTable, {
+    fields: [componentStatusChangesTable.component_id],
+    references: [componentsTable.id],
+  }),
+}));
+
+export const incidentTranslationsRelations = relations(incidentTranslationsTable, ({ one }) => ({
+  incident: one(incidentsTable, {
+    fields: [incidentTranslationsTable.incident_id],
+    references: [incidentsTable.id],
+  }),
+}));
+
+export const incidentUpdateTranslationsRelations = relations(incidentUpdateTranslationsTable, ({ one }) => ({
+  incidentUpdate: one(incidentUpdatesTable, {
+    fields: [incidentUpdateTranslationsTable.incident_update_id],
+    references: [incidentUpdatesTable.id],
+  }),
+}));
+
+export const subscribersRelations = relations(subscribersTable, ({ one, many }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [subscribersTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+  components: many(subscriberComponentsTable),
+}));
+
+export const webhookEndpointsRelations = relations(webhookEndpointsTable, ({ one, many }) => ({
+  organization: one(organizationsTable, {
+    fields: [webhookEndpointsTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+  deliveries: many(webhookDeliveriesTable),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveriesTable, ({ one }) => ({
+  endpoint: one(webhookEndpointsTable, {
+    fields: [webhookDeliveriesTable.webhook_endpoint_id],
+    references: [webhookEndpointsTable.id],
+  }),
+}));
+
+export const chatIntegrationsRelations = relations(chatIntegrationsTable, ({ one, many }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [chatIntegrationsTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+  threads: many(chatThreadsTable),
+}));
+
+export const chatThreadsRelations = relations(chatThreadsTable, ({ one }) => ({
+  integration: one(chatIntegrationsTable, {
+    fields: [chatThreadsTable.chat_integration_id],
+    references: [chatIntegrationsTable.id],
+  }),
+  incident: one(incidentsTable, {
+    fields: [chatThreadsTable.incident_id],
+    references: [incidentsTable.id],
+  }),
+  maintenanceWindow: one(maintenanceWindowsTable, {
+    fields: [chatThreadsTable.maintenance_window_id],
+    references: [maintenanceWindowsTable.id],
+  }),
+}));
+
+export const smsSubscribersRelations = relations(smsSubscribersTable, ({ one }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [smsSubscribersTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+}));
+
+export const smsRulesRelations = relations(smsRulesTable, ({ one }) => ({
+  statusPage: one(statusPagesTable, {
+    fields: [smsRulesTable.status_page_id],
+    references: [statusPagesTable.id],
+  }),
+}));
+
+export const smsMessagesRelations = relations(smsMessagesTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [smsMessagesTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobsTable, ({ one }) => ({
+  organization: one(organizationsTable, {
+    fields: [jobsTable.organization_id],
+    references: [organizationsTable.id],
+  }),
+}));
+
+export const subscriberComponentsRelations = relations(subscriberComponentsTable, ({ one }) => ({
+  subscriber: one(subscribersTable, {
+    fields: [subscriberComponentsTable.subscriber_id],
+    references: [subscribersTable.id],
+  }),
+  component: one(componentsTable, {
+    fields: [subscriberComponentsTable.component_id],
+    references: [componentsTable.id],
+  }),
+}));
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
@@ -262,6 +933,87 @@ export type NewIncidentAffectedComponent = typeof incidentAffectedComponentsTabl
 export type MaintenanceAffectedComponent = typeof maintenanceAffectedComponentsTable.$inferSelect;
 export type NewMaintenanceAffectedComponent = typeof maintenanceAffectedComponentsTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type TwoFactorCredential = typeof twoFactorCredentialsTable.$inferSelect;
+export type NewTwoFactorCredential = typeof twoFactorCredentialsTable.$inferInsert;
+
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+
+export type ApiKeyStatusPage = typeof apiKeyStatusPagesTable.$inferSelect;
+export type NewApiKeyStatusPage = typeof apiKeyStatusPagesTable.$inferInsert;
+
+export type Invitation = typeof invitationsTable.$inferSelect;
+export type NewInvitation = typeof invitationsTable.$inferInsert;
+
+export type SsoConnection = typeof ssoConnectionsTable.$inferSelect;
+export type NewSsoConnection = typeof ssoConnectionsTable.$inferInsert;
+
+export type SsoRoleMapping = typeof ssoRoleMappingsTable.$inferSelect;
+export type NewSsoRoleMapping = typeof ssoRoleMappingsTable.$inferInsert;
+
+export type SsoIdentity = typeof ssoIdentitiesTable.$inferSelect;
+export type NewSsoIdentity = typeof ssoIdentitiesTable.$inferInsert;
+
+export type SsoLoginAttempt = typeof ssoLoginAttemptsTable.$inferSelect;
+export type NewSsoLoginAttempt = typeof ssoLoginAttemptsTable.$inferInsert;
+
+export type AuditLog = typeof auditLogsTable.$inferSelect;
+export type NewAuditLog = typeof auditLogsTable.$inferInsert;
+
+export type ComponentStatusChange = typeof componentStatusChangesTable.$inferSelect;
+export type NewComponentStatusChange = typeof componentStatusChangesTable.$inferInsert;
+
+export type StatusPagePassword = typeof statusPagePasswordsTable.$inferSelect;
+export type NewStatusPagePassword = typeof statusPagePasswordsTable.$inferInsert;
+
+export type StatusPageSession = typeof statusPageSessionsTable.$inferSelect;
+export type NewStatusPageSession = typeof statusPageSessionsTable.$inferInsert;
+
+export type IncidentTranslation = typeof incidentTranslationsTable.$inferSelect;
+export type NewIncidentTranslation = typeof incidentTranslationsTable.$inferInsert;
+
+export type IncidentUpdateTranslation = typeof incidentUpdateTranslationsTable.$inferSelect;
+export type NewIncidentUpdateTranslation = typeof incidentUpdateTranslationsTable.$inferInsert;
+
+export type Subscriber = typeof subscribersTable.$inferSelect;
+export type NewSubscriber = typeof subscribersTable.$inferInsert;
+
+export type SubscriberComponent = typeof subscriberComponentsTable.$inferSelect;
+export type NewSubscriberComponent = typeof subscriberComponentsTable.$inferInsert;
+
+export type WebhookEndpoint = typeof webhookEndpointsTable.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpointsTable.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveriesTable.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveriesTable.$inferInsert;
+
+export type ChatIntegration = typeof chatIntegrationsTable.$inferSelect;
+export type NewChatIntegration = typeof chatIntegrationsTable.$inferInsert;
+
+export type ChatThread = typeof chatThreadsTable.$inferSelect;
+export type NewChatThread = typeof chatThreadsTable.$inferInsert;
+
+export type SmsSubscriber = typeof smsSubscribersTable.$inferSelect;
+export type NewSmsSubscriber = typeof smsSubscribersTable.$inferInsert;
+
+export type SmsRule = typeof smsRulesTable.$inferSelect;
+export type NewSmsRule = typeof smsRulesTable.$inferInsert;
+
+export type SmsMessage = typeof smsMessagesTable.$inferSelect;
+export type NewSmsMessage = typeof smsMessagesTable.$inferInsert;
+
+export type Job = typeof jobsTable.$inferSelect;
+export type NewJob = typeof jobsTable.$inferInsert;
+
 // Important: Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
@@ -274,4 +1026,31 @@ export const tables = {
   organizationMembers: organizationMembersTable,
   incidentAffectedComponents: incidentAffectedComponentsTable,
   maintenanceAffectedComponents: maintenanceAffectedComponentsTable,
-};
\ No newline at end of file
+  sessions: sessionsTable,
+  twoFactorCredentials: twoFactorCredentialsTable,
+  recoveryCodes: recoveryCodesTable,
+  passwordResetTokens: passwordResetTokensTable,
+  apiKeys: apiKeysTable,
+  apiKeyStatusPages: apiKeyStatusPagesTable,
+  invitations: invitationsTable,
+  ssoConnections: ssoConnectionsTable,
+  ssoRoleMappings: ssoRoleMappingsTable,
+  ssoIdentities: ssoIdentitiesTable,
+  ssoLoginAttempts: ssoLoginAttemptsTable,
+  auditLogs: auditLogsTable,
+  componentStatusChanges: componentStatusChangesTable,
+  statusPagePasswords: statusPagePasswordsTable,
+  statusPageSessions: statusPageSessionsTable,
+  incidentTranslations: incidentTranslationsTable,
+  incidentUpdateTranslations: incidentUpdateTranslationsTable,
+  subscribers: subscribersTable,
+  subscriberComponents: subscriberComponentsTable,
+  webhookEndpoints: webhookEndpointsTable,
+  webhookDeliveries: webhookDeliveriesTable,
+  chatIntegrations: chatIntegrationsTable,
+  chatThreads: chatThreadsTable,
+  smsSubscribers: smsSubscribersTable,
+  smsRules: smsRulesTable,
+  smsMessages: smsMessagesTable,
+  jobs: jobsTable,
+};
@@ -0,0 +1,101 @@
+import { db } from '../db';
+import { usersTable, organizationMembersTable, invitationsTable } from '../db/schema';
+import { type AcceptInvitationInput, type AcceptInvitationResult } from '../schema';
+import { eq, and } from 'drizzle-orm';
+import { findPendingInvitation } from '../lib/invitations';
+import { recordAuditEvent } from '../lib/audit';
+
+export const acceptInvitation = async (input: AcceptInvitationInput): Promise<AcceptInvitationResult> => {
+  try {
+    const invitation = await findPendingInvitation(input.token);
+
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, invitation.email))
+      .execute();
+
+    if (existingUsers.length === 0 && (!input.first_name || !input.last_name || !input.password)) {
+      throw new Error('First name, last name and password are required to create an account');
+    }
+
+    // The seat was reserved when the invitation was sent, so no plan limit check here
+    const { result, member } = await db.transaction(async (tx) => {
+      let account = existingUsers[0];
+      const accountCreated = !account;
+
+      if (!account) {
+        const password_hash = await Bun.password.hash(input.password!, {
+          algorithm: "bcrypt",
+          cost: 10
+        });
+
+        const userResult = await tx.insert(usersTable)
+          .values({
+            email: invitation.email,
+            password_hash,
+            first_name: input.first_name!,
+            last_name: input.last_name!,
+            // Following the emailed invite link proves the address
+            email_verified_at: new Date()
+          })
+          .returning()
+          .execute();
+        account = userResult[0];
+      }
+
+      const existingMembers = await tx.select({ id: organizationMembersTable.id })
+        .from(organizationMembersTable)
+        .where(
+          and(
+            eq(organizationMembersTable.organization_id, invitation.organization_id),
+            eq(organizationMembersTable.user_id, account.id)
+          )
+        )
+        .execute();
+
+      let member = null;
+      if (existingMembers.length === 0) {
+        const memberResult = await tx.insert(organizationMembersTable)
+          .values({
+            organization_id: invitation.organization_id,
+            user_id: account.id,
+            role: invitation.role
+          })
+          .returning()
+          .execute();
+        member = memberResult[0];
+      }
+
+      const invitationResult = await tx.update(invitationsTable)
+        .set({ status: 'accepted', accepted_at: new Date() })
+        .where(and(eq(invitationsTable.id, invitation.id), eq(invitationsTable.status, 'pending')))
+        .returning()
+        .execute();
+
+      // Another request accepted or revoked it while this one was running
+      if (invitationResult.length === 0) {
+        throw new Error('Invitation is no longer pending');
+      }
+
+      const { password_hash, ...user } = account;
+
+      return { result: { invitation: invitationResult[0], user, account_created: accountCreated }, member };
+    });
+
+    // The invitee joins on their own behalf
+    if (member) {
+      await recordAuditEvent({ userId: member.user_id, apiKey: null }, {
+        organizationId: member.organization_id,
+        entityType: 'member',
+        entityId: member.id,
+        action: 'create',
+        after: member
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Invitation acceptance failed:', error);
+    throw error;
+  }
+};
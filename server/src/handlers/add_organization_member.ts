@@ -1,9 +1,12 @@
 import { db } from '../db';
 import { organizationsTable, organizationMembersTable, usersTable } from '../db/schema';
 import { type OrganizationMember, type UserRole } from '../schema';
-import { eq, and, count } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
+import { assertSeatAvailable } from '../lib/seats';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
 
-export const addOrganizationMember = async (organizationId: number, userId: number, role: UserRole = 'member'): Promise<OrganizationMember> => {
+export const addOrganizationMember = async (organizationId: number, userId: number, role: UserRole = 'member', actor: Actor | null = null): Promise<OrganizationMember> => {
   try {
     // Verify organization exists and get plan type
     const organizations = await db.select({
@@ -45,26 +48,8 @@ export const addOrganizationMember = async (organizationId: number, userId: numb
       throw new Error('User is already a member of this organization');
     }
 
-    // Check plan limits
-    const memberCountResult = await db.select({ count: count() })
-      .from(organizationMembersTable)
-      .where(eq(organizationMembersTable.organization_id, organizationId))
-      .execute();
-
-    const currentMemberCount = memberCountResult[0].count;
-
-    // Define plan limits
-    const planLimits = {
-      free: 7,
-      pro: 35,
-      plus: 50,
-      enterprise: Infinity
-    };
-
-    const limit = planLimits[organization.plan_type];
-    if (currentMemberCount >= limit) {
-      throw new Error(`Organization has reached the member limit for ${organization.plan_type} plan (${limit} members)`);
-    }
+    // Check plan limits, counting seats held by pending invitations
+    await assertSeatAvailable(organizationId, organization.plan_type);
 
     // Add the member
     const result = await db.insert(organizationMembersTable)
@@ -76,6 +61,14 @@ export const addOrganizationMember = async (organizationId: number, userId: numb
       .returning()
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'member',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0]
+    });
+
     return result[0];
   } catch (error) {
     console.error('Add organization member failed:', error);
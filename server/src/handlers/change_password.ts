@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { hashToken } from '../lib/auth';
+import { eq, and, ne } from 'drizzle-orm';
+
+// Other sessions are signed out; the session making the change stays valid
+export const changePassword = async (input: ChangePasswordInput, userId: number, currentSessionToken: string | null): Promise<boolean> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const passwordMatches = await Bun.password.verify(input.current_password, users[0].password_hash);
+    if (!passwordMatches) {
+      throw new Error('Current password is incorrect');
+    }
+
+    const password_hash = await Bun.password.hash(input.new_password, {
+      algorithm: "bcrypt",
+      cost: 10
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({ password_hash, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await tx.delete(sessionsTable)
+        .where(
+          currentSessionToken
+            ? and(eq(sessionsTable.user_id, userId), ne(sessionsTable.token_hash, hashToken(currentSessionToken)))
+            : eq(sessionsTable.user_id, userId)
+        )
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
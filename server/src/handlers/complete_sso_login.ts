@@ -0,0 +1,229 @@
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  organizationMembersTable,
+  ssoConnectionsTable,
+  ssoRoleMappingsTable,
+  ssoIdentitiesTable,
+  ssoLoginAttemptsTable,
+  type SsoRoleMapping
+} from '../db/schema';
+import { type CompleteSsoLoginInput, type LoginResult, type UserRole } from '../schema';
+import { generateToken, hashToken } from '../lib/auth';
+import { fetchDiscovery, exchangeAuthorizationCode, verifyIdToken, type IdTokenClaims } from '../lib/oidc';
+import { createSession } from '../lib/sessions';
+import { assertSeatAvailable } from '../lib/seats';
+import { recordAuditEvent } from '../lib/audit';
+import { eq, and, ne, gt, isNull, sql } from 'drizzle-orm';
+
+// When several mapped groups match, the most privileged role wins
+const roleRank: Record<UserRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+
+const readGroups = (claim: unknown): string[] => {
+  if (Array.isArray(claim)) {
+    return claim.filter((group): group is string => typeof group === 'string');
+  }
+  return typeof claim === 'string' ? [claim] : [];
+};
+
+const resolveMappedRole = (groups: string[], mappings: SsoRoleMapping[]): UserRole | null => {
+  return mappings
+    .filter(mapping => groups.includes(mapping.group_name))
+    .map(mapping => mapping.role)
+    .reduce<UserRole | null>((best, role) => (best === null || roleRank[role] > roleRank[best] ? role : best), null);
+};
+
+const nameFromClaims = (claims: IdTokenClaims, email: string): { first_name: string; last_name: string } => {
+  const given = typeof claims['given_name'] === 'string' ? claims['given_name'] : null;
+  const family = typeof claims['family_name'] === 'string' ? claims['family_name'] : null;
+  if (given || family) {
+    return { first_name: given ?? '', last_name: family ?? '' };
+  }
+
+  const [first, ...rest] = (typeof claims['name'] === 'string' ? claims['name'] : email.split('@')[0]).split(' ');
+  return { first_name: first, last_name: rest.join(' ') };
+};
+
+// Finishes an OIDC authorization code flow: provisions the user just in time, syncs their role and signs them in.
+// The identity provider is trusted for authentication, so no local second factor is asked for.
+export const completeSsoLogin = async (input: CompleteSsoLoginInput, stateCookie: string | null): Promise<LoginResult> => {
+  try {
+    if (!stateCookie || stateCookie !== input.state) {
+      throw new Error('Single sign-on request is invalid or has expired');
+    }
+
+    // Consumed up front so an authorization response can only ever be used once
+    const attempts = await db.update(ssoLoginAttemptsTable)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(ssoLoginAttemptsTable.state_hash, hashToken(input.state)),
+          isNull(ssoLoginAttemptsTable.used_at),
+          gt(ssoLoginAttemptsTable.expires_at, new Date())
+        )
+      )
+      .returning()
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error('Single sign-on request is invalid or has expired');
+    }
+
+    const attempt = attempts[0];
+
+    const results = await db.select({ connection: ssoConnectionsTable, organization: organizationsTable })
+      .from(ssoConnectionsTable)
+      .innerJoin(organizationsTable, eq(ssoConnectionsTable.organization_id, organizationsTable.id))
+      .where(eq(ssoConnectionsTable.id, attempt.sso_connection_id))
+      .execute();
+
+    if (results.length === 0 || !results[0].connection.is_enabled || results[0].organization.plan_type !== 'enterprise') {
+      throw new Error('Single sign-on is not configured for this organization');
+    }
+
+    const { connection, organization } = results[0];
+
+    const discovery = await fetchDiscovery(connection.issuer);
+    const idToken = await exchangeAuthorizationCode(discovery, {
+      clientId: connection.client_id,
+      clientSecret: connection.client_secret,
+      code: input.code,
+      codeVerifier: attempt.code_verifier
+    });
+    const claims = await verifyIdToken(idToken, { discovery, clientId: connection.client_id, nonce: attempt.nonce });
+
+    const email = typeof claims['email'] === 'string' ? claims['email'].toLowerCase() : null;
+    if (!email) {
+      throw new Error('The identity provider did not share an email address');
+    }
+
+    if (claims['email_verified'] === false) {
+      throw new Error('The identity provider has not verified this email address');
+    }
+
+    const domain = email.split('@')[1];
+    if (!connection.allowed_domains.includes(domain)) {
+      throw new Error(`Email domain ${domain} is not allowed to sign in to this organization`);
+    }
+
+    // Anyone can list a domain; only a verified one lets the provider vouch for its addresses
+    if (!connection.verified_domains.includes(domain)) {
+      throw new Error(`Email domain ${domain} has not been verified for this organization`);
+    }
+
+    const mappings = await db.select()
+      .from(ssoRoleMappingsTable)
+      .where(eq(ssoRoleMappingsTable.sso_connection_id, connection.id))
+      .execute();
+
+    const groups = connection.groups_claim ? readGroups(claims[connection.groups_claim]) : [];
+    const role = resolveMappedRole(groups, mappings) ?? connection.default_role;
+
+    // Returning users are recognised by their subject at this provider, so later email changes do not matter
+    const identities = await db.select({ user: usersTable })
+      .from(ssoIdentitiesTable)
+      .innerJoin(usersTable, eq(ssoIdentitiesTable.user_id, usersTable.id))
+      .where(and(eq(ssoIdentitiesTable.sso_connection_id, connection.id), eq(ssoIdentitiesTable.subject, claims.sub)))
+      .execute();
+
+    let user = identities[0]?.user ?? null;
+
+    if (!user) {
+      const existingUsers = await db.select()
+        .from(usersTable)
+        .where(eq(sql`lower(${usersTable.email})`, email))
+        .execute();
+      user = existingUsers[0] ?? null;
+
+      // The organization controls its provider, so it may only claim accounts that belong to no other organization
+      if (user) {
+        const otherMemberships = await db.select({ id: organizationMembersTable.id })
+          .from(organizationMembersTable)
+          .where(and(eq(organizationMembersTable.user_id, user.id), ne(organizationMembersTable.organization_id, organization.id)))
+          .execute();
+        const ownedElsewhere = await db.select({ id: organizationsTable.id })
+          .from(organizationsTable)
+          .where(and(eq(organizationsTable.owner_id, user.id), ne(organizationsTable.id, organization.id)))
+          .execute();
+
+        if (otherMemberships.length > 0 || ownedElsewhere.length > 0) {
+          throw new Error('An account with this email already belongs to another organization; sign in with your password instead');
+        }
+      }
+    }
+
+    if (user && !user.is_active) {
+      throw new Error('This account has been deactivated');
+    }
+
+    const members = user
+      ? await db.select()
+        .from(organizationMembersTable)
+        .where(and(eq(organizationMembersTable.organization_id, organization.id), eq(organizationMembersTable.user_id, user.id)))
+        .execute()
+      : [];
+    const member = members[0] ?? null;
+
+    if (!member) {
+      await assertSeatAvailable(organization.id, organization.plan_type);
+    }
+
+    const { account: signedInUser, memberAfter } = await db.transaction(async (tx) => {
+      let account = user;
+
+      if (!account) {
+        // SSO-provisioned accounts get an unusable random password; they can set one through a password reset
+        const password_hash = await Bun.password.hash(generateToken(), { algorithm: 'bcrypt', cost: 10 });
+        const created = await tx.insert(usersTable)
+          .values({ email, password_hash, ...nameFromClaims(claims, email), email_verified_at: new Date() })
+          .returning()
+          .execute();
+        account = created[0];
+      }
+
+      if (identities.length === 0) {
+        await tx.insert(ssoIdentitiesTable)
+          .values({ sso_connection_id: connection.id, user_id: account.id, subject: claims.sub })
+          .execute();
+      }
+
+      let memberAfter = member;
+      if (!member) {
+        const memberResult = await tx.insert(organizationMembersTable)
+          .values({ organization_id: organization.id, user_id: account.id, role })
+          .returning()
+          .execute();
+        memberAfter = memberResult[0];
+      } else if (connection.groups_claim && member.role !== 'owner' && organization.owner_id !== account.id && member.role !== role) {
+        // With a groups claim configured the provider is the source of truth for roles; owners are never changed
+        const memberResult = await tx.update(organizationMembersTable)
+          .set({ role })
+          .where(eq(organizationMembersTable.id, member.id))
+          .returning()
+          .execute();
+        memberAfter = memberResult[0];
+      }
+
+      return { account, memberAfter: memberAfter! };
+    });
+
+    // Provisioning and role syncs happen on the user's own behalf; an unchanged member records nothing
+    await recordAuditEvent({ userId: signedInUser.id, apiKey: null }, {
+      organizationId: organization.id,
+      entityType: 'member',
+      entityId: memberAfter.id,
+      action: member ? 'update' : 'create',
+      before: member,
+      after: memberAfter
+    });
+
+    const { token, expires_at } = await createSession(signedInUser.id);
+    const { password_hash, ...authUser } = signedInUser;
+
+    return { user: authUser, token, expires_at, two_factor_required: false };
+  } catch (error) {
+    console.error('SSO login completion failed:', error);
+    throw error;
+  }
+};
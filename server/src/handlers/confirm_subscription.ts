@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { subscribersTable } from '../db/schema';
+import { verifySignedToken } from '../lib/auth';
+import { SUBSCRIPTION_CONFIRMATION_PURPOSE } from '../lib/subscribers';
+import { eq } from 'drizzle-orm';
+
+// Following the link again after confirming keeps the original confirmation time
+export const confirmSubscription = async (token: string): Promise<boolean> => {
+  try {
+    const subscriberId = verifySignedToken(token, SUBSCRIPTION_CONFIRMATION_PURPOSE);
+    if (subscriberId === null) {
+      throw new Error('Invalid or expired confirmation link');
+    }
+
+    const subscribers = await db.select()
+      .from(subscribersTable)
+      .where(eq(subscribersTable.id, subscriberId))
+      .execute();
+
+    // The subscriber may have unsubscribed since the link was sent
+    if (subscribers.length === 0) {
+      throw new Error('Invalid or expired confirmation link');
+    }
+
+    if (!subscribers[0].confirmed_at) {
+      await db.update(subscribersTable)
+        .set({ confirmed_at: new Date() })
+        .where(eq(subscribersTable.id, subscriberId))
+        .execute();
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Subscription confirmation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { twoFactorCredentialsTable } from '../db/schema';
+import { type TwoFactorCodeInput, type RecoveryCodes } from '../schema';
+import { consumeTotpCode, replaceRecoveryCodes } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+// 2FA is only switched on once the user proves their authenticator produces valid codes
+export const confirmTwoFactorEnrollment = async (input: TwoFactorCodeInput, userId: number): Promise<RecoveryCodes> => {
+  try {
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    const credential = credentials[0];
+    if (!credential) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+
+    if (credential.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!(await consumeTotpCode(credential, input.code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await db.update(twoFactorCredentialsTable)
+      .set({ enabled_at: new Date() })
+      .where(eq(twoFactorCredentialsTable.id, credential.id))
+      .execute();
+
+    return { recovery_codes: await replaceRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Two-factor enrollment confirmation failed:', error);
+    throw error;
+  }
+};
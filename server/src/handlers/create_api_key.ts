@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { apiKeysTable, apiKeyStatusPagesTable, statusPagesTable } from '../db/schema';
+import { type CreateApiKeyInput, type CreatedApiKey } from '../schema';
+import { generateToken, hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const createApiKey = async (input: CreateApiKeyInput, createdBy: number, actor: Actor | null = null): Promise<CreatedApiKey> => {
+  try {
+    // Verify that all restricted status pages belong to the organization
+    if (input.status_page_ids.length > 0) {
+      const statusPages = await db.select({ id: statusPagesTable.id })
+        .from(statusPagesTable)
+        .where(eq(statusPagesTable.organization_id, input.organization_id))
+        .execute();
+
+      const validStatusPageIds = statusPages.map(p => p.id);
+      const invalidStatusPageIds = input.status_page_ids.filter(id => !validStatusPageIds.includes(id));
+
+      if (invalidStatusPageIds.length > 0) {
+        throw new Error(`Status pages with ids ${invalidStatusPageIds.join(', ')} not found or do not belong to the organization`);
+      }
+    }
+
+    const token = `es_${generateToken()}`;
+
+    const apiKey = await db.transaction(async (tx) => {
+      const result = await tx.insert(apiKeysTable)
+        .values({
+          organization_id: input.organization_id,
+          name: input.name,
+          token_prefix: token.slice(0, 10),
+          token_hash: hashToken(token),
+          scopes: input.scopes,
+          created_by: createdBy,
+          expires_at: input.expires_at
+        })
+        .returning()
+        .execute();
+
+      if (input.status_page_ids.length > 0) {
+        await tx.insert(apiKeyStatusPagesTable)
+          .values(input.status_page_ids.map(status_page_id => ({
+            api_key_id: result[0].id,
+            status_page_id
+          })))
+          .execute();
+      }
+
+      return result[0];
+    });
+
+    const { token_hash, ...apiKeyFields } = apiKey;
+
+    await recordAuditEvent(actor ?? { userId: createdBy, apiKey: null }, {
+      organizationId: input.organization_id,
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      action: 'create',
+      after: { ...apiKeyFields, status_page_ids: input.status_page_ids }
+    });
+
+    return {
+      api_key: { ...apiKeyFields, status_page_ids: input.status_page_ids },
+      token
+    };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { chatIntegrationsTable, statusPagesTable } from '../db/schema';
+import { type ChatIntegration, type CreateChatIntegrationInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { chatIntegrationConfigError, withoutChatCredentials } from '../lib/chat_notifications';
+import { type Actor } from '../lib/permissions';
+
+export const createChatIntegration = async (input: CreateChatIntegrationInput, actor: Actor | null = null): Promise<ChatIntegration> => {
+  try {
+    const statusPages = await db.select()
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.id, input.status_page_id))
+      .execute();
+
+    if (statusPages.length === 0) {
+      throw new Error(`Status page with id ${input.status_page_id} not found`);
+    }
+
+    const values = {
+      status_page_id: input.status_page_id,
+      provider: input.provider,
+      name: input.name,
+      webhook_url: input.webhook_url ?? null,
+      // Teams has no bot token mode
+      bot_token: input.provider === 'slack' ? input.bot_token ?? null : null,
+      channel: input.provider === 'slack' ? input.channel ?? null : null
+    };
+
+    const configError = chatIntegrationConfigError(values);
+    if (configError) {
+      throw new Error(configError);
+    }
+
+    const result = await db.insert(chatIntegrationsTable)
+      .values(values)
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: statusPages[0].organization_id,
+      entityType: 'chat_integration',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0]
+    });
+
+    return withoutChatCredentials(result[0]);
+  } catch (error) {
+    console.error('Chat integration creation failed:', error);
+    throw error;
+  }
+};
@@ -2,8 +2,10 @@ import { db } from '../db';
 import { componentsTable, statusPagesTable, organizationsTable } from '../db/schema';
 import { type CreateComponentInput, type Component } from '../schema';
 import { eq, count } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
 
-export const createComponent = async (input: CreateComponentInput): Promise<Component> => {
+export const createComponent = async (input: CreateComponentInput, actor: Actor | null = null): Promise<Component> => {
   try {
     // First, validate that the status page exists and get organization plan type
     const statusPageResult = await db.select({
@@ -20,7 +22,7 @@ export const createComponent = async (input: CreateComponentInput): Promise<Comp
       throw new Error('Status page not found');
     }
 
-    const { plan_type } = statusPageResult[0];
+    const { plan_type, organization_id } = statusPageResult[0];
 
     // Check component count limits based on plan type
     const componentCountResult = await db.select({ count: count() })
@@ -55,6 +57,14 @@ export const createComponent = async (input: CreateComponentInput): Promise<Comp
       .returning()
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId: organization_id,
+      entityType: 'component',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0]
+    });
+
     return result[0];
   } catch (error) {
     console.error('Component creation failed:', error);
@@ -1,9 +1,33 @@
 import { db } from '../db';
-import { incidentsTable, incidentAffectedComponentsTable } from '../db/schema';
+import { incidentsTable, incidentAffectedComponentsTable, componentsTable } from '../db/schema';
 import { type CreateIncidentInput, type Incident } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { setComponentStatuses } from '../lib/component_history';
+import { incidentCreatedNotification } from '../lib/subscribers';
+import { emitWebhookEvent, incidentEventData } from '../lib/webhooks';
+import { incidentCreatedChatNotification } from '../lib/chat_notifications';
+import { incidentCreatedSmsNotification } from '../lib/sms_notifications';
+import { queueStatusPageNotifications } from '../lib/notifications';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
 
-export const createIncident = async (input: CreateIncidentInput): Promise<Incident> => {
+export const createIncident = async (input: CreateIncidentInput, createdBy: number, actor: Actor | null = null): Promise<Incident> => {
   try {
+    // Verify that all affected components belong to the incident's status page
+    if (input.affected_component_ids.length > 0) {
+      const components = await db.select({ id: componentsTable.id })
+        .from(componentsTable)
+        .where(eq(componentsTable.status_page_id, input.status_page_id))
+        .execute();
+
+      const validComponentIds = components.map(c => c.id);
+      const invalidComponentIds = input.affected_component_ids.filter(id => !validComponentIds.includes(id));
+
+      if (invalidComponentIds.length > 0) {
+        throw new Error(`Components with ids ${invalidComponentIds.join(', ')} not found or do not belong to the status page`);
+      }
+    }
+
     // Insert incident record
     const incidentResult = await db.insert(incidentsTable)
       .values({
@@ -11,7 +35,7 @@ export const createIncident = async (input: CreateIncidentInput): Promise<Incide
         title: input.title,
         description: input.description,
         status: input.status,
-        created_by: input.created_by
+        created_by: createdBy
       })
       .returning()
       .execute();
@@ -28,8 +52,31 @@ export const createIncident = async (input: CreateIncidentInput): Promise<Incide
       await db.insert(incidentAffectedComponentsTable)
         .values(affectedComponentValues)
         .execute();
+
+      if (input.component_status !== undefined) {
+        await setComponentStatuses(input.affected_component_ids, input.component_status, { source: 'incident', sourceId: incident.id });
+      }
     }
 
+    const scope = await resolveTargetScope({ statusPageId: input.status_page_id });
+    await recordAuditEvent(actor ?? { userId: createdBy, apiKey: null }, {
+      organizationId: scope!.organizationId,
+      entityType: 'incident',
+      entityId: incident.id,
+      action: 'create',
+      after: { ...incident, affected_component_ids: input.affected_component_ids }
+    });
+
+    await queueStatusPageNotifications(scope!.organizationId, input.status_page_id, {
+      affectedComponentIds: input.affected_component_ids,
+      subscribers: incidentCreatedNotification(incident),
+      chat: incidentCreatedChatNotification(incident, input.affected_component_ids),
+      sms: incidentCreatedSmsNotification(incident)
+    }, `incident:${incident.id}`);
+    await emitWebhookEvent(input.status_page_id, 'incident.created', {
+      incident: incidentEventData(incident, input.affected_component_ids)
+    });
+
     return incident;
   } catch (error) {
     console.error('Incident creation failed:', error);
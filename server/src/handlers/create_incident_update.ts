@@ -1,10 +1,22 @@
 import { db } from '../db';
-import { incidentUpdatesTable, incidentsTable } from '../db/schema';
+import { incidentUpdatesTable, incidentsTable, incidentAffectedComponentsTable } from '../db/schema';
 import { type CreateIncidentUpdateInput, type IncidentUpdate } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
+import { incidentUpdatedNotification } from '../lib/subscribers';
+import { emitWebhookEvent, incidentEventData, incidentUpdateEventData } from '../lib/webhooks';
+import { incidentUpdatedChatNotification } from '../lib/chat_notifications';
+import { incidentUpdatedSmsNotification } from '../lib/sms_notifications';
+import { queueStatusPageNotifications } from '../lib/notifications';
 
-export const createIncidentUpdate = async (input: CreateIncidentUpdateInput): Promise<IncidentUpdate> => {
+export const createIncidentUpdate = async (input: CreateIncidentUpdateInput, createdBy: number, actor: Actor | null = null): Promise<IncidentUpdate> => {
   try {
+    const existingIncidents = await db.select()
+      .from(incidentsTable)
+      .where(eq(incidentsTable.id, input.incident_id))
+      .execute();
+
     // Start a transaction to ensure both operations succeed or fail together
     const result = await db.transaction(async (tx) => {
       // Insert the incident update
@@ -14,7 +26,7 @@ export const createIncidentUpdate = async (input: CreateIncidentUpdateInput): Pr
           title: input.title,
           description: input.description,
           status: input.status,
-          created_by: input.created_by
+          created_by: createdBy
         })
         .returning()
         .execute();
@@ -22,7 +34,7 @@ export const createIncidentUpdate = async (input: CreateIncidentUpdateInput): Pr
       const incidentUpdate = updateResult[0];
 
       // Update the parent incident's status and updated_at timestamp
-      await tx.update(incidentsTable)
+      const incidentResult = await tx.update(incidentsTable)
         .set({
           status: input.status,
           updated_at: new Date(),
@@ -30,12 +42,54 @@ export const createIncidentUpdate = async (input: CreateIncidentUpdateInput): Pr
           ...(input.status === 'resolved' && { resolved_at: new Date() })
         })
         .where(eq(incidentsTable.id, input.incident_id))
+        .returning()
         .execute();
 
-      return incidentUpdate;
+      return { incidentUpdate, incident: incidentResult[0] };
+    });
+
+    const scope = await resolveTargetScope({ incidentId: input.incident_id });
+    const auditActor = actor ?? { userId: createdBy, apiKey: null };
+
+    await recordAuditEvent(auditActor, {
+      organizationId: scope!.organizationId,
+      entityType: 'incident_update',
+      entityId: result.incidentUpdate.id,
+      action: 'create',
+      after: result.incidentUpdate
+    });
+
+    // The update also moves the incident to its status, which is recorded as a change to the incident
+    await recordAuditEvent(auditActor, {
+      organizationId: scope!.organizationId,
+      entityType: 'incident',
+      entityId: input.incident_id,
+      action: 'update',
+      before: existingIncidents[0],
+      after: result.incident
+    });
+
+    const affected = await db.select({ component_id: incidentAffectedComponentsTable.component_id })
+      .from(incidentAffectedComponentsTable)
+      .where(eq(incidentAffectedComponentsTable.incident_id, input.incident_id))
+      .execute();
+
+    const affectedComponentIds = affected.map(a => a.component_id);
+    const resolved = result.incident.status === 'resolved' && existingIncidents[0]?.status !== 'resolved';
+
+    await queueStatusPageNotifications(scope!.organizationId, result.incident.status_page_id, {
+      affectedComponentIds,
+      subscribers: incidentUpdatedNotification(result.incident, result.incidentUpdate),
+      chat: incidentUpdatedChatNotification(result.incident, result.incidentUpdate, affectedComponentIds),
+      sms: incidentUpdatedSmsNotification(result.incident, result.incidentUpdate, resolved)
+    }, `incident_update:${result.incidentUpdate.id}`);
+
+    await emitWebhookEvent(result.incident.status_page_id, resolved ? 'incident.resolved' : 'incident.updated', {
+      incident: incidentEventData(result.incident, affectedComponentIds),
+      update: incidentUpdateEventData(result.incidentUpdate)
     });
 
-    return result;
+    return result.incidentUpdate;
   } catch (error) {
     console.error('Incident update creation failed:', error);
     throw error;
@@ -0,0 +1,120 @@
+import { db } from '../db';
+import { organizationsTable, organizationMembersTable, invitationsTable, usersTable } from '../db/schema';
+import { type CreateInvitationInput, type Invitation } from '../schema';
+import { eq, and, gt } from 'drizzle-orm';
+import { assertSeatAvailable } from '../lib/seats';
+import { signToken } from '../lib/auth';
+import { sendMail, APP_URL } from '../lib/mailer';
+import { recordAuditEvent } from '../lib/audit';
+
+// Invitations are valid for 3 days unless configured otherwise
+const INVITATION_TTL_MS = Number(process.env['INVITATION_TTL_HOURS'] || 72) * 60 * 60 * 1000;
+
+export const createInvitation = async (input: CreateInvitationInput, invitedBy: number): Promise<Invitation> => {
+  try {
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.organization_id))
+      .execute();
+
+    if (organizations.length === 0) {
+      throw new Error(`Organization with id ${input.organization_id} not found`);
+    }
+
+    const organization = organizations[0];
+
+    const inviters = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, invitedBy))
+      .execute();
+
+    if (inviters.length === 0) {
+      throw new Error(`User with id ${invitedBy} not found`);
+    }
+
+    // Reject invitations for people who are already on the team
+    const existingUsers = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      const existingMembers = await db.select({ id: organizationMembersTable.id })
+        .from(organizationMembersTable)
+        .where(
+          and(
+            eq(organizationMembersTable.organization_id, organization.id),
+            eq(organizationMembersTable.user_id, existingUsers[0].id)
+          )
+        )
+        .execute();
+
+      if (existingMembers.length > 0 || organization.owner_id === existingUsers[0].id) {
+        throw new Error('User is already a member of this organization');
+      }
+    }
+
+    const pendingInvitations = await db.select({ id: invitationsTable.id })
+      .from(invitationsTable)
+      .where(
+        and(
+          eq(invitationsTable.organization_id, organization.id),
+          eq(invitationsTable.email, input.email),
+          eq(invitationsTable.status, 'pending'),
+          gt(invitationsTable.expires_at, new Date())
+        )
+      )
+      .execute();
+
+    if (pendingInvitations.length > 0) {
+      throw new Error(`An invitation is already pending for ${input.email}`);
+    }
+
+    await assertSeatAvailable(organization.id, organization.plan_type);
+
+    // Send inside the transaction so a failed delivery leaves no dangling invitation
+    const createdInvitation = await db.transaction(async (tx) => {
+      const result = await tx.insert(invitationsTable)
+        .values({
+          organization_id: organization.id,
+          email: input.email,
+          role: input.role,
+          invited_by: invitedBy,
+          expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+        })
+        .returning()
+        .execute();
+
+      const invitation = result[0];
+      const token = signToken('invitation', invitation.id, invitation.expires_at);
+      const inviter = inviters[0];
+
+      await sendMail({
+        to: invitation.email,
+        subject: `You have been invited to join ${organization.name} on EdgeStatus`,
+        text: [
+          `${inviter.first_name} ${inviter.last_name} has invited you to join ${organization.name} as ${invitation.role}.`,
+          '',
+          `Accept the invitation: ${APP_URL}/invite?token=${token}`,
+          '',
+          `This invitation expires on ${invitation.expires_at.toUTCString()}.`
+        ].join('\n')
+      });
+
+      return invitation;
+    });
+
+    await recordAuditEvent({ userId: invitedBy, apiKey: null }, {
+      organizationId: organization.id,
+      entityType: 'invitation',
+      entityId: createdInvitation.id,
+      action: 'create',
+      after: createdInvitation
+    });
+
+    return createdInvitation;
+  } catch (error) {
+    console.error('Invitation creation failed:', error);
+    throw error;
+  }
+};
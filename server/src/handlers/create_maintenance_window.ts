@@ -2,8 +2,14 @@ import { db } from '../db';
 import { maintenanceWindowsTable, maintenanceAffectedComponentsTable, statusPagesTable, usersTable, componentsTable } from '../db/schema';
 import { type CreateMaintenanceWindowInput, type MaintenanceWindow } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import { maintenanceNotification } from '../lib/subscribers';
+import { maintenanceChatNotification } from '../lib/chat_notifications';
+import { maintenanceSmsNotification } from '../lib/sms_notifications';
+import { queueStatusPageNotifications } from '../lib/notifications';
 
-export const createMaintenanceWindow = async (input: CreateMaintenanceWindowInput): Promise<MaintenanceWindow> => {
+export const createMaintenanceWindow = async (input: CreateMaintenanceWindowInput, createdBy: number, actor: Actor | null = null): Promise<MaintenanceWindow> => {
   try {
     // Verify that the status page exists
     const statusPage = await db.select()
@@ -18,11 +24,11 @@ export const createMaintenanceWindow = async (input: CreateMaintenanceWindowInpu
     // Verify that the creator user exists
     const user = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.created_by))
+      .where(eq(usersTable.id, createdBy))
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.created_by} not found`);
+      throw new Error(`User with id ${createdBy} not found`);
     }
 
     // Verify that all affected components exist and belong to the status page
@@ -48,7 +54,7 @@ export const createMaintenanceWindow = async (input: CreateMaintenanceWindowInpu
         description: input.description,
         scheduled_start: input.scheduled_start,
         scheduled_end: input.scheduled_end,
-        created_by: input.created_by
+        created_by: createdBy
       })
       .returning()
       .execute();
@@ -67,6 +73,21 @@ export const createMaintenanceWindow = async (input: CreateMaintenanceWindowInpu
         .execute();
     }
 
+    await recordAuditEvent(actor ?? { userId: createdBy, apiKey: null }, {
+      organizationId: statusPage[0].organization_id,
+      entityType: 'maintenance_window',
+      entityId: maintenanceWindow.id,
+      action: 'create',
+      after: { ...maintenanceWindow, affected_component_ids: input.affected_component_ids }
+    });
+
+    await queueStatusPageNotifications(statusPage[0].organization_id, input.status_page_id, {
+      affectedComponentIds: input.affected_component_ids,
+      subscribers: maintenanceNotification(maintenanceWindow, 'scheduled'),
+      chat: maintenanceChatNotification(maintenanceWindow, input.affected_component_ids),
+      sms: maintenanceSmsNotification(maintenanceWindow, 'scheduled')
+    }, `maintenance_window:${maintenanceWindow.id}`);
+
     return maintenanceWindow;
   } catch (error) {
     console.error('Maintenance window creation failed:', error);
@@ -1,18 +1,19 @@
 import { db } from '../db';
-import { organizationsTable, usersTable } from '../db/schema';
+import { organizationsTable, organizationMembersTable, usersTable } from '../db/schema';
 import { type CreateOrganizationInput, type Organization } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
 
-export const createOrganization = async (input: CreateOrganizationInput): Promise<Organization> => {
+export const createOrganization = async (input: CreateOrganizationInput, ownerId: number): Promise<Organization> => {
   try {
     // Validate that the owner exists
     const existingOwner = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.owner_id))
+      .where(eq(usersTable.id, ownerId))
       .execute();
 
     if (existingOwner.length === 0) {
-      throw new Error(`Owner with ID ${input.owner_id} not found`);
+      throw new Error(`Owner with ID ${ownerId} not found`);
     }
 
     // Check if slug already exists
@@ -25,18 +26,38 @@ export const createOrganization = async (input: CreateOrganizationInput): Promis
       throw new Error(`Organization with slug '${input.slug}' already exists`);
     }
 
-    // Insert organization record
-    const result = await db.insert(organizationsTable)
-      .values({
-        name: input.name,
-        slug: input.slug,
-        plan_type: input.plan_type,
-        owner_id: input.owner_id
-      })
-      .returning()
-      .execute();
+    // Insert organization record together with the owner's member row
+    const organization = await db.transaction(async (tx) => {
+      const result = await tx.insert(organizationsTable)
+        .values({
+          name: input.name,
+          slug: input.slug,
+          plan_type: input.plan_type,
+          owner_id: ownerId
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(organizationMembersTable)
+        .values({
+          organization_id: result[0].id,
+          user_id: ownerId,
+          role: 'owner'
+        })
+        .execute();
+
+      return result[0];
+    });
+
+    await recordAuditEvent({ userId: ownerId, apiKey: null }, {
+      organizationId: organization.id,
+      entityType: 'organization',
+      entityId: organization.id,
+      action: 'create',
+      after: organization
+    });
 
-    return result[0];
+    return organization;
   } catch (error) {
     console.error('Organization creation failed:', error);
     throw error;
@@ -2,8 +2,17 @@ import { db } from '../db';
 import { statusPagesTable, organizationsTable } from '../db/schema';
 import { type CreateStatusPageInput, type StatusPage } from '../schema';
 import { eq, count } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import {
+  assertCustomDomainAllowed,
+  assertCustomDomainAvailable,
+  normalizeCustomDomain,
+  generateDomainVerificationToken
+} from '../lib/custom_domains';
+import { normalizePageLocales } from '../lib/locales';
 
-export const createStatusPage = async (input: CreateStatusPageInput): Promise<StatusPage> => {
+export const createStatusPage = async (input: CreateStatusPageInput, actor: Actor | null = null): Promise<StatusPage> => {
   try {
     // First, get the organization to check its plan type
     const organization = await db.select()
@@ -17,6 +26,26 @@ export const createStatusPage = async (input: CreateStatusPageInput): Promise<St
 
     const org = organization[0];
 
+    // Slugs are global because public pages are served at /s/:slug
+    const existingSlug = await db.select({ id: statusPagesTable.id })
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.slug, input.slug))
+      .execute();
+
+    if (existingSlug.length > 0) {
+      throw new Error(`Status page with slug '${input.slug}' already exists`);
+    }
+
+    let customDomain: string | null = null;
+    if (input.custom_domain) {
+      assertCustomDomainAllowed(org.plan_type);
+      customDomain = normalizeCustomDomain(input.custom_domain);
+      await assertCustomDomainAvailable(customDomain);
+    }
+
+    const defaultLocale = input.default_locale ?? 'en';
+    const enabledLocales = normalizePageLocales(defaultLocale, input.enabled_locales ?? [defaultLocale]);
+
     // Count existing status pages for this organization
     const statusPageCount = await db.select({ count: count() })
       .from(statusPagesTable)
@@ -47,15 +76,26 @@ export const createStatusPage = async (input: CreateStatusPageInput): Promise<St
         name: input.name,
         slug: input.slug,
         description: input.description,
-        custom_domain: input.custom_domain,
+        custom_domain: customDomain,
+        custom_domain_verification_token: customDomain ? generateDomainVerificationToken() : null,
         branding_logo_url: input.branding_logo_url,
         branding_primary_color: input.branding_primary_color,
         branding_secondary_color: input.branding_secondary_color,
-        is_public: input.is_public
+        is_public: input.is_public,
+        default_locale: defaultLocale,
+        enabled_locales: enabledLocales
       })
       .returning()
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId: input.organization_id,
+      entityType: 'status_page',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0]
+    });
+
     return result[0];
   } catch (error) {
     console.error('Status page creation failed:', error);
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { sendVerificationEmail } from './send_verification_email';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
@@ -22,6 +23,11 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
       .returning()
       .execute();
 
+    // A failed delivery should not block signup; the user can ask for another link
+    await sendVerificationEmail(result[0].id).catch((error) => {
+      console.error('Verification email could not be sent:', error);
+    });
+
     return result[0];
   } catch (error) {
     console.error('User creation failed:', error);
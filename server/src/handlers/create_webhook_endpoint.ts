@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { webhookEndpointsTable } from '../db/schema';
+import { type CreateWebhookEndpointInput, type WebhookEndpointWithSecret } from '../schema';
+import { recordAuditEvent } from '../lib/audit';
+import { generateWebhookSecret } from '../lib/webhooks';
+import { type Actor } from '../lib/permissions';
+
+export const createWebhookEndpoint = async (
+  input: CreateWebhookEndpointInput,
+  actor: Actor | null = null
+): Promise<WebhookEndpointWithSecret> => {
+  try {
+    const result = await db.insert(webhookEndpointsTable)
+      .values({
+        organization_id: input.organization_id,
+        url: input.url,
+        description: input.description ?? null,
+        secret: generateWebhookSecret(),
+        event_types: [...new Set(input.event_types)]
+      })
+      .returning()
+      .execute();
+
+    const { secret, ...webhookEndpoint } = result[0];
+
+    await recordAuditEvent(actor, {
+      organizationId: input.organization_id,
+      entityType: 'webhook_endpoint',
+      entityId: webhookEndpoint.id,
+      action: 'create',
+      after: webhookEndpoint
+    });
+
+    return { webhook_endpoint: webhookEndpoint, secret };
+  } catch (error) {
+    console.error('Webhook endpoint creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { chatIntegrationsTable, chatThreadsTable, statusPagesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const deleteChatIntegration = async (id: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    const existingIntegrations = await db.select({ integration: chatIntegrationsTable, organizationId: statusPagesTable.organization_id })
+      .from(chatIntegrationsTable)
+      .innerJoin(statusPagesTable, eq(chatIntegrationsTable.status_page_id, statusPagesTable.id))
+      .where(eq(chatIntegrationsTable.id, id))
+      .execute();
+
+    if (existingIntegrations.length === 0) {
+      return false;
+    }
+
+    await db.delete(chatThreadsTable)
+      .where(eq(chatThreadsTable.chat_integration_id, id))
+      .execute();
+
+    await db.delete(chatIntegrationsTable)
+      .where(eq(chatIntegrationsTable.id, id))
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: existingIntegrations[0].organizationId,
+      entityType: 'chat_integration',
+      entityId: id,
+      action: 'delete',
+      before: existingIntegrations[0].integration
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Chat integration deletion failed:', error);
+    throw error;
+  }
+};
@@ -1,8 +1,16 @@
 import { db } from '../db';
-import { componentsTable, incidentAffectedComponentsTable, maintenanceAffectedComponentsTable } from '../db/schema';
+import {
+  componentsTable,
+  incidentAffectedComponentsTable,
+  maintenanceAffectedComponentsTable,
+  componentStatusChangesTable,
+  subscriberComponentsTable
+} from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
 
-export const deleteComponent = async (id: number): Promise<boolean> => {
+export const deleteComponent = async (id: number, actor: Actor | null = null): Promise<boolean> => {
   try {
     // First, check if component exists
     const existingComponent = await db.select()
@@ -14,6 +22,9 @@ export const deleteComponent = async (id: number): Promise<boolean> => {
       return false;
     }
 
+    // Resolved up front, while the component still links to its organization
+    const scope = await resolveTargetScope({ componentId: id });
+
     // Delete related data first to maintain referential integrity
     
     // Remove component from incident affected components
@@ -26,11 +37,29 @@ export const deleteComponent = async (id: number): Promise<boolean> => {
       .where(eq(maintenanceAffectedComponentsTable.component_id, id))
       .execute();
 
+    // Remove the component's status history
+    await db.delete(componentStatusChangesTable)
+      .where(eq(componentStatusChangesTable.component_id, id))
+      .execute();
+
+    // Subscribers who chose only this component go back to hearing about every component
+    await db.delete(subscriberComponentsTable)
+      .where(eq(subscriberComponentsTable.component_id, id))
+      .execute();
+
     // Finally, delete the component itself
     const result = await db.delete(componentsTable)
       .where(eq(componentsTable.id, id))
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'component',
+      entityId: id,
+      action: 'delete',
+      before: existingComponent[0]
+    });
+
     // Return true if component was successfully deleted
     return result.rowCount !== null && result.rowCount > 0;
   } catch (error) {
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { incidentUpdatesTable, incidentTranslationsTable, incidentUpdateTranslationsTable } from '../db/schema';
+import { type DeleteIncidentTranslationInput } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { translationAuditSnapshot } from '../lib/locales';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
+
+// Visitors reading in that language see the original text again. Returns false when there was nothing to remove.
+export const deleteIncidentTranslation = async (
+  input: DeleteIncidentTranslationInput,
+  actor: Actor | null = null
+): Promise<boolean> => {
+  try {
+    const scope = await resolveTargetScope({ incidentId: input.incident_id });
+    if (scope === null) {
+      throw new Error(`Incident with id ${input.incident_id} not found`);
+    }
+
+    const removedIncidentTranslations = await db.delete(incidentTranslationsTable)
+      .where(and(eq(incidentTranslationsTable.incident_id, input.incident_id), eq(incidentTranslationsTable.locale, input.locale)))
+      .returning()
+      .execute();
+
+    const removedUpdateTranslations = await db.delete(incidentUpdateTranslationsTable)
+      .where(and(
+        inArray(
+          incidentUpdateTranslationsTable.incident_update_id,
+          db.select({ id: incidentUpdatesTable.id }).from(incidentUpdatesTable).where(eq(incidentUpdatesTable.incident_id, input.incident_id))
+        ),
+        eq(incidentUpdateTranslationsTable.locale, input.locale)
+      ))
+      .returning()
+      .execute();
+
+    for (const translation of removedIncidentTranslations) {
+      await recordAuditEvent(actor, {
+        organizationId: scope.organizationId,
+        entityType: 'incident',
+        entityId: translation.incident_id,
+        action: 'update',
+        before: translationAuditSnapshot(input.locale, translation),
+        after: translationAuditSnapshot(input.locale, undefined)
+      });
+    }
+
+    for (const translation of removedUpdateTranslations) {
+      await recordAuditEvent(actor, {
+        organizationId: scope.organizationId,
+        entityType: 'incident_update',
+        entityId: translation.incident_update_id,
+        action: 'update',
+        before: translationAuditSnapshot(input.locale, translation),
+        after: translationAuditSnapshot(input.locale, undefined)
+      });
+    }
+
+    return removedIncidentTranslations.length + removedUpdateTranslations.length > 0;
+  } catch (error) {
+    console.error('Incident translation deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { smsSubscribersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
+
+export const deleteSmsSubscriber = async (id: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    const existingSubscribers = await db.select()
+      .from(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.id, id))
+      .execute();
+
+    if (existingSubscribers.length === 0) {
+      return false;
+    }
+
+    const scope = await resolveTargetScope({ smsSubscriberId: id });
+
+    await db.delete(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.id, id))
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'sms_subscriber',
+      entityId: id,
+      action: 'delete',
+      before: existingSubscribers[0]
+    });
+
+    return true;
+  } catch (error) {
+    console.error('SMS subscriber deletion failed:', error);
+    throw error;
+  }
+};
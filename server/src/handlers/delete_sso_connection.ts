@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { ssoConnectionsTable, ssoRoleMappingsTable, ssoIdentitiesTable, ssoLoginAttemptsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { getSsoConnection } from './get_sso_connection';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+// Existing sessions of SSO users are left alone; they simply cannot sign in through the provider again
+export const deleteSsoConnection = async (organizationId: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    const connections = await db.select({ id: ssoConnectionsTable.id })
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    if (connections.length === 0) {
+      throw new Error(`SSO connection for organization ${organizationId} not found`);
+    }
+
+    const connectionId = connections[0].id;
+    const previous = await getSsoConnection(organizationId);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(ssoLoginAttemptsTable)
+        .where(eq(ssoLoginAttemptsTable.sso_connection_id, connectionId))
+        .execute();
+
+      await tx.delete(ssoIdentitiesTable)
+        .where(eq(ssoIdentitiesTable.sso_connection_id, connectionId))
+        .execute();
+
+      await tx.delete(ssoRoleMappingsTable)
+        .where(eq(ssoRoleMappingsTable.sso_connection_id, connectionId))
+        .execute();
+
+      await tx.delete(ssoConnectionsTable)
+        .where(eq(ssoConnectionsTable.id, connectionId))
+        .execute();
+    });
+
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'sso_connection',
+      entityId: connectionId,
+      action: 'delete',
+      before: previous
+    });
+
+    return true;
+  } catch (error) {
+    console.error('SSO connection deletion failed:', error);
+    throw error;
+  }
+};
@@ -6,11 +6,27 @@ import {
   incidentUpdatesTable, 
   maintenanceWindowsTable,
   incidentAffectedComponentsTable,
-  maintenanceAffectedComponentsTable
+  maintenanceAffectedComponentsTable,
+  componentStatusChangesTable,
+  statusPagePasswordsTable,
+  statusPageSessionsTable,
+  incidentTranslationsTable,
+  incidentUpdateTranslationsTable,
+  subscribersTable,
+  subscriberComponentsTable,
+  chatIntegrationsTable,
+  chatThreadsTable,
+  smsSubscribersTable,
+  smsRulesTable,
+  smsMessagesTable,
+  apiKeysTable,
+  apiKeyStatusPagesTable
 } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
 
-export const deleteStatusPage = async (id: number): Promise<boolean> => {
+export const deleteStatusPage = async (id: number, actor: Actor | null = null): Promise<boolean> => {
   try {
     // Verify status page exists
     const statusPage = await db.select()
@@ -24,13 +40,36 @@ export const deleteStatusPage = async (id: number): Promise<boolean> => {
 
     // Start cascade deletion from most dependent tables to least dependent
     
-    // 1. Delete incident updates (depends on incidents)
+    // 0. Delete chat integrations with their threads (which refer to incidents and maintenance windows)
+    await db.delete(chatThreadsTable)
+      .where(inArray(
+        chatThreadsTable.chat_integration_id,
+        db.select({ id: chatIntegrationsTable.id }).from(chatIntegrationsTable).where(eq(chatIntegrationsTable.status_page_id, id))
+      ))
+      .execute();
+
+    await db.delete(chatIntegrationsTable)
+      .where(eq(chatIntegrationsTable.status_page_id, id))
+      .execute();
+
+    // 1. Delete incident updates and the translations of incidents and updates (depend on incidents)
     const incidents = await db.select()
       .from(incidentsTable)
       .where(eq(incidentsTable.status_page_id, id))
       .execute();
 
     for (const incident of incidents) {
+      await db.delete(incidentUpdateTranslationsTable)
+        .where(inArray(
+          incidentUpdateTranslationsTable.incident_update_id,
+          db.select({ id: incidentUpdatesTable.id }).from(incidentUpdatesTable).where(eq(incidentUpdatesTable.incident_id, incident.id))
+        ))
+        .execute();
+
+      await db.delete(incidentTranslationsTable)
+        .where(eq(incidentTranslationsTable.incident_id, incident.id))
+        .execute();
+
       await db.delete(incidentUpdatesTable)
         .where(eq(incidentUpdatesTable.incident_id, incident.id))
         .execute();
@@ -65,16 +104,101 @@ export const deleteStatusPage = async (id: number): Promise<boolean> => {
       .where(eq(maintenanceWindowsTable.status_page_id, id))
       .execute();
 
-    // 6. Delete components
+    // 6. Delete component status history and subscribers' component choices, then the components
+    await db.delete(componentStatusChangesTable)
+      .where(inArray(
+        componentStatusChangesTable.component_id,
+        db.select({ id: componentsTable.id }).from(componentsTable).where(eq(componentsTable.status_page_id, id))
+      ))
+      .execute();
+
+    await db.delete(subscriberComponentsTable)
+      .where(inArray(
+        subscriberComponentsTable.component_id,
+        db.select({ id: componentsTable.id }).from(componentsTable).where(eq(componentsTable.status_page_id, id))
+      ))
+      .execute();
+
     await db.delete(componentsTable)
       .where(eq(componentsTable.status_page_id, id))
       .execute();
 
-    // 7. Finally delete the status page itself
+    // 7. Delete the page password and the sessions of viewers who unlocked it
+    await db.delete(statusPageSessionsTable)
+      .where(eq(statusPageSessionsTable.status_page_id, id))
+      .execute();
+
+    await db.delete(statusPagePasswordsTable)
+      .where(eq(statusPagePasswordsTable.status_page_id, id))
+      .execute();
+
+    // 8. Delete email and SMS subscribers and the SMS rules; the texts already sent stay on the organization's quota
+    await db.update(smsMessagesTable)
+      .set({ status_page_id: null })
+      .where(eq(smsMessagesTable.status_page_id, id))
+      .execute();
+
+    await db.delete(subscribersTable)
+      .where(eq(subscribersTable.status_page_id, id))
+      .execute();
+
+    await db.delete(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.status_page_id, id))
+      .execute();
+
+    await db.delete(smsRulesTable)
+      .where(eq(smsRulesTable.status_page_id, id))
+      .execute();
+
+    // 9. Remove API key restrictions to the page. No restrictions means every page, so keys that
+    // were only allowed this page are revoked rather than left with access to the whole organization.
+    const restrictions = await db.delete(apiKeyStatusPagesTable)
+      .where(eq(apiKeyStatusPagesTable.status_page_id, id))
+      .returning()
+      .execute();
+
+    const restrictedKeyIds = [...new Set(restrictions.map(restriction => restriction.api_key_id))];
+    const stillRestricted = restrictedKeyIds.length === 0 ? [] : await db.select({ api_key_id: apiKeyStatusPagesTable.api_key_id })
+      .from(apiKeyStatusPagesTable)
+      .where(inArray(apiKeyStatusPagesTable.api_key_id, restrictedKeyIds))
+      .execute();
+
+    const orphanedKeyIds = restrictedKeyIds.filter(keyId => !stillRestricted.some(row => row.api_key_id === keyId));
+    const orphanedKeys = orphanedKeyIds.length === 0 ? [] : await db.select()
+      .from(apiKeysTable)
+      .where(and(inArray(apiKeysTable.id, orphanedKeyIds), isNull(apiKeysTable.revoked_at)))
+      .execute();
+
+    for (const key of orphanedKeys) {
+      const revoked = await db.update(apiKeysTable)
+        .set({ revoked_at: new Date() })
+        .where(eq(apiKeysTable.id, key.id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(actor, {
+        organizationId: key.organization_id,
+        entityType: 'api_key',
+        entityId: key.id,
+        action: 'update',
+        before: key,
+        after: revoked[0]
+      });
+    }
+
+    // 10. Finally delete the status page itself
     await db.delete(statusPagesTable)
       .where(eq(statusPagesTable.id, id))
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId: statusPage[0].organization_id,
+      entityType: 'status_page',
+      entityId: id,
+      action: 'delete',
+      before: statusPage[0]
+    });
+
     return true;
   } catch (error) {
     console.error('Status page deletion failed:', error);
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { subscribersTable, subscriberComponentsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
+
+export const deleteSubscriber = async (id: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    const existingSubscribers = await db.select()
+      .from(subscribersTable)
+      .where(eq(subscribersTable.id, id))
+      .execute();
+
+    if (existingSubscribers.length === 0) {
+      return false;
+    }
+
+    const scope = await resolveTargetScope({ subscriberId: id });
+
+    await db.delete(subscriberComponentsTable)
+      .where(eq(subscriberComponentsTable.subscriber_id, id))
+      .execute();
+
+    await db.delete(subscribersTable)
+      .where(eq(subscribersTable.id, id))
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'subscriber',
+      entityId: id,
+      action: 'delete',
+      before: existingSubscribers[0]
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Subscriber deletion failed:', error);
+    throw error;
+  }
+};
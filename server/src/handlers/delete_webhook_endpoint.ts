@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { webhookEndpointsTable, webhookDeliveriesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+// The endpoint's delivery log goes with it, including deliveries still waiting to be retried
+export const deleteWebhookEndpoint = async (id: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    const existingEndpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, id))
+      .execute();
+
+    if (existingEndpoints.length === 0) {
+      return false;
+    }
+
+    await db.delete(webhookDeliveriesTable)
+      .where(eq(webhookDeliveriesTable.webhook_endpoint_id, id))
+      .execute();
+
+    await db.delete(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, id))
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: existingEndpoints[0].organization_id,
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      action: 'delete',
+      before: existingEndpoints[0]
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Webhook endpoint deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { twoFactorCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { type TwoFactorCodeInput } from '../schema';
+import { isTwoFactorEnabled, verifySecondFactor } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+// Requires a current authenticator code or a recovery code, so a hijacked session alone cannot remove 2FA
+export const disableTwoFactor = async (input: TwoFactorCodeInput, userId: number): Promise<boolean> => {
+  try {
+    if (!(await isTwoFactorEnabled(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await verifySecondFactor(userId, input.code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodesTable)
+        .where(eq(recoveryCodesTable.user_id, userId))
+        .execute();
+
+      await tx.delete(twoFactorCredentialsTable)
+        .where(eq(twoFactorCredentialsTable.user_id, userId))
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+};
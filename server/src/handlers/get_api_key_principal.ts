@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { apiKeysTable, apiKeyStatusPagesTable, usersTable } from '../db/schema';
+import { type ApiKeyPrincipal } from '../schema';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+export const getApiKeyPrincipal = async (token: string): Promise<ApiKeyPrincipal | null> => {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .innerJoin(usersTable, eq(apiKeysTable.created_by, usersTable.id))
+      .where(eq(apiKeysTable.token_hash, hashToken(token)))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { api_keys: apiKey, users: creator } = results[0];
+    const now = new Date();
+
+    // Revoked and expired keys are rejected, as are keys created by deactivated users
+    if (apiKey.revoked_at !== null || (apiKey.expires_at !== null && apiKey.expires_at.getTime() <= now.getTime()) || !creator.is_active) {
+      return null;
+    }
+
+    await db.update(apiKeysTable)
+      .set({ last_used_at: now })
+      .where(eq(apiKeysTable.id, apiKey.id))
+      .execute();
+
+    const restrictions = await db.select()
+      .from(apiKeyStatusPagesTable)
+      .where(eq(apiKeyStatusPagesTable.api_key_id, apiKey.id))
+      .execute();
+
+    return {
+      id: apiKey.id,
+      organization_id: apiKey.organization_id,
+      scopes: apiKey.scopes,
+      status_page_ids: restrictions.map(r => r.status_page_id),
+      created_by: apiKey.created_by
+    };
+  } catch (error) {
+    console.error('API key lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { apiKeysTable, apiKeyStatusPagesTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { eq, desc, inArray } from 'drizzle-orm';
+
+export const getApiKeys = async (organizationId: number): Promise<ApiKey[]> => {
+  try {
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.organization_id, organizationId))
+      .orderBy(desc(apiKeysTable.created_at))
+      .execute();
+
+    if (apiKeys.length === 0) {
+      return [];
+    }
+
+    const restrictions = await db.select()
+      .from(apiKeyStatusPagesTable)
+      .where(inArray(apiKeyStatusPagesTable.api_key_id, apiKeys.map(k => k.id)))
+      .execute();
+
+    return apiKeys.map(({ token_hash, ...apiKey }) => ({
+      ...apiKey,
+      status_page_ids: restrictions
+        .filter(r => r.api_key_id === apiKey.id)
+        .map(r => r.status_page_id)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+};
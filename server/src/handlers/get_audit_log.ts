@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { auditLogsTable, organizationsTable, usersTable, apiKeysTable } from '../db/schema';
+import { type GetAuditLogInput, type AuditLogPage } from '../schema';
+import { auditLogRetentionCutoff, auditLogRetentionDays } from '../lib/audit';
+import { eq, and, gte, lte, lt, desc, sql, type SQL } from 'drizzle-orm';
+
+// Newest first, paged by entry id; entries past the plan's retention are never returned, even before they are purged
+export const getAuditLog = async (input: GetAuditLogInput): Promise<AuditLogPage> => {
+  try {
+    const organizations = await db.select({ plan_type: organizationsTable.plan_type })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.organization_id))
+      .execute();
+
+    if (organizations.length === 0) {
+      throw new Error(`Organization with id ${input.organization_id} not found`);
+    }
+
+    const planType = organizations[0].plan_type;
+    const conditions: SQL[] = [eq(auditLogsTable.organization_id, input.organization_id)];
+
+    const cutoff = auditLogRetentionCutoff(planType);
+    if (cutoff) {
+      conditions.push(gte(auditLogsTable.created_at, cutoff));
+    }
+
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditLogsTable.entity_type, input.entity_type));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogsTable.entity_id, input.entity_id));
+    }
+
+    if (input.actor_user_id !== undefined) {
+      conditions.push(eq(auditLogsTable.actor_user_id, input.actor_user_id));
+    }
+
+    if (input.from !== undefined) {
+      conditions.push(gte(auditLogsTable.created_at, input.from));
+    }
+
+    if (input.to !== undefined) {
+      conditions.push(lte(auditLogsTable.created_at, input.to));
+    }
+
+    if (input.cursor !== undefined) {
+      conditions.push(lt(auditLogsTable.id, input.cursor));
+    }
+
+    // One extra row tells whether there is another page
+    const results = await db.select({
+      id: auditLogsTable.id,
+      organization_id: auditLogsTable.organization_id,
+      actor_user_id: auditLogsTable.actor_user_id,
+      actor_name: sql<string | null>`${usersTable.first_name} || ' ' || ${usersTable.last_name}`,
+      actor_email: usersTable.email,
+      api_key_id: auditLogsTable.api_key_id,
+      api_key_name: apiKeysTable.name,
+      entity_type: auditLogsTable.entity_type,
+      entity_id: auditLogsTable.entity_id,
+      action: auditLogsTable.action,
+      before: auditLogsTable.before,
+      after: auditLogsTable.after,
+      created_at: auditLogsTable.created_at
+    })
+      .from(auditLogsTable)
+      .leftJoin(usersTable, eq(auditLogsTable.actor_user_id, usersTable.id))
+      .leftJoin(apiKeysTable, eq(auditLogsTable.api_key_id, apiKeysTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditLogsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const entries = results.slice(0, input.limit);
+
+    return {
+      entries,
+      next_cursor: results.length > input.limit ? entries[entries.length - 1].id : null,
+      retention_days: auditLogRetentionDays[planType]
+    };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { chatIntegrationsTable } from '../db/schema';
+import { type ChatIntegration } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { withoutChatCredentials } from '../lib/chat_notifications';
+
+export const getChatIntegrations = async (statusPageId: number): Promise<ChatIntegration[]> => {
+  try {
+    const integrations = await db.select()
+      .from(chatIntegrationsTable)
+      .where(eq(chatIntegrationsTable.status_page_id, statusPageId))
+      .orderBy(asc(chatIntegrationsTable.created_at), asc(chatIntegrationsTable.id))
+      .execute();
+
+    return integrations.map(withoutChatCredentials);
+  } catch (error) {
+    console.error('Failed to fetch chat integrations:', error);
+    throw error;
+  }
+};
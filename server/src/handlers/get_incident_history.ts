@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { statusPagesTable } from '../db/schema';
+import { type GetIncidentHistoryInput, type IncidentHistory } from '../schema';
+import { loadIncidentHistory } from '../lib/incident_history';
+import { eq } from 'drizzle-orm';
+
+// Incident archive for the dashboard, one page at a time
+export const getIncidentHistory = async (input: GetIncidentHistoryInput): Promise<IncidentHistory> => {
+  try {
+    const pages = await db.select({ id: statusPagesTable.id })
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.id, input.status_page_id))
+      .execute();
+
+    if (pages.length === 0) {
+      throw new Error(`Status page with ID ${input.status_page_id} not found`);
+    }
+
+    return await loadIncidentHistory(input.status_page_id, input);
+  } catch (error) {
+    console.error('Incident history retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { incidentUpdatesTable, incidentTranslationsTable, incidentUpdateTranslationsTable } from '../db/schema';
+import { type IncidentTranslations } from '../schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+// Every translation of an incident and of its updates, for editing in the dashboard
+export const getIncidentTranslations = async (incidentId: number): Promise<IncidentTranslations> => {
+  try {
+    const incident = await db.select()
+      .from(incidentTranslationsTable)
+      .where(eq(incidentTranslationsTable.incident_id, incidentId))
+      .orderBy(asc(incidentTranslationsTable.locale))
+      .execute();
+
+    const updates = await db.select()
+      .from(incidentUpdateTranslationsTable)
+      .where(inArray(
+        incidentUpdateTranslationsTable.incident_update_id,
+        db.select({ id: incidentUpdatesTable.id }).from(incidentUpdatesTable).where(eq(incidentUpdatesTable.incident_id, incidentId))
+      ))
+      .orderBy(asc(incidentUpdateTranslationsTable.incident_update_id), asc(incidentUpdateTranslationsTable.locale))
+      .execute();
+
+    return { incident, updates };
+  } catch (error) {
+    console.error('Incident translations retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { organizationsTable, usersTable } from '../db/schema';
+import { type InvitationDetails } from '../schema';
+import { eq } from 'drizzle-orm';
+import { findPendingInvitation } from '../lib/invitations';
+
+export const getInvitationDetails = async (token: string): Promise<InvitationDetails> => {
+  try {
+    const invitation = await findPendingInvitation(token);
+
+    const organizations = await db.select({ name: organizationsTable.name })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, invitation.organization_id))
+      .execute();
+
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, invitation.email))
+      .execute();
+
+    return {
+      organization_name: organizations[0].name,
+      email: invitation.email,
+      role: invitation.role,
+      expires_at: invitation.expires_at,
+      account_exists: users.length > 0
+    };
+  } catch (error) {
+    console.error('Failed to fetch invitation details:', error);
+    throw error;
+  }
+};
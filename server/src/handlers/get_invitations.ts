@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { invitationsTable } from '../db/schema';
+import { type Invitation } from '../schema';
+import { eq, and, lte, desc } from 'drizzle-orm';
+
+export const getInvitations = async (organizationId: number): Promise<Invitation[]> => {
+  try {
+    // Pending invitations past their expiry are reported as expired
+    await db.update(invitationsTable)
+      .set({ status: 'expired' })
+      .where(
+        and(
+          eq(invitationsTable.organization_id, organizationId),
+          eq(invitationsTable.status, 'pending'),
+          lte(invitationsTable.expires_at, new Date())
+        )
+      )
+      .execute();
+
+    const results = await db.select()
+      .from(invitationsTable)
+      .where(eq(invitationsTable.organization_id, organizationId))
+      .orderBy(desc(invitationsTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+};
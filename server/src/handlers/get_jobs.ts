@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { jobsTable } from '../db/schema';
+import { type GetJobsInput, type JobQueue } from '../schema';
+import { and, count, desc, eq, type SQL } from 'drizzle-orm';
+
+// The organization's background jobs: how many are in each status, and the newest ones, optionally of one status
+export const getJobs = async (input: GetJobsInput): Promise<JobQueue> => {
+  try {
+    const statusCounts = await db.select({ status: jobsTable.status, count: count() })
+      .from(jobsTable)
+      .where(eq(jobsTable.organization_id, input.organization_id))
+      .groupBy(jobsTable.status)
+      .execute();
+
+    const conditions: SQL[] = [eq(jobsTable.organization_id, input.organization_id)];
+    if (input.status) {
+      conditions.push(eq(jobsTable.status, input.status));
+    }
+
+    const jobs = await db.select()
+      .from(jobsTable)
+      .where(and(...conditions))
+      .orderBy(desc(jobsTable.created_at), desc(jobsTable.id))
+      .limit(input.limit)
+      .execute();
+
+    const counts = { pending: 0, running: 0, succeeded: 0, dead: 0 };
+    for (const row of statusCounts) {
+      counts[row.status] = row.count;
+    }
+
+    return { counts, jobs };
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,80 @@
+import { db } from '../db';
+import {
+  componentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { type Calendar, toMaintenanceEvent } from '../lib/icalendar';
+import { publicStatusPageUrl } from '../lib/custom_domains';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { and, eq, gte, asc, inArray, type SQL } from 'drizzle-orm';
+
+// Windows that ended longer ago than this drop out of the calendar
+export const CALENDAR_HISTORY_DAYS = 30;
+
+// Calendar of a public page's maintenance windows, including cancelled ones so subscribers see the cancellation.
+// With componentIds, only windows affecting at least one of those components are included.
+export const getMaintenanceCalendar = async (
+  slug: string,
+  componentIds: number[] = [],
+  viewer: PageViewer | null = null
+): Promise<Calendar> => {
+  try {
+    const { page, planType } = await findViewableStatusPage(slug, viewer);
+    const pageUrl = publicStatusPageUrl(page, planType);
+
+    const components = await db.select({ id: componentsTable.id, name: componentsTable.name })
+      .from(componentsTable)
+      .where(eq(componentsTable.status_page_id, page.id))
+      .execute();
+    const componentNames = new Map(components.map(component => [component.id, component.name]));
+
+    const conditions: SQL[] = [
+      eq(maintenanceWindowsTable.status_page_id, page.id),
+      gte(maintenanceWindowsTable.scheduled_end, new Date(Date.now() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000))
+    ];
+    if (componentIds.length > 0) {
+      conditions.push(inArray(
+        maintenanceWindowsTable.id,
+        db.select({ id: maintenanceAffectedComponentsTable.maintenance_window_id })
+          .from(maintenanceAffectedComponentsTable)
+          .where(inArray(maintenanceAffectedComponentsTable.component_id, componentIds))
+      ));
+    }
+
+    const maintenanceWindows = await db.select()
+      .from(maintenanceWindowsTable)
+      .where(and(...conditions))
+      .orderBy(asc(maintenanceWindowsTable.scheduled_start), asc(maintenanceWindowsTable.id))
+      .execute();
+
+    const maintenanceIds = maintenanceWindows.map(maintenance => maintenance.id);
+    const affected = maintenanceIds.length > 0
+      ? await db.select()
+        .from(maintenanceAffectedComponentsTable)
+        .where(inArray(maintenanceAffectedComponentsTable.maintenance_window_id, maintenanceIds))
+        .execute()
+      : [];
+
+    const namesFor = (ids: number[]): string[] => {
+      return ids.map(id => componentNames.get(id)).filter((name): name is string => name !== undefined);
+    };
+
+    const filterNames = namesFor(componentIds);
+
+    return {
+      name: filterNames.length > 0
+        ? `${page.name} maintenance – ${filterNames.join(', ')}`
+        : `${page.name} maintenance`,
+      description: `Scheduled maintenance for ${page.name}`,
+      events: maintenanceWindows.map(maintenance => toMaintenanceEvent(
+        maintenance,
+        pageUrl,
+        namesFor(affected.filter(a => a.maintenance_window_id === maintenance.id).map(a => a.component_id))
+      ))
+    };
+  } catch (error) {
+    console.error('Maintenance calendar retrieval failed:', error);
+    throw error;
+  }
+};
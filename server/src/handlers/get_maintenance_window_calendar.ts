@@ -0,0 +1,49 @@
+import { db } from '../db';
+import {
+  statusPagesTable,
+  organizationsTable,
+  componentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { renderCalendar, toMaintenanceEvent } from '../lib/icalendar';
+import { publicStatusPageUrl } from '../lib/custom_domains';
+import { eq } from 'drizzle-orm';
+
+// A single maintenance window as an .ics file, for adding it to a calendar from the dashboard
+export const getMaintenanceWindowCalendar = async (maintenanceWindowId: number): Promise<string> => {
+  try {
+    const results = await db.select({
+      maintenance: maintenanceWindowsTable,
+      page: statusPagesTable,
+      planType: organizationsTable.plan_type
+    })
+      .from(maintenanceWindowsTable)
+      .innerJoin(statusPagesTable, eq(maintenanceWindowsTable.status_page_id, statusPagesTable.id))
+      .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+      .where(eq(maintenanceWindowsTable.id, maintenanceWindowId))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Maintenance window with id ${maintenanceWindowId} not found`);
+    }
+
+    const { maintenance, page, planType } = results[0];
+
+    const affected = await db.select({ name: componentsTable.name })
+      .from(maintenanceAffectedComponentsTable)
+      .innerJoin(componentsTable, eq(maintenanceAffectedComponentsTable.component_id, componentsTable.id))
+      .where(eq(maintenanceAffectedComponentsTable.maintenance_window_id, maintenance.id))
+      .orderBy(componentsTable.position)
+      .execute();
+
+    return renderCalendar({
+      name: `${page.name} maintenance`,
+      description: `Scheduled maintenance for ${page.name}`,
+      events: [toMaintenanceEvent(maintenance, publicStatusPageUrl(page, planType), affected.map(component => component.name))]
+    });
+  } catch (error) {
+    console.error('Maintenance window calendar retrieval failed:', error);
+    throw error;
+  }
+};
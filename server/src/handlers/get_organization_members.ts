@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { organizationMembersTable, usersTable } from '../db/schema';
+import { type OrganizationMemberDetails } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+import { ensureOwnerMembership } from '../lib/members';
+
+export const getOrganizationMembers = async (organizationId: number): Promise<OrganizationMemberDetails[]> => {
+  try {
+    await ensureOwnerMembership(organizationId);
+
+    const results = await db.select({
+      id: organizationMembersTable.id,
+      organization_id: organizationMembersTable.organization_id,
+      user_id: organizationMembersTable.user_id,
+      role: organizationMembersTable.role,
+      created_at: organizationMembersTable.created_at,
+      email: usersTable.email,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      is_active: usersTable.is_active
+    })
+      .from(organizationMembersTable)
+      .innerJoin(usersTable, eq(organizationMembersTable.user_id, usersTable.id))
+      .where(eq(organizationMembersTable.organization_id, organizationId))
+      .orderBy(asc(organizationMembersTable.created_at), asc(organizationMembersTable.id))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch organization members:', error);
+    throw error;
+  }
+};
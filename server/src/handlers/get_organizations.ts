@@ -12,6 +12,7 @@ export const getOrganizations = async (userId: number): Promise<Organization[]>
       slug: organizationsTable.slug,
       plan_type: organizationsTable.plan_type,
       owner_id: organizationsTable.owner_id,
+      require_two_factor: organizationsTable.require_two_factor,
       created_at: organizationsTable.created_at,
       updated_at: organizationsTable.updated_at
     })
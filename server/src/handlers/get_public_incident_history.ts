@@ -0,0 +1,17 @@
+import { type GetPublicIncidentHistoryInput, type IncidentHistory } from '../schema';
+import { loadIncidentHistory } from '../lib/incident_history';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+
+// Incident archive of a page, for whoever may view the page itself
+export const getPublicIncidentHistory = async (
+  input: GetPublicIncidentHistoryInput,
+  viewer: PageViewer | null = null
+): Promise<IncidentHistory> => {
+  try {
+    const { page } = await findViewableStatusPage(input.slug, viewer);
+    return await loadIncidentHistory(page.id, input);
+  } catch (error) {
+    console.error('Public incident history retrieval failed:', error);
+    throw error;
+  }
+};
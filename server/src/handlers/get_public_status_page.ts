@@ -0,0 +1,112 @@
+import { db } from '../db';
+import {
+  componentsTable,
+  incidentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { type PublicStatusPage } from '../schema';
+import { worstComponentStatus } from '../lib/status';
+import { publicStatusPageUrl } from '../lib/custom_domains';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { withIncidentTimeline } from '../lib/incident_history';
+import { smsSubscriptionsAvailable } from '../lib/sms_notifications';
+import { eq, and, ne, or, gt, asc, desc, inArray } from 'drizzle-orm';
+
+// Older resolved incidents are left to the incident history
+const PAST_INCIDENT_LIMIT = 10;
+
+// Read-only view of a status page. Private pages are only shown to a viewer who may see them,
+// and without a viewer they are indistinguishable from unknown slugs.
+export const getPublicStatusPage = async (slug: string, viewer: PageViewer | null = null): Promise<PublicStatusPage> => {
+  try {
+    const { page, planType } = await findViewableStatusPage(slug, viewer);
+
+    const components = await db.select({
+      id: componentsTable.id,
+      name: componentsTable.name,
+      description: componentsTable.description,
+      status: componentsTable.status,
+      position: componentsTable.position,
+      created_at: componentsTable.created_at,
+      updated_at: componentsTable.updated_at
+    })
+      .from(componentsTable)
+      .where(eq(componentsTable.status_page_id, page.id))
+      .orderBy(asc(componentsTable.position), asc(componentsTable.id))
+      .execute();
+
+    const activeIncidents = await db.select()
+      .from(incidentsTable)
+      .where(and(eq(incidentsTable.status_page_id, page.id), ne(incidentsTable.status, 'resolved')))
+      .orderBy(desc(incidentsTable.created_at))
+      .execute();
+
+    const pastIncidents = await db.select()
+      .from(incidentsTable)
+      .where(and(eq(incidentsTable.status_page_id, page.id), eq(incidentsTable.status, 'resolved')))
+      .orderBy(desc(incidentsTable.resolved_at), desc(incidentsTable.id))
+      .limit(PAST_INCIDENT_LIMIT)
+      .execute();
+
+    // Maintenance that is running now, or scheduled and not yet over
+    const maintenanceWindows = await db.select()
+      .from(maintenanceWindowsTable)
+      .where(
+        and(
+          eq(maintenanceWindowsTable.status_page_id, page.id),
+          or(
+            eq(maintenanceWindowsTable.status, 'in_progress'),
+            and(eq(maintenanceWindowsTable.status, 'scheduled'), gt(maintenanceWindowsTable.scheduled_end, new Date()))
+          )
+        )
+      )
+      .orderBy(asc(maintenanceWindowsTable.scheduled_start))
+      .execute();
+
+    const maintenanceAffected = maintenanceWindows.length > 0
+      ? await db.select()
+        .from(maintenanceAffectedComponentsTable)
+        .where(inArray(maintenanceAffectedComponentsTable.maintenance_window_id, maintenanceWindows.map(m => m.id)))
+        .execute()
+      : [];
+
+    return {
+      page: {
+        name: page.name,
+        slug: page.slug,
+        description: page.description,
+        branding_logo_url: page.branding_logo_url,
+        branding_primary_color: page.branding_primary_color,
+        branding_secondary_color: page.branding_secondary_color,
+        default_locale: page.default_locale,
+        enabled_locales: page.enabled_locales,
+        updated_at: page.updated_at,
+        url: publicStatusPageUrl(page, planType)
+      },
+      overall_status: worstComponentStatus(components.map(component => component.status)),
+      components,
+      active_incidents: await withIncidentTimeline(activeIncidents),
+      upcoming_maintenance: maintenanceWindows.map(maintenance => ({
+        id: maintenance.id,
+        title: maintenance.title,
+        description: maintenance.description,
+        status: maintenance.status,
+        scheduled_start: maintenance.scheduled_start,
+        scheduled_end: maintenance.scheduled_end,
+        actual_start: maintenance.actual_start,
+        actual_end: maintenance.actual_end,
+        created_at: maintenance.created_at,
+        updated_at: maintenance.updated_at,
+        affected_component_ids: maintenanceAffected
+          .filter(a => a.maintenance_window_id === maintenance.id)
+          .map(a => a.component_id)
+      })),
+      past_incidents: await withIncidentTimeline(pastIncidents),
+      sms_subscriptions: await smsSubscriptionsAvailable(page.id, planType)
+    };
+  } catch (error) {
+    console.error('Public status page retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { type PublicStatusPage } from '../schema';
+import { findCustomDomainSlug } from '../lib/custom_domains';
+import { type PageViewer } from '../lib/page_access';
+import { getPublicStatusPage } from './get_public_status_page';
+
+// Resolves a request's Host header to the page behind a verified custom domain.
+// Null means the host is not a custom domain, so the caller falls back to the dashboard.
+export const getPublicStatusPageByDomain = async (
+  host: string | undefined,
+  viewer: PageViewer | null = null
+): Promise<PublicStatusPage | null> => {
+  try {
+    const slug = await findCustomDomainSlug(host);
+    return slug ? await getPublicStatusPage(slug, viewer) : null;
+  } catch (error) {
+    console.error('Custom domain status page retrieval failed:', error);
+    throw error;
+  }
+};
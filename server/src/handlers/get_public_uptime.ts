@@ -0,0 +1,14 @@
+import { type ComponentUptime } from '../schema';
+import { loadStatusPageUptime } from '../lib/uptime';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+
+// Uptime bars for a page, visible to whoever may view the page itself
+export const getPublicUptime = async (slug: string, viewer: PageViewer | null = null): Promise<ComponentUptime[]> => {
+  try {
+    const { page } = await findViewableStatusPage(slug, viewer);
+    return await loadStatusPageUptime(page.id);
+  } catch (error) {
+    console.error('Public uptime retrieval failed:', error);
+    throw error;
+  }
+};
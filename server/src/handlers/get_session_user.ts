@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+export const getSessionUser = async (token: string): Promise<AuthUser | null> => {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { sessions: session, users } = results[0];
+
+    // Expired sessions, and any left behind for deactivated users, are removed on first use
+    if (session.expires_at.getTime() <= Date.now() || !users.is_active) {
+      await db.delete(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+      return null;
+    }
+
+    // Sessions still waiting for their second factor do not authenticate anything
+    if (session.two_factor_pending) {
+      return null;
+    }
+
+    const { password_hash, ...user } = users;
+    return user;
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+};
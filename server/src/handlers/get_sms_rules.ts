@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { smsRulesTable } from '../db/schema';
+import { type SmsRule } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getSmsRules = async (statusPageId: number): Promise<SmsRule[]> => {
+  try {
+    return await db.select()
+      .from(smsRulesTable)
+      .where(eq(smsRulesTable.status_page_id, statusPageId))
+      .orderBy(asc(smsRulesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('SMS rules retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { smsSubscribersTable } from '../db/schema';
+import { type SmsSubscriber } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+// Newest first, including numbers that have not verified yet
+export const getSmsSubscribers = async (statusPageId: number): Promise<SmsSubscriber[]> => {
+  try {
+    return await db.select({
+      id: smsSubscribersTable.id,
+      status_page_id: smsSubscribersTable.status_page_id,
+      phone_number: smsSubscribersTable.phone_number,
+      verified_at: smsSubscribersTable.verified_at,
+      created_at: smsSubscribersTable.created_at
+    })
+      .from(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.status_page_id, statusPageId))
+      .orderBy(desc(smsSubscribersTable.created_at), desc(smsSubscribersTable.id))
+      .execute();
+  } catch (error) {
+    console.error('SMS subscribers retrieval failed:', error);
+    throw error;
+  }
+};
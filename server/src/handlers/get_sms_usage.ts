@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { organizationsTable } from '../db/schema';
+import { type SmsUsage } from '../schema';
+import { getSmsUsageForOrganization } from '../lib/sms';
+import { eq } from 'drizzle-orm';
+
+export const getSmsUsage = async (organizationId: number): Promise<SmsUsage> => {
+  try {
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    if (organizations.length === 0) {
+      throw new Error(`Organization with id ${organizationId} not found`);
+    }
+
+    return await getSmsUsageForOrganization(organizationId, organizations[0].plan_type);
+  } catch (error) {
+    console.error('SMS usage retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { ssoConnectionsTable, ssoRoleMappingsTable } from '../db/schema';
+import { type SsoConnection } from '../schema';
+import { SSO_REDIRECT_URI } from '../lib/oidc';
+import { eq } from 'drizzle-orm';
+
+export const getSsoConnection = async (organizationId: number): Promise<SsoConnection | null> => {
+  try {
+    const connections = await db.select()
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    if (connections.length === 0) {
+      return null;
+    }
+
+    const { client_secret, ...connection } = connections[0];
+
+    const mappings = await db.select()
+      .from(ssoRoleMappingsTable)
+      .where(eq(ssoRoleMappingsTable.sso_connection_id, connection.id))
+      .orderBy(ssoRoleMappingsTable.id)
+      .execute();
+
+    return {
+      ...connection,
+      role_mappings: mappings.map(mapping => ({ group: mapping.group_name, role: mapping.role })),
+      redirect_uri: SSO_REDIRECT_URI
+    };
+  } catch (error) {
+    console.error('SSO connection lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { componentsTable } from '../db/schema';
+import { type StatusBadge } from '../lib/badges';
+import { worstComponentStatus } from '../lib/status';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { and, eq } from 'drizzle-orm';
+
+// Badge for a page, showing its worst component status, or for one of its components
+export const getStatusBadge = async (
+  slug: string,
+  componentId?: number,
+  viewer: PageViewer | null = null
+): Promise<StatusBadge> => {
+  try {
+    const { page } = await findViewableStatusPage(slug, viewer);
+
+    const conditions = [eq(componentsTable.status_page_id, page.id)];
+    if (componentId !== undefined) {
+      conditions.push(eq(componentsTable.id, componentId));
+    }
+
+    const components = await db.select({ name: componentsTable.name, status: componentsTable.status })
+      .from(componentsTable)
+      .where(and(...conditions))
+      .execute();
+
+    if (componentId !== undefined) {
+      if (components.length === 0) {
+        throw new Error('Component not found');
+      }
+      return { label: components[0].name, status: components[0].status, brandColor: page.branding_primary_color };
+    }
+
+    return {
+      label: page.name,
+      status: worstComponentStatus(components.map(component => component.status)),
+      brandColor: page.branding_primary_color
+    };
+  } catch (error) {
+    console.error('Status badge retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { type IncidentStatus } from '../schema';
+import { type StatusEmbed } from '../lib/embed';
+import { safeBrandColor } from '../lib/badges';
+import { type PageViewer } from '../lib/page_access';
+import { getPublicStatusPage } from './get_public_status_page';
+
+const incidentStatusLabels: Record<IncidentStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved'
+};
+
+// What the embed banner shows: unresolved incidents and maintenance that is running right now
+export const getStatusEmbed = async (slug: string, viewer: PageViewer | null = null): Promise<StatusEmbed> => {
+  try {
+    const data = await getPublicStatusPage(slug, viewer);
+
+    return {
+      name: data.page.name,
+      url: data.page.url,
+      brandColor: safeBrandColor(data.page.branding_primary_color),
+      notices: [
+        ...data.active_incidents.map(incident => ({
+          key: `incident-${incident.id}:${incident.status}`,
+          title: incident.title,
+          label: incidentStatusLabels[incident.status],
+          url: `${data.page.url}#incident-${incident.id}`
+        })),
+        ...data.upcoming_maintenance
+          .filter(maintenance => maintenance.status === 'in_progress')
+          .map(maintenance => ({
+            key: `maintenance-${maintenance.id}`,
+            title: maintenance.title,
+            label: 'Maintenance in progress',
+            url: `${data.page.url}#maintenance-${maintenance.id}`
+          }))
+      ]
+    };
+  } catch (error) {
+    console.error('Status embed retrieval failed:', error);
+    throw error;
+  }
+};
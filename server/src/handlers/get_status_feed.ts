@@ -0,0 +1,171 @@
+import { db } from '../db';
+import {
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { type IncidentStatus, type MaintenanceStatus } from '../schema';
+import { feedEntryId, type FeedEntry, type StatusFeed } from '../lib/feeds';
+import { publicStatusPageUrl } from '../lib/custom_domains';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { and, eq, desc, inArray, type SQL } from 'drizzle-orm';
+
+// Feed readers only look at recent entries
+export const FEED_ENTRY_LIMIT = 50;
+
+const incidentStatusLabels: Record<IncidentStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved'
+};
+
+const maintenanceStatusLabels: Record<MaintenanceStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+// Feed of a public page's incidents, incident updates and maintenance windows, newest first.
+// With componentIds, only entries affecting at least one of those components are included.
+export const getStatusFeed = async (
+  slug: string,
+  componentIds: number[] = [],
+  viewer: PageViewer | null = null
+): Promise<StatusFeed> => {
+  try {
+    const { page, planType } = await findViewableStatusPage(slug, viewer);
+    const pageUrl = publicStatusPageUrl(page, planType);
+
+    const components = await db.select({ id: componentsTable.id, name: componentsTable.name })
+      .from(componentsTable)
+      .where(eq(componentsTable.status_page_id, page.id))
+      .execute();
+    const componentNames = new Map(components.map(component => [component.id, component.name]));
+
+    const incidentConditions: SQL[] = [eq(incidentsTable.status_page_id, page.id)];
+    const maintenanceConditions: SQL[] = [eq(maintenanceWindowsTable.status_page_id, page.id)];
+    if (componentIds.length > 0) {
+      incidentConditions.push(inArray(
+        incidentsTable.id,
+        db.select({ id: incidentAffectedComponentsTable.incident_id })
+          .from(incidentAffectedComponentsTable)
+          .where(inArray(incidentAffectedComponentsTable.component_id, componentIds))
+      ));
+      maintenanceConditions.push(inArray(
+        maintenanceWindowsTable.id,
+        db.select({ id: maintenanceAffectedComponentsTable.maintenance_window_id })
+          .from(maintenanceAffectedComponentsTable)
+          .where(inArray(maintenanceAffectedComponentsTable.component_id, componentIds))
+      ));
+    }
+
+    const incidents = await db.select()
+      .from(incidentsTable)
+      .where(and(...incidentConditions))
+      .orderBy(desc(incidentsTable.updated_at))
+      .limit(FEED_ENTRY_LIMIT)
+      .execute();
+
+    const maintenanceWindows = await db.select()
+      .from(maintenanceWindowsTable)
+      .where(and(...maintenanceConditions))
+      .orderBy(desc(maintenanceWindowsTable.updated_at))
+      .limit(FEED_ENTRY_LIMIT)
+      .execute();
+
+    const incidentIds = incidents.map(incident => incident.id);
+    const maintenanceIds = maintenanceWindows.map(maintenance => maintenance.id);
+
+    const updates = incidentIds.length > 0
+      ? await db.select()
+        .from(incidentUpdatesTable)
+        .where(inArray(incidentUpdatesTable.incident_id, incidentIds))
+        .execute()
+      : [];
+
+    const incidentAffected = incidentIds.length > 0
+      ? await db.select()
+        .from(incidentAffectedComponentsTable)
+        .where(inArray(incidentAffectedComponentsTable.incident_id, incidentIds))
+        .execute()
+      : [];
+
+    const maintenanceAffected = maintenanceIds.length > 0
+      ? await db.select()
+        .from(maintenanceAffectedComponentsTable)
+        .where(inArray(maintenanceAffectedComponentsTable.maintenance_window_id, maintenanceIds))
+        .execute()
+      : [];
+
+    // Affected component names become entry categories
+    const categoriesFor = (ids: number[]): string[] => {
+      return ids.map(id => componentNames.get(id)).filter((name): name is string => name !== undefined);
+    };
+
+    const entries: FeedEntry[] = [];
+
+    for (const incident of incidents) {
+      const link = `${pageUrl}#incident-${incident.id}`;
+      const categories = categoriesFor(incidentAffected.filter(a => a.incident_id === incident.id).map(a => a.component_id));
+
+      entries.push({
+        id: feedEntryId('incident', incident.id),
+        title: incident.title,
+        link,
+        content: incident.description,
+        published: incident.created_at,
+        updated: incident.updated_at,
+        categories
+      });
+
+      // Updates are never edited, so each is published and updated at the same moment
+      for (const update of updates.filter(u => u.incident_id === incident.id)) {
+        entries.push({
+          id: feedEntryId('incident-update', update.id),
+          title: `${incidentStatusLabels[update.status]}: ${incident.title}`,
+          link,
+          content: update.title === update.description ? update.description : `${update.title}\n\n${update.description}`,
+          published: update.created_at,
+          updated: update.created_at,
+          categories
+        });
+      }
+    }
+
+    for (const maintenance of maintenanceWindows) {
+      entries.push({
+        id: feedEntryId('maintenance', maintenance.id),
+        title: `${maintenanceStatusLabels[maintenance.status]} maintenance: ${maintenance.title}`,
+        link: `${pageUrl}#maintenance-${maintenance.id}`,
+        content: `${maintenance.description}\n\nScheduled from ${maintenance.scheduled_start.toISOString()} to ${maintenance.scheduled_end.toISOString()}`,
+        published: maintenance.created_at,
+        updated: maintenance.updated_at,
+        categories: categoriesFor(maintenanceAffected.filter(a => a.maintenance_window_id === maintenance.id).map(a => a.component_id))
+      });
+    }
+
+    entries.sort((a, b) => b.updated.getTime() - a.updated.getTime() || a.id.localeCompare(b.id));
+    const recentEntries = entries.slice(0, FEED_ENTRY_LIMIT);
+
+    const filterNames = categoriesFor(componentIds);
+
+    return {
+      id: componentIds.length > 0
+        ? `urn:edgestatus:status-page:${page.slug}:components:${[...componentIds].sort((a, b) => a - b).join(',')}`
+        : `urn:edgestatus:status-page:${page.slug}`,
+      title: filterNames.length > 0 ? `${page.name} – ${filterNames.join(', ')}` : page.name,
+      description: page.description ?? `Incidents and maintenance for ${page.name}`,
+      link: pageUrl,
+      updated: recentEntries[0]?.updated ?? page.updated_at,
+      entries: recentEntries
+    };
+  } catch (error) {
+    console.error('Status feed retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import {
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  maintenanceWindowsTable
+} from '../db/schema';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { eq, max } from 'drizzle-orm';
+
+// When anything a page's feeds are built from last changed.
+// Lets conditional requests from feed readers be answered without building the feed.
+export const getStatusFeedVersion = async (slug: string, viewer: PageViewer | null = null): Promise<Date> => {
+  try {
+    const { page } = await findViewableStatusPage(slug, viewer);
+
+    const [components, incidents, updates, maintenance] = await Promise.all([
+      db.select({ latest: max(componentsTable.updated_at) })
+        .from(componentsTable)
+        .where(eq(componentsTable.status_page_id, page.id))
+        .execute(),
+      db.select({ latest: max(incidentsTable.updated_at) })
+        .from(incidentsTable)
+        .where(eq(incidentsTable.status_page_id, page.id))
+        .execute(),
+      db.select({ latest: max(incidentUpdatesTable.created_at) })
+        .from(incidentUpdatesTable)
+        .innerJoin(incidentsTable, eq(incidentUpdatesTable.incident_id, incidentsTable.id))
+        .where(eq(incidentsTable.status_page_id, page.id))
+        .execute(),
+      db.select({ latest: max(maintenanceWindowsTable.updated_at) })
+        .from(maintenanceWindowsTable)
+        .where(eq(maintenanceWindowsTable.status_page_id, page.id))
+        .execute()
+    ]);
+
+    const timestamps = [page.updated_at, components[0]?.latest, incidents[0]?.latest, updates[0]?.latest, maintenance[0]?.latest]
+      .filter((date): date is Date => date instanceof Date);
+
+    return new Date(Math.max(...timestamps.map(date => date.getTime())));
+  } catch (error) {
+    console.error('Status feed version lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { statusPagesTable, statusPagePasswordsTable } from '../db/schema';
+import { type StatusPageAccess } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const getStatusPageAccess = async (statusPageId: number): Promise<StatusPageAccess> => {
+  try {
+    const pages = await db.select({ page: statusPagesTable, password_updated_at: statusPagePasswordsTable.updated_at })
+      .from(statusPagesTable)
+      .leftJoin(statusPagePasswordsTable, eq(statusPagePasswordsTable.status_page_id, statusPagesTable.id))
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+
+    if (pages.length === 0) {
+      throw new Error(`Status page with ID ${statusPageId} not found`);
+    }
+
+    const { page, password_updated_at } = pages[0];
+
+    return {
+      status_page_id: page.id,
+      is_public: page.is_public,
+      password_protected: password_updated_at !== null,
+      password_updated_at,
+      ip_allowlist: page.access_ip_allowlist
+    };
+  } catch (error) {
+    console.error('Status page access retrieval failed:', error);
+    throw error;
+  }
+};
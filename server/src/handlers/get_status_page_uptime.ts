@@ -0,0 +1,11 @@
+import { type ComponentUptime } from '../schema';
+import { loadStatusPageUptime } from '../lib/uptime';
+
+export const getStatusPageUptime = async (statusPageId: number): Promise<ComponentUptime[]> => {
+  try {
+    return await loadStatusPageUptime(statusPageId);
+  } catch (error) {
+    console.error('Status page uptime retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { toStatuspageDocument, type StatuspageDocument, type StatuspageEndpoint } from '../lib/statuspage_v2';
+import { type PageViewer } from '../lib/page_access';
+import { getPublicStatusPage } from './get_public_status_page';
+
+// Statuspage v2 JSON for a page, e.g. summary.json, for whoever may view the page itself
+export const getStatuspageDocument = async (
+  slug: string,
+  endpoint: StatuspageEndpoint,
+  viewer: PageViewer | null = null
+): Promise<StatuspageDocument> => {
+  try {
+    const data = await getPublicStatusPage(slug, viewer);
+    return toStatuspageDocument(data, endpoint);
+  } catch (error) {
+    console.error('Statuspage document retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { subscribersTable } from '../db/schema';
+import { type Subscriber } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+// Newest first, including addresses that have not confirmed yet
+export const getSubscribers = async (statusPageId: number): Promise<Subscriber[]> => {
+  try {
+    return await db.select()
+      .from(subscribersTable)
+      .where(eq(subscribersTable.status_page_id, statusPageId))
+      .orderBy(desc(subscribersTable.created_at), desc(subscribersTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Subscribers retrieval failed:', error);
+    throw error;
+  }
+};
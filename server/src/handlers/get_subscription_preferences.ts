@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { subscribersTable, subscriberComponentsTable, statusPagesTable, componentsTable } from '../db/schema';
+import { type SubscriptionPreferences } from '../schema';
+import { verifySignedToken } from '../lib/auth';
+import { SUBSCRIPTION_PREFERENCES_PURPOSE } from '../lib/subscribers';
+import { asc, eq } from 'drizzle-orm';
+
+// Reached from the link in a subscriber's emails, so the signed token stands in for an account
+export const getSubscriptionPreferences = async (token: string): Promise<SubscriptionPreferences> => {
+  try {
+    const subscriberId = verifySignedToken(token, SUBSCRIPTION_PREFERENCES_PURPOSE);
+    if (subscriberId === null) {
+      throw new Error('Invalid or expired preferences link');
+    }
+
+    // The subscriber may have unsubscribed since the link was sent
+    const subscribers = await db.select({ subscriber: subscribersTable, pageName: statusPagesTable.name })
+      .from(subscribersTable)
+      .innerJoin(statusPagesTable, eq(subscribersTable.status_page_id, statusPagesTable.id))
+      .where(eq(subscribersTable.id, subscriberId))
+      .execute();
+
+    if (subscribers.length === 0) {
+      throw new Error('Invalid or expired preferences link');
+    }
+
+    const { subscriber, pageName } = subscribers[0];
+
+    const components = await db.select({
+      id: componentsTable.id,
+      name: componentsTable.name,
+      description: componentsTable.description
+    })
+      .from(componentsTable)
+      .where(eq(componentsTable.status_page_id, subscriber.status_page_id))
+      .orderBy(asc(componentsTable.position), asc(componentsTable.id))
+      .execute();
+
+    const choices = await db.select({ component_id: subscriberComponentsTable.component_id })
+      .from(subscriberComponentsTable)
+      .where(eq(subscriberComponentsTable.subscriber_id, subscriberId))
+      .execute();
+
+    return {
+      status_page_name: pageName,
+      email: subscriber.email,
+      components,
+      component_ids: choices.map(choice => choice.component_id)
+    };
+  } catch (error) {
+    console.error('Subscription preferences retrieval failed:', error);
+    throw error;
+  }
+};
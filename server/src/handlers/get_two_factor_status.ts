@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { recoveryCodesTable } from '../db/schema';
+import { type TwoFactorStatus } from '../schema';
+import { getEnabledCredential } from '../lib/two_factor';
+import { eq, and, isNull, count } from 'drizzle-orm';
+
+export const getTwoFactorStatus = async (userId: number): Promise<TwoFactorStatus> => {
+  try {
+    const credential = await getEnabledCredential(userId);
+    if (!credential) {
+      return { enabled: false, enabled_at: null, recovery_codes_remaining: 0 };
+    }
+
+    const remaining = await db.select({ count: count() })
+      .from(recoveryCodesTable)
+      .where(and(eq(recoveryCodesTable.user_id, userId), isNull(recoveryCodesTable.used_at)))
+      .execute();
+
+    return {
+      enabled: true,
+      enabled_at: credential.enabled_at,
+      recovery_codes_remaining: remaining[0].count
+    };
+  } catch (error) {
+    console.error('Two-factor status lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { type GetWebhookDeliveriesInput, type WebhookDelivery } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+// The endpoint's delivery log, newest first
+export const getWebhookDeliveries = async (input: GetWebhookDeliveriesInput): Promise<WebhookDelivery[]> => {
+  try {
+    return await db.select()
+      .from(webhookDeliveriesTable)
+      .where(eq(webhookDeliveriesTable.webhook_endpoint_id, input.webhook_endpoint_id))
+      .orderBy(desc(webhookDeliveriesTable.created_at), desc(webhookDeliveriesTable.id))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch webhook deliveries:', error);
+    throw error;
+  }
+};
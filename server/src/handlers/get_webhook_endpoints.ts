@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { webhookEndpointsTable } from '../db/schema';
+import { type WebhookEndpoint } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const getWebhookEndpoints = async (organizationId: number): Promise<WebhookEndpoint[]> => {
+  try {
+    const endpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.organization_id, organizationId))
+      .orderBy(desc(webhookEndpointsTable.created_at), desc(webhookEndpointsTable.id))
+      .execute();
+
+    return endpoints.map(({ secret, ...endpoint }) => endpoint);
+  } catch (error) {
+    console.error('Failed to fetch webhook endpoints:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LoginInput, type LoginResult } from '../schema';
+import { createSession } from '../lib/sessions';
+import { isTwoFactorEnabled } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+export const login = async (input: LoginInput): Promise<LoginResult> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Use the same error for unknown emails and wrong passwords
+    if (users.length === 0) {
+      throw new Error('Invalid email or password');
+    }
+
+    const { password_hash, ...user } = users[0];
+
+    const passwordMatches = await Bun.password.verify(input.password, password_hash);
+    if (!passwordMatches) {
+      throw new Error('Invalid email or password');
+    }
+
+    // Checked after the password so deactivation is only revealed to the account holder
+    if (!user.is_active) {
+      throw new Error('This account has been deactivated');
+    }
+
+    // With 2FA enabled the session starts out pending until the second factor is verified
+    const two_factor_required = await isTwoFactorEnabled(user.id);
+    const { token, expires_at } = await createSession(user.id, two_factor_required);
+
+    return { user, token, expires_at, two_factor_required };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
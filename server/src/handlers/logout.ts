@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+export const logout = async (token: string): Promise<boolean> => {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    return result.rowCount !== null && result.rowCount > 0;
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
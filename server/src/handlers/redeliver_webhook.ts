@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhookEndpointsTable } from '../db/schema';
+import { type WebhookDelivery } from '../schema';
+import { eq } from 'drizzle-orm';
+import { attemptWebhookDelivery, WEBHOOK_CLAIM_MS } from '../lib/webhooks';
+
+// Sends the same event again as a new delivery, attempted right away and retried like any other.
+// The event id is unchanged so receivers can tell it apart from a new event.
+export const redeliverWebhook = async (deliveryId: number): Promise<WebhookDelivery> => {
+  try {
+    const results = await db.select({ delivery: webhookDeliveriesTable, endpoint: webhookEndpointsTable })
+      .from(webhookDeliveriesTable)
+      .innerJoin(webhookEndpointsTable, eq(webhookDeliveriesTable.webhook_endpoint_id, webhookEndpointsTable.id))
+      .where(eq(webhookDeliveriesTable.id, deliveryId))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Webhook delivery with id ${deliveryId} not found`);
+    }
+
+    const { delivery, endpoint } = results[0];
+    if (!endpoint.is_active) {
+      throw new Error('Webhook endpoint is disabled');
+    }
+
+    // Claimed like the background sender claims deliveries, which then leaves it alone during this attempt
+    const inserted = await db.insert(webhookDeliveriesTable)
+      .values({
+        webhook_endpoint_id: delivery.webhook_endpoint_id,
+        event_id: delivery.event_id,
+        event_type: delivery.event_type,
+        payload: delivery.payload,
+        next_attempt_at: new Date(Date.now() + WEBHOOK_CLAIM_MS)
+      })
+      .returning()
+      .execute();
+
+    return await attemptWebhookDelivery(inserted[0]);
+  } catch (error) {
+    console.error('Webhook redelivery failed:', error);
+    throw error;
+  }
+};
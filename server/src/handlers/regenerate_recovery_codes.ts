@@ -0,0 +1,19 @@
+import { type TwoFactorCodeInput, type RecoveryCodes } from '../schema';
+import { isTwoFactorEnabled, verifySecondFactor, replaceRecoveryCodes } from '../lib/two_factor';
+
+export const regenerateRecoveryCodes = async (input: TwoFactorCodeInput, userId: number): Promise<RecoveryCodes> => {
+  try {
+    if (!(await isTwoFactorEnabled(userId))) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await verifySecondFactor(userId, input.code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    return { recovery_codes: await replaceRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { organizationsTable, organizationMembersTable } from '../db/schema';
+import { eq, and, ne, asc } from 'drizzle-orm';
+import { ensureOwnerMembership } from '../lib/members';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const removeOrganizationMember = async (organizationId: number, userId: number, actor: Actor | null = null): Promise<boolean> => {
+  try {
+    await ensureOwnerMembership(organizationId);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(
+        and(
+          eq(organizationMembersTable.organization_id, organizationId),
+          eq(organizationMembersTable.user_id, userId)
+        )
+      )
+      .execute();
+
+    if (members.length === 0) {
+      throw new Error('User is not a member of this organization');
+    }
+
+    const member = members[0];
+
+    await db.transaction(async (tx) => {
+      // Removing an owner: another owner must remain, and owner_id moves to them if needed
+      if (member.role === 'owner') {
+        const otherOwners = await tx.select({ user_id: organizationMembersTable.user_id })
+          .from(organizationMembersTable)
+          .where(
+            and(
+              eq(organizationMembersTable.organization_id, organizationId),
+              eq(organizationMembersTable.role, 'owner'),
+              ne(organizationMembersTable.user_id, userId)
+            )
+          )
+          .orderBy(asc(organizationMembersTable.created_at), asc(organizationMembersTable.id))
+          .execute();
+
+        if (otherOwners.length === 0) {
+          throw new Error('Cannot remove the last owner of an organization');
+        }
+
+        await tx.update(organizationsTable)
+          .set({ owner_id: otherOwners[0].user_id, updated_at: new Date() })
+          .where(and(eq(organizationsTable.id, organizationId), eq(organizationsTable.owner_id, userId)))
+          .execute();
+      }
+
+      await tx.delete(organizationMembersTable)
+        .where(eq(organizationMembersTable.id, member.id))
+        .execute();
+    });
+
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'member',
+      entityId: member.id,
+      action: 'delete',
+      before: member
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Member removal failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable } from '../db/schema';
+import { type RequestPasswordResetInput } from '../schema';
+import { generateToken, hashToken, PASSWORD_RESET_TTL_MS } from '../lib/auth';
+import { sendMail, APP_URL } from '../lib/mailer';
+import { eq } from 'drizzle-orm';
+
+// Always succeeds so the response does not reveal which emails have accounts
+export const requestPasswordReset = async (input: RequestPasswordResetInput): Promise<boolean> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      return true;
+    }
+
+    const user = users[0];
+    const token = generateToken();
+    const expires_at = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at
+      })
+      .execute();
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your EdgeStatus password',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        `Choose a new password: ${APP_URL}/reset-password?token=${token}`,
+        '',
+        `This link expires on ${expires_at.toUTCString()} and can only be used once.`,
+        'If you did not ask to reset your password, you can ignore this message.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+};
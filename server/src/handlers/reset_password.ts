@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { type ResetPasswordInput } from '../schema';
+import { hashToken } from '../lib/auth';
+import { eq, and, isNull } from 'drizzle-orm';
+
+export const resetPassword = async (input: ResetPasswordInput): Promise<boolean> => {
+  try {
+    const results = await db.select()
+      .from(passwordResetTokensTable)
+      .innerJoin(usersTable, eq(passwordResetTokensTable.user_id, usersTable.id))
+      .where(eq(passwordResetTokensTable.token_hash, hashToken(input.token)))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Password reset link is invalid or has expired');
+    }
+
+    const { password_reset_tokens: resetToken, users: user } = results[0];
+
+    if (resetToken.used_at !== null || resetToken.expires_at.getTime() <= Date.now() || !user.is_active) {
+      throw new Error('Password reset link is invalid or has expired');
+    }
+
+    const password_hash = await Bun.password.hash(input.password, {
+      algorithm: "bcrypt",
+      cost: 10
+    });
+
+    await db.transaction(async (tx) => {
+      // Claim the token first so two concurrent resets cannot both succeed
+      const claimed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(eq(passwordResetTokensTable.id, resetToken.id), isNull(passwordResetTokensTable.used_at)))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Password reset link is invalid or has expired');
+      }
+
+      await tx.update(usersTable)
+        .set({ password_hash, updated_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      // Sign out everywhere; whoever knew the old password loses access
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+};
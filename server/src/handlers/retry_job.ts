@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { jobsTable } from '../db/schema';
+import { type Job } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Brings a dead-lettered job back to the queue with a fresh set of attempts. The last error is kept until it runs again.
+export const retryJob = async (jobId: number): Promise<Job> => {
+  try {
+    const existing = await db.select()
+      .from(jobsTable)
+      .where(eq(jobsTable.id, jobId))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+
+    const result = await db.update(jobsTable)
+      .set({ status: 'pending', attempts: 0, run_at: new Date(), finished_at: null })
+      .where(and(eq(jobsTable.id, jobId), eq(jobsTable.status, 'dead')))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Only dead jobs can be retried');
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Job retry failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { apiKeysTable, apiKeyStatusPagesTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const revokeApiKey = async (id: number, actor: Actor | null = null): Promise<ApiKey> => {
+  try {
+    const existingKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, id))
+      .execute();
+
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(apiKeysTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`API key with id ${id} not found`);
+    }
+
+    const restrictions = await db.select()
+      .from(apiKeyStatusPagesTable)
+      .where(eq(apiKeyStatusPagesTable.api_key_id, id))
+      .execute();
+
+    const { token_hash, ...apiKey } = result[0];
+
+    await recordAuditEvent(actor, {
+      organizationId: apiKey.organization_id,
+      entityType: 'api_key',
+      entityId: id,
+      action: 'update',
+      before: existingKeys[0],
+      after: result[0]
+    });
+
+    return {
+      ...apiKey,
+      status_page_ids: restrictions.map(r => r.status_page_id)
+    };
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { invitationsTable } from '../db/schema';
+import { type Invitation } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const revokeInvitation = async (id: number, actor: Actor | null = null): Promise<Invitation> => {
+  try {
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(eq(invitationsTable.id, id))
+      .execute();
+
+    if (invitations.length === 0) {
+      throw new Error(`Invitation with id ${id} not found`);
+    }
+
+    if (invitations[0].status !== 'pending') {
+      throw new Error(`Invitation with id ${id} is already ${invitations[0].status}`);
+    }
+
+    const result = await db.update(invitationsTable)
+      .set({ status: 'revoked' })
+      .where(eq(invitationsTable.id, id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: result[0].organization_id,
+      entityType: 'invitation',
+      entityId: id,
+      action: 'update',
+      before: invitations[0],
+      after: result[0]
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Invitation revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { webhookEndpointsTable } from '../db/schema';
+import { type WebhookEndpointWithSecret } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { generateWebhookSecret } from '../lib/webhooks';
+import { type Actor } from '../lib/permissions';
+
+// The old secret stops working at once, including for retries of earlier events
+export const rotateWebhookSecret = async (id: number, actor: Actor | null = null): Promise<WebhookEndpointWithSecret> => {
+  try {
+    const existingEndpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, id))
+      .execute();
+
+    const result = await db.update(webhookEndpointsTable)
+      .set({ secret: generateWebhookSecret(), updated_at: new Date() })
+      .where(eq(webhookEndpointsTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Webhook endpoint with id ${id} not found`);
+    }
+
+    const { secret, ...webhookEndpoint } = result[0];
+
+    // The secret itself is redacted, so the entry records that it was rotated and when
+    await recordAuditEvent(actor, {
+      organizationId: webhookEndpoint.organization_id,
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      action: 'update',
+      before: existingEndpoints[0],
+      after: { ...webhookEndpoint, secret_rotated_at: webhookEndpoint.updated_at }
+    });
+
+    return { webhook_endpoint: webhookEndpoint, secret };
+  } catch (error) {
+    console.error('Webhook secret rotation failed:', error);
+    throw error;
+  }
+};
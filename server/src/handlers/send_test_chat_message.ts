@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { chatIntegrationsTable, statusPagesTable, organizationsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { chatMessageContext, postChatMessage } from '../lib/chat_notifications';
+
+// Unlike real notifications, a failed test message is reported to the caller
+export const sendTestChatMessage = async (id: number): Promise<boolean> => {
+  try {
+    const results = await db.select({ integration: chatIntegrationsTable, page: statusPagesTable, planType: organizationsTable.plan_type })
+      .from(chatIntegrationsTable)
+      .innerJoin(statusPagesTable, eq(chatIntegrationsTable.status_page_id, statusPagesTable.id))
+      .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+      .where(eq(chatIntegrationsTable.id, id))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Chat integration with id ${id} not found`);
+    }
+
+    const { integration, page, planType } = results[0];
+
+    await postChatMessage(integration, {
+      subject: null,
+      headline: 'Test message',
+      title: `${page.name} is connected`,
+      status: 'Operational',
+      tone: 'good',
+      text: 'Incidents and maintenance on this status page will be posted here.',
+      affectedComponentIds: []
+    }, await chatMessageContext(page, planType, []));
+
+    return true;
+  } catch (error) {
+    console.error('Test chat message failed:', error);
+    throw error;
+  }
+};
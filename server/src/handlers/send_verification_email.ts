@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { signToken, EMAIL_VERIFICATION_TTL_MS } from '../lib/auth';
+import { sendMail, APP_URL } from '../lib/mailer';
+import { eq } from 'drizzle-orm';
+
+export const sendVerificationEmail = async (userId: number): Promise<boolean> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+
+    if (user.email_verified_at !== null) {
+      throw new Error('Email address is already verified');
+    }
+
+    const token = signToken('email_verification', user.id, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    await sendMail({
+      to: user.email,
+      subject: 'Verify your EdgeStatus email address',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        `Confirm your email address: ${APP_URL}/verify-email?token=${token}`,
+        '',
+        'If you did not create an EdgeStatus account, you can ignore this message.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Sending verification email failed:', error);
+    throw error;
+  }
+};
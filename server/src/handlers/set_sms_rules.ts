@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { smsRulesTable, statusPagesTable } from '../db/schema';
+import { type SetSmsRulesInput, type SmsRule } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+const ruleSnapshot = (rules: Pick<SmsRule, 'event_type' | 'min_component_status'>[]) => {
+  return rules.map(rule => ({ event_type: rule.event_type, min_component_status: rule.min_component_status }));
+};
+
+// Replaces every SMS rule of the page, recorded as a change to the page
+export const setSmsRules = async (input: SetSmsRulesInput, actor: Actor | null = null): Promise<SmsRule[]> => {
+  try {
+    const pages = await db.select()
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.id, input.status_page_id))
+      .execute();
+
+    if (pages.length === 0) {
+      throw new Error(`Status page with id ${input.status_page_id} not found`);
+    }
+
+    const eventTypes = input.rules.map(rule => rule.event_type);
+    const duplicates = eventTypes.filter((eventType, index) => eventTypes.indexOf(eventType) !== index);
+    if (duplicates.length > 0) {
+      throw new Error(`Only one SMS rule per event is allowed: ${[...new Set(duplicates)].join(', ')}`);
+    }
+
+    const maintenanceWithStatus = input.rules.find(rule => !rule.event_type.startsWith('incident.') && rule.min_component_status !== null);
+    if (maintenanceWithStatus) {
+      throw new Error(`A minimum component status only applies to incident events, not ${maintenanceWithStatus.event_type}`);
+    }
+
+    const before = await db.select()
+      .from(smsRulesTable)
+      .where(eq(smsRulesTable.status_page_id, input.status_page_id))
+      .orderBy(asc(smsRulesTable.id))
+      .execute();
+
+    const rules = await db.transaction(async (tx) => {
+      await tx.delete(smsRulesTable)
+        .where(eq(smsRulesTable.status_page_id, input.status_page_id))
+        .execute();
+
+      if (input.rules.length === 0) {
+        return [];
+      }
+
+      return tx.insert(smsRulesTable)
+        .values(input.rules.map(rule => ({ status_page_id: input.status_page_id, ...rule })))
+        .returning()
+        .execute();
+    });
+
+    await recordAuditEvent(actor, {
+      organizationId: pages[0].organization_id,
+      entityType: 'status_page',
+      entityId: input.status_page_id,
+      action: 'update',
+      before: { sms_rules: ruleSnapshot(before) },
+      after: { sms_rules: ruleSnapshot(rules) }
+    });
+
+    return rules;
+  } catch (error) {
+    console.error('SMS rules update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor, getUserOrganizationIds } from '../lib/permissions';
+import { eq } from 'drizzle-orm';
+
+// Deactivated users cannot sign in and lose every existing session immediately.
+// Users belong to no single organization, so each of their organizations records the change.
+export const setUserActive = async (userId: number, isActive: boolean, actor: Actor | null = null): Promise<AuthUser> => {
+  try {
+    const { before, after } = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`User with id ${userId} not found`);
+      }
+
+      const result = await tx.update(usersTable)
+        .set({ is_active: isActive, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+
+      if (!isActive) {
+        await tx.delete(sessionsTable)
+          .where(eq(sessionsTable.user_id, userId))
+          .execute();
+      }
+
+      return { before: existing[0], after: result[0] };
+    });
+
+    for (const organizationId of await getUserOrganizationIds(userId)) {
+      await recordAuditEvent(actor, {
+        organizationId,
+        entityType: 'user',
+        entityId: userId,
+        action: 'update',
+        before,
+        after
+      });
+    }
+
+    const { password_hash, ...user } = after;
+    return user;
+  } catch (error) {
+    console.error('User activation update failed:', error);
+    throw error;
+  }
+};
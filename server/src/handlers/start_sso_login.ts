@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { organizationsTable, ssoConnectionsTable, ssoLoginAttemptsTable } from '../db/schema';
+import { type StartSsoLoginInput, type SsoAuthorization } from '../schema';
+import { generateToken, hashToken, SSO_LOGIN_TTL_MS } from '../lib/auth';
+import { fetchDiscovery, buildAuthorizationUrl, generateCodeVerifier } from '../lib/oidc';
+import { eq, and } from 'drizzle-orm';
+
+// The returned state must also be stored in a cookie so the callback can prove it reached the same browser
+export const startSsoLogin = async (input: StartSsoLoginInput): Promise<SsoAuthorization> => {
+  try {
+    const results = await db.select({ connection: ssoConnectionsTable, plan_type: organizationsTable.plan_type })
+      .from(ssoConnectionsTable)
+      .innerJoin(organizationsTable, eq(ssoConnectionsTable.organization_id, organizationsTable.id))
+      .where(and(eq(organizationsTable.slug, input.organization_slug), eq(ssoConnectionsTable.is_enabled, true)))
+      .execute();
+
+    // Connections stay stored after a downgrade but stop working until the plan allows SSO again
+    if (results.length === 0 || results[0].plan_type !== 'enterprise') {
+      throw new Error('Single sign-on is not configured for this organization');
+    }
+
+    const { connection } = results[0];
+    const discovery = await fetchDiscovery(connection.issuer);
+
+    const state = generateToken();
+    const nonce = generateToken();
+    const codeVerifier = generateCodeVerifier();
+    const expires_at = new Date(Date.now() + SSO_LOGIN_TTL_MS);
+
+    await db.insert(ssoLoginAttemptsTable)
+      .values({
+        sso_connection_id: connection.id,
+        state_hash: hashToken(state),
+        nonce,
+        code_verifier: codeVerifier,
+        expires_at
+      })
+      .execute();
+
+    return {
+      authorization_url: buildAuthorizationUrl(discovery, { clientId: connection.client_id, state, nonce, codeVerifier }),
+      state,
+      expires_at
+    };
+  } catch (error) {
+    console.error('SSO login start failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable } from '../db/schema';
+import { type TwoFactorEnrollment } from '../schema';
+import { generateTotpSecret, buildProvisioningUri } from '../lib/totp';
+import { isTwoFactorEnabled, TWO_FACTOR_ISSUER } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+// Starting again before confirming replaces the pending secret, so only the latest QR code works
+export const startTwoFactorEnrollment = async (userId: number): Promise<TwoFactorEnrollment> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    if (await isTwoFactorEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentialsTable.user_id,
+        set: { secret, enabled_at: null, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    return {
+      secret,
+      provisioning_uri: buildProvisioningUri(secret, users[0].email, TWO_FACTOR_ISSUER)
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment start failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+import { randomInt } from 'crypto';
+import { db } from '../db';
+import { smsSubscribersTable } from '../db/schema';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { smsSubscriptionsAvailable } from '../lib/sms_notifications';
+import { sendSms } from '../lib/sms';
+import { hashToken, SMS_VERIFICATION_RESEND_INTERVAL_MS, SMS_VERIFICATION_TTL_MS } from '../lib/auth';
+import { and, eq } from 'drizzle-orm';
+
+// Texts a verification code that the number confirms on the status page; nothing else is sent until it does.
+// Succeeds the same way whether or not the number is already subscribed, and sends at most one code a minute.
+export const subscribeToSmsUpdates = async (slug: string, phoneNumber: string, viewer: PageViewer | null = null): Promise<boolean> => {
+  try {
+    const { page, planType } = await findViewableStatusPage(slug, viewer);
+
+    if (!await smsSubscriptionsAvailable(page.id, planType)) {
+      throw new Error('This status page does not offer text message updates');
+    }
+
+    await db.insert(smsSubscribersTable)
+      .values({ status_page_id: page.id, phone_number: phoneNumber })
+      .onConflictDoNothing()
+      .execute();
+
+    const subscribers = await db.select()
+      .from(smsSubscribersTable)
+      .where(and(eq(smsSubscribersTable.status_page_id, page.id), eq(smsSubscribersTable.phone_number, phoneNumber)))
+      .execute();
+
+    const subscriber = subscribers[0];
+    if (subscriber.verified_at) {
+      return true;
+    }
+
+    const now = new Date();
+    if (subscriber.verification_sent_at && now.getTime() - subscriber.verification_sent_at.getTime() < SMS_VERIFICATION_RESEND_INTERVAL_MS) {
+      return true;
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    await db.update(smsSubscribersTable)
+      .set({
+        verification_code_hash: hashToken(`${subscriber.id}:${code}`),
+        verification_sent_at: now,
+        verification_expires_at: new Date(now.getTime() + SMS_VERIFICATION_TTL_MS),
+        verification_attempts: 0
+      })
+      .where(eq(smsSubscribersTable.id, subscriber.id))
+      .execute();
+
+    const result = await sendSms(page.organization_id, planType, {
+      to: phoneNumber,
+      body: `${code} is your code to get text updates from ${page.name}. It expires in ${Math.round(SMS_VERIFICATION_TTL_MS / 60_000)} minutes.`
+    }, { kind: 'verification', statusPageId: page.id, ip: viewer?.ip ?? null });
+
+    if (result.status === 'over_quota') {
+      throw new Error('This status page cannot send text messages right now');
+    }
+    if (result.status === 'rate_limited') {
+      throw new Error('Too many verification codes were requested; try again later');
+    }
+    if (result.status === 'opted_out') {
+      throw new Error('This number has opted out of our text messages; reply START to opt back in');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('SMS subscription failed:', error);
+    throw error;
+  }
+};
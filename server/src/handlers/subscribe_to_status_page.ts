@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { subscribersTable } from '../db/schema';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { subscriptionConfirmationUrl, subscriptionPreferencesUrl } from '../lib/subscribers';
+import { sendMail } from '../lib/mailer';
+import { SUBSCRIPTION_CONFIRMATION_RESEND_INTERVAL_MS, SUBSCRIPTION_CONFIRMATION_TTL_MS } from '../lib/auth';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+// Double opt-in: nothing is sent to an address until it confirms the emailed link.
+// Succeeds the same way whether or not the address is already subscribed, so the response reveals nothing.
+// Repeated requests resend the confirmation at most once a minute, so the form cannot be used to flood an inbox.
+export const subscribeToStatusPage = async (slug: string, email: string, viewer: PageViewer | null = null): Promise<boolean> => {
+  try {
+    const { page } = await findViewableStatusPage(slug, viewer);
+    const address = email.trim().toLowerCase();
+
+    await db.insert(subscribersTable)
+      .values({ status_page_id: page.id, email: address })
+      .onConflictDoNothing()
+      .execute();
+
+    const subscribers = await db.select()
+      .from(subscribersTable)
+      .where(and(eq(subscribersTable.status_page_id, page.id), eq(subscribersTable.email, address)))
+      .execute();
+
+    const subscriber = subscribers[0];
+    if (subscriber.confirmed_at) {
+      return true;
+    }
+
+    // Claiming the send in the update keeps concurrent requests from both sending
+    const now = new Date();
+    const claimed = await db.update(subscribersTable)
+      .set({ confirmation_sent_at: now })
+      .where(and(
+        eq(subscribersTable.id, subscriber.id),
+        or(
+          isNull(subscribersTable.confirmation_sent_at),
+          lt(subscribersTable.confirmation_sent_at, new Date(now.getTime() - SUBSCRIPTION_CONFIRMATION_RESEND_INTERVAL_MS))
+        )
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      return true;
+    }
+
+    await sendMail({
+      to: subscriber.email,
+      subject: `Confirm your subscription to ${page.name}`,
+      text: [
+        `Someone, hopefully you, asked to get email updates from the ${page.name} status page.`,
+        '',
+        `Confirm your subscription: ${subscriptionConfirmationUrl(subscriber.id)}`,
+        '',
+        `This link expires on ${new Date(Date.now() + SUBSCRIPTION_CONFIRMATION_TTL_MS).toUTCString()}.`,
+        '',
+        `You will hear about every component unless you choose some: ${subscriptionPreferencesUrl(subscriber.id)}`,
+        '',
+        'If you did not ask for this, you can ignore this message and you will not hear from us again.'
+      ].join('\n')
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Status page subscription failed:', error);
+    throw error;
+  }
+};
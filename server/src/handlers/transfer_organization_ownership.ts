@@ -0,0 +1,79 @@
+import { db } from '../db';
+import { organizationsTable, organizationMembersTable } from '../db/schema';
+import { type Organization } from '../schema';
+import { eq, and } from 'drizzle-orm';
+import { ensureOwnerMembership } from '../lib/members';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+// The new owner must already be a member; the previous owner stays on the team as an admin
+export const transferOrganizationOwnership = async (organizationId: number, newOwnerId: number, actor: Actor | null = null): Promise<Organization> => {
+  try {
+    await ensureOwnerMembership(organizationId);
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    const organization = organizations[0];
+
+    if (organization.owner_id === newOwnerId) {
+      return organization;
+    }
+
+    const newOwnerMembers = await db.select({ id: organizationMembersTable.id })
+      .from(organizationMembersTable)
+      .where(
+        and(
+          eq(organizationMembersTable.organization_id, organizationId),
+          eq(organizationMembersTable.user_id, newOwnerId)
+        )
+      )
+      .execute();
+
+    if (newOwnerMembers.length === 0) {
+      throw new Error('User is not a member of this organization');
+    }
+
+    const updatedOrganization = await db.transaction(async (tx) => {
+      await tx.update(organizationMembersTable)
+        .set({ role: 'admin' })
+        .where(
+          and(
+            eq(organizationMembersTable.organization_id, organizationId),
+            eq(organizationMembersTable.user_id, organization.owner_id)
+          )
+        )
+        .execute();
+
+      await tx.update(organizationMembersTable)
+        .set({ role: 'owner' })
+        .where(eq(organizationMembersTable.id, newOwnerMembers[0].id))
+        .execute();
+
+      const result = await tx.update(organizationsTable)
+        .set({ owner_id: newOwnerId, updated_at: new Date() })
+        .where(eq(organizationsTable.id, organizationId))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    // The member role swap follows from the owner change, so one entry describes the whole transfer
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'organization',
+      entityId: organizationId,
+      action: 'update',
+      before: organization,
+      after: updatedOrganization
+    });
+
+    return updatedOrganization;
+  } catch (error) {
+    console.error('Ownership transfer failed:', error);
+    throw error;
+  }
+};
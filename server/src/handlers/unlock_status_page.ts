@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { statusPagesTable, statusPagePasswordsTable, statusPageSessionsTable } from '../db/schema';
+import { type UnlockStatusPageResult } from '../schema';
+import { generateToken, hashToken, PAGE_SESSION_TTL_MS } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+// Opens a private page for whoever knows its password. The session only unlocks this one page.
+export const unlockStatusPage = async (slug: string, password: string): Promise<UnlockStatusPageResult> => {
+  try {
+    const pages = await db.select({ id: statusPagesTable.id, password_hash: statusPagePasswordsTable.password_hash })
+      .from(statusPagesTable)
+      .leftJoin(statusPagePasswordsTable, eq(statusPagePasswordsTable.status_page_id, statusPagesTable.id))
+      .where(eq(statusPagesTable.slug, slug))
+      .execute();
+
+    if (pages.length === 0) {
+      throw new Error('Status page not found');
+    }
+
+    // Pages without a password can only be opened by address or membership
+    const { id, password_hash } = pages[0];
+    if (!password_hash || !(await Bun.password.verify(password, password_hash))) {
+      throw new Error('Incorrect page password');
+    }
+
+    const token = generateToken();
+    const expires_at = new Date(Date.now() + PAGE_SESSION_TTL_MS);
+
+    await db.insert(statusPageSessionsTable)
+      .values({ status_page_id: id, token_hash: hashToken(token), expires_at })
+      .execute();
+
+    return { status_page_id: id, token, expires_at };
+  } catch (error) {
+    console.error('Status page unlock failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { subscribersTable, subscriberComponentsTable, statusPagesTable } from '../db/schema';
+import { verifySignedToken } from '../lib/auth';
+import { recordAuditEvent } from '../lib/audit';
+import { UNSUBSCRIBE_PURPOSE } from '../lib/subscribers';
+import { eq } from 'drizzle-orm';
+
+// Mail clients may send the one-click request more than once, so an already removed subscriber is not an error
+export const unsubscribe = async (token: string): Promise<boolean> => {
+  try {
+    const subscriberId = verifySignedToken(token, UNSUBSCRIBE_PURPOSE);
+    if (subscriberId === null) {
+      throw new Error('Invalid or expired unsubscribe link');
+    }
+
+    const subscribers = await db.select({ subscriber: subscribersTable, organizationId: statusPagesTable.organization_id })
+      .from(subscribersTable)
+      .innerJoin(statusPagesTable, eq(subscribersTable.status_page_id, statusPagesTable.id))
+      .where(eq(subscribersTable.id, subscriberId))
+      .execute();
+
+    await db.delete(subscriberComponentsTable)
+      .where(eq(subscriberComponentsTable.subscriber_id, subscriberId))
+      .execute();
+
+    const deleted = await db.delete(subscribersTable)
+      .where(eq(subscribersTable.id, subscriberId))
+      .returning()
+      .execute();
+
+    // The subscriber made the change through their link, so no user is recorded
+    if (subscribers.length > 0 && deleted.length > 0) {
+      await recordAuditEvent(null, {
+        organizationId: subscribers[0].organizationId,
+        entityType: 'subscriber',
+        entityId: subscriberId,
+        action: 'delete',
+        before: subscribers[0].subscriber
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Unsubscribe failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { chatIntegrationsTable, statusPagesTable } from '../db/schema';
+import { type ChatIntegration, type UpdateChatIntegrationInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { chatIntegrationConfigError, withoutChatCredentials } from '../lib/chat_notifications';
+import { type Actor } from '../lib/permissions';
+
+// Credentials left out of the input are kept, so they never need to be sent back to the browser
+export const updateChatIntegration = async (input: UpdateChatIntegrationInput, actor: Actor | null = null): Promise<ChatIntegration> => {
+  try {
+    const existingIntegrations = await db.select({ integration: chatIntegrationsTable, organizationId: statusPagesTable.organization_id })
+      .from(chatIntegrationsTable)
+      .innerJoin(statusPagesTable, eq(chatIntegrationsTable.status_page_id, statusPagesTable.id))
+      .where(eq(chatIntegrationsTable.id, input.id))
+      .execute();
+
+    if (existingIntegrations.length === 0) {
+      throw new Error(`Chat integration with id ${input.id} not found`);
+    }
+
+    const { integration: existing, organizationId } = existingIntegrations[0];
+
+    const updateData: Partial<typeof chatIntegrationsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+    if (input.webhook_url !== undefined) {
+      updateData.webhook_url = input.webhook_url;
+    }
+    if (input.bot_token !== undefined && existing.provider === 'slack') {
+      updateData.bot_token = input.bot_token;
+    }
+    if (input.channel !== undefined && existing.provider === 'slack') {
+      updateData.channel = input.channel;
+    }
+    if (input.is_active !== undefined) {
+      updateData.is_active = input.is_active;
+    }
+
+    const configError = chatIntegrationConfigError({ ...existing, ...updateData });
+    if (configError) {
+      throw new Error(configError);
+    }
+
+    const result = await db.update(chatIntegrationsTable)
+      .set(updateData)
+      .where(eq(chatIntegrationsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'chat_integration',
+      entityId: input.id,
+      action: 'update',
+      before: withoutChatCredentials(existing),
+      after: withoutChatCredentials(result[0])
+    });
+
+    return withoutChatCredentials(result[0]);
+  } catch (error) {
+    console.error('Chat integration update failed:', error);
+    throw error;
+  }
+};
@@ -2,8 +2,11 @@ import { db } from '../db';
 import { componentsTable } from '../db/schema';
 import { type UpdateComponentInput, type Component } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { recordComponentStatusChange } from '../lib/component_history';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
 
-export const updateComponent = async (input: UpdateComponentInput): Promise<Component> => {
+export const updateComponent = async (input: UpdateComponentInput, actor: Actor | null = null): Promise<Component> => {
   try {
     // Verify component exists first
     const existingComponent = await db.select()
@@ -43,6 +46,18 @@ export const updateComponent = async (input: UpdateComponentInput): Promise<Comp
       .returning()
       .execute();
 
+    await recordComponentStatusChange(input.id, existingComponent[0].status, result[0].status, { source: 'component' }, result[0].updated_at);
+
+    const scope = await resolveTargetScope({ componentId: input.id });
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'component',
+      entityId: input.id,
+      action: 'update',
+      before: existingComponent[0],
+      after: result[0]
+    });
+
     return result[0];
   } catch (error) {
     console.error('Component update failed:', error);
@@ -1,10 +1,18 @@
 import { db } from '../db';
-import { incidentsTable } from '../db/schema';
+import { incidentsTable, incidentAffectedComponentsTable } from '../db/schema';
 import { type UpdateIncidentInput, type Incident } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { emitWebhookEvent, incidentEventData } from '../lib/webhooks';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
 
-export const updateIncident = async (input: UpdateIncidentInput): Promise<Incident> => {
+export const updateIncident = async (input: UpdateIncidentInput, actor: Actor | null = null): Promise<Incident> => {
   try {
+    const existingIncidents = await db.select()
+      .from(incidentsTable)
+      .where(eq(incidentsTable.id, input.id))
+      .execute();
+
     // Build the update values object dynamically
     const updateValues: any = {
       updated_at: new Date()
@@ -42,6 +50,26 @@ export const updateIncident = async (input: UpdateIncidentInput): Promise<Incide
       throw new Error(`Incident with id ${input.id} not found`);
     }
 
+    const scope = await resolveTargetScope({ incidentId: input.id });
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'incident',
+      entityId: input.id,
+      action: 'update',
+      before: existingIncidents[0],
+      after: result[0]
+    });
+
+    const affected = await db.select({ component_id: incidentAffectedComponentsTable.component_id })
+      .from(incidentAffectedComponentsTable)
+      .where(eq(incidentAffectedComponentsTable.incident_id, input.id))
+      .execute();
+
+    const resolved = result[0].status === 'resolved' && existingIncidents[0]?.status !== 'resolved';
+    await emitWebhookEvent(result[0].status_page_id, resolved ? 'incident.resolved' : 'incident.updated', {
+      incident: incidentEventData(result[0], affected.map(a => a.component_id))
+    });
+
     return result[0];
   } catch (error) {
     console.error('Incident update failed:', error);
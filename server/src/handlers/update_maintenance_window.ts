@@ -1,10 +1,31 @@
 import { db } from '../db';
-import { maintenanceWindowsTable } from '../db/schema';
+import { maintenanceWindowsTable, maintenanceAffectedComponentsTable } from '../db/schema';
 import { type UpdateMaintenanceWindowInput, type MaintenanceWindow } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { setComponentStatuses } from '../lib/component_history';
+import { type Actor, resolveTargetScope } from '../lib/permissions';
+import { maintenanceNotification } from '../lib/subscribers';
+import { emitWebhookEvent, maintenanceEventData } from '../lib/webhooks';
+import { maintenanceChatNotification } from '../lib/chat_notifications';
+import { maintenanceSmsNotification } from '../lib/sms_notifications';
+import { queueStatusPageNotifications } from '../lib/notifications';
 
-export const updateMaintenanceWindow = async (input: UpdateMaintenanceWindowInput): Promise<MaintenanceWindow> => {
+const affectedComponentIds = async (maintenanceWindowId: number): Promise<number[]> => {
+  const affected = await db.select({ component_id: maintenanceAffectedComponentsTable.component_id })
+    .from(maintenanceAffectedComponentsTable)
+    .where(eq(maintenanceAffectedComponentsTable.maintenance_window_id, maintenanceWindowId))
+    .execute();
+  return affected.map(a => a.component_id);
+};
+
+export const updateMaintenanceWindow = async (input: UpdateMaintenanceWindowInput, actor: Actor | null = null): Promise<MaintenanceWindow> => {
   try {
+    const existingWindows = await db.select()
+      .from(maintenanceWindowsTable)
+      .where(eq(maintenanceWindowsTable.id, input.id))
+      .execute();
+
     // Prepare update object with provided fields
     const updateData: Partial<typeof maintenanceWindowsTable.$inferInsert> = {
       updated_at: new Date()
@@ -51,6 +72,19 @@ export const updateMaintenanceWindow = async (input: UpdateMaintenanceWindowInpu
       }
     }
 
+    // Calendars only replace an event they already hold when its SEQUENCE grows
+    const existing = existingWindows[0];
+    if (existing) {
+      const rescheduled =
+        (updateData.scheduled_start !== undefined && updateData.scheduled_start.getTime() !== existing.scheduled_start.getTime()) ||
+        (updateData.scheduled_end !== undefined && updateData.scheduled_end.getTime() !== existing.scheduled_end.getTime());
+      const cancellationChanged =
+        updateData.status !== undefined && (updateData.status === 'cancelled') !== (existing.status === 'cancelled');
+      if (rescheduled || cancellationChanged) {
+        updateData.sequence = existing.sequence + 1;
+      }
+    }
+
     // Update maintenance window record
     const result = await db.update(maintenanceWindowsTable)
       .set(updateData)
@@ -62,6 +96,49 @@ export const updateMaintenanceWindow = async (input: UpdateMaintenanceWindowInpu
       throw new Error(`Maintenance window with id ${input.id} not found`);
     }
 
+    // Affected components are under maintenance while the window runs
+    if (existing && updateData.status !== undefined && updateData.status !== existing.status) {
+      const cause = { source: 'maintenance' as const, sourceId: input.id };
+      if (updateData.status === 'in_progress') {
+        await setComponentStatuses(await affectedComponentIds(input.id), 'under_maintenance', cause);
+      } else if (existing.status === 'in_progress') {
+        await setComponentStatuses(await affectedComponentIds(input.id), 'operational', cause, 'under_maintenance');
+      }
+    }
+
+    const scope = await resolveTargetScope({ statusPageId: result[0].status_page_id });
+    await recordAuditEvent(actor, {
+      organizationId: scope!.organizationId,
+      entityType: 'maintenance_window',
+      entityId: input.id,
+      action: 'update',
+      before: existingWindows[0],
+      after: result[0]
+    });
+
+    if (existing && updateData.status !== undefined && updateData.status !== existing.status) {
+      const componentIds = await affectedComponentIds(input.id);
+      // Email subscribers hear when maintenance starts, texts also go out when it completes,
+      // and chat channels hear about every transition in the thread of the scheduled maintenance
+      await queueStatusPageNotifications(scope!.organizationId, result[0].status_page_id, {
+        affectedComponentIds: componentIds,
+        subscribers: updateData.status === 'in_progress' ? maintenanceNotification(result[0], 'started') : undefined,
+        chat: maintenanceChatNotification(result[0], componentIds),
+        sms: updateData.status === 'in_progress' ? maintenanceSmsNotification(result[0], 'started')
+          : updateData.status === 'completed' ? maintenanceSmsNotification(result[0], 'completed')
+            : undefined
+      });
+    }
+
+    if (existing && updateData.status !== undefined && updateData.status !== existing.status &&
+      (updateData.status === 'in_progress' || updateData.status === 'completed')) {
+      await emitWebhookEvent(
+        result[0].status_page_id,
+        updateData.status === 'in_progress' ? 'maintenance.started' : 'maintenance.completed',
+        { maintenance_window: maintenanceEventData(result[0], await affectedComponentIds(input.id)) }
+      );
+    }
+
     return result[0];
   } catch (error) {
     console.error('Maintenance window update failed:', error);
@@ -0,0 +1,81 @@
+import { db } from '../db';
+import { organizationsTable, organizationMembersTable } from '../db/schema';
+import { type OrganizationMember, type UserRole } from '../schema';
+import { eq, and, ne, asc } from 'drizzle-orm';
+import { ensureOwnerMembership } from '../lib/members';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const updateMemberRole = async (organizationId: number, userId: number, role: UserRole, actor: Actor | null = null): Promise<OrganizationMember> => {
+  try {
+    await ensureOwnerMembership(organizationId);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(
+        and(
+          eq(organizationMembersTable.organization_id, organizationId),
+          eq(organizationMembersTable.user_id, userId)
+        )
+      )
+      .execute();
+
+    if (members.length === 0) {
+      throw new Error('User is not a member of this organization');
+    }
+
+    const member = members[0];
+
+    if (member.role === role) {
+      return member;
+    }
+
+    const updatedMember = await db.transaction(async (tx) => {
+      // Demoting an owner: another owner must remain, and owner_id moves to them if needed
+      if (member.role === 'owner') {
+        const otherOwners = await tx.select({ user_id: organizationMembersTable.user_id })
+          .from(organizationMembersTable)
+          .where(
+            and(
+              eq(organizationMembersTable.organization_id, organizationId),
+              eq(organizationMembersTable.role, 'owner'),
+              ne(organizationMembersTable.user_id, userId)
+            )
+          )
+          .orderBy(asc(organizationMembersTable.created_at), asc(organizationMembersTable.id))
+          .execute();
+
+        if (otherOwners.length === 0) {
+          throw new Error('Cannot change the role of the last owner of an organization');
+        }
+
+        await tx.update(organizationsTable)
+          .set({ owner_id: otherOwners[0].user_id, updated_at: new Date() })
+          .where(and(eq(organizationsTable.id, organizationId), eq(organizationsTable.owner_id, userId)))
+          .execute();
+      }
+
+      const result = await tx.update(organizationMembersTable)
+        .set({ role })
+        .where(eq(organizationMembersTable.id, member.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'member',
+      entityId: member.id,
+      action: 'update',
+      before: member,
+      after: updatedMember
+    });
+
+    return updatedMember;
+  } catch (error) {
+    console.error('Member role update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { organizationsTable } from '../db/schema';
+import { type UpdateOrganizationPlanInput, type Organization } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+export const updateOrganizationPlan = async (input: UpdateOrganizationPlanInput, actor: Actor | null = null): Promise<Organization> => {
+  try {
+    const existingOrganizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.id))
+      .execute();
+
+    const result = await db.update(organizationsTable)
+      .set({
+        plan_type: input.plan_type,
+        updated_at: new Date()
+      })
+      .where(eq(organizationsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Organization with id ${input.id} not found`);
+    }
+
+    await recordAuditEvent(actor, {
+      organizationId: input.id,
+      entityType: 'organization',
+      entityId: input.id,
+      action: 'update',
+      before: existingOrganizations[0],
+      after: result[0]
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Organization plan update failed:', error);
+    throw error;
+  }
+};
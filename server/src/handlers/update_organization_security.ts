@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { organizationsTable } from '../db/schema';
+import { type UpdateOrganizationSecurityInput, type Organization } from '../schema';
+import { isTwoFactorEnabled } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+
+export const updateOrganizationSecurity = async (input: UpdateOrganizationSecurityInput, actorUserId: number): Promise<Organization> => {
+  try {
+    // Otherwise the caller would immediately lock themselves out of every change, including undoing this one
+    if (input.require_two_factor && !(await isTwoFactorEnabled(actorUserId))) {
+      throw new Error('Enable two-factor authentication on your own account before requiring it');
+    }
+
+    const existingOrganizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.id))
+      .execute();
+
+    const result = await db.update(organizationsTable)
+      .set({
+        require_two_factor: input.require_two_factor,
+        updated_at: new Date()
+      })
+      .where(eq(organizationsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Organization with id ${input.id} not found`);
+    }
+
+    await recordAuditEvent({ userId: actorUserId, apiKey: null }, {
+      organizationId: input.id,
+      entityType: 'organization',
+      entityId: input.id,
+      action: 'update',
+      before: existingOrganizations[0],
+      after: result[0]
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Organization security update failed:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,18 @@
 import { db } from '../db';
-import { statusPagesTable } from '../db/schema';
+import { statusPagesTable, organizationsTable } from '../db/schema';
 import { type UpdateStatusPageInput, type StatusPage } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import {
+  assertCustomDomainAllowed,
+  assertCustomDomainAvailable,
+  normalizeCustomDomain,
+  generateDomainVerificationToken
+} from '../lib/custom_domains';
+import { normalizePageLocales } from '../lib/locales';
 
-export const updateStatusPage = async (input: UpdateStatusPageInput): Promise<StatusPage> => {
+export const updateStatusPage = async (input: UpdateStatusPageInput, actor: Actor | null = null): Promise<StatusPage> => {
   try {
     // Check if status page exists
     const existingStatusPages = await db.select()
@@ -27,7 +36,23 @@ export const updateStatusPage = async (input: UpdateStatusPageInput): Promise<St
       updateData['description'] = input.description;
     }
     if (input.custom_domain !== undefined) {
-      updateData['custom_domain'] = input.custom_domain;
+      const customDomain = input.custom_domain ? normalizeCustomDomain(input.custom_domain) : null;
+
+      // A new domain has to be verified again with a fresh token
+      if (customDomain !== existingStatusPages[0].custom_domain) {
+        if (customDomain) {
+          const organizations = await db.select({ plan_type: organizationsTable.plan_type })
+            .from(organizationsTable)
+            .where(eq(organizationsTable.id, existingStatusPages[0].organization_id))
+            .execute();
+          assertCustomDomainAllowed(organizations[0].plan_type);
+          await assertCustomDomainAvailable(customDomain, input.id);
+        }
+
+        updateData['custom_domain'] = customDomain;
+        updateData['custom_domain_verification_token'] = customDomain ? generateDomainVerificationToken() : null;
+        updateData['custom_domain_verified_at'] = null;
+      }
     }
     if (input.branding_logo_url !== undefined) {
       updateData['branding_logo_url'] = input.branding_logo_url;
@@ -41,6 +66,11 @@ export const updateStatusPage = async (input: UpdateStatusPageInput): Promise<St
     if (input.is_public !== undefined) {
       updateData['is_public'] = input.is_public;
     }
+    if (input.default_locale !== undefined || input.enabled_locales !== undefined) {
+      const defaultLocale = input.default_locale ?? existingStatusPages[0].default_locale;
+      updateData['default_locale'] = defaultLocale;
+      updateData['enabled_locales'] = normalizePageLocales(defaultLocale, input.enabled_locales ?? existingStatusPages[0].enabled_locales);
+    }
 
     // Update the status page
     const result = await db.update(statusPagesTable)
@@ -49,6 +79,15 @@ export const updateStatusPage = async (input: UpdateStatusPageInput): Promise<St
       .returning()
       .execute();
 
+    await recordAuditEvent(actor, {
+      organizationId: result[0].organization_id,
+      entityType: 'status_page',
+      entityId: input.id,
+      action: 'update',
+      before: existingStatusPages[0],
+      after: result[0]
+    });
+
     return result[0];
   } catch (error) {
     console.error('Status page update failed:', error);
@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { statusPagesTable, statusPagePasswordsTable, statusPageSessionsTable } from '../db/schema';
+import { type StatusPageAccess, type UpdateStatusPageAccessInput } from '../schema';
+import { normalizeIpAllowlist } from '../lib/page_access';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import { eq } from 'drizzle-orm';
+import { getStatusPageAccess } from './get_status_page_access';
+
+// Sets or removes the page password and replaces the IP allowlist. These only matter while the page is private.
+export const updateStatusPageAccess = async (
+  input: UpdateStatusPageAccessInput,
+  actor: Actor | null = null
+): Promise<StatusPageAccess> => {
+  try {
+    const pages = await db.select()
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.id, input.status_page_id))
+      .execute();
+
+    if (pages.length === 0) {
+      throw new Error(`Status page with ID ${input.status_page_id} not found`);
+    }
+
+    const before = await getStatusPageAccess(input.status_page_id);
+
+    if (input.ip_allowlist !== undefined) {
+      await db.update(statusPagesTable)
+        .set({ access_ip_allowlist: normalizeIpAllowlist(input.ip_allowlist), updated_at: new Date() })
+        .where(eq(statusPagesTable.id, input.status_page_id))
+        .execute();
+    }
+
+    if (input.password !== undefined) {
+      // Whoever unlocked the page with the previous password has to enter the new one
+      await db.delete(statusPageSessionsTable)
+        .where(eq(statusPageSessionsTable.status_page_id, input.status_page_id))
+        .execute();
+
+      if (input.password === null) {
+        await db.delete(statusPagePasswordsTable)
+          .where(eq(statusPagePasswordsTable.status_page_id, input.status_page_id))
+          .execute();
+      } else {
+        const password_hash = await Bun.password.hash(input.password);
+        await db.insert(statusPagePasswordsTable)
+          .values({ status_page_id: input.status_page_id, password_hash })
+          .onConflictDoUpdate({
+            target: statusPagePasswordsTable.status_page_id,
+            set: { password_hash, updated_at: new Date() }
+          })
+          .execute();
+      }
+    }
+
+    const after = await getStatusPageAccess(input.status_page_id);
+
+    await recordAuditEvent(actor, {
+      organizationId: pages[0].organization_id,
+      entityType: 'status_page',
+      entityId: input.status_page_id,
+      action: 'update',
+      before,
+      after
+    });
+
+    return after;
+  } catch (error) {
+    console.error('Status page access update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { subscribersTable, subscriberComponentsTable, statusPagesTable } from '../db/schema';
+import { type SubscriptionPreferences, type UpdateSubscriptionPreferencesInput } from '../schema';
+import { verifySignedToken } from '../lib/auth';
+import { recordAuditEvent } from '../lib/audit';
+import { SUBSCRIPTION_PREFERENCES_PURPOSE, setSubscriberComponents } from '../lib/subscribers';
+import { getSubscriptionPreferences } from './get_subscription_preferences';
+import { eq } from 'drizzle-orm';
+
+const chosenComponentIds = async (subscriberId: number): Promise<number[]> => {
+  const choices = await db.select({ component_id: subscriberComponentsTable.component_id })
+    .from(subscriberComponentsTable)
+    .where(eq(subscriberComponentsTable.subscriber_id, subscriberId))
+    .execute();
+  return choices.map(choice => choice.component_id).sort((a, b) => a - b);
+};
+
+// Choosing no components subscribes to all of them
+export const updateSubscriptionPreferences = async (input: UpdateSubscriptionPreferencesInput): Promise<SubscriptionPreferences> => {
+  try {
+    const subscriberId = verifySignedToken(input.token, SUBSCRIPTION_PREFERENCES_PURPOSE);
+    if (subscriberId === null) {
+      throw new Error('Invalid or expired preferences link');
+    }
+
+    const subscribers = await db.select({ subscriber: subscribersTable, organizationId: statusPagesTable.organization_id })
+      .from(subscribersTable)
+      .innerJoin(statusPagesTable, eq(subscribersTable.status_page_id, statusPagesTable.id))
+      .where(eq(subscribersTable.id, subscriberId))
+      .execute();
+
+    if (subscribers.length === 0) {
+      throw new Error('Invalid or expired preferences link');
+    }
+
+    const { subscriber, organizationId } = subscribers[0];
+    const before = await chosenComponentIds(subscriberId);
+    await setSubscriberComponents(subscriberId, subscriber.status_page_id, input.component_ids);
+
+    // Recorded as a system change, since subscribers are not users
+    await recordAuditEvent(null, {
+      organizationId,
+      entityType: 'subscriber',
+      entityId: subscriberId,
+      action: 'update',
+      before: { ...subscriber, component_ids: before },
+      after: { ...subscriber, component_ids: await chosenComponentIds(subscriberId) }
+    });
+
+    return getSubscriptionPreferences(input.token);
+  } catch (error) {
+    console.error('Subscription preferences update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { webhookEndpointsTable } from '../db/schema';
+import { type UpdateWebhookEndpointInput, type WebhookEndpoint } from '../schema';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+
+// Deliveries to a disabled endpoint wait, and resume on their schedule once it is enabled again
+export const updateWebhookEndpoint = async (input: UpdateWebhookEndpointInput, actor: Actor | null = null): Promise<WebhookEndpoint> => {
+  try {
+    const existingEndpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, input.id))
+      .execute();
+
+    const updateData: Partial<typeof webhookEndpointsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.url !== undefined) {
+      updateData.url = input.url;
+    }
+    if (input.description !== undefined) {
+      updateData.description = input.description;
+    }
+    if (input.event_types !== undefined) {
+      updateData.event_types = [...new Set(input.event_types)];
+    }
+    if (input.is_active !== undefined) {
+      updateData.is_active = input.is_active;
+    }
+
+    const result = await db.update(webhookEndpointsTable)
+      .set(updateData)
+      .where(eq(webhookEndpointsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Webhook endpoint with id ${input.id} not found`);
+    }
+
+    const { secret, ...webhookEndpoint } = result[0];
+
+    await recordAuditEvent(actor, {
+      organizationId: webhookEndpoint.organization_id,
+      entityType: 'webhook_endpoint',
+      entityId: input.id,
+      action: 'update',
+      before: existingEndpoints[0],
+      after: result[0]
+    });
+
+    return webhookEndpoint;
+  } catch (error) {
+    console.error('Webhook endpoint update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { incidentsTable, incidentTranslationsTable, statusPagesTable } from '../db/schema';
+import { type UpsertIncidentTranslationInput, type IncidentTranslation } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { assertTranslatableLocale, translationAuditSnapshot } from '../lib/locales';
+import { type Actor } from '../lib/permissions';
+
+export const upsertIncidentTranslation = async (
+  input: UpsertIncidentTranslationInput,
+  actor: Actor | null = null
+): Promise<IncidentTranslation> => {
+  try {
+    const incidents = await db.select({ page: statusPagesTable })
+      .from(incidentsTable)
+      .innerJoin(statusPagesTable, eq(incidentsTable.status_page_id, statusPagesTable.id))
+      .where(eq(incidentsTable.id, input.incident_id))
+      .execute();
+
+    if (incidents.length === 0) {
+      throw new Error(`Incident with id ${input.incident_id} not found`);
+    }
+
+    const { page } = incidents[0];
+    assertTranslatableLocale(page, input.locale);
+
+    const existing = await db.select()
+      .from(incidentTranslationsTable)
+      .where(and(eq(incidentTranslationsTable.incident_id, input.incident_id), eq(incidentTranslationsTable.locale, input.locale)))
+      .execute();
+
+    const result = await db.insert(incidentTranslationsTable)
+      .values({
+        incident_id: input.incident_id,
+        locale: input.locale,
+        title: input.title,
+        description: input.description
+      })
+      .onConflictDoUpdate({
+        target: [incidentTranslationsTable.incident_id, incidentTranslationsTable.locale],
+        set: { title: input.title, description: input.description, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: page.organization_id,
+      entityType: 'incident',
+      entityId: input.incident_id,
+      action: 'update',
+      before: translationAuditSnapshot(input.locale, existing[0]),
+      after: translationAuditSnapshot(input.locale, result[0])
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Incident translation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { incidentsTable, incidentUpdatesTable, incidentUpdateTranslationsTable, statusPagesTable } from '../db/schema';
+import { type UpsertIncidentUpdateTranslationInput, type IncidentUpdateTranslation } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { assertTranslatableLocale, translationAuditSnapshot } from '../lib/locales';
+import { type Actor } from '../lib/permissions';
+
+export const upsertIncidentUpdateTranslation = async (
+  input: UpsertIncidentUpdateTranslationInput,
+  actor: Actor | null = null
+): Promise<IncidentUpdateTranslation> => {
+  try {
+    const updates = await db.select({ page: statusPagesTable })
+      .from(incidentUpdatesTable)
+      .innerJoin(incidentsTable, eq(incidentUpdatesTable.incident_id, incidentsTable.id))
+      .innerJoin(statusPagesTable, eq(incidentsTable.status_page_id, statusPagesTable.id))
+      .where(eq(incidentUpdatesTable.id, input.incident_update_id))
+      .execute();
+
+    if (updates.length === 0) {
+      throw new Error(`Incident update with id ${input.incident_update_id} not found`);
+    }
+
+    const { page } = updates[0];
+    assertTranslatableLocale(page, input.locale);
+
+    const existing = await db.select()
+      .from(incidentUpdateTranslationsTable)
+      .where(and(
+        eq(incidentUpdateTranslationsTable.incident_update_id, input.incident_update_id),
+        eq(incidentUpdateTranslationsTable.locale, input.locale)
+      ))
+      .execute();
+
+    const result = await db.insert(incidentUpdateTranslationsTable)
+      .values({
+        incident_update_id: input.incident_update_id,
+        locale: input.locale,
+        title: input.title,
+        description: input.description
+      })
+      .onConflictDoUpdate({
+        target: [incidentUpdateTranslationsTable.incident_update_id, incidentUpdateTranslationsTable.locale],
+        set: { title: input.title, description: input.description, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId: page.organization_id,
+      entityType: 'incident_update',
+      entityId: input.incident_update_id,
+      action: 'update',
+      before: translationAuditSnapshot(input.locale, existing[0]),
+      after: translationAuditSnapshot(input.locale, result[0])
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Incident update translation failed:', error);
+    throw error;
+  }
+};
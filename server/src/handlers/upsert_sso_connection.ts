@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { organizationsTable, ssoConnectionsTable, ssoRoleMappingsTable } from '../db/schema';
+import { type UpsertSsoConnectionInput, type SsoConnection } from '../schema';
+import { getSsoConnection } from './get_sso_connection';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import { generateDomainVerificationToken } from '../lib/custom_domains';
+
+export const upsertSsoConnection = async (input: UpsertSsoConnectionInput, actor: Actor | null = null): Promise<SsoConnection> => {
+  try {
+    const organizations = await db.select({ plan_type: organizationsTable.plan_type })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, input.organization_id))
+      .execute();
+
+    if (organizations.length === 0) {
+      throw new Error('Organization not found');
+    }
+
+    if (organizations[0].plan_type !== 'enterprise') {
+      throw new Error('Single sign-on requires the enterprise plan');
+    }
+
+    const existing = await db.select({ id: ssoConnectionsTable.id })
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.organization_id, input.organization_id))
+      .execute();
+
+    if (existing.length === 0 && !input.client_secret) {
+      throw new Error('A client secret is required');
+    }
+
+    const previous = await getSsoConnection(input.organization_id);
+
+    const allowedDomains = [...new Set(input.allowed_domains)];
+
+    const values = {
+      issuer: input.issuer.replace(/\/$/, ''),
+      client_id: input.client_id,
+      allowed_domains: allowedDomains,
+      // Removing a domain drops its verification, so adding it back means verifying it again
+      verified_domains: (previous?.verified_domains ?? []).filter(domain => allowedDomains.includes(domain)),
+      default_role: input.default_role,
+      groups_claim: input.groups_claim,
+      is_enabled: input.is_enabled,
+      updated_at: new Date()
+    };
+
+    await db.transaction(async (tx) => {
+      let connectionId: number;
+
+      if (existing.length === 0) {
+        const result = await tx.insert(ssoConnectionsTable)
+          .values({
+            ...values,
+            organization_id: input.organization_id,
+            client_secret: input.client_secret!,
+            domain_verification_token: generateDomainVerificationToken()
+          })
+          .returning()
+          .execute();
+        connectionId = result[0].id;
+      } else {
+        connectionId = existing[0].id;
+        await tx.update(ssoConnectionsTable)
+          .set(input.client_secret ? { ...values, client_secret: input.client_secret } : values)
+          .where(eq(ssoConnectionsTable.id, connectionId))
+          .execute();
+      }
+
+      // Role mappings are replaced wholesale on every save
+      await tx.delete(ssoRoleMappingsTable)
+        .where(eq(ssoRoleMappingsTable.sso_connection_id, connectionId))
+        .execute();
+
+      if (input.role_mappings.length > 0) {
+        await tx.insert(ssoRoleMappingsTable)
+          .values(input.role_mappings.map(mapping => ({
+            sso_connection_id: connectionId,
+            group_name: mapping.group,
+            role: mapping.role
+          })))
+          .execute();
+      }
+    });
+
+    const connection = (await getSsoConnection(input.organization_id))!;
+
+    await recordAuditEvent(actor, {
+      organizationId: input.organization_id,
+      entityType: 'sso_connection',
+      entityId: connection.id,
+      action: previous ? 'update' : 'create',
+      before: previous,
+      // A new secret is worth knowing about even though its value is never recorded
+      after: previous && input.client_secret ? { ...connection, client_secret_rotated: true } : connection
+    });
+
+    return connection;
+  } catch (error) {
+    console.error('SSO connection update failed:', error);
+    throw error;
+  }
+};
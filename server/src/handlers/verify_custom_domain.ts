@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { statusPagesTable, organizationsTable } from '../db/schema';
+import { type StatusPage } from '../schema';
+import { and, eq, ne, isNull, inArray } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import {
+  assertCustomDomainAllowed,
+  assertCustomDomainAvailable,
+  customDomainChallengeName,
+  customDomainChallengeValue,
+  hasCustomDomainChallenge
+} from '../lib/custom_domains';
+
+// Checks the page's TXT challenge and marks its custom domain as verified, after which it starts serving the page.
+// Proving ownership takes the domain over from any other page that claimed it without verifying it.
+export const verifyCustomDomain = async (statusPageId: number, actor: Actor | null = null): Promise<StatusPage> => {
+  try {
+    const results = await db.select({ statusPage: statusPagesTable, organization: organizationsTable })
+      .from(statusPagesTable)
+      .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Status page with ID ${statusPageId} not found`);
+    }
+
+    const { statusPage, organization } = results[0];
+
+    if (!statusPage.custom_domain || !statusPage.custom_domain_verification_token) {
+      throw new Error('Status page has no custom domain to verify');
+    }
+
+    assertCustomDomainAllowed(organization.plan_type);
+
+    if (statusPage.custom_domain_verified_at) {
+      return statusPage;
+    }
+
+    const verified = await hasCustomDomainChallenge(statusPage.custom_domain, statusPage.custom_domain_verification_token);
+    if (!verified) {
+      throw new Error(
+        `TXT record ${customDomainChallengeName(statusPage.custom_domain)} with value ` +
+        `"${customDomainChallengeValue(statusPage.custom_domain_verification_token)}" was not found`
+      );
+    }
+
+    await assertCustomDomainAvailable(statusPage.custom_domain, statusPageId);
+
+    const customDomain = statusPage.custom_domain;
+    const { result, released } = await db.transaction(async (tx) => {
+      const released = await tx.select()
+        .from(statusPagesTable)
+        .where(and(
+          eq(statusPagesTable.custom_domain, customDomain),
+          isNull(statusPagesTable.custom_domain_verified_at),
+          ne(statusPagesTable.id, statusPageId)
+        ))
+        .for('update')
+        .execute();
+
+      if (released.length > 0) {
+        await tx.update(statusPagesTable)
+          .set({ custom_domain: null, custom_domain_verification_token: null, updated_at: new Date() })
+          .where(inArray(statusPagesTable.id, released.map(page => page.id)))
+          .execute();
+      }
+
+      // The partial unique index on verified domains stops two pages verifying the same domain at once
+      const result = await tx.update(statusPagesTable)
+        .set({ custom_domain_verified_at: new Date(), updated_at: new Date() })
+        .where(eq(statusPagesTable.id, statusPageId))
+        .returning()
+        .execute();
+
+      return { result, released };
+    });
+
+    // Released pages belong to other organizations, which must not learn who verified the domain
+    for (const page of released) {
+      await recordAuditEvent(null, {
+        organizationId: page.organization_id,
+        entityType: 'status_page',
+        entityId: page.id,
+        action: 'update',
+        before: page,
+        after: { ...page, custom_domain: null, custom_domain_verification_token: null }
+      });
+    }
+
+    await recordAuditEvent(actor, {
+      organizationId: statusPage.organization_id,
+      entityType: 'status_page',
+      entityId: statusPageId,
+      action: 'update',
+      before: statusPage,
+      after: result[0]
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Custom domain verification failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { verifySignedToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+export const verifyEmail = async (token: string): Promise<AuthUser> => {
+  try {
+    const userId = verifySignedToken(token, 'email_verification');
+    if (userId === null) {
+      throw new Error('Verification link is invalid or has expired');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('Verification link is invalid or has expired');
+    }
+
+    // Following the link again is harmless
+    if (users[0].email_verified_at !== null) {
+      const { password_hash, ...user } = users[0];
+      return user;
+    }
+
+    const result = await db.update(usersTable)
+      .set({ email_verified_at: new Date(), updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    const { password_hash, ...user } = result[0];
+    return user;
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { timingSafeEqual } from 'crypto';
+import { db } from '../db';
+import { smsSubscribersTable } from '../db/schema';
+import { findViewableStatusPage, type PageViewer } from '../lib/page_access';
+import { hashToken, SMS_VERIFICATION_MAX_ATTEMPTS } from '../lib/auth';
+import { type VerifySmsSubscriptionInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Every wrong, expired or used-up code gets the same answer; entering the code again after verifying is not an error
+export const verifySmsSubscription = async (
+  slug: string,
+  input: Pick<VerifySmsSubscriptionInput, 'phone_number' | 'code'>,
+  viewer: PageViewer | null = null
+): Promise<boolean> => {
+  try {
+    const { page } = await findViewableStatusPage(slug, viewer);
+
+    const subscribers = await db.select()
+      .from(smsSubscribersTable)
+      .where(and(eq(smsSubscribersTable.status_page_id, page.id), eq(smsSubscribersTable.phone_number, input.phone_number)))
+      .execute();
+
+    const subscriber = subscribers[0];
+    if (subscriber?.verified_at) {
+      return true;
+    }
+
+    if (
+      !subscriber ||
+      !subscriber.verification_code_hash ||
+      !subscriber.verification_expires_at ||
+      subscriber.verification_expires_at <= new Date() ||
+      subscriber.verification_attempts >= SMS_VERIFICATION_MAX_ATTEMPTS
+    ) {
+      throw new Error('Invalid or expired verification code');
+    }
+
+    await db.update(smsSubscribersTable)
+      .set({ verification_attempts: subscriber.verification_attempts + 1 })
+      .where(eq(smsSubscribersTable.id, subscriber.id))
+      .execute();
+
+    const expected = Buffer.from(subscriber.verification_code_hash);
+    const actual = Buffer.from(hashToken(`${subscriber.id}:${input.code}`));
+    if (!timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid or expired verification code');
+    }
+
+    await db.update(smsSubscribersTable)
+      .set({ verified_at: new Date(), verification_code_hash: null, verification_expires_at: null })
+      .where(eq(smsSubscribersTable.id, subscriber.id))
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('SMS subscription verification failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { ssoConnectionsTable } from '../db/schema';
+import { type SsoConnection } from '../schema';
+import { getSsoConnection } from './get_sso_connection';
+import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from '../lib/audit';
+import { type Actor } from '../lib/permissions';
+import { customDomainChallengeName, customDomainChallengeValue, hasCustomDomainChallenge } from '../lib/custom_domains';
+
+// Checks the connection's TXT challenge on one of its allowed domains. Until a domain is verified, the identity
+// provider cannot sign in, link or provision accounts with it, so an organization cannot claim a domain it does not own.
+export const verifySsoDomain = async (organizationId: number, domain: string, actor: Actor | null = null): Promise<SsoConnection> => {
+  try {
+    const connections = await db.select()
+      .from(ssoConnectionsTable)
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    if (connections.length === 0) {
+      throw new Error('Single sign-on is not configured for this organization');
+    }
+
+    const connection = connections[0];
+    const normalized = domain.trim().toLowerCase();
+
+    if (!connection.allowed_domains.includes(normalized)) {
+      throw new Error(`${normalized} is not one of the allowed email domains`);
+    }
+
+    if (connection.verified_domains.includes(normalized)) {
+      return (await getSsoConnection(organizationId))!;
+    }
+
+    const verified = await hasCustomDomainChallenge(normalized, connection.domain_verification_token);
+    if (!verified) {
+      throw new Error(
+        `TXT record ${customDomainChallengeName(normalized)} with value ` +
+        `"${customDomainChallengeValue(connection.domain_verification_token)}" was not found`
+      );
+    }
+
+    const result = await db.update(ssoConnectionsTable)
+      .set({ verified_domains: [...connection.verified_domains, normalized], updated_at: new Date() })
+      .where(eq(ssoConnectionsTable.id, connection.id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      organizationId,
+      entityType: 'sso_connection',
+      entityId: connection.id,
+      action: 'update',
+      before: connection,
+      after: result[0]
+    });
+
+    return (await getSsoConnection(organizationId))!;
+  } catch (error) {
+    console.error('SSO domain verification failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type TwoFactorCodeInput, type LoginResult } from '../schema';
+import { generateToken, hashToken, SESSION_TTL_MS, TWO_FACTOR_MAX_ATTEMPTS } from '../lib/auth';
+import { verifySecondFactor } from '../lib/two_factor';
+import { eq, and, sql } from 'drizzle-orm';
+
+// Completes the second login step for a pending session and rotates its token into a full session
+export const verifyTwoFactorLogin = async (sessionToken: string, input: TwoFactorCodeInput): Promise<LoginResult> => {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(eq(sessionsTable.token_hash, hashToken(sessionToken)), eq(sessionsTable.two_factor_pending, true)))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    const { sessions: session, users } = results[0];
+
+    if (session.expires_at.getTime() <= Date.now() || !users.is_active) {
+      await db.delete(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    if (!(await verifySecondFactor(users.id, input.code))) {
+      const updated = await db.update(sessionsTable)
+        .set({ two_factor_attempts: sql`${sessionsTable.two_factor_attempts} + 1` })
+        .where(eq(sessionsTable.id, session.id))
+        .returning()
+        .execute();
+
+      // Too many wrong codes discards the challenge; the user has to start over with their password
+      if (updated.length > 0 && updated[0].two_factor_attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        await db.delete(sessionsTable)
+          .where(eq(sessionsTable.id, session.id))
+          .execute();
+      }
+
+      throw new Error('Invalid authentication code');
+    }
+
+    const token = generateToken();
+    const expires_at = new Date(Date.now() + SESSION_TTL_MS);
+
+    await db.update(sessionsTable)
+      .set({ token_hash: hashToken(token), expires_at, two_factor_pending: false, two_factor_attempts: 0 })
+      .where(eq(sessionsTable.id, session.id))
+      .execute();
+
+    const { password_hash, ...user } = users;
+    return { user, token, expires_at, two_factor_required: false };
+  } catch (error) {
+    console.error('Two-factor login verification failed:', error);
+    throw error;
+  }
+};
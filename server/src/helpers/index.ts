@@ -2,6 +2,7 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { runDueJobs } from '../lib/jobs';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -16,3 +17,10 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Runs queued jobs until none are due, for tests of work that handlers hand off to the job queue
+export const runQueuedJobs = async () => {
+  while (await runDueJobs() > 0) {
+    continue;
+  }
+};
@@ -0,0 +1,153 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import { allowPrivateHost } from '../lib/outbound_requests';
+
+export interface OidcTestUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  user: OidcTestUser;
+}
+
+export interface OidcProvider {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  // Claims for whoever signs in next
+  user: OidcTestUser;
+  // Extra or overridden ID token claims, e.g. a wrong audience
+  idTokenOverrides: Record<string, unknown>;
+  // Plays the browser: follows the authorization URL and returns the code and state sent back to the client
+  authorize: (authorizationUrl: string) => Promise<{ code: string; state: string }>;
+  close: () => Promise<void>;
+}
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+};
+
+const signJwt = (payload: Record<string, unknown>, privateKey: KeyObject, kid: string): string => {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+};
+
+// Minimal local OpenID Connect provider (discovery, JWKS, authorization code flow with PKCE) for tests
+export const startOidcProvider = async (): Promise<OidcProvider> => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+
+  const provider = {
+    issuer: '',
+    clientId: 'edgestatus-test-client',
+    clientSecret: randomBytes(16).toString('hex'),
+    user: { sub: 'user-1', email: 'user@example.com', email_verified: true } as OidcTestUser,
+    idTokenOverrides: {} as Record<string, unknown>
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', provider.issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: provider.issuer,
+        authorization_endpoint: `${provider.issuer}/authorize`,
+        token_endpoint: `${provider.issuer}/token`,
+        jwks_uri: `${provider.issuer}/jwks`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams;
+      if (params.get('client_id') !== provider.clientId || params.get('code_challenge_method') !== 'S256') {
+        return json(400, { error: 'invalid_request' });
+      }
+      const code = randomBytes(16).toString('hex');
+      codes.set(code, {
+        clientId: params.get('client_id')!,
+        redirectUri: params.get('redirect_uri')!,
+        nonce: params.get('nonce')!,
+        codeChallenge: params.get('code_challenge')!,
+        user: { ...provider.user }
+      });
+      const redirect = new URL(params.get('redirect_uri')!);
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', params.get('state')!);
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const form = new URLSearchParams(await readBody(req));
+      const [id, secret] = Buffer.from((req.headers.authorization ?? '').replace(/^Basic /, ''), 'base64').toString().split(':');
+      const pending = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+
+      if (decodeURIComponent(id ?? '') !== provider.clientId || decodeURIComponent(secret ?? '') !== provider.clientSecret) {
+        return json(401, { error: 'invalid_client' });
+      }
+      const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (!pending || form.get('redirect_uri') !== pending.redirectUri || challenge !== pending.codeChallenge) {
+        return json(400, { error: 'invalid_grant' });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = signJwt({
+        iss: provider.issuer,
+        aud: pending.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce,
+        ...pending.user,
+        ...provider.idTokenOverrides
+      }, privateKey, kid);
+
+      return json(200, { access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+    }
+
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // The only private address the identity provider requests may reach
+  allowPrivateHost(host);
+  provider.issuer = `http://${host}`;
+
+  return Object.assign(provider, {
+    authorize: async (authorizationUrl: string) => {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = new URL(response.headers.get('location')!);
+      return { code: location.searchParams.get('code')!, state: location.searchParams.get('state')! };
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  });
+};
@@ -0,0 +1,108 @@
+import { createServer, type AddressInfo, type Server } from 'net';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  // Lower-cased header names
+  headers: Record<string, string>;
+}
+
+export interface SmtpSink {
+  url: string;
+  messages: ReceivedMail[];
+  close: () => Promise<void>;
+}
+
+const decodeQuotedPrintable = (value: string): string => {
+  return value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+const parseMessage = (from: string, to: string[], raw: string): ReceivedMail => {
+  const separatorIndex = raw.indexOf('\r\n\r\n');
+  const headerBlock = raw.slice(0, separatorIndex).replace(/\r\n[ \t]+/g, ' ');
+  const body = raw.slice(separatorIndex + 4);
+
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.split('\r\n')) {
+    const colonIndex = line.indexOf(':');
+    headers[line.slice(0, colonIndex).toLowerCase()] = line.slice(colonIndex + 1).trim();
+  }
+
+  const encoding = headers['content-transfer-encoding']?.toLowerCase();
+  const text = encoding === 'quoted-printable'
+    ? decodeQuotedPrintable(body)
+    : encoding === 'base64'
+      ? Buffer.from(body, 'base64').toString()
+      : body;
+
+  return { from, to, subject: headers['subject'] ?? '', text: text.replace(/\r\n/g, '\n').trimEnd(), headers };
+};
+
+// Minimal local SMTP server that accepts every message and keeps it in memory for assertions
+export const startSmtpSink = async (): Promise<SmtpSink> => {
+  const messages: ReceivedMail[] = [];
+
+  const server: Server = createServer((socket) => {
+    let buffer = '';
+    let readingData = false;
+    let from = '';
+    let to: string[] = [];
+
+    socket.write('220 localhost SMTP sink\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      while (true) {
+        if (readingData) {
+          const endIndex = buffer.indexOf('\r\n.\r\n');
+          if (endIndex === -1) return;
+          const raw = buffer.slice(0, endIndex).replace(/\r\n\.\./g, '\r\n.');
+          buffer = buffer.slice(endIndex + 5);
+          readingData = false;
+          messages.push(parseMessage(from, to, raw));
+          socket.write('250 OK\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n');
+        } else if (command === 'MAIL') {
+          from = line.replace(/^MAIL FROM:\s*<?([^>]*)>?.*$/i, '$1');
+          to = [];
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          to.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, '$1'));
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          readingData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+          return;
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `smtp://127.0.0.1:${port}`,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+};
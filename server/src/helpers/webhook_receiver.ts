@@ -0,0 +1,56 @@
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { allowPrivateHost } from '../lib/outbound_requests';
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  requests: ReceivedRequest[];
+  // Status and body of the responses to come
+  responseStatus: number;
+  responseBody: string;
+  close: () => Promise<void>;
+}
+
+// Minimal local HTTP server that records every request it receives for assertions.
+// Its address is allowed for outbound requests, which otherwise refuse to reach loopback.
+export const startWebhookReceiver = async (): Promise<WebhookReceiver> => {
+  const receiver = {
+    url: '',
+    requests: [] as ReceivedRequest[],
+    responseStatus: 200,
+    responseBody: 'ok'
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value ?? '';
+    }
+
+    receiver.requests.push({ method: req.method ?? '', path: req.url ?? '/', headers, body });
+    res.writeHead(receiver.responseStatus, { 'Content-Type': 'text/plain' });
+    res.end(receiver.responseBody);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  allowPrivateHost(host);
+  receiver.url = `http://${host}`;
+
+  return Object.assign(receiver, {
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  });
+};
@@ -1,5 +1,5 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -8,22 +8,126 @@ import { z } from 'zod';
 // Import schema types
 import { 
   createUserInputSchema,
+  loginInputSchema,
   createOrganizationInputSchema,
   createStatusPageInputSchema,
   createComponentInputSchema,
   createIncidentInputSchema,
   createIncidentUpdateInputSchema,
   createMaintenanceWindowInputSchema,
+  updateOrganizationPlanInputSchema,
+  createApiKeyInputSchema,
+  createInvitationInputSchema,
+  acceptInvitationInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  changePasswordInputSchema,
+  twoFactorCodeInputSchema,
+  updateOrganizationSecurityInputSchema,
+  upsertSsoConnectionInputSchema,
+  getAuditLogInputSchema,
+  startSsoLoginInputSchema,
+  completeSsoLoginInputSchema,
   updateStatusPageInputSchema,
+  updateStatusPageAccessInputSchema,
+  unlockStatusPageInputSchema,
+  getIncidentHistoryInputSchema,
+  getPublicIncidentHistoryInputSchema,
+  subscribeInputSchema,
+  subscriptionTokenInputSchema,
+  updateSubscriptionPreferencesInputSchema,
+  subscribeSmsInputSchema,
+  verifySmsSubscriptionInputSchema,
+  setSmsRulesInputSchema,
+  upsertIncidentTranslationInputSchema,
+  upsertIncidentUpdateTranslationInputSchema,
+  deleteIncidentTranslationInputSchema,
   updateComponentInputSchema,
   updateIncidentInputSchema,
   updateMaintenanceWindowInputSchema,
+  createWebhookEndpointInputSchema,
+  updateWebhookEndpointInputSchema,
+  getWebhookDeliveriesInputSchema,
+  createChatIntegrationInputSchema,
+  updateChatIntegrationInputSchema,
+  getJobsInputSchema,
   userRoleSchema
 } from './schema';
 
 // Import handlers
 import { createUser } from './handlers/create_user';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { getSessionUser } from './handlers/get_session_user';
+import { sendVerificationEmail } from './handlers/send_verification_email';
+import { verifyEmail } from './handlers/verify_email';
+import { requestPasswordReset } from './handlers/request_password_reset';
+import { resetPassword } from './handlers/reset_password';
+import { changePassword } from './handlers/change_password';
+import { setUserActive } from './handlers/set_user_active';
+import { verifyTwoFactorLogin } from './handlers/verify_two_factor_login';
+import { startTwoFactorEnrollment } from './handlers/start_two_factor_enrollment';
+import { confirmTwoFactorEnrollment } from './handlers/confirm_two_factor_enrollment';
+import { disableTwoFactor } from './handlers/disable_two_factor';
+import { regenerateRecoveryCodes } from './handlers/regenerate_recovery_codes';
+import { getTwoFactorStatus } from './handlers/get_two_factor_status';
+import { getSsoConnection } from './handlers/get_sso_connection';
+import { getAuditLog } from './handlers/get_audit_log';
+import { getPublicStatusPage } from './handlers/get_public_status_page';
+import { getPublicStatusPageByDomain } from './handlers/get_public_status_page_by_domain';
+import { getPublicUptime } from './handlers/get_public_uptime';
+import { unlockStatusPage } from './handlers/unlock_status_page';
+import { getStatusPageAccess } from './handlers/get_status_page_access';
+import { updateStatusPageAccess } from './handlers/update_status_page_access';
+import { subscribeToStatusPage } from './handlers/subscribe_to_status_page';
+import { confirmSubscription } from './handlers/confirm_subscription';
+import { unsubscribe } from './handlers/unsubscribe';
+import { getSubscriptionPreferences } from './handlers/get_subscription_preferences';
+import { updateSubscriptionPreferences } from './handlers/update_subscription_preferences';
+import { createWebhookEndpoint } from './handlers/create_webhook_endpoint';
+import { getWebhookEndpoints } from './handlers/get_webhook_endpoints';
+import { updateWebhookEndpoint } from './handlers/update_webhook_endpoint';
+import { deleteWebhookEndpoint } from './handlers/delete_webhook_endpoint';
+import { rotateWebhookSecret } from './handlers/rotate_webhook_secret';
+import { getWebhookDeliveries } from './handlers/get_webhook_deliveries';
+import { redeliverWebhook } from './handlers/redeliver_webhook';
+import { getJobs } from './handlers/get_jobs';
+import { retryJob } from './handlers/retry_job';
+import { createChatIntegration } from './handlers/create_chat_integration';
+import { getChatIntegrations } from './handlers/get_chat_integrations';
+import { updateChatIntegration } from './handlers/update_chat_integration';
+import { deleteChatIntegration } from './handlers/delete_chat_integration';
+import { sendTestChatMessage } from './handlers/send_test_chat_message';
+import { getSubscribers } from './handlers/get_subscribers';
+import { deleteSubscriber } from './handlers/delete_subscriber';
+import { subscribeToSmsUpdates } from './handlers/subscribe_to_sms_updates';
+import { verifySmsSubscription } from './handlers/verify_sms_subscription';
+import { getSmsSubscribers } from './handlers/get_sms_subscribers';
+import { deleteSmsSubscriber } from './handlers/delete_sms_subscriber';
+import { getSmsRules } from './handlers/get_sms_rules';
+import { setSmsRules } from './handlers/set_sms_rules';
+import { getSmsUsage } from './handlers/get_sms_usage';
+import { getStatusPageUptime } from './handlers/get_status_page_uptime';
+import { verifyCustomDomain } from './handlers/verify_custom_domain';
+import { upsertSsoConnection } from './handlers/upsert_sso_connection';
+import { deleteSsoConnection } from './handlers/delete_sso_connection';
+import { verifySsoDomain } from './handlers/verify_sso_domain';
+import { startSsoLogin } from './handlers/start_sso_login';
+import { completeSsoLogin } from './handlers/complete_sso_login';
+import { getApiKeyPrincipal } from './handlers/get_api_key_principal';
+import { createApiKey } from './handlers/create_api_key';
+import { getApiKeys } from './handlers/get_api_keys';
+import { revokeApiKey } from './handlers/revoke_api_key';
+import { createInvitation } from './handlers/create_invitation';
+import { getInvitations } from './handlers/get_invitations';
+import { revokeInvitation } from './handlers/revoke_invitation';
+import { getInvitationDetails } from './handlers/get_invitation_details';
+import { acceptInvitation } from './handlers/accept_invitation';
 import { createOrganization } from './handlers/create_organization';
+import { getOrganizationMembers } from './handlers/get_organization_members';
+import { updateMemberRole } from './handlers/update_member_role';
+import { removeOrganizationMember } from './handlers/remove_organization_member';
+import { transferOrganizationOwnership } from './handlers/transfer_organization_ownership';
 import { createStatusPage } from './handlers/create_status_page';
 import { createComponent } from './handlers/create_component';
 import { createIncident } from './handlers/create_incident';
@@ -33,140 +137,845 @@ import { getStatusPages } from './handlers/get_status_pages';
 import { getStatusPage } from './handlers/get_status_page';
 import { getComponents } from './handlers/get_components';
 import { getIncidents } from './handlers/get_incidents';
+import { getIncidentHistory } from './handlers/get_incident_history';
+import { getPublicIncidentHistory } from './handlers/get_public_incident_history';
 import { getIncidentUpdates } from './handlers/get_incident_updates';
+import { getIncidentTranslations } from './handlers/get_incident_translations';
+import { upsertIncidentTranslation } from './handlers/upsert_incident_translation';
+import { upsertIncidentUpdateTranslation } from './handlers/upsert_incident_update_translation';
+import { deleteIncidentTranslation } from './handlers/delete_incident_translation';
 import { getMaintenanceWindows } from './handlers/get_maintenance_windows';
+import { getMaintenanceWindowCalendar } from './handlers/get_maintenance_window_calendar';
 import { getOrganizations } from './handlers/get_organizations';
 import { updateStatusPage } from './handlers/update_status_page';
 import { updateComponent } from './handlers/update_component';
 import { updateIncident } from './handlers/update_incident';
 import { updateMaintenanceWindow } from './handlers/update_maintenance_window';
+import { updateOrganizationPlan } from './handlers/update_organization_plan';
+import { updateOrganizationSecurity } from './handlers/update_organization_security';
 import { addOrganizationMember } from './handlers/add_organization_member';
 import { deleteStatusPage } from './handlers/delete_status_page';
 import { deleteComponent } from './handlers/delete_component';
+import { authorize, authorizeUserAdministration, type Actor } from './lib/permissions';
+import {
+  SESSION_COOKIE_NAME,
+  SSO_STATE_COOKIE_NAME,
+  parseCookies,
+  serializeSessionCookie,
+  clearSessionCookie,
+  serializeSsoStateCookie,
+  clearSsoStateCookie,
+  serializePageSessionCookie,
+  assertSharedSigningSecret
+} from './lib/auth';
+import { pageViewerFromRequest } from './lib/page_access';
+import { findCustomDomainSlug } from './lib/custom_domains';
+import { purgeExpiredAuditLogs, AUDIT_LOG_PURGE_INTERVAL_MS } from './lib/audit';
+import { deliverDueWebhooks, WEBHOOK_DELIVERY_INTERVAL_MS } from './lib/webhooks';
+import { startJobWorker } from './lib/jobs';
+import { handlePublicHttpRequest } from './lib/public_http';
 
-const t = initTRPC.create({
+// Resolve the caller on every request: an API key bearer token takes precedence over the session cookie
+export const createContext = async ({ req, res }: Pick<CreateHTTPContextOptions, 'req' | 'res'>) => {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    const apiKey = await getApiKeyPrincipal(authorization.slice('Bearer '.length).trim());
+    return { req, res, user: null, sessionToken: null, apiKey };
+  }
+
+  const sessionToken = parseCookies(req.headers.cookie)[SESSION_COOKIE_NAME] ?? null;
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+
+  return { req, res, user, sessionToken, apiKey: null };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
-const appRouter = router({
+// Procedures open to signed-in users and API keys; permissions are checked through ctx.actor
+const authedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (ctx.user) {
+    const actor: Actor = { userId: ctx.user.id, apiKey: null };
+    return next({ ctx: { ...ctx, actor } });
+  }
+  if (ctx.apiKey) {
+    const actor: Actor = { userId: ctx.apiKey.created_by, apiKey: ctx.apiKey };
+    return next({ ctx: { ...ctx, actor } });
+  }
+  throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+});
+
+// Procedures that require a signed-in user; narrows ctx.user to non-null
+const userProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+export const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await login(input);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(result.token, result.expires_at));
+      // A pending session only identifies the 2FA challenge; the user is returned once it is completed
+      return {
+        user: result.two_factor_required ? null : result.user,
+        two_factor_required: result.two_factor_required
+      };
+    }),
+
+  verifyTwoFactorLogin: publicProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.sessionToken) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Two-factor challenge is invalid or has expired' });
+      }
+      const result = await verifyTwoFactorLogin(ctx.sessionToken, input);
+      ctx.res.setHeader('Set-Cookie', serializeSessionCookie(result.token, result.expires_at));
+      return result.user;
+    }),
+
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      if (ctx.sessionToken) {
+        await logout(ctx.sessionToken);
+      }
+      ctx.res.setHeader('Set-Cookie', clearSessionCookie());
+      return true;
+    }),
+
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
+
   // User management
   createUser: publicProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
 
+  verifyEmail: publicProcedure
+    .input(z.object({ token: z.string() }))
+    .mutation(({ input }) => verifyEmail(input.token)),
+
+  resendVerificationEmail: userProcedure
+    .mutation(({ ctx }) => sendVerificationEmail(ctx.user.id)),
+
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input }) => requestPasswordReset(input)),
+
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetPassword(input)),
+
+  changePassword: userProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ ctx, input }) => changePassword(input, ctx.user.id, ctx.sessionToken)),
+
+  // Single sign-on through the organization's OpenID Connect provider
+  startSsoLogin: publicProcedure
+    .input(startSsoLoginInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await startSsoLogin(input);
+      ctx.res.setHeader('Set-Cookie', serializeSsoStateCookie(result.state, result.expires_at));
+      return { authorization_url: result.authorization_url };
+    }),
+
+  completeSsoLogin: publicProcedure
+    .input(completeSsoLoginInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const stateCookie = parseCookies(ctx.req.headers.cookie)[SSO_STATE_COOKIE_NAME] ?? null;
+      const result = await completeSsoLogin(input, stateCookie);
+      ctx.res.setHeader('Set-Cookie', [
+        serializeSessionCookie(result.token, result.expires_at),
+        clearSsoStateCookie()
+      ]);
+      return result.user;
+    }),
+
+  // Two-factor authentication
+  getTwoFactorStatus: userProcedure
+    .query(({ ctx }) => getTwoFactorStatus(ctx.user.id)),
+
+  startTwoFactorEnrollment: userProcedure
+    .mutation(({ ctx }) => startTwoFactorEnrollment(ctx.user.id)),
+
+  confirmTwoFactorEnrollment: userProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ ctx, input }) => confirmTwoFactorEnrollment(input, ctx.user.id)),
+
+  disableTwoFactor: userProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ ctx, input }) => disableTwoFactor(input, ctx.user.id)),
+
+  regenerateRecoveryCodes: userProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ ctx, input }) => regenerateRecoveryCodes(input, ctx.user.id)),
+
+  deactivateUser: userProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.userId === ctx.user.id) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot deactivate your own account' });
+      }
+      await authorizeUserAdministration({ userId: ctx.user.id, apiKey: null }, input.userId);
+      return setUserActive(input.userId, false, { userId: ctx.user.id, apiKey: null });
+    }),
+
+  reactivateUser: userProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorizeUserAdministration({ userId: ctx.user.id, apiKey: null }, input.userId);
+      return setUserActive(input.userId, true, { userId: ctx.user.id, apiKey: null });
+    }),
+
   // Organization management
-  createOrganization: publicProcedure
+  createOrganization: userProcedure
     .input(createOrganizationInputSchema)
-    .mutation(({ input }) => createOrganization(input)),
+    .mutation(({ ctx, input }) => createOrganization(input, ctx.user.id)),
 
-  getOrganizations: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getOrganizations(input.userId)),
+  getOrganizations: userProcedure
+    .query(({ ctx }) => getOrganizations(ctx.user.id)),
+
+  updateOrganizationPlan: authedProcedure
+    .input(updateOrganizationPlanInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'billing:manage', { organizationId: input.id });
+      return updateOrganizationPlan(input, ctx.actor);
+    }),
 
-  addOrganizationMember: publicProcedure
+  getSsoConnection: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return getSsoConnection(input.organizationId);
+    }),
+
+  upsertSsoConnection: authedProcedure
+    .input(upsertSsoConnectionInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organization_id });
+      return upsertSsoConnection(input, ctx.actor);
+    }),
+
+  deleteSsoConnection: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return deleteSsoConnection(input.organizationId, ctx.actor);
+    }),
+
+  verifySsoDomain: authedProcedure
+    .input(z.object({ organizationId: z.number(), domain: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return verifySsoDomain(input.organizationId, input.domain, ctx.actor);
+    }),
+
+  updateOrganizationSecurity: authedProcedure
+    .input(updateOrganizationSecurityInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.id });
+      return updateOrganizationSecurity(input, ctx.actor.userId);
+    }),
+
+  getAuditLog: authedProcedure
+    .input(getAuditLogInputSchema)
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'audit_log:read', { organizationId: input.organization_id });
+      return getAuditLog(input);
+    }),
+
+  addOrganizationMember: authedProcedure
     .input(z.object({ 
       organizationId: z.number(), 
       userId: z.number(), 
       role: userRoleSchema.optional() 
     }))
-    .mutation(({ input }) => addOrganizationMember(input.organizationId, input.userId, input.role)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return addOrganizationMember(input.organizationId, input.userId, input.role, ctx.actor);
+    }),
+
+  getOrganizationMembers: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { organizationId: input.organizationId });
+      return getOrganizationMembers(input.organizationId);
+    }),
+
+  updateMemberRole: authedProcedure
+    .input(z.object({
+      organizationId: z.number(),
+      userId: z.number(),
+      role: userRoleSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return updateMemberRole(input.organizationId, input.userId, input.role, ctx.actor);
+    }),
+
+  removeOrganizationMember: authedProcedure
+    .input(z.object({ organizationId: z.number(), userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return removeOrganizationMember(input.organizationId, input.userId, ctx.actor);
+    }),
+
+  transferOrganizationOwnership: authedProcedure
+    .input(z.object({ organizationId: z.number(), newOwnerId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return transferOrganizationOwnership(input.organizationId, input.newOwnerId, ctx.actor);
+    }),
+
+  // Invitations
+  createInvitation: authedProcedure
+    .input(createInvitationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organization_id });
+      return createInvitation(input, ctx.actor.userId);
+    }),
+
+  getInvitations: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { organizationId: input.organizationId });
+      return getInvitations(input.organizationId);
+    }),
+
+  revokeInvitation: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'member:manage', { invitationId: input.id });
+      return revokeInvitation(input.id, ctx.actor);
+    }),
+
+  // The invite token itself is the credential for these two
+  getInvitationDetails: publicProcedure
+    .input(z.object({ token: z.string() }))
+    .query(({ input }) => getInvitationDetails(input.token)),
+
+  acceptInvitation: publicProcedure
+    .input(acceptInvitationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await acceptInvitation(input);
+      // Sign newly created accounts straight in
+      if (result.account_created && input.password) {
+        const session = await login({ email: result.user.email, password: input.password });
+        ctx.res.setHeader('Set-Cookie', serializeSessionCookie(session.token, session.expires_at));
+      }
+      return result;
+    }),
+
+  // API key management
+  createApiKey: authedProcedure
+    .input(createApiKeyInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'api_key:manage', { organizationId: input.organization_id });
+      return createApiKey(input, ctx.actor.userId, ctx.actor);
+    }),
+
+  getApiKeys: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'api_key:manage', { organizationId: input.organizationId });
+      return getApiKeys(input.organizationId);
+    }),
+
+  revokeApiKey: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'api_key:manage', { apiKeyId: input.id });
+      return revokeApiKey(input.id, ctx.actor);
+    }),
+
+  // Outbound webhooks
+  createWebhookEndpoint: authedProcedure
+    .input(createWebhookEndpointInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { organizationId: input.organization_id });
+      return createWebhookEndpoint(input, ctx.actor);
+    }),
+
+  getWebhookEndpoints: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { organizationId: input.organizationId });
+      return getWebhookEndpoints(input.organizationId);
+    }),
+
+  updateWebhookEndpoint: authedProcedure
+    .input(updateWebhookEndpointInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { webhookEndpointId: input.id });
+      return updateWebhookEndpoint(input, ctx.actor);
+    }),
+
+  deleteWebhookEndpoint: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { webhookEndpointId: input.id });
+      return deleteWebhookEndpoint(input.id, ctx.actor);
+    }),
+
+  rotateWebhookSecret: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { webhookEndpointId: input.id });
+      return rotateWebhookSecret(input.id, ctx.actor);
+    }),
+
+  getWebhookDeliveries: authedProcedure
+    .input(getWebhookDeliveriesInputSchema)
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { webhookEndpointId: input.webhook_endpoint_id });
+      return getWebhookDeliveries(input);
+    }),
+
+  redeliverWebhook: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'webhook:manage', { webhookDeliveryId: input.id });
+      return redeliverWebhook(input.id);
+    }),
+
+  // Background jobs queued for the organization, such as notification fan-out
+  getJobs: authedProcedure
+    .input(getJobsInputSchema)
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'job:manage', { organizationId: input.organization_id });
+      return getJobs(input);
+    }),
+
+  retryJob: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'job:manage', { jobId: input.id });
+      return retryJob(input.id);
+    }),
+
+  // Slack and Teams channels of a status page
+  createChatIntegration: authedProcedure
+    .input(createChatIntegrationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return createChatIntegration(input, ctx.actor);
+    }),
+
+  getChatIntegrations: authedProcedure
+    .input(z.object({ statusPageId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.statusPageId });
+      return getChatIntegrations(input.statusPageId);
+    }),
+
+  updateChatIntegration: authedProcedure
+    .input(updateChatIntegrationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { chatIntegrationId: input.id });
+      return updateChatIntegration(input, ctx.actor);
+    }),
+
+  deleteChatIntegration: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { chatIntegrationId: input.id });
+      return deleteChatIntegration(input.id, ctx.actor);
+    }),
+
+  sendTestChatMessage: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { chatIntegrationId: input.id });
+      return sendTestChatMessage(input.id);
+    }),
+
+  // Public status pages, readable without signing in unless the page is private
+  getPublicStatusPage: publicProcedure
+    .input(z.object({ slug: z.string() }))
+    .query(({ ctx, input }) => getPublicStatusPage(input.slug, pageViewerFromRequest(ctx.req, ctx.user?.id))),
+
+  // Caddy forwards the original Host, so a verified custom domain resolves to its page
+  getPublicStatusPageForHost: publicProcedure
+    .query(({ ctx }) => getPublicStatusPageByDomain(ctx.req.headers.host, pageViewerFromRequest(ctx.req, ctx.user?.id))),
+
+  getPublicUptime: publicProcedure
+    .input(z.object({ slug: z.string() }))
+    .query(({ ctx, input }) => getPublicUptime(input.slug, pageViewerFromRequest(ctx.req, ctx.user?.id))),
+
+  getPublicIncidentHistory: publicProcedure
+    .input(getPublicIncidentHistoryInputSchema)
+    .query(({ ctx, input }) => getPublicIncidentHistory(input, pageViewerFromRequest(ctx.req, ctx.user?.id))),
+
+  unlockStatusPage: publicProcedure
+    .input(unlockStatusPageInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const slug = input.slug ?? await findCustomDomainSlug(ctx.req.headers.host);
+      if (!slug) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Status page not found' });
+      }
+      const result = await unlockStatusPage(slug, input.password);
+      ctx.res.setHeader('Set-Cookie', serializePageSessionCookie(result.status_page_id, result.token, result.expires_at));
+      return true;
+    }),
+
+  // Email subscriptions, confirmed and cancelled through signed links
+  subscribeToStatusPage: publicProcedure
+    .input(subscribeInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const slug = input.slug ?? await findCustomDomainSlug(ctx.req.headers.host);
+      if (!slug) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Status page not found' });
+      }
+      return subscribeToStatusPage(slug, input.email, pageViewerFromRequest(ctx.req, ctx.user?.id));
+    }),
+
+  confirmSubscription: publicProcedure
+    .input(subscriptionTokenInputSchema)
+    .mutation(({ input }) => confirmSubscription(input.token)),
+
+  unsubscribe: publicProcedure
+    .input(subscriptionTokenInputSchema)
+    .mutation(({ input }) => unsubscribe(input.token)),
+
+  getSubscriptionPreferences: publicProcedure
+    .input(subscriptionTokenInputSchema)
+    .query(({ input }) => getSubscriptionPreferences(input.token)),
+
+  updateSubscriptionPreferences: publicProcedure
+    .input(updateSubscriptionPreferencesInputSchema)
+    .mutation(({ input }) => updateSubscriptionPreferences(input)),
+
+  // SMS subscriptions, verified with a texted code; numbers unsubscribe by replying STOP
+  subscribeToSmsUpdates: publicProcedure
+    .input(subscribeSmsInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const slug = input.slug ?? await findCustomDomainSlug(ctx.req.headers.host);
+      if (!slug) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Status page not found' });
+      }
+      return subscribeToSmsUpdates(slug, input.phone_number, pageViewerFromRequest(ctx.req, ctx.user?.id));
+    }),
+
+  verifySmsSubscription: publicProcedure
+    .input(verifySmsSubscriptionInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const slug = input.slug ?? await findCustomDomainSlug(ctx.req.headers.host);
+      if (!slug) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Status page not found' });
+      }
+      return verifySmsSubscription(slug, input, pageViewerFromRequest(ctx.req, ctx.user?.id));
+    }),
 
   // Status page management
-  createStatusPage: publicProcedure
+  createStatusPage: authedProcedure
     .input(createStatusPageInputSchema)
-    .mutation(({ input }) => createStatusPage(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { organizationId: input.organization_id });
+      return createStatusPage(input, ctx.actor);
+    }),
 
-  getStatusPages: publicProcedure
+  getStatusPages: authedProcedure
     .input(z.object({ organizationId: z.number() }))
-    .query(({ input }) => getStatusPages(input.organizationId)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { organizationId: input.organizationId });
+      return getStatusPages(input.organizationId);
+    }),
 
-  getStatusPage: publicProcedure
+  getStatusPage: authedProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getStatusPage(input.id)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.id });
+      return getStatusPage(input.id);
+    }),
 
-  updateStatusPage: publicProcedure
+  updateStatusPage: authedProcedure
     .input(updateStatusPageInputSchema)
-    .mutation(({ input }) => updateStatusPage(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.id });
+      return updateStatusPage(input, ctx.actor);
+    }),
 
-  deleteStatusPage: publicProcedure
+  deleteStatusPage: authedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deleteStatusPage(input.id)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.id });
+      return deleteStatusPage(input.id, ctx.actor);
+    }),
+
+  getStatusPageAccess: authedProcedure
+    .input(z.object({ status_page_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return getStatusPageAccess(input.status_page_id);
+    }),
+
+  updateStatusPageAccess: authedProcedure
+    .input(updateStatusPageAccessInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return updateStatusPageAccess(input, ctx.actor);
+    }),
+
+  getSubscribers: authedProcedure
+    .input(z.object({ status_page_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return getSubscribers(input.status_page_id);
+    }),
+
+  deleteSubscriber: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { subscriberId: input.id });
+      return deleteSubscriber(input.id, ctx.actor);
+    }),
+
+  getSmsSubscribers: authedProcedure
+    .input(z.object({ status_page_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return getSmsSubscribers(input.status_page_id);
+    }),
+
+  deleteSmsSubscriber: authedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { smsSubscriberId: input.id });
+      return deleteSmsSubscriber(input.id, ctx.actor);
+    }),
+
+  getSmsRules: authedProcedure
+    .input(z.object({ status_page_id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return getSmsRules(input.status_page_id);
+    }),
+
+  setSmsRules: authedProcedure
+    .input(setSmsRulesInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return setSmsRules(input, ctx.actor);
+    }),
+
+  getSmsUsage: authedProcedure
+    .input(z.object({ organizationId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { organizationId: input.organizationId });
+      return getSmsUsage(input.organizationId);
+    }),
+
+  verifyCustomDomain: authedProcedure
+    .input(z.object({ status_page_id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'status_page:manage', { statusPageId: input.status_page_id });
+      return verifyCustomDomain(input.status_page_id, ctx.actor);
+    }),
 
   // Component management
-  createComponent: publicProcedure
+  createComponent: authedProcedure
     .input(createComponentInputSchema)
-    .mutation(({ input }) => createComponent(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'component:manage', { statusPageId: input.status_page_id });
+      return createComponent(input, ctx.actor);
+    }),
+
+  getComponents: authedProcedure
+    .input(z.object({ statusPageId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.statusPageId });
+      return getComponents(input.statusPageId);
+    }),
 
-  getComponents: publicProcedure
+  getStatusPageUptime: authedProcedure
     .input(z.object({ statusPageId: z.number() }))
-    .query(({ input }) => getComponents(input.statusPageId)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.statusPageId });
+      return getStatusPageUptime(input.statusPageId);
+    }),
 
-  updateComponent: publicProcedure
+  updateComponent: authedProcedure
     .input(updateComponentInputSchema)
-    .mutation(({ input }) => updateComponent(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'component:manage', { componentId: input.id });
+      return updateComponent(input, ctx.actor);
+    }),
 
-  deleteComponent: publicProcedure
+  deleteComponent: authedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deleteComponent(input.id)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'component:manage', { componentId: input.id });
+      return deleteComponent(input.id, ctx.actor);
+    }),
 
   // Incident management
-  createIncident: publicProcedure
+  createIncident: authedProcedure
     .input(createIncidentInputSchema)
-    .mutation(({ input }) => createIncident(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { statusPageId: input.status_page_id });
+      return createIncident(input, ctx.actor.userId, ctx.actor);
+    }),
 
-  getIncidents: publicProcedure
+  getIncidents: authedProcedure
     .input(z.object({ statusPageId: z.number() }))
-    .query(({ input }) => getIncidents(input.statusPageId)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.statusPageId });
+      return getIncidents(input.statusPageId);
+    }),
 
-  updateIncident: publicProcedure
+  getIncidentHistory: authedProcedure
+    .input(getIncidentHistoryInputSchema)
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.status_page_id });
+      return getIncidentHistory(input);
+    }),
+
+  updateIncident: authedProcedure
     .input(updateIncidentInputSchema)
-    .mutation(({ input }) => updateIncident(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { incidentId: input.id });
+      return updateIncident(input, ctx.actor);
+    }),
 
   // Incident updates
-  createIncidentUpdate: publicProcedure
+  createIncidentUpdate: authedProcedure
     .input(createIncidentUpdateInputSchema)
-    .mutation(({ input }) => createIncidentUpdate(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { incidentId: input.incident_id });
+      return createIncidentUpdate(input, ctx.actor.userId, ctx.actor);
+    }),
+
+  getIncidentUpdates: authedProcedure
+    .input(z.object({ incidentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { incidentId: input.incidentId });
+      return getIncidentUpdates(input.incidentId);
+    }),
 
-  getIncidentUpdates: publicProcedure
+  // Incident translations into the page's other languages
+  getIncidentTranslations: authedProcedure
     .input(z.object({ incidentId: z.number() }))
-    .query(({ input }) => getIncidentUpdates(input.incidentId)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { incidentId: input.incidentId });
+      return getIncidentTranslations(input.incidentId);
+    }),
+
+  upsertIncidentTranslation: authedProcedure
+    .input(upsertIncidentTranslationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { incidentId: input.incident_id });
+      return upsertIncidentTranslation(input, ctx.actor);
+    }),
+
+  upsertIncidentUpdateTranslation: authedProcedure
+    .input(upsertIncidentUpdateTranslationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { incidentUpdateId: input.incident_update_id });
+      return upsertIncidentUpdateTranslation(input, ctx.actor);
+    }),
+
+  deleteIncidentTranslation: authedProcedure
+    .input(deleteIncidentTranslationInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'incident:manage', { incidentId: input.incident_id });
+      return deleteIncidentTranslation(input, ctx.actor);
+    }),
 
   // Maintenance window management
-  createMaintenanceWindow: publicProcedure
+  createMaintenanceWindow: authedProcedure
     .input(createMaintenanceWindowInputSchema)
-    .mutation(({ input }) => createMaintenanceWindow(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'maintenance:manage', { statusPageId: input.status_page_id });
+      return createMaintenanceWindow(input, ctx.actor.userId, ctx.actor);
+    }),
 
-  getMaintenanceWindows: publicProcedure
+  getMaintenanceWindows: authedProcedure
     .input(z.object({ statusPageId: z.number() }))
-    .query(({ input }) => getMaintenanceWindows(input.statusPageId)),
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { statusPageId: input.statusPageId });
+      return getMaintenanceWindows(input.statusPageId);
+    }),
 
-  updateMaintenanceWindow: publicProcedure
+  getMaintenanceWindowCalendar: authedProcedure
+    .input(z.object({ maintenanceWindowId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'organization:read', { maintenanceWindowId: input.maintenanceWindowId });
+      return getMaintenanceWindowCalendar(input.maintenanceWindowId);
+    }),
+
+  updateMaintenanceWindow: authedProcedure
     .input(updateMaintenanceWindowInputSchema)
-    .mutation(({ input }) => updateMaintenanceWindow(input)),
+    .mutation(async ({ ctx, input }) => {
+      await authorize(ctx.actor, 'maintenance:manage', { maintenanceWindowId: input.id });
+      return updateMaintenanceWindow(input, ctx.actor);
+    }),
 });
 
 export type AppRouter = typeof appRouter;
 
+export const createCaller = t.createCallerFactory(appRouter);
+
+// Public status page routes are answered before tRPC and without its CORS headers: private pages must not be
+// readable by other sites, and the routes meant to be embedded elsewhere (badges, embed.js) set their own
+export const createServer = () => createHTTPServer({
+  middleware: (req, res, next) => {
+    handlePublicHttpRequest(req, res)
+      .then((handled) => {
+        if (!handled) {
+          cors()(req, res, next);
+        }
+      })
+      .catch((error) => {
+        console.error('HTTP request failed:', error);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+        }
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+      });
+  },
+  router: appRouter,
+  createContext,
+});
+
 async function start() {
+  if (process.env['JOB_WORKER'] === 'separate') {
+    assertSharedSigningSecret();
+  }
+
   const port = process.env['SERVER_PORT'] || 2022;
-  const server = createHTTPServer({
-    middleware: (req, res, next) => {
-      cors()(req, res, next);
-    },
-    router: appRouter,
-    createContext() {
-      return {};
-    },
-  });
+  const server = createServer();
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  setInterval(() => {
+    purgeExpiredAuditLogs().catch((error) => console.error('Audit log purge failed:', error));
+  }, AUDIT_LOG_PURGE_INTERVAL_MS);
+
+  setInterval(() => {
+    deliverDueWebhooks().catch((error) => console.error('Webhook delivery failed:', error));
+  }, WEBHOOK_DELIVERY_INTERVAL_MS);
+
+  // Jobs run in the server process unless separate worker processes (src/worker.ts) run them
+  if (process.env['JOB_WORKER'] !== 'separate') {
+    startJobWorker();
+  }
 }
 
-start();
\ No newline at end of file
+// Only listen when run directly, so the router can be imported by tests
+if (import.meta.main) {
+  start();
+}
@@ -0,0 +1,137 @@
+import { db } from '../db';
+import { auditLogsTable, organizationsTable } from '../db/schema';
+import { type AuditAction, type AuditEntityType, type PlanType } from '../schema';
+import { type Actor } from './permissions';
+import { and, eq, inArray, lt } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries past their plan's retention are purged hourly while the server runs
+export const AUDIT_LOG_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const defaultRetentionDays: Record<PlanType, number | null> = {
+  free: 30,
+  pro: 90,
+  plus: 365,
+  enterprise: null
+};
+
+// AUDIT_LOG_RETENTION_DAYS_<PLAN> overrides the default; 0 keeps entries forever
+const retentionFromEnv = (plan: PlanType): number | null => {
+  const value = process.env[`AUDIT_LOG_RETENTION_DAYS_${plan.toUpperCase()}`];
+  if (!value) {
+    return defaultRetentionDays[plan];
+  }
+  const days = parseInt(value, 10);
+  return days > 0 ? days : null;
+};
+
+// How long audit entries are kept per plan; null keeps them forever
+export const auditLogRetentionDays: Record<PlanType, number | null> = {
+  free: retentionFromEnv('free'),
+  pro: retentionFromEnv('pro'),
+  plus: retentionFromEnv('plus'),
+  enterprise: retentionFromEnv('enterprise')
+};
+
+// Oldest timestamp still visible for the plan, or null when nothing expires
+export const auditLogRetentionCutoff = (plan: PlanType, now: Date = new Date()): Date | null => {
+  const days = auditLogRetentionDays[plan];
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+};
+
+// Credentials and token hashes never end up in the audit log; chat webhook URLs carry their own credentials
+const redactedFields = new Set(['password_hash', 'token_hash', 'client_secret', 'secret', 'code_hash', 'state_hash', 'code_verifier', 'webhook_url', 'bot_token', 'verification_code_hash']);
+
+// Bookkeeping columns that change on every write and say nothing about what was changed
+const ignoredFields = new Set(['updated_at']);
+
+// JSON snapshot of a row, with secrets removed and dates as ISO strings
+export const toAuditSnapshot = (record: object): Record<string, unknown> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (!redactedFields.has(field)) {
+      snapshot[field] = value instanceof Date ? value.toISOString() : value;
+    }
+  }
+  return snapshot;
+};
+
+// Reduces two snapshots to the fields whose values differ
+export const diffAuditSnapshots = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } => {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (ignoredFields.has(field) || JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+      continue;
+    }
+    changedBefore[field] = before[field] ?? null;
+    changedAfter[field] = after[field] ?? null;
+  }
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+export interface AuditEvent {
+  organizationId: number;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Appends an entry to the audit log. A null actor means the change was made by the system.
+// Updates only record the fields that changed, and updates that changed nothing are not recorded.
+export const recordAuditEvent = async (actor: Actor | null, event: AuditEvent): Promise<void> => {
+  let before = event.before ? toAuditSnapshot(event.before) : null;
+  let after = event.after ? toAuditSnapshot(event.after) : null;
+
+  if (event.action === 'update' && before && after) {
+    ({ before, after } = diffAuditSnapshots(before, after));
+    if (Object.keys(after).length === 0) {
+      return;
+    }
+  }
+
+  await db.insert(auditLogsTable)
+    .values({
+      organization_id: event.organizationId,
+      actor_user_id: actor?.userId ?? null,
+      api_key_id: actor?.apiKey?.id ?? null,
+      entity_type: event.entityType,
+      entity_id: event.entityId,
+      action: event.action,
+      before,
+      after
+    })
+    .execute();
+};
+
+// Deletes entries older than each organization's plan allows; the only way entries are ever removed
+export const purgeExpiredAuditLogs = async (now: Date = new Date()): Promise<number> => {
+  let purged = 0;
+
+  for (const plan of Object.keys(auditLogRetentionDays) as PlanType[]) {
+    const cutoff = auditLogRetentionCutoff(plan, now);
+    if (cutoff === null) {
+      continue;
+    }
+
+    const organizationsOnPlan = db.select({ id: organizationsTable.id })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.plan_type, plan));
+
+    const result = await db.delete(auditLogsTable)
+      .where(and(inArray(auditLogsTable.organization_id, organizationsOnPlan), lt(auditLogsTable.created_at, cutoff)))
+      .execute();
+
+    purged += result.rowCount ?? 0;
+  }
+
+  return purged;
+};
@@ -0,0 +1,148 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SESSION_COOKIE_NAME = 'edgestatus_session';
+
+// Binds a single sign-on request to the browser that started it
+export const SSO_STATE_COOKIE_NAME = 'edgestatus_sso_state';
+
+// Sessions are valid for 7 days unless configured otherwise
+export const SESSION_TTL_MS = Number(process.env['SESSION_TTL_HOURS'] || 24 * 7) * 60 * 60 * 1000;
+
+// Password reset links are valid for 1 hour, email verification links for 24 hours
+export const PASSWORD_RESET_TTL_MS = Number(process.env['PASSWORD_RESET_TTL_MINUTES'] || 60) * 60 * 1000;
+export const EMAIL_VERIFICATION_TTL_MS = Number(process.env['EMAIL_VERIFICATION_TTL_HOURS'] || 24) * 60 * 60 * 1000;
+
+// A password-verified session awaiting its second factor lasts 5 minutes and allows 5 attempts
+export const TWO_FACTOR_CHALLENGE_TTL_MS = Number(process.env['TWO_FACTOR_CHALLENGE_MINUTES'] || 5) * 60 * 1000;
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Unlocking a private status page with its password lasts 7 days unless configured otherwise
+export const PAGE_SESSION_TTL_MS = Number(process.env['PAGE_SESSION_TTL_HOURS'] || 24 * 7) * 60 * 60 * 1000;
+
+// Subscribers have 7 days to confirm their email address, and the confirmation is resent at most once a minute;
+// the unsubscribe and preference links in notifications work for a year
+export const SUBSCRIPTION_CONFIRMATION_TTL_MS = Number(process.env['SUBSCRIPTION_CONFIRMATION_TTL_HOURS'] || 24 * 7) * 60 * 60 * 1000;
+export const SUBSCRIPTION_CONFIRMATION_RESEND_INTERVAL_MS = 60 * 1000;
+export const SUBSCRIBER_LINK_TTL_MS = Number(process.env['SUBSCRIBER_LINK_TTL_DAYS'] || 365) * 24 * 60 * 60 * 1000;
+
+// Texted verification codes last 10 minutes and allow 5 attempts; a new code can be requested once a minute
+export const SMS_VERIFICATION_TTL_MS = Number(process.env['SMS_VERIFICATION_TTL_MINUTES'] || 10) * 60 * 1000;
+export const SMS_VERIFICATION_MAX_ATTEMPTS = 5;
+export const SMS_VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000;
+
+// Users have 10 minutes to finish signing in at their identity provider
+export const SSO_LOGIN_TTL_MS = Number(process.env['SSO_LOGIN_TTL_MINUTES'] || 10) * 60 * 1000;
+
+// Generate an opaque, URL-safe random token
+export const generateToken = (bytes: number = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+// Tokens are only ever stored as SHA-256 digests
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// Without a configured secret, signed links only stay valid until the process restarts
+const SIGNING_SECRET = process.env['APP_SECRET'] || randomBytes(32).toString('hex');
+
+// Separate job workers sign the links in the emails they send and the server checks them,
+// so every process needs the same configured secret rather than one it made up for itself
+export const assertSharedSigningSecret = (): void => {
+  if (!process.env['APP_SECRET']) {
+    throw new Error('APP_SECRET must be set when jobs run in a separate worker process');
+  }
+};
+
+const sign = (value: string): string => {
+  return createHmac('sha256', SIGNING_SECRET).update(value).digest('base64url');
+};
+
+// Create a tamper-proof token for emailed links, bound to a purpose, a record id and an expiry
+export const signToken = (purpose: string, id: number, expiresAt: Date): string => {
+  const payload = Buffer.from(JSON.stringify({ purpose, id, exp: expiresAt.getTime() })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// Returns the record id when the signature, purpose and expiry all check out, otherwise null
+export const verifySignedToken = (token: string, purpose: string): number | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (data.purpose !== purpose || typeof data.id !== 'number' || typeof data.exp !== 'number') {
+      return null;
+    }
+    return data.exp > Date.now() ? data.id : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const separatorIndex = part.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+    const name = part.slice(0, separatorIndex).trim();
+    const value = part.slice(separatorIndex + 1).trim();
+    if (name) {
+      // Anyone can send a malformed cookie, which must not fail the whole request
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+};
+
+const cookieAttributes = (expires: Date): string => {
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Lax', `Expires=${expires.toUTCString()}`];
+  if (process.env['COOKIE_SECURE'] === 'true') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+};
+
+export const serializeSessionCookie = (token: string, expires: Date): string => {
+  return `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}; ${cookieAttributes(expires)}`;
+};
+
+export const clearSessionCookie = (): string => {
+  return `${SESSION_COOKIE_NAME}=; ${cookieAttributes(new Date(0))}`;
+};
+
+export const serializeSsoStateCookie = (state: string, expires: Date): string => {
+  return `${SSO_STATE_COOKIE_NAME}=${encodeURIComponent(state)}; ${cookieAttributes(expires)}`;
+};
+
+export const clearSsoStateCookie = (): string => {
+  return `${SSO_STATE_COOKIE_NAME}=; ${cookieAttributes(new Date(0))}`;
+};
+
+// Each private page has its own cookie, so unlocking one page never unlocks another
+export const pageSessionCookieName = (statusPageId: number): string => {
+  return `edgestatus_page_${statusPageId}`;
+};
+
+export const serializePageSessionCookie = (statusPageId: number, token: string, expires: Date): string => {
+  return `${pageSessionCookieName(statusPageId)}=${encodeURIComponent(token)}; ${cookieAttributes(expires)}`;
+};
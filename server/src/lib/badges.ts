@@ -0,0 +1,76 @@
+import { type ComponentStatus } from '../schema';
+
+// Shields-style SVG badges showing a page's or component's current status, for READMEs and dashboards
+
+export interface StatusBadge {
+  label: string;
+  status: ComponentStatus;
+  brandColor: string | null;
+}
+
+// Same default as the public page header
+export const DEFAULT_BRAND_COLOR = '#2563eb';
+
+const statusMessages: Record<ComponentStatus, string> = {
+  operational: 'operational',
+  performance_issues: 'degraded performance',
+  partial_outage: 'partial outage',
+  major_outage: 'major outage',
+  under_maintenance: 'under maintenance'
+};
+
+// Matches the status dots on the public page
+export const statusColors: Record<ComponentStatus, string> = {
+  operational: '#22c55e',
+  performance_issues: '#eab308',
+  partial_outage: '#f97316',
+  major_outage: '#ef4444',
+  under_maintenance: '#3b82f6'
+};
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Branding colors are free text, so anything that is not a plain hex color falls back to the default
+export const safeBrandColor = (color: string | null): string => {
+  return color && HEX_COLOR_PATTERN.test(color.trim()) ? color.trim() : DEFAULT_BRAND_COLOR;
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// Approximate width of 11px Verdana, which is close enough without measuring glyphs
+const textWidth = (text: string): number => {
+  return Math.round(Array.from(text).length * 6.5) + 10;
+};
+
+export const renderStatusBadge = (badge: StatusBadge): string => {
+  const message = statusMessages[badge.status];
+  const labelWidth = textWidth(badge.label);
+  const messageWidth = textWidth(message);
+  const width = labelWidth + messageWidth;
+  const title = escapeXml(`${badge.label}: ${message}`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>',
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>`,
+    '<g clip-path="url(#r)">',
+    `<rect width="${labelWidth}" height="20" fill="${safeBrandColor(badge.brandColor)}"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${statusColors[badge.status]}"/>`,
+    `<rect width="${width}" height="20" fill="url(#s)"/>`,
+    '</g>',
+    '<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">',
+    `<text x="${labelWidth / 2}" y="14">${escapeXml(badge.label)}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="14">${escapeXml(message)}</text>`,
+    '</g>',
+    '</svg>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,339 @@
+import { db } from '../db';
+import {
+  chatIntegrationsTable,
+  chatThreadsTable,
+  componentsTable,
+  statusPagesTable,
+  organizationsTable,
+  type ChatIntegration,
+  type Incident,
+  type IncidentUpdate,
+  type MaintenanceWindow,
+  type StatusPage
+} from '../db/schema';
+import { type MaintenanceStatus, type PlanType } from '../schema';
+import { publicStatusPageUrl } from './custom_domains';
+import { postToPublicUrl } from './outbound_requests';
+import { incidentStatusLabels } from './subscribers';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+const CHAT_REQUEST_TIMEOUT_MS = 10_000;
+
+let slackApiUrl = (process.env['SLACK_API_URL'] || 'https://slack.com/api').replace(/\/$/, '');
+
+export const setSlackApiUrl = (url: string): void => {
+  slackApiUrl = url.replace(/\/$/, '');
+};
+
+const maintenanceHeadlines: Record<MaintenanceStatus, string> = {
+  scheduled: 'Scheduled maintenance',
+  in_progress: 'Maintenance started',
+  completed: 'Maintenance completed',
+  cancelled: 'Maintenance cancelled'
+};
+
+const maintenanceStatusLabels: Record<MaintenanceStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+type ChatTone = 'critical' | 'warning' | 'good' | 'neutral';
+
+const slackEmoji: Record<ChatTone, string> = {
+  critical: ':red_circle:',
+  warning: ':large_yellow_circle:',
+  good: ':large_green_circle:',
+  neutral: ':large_blue_circle:'
+};
+
+const adaptiveCardColors: Record<ChatTone, string> = {
+  critical: 'Attention',
+  warning: 'Warning',
+  good: 'Good',
+  neutral: 'Accent'
+};
+
+// What a message is about; later messages about the same thing reply in its thread. Messages about nothing in particular start none.
+export type ChatSubject = { incidentId: number } | { maintenanceWindowId: number };
+
+export interface ChatNotification {
+  subject: ChatSubject | null;
+  headline: string;
+  title: string;
+  status: string;
+  tone: ChatTone;
+  text: string;
+  affectedComponentIds: number[];
+}
+
+export const incidentCreatedChatNotification = (incident: Incident, affectedComponentIds: number[]): ChatNotification => ({
+  subject: { incidentId: incident.id },
+  headline: 'New incident',
+  title: incident.title,
+  status: incidentStatusLabels[incident.status],
+  tone: incident.status === 'resolved' ? 'good' : incident.status === 'monitoring' ? 'warning' : 'critical',
+  text: incident.description,
+  affectedComponentIds
+});
+
+export const incidentUpdatedChatNotification = (
+  incident: Incident,
+  update: IncidentUpdate,
+  affectedComponentIds: number[]
+): ChatNotification => ({
+  subject: { incidentId: incident.id },
+  headline: update.status === 'resolved' ? 'Resolved' : `Update: ${update.title}`,
+  title: incident.title,
+  status: incidentStatusLabels[update.status],
+  tone: update.status === 'resolved' ? 'good' : update.status === 'monitoring' ? 'warning' : 'critical',
+  text: update.description,
+  affectedComponentIds
+});
+
+export const maintenanceChatNotification = (maintenanceWindow: MaintenanceWindow, affectedComponentIds: number[]): ChatNotification => ({
+  subject: { maintenanceWindowId: maintenanceWindow.id },
+  headline: maintenanceHeadlines[maintenanceWindow.status],
+  title: maintenanceWindow.title,
+  status: maintenanceStatusLabels[maintenanceWindow.status],
+  tone: maintenanceWindow.status === 'in_progress' ? 'warning' : maintenanceWindow.status === 'completed' ? 'good' : 'neutral',
+  text: [
+    `Scheduled from ${maintenanceWindow.scheduled_start.toUTCString()} to ${maintenanceWindow.scheduled_end.toUTCString()}`,
+    '',
+    maintenanceWindow.description
+  ].join('\n'),
+  affectedComponentIds
+});
+
+interface ChatMessageContext {
+  pageName: string;
+  pageUrl: string;
+  componentNames: string[];
+}
+
+// Slack treats these three characters as markup in mrkdwn text
+const escapeSlack = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const truncate = (value: string, length: number): string => {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+};
+
+// Block Kit message; text is what notifications and clients without blocks show
+export const slackMessage = (notification: ChatNotification, context: ChatMessageContext) => ({
+  text: `${notification.headline}: ${notification.title}`,
+  blocks: [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(`${slackEmoji[notification.tone]} ${notification.headline}: ${notification.title}`, 150), emoji: true }
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Status*\n${notification.status}` },
+        { type: 'mrkdwn', text: `*Affected components*\n${escapeSlack(context.componentNames.join(', ') || 'None')}` }
+      ]
+    },
+    ...(notification.text ? [{ type: 'section', text: { type: 'mrkdwn', text: truncate(escapeSlack(notification.text), 3000) } }] : []),
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `<${context.pageUrl}|View the ${escapeSlack(context.pageName).replace(/\|/g, '/')} status page>` }]
+    }
+  ]
+});
+
+// Adaptive Card in the message envelope Teams incoming webhooks expect
+export const teamsMessage = (notification: ChatNotification, context: ChatMessageContext) => ({
+  type: 'message',
+  attachments: [
+    {
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: notification.headline, weight: 'Bolder', color: adaptiveCardColors[notification.tone], wrap: true },
+          { type: 'TextBlock', text: notification.title, size: 'Large', weight: 'Bolder', wrap: true },
+          {
+            type: 'FactSet',
+            facts: [
+              { title: 'Status', value: notification.status },
+              { title: 'Affected components', value: context.componentNames.join(', ') || 'None' },
+              { title: 'Status page', value: context.pageName }
+            ]
+          },
+          ...(notification.text ? [{ type: 'TextBlock', text: notification.text, wrap: true }] : [])
+        ],
+        actions: [{ type: 'Action.OpenUrl', title: 'View status page', url: context.pageUrl }]
+      }
+    }
+  ]
+});
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> => {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(CHAT_REQUEST_TIMEOUT_MS)
+  });
+};
+
+// Posts through the Slack Web API, which, unlike incoming webhooks, returns the ts that replies thread under
+const postSlackApiMessage = async (integration: ChatIntegration, message: object, threadTs: string | null): Promise<string> => {
+  const response = await postJson(
+    `${slackApiUrl}/chat.postMessage`,
+    { channel: integration.channel, ...message, ...(threadTs && { thread_ts: threadTs }), unfurl_links: false },
+    { Authorization: `Bearer ${integration.bot_token}` }
+  );
+  const result = await response.json() as { ok: boolean; ts?: string; error?: string };
+  if (!response.ok || !result.ok || !result.ts) {
+    throw new Error(`Slack API error: ${result.error ?? `status ${response.status}`}`);
+  }
+  return result.ts;
+};
+
+const threadCondition = (integrationId: number, subject: ChatSubject) => {
+  return and(
+    eq(chatThreadsTable.chat_integration_id, integrationId),
+    'incidentId' in subject
+      ? eq(chatThreadsTable.incident_id, subject.incidentId)
+      : eq(chatThreadsTable.maintenance_window_id, subject.maintenanceWindowId)
+  );
+};
+
+export const canThread = (integration: ChatIntegration): boolean => {
+  return integration.provider === 'slack' && integration.bot_token !== null && integration.channel !== null;
+};
+
+// Incoming webhook URLs are customer-supplied, so they may only reach public addresses
+const postToWebhook = async (url: string, body: unknown): Promise<Response> => {
+  return postToPublicUrl(url, {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    body: JSON.stringify(body),
+    timeoutMs: CHAT_REQUEST_TIMEOUT_MS
+  });
+};
+
+// Throws when the provider rejects the message, so callers decide whether that matters
+export const postChatMessage = async (
+  integration: ChatIntegration,
+  notification: ChatNotification,
+  context: ChatMessageContext
+): Promise<void> => {
+  if (integration.provider === 'teams') {
+    const response = await postToWebhook(integration.webhook_url!, teamsMessage(notification, context));
+    if (!response.ok) {
+      throw new Error(`Teams responded with status ${response.status}`);
+    }
+    return;
+  }
+
+  const message = slackMessage(notification, context);
+
+  if (!canThread(integration)) {
+    const response = await postToWebhook(integration.webhook_url!, message);
+    if (!response.ok) {
+      throw new Error(`Slack responded with status ${response.status}`);
+    }
+    return;
+  }
+
+  const { subject } = notification;
+  if (subject === null) {
+    await postSlackApiMessage(integration, message, null);
+    return;
+  }
+
+  const threads = await db.select()
+    .from(chatThreadsTable)
+    .where(threadCondition(integration.id, subject))
+    .execute();
+
+  const ts = await postSlackApiMessage(integration, message, threads[0]?.thread_ts ?? null);
+
+  // The first message posted about the subject starts its thread, even if the integration was added later
+  if (threads.length === 0) {
+    await db.insert(chatThreadsTable)
+      .values({
+        chat_integration_id: integration.id,
+        incident_id: 'incidentId' in subject ? subject.incidentId : null,
+        maintenance_window_id: 'maintenanceWindowId' in subject ? subject.maintenanceWindowId : null,
+        thread_ts: ts
+      })
+      .onConflictDoNothing()
+      .execute();
+  }
+};
+
+export const chatMessageContext = async (
+  page: StatusPage,
+  planType: PlanType,
+  affectedComponentIds: number[]
+): Promise<ChatMessageContext> => {
+  const components = affectedComponentIds.length === 0 ? [] : await db.select({ name: componentsTable.name })
+    .from(componentsTable)
+    .where(inArray(componentsTable.id, affectedComponentIds))
+    .orderBy(asc(componentsTable.position), asc(componentsTable.id))
+    .execute();
+
+  return {
+    pageName: page.name,
+    pageUrl: publicStatusPageUrl(page, planType),
+    componentNames: components.map(component => component.name)
+  };
+};
+
+// The page's active chat integrations
+export const chatIntegrationsToNotify = async (statusPageId: number): Promise<number[]> => {
+  const integrations = await db.select({ id: chatIntegrationsTable.id })
+    .from(chatIntegrationsTable)
+    .where(and(eq(chatIntegrationsTable.status_page_id, statusPageId), eq(chatIntegrationsTable.is_active, true)))
+    .orderBy(asc(chatIntegrationsTable.id))
+    .execute();
+
+  return integrations.map(integration => integration.id);
+};
+
+// Posts to one chat integration. Runs as a job per integration, so a failed post throws and is retried without
+// posting to the other channels again. Integrations disabled or deleted since the job was queued are skipped.
+export const postToChatIntegration = async (integrationId: number, notification: ChatNotification): Promise<void> => {
+  const results = await db.select({ integration: chatIntegrationsTable, page: statusPagesTable, planType: organizationsTable.plan_type })
+    .from(chatIntegrationsTable)
+    .innerJoin(statusPagesTable, eq(chatIntegrationsTable.status_page_id, statusPagesTable.id))
+    .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+    .where(and(eq(chatIntegrationsTable.id, integrationId), eq(chatIntegrationsTable.is_active, true)))
+    .execute();
+
+  if (results.length === 0) {
+    return;
+  }
+
+  const { integration, page, planType } = results[0];
+  const context = await chatMessageContext(page, planType, notification.affectedComponentIds);
+  await postChatMessage(integration, notification, context);
+};
+
+// Which settings an integration needs to be able to post
+export const chatIntegrationConfigError = (
+  integration: Pick<ChatIntegration, 'provider' | 'webhook_url' | 'bot_token' | 'channel'>
+): string | null => {
+  if (integration.provider === 'teams') {
+    return integration.webhook_url ? null : 'Teams integrations need an incoming webhook URL';
+  }
+  if ((integration.bot_token === null) !== (integration.channel === null)) {
+    return 'Slack bot tokens need a channel, and channels need a bot token';
+  }
+  return integration.webhook_url || integration.bot_token ? null : 'Slack integrations need an incoming webhook URL or a bot token and channel';
+};
+
+// The webhook URL and bot token are credentials, so the API only says whether they are set
+export const withoutChatCredentials = ({ webhook_url, bot_token, ...integration }: ChatIntegration) => ({
+  ...integration,
+  has_webhook_url: webhook_url !== null,
+  has_bot_token: bot_token !== null
+});
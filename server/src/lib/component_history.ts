@@ -0,0 +1,87 @@
+import { db } from '../db';
+import { componentsTable, componentStatusChangesTable } from '../db/schema';
+import { type ComponentStatus, type ComponentStatusChangeSource } from '../schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { emitWebhookEvent } from './webhooks';
+
+export interface ComponentStatusChangeCause {
+  source: ComponentStatusChangeSource;
+  // Incident or maintenance window id
+  sourceId?: number | null;
+}
+
+// Appends to the status history and tells webhooks; a "change" to the same status is not one and is skipped
+export const recordComponentStatusChange = async (
+  componentId: number,
+  previousStatus: ComponentStatus,
+  status: ComponentStatus,
+  cause: ComponentStatusChangeCause,
+  changedAt: Date = new Date()
+): Promise<void> => {
+  if (previousStatus === status) {
+    return;
+  }
+
+  await db.insert(componentStatusChangesTable)
+    .values({
+      component_id: componentId,
+      previous_status: previousStatus,
+      status,
+      source: cause.source,
+      source_id: cause.sourceId ?? null,
+      changed_at: changedAt
+    })
+    .execute();
+
+  const components = await db.select({ name: componentsTable.name, status_page_id: componentsTable.status_page_id })
+    .from(componentsTable)
+    .where(eq(componentsTable.id, componentId))
+    .execute();
+
+  if (components.length > 0) {
+    await emitWebhookEvent(components[0].status_page_id, 'component.status_changed', {
+      component: { id: componentId, name: components[0].name, status },
+      previous_status: previousStatus,
+      cause: { source: cause.source, source_id: cause.sourceId ?? null },
+      changed_at: changedAt
+    });
+  }
+};
+
+// Moves several components to one status and records each change.
+// With onlyFrom, components in any other status are left alone, e.g. those whose maintenance
+// has ended but that have since been marked as having an outage.
+export const setComponentStatuses = async (
+  componentIds: number[],
+  status: ComponentStatus,
+  cause: ComponentStatusChangeCause,
+  onlyFrom?: ComponentStatus
+): Promise<void> => {
+  if (componentIds.length === 0) {
+    return;
+  }
+
+  const conditions = [inArray(componentsTable.id, componentIds), ne(componentsTable.status, status)];
+  if (onlyFrom !== undefined) {
+    conditions.push(eq(componentsTable.status, onlyFrom));
+  }
+
+  const components = await db.select({ id: componentsTable.id, status: componentsTable.status })
+    .from(componentsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (components.length === 0) {
+    return;
+  }
+
+  const changedAt = new Date();
+  await db.update(componentsTable)
+    .set({ status, updated_at: changedAt })
+    .where(inArray(componentsTable.id, components.map(component => component.id)))
+    .execute();
+
+  for (const component of components) {
+    await recordComponentStatusChange(component.id, component.status, status, cause, changedAt);
+  }
+};
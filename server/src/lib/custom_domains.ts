@@ -0,0 +1,133 @@
+import { resolveTxt } from 'dns/promises';
+import { db } from '../db';
+import { statusPagesTable, organizationsTable, type StatusPage } from '../db/schema';
+import { type PlanType } from '../schema';
+import { generateToken } from './auth';
+import { APP_URL } from './mailer';
+import { and, eq, ne, isNotNull, inArray } from 'drizzle-orm';
+
+// Plans that PlanSelector advertises custom domains for
+export const customDomainPlans: PlanType[] = ['plus', 'enterprise'];
+
+// Ownership of a custom domain or an SSO email domain is proven with a TXT record at _edgestatus-challenge.<domain>
+export const CUSTOM_DOMAIN_CHALLENGE_PREFIX = '_edgestatus-challenge';
+
+// Anything that can look up TXT records; swapped out in tests
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+const systemResolver: DnsResolver = { resolveTxt };
+
+let resolver: DnsResolver = systemResolver;
+
+export const setDnsResolver = (dnsResolver: DnsResolver): void => {
+  resolver = dnsResolver;
+};
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export const assertCustomDomainAllowed = (planType: PlanType): void => {
+  if (!customDomainPlans.includes(planType)) {
+    throw new Error(`Custom domains are not available on the ${planType} plan`);
+  }
+};
+
+// Lowercases and drops a trailing dot, so the same domain always compares equal
+export const normalizeCustomDomain = (domain: string): string => {
+  const normalized = domain.trim().toLowerCase().replace(/\.$/, '');
+  if (!HOSTNAME_PATTERN.test(normalized)) {
+    throw new Error(`'${domain}' is not a valid domain name`);
+  }
+  return normalized;
+};
+
+// Host header without its port; null when missing
+export const hostnameFromHeader = (host: string | undefined): string | null => {
+  if (!host) {
+    return null;
+  }
+  return host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '') || null;
+};
+
+// Verified domains are unique across all organizations, since each one routes to exactly one page.
+// Unverified claims do not block anyone: the first page to prove ownership takes the domain.
+export const assertCustomDomainAvailable = async (domain: string, statusPageId?: number): Promise<void> => {
+  const conditions = [eq(statusPagesTable.custom_domain, domain), isNotNull(statusPagesTable.custom_domain_verified_at)];
+  if (statusPageId !== undefined) {
+    conditions.push(ne(statusPagesTable.id, statusPageId));
+  }
+
+  const existing = await db.select({ id: statusPagesTable.id })
+    .from(statusPagesTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error(`Custom domain ${domain} is already in use`);
+  }
+};
+
+export const generateDomainVerificationToken = (): string => {
+  return generateToken(16);
+};
+
+export const customDomainChallengeName = (domain: string): string => {
+  return `${CUSTOM_DOMAIN_CHALLENGE_PREFIX}.${domain}`;
+};
+
+export const customDomainChallengeValue = (token: string): string => {
+  return `edgestatus-verification=${token}`;
+};
+
+// True when the domain publishes the expected challenge; a missing record is not an error
+export const hasCustomDomainChallenge = async (domain: string, token: string): Promise<boolean> => {
+  let records: string[][];
+  try {
+    records = await resolver.resolveTxt(customDomainChallengeName(domain));
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return false;
+    }
+    throw error;
+  }
+
+  // Long TXT values arrive split into chunks that belong together
+  return records.some(chunks => chunks.join('') === customDomainChallengeValue(token));
+};
+
+// Public URL of a page: its verified custom domain while the plan still includes one, otherwise /s/:slug
+export const publicStatusPageUrl = (
+  page: Pick<StatusPage, 'slug' | 'custom_domain' | 'custom_domain_verified_at'>,
+  planType: PlanType
+): string => {
+  if (page.custom_domain && page.custom_domain_verified_at && customDomainPlans.includes(planType)) {
+    return `https://${page.custom_domain}`;
+  }
+  return `${APP_URL}/s/${encodeURIComponent(page.slug)}`;
+};
+
+// Slug of the page served on this Host header, or null when the host is not a verified custom domain.
+// Private pages are served too; whether the viewer may see one is decided when it is looked up.
+// Organizations that have since moved to a plan without custom domains stop being served on them.
+export const findCustomDomainSlug = async (host: string | undefined): Promise<string | null> => {
+  const hostname = hostnameFromHeader(host);
+  if (!hostname) {
+    return null;
+  }
+
+  const pages = await db.select({ slug: statusPagesTable.slug })
+    .from(statusPagesTable)
+    .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+    .where(
+      and(
+        eq(statusPagesTable.custom_domain, hostname),
+        isNotNull(statusPagesTable.custom_domain_verified_at),
+        inArray(organizationsTable.plan_type, customDomainPlans)
+      )
+    )
+    .execute();
+
+  return pages[0]?.slug ?? null;
+};
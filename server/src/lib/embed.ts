@@ -0,0 +1,91 @@
+// Self-contained script that third-party sites include to show a floating banner while something is wrong
+
+export interface StatusEmbed {
+  name: string;
+  url: string;
+  brandColor: string;
+  // Unresolved incidents first, then maintenance in progress
+  notices: { key: string; title: string; label: string; url: string }[];
+}
+
+export const EMBED_CONTENT_TYPE = 'application/javascript; charset=utf-8';
+
+// JSON is valid JavaScript, except that it may contain sequences that end an inline <script> or a line
+const toScriptLiteral = (value: unknown): string => {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+};
+
+// The state is baked into the script, so embedding sites need neither a fetch nor CORS for it.
+// Text is only ever assigned with textContent, so titles cannot inject markup into the host page.
+// A dismissed banner stays hidden for the session until the set of notices changes.
+export const renderEmbedScript = (embed: StatusEmbed): string => {
+  return `(function () {
+  var embed = ${toScriptLiteral(embed)};
+  if (embed.notices.length === 0) {
+    return;
+  }
+
+  var storageKey = 'edgestatus-dismissed:' + embed.url;
+  var signature = embed.notices.map(function (notice) { return notice.key; }).join(',');
+  try {
+    if (window.sessionStorage.getItem(storageKey) === signature) {
+      return;
+    }
+  } catch (error) {
+    // Storage can be unavailable in sandboxed frames; the banner then simply shows every time
+  }
+
+  function show() {
+    var notice = embed.notices[0];
+    var banner = document.createElement('div');
+    banner.setAttribute('role', 'status');
+    banner.setAttribute('data-edgestatus-banner', '');
+    banner.style.cssText = 'position:fixed;bottom:16px;right:16px;z-index:2147483647;max-width:360px;' +
+      'padding:12px 40px 12px 16px;border-radius:8px;box-shadow:0 4px 12px rgba(0,0,0,.2);color:#fff;' +
+      'font:14px/1.4 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:' + embed.brandColor;
+
+    var heading = document.createElement('div');
+    heading.style.cssText = 'font-weight:600;margin-bottom:2px';
+    heading.textContent = notice.label + ': ' + notice.title;
+    banner.appendChild(heading);
+
+    var link = document.createElement('a');
+    link.href = notice.url;
+    link.target = '_blank';
+    link.rel = 'noopener';
+    link.style.cssText = 'color:#fff;text-decoration:underline';
+    link.textContent = embed.notices.length > 1
+      ? 'View ' + embed.name + ' status (' + (embed.notices.length - 1) + ' more)'
+      : 'View ' + embed.name + ' status';
+    banner.appendChild(link);
+
+    var close = document.createElement('button');
+    close.type = 'button';
+    close.setAttribute('aria-label', 'Dismiss');
+    close.style.cssText = 'position:absolute;top:8px;right:8px;border:0;background:transparent;color:#fff;' +
+      'font-size:18px;line-height:1;cursor:pointer';
+    close.textContent = '\\u00d7';
+    close.onclick = function () {
+      banner.remove();
+      try {
+        window.sessionStorage.setItem(storageKey, signature);
+      } catch (error) {
+        // See above
+      }
+    };
+    banner.appendChild(close);
+
+    document.body.appendChild(banner);
+  }
+
+  if (document.body) {
+    show();
+  } else {
+    document.addEventListener('DOMContentLoaded', show);
+  }
+})();
+`;
+};
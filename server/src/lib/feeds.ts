@@ -0,0 +1,100 @@
+// RSS 2.0 and Atom 1.0 rendering for status page feeds
+
+export interface FeedEntry {
+  // Never changes once published, so readers can tell new entries from edited ones
+  id: string;
+  title: string;
+  link: string;
+  content: string;
+  published: Date;
+  updated: Date;
+  categories: string[];
+}
+
+export interface StatusFeed {
+  id: string;
+  title: string;
+  description: string;
+  link: string;
+  updated: Date;
+  // Newest first
+  entries: FeedEntry[];
+}
+
+export type FeedFormat = 'rss' | 'atom';
+
+export const feedContentTypes: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+// Entry ids are URNs rather than URLs, so they survive a page moving to a custom domain
+export const feedEntryId = (kind: 'incident' | 'incident-update' | 'maintenance', id: number): string => {
+  return `urn:edgestatus:${kind}:${id}`;
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+export const renderRssFeed = (feed: StatusFeed, selfUrl: string): string => {
+  const items = feed.entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>`,
+    `      <pubDate>${entry.published.toUTCString()}</pubDate>`,
+    ...entry.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(entry.content)}</description>`,
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+};
+
+export const renderAtomFeed = (feed: StatusFeed, selfUrl: string): string => {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" href="${escapeXml(entry.link)}"/>`,
+    `    <published>${entry.published.toISOString()}</published>`,
+    `    <updated>${entry.updated.toISOString()}</updated>`,
+    ...entry.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+    `    <content type="text">${escapeXml(entry.content)}</content>`,
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" href="${escapeXml(selfUrl)}"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    `  <author><name>${escapeXml(feed.title)}</name></author>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,123 @@
+import { type MaintenanceWindow } from '../schema';
+
+// iCalendar (RFC 5545) rendering for maintenance windows, so they can be subscribed to from calendar apps
+
+export interface CalendarEvent {
+  // Stable for the lifetime of the window; calendars use it to match later versions of the same event
+  uid: string;
+  sequence: number;
+  summary: string;
+  description: string;
+  url: string;
+  start: Date;
+  end: Date;
+  status: 'CONFIRMED' | 'CANCELLED';
+  created: Date;
+  lastModified: Date;
+  categories: string[];
+}
+
+export interface Calendar {
+  name: string;
+  description: string;
+  events: CalendarEvent[];
+}
+
+export const ICALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+// Not tied to the page URL, so events survive a page moving to a custom domain
+export const maintenanceEventUid = (maintenanceWindowId: number): string => {
+  return `maintenance-${maintenanceWindowId}@edgestatus`;
+};
+
+export const toMaintenanceEvent = (
+  maintenance: Pick<MaintenanceWindow,
+    'id' | 'title' | 'description' | 'status' | 'scheduled_start' | 'scheduled_end' | 'sequence' | 'created_at' | 'updated_at'>,
+  pageUrl: string,
+  affectedComponentNames: string[]
+): CalendarEvent => ({
+  uid: maintenanceEventUid(maintenance.id),
+  sequence: maintenance.sequence,
+  summary: maintenance.title,
+  description: affectedComponentNames.length > 0
+    ? `${maintenance.description}\n\nAffected components: ${affectedComponentNames.join(', ')}`
+    : maintenance.description,
+  url: `${pageUrl}#maintenance-${maintenance.id}`,
+  start: maintenance.scheduled_start,
+  end: maintenance.scheduled_end,
+  status: maintenance.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+  created: maintenance.created_at,
+  lastModified: maintenance.updated_at,
+  categories: affectedComponentNames
+});
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// 20240101T100000Z
+const formatDateTime = (date: Date): string => {
+  return date.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+};
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space.
+// Splits between characters, never inside a multi-byte one.
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+export const renderCalendar = (calendar: Calendar): string => {
+  const events = calendar.events.flatMap(event => [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    // Published feeds have no separate send time, so the last change stands in for it
+    `DTSTAMP:${formatDateTime(event.lastModified)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `URL:${event.url}`,
+    `STATUS:${event.status}`,
+    ...(event.categories.length > 0 ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`] : []),
+    `CREATED:${formatDateTime(event.created)}`,
+    `LAST-MODIFIED:${formatDateTime(event.lastModified)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ]);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EdgeStatus//Maintenance Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-CALDESC:${escapeText(calendar.description)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,178 @@
+import { db } from '../db';
+import {
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable,
+  incidentTranslationsTable,
+  incidentUpdateTranslationsTable,
+  type Incident
+} from '../db/schema';
+import {
+  type IncidentHistory,
+  type IncidentHistoryFilters,
+  type IncidentHistoryMonth,
+  type Locale,
+  type PublicIncident,
+  type Translations
+} from '../schema';
+import { and, eq, gte, lt, or, desc, inArray, sql, type SQL } from 'drizzle-orm';
+
+const byLocale = (translations: { locale: Locale; title: string; description: string }[]): Translations => {
+  return Object.fromEntries(translations.map(t => [t.locale, { title: t.title, description: t.description }]));
+};
+
+// Attaches updates (newest first), affected components and translations to incidents for public display
+export const withIncidentTimeline = async (incidents: Incident[]): Promise<PublicIncident[]> => {
+  if (incidents.length === 0) {
+    return [];
+  }
+
+  const incidentIds = incidents.map(incident => incident.id);
+
+  const updates = await db.select()
+    .from(incidentUpdatesTable)
+    .where(inArray(incidentUpdatesTable.incident_id, incidentIds))
+    .orderBy(desc(incidentUpdatesTable.created_at), desc(incidentUpdatesTable.id))
+    .execute();
+
+  const affected = await db.select()
+    .from(incidentAffectedComponentsTable)
+    .where(inArray(incidentAffectedComponentsTable.incident_id, incidentIds))
+    .execute();
+
+  const incidentTranslations = await db.select()
+    .from(incidentTranslationsTable)
+    .where(inArray(incidentTranslationsTable.incident_id, incidentIds))
+    .execute();
+
+  const updateTranslations = updates.length === 0 ? [] : await db.select()
+    .from(incidentUpdateTranslationsTable)
+    .where(inArray(incidentUpdateTranslationsTable.incident_update_id, updates.map(update => update.id)))
+    .execute();
+
+  // Fields are listed explicitly so user ids can never slip through
+  return incidents.map(incident => ({
+    id: incident.id,
+    title: incident.title,
+    description: incident.description,
+    status: incident.status,
+    created_at: incident.created_at,
+    updated_at: incident.updated_at,
+    resolved_at: incident.resolved_at,
+    affected_component_ids: affected.filter(a => a.incident_id === incident.id).map(a => a.component_id),
+    translations: byLocale(incidentTranslations.filter(t => t.incident_id === incident.id)),
+    updates: updates
+      .filter(update => update.incident_id === incident.id)
+      .map(update => ({
+        id: update.id,
+        title: update.title,
+        description: update.description,
+        status: update.status,
+        created_at: update.created_at,
+        translations: byLocale(updateTranslations.filter(t => t.incident_update_id === update.id))
+      }))
+  }));
+};
+
+interface HistoryCursor {
+  created_at: Date;
+  id: number;
+}
+
+// Opaque to clients: the position of the last incident on the previous page
+export const encodeHistoryCursor = (incident: Pick<Incident, 'created_at' | 'id'>): string => {
+  return Buffer.from(JSON.stringify({ created_at: incident.created_at.toISOString(), id: incident.id })).toString('base64url');
+};
+
+export const decodeHistoryCursor = (cursor: string): HistoryCursor => {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const createdAt = new Date(data.created_at);
+    if (typeof data.id === 'number' && !Number.isNaN(createdAt.getTime())) {
+      return { created_at: createdAt, id: data.id };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new Error('Invalid history cursor');
+};
+
+// "2026-10" for any moment in October 2026, UTC
+export const historyMonth = (date: Date): string => {
+  return date.toISOString().slice(0, 7);
+};
+
+// Timestamps are stored with microseconds but cursors carry milliseconds, so rows are
+// ordered and compared at millisecond precision to keep pages from skipping or repeating rows
+const createdAtMillis = sql`date_trunc('milliseconds', ${incidentsTable.created_at})`;
+
+// Must match the expressions of the search indexes in db/schema.ts for them to be used
+const matchesQuery = (query: string): SQL => {
+  const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+  return or(
+    sql`to_tsvector('english', ${incidentsTable.title} || ' ' || ${incidentsTable.description}) @@ ${tsquery}`,
+    inArray(
+      incidentsTable.id,
+      db.select({ id: incidentUpdatesTable.incident_id })
+        .from(incidentUpdatesTable)
+        .where(sql`to_tsvector('english', ${incidentUpdatesTable.title} || ' ' || ${incidentUpdatesTable.description}) @@ ${tsquery}`)
+    )
+  ) as SQL;
+};
+
+// One page of a status page's incident history, newest first
+export const loadIncidentHistory = async (statusPageId: number, filters: IncidentHistoryFilters): Promise<IncidentHistory> => {
+  const conditions: SQL[] = [eq(incidentsTable.status_page_id, statusPageId)];
+
+  if (filters.component_ids && filters.component_ids.length > 0) {
+    conditions.push(inArray(
+      incidentsTable.id,
+      db.select({ id: incidentAffectedComponentsTable.incident_id })
+        .from(incidentAffectedComponentsTable)
+        .where(inArray(incidentAffectedComponentsTable.component_id, filters.component_ids))
+    ));
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    conditions.push(inArray(incidentsTable.status, filters.statuses));
+  }
+  if (filters.from) {
+    conditions.push(gte(incidentsTable.created_at, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(incidentsTable.created_at, filters.to));
+  }
+  if (filters.query) {
+    conditions.push(matchesQuery(filters.query));
+  }
+  if (filters.cursor) {
+    const cursor = decodeHistoryCursor(filters.cursor);
+    conditions.push(sql`(${createdAtMillis}, ${incidentsTable.id}) < (${cursor.created_at.toISOString()}::timestamp, ${cursor.id})`);
+  }
+
+  // One extra row tells whether there is another page
+  const rows = await db.select()
+    .from(incidentsTable)
+    .where(and(...conditions))
+    .orderBy(desc(createdAtMillis), desc(incidentsTable.id))
+    .limit(filters.limit + 1)
+    .execute();
+
+  const pageRows = rows.slice(0, filters.limit);
+  const incidents = await withIncidentTimeline(pageRows);
+
+  const months: IncidentHistoryMonth[] = [];
+  for (const incident of incidents) {
+    const month = historyMonth(incident.created_at);
+    const group = months.at(-1);
+    if (group && group.month === month) {
+      group.incidents.push(incident);
+    } else {
+      months.push({ month, incidents: [incident] });
+    }
+  }
+
+  return {
+    months,
+    next_cursor: rows.length > filters.limit ? encodeHistoryCursor(pageRows[pageRows.length - 1]) : null
+  };
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { invitationsTable, type Invitation } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { verifySignedToken } from './auth';
+
+// Resolve an invite token to a still-pending invitation, or explain why it can no longer be used
+export const findPendingInvitation = async (token: string): Promise<Invitation> => {
+  const invitationId = verifySignedToken(token, 'invitation');
+  if (invitationId === null) {
+    throw new Error('Invitation link is invalid or has expired');
+  }
+
+  const invitations = await db.select()
+    .from(invitationsTable)
+    .where(eq(invitationsTable.id, invitationId))
+    .execute();
+
+  if (invitations.length === 0) {
+    throw new Error('Invitation link is invalid or has expired');
+  }
+
+  const invitation = invitations[0];
+
+  if (invitation.status === 'pending' && invitation.expires_at <= new Date()) {
+    await db.update(invitationsTable)
+      .set({ status: 'expired' })
+      .where(eq(invitationsTable.id, invitation.id))
+      .execute();
+    throw new Error('Invitation has expired');
+  }
+
+  if (invitation.status === 'expired') {
+    throw new Error('Invitation has expired');
+  }
+
+  if (invitation.status !== 'pending') {
+    throw new Error(`Invitation has already been ${invitation.status}`);
+  }
+
+  return invitation;
+};
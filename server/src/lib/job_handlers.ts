@@ -0,0 +1,52 @@
+import { type Job } from '../db/schema';
+import { subscribersToNotify, emailSubscriber, type SubscriberNotification } from './subscribers';
+import { chatIntegrationsToNotify, postToChatIntegration, type ChatNotification } from './chat_notifications';
+import { smsSubscribersToNotify, textSmsSubscriber, type SmsNotification } from './sms_notifications';
+import { enqueueJob } from './jobs';
+
+// What each type of job is given. Payloads are stored as JSON, so they carry ids and text rather than rows.
+// The *.notify jobs find the recipients of a change and queue a job for each of them.
+export interface JobPayloads {
+  'subscribers.notify': { statusPageId: number; notification: SubscriberNotification; affectedComponentIds: number[] };
+  'chat.notify': { statusPageId: number; notification: ChatNotification };
+  'sms.notify': { statusPageId: number; notification: SmsNotification };
+  'subscriber.email': { subscriberId: number; notification: SubscriberNotification };
+  'chat.post': { chatIntegrationId: number; notification: ChatNotification };
+  'sms.text': { smsSubscriberId: number; notification: SmsNotification };
+}
+
+export type JobType = keyof JobPayloads;
+
+export type JobHandlers = { [T in JobType]: (payload: JobPayloads[T], job: Job) => Promise<void> };
+
+// One job per recipient, keyed by the fan-out job and the recipient, so a fan-out that is retried after
+// failing part of the way through queues each recipient once
+const queueForRecipients = async <T extends JobType>(
+  job: Job,
+  type: T,
+  recipientIds: number[],
+  payload: (recipientId: number) => JobPayloads[T]
+): Promise<void> => {
+  for (const recipientId of recipientIds) {
+    await enqueueJob(type, payload(recipientId), { organizationId: job.organization_id, idempotencyKey: `job:${job.id}:${recipientId}` });
+  }
+};
+
+// A handler that throws fails the attempt, and the job is retried later
+export const jobHandlers: JobHandlers = {
+  'subscribers.notify': async ({ statusPageId, notification, affectedComponentIds }, job) => {
+    const subscriberIds = await subscribersToNotify(statusPageId, affectedComponentIds);
+    await queueForRecipients(job, 'subscriber.email', subscriberIds, subscriberId => ({ subscriberId, notification }));
+  },
+  'chat.notify': async ({ statusPageId, notification }, job) => {
+    const chatIntegrationIds = await chatIntegrationsToNotify(statusPageId);
+    await queueForRecipients(job, 'chat.post', chatIntegrationIds, chatIntegrationId => ({ chatIntegrationId, notification }));
+  },
+  'sms.notify': async ({ statusPageId, notification }, job) => {
+    const smsSubscriberIds = await smsSubscribersToNotify(statusPageId, notification);
+    await queueForRecipients(job, 'sms.text', smsSubscriberIds, smsSubscriberId => ({ smsSubscriberId, notification }));
+  },
+  'subscriber.email': ({ subscriberId, notification }) => emailSubscriber(subscriberId, notification),
+  'chat.post': ({ chatIntegrationId, notification }) => postToChatIntegration(chatIntegrationId, notification),
+  'sms.text': ({ smsSubscriberId, notification }) => textSmsSubscriber(smsSubscriberId, notification)
+};
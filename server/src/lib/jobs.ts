@@ -0,0 +1,204 @@
+import { db } from '../db';
+import { jobsTable, type Job } from '../db/schema';
+import { jobHandlers, type JobHandlers, type JobPayloads, type JobType } from './job_handlers';
+import { and, asc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+
+// Workers look for due jobs every second
+export const JOB_POLL_INTERVAL_MS = 1_000;
+
+// Retries back off exponentially from 10 seconds; a job that fails 5 times is dead-lettered
+export const JOB_MAX_ATTEMPTS = 5;
+export const JOB_RETRY_BASE_MS = 10_000;
+
+// A claimed job is left alone by other workers until its claim expires, so a job has this long to finish.
+// Jobs whose worker stopped while running them are picked up again once the claim has expired.
+export const JOB_CLAIM_MS = 15 * 60 * 1000;
+
+const JOB_BATCH_SIZE = 10;
+
+// Succeeded jobs are kept for a week, which is also how long their idempotency keys hold; dead jobs are kept until retried
+export const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const JOB_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface EnqueueJobOptions {
+  // The organization the work is for, which lets its admins see the job; null for work of no organization
+  organizationId?: number | null;
+  idempotencyKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+// Delay before the attempt after the given number of failed ones: 10s, 20s, 40s, ...
+export const jobRetryDelayMs = (failedAttempts: number): number => {
+  return JOB_RETRY_BASE_MS * 2 ** (failedAttempts - 1);
+};
+
+// Queues a job for the workers. With an idempotency key, a job of the same type and key that
+// was queued before is returned instead, so the same work is never queued twice.
+export const enqueueJob = async <T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueJobOptions = {}
+): Promise<Job> => {
+  const inserted = await db.insert(jobsTable)
+    .values({
+      type,
+      payload,
+      organization_id: options.organizationId ?? null,
+      idempotency_key: options.idempotencyKey ?? null,
+      max_attempts: options.maxAttempts ?? JOB_MAX_ATTEMPTS,
+      run_at: options.runAt ?? new Date()
+    })
+    .onConflictDoNothing({ target: [jobsTable.type, jobsTable.idempotency_key] })
+    .returning()
+    .execute();
+
+  if (inserted.length > 0) {
+    return inserted[0];
+  }
+
+  const existing = await db.select()
+    .from(jobsTable)
+    .where(and(eq(jobsTable.type, type), eq(jobsTable.idempotency_key, options.idempotencyKey!)))
+    .execute();
+
+  return existing[0];
+};
+
+// Runs a claimed job and records the outcome, scheduling a retry or dead-lettering it on failure
+export const runJob = async (job: Job, handlers: JobHandlers = jobHandlers, now: Date = new Date()): Promise<Job> => {
+  let error: string | null = null;
+
+  try {
+    // Claiming counts the attempt, so a job whose worker kept stopping mid-run runs out of attempts too
+    if (job.attempts > job.max_attempts) {
+      throw new Error('The job was interrupted on its last attempt');
+    }
+    const handler = handlers[job.type as JobType] as ((payload: unknown, job: Job) => Promise<void>) | undefined;
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+    await handler(job.payload, job);
+  } catch (jobError) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, jobError);
+    error = jobError instanceof Error ? jobError.message : String(jobError);
+  }
+
+  const finishedAt = new Date();
+  const dead = error !== null && job.attempts >= job.max_attempts;
+
+  // Only the worker holding the claim records the outcome: a job that outran its claim may have been picked up
+  // again, and its new run owns the row now
+  const result = await db.update(jobsTable)
+    .set({
+      status: error === null ? 'succeeded' : dead ? 'dead' : 'pending',
+      run_at: error === null || dead ? job.run_at : new Date(now.getTime() + jobRetryDelayMs(job.attempts)),
+      locked_until: null,
+      last_error: error,
+      finished_at: error === null || dead ? finishedAt : null
+    })
+    .where(and(
+      eq(jobsTable.id, job.id),
+      eq(jobsTable.status, 'running'),
+      eq(jobsTable.attempts, job.attempts)
+    ))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    console.error(`Job ${job.id} (${job.type}) was claimed again before it finished; its outcome was not recorded`);
+    return job;
+  }
+
+  return result[0];
+};
+
+// Runs a batch of due jobs, oldest first. Jobs are claimed before they run, so overlapping
+// runs, or several workers, never run the same attempt twice. Returns how many jobs ran.
+export const runDueJobs = async (now: Date = new Date(), handlers: JobHandlers = jobHandlers): Promise<number> => {
+  const due = db.select({ id: jobsTable.id })
+    .from(jobsTable)
+    .where(or(
+      and(eq(jobsTable.status, 'pending'), lte(jobsTable.run_at, now)),
+      and(eq(jobsTable.status, 'running'), lt(jobsTable.locked_until, now))
+    ))
+    .orderBy(asc(jobsTable.run_at), asc(jobsTable.id))
+    .limit(JOB_BATCH_SIZE)
+    .for('update', { skipLocked: true });
+
+  const claimed = await db.update(jobsTable)
+    .set({
+      status: 'running',
+      attempts: sql`${jobsTable.attempts} + 1`,
+      locked_until: new Date(now.getTime() + JOB_CLAIM_MS)
+    })
+    .where(inArray(jobsTable.id, due))
+    .returning()
+    .execute();
+
+  claimed.sort((a, b) => a.run_at.getTime() - b.run_at.getTime() || a.id - b.id);
+  for (const job of claimed) {
+    // A job whose outcome could not be recorded is run again once its claim expires
+    try {
+      await runJob(job, handlers, now);
+    } catch (error) {
+      console.error(`Recording the outcome of job ${job.id} (${job.type}) failed:`, error);
+    }
+  }
+
+  return claimed.length;
+};
+
+// Deletes succeeded jobs past the retention period
+export const purgeFinishedJobs = async (now: Date = new Date()): Promise<number> => {
+  const deleted = await db.delete(jobsTable)
+    .where(and(eq(jobsTable.status, 'succeeded'), lt(jobsTable.finished_at, new Date(now.getTime() - JOB_RETENTION_MS))))
+    .returning({ id: jobsTable.id })
+    .execute();
+
+  return deleted.length;
+};
+
+export interface JobWorker {
+  // Stops polling and waits for the jobs being run to finish
+  stop: () => Promise<void>;
+}
+
+// Runs due jobs until stopped and purges old ones. Any number of workers, in the server
+// process or in separate worker processes, can share the queue.
+export const startJobWorker = (): JobWorker => {
+  let stopping = false;
+  let polling: Promise<void> | null = null;
+
+  const poll = async () => {
+    try {
+      // A full batch means more jobs may be due
+      while (!stopping && await runDueJobs() === JOB_BATCH_SIZE) {
+        continue;
+      }
+    } catch (error) {
+      console.error('Running jobs failed:', error);
+    }
+  };
+
+  const pollTimer = setInterval(() => {
+    if (polling === null) {
+      polling = poll().finally(() => {
+        polling = null;
+      });
+    }
+  }, JOB_POLL_INTERVAL_MS);
+
+  const purgeTimer = setInterval(() => {
+    purgeFinishedJobs().catch((error) => console.error('Job purge failed:', error));
+  }, JOB_PURGE_INTERVAL_MS);
+
+  return {
+    stop: async () => {
+      stopping = true;
+      clearInterval(pollTimer);
+      clearInterval(purgeTimer);
+      await polling;
+    }
+  };
+};
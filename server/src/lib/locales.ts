@@ -0,0 +1,28 @@
+import { type StatusPage } from '../db/schema';
+import { type Locale } from '../schema';
+
+// The default language always stays enabled and is listed first; duplicates are dropped
+export const normalizePageLocales = (defaultLocale: Locale, enabledLocales: Locale[]): Locale[] => {
+  if (!enabledLocales.includes(defaultLocale)) {
+    throw new Error(`The default language '${defaultLocale}' must be one of the enabled languages`);
+  }
+  return [defaultLocale, ...new Set(enabledLocales.filter(locale => locale !== defaultLocale))];
+};
+
+// Incidents are written in the page's default language; translations cover its other enabled languages
+export const assertTranslatableLocale = (page: Pick<StatusPage, 'default_locale' | 'enabled_locales'>, locale: Locale): void => {
+  if (locale === page.default_locale) {
+    throw new Error(`'${locale}' is the default language of the status page`);
+  }
+  if (!page.enabled_locales.includes(locale)) {
+    throw new Error(`'${locale}' is not enabled on the status page`);
+  }
+};
+
+// Audit log snapshot of one translation, so a change shows up as e.g. translation_de: {...} -> {...}
+export const translationAuditSnapshot = (
+  locale: Locale,
+  translation: { title: string; description: string } | undefined
+): Record<string, unknown> => {
+  return { [`translation_${locale}`]: translation ? { title: translation.title, description: translation.description } : null };
+};
@@ -0,0 +1,45 @@
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  // Extra headers such as List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+// Anything that can deliver a message; swapped out in tests and for other providers
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_FROM = process.env['MAIL_FROM'] || 'EdgeStatus <no-reply@edgestatus.local>';
+
+// Base URL of the dashboard, used to build links in outgoing mail
+export const APP_URL = (process.env['APP_URL'] || 'http://localhost').replace(/\/$/, '');
+
+export const createSmtpTransport = (url: string): MailTransport => {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+// Without SMTP configured, messages are written to the server log so links can still be followed locally
+const logTransport: MailTransport = {
+  send: async (message) => {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+};
+
+let transport: MailTransport = process.env['SMTP_URL'] ? createSmtpTransport(process.env['SMTP_URL']) : logTransport;
+
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ from: MAIL_FROM, ...message });
+};
@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { organizationsTable, organizationMembersTable } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+
+// Organizations created before owners had member rows get one on first use, so owner_id always matches an owner row
+export const ensureOwnerMembership = async (organizationId: number): Promise<void> => {
+  const organizations = await db.select({ owner_id: organizationsTable.owner_id })
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, organizationId))
+    .execute();
+
+  if (organizations.length === 0) {
+    throw new Error('Organization not found');
+  }
+
+  const ownerId = organizations[0].owner_id;
+
+  const ownerMembers = await db.select()
+    .from(organizationMembersTable)
+    .where(
+      and(
+        eq(organizationMembersTable.organization_id, organizationId),
+        eq(organizationMembersTable.user_id, ownerId)
+      )
+    )
+    .execute();
+
+  if (ownerMembers.length === 0) {
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: ownerId, role: 'owner' })
+      .execute();
+  } else if (ownerMembers[0].role !== 'owner') {
+    await db.update(organizationMembersTable)
+      .set({ role: 'owner' })
+      .where(eq(organizationMembersTable.id, ownerMembers[0].id))
+      .execute();
+  }
+};
@@ -0,0 +1,43 @@
+import { type SubscriberNotification } from './subscribers';
+import { type ChatNotification } from './chat_notifications';
+import { type SmsNotification } from './sms_notifications';
+import { enqueueJob } from './jobs';
+
+// What to tell each audience about a change to a status page; audiences left out hear nothing
+export interface StatusPageNotifications {
+  affectedComponentIds: number[];
+  subscribers?: SubscriberNotification;
+  chat?: ChatNotification;
+  sms?: SmsNotification;
+}
+
+// Queues the email, chat and SMS fan-out of a change as separate jobs, so the request does not wait for it. Each
+// fan-out job queues a job per recipient, which is retried on its own. Failures are logged rather than thrown:
+// the change has already been made. The idempotency key names the change, so announcing the same change twice
+// queues it once. Webhooks have their own delivery queue (see lib/webhooks.ts).
+export const queueStatusPageNotifications = async (
+  organizationId: number,
+  statusPageId: number,
+  notifications: StatusPageNotifications,
+  idempotencyKey?: string
+): Promise<void> => {
+  const options = { organizationId, idempotencyKey };
+
+  try {
+    if (notifications.subscribers) {
+      await enqueueJob('subscribers.notify', {
+        statusPageId,
+        notification: notifications.subscribers,
+        affectedComponentIds: notifications.affectedComponentIds
+      }, options);
+    }
+    if (notifications.chat) {
+      await enqueueJob('chat.notify', { statusPageId, notification: notifications.chat }, options);
+    }
+    if (notifications.sms) {
+      await enqueueJob('sms.notify', { statusPageId, notification: notifications.sms }, options);
+    }
+  } catch (error) {
+    console.error('Queueing notifications failed:', error);
+  }
+};
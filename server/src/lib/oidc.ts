@@ -0,0 +1,191 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'crypto';
+import { APP_URL } from './mailer';
+import { getPublicUrl, postToPublicUrl } from './outbound_requests';
+
+// Identity providers redirect here; the client page completes the login through completeSsoLogin
+export const SSO_REDIRECT_URI = `${APP_URL}/sso/callback`;
+
+const OIDC_REQUEST_TIMEOUT_MS = 10_000;
+
+// Tolerate small clock differences between us and the identity provider
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export type IdTokenClaims = Record<string, unknown> & {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+};
+
+const normalizeIssuer = (issuer: string): string => issuer.replace(/\/$/, '');
+
+// Issuers are customer-supplied and anyone can start a login, so requests go through the outbound guard and
+// failures do not tell the caller what was reached or how it answered; the details are only logged
+const fetchJson = async (url: string, init: { headers?: Record<string, string>; body?: string } = {}): Promise<Record<string, unknown>> => {
+  const headers = { Accept: 'application/json', ...init.headers };
+
+  let response: Response;
+  try {
+    response = init.body === undefined
+      ? await getPublicUrl(url, { headers, timeoutMs: OIDC_REQUEST_TIMEOUT_MS })
+      : await postToPublicUrl(url, { headers, body: init.body, timeoutMs: OIDC_REQUEST_TIMEOUT_MS });
+  } catch (error) {
+    console.error(`Identity provider request to ${url} failed:`, error);
+    throw new Error('Identity provider could not be reached');
+  }
+
+  if (!response.ok) {
+    console.error(`Identity provider request to ${url} failed with status ${response.status}`);
+    throw new Error('Identity provider request failed');
+  }
+
+  const document = await response.json().catch(() => null);
+  if (typeof document !== 'object' || document === null) {
+    throw new Error('Identity provider returned an invalid response');
+  }
+  return document as Record<string, unknown>;
+};
+
+export const fetchDiscovery = async (issuer: string): Promise<OidcDiscovery> => {
+  const document = await fetchJson(`${normalizeIssuer(issuer)}/.well-known/openid-configuration`);
+
+  // The discovery document must describe the issuer it was fetched from (OIDC Discovery 1.0, section 4.3)
+  if (typeof document['issuer'] !== 'string' || normalizeIssuer(document['issuer']) !== normalizeIssuer(issuer)) {
+    throw new Error('Identity provider discovery document does not match the configured issuer');
+  }
+
+  for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri']) {
+    if (typeof document[field] !== 'string') {
+      throw new Error(`Identity provider discovery document is missing ${field}`);
+    }
+  }
+
+  return document as unknown as OidcDiscovery;
+};
+
+export const generateCodeVerifier = (): string => {
+  return randomBytes(32).toString('base64url');
+};
+
+// PKCE S256 challenge (RFC 7636)
+export const codeChallengeFor = (codeVerifier: string): string => {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+};
+
+export const buildAuthorizationUrl = (discovery: OidcDiscovery, params: {
+  clientId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}): string => {
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', SSO_REDIRECT_URI);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', codeChallengeFor(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+};
+
+// Exchanges the authorization code for tokens using client_secret_basic and returns the raw ID token
+export const exchangeAuthorizationCode = async (discovery: OidcDiscovery, params: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  codeVerifier: string;
+}): Promise<string> => {
+  const credentials = `${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`;
+
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${Buffer.from(credentials).toString('base64')}`
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: SSO_REDIRECT_URI,
+      code_verifier: params.codeVerifier
+    }).toString()
+  });
+
+  if (typeof tokens['id_token'] !== 'string') {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  return tokens['id_token'];
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString());
+};
+
+// Validates signature (RS256 against the provider's JWKS), issuer, audience, expiry and nonce (OIDC Core 1.0, section 3.1.3.7)
+export const verifyIdToken = async (idToken: string, params: {
+  discovery: OidcDiscovery;
+  clientId: string;
+  nonce: string;
+}): Promise<IdTokenClaims> => {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('ID token is malformed');
+  }
+
+  const header = decodeSegment(encodedHeader);
+  if (header['alg'] !== 'RS256') {
+    throw new Error(`Unsupported ID token signing algorithm: ${String(header['alg'])}`);
+  }
+
+  const jwks = await fetchJson(params.discovery.jwks_uri);
+  const keys = Array.isArray(jwks['keys']) ? jwks['keys'] as (JsonWebKey & { kid?: string })[] : [];
+  const key = keys.find(k => k.kty === 'RSA' && (header['kid'] === undefined || k.kid === header['kid']));
+  if (!key) {
+    throw new Error('No matching signing key found for ID token');
+  }
+
+  const signatureValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    createPublicKey({ key, format: 'jwk' }),
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeSegment(encodedPayload) as IdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.iss !== 'string' || normalizeIssuer(claims.iss) !== normalizeIssuer(params.discovery.issuer)) {
+    throw new Error('ID token issuer does not match');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(params.clientId)) {
+    throw new Error('ID token audience does not match');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+
+  if (claims['nonce'] !== params.nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims;
+};
@@ -0,0 +1,148 @@
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Customer-supplied URLs (webhook endpoints, chat webhooks, SSO identity providers) must not reach this machine or its private network.
+// Addresses are checked as the connection is made, against what the hostname resolves to right then,
+// so a hostname that resolved to a public address when it was saved cannot be rebound to an internal one.
+const privateIpv4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  privateIpv4.addSubnet(network, prefix, 'ipv4');
+}
+
+const privateIpv6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  privateIpv6.addSubnet(network, prefix, 'ipv6');
+}
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), multicast and reserved addresses
+export const isPrivateAddress = (ip: string): boolean => {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const address = mapped ? mapped[1] : ip;
+  const version = isIP(address);
+  if (version === 4) {
+    return privateIpv4.check(address, 'ipv4');
+  }
+  if (version === 6) {
+    return privateIpv6.check(address, 'ipv6');
+  }
+  return true;
+};
+
+// host:port pairs that may be private anyway, for self-hosted installs posting to internal services
+const allowedPrivateHosts = new Set(
+  (process.env['ALLOWED_PRIVATE_HOSTS'] || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+);
+
+export const allowPrivateHost = (host: string): void => {
+  allowedPrivateHosts.add(host.toLowerCase());
+};
+
+const OUTBOUND_RESPONSE_LIMIT = 64 * 1024;
+
+const blockedAddressError = (hostname: string, address: string): Error => {
+  return new Error(hostname === address
+    ? `${address} is not a public address`
+    : `${hostname} resolves to ${address}, which is not a public address`);
+};
+
+// Resolves like the system resolver, but fails when any of the addresses is private
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 4);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(blockedAddressError(hostname, blocked.address), '', 4);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+export interface OutboundRequest {
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+}
+
+// Requests a customer-supplied http(s) URL without following redirects. The response body is cut off
+// after 64 KB, since callers only keep a short excerpt of it or read a small JSON document.
+const requestPublicUrl = async (method: 'GET' | 'POST', url: string, { headers, body, timeoutMs }: OutboundRequest): Promise<Response> => {
+  const target = new URL(url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${target.protocol}`);
+  }
+
+  const hostname = target.hostname.replace(/^\[(.*)\]$/, '$1');
+  const allowPrivate = allowedPrivateHosts.has(target.host.toLowerCase());
+  // Literal addresses never go through the lookup
+  if (!allowPrivate && isIP(hostname) && isPrivateAddress(hostname)) {
+    throw blockedAddressError(hostname, hostname);
+  }
+
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const requestHeaders = body === undefined ? headers : { ...headers, 'Content-Length': String(Buffer.byteLength(body)) };
+
+  return new Promise<Response>((resolve, reject) => {
+    const req = request(target, {
+      method,
+      headers: requestHeaders,
+      lookup: allowPrivate ? undefined : publicLookup,
+      signal: AbortSignal.timeout(timeoutMs)
+    }, (res: IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      let length = 0;
+      res.on('data', (chunk: Buffer) => {
+        if (length < OUTBOUND_RESPONSE_LIMIT) {
+          chunks.push(chunk);
+          length += chunk.length;
+        }
+      });
+      res.on('error', reject);
+      res.on('end', () => {
+        const status = res.statusCode ?? 502;
+        const responseBody = Buffer.concat(chunks).subarray(0, OUTBOUND_RESPONSE_LIMIT);
+        // Statuses like 204 and 304 cannot carry a body in a Response
+        const hasBody = responseBody.length > 0 && ![101, 204, 205, 304].includes(status);
+        resolve(new Response(hasBody ? responseBody : null, { status: status >= 200 && status <= 599 ? status : 502 }));
+      });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+};
+
+export const postToPublicUrl = (url: string, request: OutboundRequest & { body: string }): Promise<Response> => {
+  return requestPublicUrl('POST', url, request);
+};
+
+export const getPublicUrl = (url: string, request: Omit<OutboundRequest, 'body'>): Promise<Response> => {
+  return requestPublicUrl('GET', url, request);
+};
@@ -0,0 +1,145 @@
+import { type IncomingMessage } from 'http';
+import { BlockList, isIP } from 'net';
+import { db } from '../db';
+import { statusPagesTable, statusPageSessionsTable, organizationsTable, type StatusPage } from '../db/schema';
+import { type PlanType } from '../schema';
+import { hashToken, pageSessionCookieName, parseCookies } from './auth';
+import { getMemberRole } from './permissions';
+import { and, eq, gt } from 'drizzle-orm';
+
+// Whoever is asking to view a page. Private pages open to an allowlisted address,
+// a session from unlocking the page with its password, or a member of the owning organization.
+export interface PageViewer {
+  ip: string | null;
+  cookies: Record<string, string>;
+  userId: number | null;
+}
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Caddy passes the client address in X-Real-IP. The header is only believed when the request
+// came through Caddy on this machine, since anyone reaching the server directly could set it.
+export const clientAddress = (req: IncomingMessage): string | null => {
+  const remoteAddress = req.socket?.remoteAddress ?? null;
+  const realIp = req.headers['x-real-ip'];
+  if (remoteAddress && LOOPBACK_ADDRESSES.has(remoteAddress) && typeof realIp === 'string' && isIP(realIp.trim())) {
+    return realIp.trim();
+  }
+  return remoteAddress;
+};
+
+export const pageViewerFromRequest = (req: IncomingMessage, userId: number | null = null): PageViewer => {
+  return { ip: clientAddress(req), cookies: parseCookies(req.headers.cookie), userId };
+};
+
+const parseAllowlistEntry = (entry: string): { address: string; prefix: number | null; family: 'ipv4' | 'ipv6' } | null => {
+  const [address, prefixText, extra] = entry.trim().split('/');
+  const version = isIP(address ?? '');
+  if (!version || extra !== undefined) {
+    return null;
+  }
+
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  if (prefixText === undefined) {
+    return { address, prefix: null, family };
+  }
+
+  const prefix = /^\d{1,3}$/.test(prefixText) ? parseInt(prefixText, 10) : NaN;
+  if (!(prefix >= 0 && prefix <= (version === 4 ? 32 : 128))) {
+    return null;
+  }
+  return { address, prefix, family };
+};
+
+// Trims and dedupes addresses and CIDR ranges, rejecting anything else
+export const normalizeIpAllowlist = (entries: string[]): string[] => {
+  const normalized = entries.map(entry => {
+    const parsed = parseAllowlistEntry(entry);
+    if (!parsed) {
+      throw new Error(`'${entry}' is not a valid IP address or CIDR range`);
+    }
+    return parsed.prefix === null ? parsed.address.toLowerCase() : `${parsed.address.toLowerCase()}/${parsed.prefix}`;
+  });
+  return [...new Set(normalized)];
+};
+
+// IPv4 clients may show up as IPv4-mapped IPv6 addresses (::ffff:10.0.0.1), which still match IPv4 ranges
+export const isIpAllowed = (ip: string | null, allowlist: string[]): boolean => {
+  if (!ip || allowlist.length === 0) {
+    return false;
+  }
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const address = mapped ? mapped[1] : ip;
+  const family = isIP(address) === 4 ? 'ipv4' : isIP(address) === 6 ? 'ipv6' : null;
+  if (!family) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const entry of allowlist) {
+    const parsed = parseAllowlistEntry(entry);
+    if (!parsed) {
+      continue;
+    }
+    if (parsed.prefix === null) {
+      blockList.addAddress(parsed.address, parsed.family);
+    } else {
+      blockList.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+  return blockList.check(address, family);
+};
+
+const hasPageSession = async (statusPageId: number, viewer: PageViewer): Promise<boolean> => {
+  const token = viewer.cookies[pageSessionCookieName(statusPageId)];
+  if (!token) {
+    return false;
+  }
+
+  const sessions = await db.select({ id: statusPageSessionsTable.id })
+    .from(statusPageSessionsTable)
+    .where(
+      and(
+        eq(statusPageSessionsTable.status_page_id, statusPageId),
+        eq(statusPageSessionsTable.token_hash, hashToken(token)),
+        gt(statusPageSessionsTable.expires_at, new Date())
+      )
+    )
+    .execute();
+
+  return sessions.length > 0;
+};
+
+export const canViewStatusPage = async (page: StatusPage, viewer: PageViewer): Promise<boolean> => {
+  if (page.is_public || isIpAllowed(viewer.ip, page.access_ip_allowlist)) {
+    return true;
+  }
+  if (await hasPageSession(page.id, viewer)) {
+    return true;
+  }
+  return viewer.userId !== null && (await getMemberRole(viewer.userId, page.organization_id)) !== null;
+};
+
+// Looks up a page for the public routes. Without a viewer, private pages are as unknown as missing ones;
+// with one, a private page they may not see is reported as private so they can be asked to unlock it.
+export const findViewableStatusPage = async (
+  slug: string,
+  viewer: PageViewer | null
+): Promise<{ page: StatusPage; planType: PlanType }> => {
+  const pages = await db.select({ page: statusPagesTable, planType: organizationsTable.plan_type })
+    .from(statusPagesTable)
+    .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+    .where(eq(statusPagesTable.slug, slug))
+    .execute();
+
+  if (pages.length === 0 || (!pages[0].page.is_public && !viewer)) {
+    throw new Error('Status page not found');
+  }
+
+  if (viewer && !(await canViewStatusPage(pages[0].page, viewer))) {
+    throw new Error('Status page is private');
+  }
+
+  return pages[0];
+};
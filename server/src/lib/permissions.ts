@@ -0,0 +1,306 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import {
+  organizationsTable,
+  organizationMembersTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  maintenanceWindowsTable,
+  apiKeysTable,
+  invitationsTable,
+  subscribersTable,
+  webhookEndpointsTable,
+  webhookDeliveriesTable,
+  chatIntegrationsTable,
+  smsSubscribersTable,
+  jobsTable
+} from '../db/schema';
+import { type UserRole, type ApiKeyScope, type ApiKeyPrincipal } from '../schema';
+import { eq, and, or } from 'drizzle-orm';
+import { isTwoFactorEnabled } from './two_factor';
+
+export type Permission =
+  | 'organization:read'
+  | 'incident:manage'
+  | 'maintenance:manage'
+  | 'status_page:manage'
+  | 'component:manage'
+  | 'api_key:manage'
+  | 'audit_log:read'
+  | 'webhook:manage'
+  | 'job:manage'
+  | 'member:manage'
+  | 'billing:manage';
+
+// Each role inherits everything granted to the roles below it
+const viewerPermissions: Permission[] = ['organization:read'];
+const memberPermissions: Permission[] = [...viewerPermissions, 'incident:manage', 'maintenance:manage'];
+const adminPermissions: Permission[] = [...memberPermissions, 'status_page:manage', 'component:manage', 'api_key:manage', 'audit_log:read', 'webhook:manage', 'job:manage'];
+const ownerPermissions: Permission[] = [...adminPermissions, 'member:manage', 'billing:manage'];
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  viewer: viewerPermissions,
+  member: memberPermissions,
+  admin: adminPermissions,
+  owner: ownerPermissions
+};
+
+// Permissions an API key may exercise; anything not listed is never available to keys
+export const scopePermissions: Partial<Record<Permission, ApiKeyScope>> = {
+  'organization:read': 'read',
+  'incident:manage': 'incidents:write',
+  'maintenance:manage': 'maintenance:write',
+  'component:manage': 'components:write'
+};
+
+// Who is making the request: a signed-in user, or an API key acting for the user who created it
+export interface Actor {
+  userId: number;
+  apiKey: ApiKeyPrincipal | null;
+}
+
+export type PermissionTarget =
+  | { organizationId: number }
+  | { statusPageId: number }
+  | { componentId: number }
+  | { incidentId: number }
+  | { incidentUpdateId: number }
+  | { maintenanceWindowId: number }
+  | { subscriberId: number }
+  | { chatIntegrationId: number }
+  | { smsSubscriberId: number }
+  | { apiKeyId: number }
+  | { invitationId: number }
+  | { webhookEndpointId: number }
+  | { webhookDeliveryId: number }
+  | { jobId: number };
+
+export interface TargetScope {
+  organizationId: number;
+  statusPageId: number | null;
+}
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return rolePermissions[role].includes(permission);
+};
+
+// Find the organization (and status page, where there is one) owning the target, or null if it does not exist
+export const resolveTargetScope = async (target: PermissionTarget): Promise<TargetScope | null> => {
+  if ('organizationId' in target) {
+    const results = await db.select({ organization_id: organizationsTable.id })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, target.organizationId))
+      .execute();
+    return results.length > 0 ? { organizationId: results[0].organization_id, statusPageId: null } : null;
+  }
+
+  if ('apiKeyId' in target) {
+    const results = await db.select({ organization_id: apiKeysTable.organization_id })
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, target.apiKeyId))
+      .execute();
+    return results.length > 0 ? { organizationId: results[0].organization_id, statusPageId: null } : null;
+  }
+
+  if ('invitationId' in target) {
+    const results = await db.select({ organization_id: invitationsTable.organization_id })
+      .from(invitationsTable)
+      .where(eq(invitationsTable.id, target.invitationId))
+      .execute();
+    return results.length > 0 ? { organizationId: results[0].organization_id, statusPageId: null } : null;
+  }
+
+  if ('webhookEndpointId' in target) {
+    const results = await db.select({ organization_id: webhookEndpointsTable.organization_id })
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, target.webhookEndpointId))
+      .execute();
+    return results.length > 0 ? { organizationId: results[0].organization_id, statusPageId: null } : null;
+  }
+
+  // Jobs of no organization are not anyone's to see
+  if ('jobId' in target) {
+    const results = await db.select({ organization_id: jobsTable.organization_id })
+      .from(jobsTable)
+      .where(eq(jobsTable.id, target.jobId))
+      .execute();
+    return results.length > 0 && results[0].organization_id !== null
+      ? { organizationId: results[0].organization_id, statusPageId: null }
+      : null;
+  }
+
+  if ('webhookDeliveryId' in target) {
+    const results = await db.select({ organization_id: webhookEndpointsTable.organization_id })
+      .from(webhookDeliveriesTable)
+      .innerJoin(webhookEndpointsTable, eq(webhookDeliveriesTable.webhook_endpoint_id, webhookEndpointsTable.id))
+      .where(eq(webhookDeliveriesTable.id, target.webhookDeliveryId))
+      .execute();
+    return results.length > 0 ? { organizationId: results[0].organization_id, statusPageId: null } : null;
+  }
+
+  let results: { organization_id: number; status_page_id: number }[];
+
+  if ('statusPageId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(statusPagesTable)
+      .where(eq(statusPagesTable.id, target.statusPageId))
+      .execute();
+  } else if ('componentId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(componentsTable)
+      .innerJoin(statusPagesTable, eq(componentsTable.status_page_id, statusPagesTable.id))
+      .where(eq(componentsTable.id, target.componentId))
+      .execute();
+  } else if ('incidentId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(incidentsTable)
+      .innerJoin(statusPagesTable, eq(incidentsTable.status_page_id, statusPagesTable.id))
+      .where(eq(incidentsTable.id, target.incidentId))
+      .execute();
+  } else if ('incidentUpdateId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(incidentUpdatesTable)
+      .innerJoin(incidentsTable, eq(incidentUpdatesTable.incident_id, incidentsTable.id))
+      .innerJoin(statusPagesTable, eq(incidentsTable.status_page_id, statusPagesTable.id))
+      .where(eq(incidentUpdatesTable.id, target.incidentUpdateId))
+      .execute();
+  } else if ('subscriberId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(subscribersTable)
+      .innerJoin(statusPagesTable, eq(subscribersTable.status_page_id, statusPagesTable.id))
+      .where(eq(subscribersTable.id, target.subscriberId))
+      .execute();
+  } else if ('chatIntegrationId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(chatIntegrationsTable)
+      .innerJoin(statusPagesTable, eq(chatIntegrationsTable.status_page_id, statusPagesTable.id))
+      .where(eq(chatIntegrationsTable.id, target.chatIntegrationId))
+      .execute();
+  } else if ('smsSubscriberId' in target) {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(smsSubscribersTable)
+      .innerJoin(statusPagesTable, eq(smsSubscribersTable.status_page_id, statusPagesTable.id))
+      .where(eq(smsSubscribersTable.id, target.smsSubscriberId))
+      .execute();
+  } else {
+    results = await db.select({ organization_id: statusPagesTable.organization_id, status_page_id: statusPagesTable.id })
+      .from(maintenanceWindowsTable)
+      .innerJoin(statusPagesTable, eq(maintenanceWindowsTable.status_page_id, statusPagesTable.id))
+      .where(eq(maintenanceWindowsTable.id, target.maintenanceWindowId))
+      .execute();
+  }
+
+  return results.length > 0
+    ? { organizationId: results[0].organization_id, statusPageId: results[0].status_page_id }
+    : null;
+};
+
+// The organization owner always has the owner role, whether or not a member row exists
+export const getMemberRole = async (userId: number, organizationId: number): Promise<UserRole | null> => {
+  const organizations = await db.select({ owner_id: organizationsTable.owner_id })
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, organizationId))
+    .execute();
+
+  if (organizations.length === 0) {
+    return null;
+  }
+
+  if (organizations[0].owner_id === userId) {
+    return 'owner';
+  }
+
+  const members = await db.select({ role: organizationMembersTable.role })
+    .from(organizationMembersTable)
+    .where(
+      and(
+        eq(organizationMembersTable.organization_id, organizationId),
+        eq(organizationMembersTable.user_id, userId)
+      )
+    )
+    .execute();
+
+  return members[0]?.role ?? null;
+};
+
+// API keys are limited to their scopes, their organization and any status page restriction
+const apiKeyAllows = (apiKey: ApiKeyPrincipal, permission: Permission, scope: TargetScope): boolean => {
+  const requiredScope = scopePermissions[permission];
+  if (!requiredScope || !apiKey.scopes.includes(requiredScope)) {
+    return false;
+  }
+
+  if (apiKey.organization_id !== scope.organizationId) {
+    return false;
+  }
+
+  if (apiKey.status_page_ids.length > 0) {
+    return scope.statusPageId !== null && apiKey.status_page_ids.includes(scope.statusPageId);
+  }
+
+  return true;
+};
+
+const requiresTwoFactor = async (organizationId: number): Promise<boolean> => {
+  const organizations = await db.select({ require_two_factor: organizationsTable.require_two_factor })
+    .from(organizationsTable)
+    .where(eq(organizationsTable.id, organizationId))
+    .execute();
+
+  return organizations[0]?.require_two_factor ?? false;
+};
+
+// Throws NOT_FOUND for unknown targets and FORBIDDEN when the actor lacks the permission
+export const authorize = async (
+  actor: Actor,
+  permission: Permission,
+  target: PermissionTarget
+): Promise<{ organizationId: number; role: UserRole }> => {
+  const scope = await resolveTargetScope(target);
+  if (scope === null) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Resource not found' });
+  }
+
+  if (actor.apiKey && !apiKeyAllows(actor.apiKey, permission, scope)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `API key is not allowed: ${permission}` });
+  }
+
+  // Keys never exceed the current role of the user who created them
+  const role = await getMemberRole(actor.userId, scope.organizationId);
+  if (role === null || !hasPermission(role, permission)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permission}` });
+  }
+
+  // Organizations may require 2FA for any change; reads stay open so members can still find their way to enroll.
+  // API keys are held to the enrollment of the user who created them.
+  if (permission !== 'organization:read' && await requiresTwoFactor(scope.organizationId) && !(await isTwoFactorEnabled(actor.userId))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This organization requires two-factor authentication' });
+  }
+
+  return { organizationId: scope.organizationId, role };
+};
+
+// Organizations the user owns or belongs to
+export const getUserOrganizationIds = async (userId: number): Promise<number[]> => {
+  const memberships = await db.select({ organization_id: organizationsTable.id })
+    .from(organizationsTable)
+    .leftJoin(organizationMembersTable, eq(organizationsTable.id, organizationMembersTable.organization_id))
+    .where(or(eq(organizationsTable.owner_id, userId), eq(organizationMembersTable.user_id, userId)))
+    .execute();
+
+  return [...new Set(memberships.map(m => m.organization_id))];
+};
+
+// Account-wide actions on another user are only allowed when the actor can manage members in every organization that user belongs to
+export const authorizeUserAdministration = async (actor: Actor, userId: number): Promise<void> => {
+  const organizationIds = await getUserOrganizationIds(userId);
+  if (organizationIds.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Resource not found' });
+  }
+
+  for (const organizationId of organizationIds) {
+    await authorize(actor, 'member:manage', { organizationId });
+  }
+};
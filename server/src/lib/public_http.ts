@@ -0,0 +1,282 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { findCustomDomainSlug } from './custom_domains';
+import { findViewableStatusPage, pageViewerFromRequest, type PageViewer } from './page_access';
+import { SESSION_COOKIE_NAME, parseCookies } from './auth';
+import { getSessionUser } from '../handlers/get_session_user';
+import { statuspageEndpoints, type StatuspageEndpoint } from './statuspage_v2';
+import { feedContentTypes, renderAtomFeed, renderRssFeed, type FeedFormat } from './feeds';
+import { ICALENDAR_CONTENT_TYPE, renderCalendar } from './icalendar';
+import { renderStatusBadge } from './badges';
+import { EMBED_CONTENT_TYPE, renderEmbedScript } from './embed';
+import { getStatuspageDocument } from '../handlers/get_statuspage_document';
+import { getStatusFeed } from '../handlers/get_status_feed';
+import { getStatusFeedVersion } from '../handlers/get_status_feed_version';
+import { getMaintenanceCalendar } from '../handlers/get_maintenance_calendar';
+import { getStatusBadge } from '../handlers/get_status_badge';
+import { getStatusEmbed } from '../handlers/get_status_embed';
+import { unsubscribe } from '../handlers/unsubscribe';
+
+// Plain HTTP endpoints for status pages, for consumers that expect fixed URLs rather than tRPC.
+// A page is addressed as /s/:slug/<path>, or as /<path> on its verified custom domain.
+
+interface PublicRoute {
+  pattern: RegExp;
+  handle: (
+    slug: string,
+    match: RegExpMatchArray,
+    url: URL,
+    req: IncomingMessage,
+    res: ServerResponse,
+    viewer: PageViewer
+  ) => Promise<void>;
+}
+
+// Public data may be cached briefly by browsers and proxies
+const PUBLIC_CACHE_CONTROL = 'public, max-age=30';
+
+// Private pages must never be stored by shared caches or readable by other sites' scripts
+const PRIVATE_CACHE_CONTROL = 'private, no-cache';
+
+// Responses for private pages, which get PRIVATE_CACHE_CONTROL and no cross-origin headers
+const privateResponses = new WeakSet<ServerResponse>();
+
+const withPrivacy = (res: ServerResponse, headers: Record<string, string>): Record<string, string> => {
+  if (!privateResponses.has(res)) {
+    return headers;
+  }
+  const { 'Access-Control-Allow-Origin': _origin, ...rest } = headers;
+  return { ...rest, 'Cache-Control': PRIVATE_CACHE_CONTROL, 'Cross-Origin-Resource-Policy': 'same-site' };
+};
+
+// Badges and the embed script are loaded by other sites' pages, including ones that isolate themselves
+// with Cross-Origin-Embedder-Policy. Image proxies may serve a slightly stale copy while revalidating.
+const EMBEDDABLE_HEADERS = {
+  'Cache-Control': 'public, max-age=60, stale-while-revalidate=300',
+  'Access-Control-Allow-Origin': '*',
+  'Cross-Origin-Resource-Policy': 'cross-origin'
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, withPrivacy(res, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': PUBLIC_CACHE_CONTROL }));
+  res.end(JSON.stringify(body));
+};
+
+// Strong validator over everything that identifies one representation
+export const etagFor = (...parts: (string | number)[]): string => {
+  return `"${createHash('sha1').update(parts.join('|')).digest('hex')}"`;
+};
+
+// If-None-Match wins over If-Modified-Since (RFC 9110, section 13.2.2)
+const isNotModified = (req: IncomingMessage, etag: string, lastModified?: Date): boolean => {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some(tag => {
+      const candidate = tag.trim().replace(/^W\//, '');
+      return candidate === '*' || candidate === etag;
+    });
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates only have second precision
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+};
+
+// Answers 304 when the client's copy is still current, so the body is only rendered when it has changed.
+// extraHeaders override the defaults.
+export const sendConditional = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  version: { etag: string; lastModified?: Date },
+  contentType: string,
+  render: () => Promise<string>,
+  extraHeaders: Record<string, string> = {}
+): Promise<void> => {
+  const headers = withPrivacy(res, {
+    'ETag': version.etag,
+    ...(version.lastModified ? { 'Last-Modified': version.lastModified.toUTCString() } : {}),
+    'Cache-Control': PUBLIC_CACHE_CONTROL,
+    ...extraHeaders
+  });
+
+  if (isNotModified(req, version.etag, version.lastModified)) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+
+  const body = await render();
+  res.writeHead(200, { ...headers, 'Content-Type': contentType });
+  res.end(body);
+};
+
+// ?component=1&component=2 or ?component=1,2
+const parseComponentIds = (params: URLSearchParams): number[] => {
+  const ids = params.getAll('component')
+    .flatMap(value => value.split(','))
+    .map(value => parseInt(value, 10))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)].sort((a, b) => a - b);
+};
+
+const routes: PublicRoute[] = [
+  {
+    // Atlassian Statuspage v2 compatible API
+    pattern: /^\/v2\/(.+)\.json$/,
+    handle: async (slug, match, _url, _req, res, viewer) => {
+      const endpoint = match[1] as StatuspageEndpoint;
+      if (!statuspageEndpoints.includes(endpoint)) {
+        return sendJson(res, 404, { error: 'Not found' });
+      }
+      sendJson(res, 200, await getStatuspageDocument(slug, endpoint, viewer));
+    }
+  },
+  {
+    // RSS 2.0 and Atom feeds, optionally narrowed to some components
+    pattern: /^\/history\.(rss|atom)$/,
+    handle: async (slug, match, url, req, res, viewer) => {
+      const format = match[1] as FeedFormat;
+      const componentIds = parseComponentIds(url.searchParams);
+      const lastModified = await getStatusFeedVersion(slug, viewer);
+
+      await sendConditional(
+        req,
+        res,
+        { etag: etagFor(slug, format, componentIds.join(','), lastModified.getTime()), lastModified },
+        feedContentTypes[format],
+        async () => {
+          const feed = await getStatusFeed(slug, componentIds, viewer);
+          const selfUrl = `${feed.link}/history.${format}${url.search}`;
+          return format === 'rss' ? renderRssFeed(feed, selfUrl) : renderAtomFeed(feed, selfUrl);
+        }
+      );
+    }
+  },
+  {
+    // iCalendar feed of maintenance windows, optionally narrowed to some components
+    pattern: /^\/maintenance\.ics$/,
+    handle: async (slug, _match, url, req, res, viewer) => {
+      const componentIds = parseComponentIds(url.searchParams);
+      const lastModified = await getStatusFeedVersion(slug, viewer);
+      // Old windows age out of the calendar daily even when nothing else changes
+      const day = Math.floor(Date.now() / (24 * 60 * 60 * 1000));
+
+      await sendConditional(
+        req,
+        res,
+        { etag: etagFor(slug, 'ics', componentIds.join(','), lastModified.getTime(), day), lastModified },
+        ICALENDAR_CONTENT_TYPE,
+        async () => renderCalendar(await getMaintenanceCalendar(slug, componentIds, viewer))
+      );
+    }
+  },
+  {
+    // SVG status badge for the whole page or a single component
+    pattern: /^(?:\/components\/(\d+))?\/badge\.svg$/,
+    handle: async (slug, match, _url, req, res, viewer) => {
+      const componentId = match[1] ? parseInt(match[1], 10) : undefined;
+      // Rendering is cheap, so the badge itself is the version
+      const svg = renderStatusBadge(await getStatusBadge(slug, componentId, viewer));
+      await sendConditional(req, res, { etag: etagFor(svg) }, 'image/svg+xml; charset=utf-8', async () => svg, EMBEDDABLE_HEADERS);
+    }
+  },
+  {
+    // Script that shows a banner on other sites while there is an active incident or maintenance
+    pattern: /^\/embed\.js$/,
+    handle: async (slug, _match, _url, req, res, viewer) => {
+      const script = renderEmbedScript(await getStatusEmbed(slug, viewer));
+      await sendConditional(req, res, { etag: etagFor(script) }, EMBED_CONTENT_TYPE, async () => script, EMBEDDABLE_HEADERS);
+    }
+  }
+];
+
+const SLUG_PREFIX = /^\/s\/([^/]+)(\/.*)$/;
+
+// Target of the List-Unsubscribe header in subscriber emails. Mail clients POST to it without
+// opening a browser (RFC 8058), so it answers in plain text instead of going through tRPC.
+const ONE_CLICK_UNSUBSCRIBE_PATH = '/one-click-unsubscribe';
+
+const handleOneClickUnsubscribe = async (url: URL, res: ServerResponse): Promise<void> => {
+  const headers = { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' };
+  try {
+    await unsubscribe(url.searchParams.get('token') ?? '');
+    res.writeHead(200, headers);
+    res.end('You have been unsubscribed.');
+  } catch {
+    res.writeHead(400, headers);
+    res.end('This unsubscribe link is invalid or has expired.');
+  }
+};
+
+// Members of the owning organization are recognized by their dashboard session
+const viewerFor = async (req: IncomingMessage): Promise<PageViewer> => {
+  const sessionToken = parseCookies(req.headers.cookie)[SESSION_COOKIE_NAME];
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+  return pageViewerFromRequest(req, user?.id ?? null);
+};
+
+// Serves the request when it matches a public route; false hands it on to tRPC
+export const handlePublicHttpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  let url: URL;
+  try {
+    url = new URL(req.url ?? '/', 'http://localhost');
+  } catch {
+    sendJson(res, 400, { error: 'Bad request' });
+    return true;
+  }
+
+  if (req.method === 'POST' && url.pathname === ONE_CLICK_UNSUBSCRIBE_PATH) {
+    await handleOneClickUnsubscribe(url, res);
+    return true;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return false;
+  }
+
+  const prefixed = url.pathname.match(SLUG_PREFIX);
+  const path = prefixed ? prefixed[2] : url.pathname;
+
+  for (const route of routes) {
+    const match = path.match(route.pattern);
+    if (!match) {
+      continue;
+    }
+
+    try {
+      const slug = prefixed ? decodeURIComponent(prefixed[1]) : await findCustomDomainSlug(req.headers.host);
+      if (!slug) {
+        return false;
+      }
+
+      const viewer = await viewerFor(req);
+      const { page } = await findViewableStatusPage(slug, viewer);
+      if (!page.is_public) {
+        privateResponses.add(res);
+      }
+      await route.handle(slug, match, url, req, res, viewer);
+    } catch (error) {
+      const notFound = error instanceof Error && ['Status page not found', 'Component not found'].includes(error.message);
+      const forbidden = error instanceof Error && error.message === 'Status page is private';
+      if (!notFound && !forbidden) {
+        console.error('Public HTTP request failed:', error);
+      }
+      if (!res.headersSent) {
+        if (forbidden) {
+          privateResponses.add(res);
+          sendJson(res, 403, { error: 'This status page is private' });
+        } else {
+          sendJson(res, notFound ? 404 : 500, { error: notFound ? 'Not found' : 'Internal server error' });
+        }
+      }
+    }
+    return true;
+  }
+
+  return false;
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { organizationMembersTable, invitationsTable } from '../db/schema';
+import { type PlanType } from '../schema';
+import { eq, and, gt, count } from 'drizzle-orm';
+
+// Team member limits per plan; pending invitations hold a seat until they are accepted, revoked or expire
+export const memberLimits: Record<PlanType, number> = {
+  free: 7,
+  pro: 35,
+  plus: 50,
+  enterprise: Infinity
+};
+
+export const countUsedSeats = async (organizationId: number): Promise<number> => {
+  const memberCountResult = await db.select({ count: count() })
+    .from(organizationMembersTable)
+    .where(eq(organizationMembersTable.organization_id, organizationId))
+    .execute();
+
+  const pendingCountResult = await db.select({ count: count() })
+    .from(invitationsTable)
+    .where(
+      and(
+        eq(invitationsTable.organization_id, organizationId),
+        eq(invitationsTable.status, 'pending'),
+        gt(invitationsTable.expires_at, new Date())
+      )
+    )
+    .execute();
+
+  return memberCountResult[0].count + pendingCountResult[0].count;
+};
+
+export const assertSeatAvailable = async (organizationId: number, planType: PlanType): Promise<void> => {
+  const usedSeats = await countUsedSeats(organizationId);
+  const limit = memberLimits[planType];
+  if (usedSeats >= limit) {
+    throw new Error(`Organization has reached the member limit for ${planType} plan (${limit} members)`);
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { generateToken, hashToken, SESSION_TTL_MS, TWO_FACTOR_CHALLENGE_TTL_MS } from './auth';
+
+// Issue a new session; only the hash of the token is persisted.
+// Sessions awaiting a second factor are short-lived and do not authenticate until verified.
+export const createSession = async (userId: number, twoFactorPending: boolean = false): Promise<{ token: string; expires_at: Date }> => {
+  const token = generateToken();
+  const expires_at = new Date(Date.now() + (twoFactorPending ? TWO_FACTOR_CHALLENGE_TTL_MS : SESSION_TTL_MS));
+
+  await db.insert(sessionsTable)
+    .values({
+      user_id: userId,
+      token_hash: hashToken(token),
+      expires_at,
+      two_factor_pending: twoFactorPending
+    })
+    .execute();
+
+  return { token, expires_at };
+};
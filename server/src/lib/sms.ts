@@ -0,0 +1,257 @@
+import { db } from '../db';
+import { smsMessagesTable, organizationsTable } from '../db/schema';
+import { type PlanType, type SmsUsage } from '../schema';
+import { and, count, eq, gte, inArray } from 'drizzle-orm';
+
+const SMS_REQUEST_TIMEOUT_MS = 10_000;
+
+// Notifications an organization may text per calendar month (UTC)
+export const smsMonthlyQuotas: Record<PlanType, number> = {
+  free: 0,
+  pro: 100,
+  plus: 500,
+  enterprise: 5000
+};
+
+// Anyone can ask for a verification code, so codes have their own budget instead of using up the monthly quota:
+// 50 a day per status page and 5 an hour per address asking for them
+export const SMS_VERIFICATION_PAGE_DAILY_LIMIT = 50;
+export const SMS_VERIFICATION_IP_HOURLY_LIMIT = 5;
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+// Recipients who replied STOP are refused by the carrier or provider rather than failing the send
+export type SmsSendResult = { status: 'sent'; id: string } | { status: 'opted_out' };
+
+// What a text is sent for, which decides the budget it is counted against
+export type SmsOrigin =
+  | { kind: 'notification' }
+  | { kind: 'verification'; statusPageId: number; ip: string | null };
+
+// Anything that can deliver a text; swapped out in tests and for other providers.
+// Voice calls are not supported: a call needs its own opt-in, spoken wording and per-minute quota,
+// so it would get a provider interface of its own next to this one rather than a method on it.
+export interface SmsProvider {
+  send(message: SmsMessage & { from: string }): Promise<SmsSendResult>;
+}
+
+export const SMS_FROM = process.env['SMS_FROM'] || '';
+
+// Twilio answers sends to numbers that opted out with this error code
+const TWILIO_OPTED_OUT_CODE = 21610;
+
+// Anything speaking Twilio's Messages API; apiUrl points elsewhere for compatible providers and in tests
+export const createTwilioProvider = (options: { accountSid: string; authToken: string; apiUrl?: string }): SmsProvider => {
+  const apiUrl = (options.apiUrl || 'https://api.twilio.com').replace(/\/$/, '');
+  const credentials = Buffer.from(`${options.accountSid}:${options.authToken}`).toString('base64');
+
+  return {
+    send: async (message) => {
+      const response = await fetch(`${apiUrl}/2010-04-01/Accounts/${encodeURIComponent(options.accountSid)}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({ From: message.from, To: message.to, Body: message.body }).toString(),
+        signal: AbortSignal.timeout(SMS_REQUEST_TIMEOUT_MS)
+      });
+
+      const result = await response.json().catch(() => ({})) as { sid?: string; code?: number; message?: string };
+      if (response.ok && result.sid) {
+        return { status: 'sent', id: result.sid };
+      }
+      if (result.code === TWILIO_OPTED_OUT_CODE) {
+        return { status: 'opted_out' };
+      }
+      throw new Error(`Twilio error ${result.code ?? response.status}: ${result.message ?? 'request failed'}`);
+    }
+  };
+};
+
+export interface MemorySmsProvider extends SmsProvider {
+  messages: (SmsMessage & { from: string })[];
+  // Numbers that replied STOP
+  optedOut: Set<string>;
+}
+
+// Keeps texts in memory instead of sending them; for tests and local development
+export const createMemorySmsProvider = (): MemorySmsProvider => {
+  const messages: (SmsMessage & { from: string })[] = [];
+  const optedOut = new Set<string>();
+
+  return {
+    messages,
+    optedOut,
+    send: async (message) => {
+      if (optedOut.has(message.to)) {
+        return { status: 'opted_out' };
+      }
+      messages.push(message);
+      return { status: 'sent', id: `memory-${messages.length}` };
+    }
+  };
+};
+
+// Without a provider configured, texts are written to the server log so verification codes can still be entered locally
+const logProvider: SmsProvider = {
+  send: async (message) => {
+    console.log(`SMS to ${message.to}: ${message.body}`);
+    return { status: 'sent', id: `log-${Date.now()}` };
+  }
+};
+
+let provider: SmsProvider = process.env['TWILIO_ACCOUNT_SID'] && process.env['TWILIO_AUTH_TOKEN']
+  ? createTwilioProvider({
+    accountSid: process.env['TWILIO_ACCOUNT_SID'],
+    authToken: process.env['TWILIO_AUTH_TOKEN'],
+    apiUrl: process.env['TWILIO_API_URL']
+  })
+  : logProvider;
+
+export const setSmsProvider = (smsProvider: SmsProvider): void => {
+  provider = smsProvider;
+};
+
+export const smsQuotaPeriod = (now: Date = new Date()): { start: Date; end: Date } => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+});
+
+// Texts waiting on the provider count too, so concurrent sends cannot overshoot a budget
+const countedStatuses = inArray(smsMessagesTable.status, ['pending', 'sent']);
+
+// Budgets are counted in the transaction that holds the organization's lock
+type SmsExecutor = Pick<typeof db, 'select'>;
+
+const countNotificationsSince = async (executor: SmsExecutor, organizationId: number, start: Date): Promise<number> => {
+  const result = await executor.select({ count: count() })
+    .from(smsMessagesTable)
+    .where(
+      and(
+        eq(smsMessagesTable.organization_id, organizationId),
+        eq(smsMessagesTable.kind, 'notification'),
+        countedStatuses,
+        gte(smsMessagesTable.created_at, start)
+      )
+    )
+    .execute();
+  return result[0].count;
+};
+
+export const getSmsUsageForOrganization = async (organizationId: number, planType: PlanType): Promise<SmsUsage> => {
+  const { start, end } = smsQuotaPeriod();
+
+  return {
+    organization_id: organizationId,
+    plan_type: planType,
+    quota: smsMonthlyQuotas[planType],
+    used: await countNotificationsSince(db, organizationId, start),
+    period_start: start,
+    period_end: end
+  };
+};
+
+const hasVerificationBudget = async (executor: SmsExecutor, statusPageId: number, ip: string | null, now: Date): Promise<boolean> => {
+  const forPage = await executor.select({ count: count() })
+    .from(smsMessagesTable)
+    .where(and(
+      eq(smsMessagesTable.status_page_id, statusPageId),
+      eq(smsMessagesTable.kind, 'verification'),
+      countedStatuses,
+      gte(smsMessagesTable.created_at, new Date(now.getTime() - 24 * 60 * 60 * 1000))
+    ))
+    .execute();
+  if (forPage[0].count >= SMS_VERIFICATION_PAGE_DAILY_LIMIT) {
+    return false;
+  }
+  if (!ip) {
+    return true;
+  }
+
+  const forIp = await executor.select({ count: count() })
+    .from(smsMessagesTable)
+    .where(and(
+      eq(smsMessagesTable.requester_ip, ip),
+      eq(smsMessagesTable.kind, 'verification'),
+      countedStatuses,
+      gte(smsMessagesTable.created_at, new Date(now.getTime() - 60 * 60 * 1000))
+    ))
+    .execute();
+  return forIp[0].count < SMS_VERIFICATION_IP_HOURLY_LIMIT;
+};
+
+// Sends a text on behalf of an organization within its budget, and logs it. Notifications count against the
+// plan's monthly quota, verification codes against their own limits. The text's place in the budget is reserved
+// before the provider is called, with the organization locked so concurrent sends take their turn. Provider
+// errors are logged and rethrown; failed texts do not count.
+export const sendSms = async (
+  organizationId: number,
+  planType: PlanType,
+  message: SmsMessage,
+  origin: SmsOrigin
+): Promise<SmsSendResult | { status: 'over_quota' } | { status: 'rate_limited' }> => {
+  if (smsMonthlyQuotas[planType] === 0) {
+    return { status: 'over_quota' };
+  }
+
+  const reservation = await db.transaction(async (tx) => {
+    await tx.select({ id: organizationsTable.id })
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .for('update')
+      .execute();
+
+    if (origin.kind === 'verification') {
+      if (!await hasVerificationBudget(tx, origin.statusPageId, origin.ip, new Date())) {
+        return { status: 'rate_limited' as const };
+      }
+    } else if (await countNotificationsSince(tx, organizationId, smsQuotaPeriod().start) >= smsMonthlyQuotas[planType]) {
+      return { status: 'over_quota' as const };
+    }
+
+    const reserved = await tx.insert(smsMessagesTable)
+      .values({
+        organization_id: organizationId,
+        status_page_id: origin.kind === 'verification' ? origin.statusPageId : null,
+        requester_ip: origin.kind === 'verification' ? origin.ip : null,
+        to: message.to,
+        kind: origin.kind,
+        status: 'pending'
+      })
+      .returning()
+      .execute();
+    return { status: 'reserved' as const, id: reserved[0].id };
+  });
+
+  if (reservation.status !== 'reserved') {
+    return reservation;
+  }
+
+  let result: SmsSendResult;
+  try {
+    result = await provider.send({ from: SMS_FROM, ...message });
+  } catch (error) {
+    await db.update(smsMessagesTable)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .where(eq(smsMessagesTable.id, reservation.id))
+      .execute();
+    throw error;
+  }
+
+  if (result.status === 'sent') {
+    await db.update(smsMessagesTable)
+      .set({ status: 'sent', provider_message_id: result.id })
+      .where(eq(smsMessagesTable.id, reservation.id))
+      .execute();
+  } else {
+    await db.delete(smsMessagesTable)
+      .where(eq(smsMessagesTable.id, reservation.id))
+      .execute();
+  }
+
+  return result;
+};
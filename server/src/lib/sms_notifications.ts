@@ -0,0 +1,149 @@
+import { db } from '../db';
+import {
+  smsSubscribersTable,
+  smsRulesTable,
+  statusPagesTable,
+  organizationsTable,
+  componentsTable,
+  componentStatusChangesTable,
+  incidentAffectedComponentsTable,
+  type Incident,
+  type IncidentUpdate,
+  type MaintenanceWindow
+} from '../db/schema';
+import { type ComponentStatus, type PlanType, type SmsEventType } from '../schema';
+import { publicStatusPageUrl } from './custom_domains';
+import { componentStatusSeverity, worstComponentStatus } from './status';
+import { incidentStatusLabels } from './subscribers';
+import { sendSms, smsMonthlyQuotas } from './sms';
+import { and, asc, eq, isNotNull } from 'drizzle-orm';
+
+// Texts are kept to about two segments; the page link carries the rest
+const SMS_TEXT_LENGTH = 200;
+
+export interface SmsNotification {
+  event: SmsEventType;
+  // Incident events are matched against the component status required by the page's rule
+  incidentId: number | null;
+  text: string;
+}
+
+export const incidentCreatedSmsNotification = (incident: Incident): SmsNotification => ({
+  event: 'incident.created',
+  incidentId: incident.id,
+  text: `New incident: ${incident.title} (${incidentStatusLabels[incident.status]})`
+});
+
+export const incidentUpdatedSmsNotification = (incident: Incident, update: IncidentUpdate, resolved: boolean): SmsNotification => ({
+  event: resolved ? 'incident.resolved' : 'incident.updated',
+  incidentId: incident.id,
+  text: `${incidentStatusLabels[update.status]}: ${incident.title} - ${update.title}`
+});
+
+export const maintenanceSmsNotification = (
+  maintenanceWindow: MaintenanceWindow,
+  event: 'scheduled' | 'started' | 'completed'
+): SmsNotification => ({
+  event: `maintenance.${event}`,
+  incidentId: null,
+  text: event === 'scheduled'
+    ? `Scheduled maintenance: ${maintenanceWindow.title}, starting ${maintenanceWindow.scheduled_start.toUTCString()}`
+    : event === 'started'
+      ? `Maintenance in progress: ${maintenanceWindow.title}`
+      : `Maintenance completed: ${maintenanceWindow.title}`
+});
+
+// Texts cost money, so a page only offers them once its plan includes some and it has rules saying what to send
+export const smsSubscriptionsAvailable = async (statusPageId: number, planType: PlanType): Promise<boolean> => {
+  if (smsMonthlyQuotas[planType] === 0) {
+    return false;
+  }
+
+  const rules = await db.select({ id: smsRulesTable.id })
+    .from(smsRulesTable)
+    .where(eq(smsRulesTable.status_page_id, statusPageId))
+    .limit(1)
+    .execute();
+
+  return rules.length > 0;
+};
+
+// The worst status the incident's components are in now or were put in by the incident,
+// so that resolving a major outage still counts as one after the components recovered
+export const worstIncidentComponentStatus = async (incidentId: number): Promise<ComponentStatus> => {
+  const affected = await db.select({ status: componentsTable.status })
+    .from(incidentAffectedComponentsTable)
+    .innerJoin(componentsTable, eq(incidentAffectedComponentsTable.component_id, componentsTable.id))
+    .where(eq(incidentAffectedComponentsTable.incident_id, incidentId))
+    .execute();
+
+  const changes = await db.select({ status: componentStatusChangesTable.status })
+    .from(componentStatusChangesTable)
+    .where(and(eq(componentStatusChangesTable.source, 'incident'), eq(componentStatusChangesTable.source_id, incidentId)))
+    .execute();
+
+  return worstComponentStatus([...affected, ...changes].map(row => row.status));
+};
+
+// The verified SMS subscribers of a page, when one of its rules matches the notification
+export const smsSubscribersToNotify = async (statusPageId: number, notification: SmsNotification): Promise<number[]> => {
+  const rules = await db.select()
+    .from(smsRulesTable)
+    .where(and(eq(smsRulesTable.status_page_id, statusPageId), eq(smsRulesTable.event_type, notification.event)))
+    .execute();
+
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const minStatus = rules[0].min_component_status;
+  if (minStatus !== null && notification.incidentId !== null) {
+    const worst = await worstIncidentComponentStatus(notification.incidentId);
+    if (componentStatusSeverity[worst] < componentStatusSeverity[minStatus]) {
+      return [];
+    }
+  }
+
+  const subscribers = await db.select({ id: smsSubscribersTable.id })
+    .from(smsSubscribersTable)
+    .where(and(eq(smsSubscribersTable.status_page_id, statusPageId), isNotNull(smsSubscribersTable.verified_at)))
+    .orderBy(asc(smsSubscribersTable.id))
+    .execute();
+
+  return subscribers.map(subscriber => subscriber.id);
+};
+
+// Texts one SMS subscriber. Runs as a job per subscriber, so a failed text throws and is retried without texting
+// anyone else again. Once the organization's monthly quota is used up, texts are skipped rather than retried.
+// Numbers that replied STOP have unsubscribed and are removed.
+export const textSmsSubscriber = async (smsSubscriberId: number, notification: SmsNotification): Promise<void> => {
+  const results = await db.select({ subscriber: smsSubscribersTable, page: statusPagesTable, planType: organizationsTable.plan_type })
+    .from(smsSubscribersTable)
+    .innerJoin(statusPagesTable, eq(smsSubscribersTable.status_page_id, statusPagesTable.id))
+    .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+    .where(and(eq(smsSubscribersTable.id, smsSubscriberId), isNotNull(smsSubscribersTable.verified_at)))
+    .execute();
+
+  if (results.length === 0) {
+    return;
+  }
+
+  const { subscriber, page, planType } = results[0];
+  const text = `[${page.name}] ${notification.text}`;
+  const body = [
+    text.length > SMS_TEXT_LENGTH ? `${text.slice(0, SMS_TEXT_LENGTH - 1)}…` : text,
+    publicStatusPageUrl(page, planType),
+    'Reply STOP to unsubscribe'
+  ].join('\n');
+
+  const result = await sendSms(page.organization_id, planType, { to: subscriber.phone_number, body }, { kind: 'notification' });
+  if (result.status === 'over_quota') {
+    console.error(`SMS quota of organization ${page.organization_id} is used up; SMS subscriber ${subscriber.id} was not texted`);
+    return;
+  }
+  if (result.status === 'opted_out') {
+    await db.delete(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.id, subscriber.id))
+      .execute();
+  }
+};
@@ -0,0 +1,18 @@
+import { type ComponentStatus } from '../schema';
+
+// Least to most severe; scheduled maintenance ranks below any unplanned degradation
+export const componentStatusSeverity: Record<ComponentStatus, number> = {
+  operational: 0,
+  under_maintenance: 1,
+  performance_issues: 2,
+  partial_outage: 3,
+  major_outage: 4
+};
+
+// The status a page shows overall: that of its worst component, or operational when it has none
+export const worstComponentStatus = (statuses: ComponentStatus[]): ComponentStatus => {
+  return statuses.reduce<ComponentStatus>(
+    (worst, status) => (componentStatusSeverity[status] > componentStatusSeverity[worst] ? status : worst),
+    'operational'
+  );
+};
@@ -0,0 +1,272 @@
+import {
+  type ComponentStatus,
+  type IncidentStatus,
+  type MaintenanceStatus,
+  type PublicComponent,
+  type PublicIncident,
+  type PublicMaintenanceWindow,
+  type PublicStatusPage
+} from '../schema';
+import { worstComponentStatus } from './status';
+
+// Shapes of the Atlassian Statuspage v2 JSON API, so existing integrations can read our public pages unmodified.
+// Ids are strings there; ours are stringified.
+
+export type StatuspageIndicator = 'none' | 'minor' | 'major' | 'critical' | 'maintenance';
+
+export interface StatuspagePage {
+  id: string;
+  name: string;
+  url: string;
+  time_zone: string;
+  updated_at: string;
+}
+
+export interface StatuspageComponent {
+  id: string;
+  name: string;
+  status: 'operational' | 'degraded_performance' | 'partial_outage' | 'major_outage' | 'under_maintenance';
+  created_at: string;
+  updated_at: string;
+  position: number;
+  description: string | null;
+  showcase: boolean;
+  start_date: string | null;
+  group_id: string | null;
+  page_id: string;
+  group: boolean;
+  only_show_if_degraded: boolean;
+}
+
+export interface StatuspageIncidentUpdate {
+  id: string;
+  status: string;
+  body: string;
+  incident_id: string;
+  created_at: string;
+  updated_at: string;
+  display_at: string;
+  affected_components: { code: string; name: string; old_status: string; new_status: string }[] | null;
+}
+
+export interface StatuspageIncident {
+  id: string;
+  name: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  monitoring_at: string | null;
+  resolved_at: string | null;
+  impact: StatuspageIndicator;
+  shortlink: string;
+  started_at: string;
+  page_id: string;
+  incident_updates: StatuspageIncidentUpdate[];
+  components: StatuspageComponent[];
+}
+
+export interface StatuspageScheduledMaintenance extends StatuspageIncident {
+  scheduled_for: string;
+  scheduled_until: string;
+}
+
+export interface StatuspageStatus {
+  indicator: StatuspageIndicator;
+  description: string;
+}
+
+const componentStatuses: Record<ComponentStatus, StatuspageComponent['status']> = {
+  operational: 'operational',
+  performance_issues: 'degraded_performance',
+  partial_outage: 'partial_outage',
+  major_outage: 'major_outage',
+  under_maintenance: 'under_maintenance'
+};
+
+const indicators: Record<ComponentStatus, StatuspageStatus> = {
+  operational: { indicator: 'none', description: 'All Systems Operational' },
+  performance_issues: { indicator: 'minor', description: 'Partially Degraded Service' },
+  partial_outage: { indicator: 'major', description: 'Partial System Outage' },
+  major_outage: { indicator: 'critical', description: 'Major System Outage' },
+  under_maintenance: { indicator: 'maintenance', description: 'Service Under Maintenance' }
+};
+
+// Statuspage incidents use the same lifecycle as ours
+const incidentStatuses: Record<IncidentStatus, string> = {
+  investigating: 'investigating',
+  identified: 'identified',
+  monitoring: 'monitoring',
+  resolved: 'resolved'
+};
+
+// Statuspage has no cancelled state; a cancelled window is over, like a completed one
+const maintenanceStatuses: Record<MaintenanceStatus, string> = {
+  scheduled: 'scheduled',
+  in_progress: 'in_progress',
+  completed: 'completed',
+  cancelled: 'completed'
+};
+
+// Every endpoint returns the page plus the parts it is named after
+export interface StatuspageDocument {
+  page: StatuspagePage;
+  status?: StatuspageStatus;
+  components?: StatuspageComponent[];
+  incidents?: StatuspageIncident[];
+  scheduled_maintenances?: StatuspageScheduledMaintenance[];
+}
+
+export const toStatuspageStatus = (status: ComponentStatus): StatuspageStatus => indicators[status];
+
+const toPage = (data: PublicStatusPage): StatuspagePage => {
+  // The page counts as updated whenever anything shown on it changed
+  const timestamps = [
+    data.page.updated_at,
+    ...data.components.map(component => component.updated_at),
+    ...data.active_incidents.map(incident => incident.updated_at),
+    ...data.upcoming_maintenance.map(maintenance => maintenance.updated_at)
+  ];
+  const updatedAt = new Date(Math.max(...timestamps.map(date => date.getTime())));
+
+  return {
+    id: data.page.slug,
+    name: data.page.name,
+    url: data.page.url,
+    time_zone: 'Etc/UTC',
+    updated_at: updatedAt.toISOString()
+  };
+};
+
+const toComponent = (component: PublicComponent, pageId: string): StatuspageComponent => ({
+  id: String(component.id),
+  name: component.name,
+  status: componentStatuses[component.status],
+  created_at: component.created_at.toISOString(),
+  updated_at: component.updated_at.toISOString(),
+  position: component.position,
+  description: component.description,
+  showcase: true,
+  start_date: null,
+  group_id: null,
+  page_id: pageId,
+  group: false,
+  only_show_if_degraded: false
+});
+
+const affectedComponents = (ids: number[], data: PublicStatusPage, pageId: string): StatuspageComponent[] => {
+  return data.components
+    .filter(component => ids.includes(component.id))
+    .map(component => toComponent(component, pageId));
+};
+
+const toIncident = (incident: PublicIncident, data: PublicStatusPage, pageId: string): StatuspageIncident => {
+  const components = affectedComponents(incident.affected_component_ids, data, pageId);
+  // Impact follows the worst current status among the affected components
+  const impact = toStatuspageStatus(worstComponentStatus(
+    data.components.filter(component => incident.affected_component_ids.includes(component.id)).map(component => component.status)
+  )).indicator;
+  const monitoring = incident.updates.filter(update => update.status === 'monitoring').at(-1);
+
+  return {
+    id: String(incident.id),
+    name: incident.title,
+    status: incidentStatuses[incident.status],
+    created_at: incident.created_at.toISOString(),
+    updated_at: incident.updated_at.toISOString(),
+    monitoring_at: monitoring ? monitoring.created_at.toISOString() : null,
+    resolved_at: incident.resolved_at ? incident.resolved_at.toISOString() : null,
+    impact: impact === 'maintenance' ? 'none' : impact,
+    shortlink: data.page.url,
+    started_at: incident.created_at.toISOString(),
+    page_id: pageId,
+    incident_updates: incident.updates.map(update => ({
+      id: String(update.id),
+      status: incidentStatuses[update.status],
+      body: update.description,
+      incident_id: String(incident.id),
+      created_at: update.created_at.toISOString(),
+      updated_at: update.created_at.toISOString(),
+      display_at: update.created_at.toISOString(),
+      affected_components: null
+    })),
+    components
+  };
+};
+
+const toScheduledMaintenance = (
+  maintenance: PublicMaintenanceWindow,
+  data: PublicStatusPage,
+  pageId: string
+): StatuspageScheduledMaintenance => ({
+  id: String(maintenance.id),
+  name: maintenance.title,
+  status: maintenanceStatuses[maintenance.status],
+  created_at: maintenance.created_at.toISOString(),
+  updated_at: maintenance.updated_at.toISOString(),
+  monitoring_at: null,
+  resolved_at: maintenance.actual_end ? maintenance.actual_end.toISOString() : null,
+  impact: 'maintenance',
+  shortlink: data.page.url,
+  started_at: (maintenance.actual_start ?? maintenance.scheduled_start).toISOString(),
+  page_id: pageId,
+  scheduled_for: maintenance.scheduled_start.toISOString(),
+  scheduled_until: maintenance.scheduled_end.toISOString(),
+  // Maintenance has no update timeline; the description stands in as its only update
+  incident_updates: [{
+    id: `maintenance-${maintenance.id}`,
+    status: maintenanceStatuses[maintenance.status],
+    body: maintenance.description,
+    incident_id: String(maintenance.id),
+    created_at: maintenance.created_at.toISOString(),
+    updated_at: maintenance.updated_at.toISOString(),
+    display_at: maintenance.created_at.toISOString(),
+    affected_components: null
+  }],
+  components: affectedComponents(maintenance.affected_component_ids, data, pageId)
+});
+
+export type StatuspageEndpoint =
+  | 'summary'
+  | 'status'
+  | 'components'
+  | 'incidents/unresolved'
+  | 'scheduled-maintenances/upcoming';
+
+export const statuspageEndpoints: StatuspageEndpoint[] = [
+  'summary',
+  'status',
+  'components',
+  'incidents/unresolved',
+  'scheduled-maintenances/upcoming'
+];
+
+// Builds the JSON document Statuspage serves at /api/v2/<endpoint>.json
+export const toStatuspageDocument = (data: PublicStatusPage, endpoint: StatuspageEndpoint): StatuspageDocument => {
+  const page = toPage(data);
+  const components = () => data.components.map(component => toComponent(component, page.id));
+  const unresolvedIncidents = () => data.active_incidents.map(incident => toIncident(incident, data, page.id));
+
+  switch (endpoint) {
+    case 'summary':
+      return {
+        page,
+        components: components(),
+        incidents: unresolvedIncidents(),
+        scheduled_maintenances: data.upcoming_maintenance.map(maintenance => toScheduledMaintenance(maintenance, data, page.id)),
+        status: toStatuspageStatus(data.overall_status)
+      };
+    case 'status':
+      return { page, status: toStatuspageStatus(data.overall_status) };
+    case 'components':
+      return { page, components: components() };
+    case 'incidents/unresolved':
+      return { page, incidents: unresolvedIncidents() };
+    case 'scheduled-maintenances/upcoming':
+      return {
+        page,
+        scheduled_maintenances: data.upcoming_maintenance
+          .filter(maintenance => maintenance.status === 'scheduled')
+          .map(maintenance => toScheduledMaintenance(maintenance, data, page.id))
+      };
+  }
+};
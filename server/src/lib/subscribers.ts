@@ -0,0 +1,183 @@
+import { db } from '../db';
+import {
+  subscribersTable,
+  subscriberComponentsTable,
+  statusPagesTable,
+  componentsTable,
+  organizationsTable,
+  type Incident,
+  type IncidentUpdate,
+  type MaintenanceWindow
+} from '../db/schema';
+import { type IncidentStatus } from '../schema';
+import { signToken, SUBSCRIPTION_CONFIRMATION_TTL_MS, SUBSCRIBER_LINK_TTL_MS } from './auth';
+import { publicStatusPageUrl } from './custom_domains';
+import { sendMail, APP_URL } from './mailer';
+import { and, asc, eq, inArray, isNotNull } from 'drizzle-orm';
+
+export const SUBSCRIPTION_CONFIRMATION_PURPOSE = 'subscription_confirmation';
+export const UNSUBSCRIBE_PURPOSE = 'unsubscribe';
+export const SUBSCRIPTION_PREFERENCES_PURPOSE = 'subscription_preferences';
+
+export const incidentStatusLabels: Record<IncidentStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved'
+};
+
+export const subscriptionConfirmationUrl = (subscriberId: number): string => {
+  const token = signToken(SUBSCRIPTION_CONFIRMATION_PURPOSE, subscriberId, new Date(Date.now() + SUBSCRIPTION_CONFIRMATION_TTL_MS));
+  return `${APP_URL}/confirm-subscription?token=${token}`;
+};
+
+// The page link is for people, who confirm with a click; mail clients POST to the one-click URL
+// from the List-Unsubscribe header (RFC 8058) so that link scanners opening the page unsubscribe no one
+export const unsubscribeUrls = (subscriberId: number): { page: string; oneClick: string } => {
+  const token = signToken(UNSUBSCRIBE_PURPOSE, subscriberId, new Date(Date.now() + SUBSCRIBER_LINK_TTL_MS));
+  return {
+    page: `${APP_URL}/unsubscribe?token=${token}`,
+    oneClick: `${APP_URL}/api/one-click-unsubscribe?token=${token}`
+  };
+};
+
+// Lets subscribers, who have no account, choose the components they hear about
+export const subscriptionPreferencesUrl = (subscriberId: number): string => {
+  const token = signToken(SUBSCRIPTION_PREFERENCES_PURPOSE, subscriberId, new Date(Date.now() + SUBSCRIBER_LINK_TTL_MS));
+  return `${APP_URL}/subscription-preferences?token=${token}`;
+};
+
+// Subscribers who chose components hear about what affects any of them. Events affecting
+// no particular component concern the whole page, so everyone hears about those.
+export const wantsNotification = (chosenComponentIds: number[], affectedComponentIds: number[]): boolean => {
+  return chosenComponentIds.length === 0 ||
+    affectedComponentIds.length === 0 ||
+    affectedComponentIds.some(id => chosenComponentIds.includes(id));
+};
+
+// Replaces the components a subscriber hears about; an empty list means every component
+export const setSubscriberComponents = async (subscriberId: number, statusPageId: number, componentIds: number[]): Promise<void> => {
+  const uniqueIds = [...new Set(componentIds)];
+
+  if (uniqueIds.length > 0) {
+    const components = await db.select({ id: componentsTable.id })
+      .from(componentsTable)
+      .where(eq(componentsTable.status_page_id, statusPageId))
+      .execute();
+
+    const validComponentIds = components.map(c => c.id);
+    const invalidComponentIds = uniqueIds.filter(id => !validComponentIds.includes(id));
+
+    if (invalidComponentIds.length > 0) {
+      throw new Error(`Components with ids ${invalidComponentIds.join(', ')} not found or do not belong to the status page`);
+    }
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(subscriberComponentsTable)
+      .where(eq(subscriberComponentsTable.subscriber_id, subscriberId))
+      .execute();
+
+    if (uniqueIds.length > 0) {
+      await tx.insert(subscriberComponentsTable)
+        .values(uniqueIds.map(component_id => ({ subscriber_id: subscriberId, component_id })))
+        .execute();
+    }
+  });
+};
+
+export interface SubscriberNotification {
+  subject: string;
+  lines: string[];
+}
+
+export const incidentCreatedNotification = (incident: Incident): SubscriberNotification => ({
+  subject: `New incident: ${incident.title}`,
+  lines: [
+    incident.title,
+    `Status: ${incidentStatusLabels[incident.status]}`,
+    '',
+    incident.description
+  ]
+});
+
+export const incidentUpdatedNotification = (incident: Incident, update: IncidentUpdate): SubscriberNotification => ({
+  subject: `${incidentStatusLabels[update.status]}: ${incident.title}`,
+  lines: [
+    `${incident.title} - ${update.title}`,
+    `Status: ${incidentStatusLabels[update.status]}`,
+    '',
+    update.description
+  ]
+});
+
+export const maintenanceNotification = (
+  maintenanceWindow: MaintenanceWindow,
+  event: 'scheduled' | 'started'
+): SubscriberNotification => ({
+  subject: event === 'scheduled'
+    ? `Scheduled maintenance: ${maintenanceWindow.title}`
+    : `Maintenance in progress: ${maintenanceWindow.title}`,
+  lines: [
+    maintenanceWindow.title,
+    `Scheduled from ${maintenanceWindow.scheduled_start.toUTCString()} to ${maintenanceWindow.scheduled_end.toUTCString()}`,
+    '',
+    maintenanceWindow.description
+  ]
+});
+
+// The confirmed subscribers of a page who want to hear about the affected components
+export const subscribersToNotify = async (statusPageId: number, affectedComponentIds: number[]): Promise<number[]> => {
+  const subscribers = await db.select({ id: subscribersTable.id })
+    .from(subscribersTable)
+    .where(and(eq(subscribersTable.status_page_id, statusPageId), isNotNull(subscribersTable.confirmed_at)))
+    .orderBy(asc(subscribersTable.id))
+    .execute();
+
+  const choices = subscribers.length === 0 ? [] : await db.select()
+    .from(subscriberComponentsTable)
+    .where(inArray(subscriberComponentsTable.subscriber_id, subscribers.map(subscriber => subscriber.id)))
+    .execute();
+
+  return subscribers
+    .filter(subscriber => wantsNotification(
+      choices.filter(choice => choice.subscriber_id === subscriber.id).map(choice => choice.component_id),
+      affectedComponentIds
+    ))
+    .map(subscriber => subscriber.id);
+};
+
+// Emails one subscriber. Runs as a job per subscriber, so a failed delivery throws and is retried without
+// emailing anyone else again. Subscribers who left since the job was queued are skipped.
+export const emailSubscriber = async (subscriberId: number, notification: SubscriberNotification): Promise<void> => {
+  const results = await db.select({ subscriber: subscribersTable, page: statusPagesTable, planType: organizationsTable.plan_type })
+    .from(subscribersTable)
+    .innerJoin(statusPagesTable, eq(subscribersTable.status_page_id, statusPagesTable.id))
+    .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+    .where(and(eq(subscribersTable.id, subscriberId), isNotNull(subscribersTable.confirmed_at)))
+    .execute();
+
+  if (results.length === 0) {
+    return;
+  }
+
+  const { subscriber, page, planType } = results[0];
+  const unsubscribe = unsubscribeUrls(subscriber.id);
+  await sendMail({
+    to: subscriber.email,
+    subject: `[${page.name}] ${notification.subject}`,
+    text: [
+      ...notification.lines,
+      '',
+      `Current status: ${publicStatusPageUrl(page, planType)}`,
+      '',
+      `You are receiving this because you subscribed to updates from ${page.name}.`,
+      `Choose components: ${subscriptionPreferencesUrl(subscriber.id)}`,
+      `Unsubscribe: ${unsubscribe.page}`
+    ].join('\n'),
+    headers: {
+      'List-Unsubscribe': `<${unsubscribe.oneClick}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  });
+};
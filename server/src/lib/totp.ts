@@ -0,0 +1,104 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// RFC 6238 defaults understood by every common authenticator app
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+// Codes from one step either side of the current one are accepted to allow for clock drift
+const TOTP_WINDOW_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// 160-bit secrets, as recommended by RFC 4226 for HMAC-SHA1
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+export const totpStep = (time: number = Date.now()): number => {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+// HOTP (RFC 4226) for the given time step, using dynamic truncation
+export const generateTotpCode = (secret: string, step: number = totpStep(), digits: number = TOTP_DIGITS): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+
+  return binary.toString().padStart(digits, '0');
+};
+
+// Returns the matching time step so callers can reject replays, or null when the code is wrong
+export const verifyTotpCode = (secret: string, code: string, time: number = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = totpStep(time);
+  for (let step = current - TOTP_WINDOW_STEPS; step <= current + TOTP_WINDOW_STEPS; step++) {
+    if (generateTotpCode(secret, step) === normalized) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// The otpauth:// URI encoded in the QR code that authenticator apps scan
+export const buildProvisioningUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
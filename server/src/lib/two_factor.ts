@@ -0,0 +1,103 @@
+import { db } from '../db';
+import { twoFactorCredentialsTable, recoveryCodesTable, type TwoFactorCredential } from '../db/schema';
+import { eq, and, isNull, isNotNull, lt, or } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import { hashToken } from './auth';
+import { base32Encode, verifyTotpCode } from './totp';
+
+export const TWO_FACTOR_ISSUER = process.env['TWO_FACTOR_ISSUER'] || 'EdgeStatus';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case-insensitively and without separators
+const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+};
+
+// Codes look like "k3m9q-7xw2p": 50 random bits each, hyphenated for readability
+const generateRecoveryCode = (): string => {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+export const getEnabledCredential = async (userId: number): Promise<TwoFactorCredential | null> => {
+  const credentials = await db.select()
+    .from(twoFactorCredentialsTable)
+    .where(and(eq(twoFactorCredentialsTable.user_id, userId), isNotNull(twoFactorCredentialsTable.enabled_at)))
+    .execute();
+
+  return credentials[0] ?? null;
+};
+
+export const isTwoFactorEnabled = async (userId: number): Promise<boolean> => {
+  return (await getEnabledCredential(userId)) !== null;
+};
+
+// Invalidates any previous codes; the plain codes are returned once and only their hashes are kept
+export const replaceRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await tx.insert(recoveryCodesTable)
+      .values(codes.map(code => ({ user_id: userId, code_hash: hashToken(normalizeRecoveryCode(code)) })))
+      .execute();
+  });
+
+  return codes;
+};
+
+// Accepts a current TOTP code for the given credential, refusing any step at or before the last one used
+export const consumeTotpCode = async (credential: TwoFactorCredential, code: string): Promise<boolean> => {
+  const step = verifyTotpCode(credential.secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  // Conditional update so a code observed in transit cannot be replayed, even concurrently
+  const result = await db.update(twoFactorCredentialsTable)
+    .set({ last_used_step: step })
+    .where(
+      and(
+        eq(twoFactorCredentialsTable.id, credential.id),
+        or(isNull(twoFactorCredentialsTable.last_used_step), lt(twoFactorCredentialsTable.last_used_step, step))
+      )
+    )
+    .returning()
+    .execute();
+
+  return result.length > 0;
+};
+
+const consumeRecoveryCode = async (userId: number, code: string): Promise<boolean> => {
+  const result = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(
+      and(
+        eq(recoveryCodesTable.user_id, userId),
+        eq(recoveryCodesTable.code_hash, hashToken(normalizeRecoveryCode(code))),
+        isNull(recoveryCodesTable.used_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  return result.length > 0;
+};
+
+// Verifies the second factor for a user with 2FA enabled: an authenticator code or an unused recovery code
+export const verifySecondFactor = async (userId: number, code: string): Promise<boolean> => {
+  const credential = await getEnabledCredential(userId);
+  if (!credential) {
+    return false;
+  }
+
+  if (/^\d+$/.test(code.replace(/\s/g, ''))) {
+    return consumeTotpCode(credential, code);
+  }
+
+  return consumeRecoveryCode(userId, code);
+};
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { componentsTable, componentStatusChangesTable } from '../db/schema';
+import { type ComponentStatus, type ComponentUptime, type UptimeDay } from '../schema';
+import { worstComponentStatus } from './status';
+import { and, asc, eq, gte, inArray } from 'drizzle-orm';
+
+// Length of the uptime bars
+export const UPTIME_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the time in each status that counts as downtime. As on Atlassian Statuspage, a partial
+// outage counts for 30% and degraded performance or planned maintenance not at all.
+export const downtimeWeights: Record<ComponentStatus, number> = {
+  operational: 0,
+  under_maintenance: 0,
+  performance_issues: 0,
+  partial_outage: 0.3,
+  major_outage: 1
+};
+
+interface StatusSpan {
+  status: ComponentStatus;
+  start: number;
+  end: number;
+}
+
+type StatusDurations = Partial<Record<ComponentStatus, number>>;
+
+// Two decimals, like "99.95"; null when nothing was tracked
+const uptimePercentage = (durations: StatusDurations): number | null => {
+  const entries = Object.entries(durations) as [ComponentStatus, number][];
+  const total = entries.reduce((sum, [, seconds]) => sum + seconds, 0);
+  if (total === 0) {
+    return null;
+  }
+  const downtime = entries.reduce((sum, [status, seconds]) => sum + seconds * downtimeWeights[status], 0);
+  return Math.round((1 - downtime / total) * 10000) / 100;
+};
+
+// Splits a component's life into spans of constant status. Changes must be oldest first.
+// Components that predate the history start in the status their first recorded change left.
+const statusSpans = (
+  component: { created_at: Date; status: ComponentStatus },
+  changes: { previous_status: ComponentStatus; status: ComponentStatus; changed_at: Date }[],
+  now: Date
+): StatusSpan[] => {
+  const spans: StatusSpan[] = [];
+  let status = changes[0]?.previous_status ?? component.status;
+  let start = component.created_at.getTime();
+
+  for (const change of changes) {
+    const changedAt = Math.max(change.changed_at.getTime(), start);
+    spans.push({ status, start, end: changedAt });
+    status = change.status;
+    start = changedAt;
+  }
+  spans.push({ status, start, end: now.getTime() });
+
+  return spans.filter(span => span.end > span.start);
+};
+
+// Time spent in each status per UTC day, for the last `days` days including today
+export const rollupUptime = (
+  component: { created_at: Date; status: ComponentStatus },
+  changes: { previous_status: ComponentStatus; status: ComponentStatus; changed_at: Date }[],
+  days: number = UPTIME_DAYS,
+  now: Date = new Date()
+): { days: UptimeDay[]; uptime_percentage: number | null } => {
+  const spans = statusSpans(component, changes, now);
+  const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  const totals: StatusDurations = {};
+
+  const rolledUp = Array.from({ length: days }, (_, index): UptimeDay => {
+    const dayStart = today - (days - 1 - index) * DAY_MS;
+    const dayEnd = Math.min(dayStart + DAY_MS, now.getTime());
+    const durations: StatusDurations = {};
+
+    for (const span of spans) {
+      const overlap = Math.min(span.end, dayEnd) - Math.max(span.start, dayStart);
+      if (overlap > 0) {
+        durations[span.status] = (durations[span.status] ?? 0) + overlap / 1000;
+        totals[span.status] = (totals[span.status] ?? 0) + overlap / 1000;
+      }
+    }
+
+    const statuses = Object.keys(durations) as ComponentStatus[];
+    return {
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      durations,
+      worst_status: statuses.length > 0 ? worstComponentStatus(statuses) : null,
+      uptime_percentage: uptimePercentage(durations)
+    };
+  });
+
+  return { days: rolledUp, uptime_percentage: uptimePercentage(totals) };
+};
+
+// Uptime of every component on a status page, in display order
+export const loadStatusPageUptime = async (statusPageId: number, now: Date = new Date()): Promise<ComponentUptime[]> => {
+  const components = await db.select()
+    .from(componentsTable)
+    .where(eq(componentsTable.status_page_id, statusPageId))
+    .orderBy(asc(componentsTable.position), asc(componentsTable.id))
+    .execute();
+
+  if (components.length === 0) {
+    return [];
+  }
+
+  const windowStart = new Date((Math.floor(now.getTime() / DAY_MS) - (UPTIME_DAYS - 1)) * DAY_MS);
+
+  // Only changes inside the window are needed: the first one's previous status is the one the window started in
+  const changes = await db.select()
+    .from(componentStatusChangesTable)
+    .where(and(
+      inArray(componentStatusChangesTable.component_id, components.map(component => component.id)),
+      gte(componentStatusChangesTable.changed_at, windowStart)
+    ))
+    .orderBy(asc(componentStatusChangesTable.changed_at), asc(componentStatusChangesTable.id))
+    .execute();
+
+  return components.map(component => {
+    const rollup = rollupUptime(
+      // Spans before the window are never counted, so the window start can stand in for creation
+      { created_at: component.created_at > windowStart ? component.created_at : windowStart, status: component.status },
+      changes.filter(change => change.component_id === component.id),
+      UPTIME_DAYS,
+      now
+    );
+    return {
+      component_id: component.id,
+      name: component.name,
+      uptime_percentage: rollup.uptime_percentage,
+      days: rollup.days
+    };
+  });
+};
@@ -0,0 +1,229 @@
+import { createHmac } from 'crypto';
+import { db } from '../db';
+import {
+  webhookEndpointsTable,
+  webhookDeliveriesTable,
+  statusPagesTable,
+  organizationsTable,
+  type Incident,
+  type IncidentUpdate,
+  type MaintenanceWindow,
+  type WebhookDelivery
+} from '../db/schema';
+import { type WebhookEventType } from '../schema';
+import { generateToken } from './auth';
+import { publicStatusPageUrl } from './custom_domains';
+import { postToPublicUrl } from './outbound_requests';
+import { and, asc, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+
+// Due deliveries are sent every 5 seconds while the server runs
+export const WEBHOOK_DELIVERY_INTERVAL_MS = 5_000;
+
+// Retries back off exponentially from 30 seconds; after 10 attempts (about 4 hours) a delivery fails
+export const WEBHOOK_MAX_ATTEMPTS = 10;
+export const WEBHOOK_RETRY_BASE_MS = 30_000;
+
+const WEBHOOK_REQUEST_TIMEOUT_MS = 10_000;
+
+// A claimed delivery is not picked up again until its attempt has had time to finish
+export const WEBHOOK_CLAIM_MS = WEBHOOK_REQUEST_TIMEOUT_MS * 3;
+
+const WEBHOOK_BATCH_SIZE = 50;
+
+// Enough of the receiver's response to debug with, without storing whole error pages
+const RESPONSE_BODY_LIMIT = 1_000;
+
+export const SIGNATURE_HEADER = 'X-EdgeStatus-Signature';
+
+export const generateWebhookSecret = (): string => `whsec_${generateToken()}`;
+
+// The signature covers the timestamp too, so receivers can reject replayed requests.
+// Receivers recompute HMAC-SHA256(secret, "<t>.<raw body>") and compare it with v1.
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+// Delay before the attempt after the given number of failed ones: 30s, 1m, 2m, 4m, ...
+export const webhookRetryDelayMs = (failedAttempts: number): number => {
+  return WEBHOOK_RETRY_BASE_MS * 2 ** (failedAttempts - 1);
+};
+
+export const incidentEventData = (incident: Incident, affectedComponentIds: number[]) => ({
+  id: incident.id,
+  title: incident.title,
+  description: incident.description,
+  status: incident.status,
+  affected_component_ids: affectedComponentIds,
+  created_at: incident.created_at,
+  updated_at: incident.updated_at,
+  resolved_at: incident.resolved_at
+});
+
+export const incidentUpdateEventData = (update: IncidentUpdate) => ({
+  id: update.id,
+  title: update.title,
+  description: update.description,
+  status: update.status,
+  created_at: update.created_at
+});
+
+export const maintenanceEventData = (maintenanceWindow: MaintenanceWindow, affectedComponentIds: number[]) => ({
+  id: maintenanceWindow.id,
+  title: maintenanceWindow.title,
+  description: maintenanceWindow.description,
+  status: maintenanceWindow.status,
+  affected_component_ids: affectedComponentIds,
+  scheduled_start: maintenanceWindow.scheduled_start,
+  scheduled_end: maintenanceWindow.scheduled_end,
+  actual_start: maintenanceWindow.actual_start,
+  actual_end: maintenanceWindow.actual_end
+});
+
+// Queues the event for every active endpoint of the page's organization that wants it.
+// Failures are logged rather than thrown: the change the event describes has already been made.
+export const emitWebhookEvent = async (
+  statusPageId: number,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> => {
+  try {
+    const pages = await db.select({ page: statusPagesTable, planType: organizationsTable.plan_type })
+      .from(statusPagesTable)
+      .innerJoin(organizationsTable, eq(statusPagesTable.organization_id, organizationsTable.id))
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+
+    if (pages.length === 0) {
+      return;
+    }
+
+    const { page, planType } = pages[0];
+    const endpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(and(eq(webhookEndpointsTable.organization_id, page.organization_id), eq(webhookEndpointsTable.is_active, true)))
+      .execute();
+
+    const recipients = endpoints.filter(endpoint => endpoint.event_types.includes(type));
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const eventId = `evt_${generateToken(16)}`;
+    // Round-tripped through JSON so dates are stored the way they are sent
+    const payload = JSON.parse(JSON.stringify({
+      id: eventId,
+      type,
+      created_at: new Date(),
+      data: {
+        status_page: { id: page.id, name: page.name, slug: page.slug, url: publicStatusPageUrl(page, planType) },
+        ...data
+      }
+    }));
+
+    await db.insert(webhookDeliveriesTable)
+      .values(recipients.map(endpoint => ({
+        webhook_endpoint_id: endpoint.id,
+        event_id: eventId,
+        event_type: type,
+        payload,
+        next_attempt_at: new Date()
+      })))
+      .execute();
+  } catch (error) {
+    console.error(`Queueing webhook event ${type} failed:`, error);
+  }
+};
+
+// Sends a delivery once and records the outcome, scheduling a retry or giving up on failure
+export const attemptWebhookDelivery = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const endpoints = await db.select()
+    .from(webhookEndpointsTable)
+    .where(eq(webhookEndpointsTable.id, delivery.webhook_endpoint_id))
+    .execute();
+  const endpoint = endpoints[0];
+
+  const body = JSON.stringify(delivery.payload);
+  const attemptedAt = new Date();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postToPublicUrl(endpoint.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'EdgeStatus-Webhooks/1.0',
+        'X-EdgeStatus-Event': delivery.event_type,
+        'X-EdgeStatus-Event-Id': delivery.event_id,
+        'X-EdgeStatus-Delivery': String(delivery.id),
+        [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, Math.floor(attemptedAt.getTime() / 1000), body)
+      },
+      body,
+      timeoutMs: WEBHOOK_REQUEST_TIMEOUT_MS
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) {
+      error = `Endpoint responded with status ${response.status}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = error === null;
+  const gaveUp = !succeeded && attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+  const result = await db.update(webhookDeliveriesTable)
+    .set({
+      status: succeeded ? 'succeeded' : gaveUp ? 'failed' : 'pending',
+      attempts,
+      next_attempt_at: succeeded || gaveUp ? null : new Date(attemptedAt.getTime() + webhookRetryDelayMs(attempts)),
+      last_attempt_at: attemptedAt,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error
+    })
+    .where(eq(webhookDeliveriesTable.id, delivery.id))
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// Sends every delivery that is due. Deliveries are claimed before they are sent, so
+// overlapping runs, or several server processes, never send the same attempt twice.
+// Webhook deliveries stay out of the job queue on purpose: each one is already queued per endpoint, and its
+// attempts, responses and retry schedule are what customers see and redeliver through the API.
+// Moving them to generic jobs would lose that history.
+export const deliverDueWebhooks = async (now: Date = new Date()): Promise<number> => {
+  const due = db.select({ id: webhookDeliveriesTable.id })
+    .from(webhookDeliveriesTable)
+    .innerJoin(webhookEndpointsTable, eq(webhookDeliveriesTable.webhook_endpoint_id, webhookEndpointsTable.id))
+    .where(and(
+      eq(webhookDeliveriesTable.status, 'pending'),
+      isNotNull(webhookDeliveriesTable.next_attempt_at),
+      lte(webhookDeliveriesTable.next_attempt_at, now),
+      eq(webhookEndpointsTable.is_active, true)
+    ))
+    .orderBy(asc(webhookDeliveriesTable.next_attempt_at))
+    .limit(WEBHOOK_BATCH_SIZE)
+    .for('update', { of: webhookDeliveriesTable, skipLocked: true });
+
+  const claimed = await db.update(webhookDeliveriesTable)
+    .set({ next_attempt_at: new Date(now.getTime() + WEBHOOK_CLAIM_MS) })
+    .where(inArray(webhookDeliveriesTable.id, due))
+    .returning()
+    .execute();
+
+  for (const delivery of claimed) {
+    try {
+      await attemptWebhookDelivery(delivery);
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.id} failed:`, error);
+    }
+  }
+
+  return claimed.length;
+};
@@ -13,9 +13,74 @@ export type IncidentStatus = z.infer<typeof incidentStatusSchema>;
 export const maintenanceStatusSchema = z.enum(['scheduled', 'in_progress', 'completed', 'cancelled']);
 export type MaintenanceStatus = z.infer<typeof maintenanceStatusSchema>;
 
+export const apiKeyScopeSchema = z.enum(['read', 'incidents:write', 'components:write', 'maintenance:write']);
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export const invitationStatusSchema = z.enum(['pending', 'accepted', 'revoked', 'expired']);
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
 export const componentStatusSchema = z.enum(['operational', 'performance_issues', 'partial_outage', 'major_outage', 'under_maintenance']);
 export type ComponentStatus = z.infer<typeof componentStatusSchema>;
 
+// Languages public pages can be shown in
+export const localeSchema = z.enum(['en', 'de', 'fr', 'es', 'ja']);
+export type Locale = z.infer<typeof localeSchema>;
+
+// What changed a component's status: a direct edit, an incident, or a maintenance window starting or ending
+export const componentStatusChangeSourceSchema = z.enum(['component', 'incident', 'maintenance']);
+export type ComponentStatusChangeSource = z.infer<typeof componentStatusChangeSourceSchema>;
+
+export const auditActionSchema = z.enum(['create', 'update', 'delete']);
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = z.enum([
+  'organization',
+  'user',
+  'member',
+  'invitation',
+  'api_key',
+  'sso_connection',
+  'status_page',
+  'component',
+  'incident',
+  'incident_update',
+  'maintenance_window',
+  'subscriber',
+  'webhook_endpoint',
+  'chat_integration',
+  'sms_subscriber'
+]);
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export const webhookEventTypeSchema = z.enum([
+  'incident.created',
+  'incident.updated',
+  'incident.resolved',
+  'component.status_changed',
+  'maintenance.started',
+  'maintenance.completed'
+]);
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'succeeded', 'failed']);
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+export const chatProviderSchema = z.enum(['slack', 'teams']);
+export type ChatProvider = z.infer<typeof chatProviderSchema>;
+
+export const smsEventTypeSchema = z.enum([
+  'incident.created',
+  'incident.updated',
+  'incident.resolved',
+  'maintenance.scheduled',
+  'maintenance.started',
+  'maintenance.completed'
+]);
+export type SmsEventType = z.infer<typeof smsEventTypeSchema>;
+
+export const jobStatusSchema = z.enum(['pending', 'running', 'succeeded', 'dead']);
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -25,12 +90,18 @@ export const userSchema = z.object({
   last_name: z.string(),
   role: userRoleSchema,
   is_active: z.boolean(),
+  email_verified_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Authenticated user as exposed to clients (never includes the password hash)
+export const authUserSchema = userSchema.omit({ password_hash: true });
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
 // Organization schema
 export const organizationSchema = z.object({
   id: z.number(),
@@ -38,6 +109,7 @@ export const organizationSchema = z.object({
   slug: z.string(),
   plan_type: planTypeSchema,
   owner_id: z.number(),
+  require_two_factor: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -52,10 +124,15 @@ export const statusPageSchema = z.object({
   slug: z.string(),
   description: z.string().nullable(),
   custom_domain: z.string().nullable(),
+  custom_domain_verification_token: z.string().nullable(),
+  custom_domain_verified_at: z.coerce.date().nullable(),
   branding_logo_url: z.string().nullable(),
   branding_primary_color: z.string().nullable(),
   branding_secondary_color: z.string().nullable(),
   is_public: z.boolean(),
+  access_ip_allowlist: z.array(z.string()),
+  default_locale: localeSchema,
+  enabled_locales: z.array(localeSchema),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -115,6 +192,7 @@ export const maintenanceWindowSchema = z.object({
   scheduled_end: z.coerce.date(),
   actual_start: z.coerce.date().nullable(),
   actual_end: z.coerce.date().nullable(),
+  sequence: z.number().int(),
   created_by: z.number(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -122,6 +200,150 @@ export const maintenanceWindowSchema = z.object({
 
 export type MaintenanceWindow = z.infer<typeof maintenanceWindowSchema>;
 
+// Public status page view, served without login. Never carries user ids or anything from private pages.
+export const publicComponentSchema = componentSchema.pick({
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  position: true,
+  created_at: true,
+  updated_at: true
+});
+
+export type PublicComponent = z.infer<typeof publicComponentSchema>;
+
+// Title and description in another of the page's languages, keyed by locale.
+// Languages without a translation fall back to the original text.
+export const translatedTextSchema = z.object({
+  title: z.string(),
+  description: z.string()
+});
+
+export type TranslatedText = z.infer<typeof translatedTextSchema>;
+
+export const translationsSchema = z.record(localeSchema, translatedTextSchema);
+
+export type Translations = z.infer<typeof translationsSchema>;
+
+export const publicIncidentUpdateSchema = incidentUpdateSchema.pick({
+  id: true,
+  title: true,
+  description: true,
+  status: true,
+  created_at: true
+}).extend({
+  translations: translationsSchema
+});
+
+export type PublicIncidentUpdate = z.infer<typeof publicIncidentUpdateSchema>;
+
+// Updates are newest first
+export const publicIncidentSchema = incidentSchema.omit({ status_page_id: true, created_by: true }).extend({
+  affected_component_ids: z.array(z.number()),
+  updates: z.array(publicIncidentUpdateSchema),
+  translations: translationsSchema
+});
+
+export type PublicIncident = z.infer<typeof publicIncidentSchema>;
+
+export const publicMaintenanceWindowSchema = maintenanceWindowSchema.omit({ status_page_id: true, sequence: true, created_by: true }).extend({
+  affected_component_ids: z.array(z.number())
+});
+
+export type PublicMaintenanceWindow = z.infer<typeof publicMaintenanceWindowSchema>;
+
+export const publicStatusPageSchema = z.object({
+  page: statusPageSchema.pick({
+    name: true,
+    slug: true,
+    description: true,
+    branding_logo_url: true,
+    branding_primary_color: true,
+    branding_secondary_color: true,
+    default_locale: true,
+    enabled_locales: true,
+    updated_at: true
+  }).extend({
+    // Where the page is served: its verified custom domain, otherwise /s/:slug on the dashboard
+    url: z.string()
+  }),
+  overall_status: componentStatusSchema,
+  components: z.array(publicComponentSchema),
+  active_incidents: z.array(publicIncidentSchema),
+  upcoming_maintenance: z.array(publicMaintenanceWindowSchema),
+  past_incidents: z.array(publicIncidentSchema),
+  // Whether visitors can subscribe to text messages: the plan includes them and the page has SMS rules
+  sms_subscriptions: z.boolean()
+});
+
+export type PublicStatusPage = z.infer<typeof publicStatusPageSchema>;
+
+// Filters for browsing past incidents. Dates bound when an incident started (from inclusive, to exclusive);
+// the query is matched with Postgres full-text search against incidents and their updates.
+export const incidentHistoryFiltersSchema = z.object({
+  component_ids: z.array(z.number()).optional(),
+  statuses: z.array(incidentStatusSchema).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  query: z.string().trim().max(200).optional(),
+  // next_cursor of the previous page
+  cursor: z.string().nullable().optional(),
+  limit: z.number().int().min(1).max(100).default(20)
+});
+
+export type IncidentHistoryFilters = z.infer<typeof incidentHistoryFiltersSchema>;
+
+export const getIncidentHistoryInputSchema = incidentHistoryFiltersSchema.extend({
+  status_page_id: z.number()
+});
+
+export type GetIncidentHistoryInput = z.infer<typeof getIncidentHistoryInputSchema>;
+
+export const getPublicIncidentHistoryInputSchema = incidentHistoryFiltersSchema.extend({
+  slug: z.string()
+});
+
+export type GetPublicIncidentHistoryInput = z.infer<typeof getPublicIncidentHistoryInputSchema>;
+
+// Incidents newest first, grouped by the UTC month they started in, e.g. "2026-10".
+// A month can continue on the next page, so clients merge groups with the same month.
+export const incidentHistoryMonthSchema = z.object({
+  month: z.string(),
+  incidents: z.array(publicIncidentSchema)
+});
+
+export type IncidentHistoryMonth = z.infer<typeof incidentHistoryMonthSchema>;
+
+export const incidentHistorySchema = z.object({
+  months: z.array(incidentHistoryMonthSchema),
+  // Null on the last page
+  next_cursor: z.string().nullable()
+});
+
+export type IncidentHistory = z.infer<typeof incidentHistorySchema>;
+
+// Daily uptime, rolled up from the component status history (days are UTC)
+export const uptimeDaySchema = z.object({
+  date: z.string(),
+  // Seconds spent in each status; empty for days before the component existed
+  durations: z.record(componentStatusSchema, z.number()),
+  worst_status: componentStatusSchema.nullable(),
+  uptime_percentage: z.number().nullable()
+});
+
+export type UptimeDay = z.infer<typeof uptimeDaySchema>;
+
+export const componentUptimeSchema = z.object({
+  component_id: z.number(),
+  name: z.string(),
+  uptime_percentage: z.number().nullable(),
+  // Oldest first, ending today
+  days: z.array(uptimeDaySchema)
+});
+
+export type ComponentUptime = z.infer<typeof componentUptimeSchema>;
+
 // Organization member schema
 export const organizationMemberSchema = z.object({
   id: z.number(),
@@ -133,6 +355,16 @@ export const organizationMemberSchema = z.object({
 
 export type OrganizationMember = z.infer<typeof organizationMemberSchema>;
 
+// Member row joined with the user it belongs to, for team listings
+export const organizationMemberDetailsSchema = organizationMemberSchema.extend({
+  email: z.string().email(),
+  first_name: z.string(),
+  last_name: z.string(),
+  is_active: z.boolean()
+});
+
+export type OrganizationMemberDetails = z.infer<typeof organizationMemberDetailsSchema>;
+
 // Incident affected components schema
 export const incidentAffectedComponentSchema = z.object({
   id: z.number(),
@@ -153,6 +385,141 @@ export const maintenanceAffectedComponentSchema = z.object({
 
 export type MaintenanceAffectedComponent = z.infer<typeof maintenanceAffectedComponentSchema>;
 
+// Session schema
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  token_hash: z.string(),
+  expires_at: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// API key schema (token hash is never exposed; empty status_page_ids means all pages)
+export const apiKeySchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  name: z.string(),
+  token_prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  status_page_ids: z.array(z.number()),
+  created_by: z.number(),
+  last_used_at: z.coerce.date().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Resolved API key attached to the request context
+export const apiKeyPrincipalSchema = apiKeySchema.pick({
+  id: true,
+  organization_id: true,
+  scopes: true,
+  status_page_ids: true,
+  created_by: true
+});
+
+export type ApiKeyPrincipal = z.infer<typeof apiKeyPrincipalSchema>;
+
+// Invitation schema
+export const invitationSchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  email: z.string().email(),
+  role: userRoleSchema,
+  status: invitationStatusSchema,
+  invited_by: z.number(),
+  expires_at: z.coerce.date(),
+  accepted_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+// What an invitee sees before accepting, resolved from the invite token alone
+export const invitationDetailsSchema = z.object({
+  organization_name: z.string(),
+  email: z.string().email(),
+  role: userRoleSchema,
+  expires_at: z.coerce.date(),
+  account_exists: z.boolean()
+});
+
+export type InvitationDetails = z.infer<typeof invitationDetailsSchema>;
+
+// Ownership is transferred, never granted through single sign-on
+export const ssoRoleSchema = userRoleSchema.exclude(['owner']);
+export type SsoRole = z.infer<typeof ssoRoleSchema>;
+
+// SSO role mapping: members in the IdP group get this organization role
+export const ssoRoleMappingSchema = z.object({
+  group: z.string().min(1),
+  role: ssoRoleSchema
+});
+
+export type SsoRoleMapping = z.infer<typeof ssoRoleMappingSchema>;
+
+// SSO connection schema (the client secret is never exposed)
+export const ssoConnectionSchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  issuer: z.string(),
+  client_id: z.string(),
+  allowed_domains: z.array(z.string()),
+  domain_verification_token: z.string(),
+  verified_domains: z.array(z.string()),
+  default_role: ssoRoleSchema,
+  groups_claim: z.string().nullable(),
+  role_mappings: z.array(ssoRoleMappingSchema),
+  is_enabled: z.boolean(),
+  redirect_uri: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SsoConnection = z.infer<typeof ssoConnectionSchema>;
+
+// Where the browser is sent to sign in with the organization's identity provider
+export const ssoAuthorizationSchema = z.object({
+  authorization_url: z.string(),
+  state: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type SsoAuthorization = z.infer<typeof ssoAuthorizationSchema>;
+
+// Audit log entry with the acting user and API key resolved for display.
+// For updates, before and after only hold the fields that changed; secrets are never recorded.
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  actor_user_id: z.number().nullable(),
+  actor_name: z.string().nullable(),
+  actor_email: z.string().nullable(),
+  api_key_id: z.number().nullable(),
+  api_key_name: z.string().nullable(),
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.number(),
+  action: auditActionSchema,
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+// One page of the audit log, newest first; pass next_cursor back as cursor for the following page
+export const auditLogPageSchema = z.object({
+  entries: z.array(auditLogEntrySchema),
+  next_cursor: z.number().nullable(),
+  retention_days: z.number().nullable()
+});
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
+
 // Input schemas for creating entities
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -164,11 +531,76 @@ export const createUserInputSchema = z.object({
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string()
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// When two_factor_required is set, the session only becomes usable after verifyTwoFactorLogin
+export const loginResultSchema = z.object({
+  user: authUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  two_factor_required: z.boolean()
+});
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(1)
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+// Returned when enrollment starts; the provisioning URI is rendered as a QR code for authenticator apps
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string()
+});
+
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  enabled_at: z.coerce.date().nullable(),
+  recovery_codes_remaining: z.number().int()
+});
+
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+// Plain recovery codes are only ever returned once, right after they are generated
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
 export const createOrganizationInputSchema = z.object({
   name: z.string(),
   slug: z.string(),
-  plan_type: planTypeSchema.default('free'),
-  owner_id: z.number()
+  plan_type: planTypeSchema.default('free')
 });
 
 export type CreateOrganizationInput = z.infer<typeof createOrganizationInputSchema>;
@@ -182,7 +614,10 @@ export const createStatusPageInputSchema = z.object({
   branding_logo_url: z.string().nullable(),
   branding_primary_color: z.string().nullable(),
   branding_secondary_color: z.string().nullable(),
-  is_public: z.boolean().default(true)
+  is_public: z.boolean().default(true),
+  // Defaults to English, and to only the default language being enabled
+  default_locale: localeSchema.optional(),
+  enabled_locales: z.array(localeSchema).optional()
 });
 
 export type CreateStatusPageInput = z.infer<typeof createStatusPageInputSchema>;
@@ -202,8 +637,9 @@ export const createIncidentInputSchema = z.object({
   title: z.string(),
   description: z.string(),
   status: incidentStatusSchema.default('investigating'),
-  created_by: z.number(),
-  affected_component_ids: z.array(z.number()).default([])
+  affected_component_ids: z.array(z.number()).default([]),
+  // Status to put the affected components in; left as they are when omitted
+  component_status: componentStatusSchema.optional()
 });
 
 export type CreateIncidentInput = z.infer<typeof createIncidentInputSchema>;
@@ -212,8 +648,7 @@ export const createIncidentUpdateInputSchema = z.object({
   incident_id: z.number(),
   title: z.string(),
   description: z.string(),
-  status: incidentStatusSchema,
-  created_by: z.number()
+  status: incidentStatusSchema
 });
 
 export type CreateIncidentUpdateInput = z.infer<typeof createIncidentUpdateInputSchema>;
@@ -224,13 +659,101 @@ export const createMaintenanceWindowInputSchema = z.object({
   description: z.string(),
   scheduled_start: z.coerce.date(),
   scheduled_end: z.coerce.date(),
-  created_by: z.number(),
   affected_component_ids: z.array(z.number()).default([])
 });
 
 export type CreateMaintenanceWindowInput = z.infer<typeof createMaintenanceWindowInputSchema>;
 
+export const createApiKeyInputSchema = z.object({
+  organization_id: z.number(),
+  name: z.string().min(1),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  status_page_ids: z.array(z.number()).default([]),
+  expires_at: z.coerce.date().nullable()
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// The plaintext token is only returned once, at creation time
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  token: z.string()
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+// Ownership is transferred, never granted through an invitation
+export const createInvitationInputSchema = z.object({
+  organization_id: z.number(),
+  email: z.string().email(),
+  role: userRoleSchema.exclude(['owner']).default('member')
+});
+
+export type CreateInvitationInput = z.infer<typeof createInvitationInputSchema>;
+
+// Name and password are only needed when the invitee has no account yet
+export const acceptInvitationInputSchema = z.object({
+  token: z.string(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  password: z.string().min(8).optional()
+});
+
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationInputSchema>;
+
+export const acceptInvitationResultSchema = z.object({
+  invitation: invitationSchema,
+  user: authUserSchema,
+  account_created: z.boolean()
+});
+
+export type AcceptInvitationResult = z.infer<typeof acceptInvitationResultSchema>;
+
 // Update schemas
+export const updateOrganizationPlanInputSchema = z.object({
+  id: z.number(),
+  plan_type: planTypeSchema
+});
+
+export type UpdateOrganizationPlanInput = z.infer<typeof updateOrganizationPlanInputSchema>;
+
+export const updateOrganizationSecurityInputSchema = z.object({
+  id: z.number(),
+  require_two_factor: z.boolean()
+});
+
+export type UpdateOrganizationSecurityInput = z.infer<typeof updateOrganizationSecurityInputSchema>;
+
+// The client secret may be omitted when updating an existing connection to keep the stored one
+export const upsertSsoConnectionInputSchema = z.object({
+  organization_id: z.number(),
+  issuer: z.string().url(),
+  client_id: z.string().min(1),
+  client_secret: z.string().min(1).optional(),
+  allowed_domains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid domain')
+  ).min(1),
+  default_role: ssoRoleSchema.default('member'),
+  groups_claim: z.string().min(1).nullable().default(null),
+  role_mappings: z.array(ssoRoleMappingSchema).default([]),
+  is_enabled: z.boolean().default(true)
+});
+
+export type UpsertSsoConnectionInput = z.infer<typeof upsertSsoConnectionInputSchema>;
+
+export const startSsoLoginInputSchema = z.object({
+  organization_slug: z.string().min(1)
+});
+
+export type StartSsoLoginInput = z.infer<typeof startSsoLoginInputSchema>;
+
+export const completeSsoLoginInputSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1)
+});
+
+export type CompleteSsoLoginInput = z.infer<typeof completeSsoLoginInputSchema>;
+
 export const updateStatusPageInputSchema = z.object({
   id: z.number(),
   name: z.string().optional(),
@@ -239,11 +762,317 @@ export const updateStatusPageInputSchema = z.object({
   branding_logo_url: z.string().nullable().optional(),
   branding_primary_color: z.string().nullable().optional(),
   branding_secondary_color: z.string().nullable().optional(),
-  is_public: z.boolean().optional()
+  is_public: z.boolean().optional(),
+  default_locale: localeSchema.optional(),
+  enabled_locales: z.array(localeSchema).optional()
 });
 
 export type UpdateStatusPageInput = z.infer<typeof updateStatusPageInputSchema>;
 
+// Who may view a page while it is private; the password itself is never returned
+export const statusPageAccessSchema = z.object({
+  status_page_id: z.number(),
+  is_public: z.boolean(),
+  password_protected: z.boolean(),
+  password_updated_at: z.coerce.date().nullable(),
+  ip_allowlist: z.array(z.string())
+});
+
+export type StatusPageAccess = z.infer<typeof statusPageAccessSchema>;
+
+// A null password removes it; a new password signs out everyone who unlocked the page with the old one
+export const updateStatusPageAccessInputSchema = z.object({
+  status_page_id: z.number(),
+  password: z.string().min(8).nullable().optional(),
+  ip_allowlist: z.array(z.string()).optional()
+});
+
+export type UpdateStatusPageAccessInput = z.infer<typeof updateStatusPageAccessInputSchema>;
+
+// Without a slug, the page is the one served on the request's custom domain
+export const unlockStatusPageInputSchema = z.object({
+  slug: z.string().optional(),
+  password: z.string()
+});
+
+export type UnlockStatusPageInput = z.infer<typeof unlockStatusPageInputSchema>;
+
+export const unlockStatusPageResultSchema = z.object({
+  status_page_id: z.number(),
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type UnlockStatusPageResult = z.infer<typeof unlockStatusPageResultSchema>;
+
+// Email subscribers; only confirmed subscribers are sent notifications
+export const subscriberSchema = z.object({
+  id: z.number(),
+  status_page_id: z.number(),
+  email: z.string(),
+  confirmed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Subscriber = z.infer<typeof subscriberSchema>;
+
+// Without a slug, the page is the one served on the request's custom domain
+export const subscribeInputSchema = z.object({
+  slug: z.string().optional(),
+  email: z.string().trim().email()
+});
+
+export type SubscribeInput = z.infer<typeof subscribeInputSchema>;
+
+// Signed token from a confirmation, unsubscribe or preferences link
+export const subscriptionTokenInputSchema = z.object({
+  token: z.string()
+});
+
+export type SubscriptionTokenInput = z.infer<typeof subscriptionTokenInputSchema>;
+
+// What a subscriber sees on the page reached from the preferences link in their emails.
+// No chosen components means every component, including ones added later.
+export const subscriptionPreferencesSchema = z.object({
+  status_page_name: z.string(),
+  email: z.string(),
+  components: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullable()
+  })),
+  component_ids: z.array(z.number())
+});
+
+export type SubscriptionPreferences = z.infer<typeof subscriptionPreferencesSchema>;
+
+export const updateSubscriptionPreferencesInputSchema = z.object({
+  token: z.string(),
+  component_ids: z.array(z.number().int())
+});
+
+export type UpdateSubscriptionPreferencesInput = z.infer<typeof updateSubscriptionPreferencesInputSchema>;
+
+// Webhook endpoints; the signing secret is only returned when it is created or rotated
+export const webhookEndpointSchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  url: z.string(),
+  description: z.string().nullable(),
+  event_types: z.array(webhookEventTypeSchema),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type WebhookEndpoint = z.infer<typeof webhookEndpointSchema>;
+
+export const webhookEndpointWithSecretSchema = z.object({
+  webhook_endpoint: webhookEndpointSchema,
+  secret: z.string()
+});
+
+export type WebhookEndpointWithSecret = z.infer<typeof webhookEndpointWithSecretSchema>;
+
+const webhookUrlSchema = z.string().url().refine(
+  url => url.startsWith('https://') || url.startsWith('http://'),
+  'Webhook URLs must use http or https'
+);
+
+export const createWebhookEndpointInputSchema = z.object({
+  organization_id: z.number(),
+  url: webhookUrlSchema,
+  description: z.string().nullable().optional(),
+  event_types: z.array(webhookEventTypeSchema).min(1)
+});
+
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointInputSchema>;
+
+export const updateWebhookEndpointInputSchema = z.object({
+  id: z.number(),
+  url: webhookUrlSchema.optional(),
+  description: z.string().nullable().optional(),
+  event_types: z.array(webhookEventTypeSchema).min(1).optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointInputSchema>;
+
+// One event sent to one endpoint, with the outcome of its latest attempt
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  webhook_endpoint_id: z.number(),
+  event_id: z.string(),
+  event_type: webhookEventTypeSchema,
+  payload: z.record(z.unknown()),
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(),
+  last_attempt_at: z.coerce.date().nullable(),
+  response_status: z.number().int().nullable(),
+  response_body: z.string().nullable(),
+  error: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+export const getWebhookDeliveriesInputSchema = z.object({
+  webhook_endpoint_id: z.number(),
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesInputSchema>;
+
+// Slack and Teams channels of a status page. The webhook URL and bot token are credentials,
+// so they are never returned; has_bot_token tells whether Slack updates are threaded.
+export const chatIntegrationSchema = z.object({
+  id: z.number(),
+  status_page_id: z.number(),
+  provider: chatProviderSchema,
+  name: z.string(),
+  channel: z.string().nullable(),
+  has_webhook_url: z.boolean(),
+  has_bot_token: z.boolean(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ChatIntegration = z.infer<typeof chatIntegrationSchema>;
+
+export const createChatIntegrationInputSchema = z.object({
+  status_page_id: z.number(),
+  provider: chatProviderSchema,
+  name: z.string().min(1),
+  webhook_url: webhookUrlSchema.nullable().optional(),
+  bot_token: z.string().min(1).nullable().optional(),
+  channel: z.string().min(1).nullable().optional()
+});
+
+export type CreateChatIntegrationInput = z.infer<typeof createChatIntegrationInputSchema>;
+
+export const updateChatIntegrationInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  webhook_url: webhookUrlSchema.nullable().optional(),
+  bot_token: z.string().min(1).nullable().optional(),
+  channel: z.string().min(1).nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateChatIntegrationInput = z.infer<typeof updateChatIntegrationInputSchema>;
+
+// International (E.164) format once spaces, dots, dashes and parentheses are dropped
+export const phoneNumberSchema = z.string()
+  .transform(value => value.replace(/[\s().-]/g, ''))
+  .pipe(z.string().regex(/^\+[1-9]\d{6,14}$/, 'Enter the phone number with its country code, like +14155550123'));
+
+// SMS subscribers; only verified numbers are sent notifications
+export const smsSubscriberSchema = z.object({
+  id: z.number(),
+  status_page_id: z.number(),
+  phone_number: z.string(),
+  verified_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SmsSubscriber = z.infer<typeof smsSubscriberSchema>;
+
+// Without a slug, the page is the one served on the request's custom domain
+export const subscribeSmsInputSchema = z.object({
+  slug: z.string().optional(),
+  phone_number: phoneNumberSchema
+});
+
+export type SubscribeSmsInput = z.infer<typeof subscribeSmsInputSchema>;
+
+export const verifySmsSubscriptionInputSchema = z.object({
+  slug: z.string().optional(),
+  phone_number: phoneNumberSchema,
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from the text message')
+});
+
+export type VerifySmsSubscriptionInput = z.infer<typeof verifySmsSubscriptionInputSchema>;
+
+// Statuses an incident rule can require of an affected component, from least to most severe
+export const smsRuleComponentStatusSchema = z.enum(['performance_issues', 'partial_outage', 'major_outage']);
+export type SmsRuleComponentStatus = z.infer<typeof smsRuleComponentStatusSchema>;
+
+export const smsRuleSchema = z.object({
+  id: z.number(),
+  status_page_id: z.number(),
+  event_type: smsEventTypeSchema,
+  min_component_status: componentStatusSchema.nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SmsRule = z.infer<typeof smsRuleSchema>;
+
+// Replaces every SMS rule of the page; an empty list stops texts altogether
+export const setSmsRulesInputSchema = z.object({
+  status_page_id: z.number(),
+  rules: z.array(z.object({
+    event_type: smsEventTypeSchema,
+    // Only for incident events; null texts about every incident
+    min_component_status: smsRuleComponentStatusSchema.nullable().default(null)
+  }))
+});
+
+export type SetSmsRulesInput = z.infer<typeof setSmsRulesInputSchema>;
+
+// Texts sent by an organization this calendar month (UTC) against its plan's quota
+export const smsUsageSchema = z.object({
+  organization_id: z.number(),
+  plan_type: planTypeSchema,
+  quota: z.number(),
+  used: z.number(),
+  period_start: z.coerce.date(),
+  period_end: z.coerce.date()
+});
+
+export type SmsUsage = z.infer<typeof smsUsageSchema>;
+
+// Background work queued for an organization, such as notification fan-out. Dead jobs ran out of attempts.
+export const jobSchema = z.object({
+  id: z.number(),
+  type: z.string(),
+  payload: z.unknown(),
+  organization_id: z.number().nullable(),
+  idempotency_key: z.string().nullable(),
+  status: jobStatusSchema,
+  attempts: z.number().int(),
+  max_attempts: z.number().int(),
+  run_at: z.coerce.date(),
+  locked_until: z.coerce.date().nullable(),
+  last_error: z.string().nullable(),
+  finished_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
+export const getJobsInputSchema = z.object({
+  organization_id: z.number(),
+  status: jobStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type GetJobsInput = z.infer<typeof getJobsInputSchema>;
+
+// How many of the organization's jobs are in each status, with the newest jobs matching the filter
+export const jobQueueSchema = z.object({
+  counts: z.object({
+    pending: z.number(),
+    running: z.number(),
+    succeeded: z.number(),
+    dead: z.number()
+  }),
+  jobs: z.array(jobSchema)
+});
+
+export type JobQueue = z.infer<typeof jobQueueSchema>;
+
 export const updateComponentInputSchema = z.object({
   id: z.number(),
   name: z.string().optional(),
@@ -263,6 +1092,64 @@ export const updateIncidentInputSchema = z.object({
 
 export type UpdateIncidentInput = z.infer<typeof updateIncidentInputSchema>;
 
+// Translations into the page's other enabled languages; the incident itself is in the default language
+export const incidentTranslationSchema = z.object({
+  id: z.number(),
+  incident_id: z.number(),
+  locale: localeSchema,
+  title: z.string(),
+  description: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type IncidentTranslation = z.infer<typeof incidentTranslationSchema>;
+
+export const incidentUpdateTranslationSchema = z.object({
+  id: z.number(),
+  incident_update_id: z.number(),
+  locale: localeSchema,
+  title: z.string(),
+  description: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type IncidentUpdateTranslation = z.infer<typeof incidentUpdateTranslationSchema>;
+
+export const incidentTranslationsSchema = z.object({
+  incident: z.array(incidentTranslationSchema),
+  updates: z.array(incidentUpdateTranslationSchema)
+});
+
+export type IncidentTranslations = z.infer<typeof incidentTranslationsSchema>;
+
+export const upsertIncidentTranslationInputSchema = z.object({
+  incident_id: z.number(),
+  locale: localeSchema,
+  title: z.string().min(1),
+  description: z.string().min(1)
+});
+
+export type UpsertIncidentTranslationInput = z.infer<typeof upsertIncidentTranslationInputSchema>;
+
+export const upsertIncidentUpdateTranslationInputSchema = z.object({
+  incident_update_id: z.number(),
+  locale: localeSchema,
+  title: z.string().min(1),
+  description: z.string().min(1)
+});
+
+export type UpsertIncidentUpdateTranslationInput = z.infer<typeof upsertIncidentUpdateTranslationInputSchema>;
+
+// Removes the incident's translation and those of all its updates in one language
+export const deleteIncidentTranslationInputSchema = z.object({
+  incident_id: z.number(),
+  locale: localeSchema
+});
+
+export type DeleteIncidentTranslationInput = z.infer<typeof deleteIncidentTranslationInputSchema>;
+
 export const updateMaintenanceWindowInputSchema = z.object({
   id: z.number(),
   title: z.string().optional(),
@@ -274,4 +1161,18 @@ export const updateMaintenanceWindowInputSchema = z.object({
   actual_end: z.coerce.date().nullable().optional()
 });
 
-export type UpdateMaintenanceWindowInput = z.infer<typeof updateMaintenanceWindowInputSchema>;
\ No newline at end of file
+export type UpdateMaintenanceWindowInput = z.infer<typeof updateMaintenanceWindowInputSchema>;
+
+// Query schemas
+export const getAuditLogInputSchema = z.object({
+  organization_id: z.number(),
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.number().optional(),
+  actor_user_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.number().optional(),
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable, invitationsTable } from '../db/schema';
+import { acceptInvitation } from '../handlers/accept_invitation';
+import { signToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('acceptInvitation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  const inviteToken = async (email: string, values: Partial<typeof invitationsTable.$inferInsert> = {}) => {
+    const result = await db.insert(invitationsTable)
+      .values({
+        organization_id: organizationId,
+        email,
+        role: 'admin',
+        invited_by: ownerId,
+        expires_at: new Date(Date.now() + 60_000),
+        ...values
+      })
+      .returning()
+      .execute();
+    return signToken('invitation', result[0].id, new Date(Date.now() + 60_000));
+  };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should create an account for a new invitee and add them with the invited role', async () => {
+    const token = await inviteToken('new@example.com');
+
+    const result = await acceptInvitation({ token, first_name: 'Nina', last_name: 'New', password: 'password123' });
+
+    expect(result.account_created).toBe(true);
+    expect(result.user.email).toEqual('new@example.com');
+    expect(result.user.first_name).toEqual('Nina');
+    expect(result.user.email_verified_at).toBeInstanceOf(Date);
+    expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+    expect(result.invitation.status).toEqual('accepted');
+    expect(result.invitation.accepted_at).toBeInstanceOf(Date);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, 'new@example.com'))
+      .execute();
+    expect(await Bun.password.verify('password123', users[0].password_hash)).toBe(true);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.user_id, result.user.id))
+      .execute();
+    expect(members).toHaveLength(1);
+    expect(members[0].organization_id).toEqual(organizationId);
+    expect(members[0].role).toEqual('admin');
+  });
+
+  it('should require account details when the invitee has no account', async () => {
+    const token = await inviteToken('new@example.com');
+
+    await expect(acceptInvitation({ token })).rejects.toThrow(/required to create an account/i);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+  });
+
+  it('should add an existing user without creating a new account', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'existing@example.com', password_hash: 'hashed_password', first_name: 'Eve', last_name: 'Existing' })
+      .returning()
+      .execute();
+    const token = await inviteToken('existing@example.com');
+
+    const result = await acceptInvitation({ token });
+
+    expect(result.account_created).toBe(false);
+    expect(result.user.id).toEqual(userResult[0].id);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.user_id, userResult[0].id))
+      .execute();
+    expect(members).toHaveLength(1);
+  });
+
+  it('should only be usable once', async () => {
+    const token = await inviteToken('new@example.com');
+    await acceptInvitation({ token, first_name: 'Nina', last_name: 'New', password: 'password123' });
+
+    await expect(acceptInvitation({ token })).rejects.toThrow(/already been accepted/i);
+  });
+
+  it('should reject revoked and expired invitations', async () => {
+    const revokedToken = await inviteToken('revoked@example.com', { status: 'revoked' });
+    const expiredToken = await inviteToken('expired@example.com', { expires_at: new Date(Date.now() - 1000) });
+
+    await expect(acceptInvitation({ token: revokedToken, first_name: 'R', last_name: 'R', password: 'password123' }))
+      .rejects.toThrow(/already been revoked/i);
+    await expect(acceptInvitation({ token: expiredToken, first_name: 'E', last_name: 'E', password: 'password123' }))
+      .rejects.toThrow(/invitation has expired/i);
+
+    const members = await db.select().from(organizationMembersTable).execute();
+    expect(members).toHaveLength(0);
+  });
+
+  it('should reject forged tokens', async () => {
+    await inviteToken('new@example.com');
+
+    await expect(acceptInvitation({ token: 'eyJpZCI6MX0.forged', first_name: 'F', last_name: 'F', password: 'password123' }))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+});
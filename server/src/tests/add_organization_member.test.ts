@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, organizationsTable, organizationMembersTable } from '../db/schema';
+import { usersTable, organizationsTable, organizationMembersTable, invitationsTable } from '../db/schema';
 import { addOrganizationMember } from '../handlers/add_organization_member';
 import { eq, and } from 'drizzle-orm';
 
@@ -131,6 +131,43 @@ describe('addOrganizationMember', () => {
     await expect(addOrganizationMember(testOrganization.id, testMember.id)).rejects.toThrow(/reached the member limit.*free.*7/i);
   });
 
+  it('should count pending invitations toward the member limit', async () => {
+    // Hold all 7 free plan seats with pending invitations
+    await db.insert(invitationsTable)
+      .values(Array.from({ length: 7 }, (_, i) => ({
+        organization_id: testOrganization.id,
+        email: `invitee${i}@test.com`,
+        invited_by: testUser.id,
+        expires_at: new Date(Date.now() + 60_000)
+      })))
+      .execute();
+
+    await expect(addOrganizationMember(testOrganization.id, testMember.id)).rejects.toThrow(/reached the member limit.*free.*7/i);
+  });
+
+  it('should not count expired or revoked invitations toward the member limit', async () => {
+    await db.insert(invitationsTable)
+      .values([
+        ...Array.from({ length: 4 }, (_, i) => ({
+          organization_id: testOrganization.id,
+          email: `expired${i}@test.com`,
+          invited_by: testUser.id,
+          expires_at: new Date(Date.now() - 60_000)
+        })),
+        ...Array.from({ length: 4 }, (_, i) => ({
+          organization_id: testOrganization.id,
+          email: `revoked${i}@test.com`,
+          status: 'revoked' as const,
+          invited_by: testUser.id,
+          expires_at: new Date(Date.now() + 60_000)
+        }))
+      ])
+      .execute();
+
+    const result = await addOrganizationMember(testOrganization.id, testMember.id);
+    expect(result.user_id).toEqual(testMember.id);
+  });
+
   it('should enforce pro plan member limit', async () => {
     // Update organization to pro plan
     await db.update(organizationsTable)
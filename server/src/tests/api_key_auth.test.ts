@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  organizationMembersTable,
+  statusPagesTable,
+  componentsTable,
+  apiKeysTable
+} from '../db/schema';
+import { createCaller, createContext } from '../index';
+import { createApiKey } from '../handlers/create_api_key';
+import { type ApiKeyScope } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Build a router caller authenticated through an Authorization: Bearer header
+const callerFor = async (token: string) => {
+  const req = new IncomingMessage(new Socket());
+  req.headers.authorization = `Bearer ${token}`;
+  const res = new ServerResponse(req);
+  return createCaller(await createContext({ req, res }));
+};
+
+describe('API key authentication', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let organizationId: number;
+  let statusPageId: number;
+  let otherStatusPageId: number;
+  let componentId: number;
+  let otherComponentId: number;
+
+  const issueKey = async (scopes: ApiKeyScope[], statusPageIds: number[] = [], expiresAt: Date | null = null) => {
+    const result = await createApiKey({
+      organization_id: organizationId,
+      name: 'Automation',
+      scopes,
+      status_page_ids: statusPageIds,
+      expires_at: expiresAt
+    }, adminId);
+    return result;
+  };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' },
+        { email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' }
+      ])
+      .returning()
+      .execute();
+    adminId = userResult[1].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: adminId, role: 'admin' })
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: organizationId, name: 'Public', slug: 'public' },
+        { organization_id: organizationId, name: 'Internal', slug: 'internal' }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+    otherStatusPageId = pageResult[1].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API' },
+        { status_page_id: otherStatusPageId, name: 'Database' }
+      ])
+      .returning()
+      .execute();
+    componentId = componentResult[0].id;
+    otherComponentId = componentResult[1].id;
+  });
+
+  it('should accept a bearer token with the required scope', async () => {
+    const { token } = await issueKey(['read', 'incidents:write']);
+    const caller = await callerFor(token);
+
+    const pages = await caller.getStatusPages({ organizationId });
+    expect(pages).toHaveLength(2);
+
+    const incident = await caller.createIncident({
+      status_page_id: statusPageId,
+      title: 'Elevated errors',
+      description: 'Investigating elevated error rates',
+      affected_component_ids: []
+    });
+    expect(incident.created_by).toEqual(adminId);
+  });
+
+  it('should record last use of the key', async () => {
+    const { token, api_key } = await issueKey(['read']);
+
+    await callerFor(token);
+
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, api_key.id))
+      .execute();
+
+    expect(apiKeys[0].last_used_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject procedures outside the key scopes', async () => {
+    const { token } = await issueKey(['read']);
+    const caller = await callerFor(token);
+
+    await expect(caller.updateComponent({ id: componentId, status: 'major_outage' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createIncident({
+      status_page_id: statusPageId,
+      title: 'Outage',
+      description: 'Down',
+      affected_component_ids: []
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should limit restricted keys to their status pages', async () => {
+    const { token } = await issueKey(['read', 'components:write'], [statusPageId]);
+    const caller = await callerFor(token);
+
+    const updated = await caller.updateComponent({ id: componentId, status: 'performance_issues' });
+    expect(updated.status).toEqual('performance_issues');
+
+    await expect(caller.updateComponent({ id: otherComponentId, status: 'major_outage' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getStatusPages({ organizationId }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should never grant more than the creator role allows', async () => {
+    const { token } = await issueKey(['read', 'components:write']);
+    const caller = await callerFor(token);
+
+    await db.update(organizationMembersTable)
+      .set({ role: 'viewer' })
+      .where(eq(organizationMembersTable.user_id, adminId))
+      .execute();
+
+    await expect(caller.updateComponent({ id: componentId, status: 'major_outage' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should not allow keys to manage keys, members or the organization', async () => {
+    const { token, api_key } = await issueKey(['read', 'incidents:write', 'components:write', 'maintenance:write']);
+    const caller = await callerFor(token);
+
+    await expect(caller.getApiKeys({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.revokeApiKey({ id: api_key.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getOrganizations()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(caller.createStatusPage({
+      organization_id: organizationId,
+      name: 'New',
+      slug: 'new',
+      description: null,
+      custom_domain: null,
+      branding_logo_url: null,
+      branding_primary_color: null,
+      branding_secondary_color: null
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject revoked keys', async () => {
+    const { token, api_key } = await issueKey(['read']);
+
+    await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(apiKeysTable.id, api_key.id))
+      .execute();
+
+    const caller = await callerFor(token);
+    await expect(caller.getStatusPages({ organizationId })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject expired keys', async () => {
+    const { token } = await issueKey(['read'], [], new Date(Date.now() - 1000));
+
+    const caller = await callerFor(token);
+    await expect(caller.getStatusPages({ organizationId })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject unknown tokens', async () => {
+    const caller = await callerFor('es_not_a_real_key');
+
+    await expect(caller.getStatusPages({ organizationId })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
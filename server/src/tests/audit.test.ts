@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, auditLogsTable } from '../db/schema';
+import {
+  recordAuditEvent,
+  purgeExpiredAuditLogs,
+  toAuditSnapshot,
+  diffAuditSnapshots,
+  auditLogRetentionCutoff,
+  auditLogRetentionDays
+} from '../lib/audit';
+import { asc } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('audit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  const createOrganization = async (slug: string, plan_type: 'free' | 'pro' | 'plus' | 'enterprise') => {
+    const result = await db.insert(organizationsTable)
+      .values({ name: slug, slug, plan_type, owner_id: userId })
+      .returning()
+      .execute();
+    return result[0].id;
+  };
+
+  it('should snapshot rows without secrets and with ISO dates', () => {
+    const snapshot = toAuditSnapshot({
+      id: 1,
+      password_hash: 'hash',
+      client_secret: 'secret',
+      created_at: new Date('2024-01-01T00:00:00Z')
+    });
+
+    expect(snapshot).toEqual({ id: 1, created_at: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('should reduce snapshots to the changed fields, ignoring updated_at', () => {
+    const result = diffAuditSnapshots(
+      { name: 'API', status: 'operational', tags: ['a'], updated_at: '2024-01-01' },
+      { name: 'API', status: 'major_outage', tags: ['a', 'b'], updated_at: '2024-01-02' }
+    );
+
+    expect(result.before).toEqual({ status: 'operational', tags: ['a'] });
+    expect(result.after).toEqual({ status: 'major_outage', tags: ['a', 'b'] });
+  });
+
+  it('should record system changes without an actor', async () => {
+    const organizationId = await createOrganization('acme', 'free');
+
+    await recordAuditEvent(null, {
+      organizationId,
+      entityType: 'component',
+      entityId: 7,
+      action: 'create',
+      after: { id: 7, name: 'API' }
+    });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actor_user_id).toBeNull();
+    expect(entries[0].api_key_id).toBeNull();
+    expect(entries[0].before).toBeNull();
+    expect(entries[0].after).toEqual({ id: 7, name: 'API' });
+  });
+
+  it('should purge entries past the retention of each organization plan', async () => {
+    const freeOrganizationId = await createOrganization('free-org', 'free');
+    const enterpriseOrganizationId = await createOrganization('enterprise-org', 'enterprise');
+    const now = new Date();
+    const freeRetentionDays = auditLogRetentionDays.free!;
+
+    const entry = (organization_id: number, ageDays: number) => ({
+      organization_id,
+      entity_type: 'component' as const,
+      entity_id: 1,
+      action: 'update' as const,
+      created_at: new Date(now.getTime() - ageDays * DAY_MS)
+    });
+
+    await db.insert(auditLogsTable)
+      .values([
+        entry(freeOrganizationId, freeRetentionDays + 1),
+        entry(freeOrganizationId, freeRetentionDays - 1),
+        entry(enterpriseOrganizationId, 3650)
+      ])
+      .execute();
+
+    const purged = await purgeExpiredAuditLogs(now);
+
+    expect(purged).toEqual(1);
+
+    const remaining = await db.select().from(auditLogsTable).orderBy(asc(auditLogsTable.id)).execute();
+    expect(remaining).toHaveLength(2);
+    expect(remaining.map(e => e.organization_id)).toEqual([freeOrganizationId, enterpriseOrganizationId]);
+  });
+
+  it('should give longer retention to higher plans', () => {
+    const now = new Date();
+
+    expect(auditLogRetentionCutoff('free', now)!.getTime()).toBeGreaterThan(auditLogRetentionCutoff('pro', now)!.getTime());
+    expect(auditLogRetentionCutoff('pro', now)!.getTime()).toBeGreaterThan(auditLogRetentionCutoff('plus', now)!.getTime());
+    expect(auditLogRetentionCutoff('enterprise', now)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { parseCookies, serializeSessionCookie, SESSION_COOKIE_NAME } from '../lib/auth';
+
+describe('parseCookies', () => {
+  it('should decode cookie values', () => {
+    expect(parseCookies('a=1; b=hello%20world;c=x=y')).toEqual({ a: '1', b: 'hello world', c: 'x=y' });
+  });
+
+  it('should read back a serialized session cookie', () => {
+    const header = serializeSessionCookie('token/with+chars', new Date()).split(';')[0];
+
+    expect(parseCookies(header)[SESSION_COOKIE_NAME]).toEqual('token/with+chars');
+  });
+
+  it('should keep malformed values as they are instead of throwing', () => {
+    expect(parseCookies('x=%E0%A4%A; session=abc')).toEqual({ x: '%E0%A4%A', session: 'abc' });
+  });
+
+  it('should skip parts without a name or value', () => {
+    expect(parseCookies(undefined)).toEqual({});
+    expect(parseCookies('novalue; =orphan; a=1')).toEqual({ a: '1' });
+  });
+});
+
+describe('signed tokens across processes', () => {
+  const configuredSecret = process.env['APP_SECRET'];
+
+  afterEach(() => {
+    if (configuredSecret === undefined) {
+      delete process.env['APP_SECRET'];
+    } else {
+      process.env['APP_SECRET'] = configuredSecret;
+    }
+  });
+
+  // Each import with its own query string is a separate module instance, like the server and a job worker
+  let instance = 0;
+  const loadAuth = (): Promise<typeof import('../lib/auth')> => import(`../lib/auth.ts?instance=${++instance}`);
+
+  it('should verify a token signed by another instance when APP_SECRET is shared', async () => {
+    process.env['APP_SECRET'] = 'shared-test-secret';
+    const worker = await loadAuth();
+    const server = await loadAuth();
+
+    const token = worker.signToken('unsubscribe', 42, new Date(Date.now() + 60_000));
+
+    expect(server.verifySignedToken(token, 'unsubscribe')).toEqual(42);
+    expect(() => server.assertSharedSigningSecret()).not.toThrow();
+  });
+
+  it('should refuse to run separate processes without APP_SECRET', async () => {
+    delete process.env['APP_SECRET'];
+    const worker = await loadAuth();
+    const server = await loadAuth();
+
+    const token = worker.signToken('unsubscribe', 42, new Date(Date.now() + 60_000));
+
+    // Each instance made up its own secret
+    expect(server.verifySignedToken(token, 'unsubscribe')).toBeNull();
+    expect(() => server.assertSharedSigningSecret()).toThrow(/APP_SECRET must be set/);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { changePassword } from '../handlers/change_password';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: await Bun.password.hash('old-password'), first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    await db.insert(sessionsTable)
+      .values([
+        { user_id: userId, token_hash: hashToken('current-session'), expires_at: new Date(Date.now() + 60_000) },
+        { user_id: userId, token_hash: hashToken('other-session'), expires_at: new Date(Date.now() + 60_000) }
+      ])
+      .execute();
+  });
+
+  it('should change the password and keep only the current session', async () => {
+    const result = await changePassword({ current_password: 'old-password', new_password: 'new-password' }, userId, 'current-session');
+
+    expect(result).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(await Bun.password.verify('new-password', users[0].password_hash)).toBe(true);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions.map(s => s.token_hash)).toEqual([hashToken('current-session')]);
+  });
+
+  it('should reject a wrong current password', async () => {
+    await expect(changePassword({ current_password: 'wrong-password', new_password: 'new-password' }, userId, 'current-session'))
+      .rejects.toThrow(/current password is incorrect/i);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(changePassword({ current_password: 'old-password', new_password: 'new-password' }, 99999, null))
+      .rejects.toThrow(/user with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,263 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, runQueuedJobs } from '../helpers';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  chatIntegrationsTable,
+  chatThreadsTable,
+  jobsTable
+} from '../db/schema';
+import { createIncident } from '../handlers/create_incident';
+import { createIncidentUpdate } from '../handlers/create_incident_update';
+import { createMaintenanceWindow } from '../handlers/create_maintenance_window';
+import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
+import { chatIntegrationConfigError, setSlackApiUrl } from '../lib/chat_notifications';
+import { allowPrivateHost } from '../lib/outbound_requests';
+import { runDueJobs, JOB_RETRY_BASE_MS } from '../lib/jobs';
+import { eq } from 'drizzle-orm';
+
+describe('chat notifications', () => {
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+    setSlackApiUrl(`${receiver.url}/api`);
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let apiComponentId: number;
+
+  beforeEach(async () => {
+    receiver.requests.length = 0;
+    receiver.responseStatus = 200;
+    receiver.responseBody = 'ok';
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API', position: 1 },
+        { status_page_id: statusPageId, name: 'Dashboard', position: 2 }
+      ])
+      .returning()
+      .execute();
+    apiComponentId = componentResult[0].id;
+  });
+
+  const addIntegration = async (values: Partial<typeof chatIntegrationsTable.$inferInsert>) => {
+    const result = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'slack', name: 'Ops', ...values })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  const createTestIncident = () => createIncident({
+    status_page_id: statusPageId,
+    title: 'API errors',
+    description: 'Some requests fail with <500> & time out',
+    status: 'investigating',
+    affected_component_ids: [apiComponentId]
+  }, userId);
+
+  it('should post a Block Kit message to Slack incoming webhooks', async () => {
+    await addIntegration({ webhook_url: `${receiver.url}/slack` });
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].path).toEqual('/slack');
+    expect(receiver.requests[0].headers['content-type']).toContain('application/json');
+
+    const message = JSON.parse(receiver.requests[0].body);
+    expect(message.text).toEqual('New incident: API errors');
+    expect(message.blocks[0]).toEqual({
+      type: 'header',
+      text: { type: 'plain_text', text: ':red_circle: New incident: API errors', emoji: true }
+    });
+    expect(message.blocks[1].fields).toEqual([
+      { type: 'mrkdwn', text: '*Status*\nInvestigating' },
+      { type: 'mrkdwn', text: '*Affected components*\nAPI' }
+    ]);
+    expect(message.blocks[2].text.text).toEqual('Some requests fail with &lt;500&gt; &amp; time out');
+    expect(message.blocks[3].elements[0].text).toMatch(/^<http.*\|View the Acme Status status page>$/);
+    expect(message.thread_ts).toBeUndefined();
+  });
+
+  it('should post an Adaptive Card to Teams incoming webhooks', async () => {
+    await addIntegration({ provider: 'teams', webhook_url: `${receiver.url}/teams` });
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(receiver.requests).toHaveLength(1);
+    const message = JSON.parse(receiver.requests[0].body);
+    expect(message.type).toEqual('message');
+    expect(message.attachments[0].contentType).toEqual('application/vnd.microsoft.card.adaptive');
+
+    const card = message.attachments[0].content;
+    expect(card.type).toEqual('AdaptiveCard');
+    expect(card.body[0]).toMatchObject({ text: 'New incident', color: 'Attention' });
+    expect(card.body[1]).toMatchObject({ text: 'API errors', size: 'Large' });
+    expect(card.body[2].facts).toEqual([
+      { title: 'Status', value: 'Investigating' },
+      { title: 'Affected components', value: 'API' },
+      { title: 'Status page', value: 'Acme Status' }
+    ]);
+    expect(card.actions[0]).toMatchObject({ type: 'Action.OpenUrl', title: 'View status page' });
+  });
+
+  it('should thread incident updates under the first Slack message when posting with a bot token', async () => {
+    const integration = await addIntegration({ bot_token: 'xoxb-test', channel: 'C0123' });
+    receiver.responseBody = JSON.stringify({ ok: true, ts: '1700000000.000100' });
+
+    const incident = await createTestIncident();
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Rolled back', description: 'Errors have stopped', status: 'resolved' }, userId);
+
+    await runQueuedJobs();
+    expect(receiver.requests).toHaveLength(2);
+    receiver.requests.forEach(request => {
+      expect(request.path).toEqual('/api/chat.postMessage');
+      expect(request.headers['authorization']).toEqual('Bearer xoxb-test');
+    });
+
+    const first = JSON.parse(receiver.requests[0].body);
+    expect(first.channel).toEqual('C0123');
+    expect(first.thread_ts).toBeUndefined();
+
+    const reply = JSON.parse(receiver.requests[1].body);
+    expect(reply.thread_ts).toEqual('1700000000.000100');
+    expect(reply.text).toEqual('Resolved: API errors');
+    expect(reply.blocks[0].text.text).toStartWith(':large_green_circle:');
+
+    const threads = await db.select()
+      .from(chatThreadsTable)
+      .where(eq(chatThreadsTable.chat_integration_id, integration.id))
+      .execute();
+    expect(threads).toHaveLength(1);
+    expect(threads[0].incident_id).toEqual(incident.id);
+  });
+
+  it('should post every maintenance transition, threaded under the scheduled maintenance', async () => {
+    await addIntegration({ bot_token: 'xoxb-test', channel: 'C0123' });
+    receiver.responseBody = JSON.stringify({ ok: true, ts: '1700000000.000200' });
+
+    const maintenanceWindow = await createMaintenanceWindow({
+      status_page_id: statusPageId,
+      title: 'Database upgrade',
+      description: 'Short read-only period',
+      scheduled_start: new Date(Date.now() + 60_000),
+      scheduled_end: new Date(Date.now() + 120_000),
+      affected_component_ids: [apiComponentId]
+    }, userId);
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, description: 'Slightly longer read-only period' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'completed' });
+
+    await runQueuedJobs();
+    const messages = receiver.requests.map(request => JSON.parse(request.body));
+    expect(messages.map(message => message.text)).toEqual([
+      'Scheduled maintenance: Database upgrade',
+      'Maintenance started: Database upgrade',
+      'Maintenance completed: Database upgrade'
+    ]);
+    expect(messages.map(message => message.thread_ts)).toEqual([undefined, '1700000000.000200', '1700000000.000200']);
+  });
+
+  it('should start a thread with the first message the integration posts about an incident', async () => {
+    const incident = await createTestIncident();
+    await addIntegration({ bot_token: 'xoxb-test', channel: 'C0123' });
+    receiver.responseBody = JSON.stringify({ ok: true, ts: '1700000000.000300' });
+
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Found it', description: 'A bad deploy', status: 'identified' }, userId);
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Fixed', description: 'Rolled back', status: 'monitoring' }, userId);
+
+    await runQueuedJobs();
+    expect(JSON.parse(receiver.requests[0].body).thread_ts).toBeUndefined();
+    expect(JSON.parse(receiver.requests[1].body).thread_ts).toEqual('1700000000.000300');
+  });
+
+  it('should skip disabled integrations and keep posting when one channel fails, retrying only that one', async () => {
+    allowPrivateHost('127.0.0.1:1');
+    const unreachable = await addIntegration({ webhook_url: 'http://127.0.0.1:1/unreachable' });
+    await addIntegration({ provider: 'teams', webhook_url: `${receiver.url}/disabled`, is_active: false });
+    await addIntegration({ provider: 'teams', webhook_url: `${receiver.url}/teams` });
+
+    const incident = await createTestIncident();
+
+    await runQueuedJobs();
+    expect(incident.id).toBeDefined();
+    expect(receiver.requests.map(request => request.path)).toEqual(['/teams']);
+
+    await runDueJobs(new Date(Date.now() + JOB_RETRY_BASE_MS));
+    expect(receiver.requests.map(request => request.path)).toEqual(['/teams']);
+    const failed = await db.select().from(jobsTable).where(eq(jobsTable.status, 'pending')).execute();
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ type: 'chat.post', payload: { chatIntegrationId: unreachable.id }, attempts: 2 });
+  });
+
+  it('should not post to webhook URLs that resolve to private addresses', async () => {
+    const port = new URL(receiver.url).port;
+    await addIntegration({ provider: 'teams', webhook_url: `http://localhost:${port}/private` });
+    await addIntegration({ webhook_url: 'http://10.0.0.1/slack' });
+    await addIntegration({ provider: 'teams', webhook_url: `${receiver.url}/teams` });
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(receiver.requests.map(request => request.path)).toEqual(['/teams']);
+  });
+
+  it('should not fail the incident when Slack rejects the message', async () => {
+    await addIntegration({ bot_token: 'xoxb-revoked', channel: 'C0123' });
+    receiver.responseBody = JSON.stringify({ ok: false, error: 'invalid_auth' });
+
+    const incident = await createTestIncident();
+
+    await runQueuedJobs();
+    expect(incident.id).toBeDefined();
+    expect(await db.select().from(chatThreadsTable).execute()).toHaveLength(0);
+  });
+});
+
+describe('chatIntegrationConfigError', () => {
+  it('should require a webhook URL for Teams', () => {
+    expect(chatIntegrationConfigError({ provider: 'teams', webhook_url: null, bot_token: null, channel: null })).toMatch(/webhook url/i);
+    expect(chatIntegrationConfigError({ provider: 'teams', webhook_url: 'https://example.com', bot_token: null, channel: null })).toBeNull();
+  });
+
+  it('should require a webhook URL or a bot token with a channel for Slack', () => {
+    expect(chatIntegrationConfigError({ provider: 'slack', webhook_url: null, bot_token: null, channel: null })).not.toBeNull();
+    expect(chatIntegrationConfigError({ provider: 'slack', webhook_url: null, bot_token: 'xoxb', channel: null })).toMatch(/channel/i);
+    expect(chatIntegrationConfigError({ provider: 'slack', webhook_url: null, bot_token: 'xoxb', channel: 'C1' })).toBeNull();
+    expect(chatIntegrationConfigError({ provider: 'slack', webhook_url: 'https://example.com', bot_token: null, channel: null })).toBeNull();
+  });
+});
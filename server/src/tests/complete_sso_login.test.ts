@@ -0,0 +1,276 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startOidcProvider, type OidcProvider } from '../helpers/oidc_provider';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  organizationMembersTable,
+  ssoConnectionsTable,
+  ssoIdentitiesTable,
+  sessionsTable
+} from '../db/schema';
+import { upsertSsoConnection } from '../handlers/upsert_sso_connection';
+import { startSsoLogin } from '../handlers/start_sso_login';
+import { completeSsoLogin } from '../handlers/complete_sso_login';
+import { getSessionUser } from '../handlers/get_session_user';
+import { type UpsertSsoConnectionInput } from '../schema';
+import { eq, and } from 'drizzle-orm';
+
+describe('completeSsoLogin', () => {
+  let provider: OidcProvider;
+
+  beforeAll(async () => {
+    provider = await startOidcProvider();
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  const configure = async (overrides: Partial<UpsertSsoConnectionInput> = {}) => {
+    await upsertSsoConnection({
+      organization_id: organizationId,
+      issuer: provider.issuer,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      allowed_domains: ['acme.com'],
+      default_role: 'viewer',
+      groups_claim: null,
+      role_mappings: [],
+      is_enabled: true,
+      ...overrides
+    });
+    await db.update(ssoConnectionsTable)
+      .set({ verified_domains: ['acme.com'] })
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+  };
+
+  // Runs the whole browser round trip: start, sign in at the provider, come back with the state cookie
+  const signIn = async () => {
+    const authorization = await startSsoLogin({ organization_slug: 'acme' });
+    const { code, state } = await provider.authorize(authorization.authorization_url);
+    return completeSsoLogin({ code, state }, authorization.state);
+  };
+
+  const membership = async (userId: number) => {
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(and(eq(organizationMembersTable.organization_id, organizationId), eq(organizationMembersTable.user_id, userId)))
+      .execute();
+    return members[0] ?? null;
+  };
+
+  beforeEach(async () => {
+    provider.user = { sub: 'alice-1', email: 'alice@acme.com', email_verified: true, given_name: 'Alice', family_name: 'Smith' };
+    provider.idTokenOverrides = {};
+
+    const ownerResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+    ownerId = ownerResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: ownerId, role: 'owner' })
+      .execute();
+  });
+
+  it('should provision a new user just in time with the default role and sign them in', async () => {
+    await configure();
+
+    const result = await signIn();
+
+    expect(result.user.email).toEqual('alice@acme.com');
+    expect(result.user.first_name).toEqual('Alice');
+    expect(result.user.last_name).toEqual('Smith');
+    expect(result.user.email_verified_at).toBeInstanceOf(Date);
+    expect(result.two_factor_required).toBe(false);
+    expect((await getSessionUser(result.token))!.id).toEqual(result.user.id);
+
+    expect((await membership(result.user.id))!.role).toEqual('viewer');
+
+    const identities = await db.select().from(ssoIdentitiesTable).execute();
+    expect(identities).toHaveLength(1);
+    expect(identities[0].subject).toEqual('alice-1');
+    expect(identities[0].user_id).toEqual(result.user.id);
+  });
+
+  it('should recognise returning users by subject even when their email changes', async () => {
+    await configure();
+    const first = await signIn();
+
+    provider.user = { ...provider.user, email: 'alice.smith@acme.com' };
+    const second = await signIn();
+
+    expect(second.user.id).toEqual(first.user.id);
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(2);
+  });
+
+  it('should map roles from the groups claim, preferring the most privileged match', async () => {
+    await configure({
+      groups_claim: 'groups',
+      role_mappings: [
+        { group: 'engineering', role: 'member' },
+        { group: 'sre', role: 'admin' }
+      ]
+    });
+    provider.user = { ...provider.user, groups: ['engineering', 'sre', 'unrelated'] };
+
+    const result = await signIn();
+
+    expect((await membership(result.user.id))!.role).toEqual('admin');
+  });
+
+  it('should resync the role on every login when a groups claim is configured', async () => {
+    await configure({ groups_claim: 'groups', role_mappings: [{ group: 'sre', role: 'admin' }] });
+    provider.user = { ...provider.user, groups: ['sre'] };
+    const first = await signIn();
+    expect((await membership(first.user.id))!.role).toEqual('admin');
+
+    // Removed from the group at the provider: falls back to the default role
+    provider.user = { ...provider.user, groups: [] };
+    await signIn();
+    expect((await membership(first.user.id))!.role).toEqual('viewer');
+  });
+
+  it('should never change the role of the organization owner', async () => {
+    await configure({ groups_claim: 'groups', role_mappings: [{ group: 'staff', role: 'viewer' }] });
+    provider.user = { sub: 'owner-1', email: 'owner@acme.com', email_verified: true, groups: ['staff'] };
+
+    const result = await signIn();
+
+    expect(result.user.id).toEqual(ownerId);
+    expect((await membership(ownerId))!.role).toEqual('owner');
+  });
+
+  it('should link an existing account that belongs only to this organization', async () => {
+    await configure();
+    const existing = await db.insert(usersTable)
+      .values({ email: 'Alice@Acme.com', password_hash: 'hashed_password', first_name: 'Al', last_name: 'S' })
+      .returning()
+      .execute();
+
+    const result = await signIn();
+
+    expect(result.user.id).toEqual(existing[0].id);
+    expect((await membership(existing[0].id))!.role).toEqual('viewer');
+  });
+
+  it('should refuse to claim an existing account that belongs to another organization', async () => {
+    await configure();
+    const existing = await db.insert(usersTable)
+      .values({ email: 'alice@acme.com', password_hash: 'hashed_password', first_name: 'Alice', last_name: 'Smith' })
+      .returning()
+      .execute();
+    await db.insert(organizationsTable)
+      .values({ name: 'Elsewhere', slug: 'elsewhere', owner_id: existing[0].id })
+      .execute();
+
+    await expect(signIn()).rejects.toThrow(/belongs to another organization/i);
+    expect(await membership(existing[0].id)).toBeNull();
+  });
+
+  it('should reject email domains that are not allowed', async () => {
+    await configure();
+    provider.user = { sub: 'mallory-1', email: 'mallory@evil.example', email_verified: true };
+
+    await expect(signIn()).rejects.toThrow(/domain evil\.example is not allowed/i);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+  });
+
+  it('should reject allowed domains whose ownership has not been verified', async () => {
+    await configure({ allowed_domains: ['acme.com', 'gmail.com'] });
+    provider.user = { sub: 'victim-1', email: 'victim@gmail.com', email_verified: true };
+
+    await expect(signIn()).rejects.toThrow(/domain gmail\.com has not been verified/i);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+    expect(await db.select().from(ssoIdentitiesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject unverified email addresses', async () => {
+    await configure();
+    provider.user = { ...provider.user, email_verified: false };
+
+    await expect(signIn()).rejects.toThrow(/not verified/i);
+  });
+
+  it('should reject deactivated users', async () => {
+    await configure();
+    const first = await signIn();
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, first.user.id))
+      .execute();
+
+    await expect(signIn()).rejects.toThrow(/deactivated/i);
+  });
+
+  it('should require the state cookie from the browser that started the login', async () => {
+    await configure();
+    const authorization = await startSsoLogin({ organization_slug: 'acme' });
+    const { code, state } = await provider.authorize(authorization.authorization_url);
+
+    await expect(completeSsoLogin({ code, state }, null)).rejects.toThrow(/invalid or has expired/i);
+    await expect(completeSsoLogin({ code, state }, 'another-state')).rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should only accept each authorization response once', async () => {
+    await configure();
+    const authorization = await startSsoLogin({ organization_slug: 'acme' });
+    const { code, state } = await provider.authorize(authorization.authorization_url);
+
+    await completeSsoLogin({ code, state }, state);
+
+    await expect(completeSsoLogin({ code, state }, state)).rejects.toThrow(/invalid or has expired/i);
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+  });
+
+  it('should reject ID tokens with the wrong audience, nonce or expiry', async () => {
+    await configure();
+
+    provider.idTokenOverrides = { aud: 'someone-else' };
+    await expect(signIn()).rejects.toThrow(/audience/i);
+
+    provider.idTokenOverrides = { nonce: 'replayed' };
+    await expect(signIn()).rejects.toThrow(/nonce/i);
+
+    provider.idTokenOverrides = { exp: Math.floor(Date.now() / 1000) - 3600 };
+    await expect(signIn()).rejects.toThrow(/expired/i);
+
+    provider.idTokenOverrides = { iss: 'https://impostor.example' };
+    await expect(signIn()).rejects.toThrow(/issuer/i);
+  });
+
+  it('should fail when the connection is disabled before the user returns', async () => {
+    await configure();
+    const authorization = await startSsoLogin({ organization_slug: 'acme' });
+    const { code, state } = await provider.authorize(authorization.authorization_url);
+
+    await db.update(ssoConnectionsTable)
+      .set({ is_enabled: false })
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    await expect(completeSsoLogin({ code, state }, state)).rejects.toThrow(/not configured/i);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, subscribersTable } from '../db/schema';
+import { confirmSubscription } from '../handlers/confirm_subscription';
+import { signToken } from '../lib/auth';
+import { SUBSCRIPTION_CONFIRMATION_PURPOSE, UNSUBSCRIBE_PURPOSE } from '../lib/subscribers';
+import { eq } from 'drizzle-orm';
+
+describe('confirmSubscription', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let subscriberId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: pageResult[0].id, email: 'reader@example.com' })
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+  });
+
+  const confirmationToken = (id: number, expiresAt = new Date(Date.now() + 60 * 60 * 1000)) => {
+    return signToken(SUBSCRIPTION_CONFIRMATION_PURPOSE, id, expiresAt);
+  };
+
+  it('should confirm the subscriber', async () => {
+    const result = await confirmSubscription(confirmationToken(subscriberId));
+
+    expect(result).toBe(true);
+
+    const subscribers = await db.select().from(subscribersTable).where(eq(subscribersTable.id, subscriberId)).execute();
+    expect(subscribers[0].confirmed_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep the original confirmation time when the link is followed again', async () => {
+    const token = confirmationToken(subscriberId);
+    await confirmSubscription(token);
+    const first = await db.select().from(subscribersTable).where(eq(subscribersTable.id, subscriberId)).execute();
+
+    await confirmSubscription(token);
+    const second = await db.select().from(subscribersTable).where(eq(subscribersTable.id, subscriberId)).execute();
+
+    expect(second[0].confirmed_at).toEqual(first[0].confirmed_at);
+  });
+
+  it('should reject expired, tampered and wrong-purpose tokens', async () => {
+    await expect(confirmSubscription(confirmationToken(subscriberId, new Date(Date.now() - 1000)))).rejects.toThrow(/invalid or expired/i);
+    await expect(confirmSubscription(`${confirmationToken(subscriberId)}x`)).rejects.toThrow(/invalid or expired/i);
+    await expect(confirmSubscription(signToken(UNSUBSCRIBE_PURPOSE, subscriberId, new Date(Date.now() + 60000)))).rejects.toThrow(/invalid or expired/i);
+
+    const subscribers = await db.select().from(subscribersTable).execute();
+    expect(subscribers[0].confirmed_at).toBeNull();
+  });
+
+  it('should reject a link for a subscriber who has since been removed', async () => {
+    await db.delete(subscribersTable).execute();
+
+    await expect(confirmSubscription(confirmationToken(subscriberId))).rejects.toThrow(/invalid or expired/i);
+  });
+});
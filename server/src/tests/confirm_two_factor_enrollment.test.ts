@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { startTwoFactorEnrollment } from '../handlers/start_two_factor_enrollment';
+import { confirmTwoFactorEnrollment } from '../handlers/confirm_two_factor_enrollment';
+import { generateTotpCode, totpStep } from '../lib/totp';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('confirmTwoFactorEnrollment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should enable 2FA and return ten recovery codes for a valid code', async () => {
+    const { secret } = await startTwoFactorEnrollment(userId);
+
+    const result = await confirmTwoFactorEnrollment({ code: generateTotpCode(secret) }, userId);
+
+    expect(result.recovery_codes).toHaveLength(10);
+    expect(new Set(result.recovery_codes).size).toEqual(10);
+    result.recovery_codes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    expect(credentials[0].enabled_at).toBeInstanceOf(Date);
+    expect(credentials[0].last_used_step).toEqual(totpStep());
+  });
+
+  it('should store only hashes of the recovery codes', async () => {
+    const { secret } = await startTwoFactorEnrollment(userId);
+    const result = await confirmTwoFactorEnrollment({ code: generateTotpCode(secret) }, userId);
+
+    const stored = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    expect(stored).toHaveLength(10);
+    const storedHashes = stored.map(code => code.code_hash);
+    expect(storedHashes).toContain(hashToken(result.recovery_codes[0].replace('-', '')));
+    expect(storedHashes).not.toContain(result.recovery_codes[0]);
+  });
+
+  it('should reject a wrong code and leave 2FA disabled', async () => {
+    const { secret } = await startTwoFactorEnrollment(userId);
+    const wrongCode = generateTotpCode(secret, totpStep() + 5);
+
+    await expect(confirmTwoFactorEnrollment({ code: wrongCode }, userId)).rejects.toThrow(/invalid authentication code/i);
+
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    expect(credentials[0].enabled_at).toBeNull();
+  });
+
+  it('should throw when enrollment was never started', async () => {
+    await expect(confirmTwoFactorEnrollment({ code: '123456' }, userId)).rejects.toThrow(/not been started/i);
+  });
+
+  it('should throw when 2FA is already enabled', async () => {
+    const { secret } = await startTwoFactorEnrollment(userId);
+    await confirmTwoFactorEnrollment({ code: generateTotpCode(secret) }, userId);
+
+    await expect(confirmTwoFactorEnrollment({ code: generateTotpCode(secret, totpStep() + 1) }, userId))
+      .rejects.toThrow(/already enabled/i);
+  });
+});
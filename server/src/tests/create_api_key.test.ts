@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, apiKeysTable, apiKeyStatusPagesTable } from '../db/schema';
+import { type CreateApiKeyInput } from '../schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('createApiKey', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+  let otherStatusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Test Org', slug: 'test-org', plan_type: 'pro', owner_id: userId },
+        { name: 'Other Org', slug: 'other-org', plan_type: 'pro', owner_id: userId }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: organizationId, name: 'Status', slug: 'status' },
+        { organization_id: orgResult[1].id, name: 'Other Status', slug: 'other-status' }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+    otherStatusPageId = pageResult[1].id;
+  });
+
+  it('should create an API key and return the plaintext token once', async () => {
+    const input: CreateApiKeyInput = {
+      organization_id: organizationId,
+      name: 'CI pipeline',
+      scopes: ['incidents:write', 'read'],
+      status_page_ids: [],
+      expires_at: null
+    };
+
+    const result = await createApiKey(input, userId);
+
+    expect(result.token).toStartWith('es_');
+    expect(result.api_key.name).toEqual('CI pipeline');
+    expect(result.api_key.organization_id).toEqual(organizationId);
+    expect(result.api_key.scopes).toEqual(['incidents:write', 'read']);
+    expect(result.api_key.status_page_ids).toEqual([]);
+    expect(result.api_key.token_prefix).toEqual(result.token.slice(0, 10));
+    expect(result.api_key.created_by).toEqual(userId);
+    expect(result.api_key.last_used_at).toBeNull();
+    expect(result.api_key.revoked_at).toBeNull();
+    expect((result.api_key as Record<string, unknown>)['token_hash']).toBeUndefined();
+  });
+
+  it('should store only the token hash', async () => {
+    const result = await createApiKey({
+      organization_id: organizationId,
+      name: 'Alerting',
+      scopes: ['components:write'],
+      status_page_ids: [],
+      expires_at: new Date('2030-01-01T00:00:00Z')
+    }, userId);
+
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, result.api_key.id))
+      .execute();
+
+    expect(apiKeys).toHaveLength(1);
+    expect(apiKeys[0].token_hash).toEqual(hashToken(result.token));
+    expect(apiKeys[0].expires_at).toEqual(new Date('2030-01-01T00:00:00Z'));
+  });
+
+  it('should record status page restrictions', async () => {
+    const result = await createApiKey({
+      organization_id: organizationId,
+      name: 'Restricted',
+      scopes: ['read'],
+      status_page_ids: [statusPageId],
+      expires_at: null
+    }, userId);
+
+    expect(result.api_key.status_page_ids).toEqual([statusPageId]);
+
+    const restrictions = await db.select()
+      .from(apiKeyStatusPagesTable)
+      .where(eq(apiKeyStatusPagesTable.api_key_id, result.api_key.id))
+      .execute();
+
+    expect(restrictions.map(r => r.status_page_id)).toEqual([statusPageId]);
+  });
+
+  it('should reject status pages from another organization', async () => {
+    await expect(createApiKey({
+      organization_id: organizationId,
+      name: 'Cross tenant',
+      scopes: ['read'],
+      status_page_ids: [otherStatusPageId],
+      expires_at: null
+    }, userId)).rejects.toThrow(/do not belong to the organization/i);
+
+    const apiKeys = await db.select().from(apiKeysTable).execute();
+    expect(apiKeys).toHaveLength(0);
+  });
+});
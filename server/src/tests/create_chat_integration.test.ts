@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, chatIntegrationsTable, auditLogsTable } from '../db/schema';
+import { createChatIntegration } from '../handlers/create_chat_integration';
+
+describe('createChatIntegration', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should create a Slack integration without returning its webhook URL', async () => {
+    const result = await createChatIntegration({
+      status_page_id: statusPageId,
+      provider: 'slack',
+      name: '#incidents',
+      webhook_url: 'https://hooks.slack.com/services/T000/B000/XXXX'
+    });
+
+    expect(result.provider).toEqual('slack');
+    expect(result.name).toEqual('#incidents');
+    expect(result.has_webhook_url).toBe(true);
+    expect(result.has_bot_token).toBe(false);
+    expect(result.is_active).toBe(true);
+    expect((result as Record<string, unknown>)['webhook_url']).toBeUndefined();
+
+    const integrations = await db.select().from(chatIntegrationsTable).execute();
+    expect(integrations[0].webhook_url).toEqual('https://hooks.slack.com/services/T000/B000/XXXX');
+  });
+
+  it('should create a threaded Slack integration from a bot token and channel', async () => {
+    const result = await createChatIntegration({
+      status_page_id: statusPageId,
+      provider: 'slack',
+      name: '#incidents',
+      bot_token: 'xoxb-test',
+      channel: 'C0123'
+    });
+
+    expect(result.has_bot_token).toBe(true);
+    expect(result.has_webhook_url).toBe(false);
+    expect(result.channel).toEqual('C0123');
+  });
+
+  it('should ignore bot tokens for Teams', async () => {
+    const result = await createChatIntegration({
+      status_page_id: statusPageId,
+      provider: 'teams',
+      name: 'Operations',
+      webhook_url: 'https://example.webhook.office.com/webhookb2/abc',
+      bot_token: 'xoxb-test',
+      channel: 'C0123'
+    });
+
+    expect(result.has_bot_token).toBe(false);
+    expect(result.channel).toBeNull();
+  });
+
+  it('should reject integrations that could not post anything', async () => {
+    await expect(createChatIntegration({ status_page_id: statusPageId, provider: 'teams', name: 'Operations' }))
+      .rejects.toThrow(/teams integrations need an incoming webhook url/i);
+    await expect(createChatIntegration({ status_page_id: statusPageId, provider: 'slack', name: '#incidents', bot_token: 'xoxb-test' }))
+      .rejects.toThrow(/need a channel/i);
+  });
+
+  it('should record the creation without credentials', async () => {
+    await createChatIntegration({
+      status_page_id: statusPageId,
+      provider: 'slack',
+      name: '#incidents',
+      webhook_url: 'https://hooks.slack.com/services/T000/B000/XXXX',
+      bot_token: 'xoxb-test',
+      channel: 'C0123'
+    }, { userId, apiKey: null });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('chat_integration');
+    expect(JSON.stringify(entries[0].after)).not.toContain('XXXX');
+    expect(JSON.stringify(entries[0].after)).not.toContain('xoxb-test');
+  });
+
+  it('should throw error for non-existent status page', async () => {
+    await expect(createChatIntegration({ status_page_id: 99999, provider: 'teams', name: 'Ops', webhook_url: 'https://example.com' }))
+      .rejects.toThrow(/status page with id 99999 not found/i);
+  });
+});
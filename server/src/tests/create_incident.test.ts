@@ -7,7 +7,8 @@ import {
   statusPagesTable, 
   componentsTable, 
   incidentsTable, 
-  incidentAffectedComponentsTable 
+  incidentAffectedComponentsTable,
+  componentStatusChangesTable
 } from '../db/schema';
 import { type CreateIncidentInput } from '../schema';
 import { createIncident } from '../handlers/create_incident';
@@ -91,11 +92,10 @@ describe('createIncident', () => {
       title: 'API Service Outage',
       description: 'The API service is experiencing issues',
       status: 'investigating',
-      created_by: testUser.id,
       affected_component_ids: []
     };
 
-    const result = await createIncident(testInput);
+    const result = await createIncident(testInput, testUser.id);
 
     // Validate returned incident
     expect(result.title).toEqual('API Service Outage');
@@ -115,11 +115,10 @@ describe('createIncident', () => {
       title: 'Database Performance Issues',
       description: 'Database queries are running slowly',
       status: 'identified',
-      created_by: testUser.id,
       affected_component_ids: []
     };
 
-    const result = await createIncident(testInput);
+    const result = await createIncident(testInput, testUser.id);
 
     // Query database to verify incident was saved
     const incidents = await db.select()
@@ -142,11 +141,10 @@ describe('createIncident', () => {
       title: 'Multiple Service Outage',
       description: 'Both API and database are affected',
       status: 'investigating',
-      created_by: testUser.id,
       affected_component_ids: [testComponent1.id, testComponent2.id]
     };
 
-    const result = await createIncident(testInput);
+    const result = await createIncident(testInput, testUser.id);
 
     // Verify incident was created
     expect(result.id).toBeDefined();
@@ -170,17 +168,52 @@ describe('createIncident', () => {
     });
   });
 
+  it('should put affected components in the given status and record why', async () => {
+    const result = await createIncident({
+      status_page_id: testStatusPage.id,
+      title: 'API outage',
+      description: 'API is down',
+      status: 'investigating',
+      affected_component_ids: [testComponent1.id],
+      component_status: 'major_outage'
+    }, testUser.id);
+
+    const components = await db.select().from(componentsTable).orderBy(componentsTable.id).execute();
+    expect(components.find(c => c.id === testComponent1.id)!.status).toEqual('major_outage');
+    expect(components.find(c => c.id === testComponent2.id)!.status).toEqual(testComponent2.status);
+
+    const changes = await db.select().from(componentStatusChangesTable).execute();
+    expect(changes).toHaveLength(1);
+    expect(changes[0].component_id).toEqual(testComponent1.id);
+    expect(changes[0].status).toEqual('major_outage');
+    expect(changes[0].source).toEqual('incident');
+    expect(changes[0].source_id).toEqual(result.id);
+  });
+
+  it('should leave component statuses alone without component_status', async () => {
+    await createIncident({
+      status_page_id: testStatusPage.id,
+      title: 'Slow API',
+      description: 'Investigating',
+      status: 'investigating',
+      affected_component_ids: [testComponent1.id]
+    }, testUser.id);
+
+    const component = await db.select().from(componentsTable).where(eq(componentsTable.id, testComponent1.id)).execute();
+    expect(component[0].status).toEqual(testComponent1.status);
+    expect(await db.select().from(componentStatusChangesTable).execute()).toHaveLength(0);
+  });
+
   it('should create incident with single affected component', async () => {
     const testInput: CreateIncidentInput = {
       status_page_id: testStatusPage.id,
       title: 'API Service Maintenance',
       description: 'Scheduled maintenance on API service',
       status: 'monitoring',
-      created_by: testUser.id,
       affected_component_ids: [testComponent1.id]
     };
 
-    const result = await createIncident(testInput);
+    const result = await createIncident(testInput, testUser.id);
 
     // Verify affected component relationship
     const affectedComponents = await db.select()
@@ -199,11 +232,10 @@ describe('createIncident', () => {
       title: 'General System Notice',
       description: 'System-wide notification',
       status: 'resolved',
-      created_by: testUser.id,
       affected_component_ids: []
     };
 
-    const result = await createIncident(testInput);
+    const result = await createIncident(testInput, testUser.id);
 
     // Verify incident was created
     expect(result.id).toBeDefined();
@@ -227,11 +259,10 @@ describe('createIncident', () => {
         title: `Test Incident - ${status}`,
         description: `Testing ${status} status`,
         status: status,
-        created_by: testUser.id,
         affected_component_ids: []
       };
 
-      const result = await createIncident(testInput);
+      const result = await createIncident(testInput, testUser.id);
 
       expect(result.status).toEqual(status);
       expect(result.title).toEqual(`Test Incident - ${status}`);
@@ -244,11 +275,10 @@ describe('createIncident', () => {
       title: 'Invalid Status Page Test',
       description: 'This should fail',
       status: 'investigating',
-      created_by: testUser.id,
       affected_component_ids: []
     };
 
-    expect(createIncident(testInput)).rejects.toThrow(/violates foreign key constraint|foreign key/i);
+    expect(createIncident(testInput, testUser.id)).rejects.toThrow(/violates foreign key constraint|foreign key/i);
   });
 
   it('should throw error for invalid created_by user', async () => {
@@ -257,11 +287,10 @@ describe('createIncident', () => {
       title: 'Invalid User Test',
       description: 'This should fail',
       status: 'investigating',
-      created_by: 99999, // Non-existent user
       affected_component_ids: []
     };
 
-    expect(createIncident(testInput)).rejects.toThrow(/violates foreign key constraint|foreign key/i);
+    expect(createIncident(testInput, 99999)).rejects.toThrow(/violates foreign key constraint|foreign key/i);
   });
 
   it('should throw error for invalid component_id in affected_component_ids', async () => {
@@ -270,10 +299,44 @@ describe('createIncident', () => {
       title: 'Invalid Component Test',
       description: 'This should fail when creating affected components',
       status: 'investigating',
-      created_by: testUser.id,
       affected_component_ids: [99999] // Non-existent component
     };
 
-    expect(createIncident(testInput)).rejects.toThrow(/violates foreign key constraint|foreign key/i);
+    await expect(createIncident(testInput, testUser.id)).rejects.toThrow(/components with ids 99999 not found/i);
+  });
+
+  it('should reject components that belong to another status page', async () => {
+    const otherPageResult = await db.insert(statusPagesTable)
+      .values({
+        organization_id: testOrganization.id,
+        name: 'Other Status Page',
+        slug: 'other-status',
+        is_public: true
+      })
+      .returning()
+      .execute();
+
+    const otherComponentResult = await db.insert(componentsTable)
+      .values({
+        status_page_id: otherPageResult[0].id,
+        name: 'Other Component',
+        status: 'operational',
+        position: 1
+      })
+      .returning()
+      .execute();
+
+    const testInput: CreateIncidentInput = {
+      status_page_id: testStatusPage.id,
+      title: 'Cross Page Component',
+      description: 'Component from a different page',
+      status: 'investigating',
+      affected_component_ids: [testComponent1.id, otherComponentResult[0].id]
+    };
+
+    await expect(createIncident(testInput, testUser.id)).rejects.toThrow(/do not belong to the status page/i);
+
+    const incidents = await db.select().from(incidentsTable).execute();
+    expect(incidents).toHaveLength(0);
   });
 });
\ No newline at end of file
@@ -1,10 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, organizationsTable, statusPagesTable, incidentsTable, incidentUpdatesTable } from '../db/schema';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, incidentUpdatesTable, apiKeysTable, auditLogsTable } from '../db/schema';
 import { type CreateIncidentUpdateInput } from '../schema';
 import { createIncidentUpdate } from '../handlers/create_incident_update';
-import { eq } from 'drizzle-orm';
+import { eq, asc } from 'drizzle-orm';
 
 describe('createIncidentUpdate', () => {
   beforeEach(createDB);
@@ -77,11 +77,10 @@ describe('createIncidentUpdate', () => {
       incident_id: incident.id,
       title: 'Issue Identified',
       description: 'We have identified the root cause of the issue',
-      status: 'identified',
-      created_by: user.id
+      status: 'identified'
     };
 
-    const result = await createIncidentUpdate(testInput);
+    const result = await createIncidentUpdate(testInput, user.id);
 
     // Verify the returned incident update
     expect(result.incident_id).toEqual(incident.id);
@@ -93,6 +92,51 @@ describe('createIncidentUpdate', () => {
     expect(result.created_at).toBeInstanceOf(Date);
   });
 
+  it('should attribute the update and the incident status change to the API key', async () => {
+    const { user, organization, incident } = await setupTestData();
+
+    const apiKeyResult = await db.insert(apiKeysTable)
+      .values({
+        organization_id: organization.id,
+        name: 'Deploy bot',
+        token_prefix: 'es_abcdefg',
+        token_hash: 'token_hash',
+        scopes: ['incidents:write'],
+        created_by: user.id
+      })
+      .returning()
+      .execute();
+    const apiKey = apiKeyResult[0];
+
+    const result = await createIncidentUpdate(
+      { incident_id: incident.id, title: 'Fixed', description: 'Rolled back', status: 'resolved' },
+      user.id,
+      {
+        userId: user.id,
+        apiKey: { id: apiKey.id, organization_id: organization.id, scopes: apiKey.scopes, status_page_ids: [], created_by: user.id }
+      }
+    );
+
+    const entries = await db.select()
+      .from(auditLogsTable)
+      .orderBy(asc(auditLogsTable.id))
+      .execute();
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].entity_type).toEqual('incident_update');
+    expect(entries[0].entity_id).toEqual(result.id);
+    expect(entries[0].action).toEqual('create');
+    expect(entries[1].entity_type).toEqual('incident');
+    expect(entries[1].entity_id).toEqual(incident.id);
+    expect(entries[1].before).toMatchObject({ status: 'investigating', resolved_at: null });
+    expect(entries[1].after).toMatchObject({ status: 'resolved' });
+    for (const entry of entries) {
+      expect(entry.organization_id).toEqual(organization.id);
+      expect(entry.actor_user_id).toEqual(user.id);
+      expect(entry.api_key_id).toEqual(apiKey.id);
+    }
+  });
+
   it('should save incident update to database', async () => {
     const { user, incident } = await setupTestData();
 
@@ -100,11 +144,10 @@ describe('createIncidentUpdate', () => {
       incident_id: incident.id,
       title: 'Issue Monitoring',
       description: 'We are monitoring the fix',
-      status: 'monitoring',
-      created_by: user.id
+      status: 'monitoring'
     };
 
-    const result = await createIncidentUpdate(testInput);
+    const result = await createIncidentUpdate(testInput, user.id);
 
     // Query the database to verify the update was saved
     const updates = await db.select()
@@ -128,11 +171,10 @@ describe('createIncidentUpdate', () => {
       incident_id: incident.id,
       title: 'Issue Identified',
       description: 'Root cause identified',
-      status: 'identified',
-      created_by: user.id
+      status: 'identified'
     };
 
-    await createIncidentUpdate(testInput);
+    await createIncidentUpdate(testInput, user.id);
 
     // Verify the parent incident was updated
     const updatedIncidents = await db.select()
@@ -155,11 +197,10 @@ describe('createIncidentUpdate', () => {
       incident_id: incident.id,
       title: 'Issue Resolved',
       description: 'The issue has been completely resolved',
-      status: 'resolved',
-      created_by: user.id
+      status: 'resolved'
     };
 
-    await createIncidentUpdate(testInput);
+    await createIncidentUpdate(testInput, user.id);
 
     // Verify resolved_at was set
     const updatedIncidents = await db.select()
@@ -184,11 +225,10 @@ describe('createIncidentUpdate', () => {
         incident_id: incident.id,
         title: `Status Update: ${status}`,
         description: `Update for ${status} status`,
-        status: status,
-        created_by: user.id
+        status: status
       };
 
-      const result = await createIncidentUpdate(testInput);
+      const result = await createIncidentUpdate(testInput, user.id);
 
       expect(result.status).toEqual(status);
       expect(result.title).toEqual(`Status Update: ${status}`);
@@ -202,11 +242,10 @@ describe('createIncidentUpdate', () => {
       incident_id: 99999, // Non-existent incident ID
       title: 'Update for non-existent incident',
       description: 'This should fail',
-      status: 'investigating',
-      created_by: user.id
+      status: 'investigating'
     };
 
-    await expect(createIncidentUpdate(testInput)).rejects.toThrow(/foreign key constraint/i);
+    await expect(createIncidentUpdate(testInput, user.id)).rejects.toThrow(/foreign key constraint/i);
   });
 
   it('should fail when user does not exist', async () => {
@@ -216,10 +255,9 @@ describe('createIncidentUpdate', () => {
       incident_id: incident.id,
       title: 'Update with invalid user',
       description: 'This should fail',
-      status: 'investigating',
-      created_by: 99999 // Non-existent user ID
+      status: 'investigating'
     };
 
-    await expect(createIncidentUpdate(testInput)).rejects.toThrow(/foreign key constraint/i);
+    await expect(createIncidentUpdate(testInput, 99999)).rejects.toThrow(/foreign key constraint/i);
   });
 });
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable, invitationsTable } from '../db/schema';
+import { type CreateInvitationInput } from '../schema';
+import { createInvitation } from '../handlers/create_invitation';
+import { createSmtpTransport, setMailTransport } from '../lib/mailer';
+import { verifySignedToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('createInvitation', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    setMailTransport(createSmtpTransport(sink.url));
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    sink.messages.length = 0;
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'free', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  const input = (email: string): CreateInvitationInput => ({
+    organization_id: organizationId,
+    email,
+    role: 'admin'
+  });
+
+  it('should create a pending invitation', async () => {
+    const result = await createInvitation(input('new@example.com'), ownerId);
+
+    expect(result.organization_id).toEqual(organizationId);
+    expect(result.email).toEqual('new@example.com');
+    expect(result.role).toEqual('admin');
+    expect(result.status).toEqual('pending');
+    expect(result.invited_by).toEqual(ownerId);
+    expect(result.accepted_at).toBeNull();
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(eq(invitationsTable.id, result.id))
+      .execute();
+
+    expect(invitations).toHaveLength(1);
+  });
+
+  it('should email a signed accept link', async () => {
+    const result = await createInvitation(input('new@example.com'), ownerId);
+
+    expect(sink.messages).toHaveLength(1);
+    const message = sink.messages[0];
+    expect(message.to).toEqual(['new@example.com']);
+    expect(message.subject).toMatch(/invited to join Acme/);
+    expect(message.text).toContain('Olivia Owner has invited you to join Acme as admin');
+
+    const token = message.text.match(/\/invite\?token=(\S+)/)![1];
+    expect(verifySignedToken(token, 'invitation')).toEqual(result.id);
+  });
+
+  it('should reject a second pending invitation for the same email', async () => {
+    await createInvitation(input('new@example.com'), ownerId);
+
+    await expect(createInvitation(input('new@example.com'), ownerId)).rejects.toThrow(/already pending/i);
+  });
+
+  it('should allow inviting again after the previous invitation expired', async () => {
+    await db.insert(invitationsTable)
+      .values({ organization_id: organizationId, email: 'new@example.com', invited_by: ownerId, expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await createInvitation(input('new@example.com'), ownerId);
+    expect(result.status).toEqual('pending');
+  });
+
+  it('should reject inviting existing members and the owner', async () => {
+    const memberResult = await db.insert(usersTable)
+      .values({ email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' })
+      .returning()
+      .execute();
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: memberResult[0].id, role: 'member' })
+      .execute();
+
+    await expect(createInvitation(input('member@example.com'), ownerId)).rejects.toThrow(/already a member/i);
+    await expect(createInvitation(input('owner@example.com'), ownerId)).rejects.toThrow(/already a member/i);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should count pending invitations toward the plan member limit', async () => {
+    for (let i = 0; i < 7; i++) {
+      await createInvitation(input(`user${i}@example.com`), ownerId);
+    }
+
+    await expect(createInvitation(input('one-too-many@example.com'), ownerId))
+      .rejects.toThrow(/reached the member limit.*free.*7/i);
+    expect(sink.messages).toHaveLength(7);
+  });
+
+  it('should not keep the invitation when the email cannot be sent', async () => {
+    setMailTransport({ send: async () => { throw new Error('SMTP unavailable'); } });
+
+    try {
+      await expect(createInvitation(input('new@example.com'), ownerId)).rejects.toThrow(/smtp unavailable/i);
+    } finally {
+      setMailTransport(createSmtpTransport(sink.url));
+    }
+
+    const invitations = await db.select().from(invitationsTable).execute();
+    expect(invitations).toHaveLength(0);
+  });
+
+  it('should throw error for non-existent organization', async () => {
+    await expect(createInvitation({ ...input('new@example.com'), organization_id: 99999 }, ownerId))
+      .rejects.toThrow(/organization with id 99999 not found/i);
+  });
+});
@@ -20,7 +20,6 @@ const testInput: CreateMaintenanceWindowInput = {
   description: 'Routine database maintenance and upgrades',
   scheduled_start: new Date('2024-02-01T02:00:00Z'),
   scheduled_end: new Date('2024-02-01T04:00:00Z'),
-  created_by: 1,
   affected_component_ids: [1, 2]
 };
 
@@ -65,11 +64,10 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage[0].id,
-      created_by: user[0].id,
       affected_component_ids: [components[0].id, components[1].id]
     };
 
-    const result = await createMaintenanceWindow(input);
+    const result = await createMaintenanceWindow(input, user[0].id);
 
     // Basic field validation
     expect(result.title).toEqual('Database Maintenance');
@@ -110,11 +108,10 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage[0].id,
-      created_by: user[0].id,
       affected_component_ids: []
     };
 
-    const result = await createMaintenanceWindow(input);
+    const result = await createMaintenanceWindow(input, user[0].id);
 
     // Query using proper drizzle syntax
     const maintenanceWindows = await db.select()
@@ -167,11 +164,10 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage[0].id,
-      created_by: user[0].id,
       affected_component_ids: [components[0].id, components[1].id]
     };
 
-    const result = await createMaintenanceWindow(input);
+    const result = await createMaintenanceWindow(input, user[0].id);
 
     // Verify affected components were created
     const affectedComponents = await db.select()
@@ -210,11 +206,10 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage[0].id,
-      created_by: user[0].id,
       affected_component_ids: []
     };
 
-    const result = await createMaintenanceWindow(input);
+    const result = await createMaintenanceWindow(input, user[0].id);
 
     // Verify no affected components were created
     const affectedComponents = await db.select()
@@ -229,11 +224,10 @@ describe('createMaintenanceWindow', () => {
   it('should throw error for non-existent status page', async () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
-      status_page_id: 999,
-      created_by: 1
+      status_page_id: 999
     };
 
-    await expect(createMaintenanceWindow(input)).rejects.toThrow(/status page with id 999 not found/i);
+    await expect(createMaintenanceWindow(input, 1)).rejects.toThrow(/status page with id 999 not found/i);
   });
 
   it('should throw error for non-existent creator user', async () => {
@@ -259,11 +253,10 @@ describe('createMaintenanceWindow', () => {
 
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
-      status_page_id: statusPage[0].id,
-      created_by: 999
+      status_page_id: statusPage[0].id
     };
 
-    await expect(createMaintenanceWindow(input)).rejects.toThrow(/user with id 999 not found/i);
+    await expect(createMaintenanceWindow(input, 999)).rejects.toThrow(/user with id 999 not found/i);
   });
 
   it('should throw error for invalid component ids', async () => {
@@ -290,11 +283,10 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage[0].id,
-      created_by: user[0].id,
       affected_component_ids: [999, 1000]
     };
 
-    await expect(createMaintenanceWindow(input)).rejects.toThrow(/components with ids 999, 1000 not found or do not belong to the status page/i);
+    await expect(createMaintenanceWindow(input, user[0].id)).rejects.toThrow(/components with ids 999, 1000 not found or do not belong to the status page/i);
   });
 
   it('should throw error for components from different status page', async () => {
@@ -339,10 +331,9 @@ describe('createMaintenanceWindow', () => {
     const input: CreateMaintenanceWindowInput = {
       ...testInput,
       status_page_id: statusPage1[0].id,
-      created_by: user[0].id,
       affected_component_ids: [component1[0].id, component2[0].id]
     };
 
-    await expect(createMaintenanceWindow(input)).rejects.toThrow(/not found or do not belong to the status page/i);
+    await expect(createMaintenanceWindow(input, user[0].id)).rejects.toThrow(/not found or do not belong to the status page/i);
   });
 });
\ No newline at end of file
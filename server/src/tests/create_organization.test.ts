@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { organizationsTable, usersTable } from '../db/schema';
+import { organizationsTable, organizationMembersTable, usersTable } from '../db/schema';
 import { type CreateOrganizationInput } from '../schema';
 import { createOrganization } from '../handlers/create_organization';
 import { eq } from 'drizzle-orm';
@@ -18,8 +18,7 @@ const testUser = {
 const testInput: CreateOrganizationInput = {
   name: 'Test Organization',
   slug: 'test-org',
-  plan_type: 'free',
-  owner_id: 1 // Will be set to actual user ID in tests
+  plan_type: 'free'
 };
 
 describe('createOrganization', () => {
@@ -36,11 +35,10 @@ describe('createOrganization', () => {
       .execute();
     
     userId = userResult[0].id;
-    testInput.owner_id = userId;
   });
 
   it('should create an organization', async () => {
-    const result = await createOrganization(testInput);
+    const result = await createOrganization(testInput, userId);
 
     // Basic field validation
     expect(result.name).toEqual('Test Organization');
@@ -53,7 +51,7 @@ describe('createOrganization', () => {
   });
 
   it('should save organization to database', async () => {
-    const result = await createOrganization(testInput);
+    const result = await createOrganization(testInput, userId);
 
     // Query organization from database
     const organizations = await db.select()
@@ -70,15 +68,27 @@ describe('createOrganization', () => {
     expect(organizations[0].updated_at).toBeInstanceOf(Date);
   });
 
+  it('should add the owner as an owner member', async () => {
+    const result = await createOrganization(testInput, userId);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.organization_id, result.id))
+      .execute();
+
+    expect(members).toHaveLength(1);
+    expect(members[0].user_id).toEqual(userId);
+    expect(members[0].role).toEqual('owner');
+  });
+
   it('should create organization with default plan type', async () => {
     const inputWithoutPlan: CreateOrganizationInput = {
       name: 'Default Plan Org',
       slug: 'default-plan',
-      plan_type: 'free', // Include required field explicitly 
-      owner_id: userId
+      plan_type: 'free' // Include required field explicitly
     };
 
-    const result = await createOrganization(inputWithoutPlan);
+    const result = await createOrganization(inputWithoutPlan, userId);
 
     expect(result.plan_type).toEqual('free');
     expect(result.name).toEqual('Default Plan Org');
@@ -92,29 +102,24 @@ describe('createOrganization', () => {
       const input = {
         name: `${planType} Organization`,
         slug: `${planType}-org`,
-        plan_type: planType,
-        owner_id: userId
+        plan_type: planType
       };
 
-      const result = await createOrganization(input);
+      const result = await createOrganization(input, userId);
       expect(result.plan_type).toEqual(planType);
       expect(result.name).toEqual(`${planType} Organization`);
     }
   });
 
   it('should throw error when owner does not exist', async () => {
-    const invalidInput = {
-      ...testInput,
-      owner_id: 999 // Non-existent user ID
-    };
-
-    await expect(createOrganization(invalidInput))
+    // Non-existent user ID
+    await expect(createOrganization(testInput, 999))
       .rejects.toThrow(/owner with id 999 not found/i);
   });
 
   it('should throw error when slug already exists', async () => {
     // Create first organization
-    await createOrganization(testInput);
+    await createOrganization(testInput, userId);
 
     // Try to create another organization with same slug
     const duplicateSlugInput = {
@@ -122,13 +127,13 @@ describe('createOrganization', () => {
       name: 'Different Organization'
     };
 
-    await expect(createOrganization(duplicateSlugInput))
+    await expect(createOrganization(duplicateSlugInput, userId))
       .rejects.toThrow(/organization with slug 'test-org' already exists/i);
   });
 
   it('should allow different organizations with unique slugs', async () => {
     // Create first organization
-    const firstOrg = await createOrganization(testInput);
+    const firstOrg = await createOrganization(testInput, userId);
 
     // Create second organization with different slug
     const secondInput = {
@@ -136,7 +141,7 @@ describe('createOrganization', () => {
       name: 'Second Organization',
       slug: 'second-org'
     };
-    const secondOrg = await createOrganization(secondInput);
+    const secondOrg = await createOrganization(secondInput, userId);
 
     expect(firstOrg.slug).toEqual('test-org');
     expect(secondOrg.slug).toEqual('second-org');
@@ -157,7 +162,7 @@ describe('createOrganization', () => {
       slug: 'special-co'
     };
 
-    const result = await createOrganization(specialInput);
+    const result = await createOrganization(specialInput, userId);
     expect(result.name).toEqual('Special & Co. - "The Best" Organization!');
     expect(result.slug).toEqual('special-co');
   });
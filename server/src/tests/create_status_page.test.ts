@@ -43,7 +43,7 @@ describe('createStatusPage', () => {
     name: 'Test Status Page',
     slug: 'test-status',
     description: 'A test status page',
-    custom_domain: 'status.example.com',
+    custom_domain: null,
     branding_logo_url: 'https://example.com/logo.png',
     branding_primary_color: '#007bff',
     branding_secondary_color: '#6c757d',
@@ -51,8 +51,8 @@ describe('createStatusPage', () => {
   };
 
   it('should create a status page successfully', async () => {
-    const org = await createTestOrganization();
-    const input = { ...testInput, organization_id: org.id };
+    const org = await createTestOrganization('plus');
+    const input = { ...testInput, organization_id: org.id, custom_domain: 'status.example.com' };
 
     const result = await createStatusPage(input);
 
@@ -115,6 +115,112 @@ describe('createStatusPage', () => {
     expect(result.is_public).toEqual(false);
   });
 
+  it('should reject a slug already used by another status page', async () => {
+    const org = await createTestOrganization('pro');
+
+    await createStatusPage({ ...testInput, organization_id: org.id });
+
+    await expect(createStatusPage({ ...testInput, organization_id: org.id, name: 'Another Page' }))
+      .rejects.toThrow(/slug 'test-status' already exists/i);
+  });
+
+  describe('languages', () => {
+    it('should default to English only', async () => {
+      const org = await createTestOrganization();
+
+      const result = await createStatusPage({ ...testInput, organization_id: org.id });
+
+      expect(result.default_locale).toEqual('en');
+      expect(result.enabled_locales).toEqual(['en']);
+    });
+
+    it('should enable only the default language when no languages are given', async () => {
+      const org = await createTestOrganization();
+
+      const result = await createStatusPage({ ...testInput, organization_id: org.id, default_locale: 'fr' });
+
+      expect(result.default_locale).toEqual('fr');
+      expect(result.enabled_locales).toEqual(['fr']);
+    });
+
+    it('should list the default language first without duplicates', async () => {
+      const org = await createTestOrganization();
+
+      const result = await createStatusPage({
+        ...testInput,
+        organization_id: org.id,
+        default_locale: 'de',
+        enabled_locales: ['en', 'de', 'ja', 'en']
+      });
+
+      expect(result.enabled_locales).toEqual(['de', 'en', 'ja']);
+    });
+
+    it('should reject a default language that is not enabled', async () => {
+      const org = await createTestOrganization();
+
+      await expect(createStatusPage({ ...testInput, organization_id: org.id, default_locale: 'de', enabled_locales: ['en'] }))
+        .rejects.toThrow(/must be one of the enabled languages/i);
+    });
+  });
+
+  describe('custom domains', () => {
+    it('should store a normalized domain with an unverified challenge token', async () => {
+      const org = await createTestOrganization('enterprise');
+
+      const result = await createStatusPage({ ...testInput, organization_id: org.id, custom_domain: 'Status.Example.com.' });
+
+      expect(result.custom_domain).toEqual('status.example.com');
+      expect(result.custom_domain_verification_token).toEqual(expect.any(String));
+      expect(result.custom_domain_verified_at).toBeNull();
+    });
+
+    it('should reject custom domains on plans that do not include them', async () => {
+      const org = await createTestOrganization('pro');
+
+      await expect(createStatusPage({ ...testInput, organization_id: org.id, custom_domain: 'status.example.com' }))
+        .rejects.toThrow(/custom domains are not available on the pro plan/i);
+    });
+
+    it('should reject an invalid domain', async () => {
+      const org = await createTestOrganization('plus');
+
+      await expect(createStatusPage({ ...testInput, organization_id: org.id, custom_domain: 'https://status.example.com/' }))
+        .rejects.toThrow(/not a valid domain name/i);
+    });
+
+    it('should reject a domain another organization has verified', async () => {
+      const org = await createTestOrganization('plus');
+      const otherOrg = await db.insert(organizationsTable)
+        .values({ name: 'Other Org', slug: 'other-org', plan_type: 'plus', owner_id: org.owner_id })
+        .returning()
+        .execute();
+
+      const claimed = await createStatusPage({ ...testInput, organization_id: otherOrg[0].id, custom_domain: 'status.example.com' });
+      await db.update(statusPagesTable)
+        .set({ custom_domain_verified_at: new Date() })
+        .where(eq(statusPagesTable.id, claimed.id))
+        .execute();
+
+      await expect(createStatusPage({ ...testInput, organization_id: org.id, slug: 'mine', custom_domain: 'STATUS.example.com' }))
+        .rejects.toThrow(/custom domain status.example.com is already in use/i);
+    });
+
+    it('should not let an unverified claim block the domain', async () => {
+      const org = await createTestOrganization('plus');
+      const otherOrg = await db.insert(organizationsTable)
+        .values({ name: 'Other Org', slug: 'other-org', plan_type: 'plus', owner_id: org.owner_id })
+        .returning()
+        .execute();
+
+      await createStatusPage({ ...testInput, organization_id: otherOrg[0].id, custom_domain: 'status.example.com' });
+      const result = await createStatusPage({ ...testInput, organization_id: org.id, slug: 'mine', custom_domain: 'status.example.com' });
+
+      expect(result.custom_domain).toEqual('status.example.com');
+      expect(result.custom_domain_verified_at).toBeNull();
+    });
+  });
+
   it('should throw error when organization does not exist', async () => {
     const input = { ...testInput, organization_id: 999 };
 
@@ -1,9 +1,11 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput } from '../schema';
 import { createUser } from '../handlers/create_user';
+import { createSmtpTransport, setMailTransport } from '../lib/mailer';
 import { eq } from 'drizzle-orm';
 
 // Test input with all required fields
@@ -16,9 +18,24 @@ const testInput: CreateUserInput = {
 };
 
 describe('createUser', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    setMailTransport(createSmtpTransport(sink.url));
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(() => {
+    sink.messages.length = 0;
+  });
+
   it('should create a user with hashed password', async () => {
     const result = await createUser(testInput);
 
@@ -139,4 +156,24 @@ describe('createUser', () => {
     expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(beforeCreation.getTime());
     expect(result.updated_at.getTime()).toBeLessThanOrEqual(afterCreation.getTime());
   });
-});
\ No newline at end of file
+
+  it('should start unverified and email a verification link', async () => {
+    const result = await createUser(testInput);
+
+    expect(result.email_verified_at).toBeNull();
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].to).toEqual(['test@example.com']);
+    expect(sink.messages[0].text).toMatch(/\/verify-email\?token=\S+/);
+  });
+
+  it('should still create the user when the verification email fails', async () => {
+    setMailTransport({ send: async () => { throw new Error('SMTP unavailable'); } });
+
+    try {
+      const result = await createUser(testInput);
+      expect(result.id).toBeDefined();
+    } finally {
+      setMailTransport(createSmtpTransport(sink.url));
+    }
+  });
+});
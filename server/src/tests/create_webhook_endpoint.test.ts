@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, auditLogsTable } from '../db/schema';
+import { createWebhookEndpoint } from '../handlers/create_webhook_endpoint';
+import { createWebhookEndpointInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+describe('createWebhookEndpoint', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should create an active endpoint and return its secret once', async () => {
+    const result = await createWebhookEndpoint({
+      organization_id: organizationId,
+      url: 'https://hooks.example.com/edgestatus',
+      description: 'Ops bot',
+      event_types: ['incident.created', 'incident.resolved', 'incident.created']
+    });
+
+    expect(result.secret).toMatch(/^whsec_/);
+    expect(result.webhook_endpoint.url).toEqual('https://hooks.example.com/edgestatus');
+    expect(result.webhook_endpoint.description).toEqual('Ops bot');
+    expect(result.webhook_endpoint.event_types).toEqual(['incident.created', 'incident.resolved']);
+    expect(result.webhook_endpoint.is_active).toBe(true);
+    expect((result.webhook_endpoint as Record<string, unknown>)['secret']).toBeUndefined();
+
+    const endpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, result.webhook_endpoint.id))
+      .execute();
+
+    expect(endpoints[0].secret).toEqual(result.secret);
+  });
+
+  it('should give each endpoint its own secret', async () => {
+    const input = { organization_id: organizationId, url: 'https://hooks.example.com/a', event_types: ['incident.created' as const] };
+
+    const first = await createWebhookEndpoint(input);
+    const second = await createWebhookEndpoint(input);
+
+    expect(first.secret).not.toEqual(second.secret);
+  });
+
+  it('should record the creation without the secret', async () => {
+    await createWebhookEndpoint({
+      organization_id: organizationId,
+      url: 'https://hooks.example.com/edgestatus',
+      event_types: ['component.status_changed']
+    }, { userId, apiKey: null });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('webhook_endpoint');
+    expect(entries[0].action).toEqual('create');
+    expect(entries[0].after!['url']).toEqual('https://hooks.example.com/edgestatus');
+    expect(entries[0].after!['secret']).toBeUndefined();
+  });
+
+  it('should only accept http and https URLs and at least one event type', () => {
+    const valid = { organization_id: organizationId, url: 'https://hooks.example.com', event_types: ['incident.created'] };
+
+    expect(createWebhookEndpointInputSchema.safeParse(valid).success).toBe(true);
+    expect(createWebhookEndpointInputSchema.safeParse({ ...valid, url: 'ftp://hooks.example.com' }).success).toBe(false);
+    expect(createWebhookEndpointInputSchema.safeParse({ ...valid, event_types: [] }).success).toBe(false);
+    expect(createWebhookEndpointInputSchema.safeParse({ ...valid, event_types: ['incident.deleted'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, chatIntegrationsTable, chatThreadsTable } from '../db/schema';
+import { deleteChatIntegration } from '../handlers/delete_chat_integration';
+
+describe('deleteChatIntegration', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should delete the integration with its threads', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'slack', name: '#incidents', bot_token: 'xoxb-test', channel: 'C0123' })
+      .returning()
+      .execute();
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: statusPageId, title: 'Outage', description: 'Down', created_by: userId })
+      .returning()
+      .execute();
+    await db.insert(chatThreadsTable)
+      .values({ chat_integration_id: integrationResult[0].id, incident_id: incidentResult[0].id, thread_ts: '1700000000.000100' })
+      .execute();
+
+    expect(await deleteChatIntegration(integrationResult[0].id)).toBe(true);
+
+    expect(await db.select().from(chatIntegrationsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(chatThreadsTable).execute()).toHaveLength(0);
+  });
+
+  it('should return false for non-existent integration', async () => {
+    expect(await deleteChatIntegration(99999)).toBe(false);
+  });
+});
@@ -9,7 +9,10 @@ import {
   incidentsTable,
   incidentAffectedComponentsTable,
   maintenanceWindowsTable,
-  maintenanceAffectedComponentsTable
+  maintenanceAffectedComponentsTable,
+  componentStatusChangesTable,
+  subscribersTable,
+  subscriberComponentsTable
 } from '../db/schema';
 import { deleteComponent } from '../handlers/delete_component';
 import { eq } from 'drizzle-orm';
@@ -63,6 +66,19 @@ describe('deleteComponent', () => {
       .returning()
       .execute();
 
+    await db.insert(componentStatusChangesTable)
+      .values({ component_id: component[0].id, previous_status: 'major_outage', status: 'operational', source: 'component' })
+      .execute();
+
+    const subscriber = await db.insert(subscribersTable)
+      .values({ status_page_id: statusPage[0].id, email: 'reader@example.com', confirmed_at: new Date() })
+      .returning()
+      .execute();
+
+    await db.insert(subscriberComponentsTable)
+      .values({ subscriber_id: subscriber[0].id, component_id: component[0].id })
+      .execute();
+
     // Delete the component
     const result = await deleteComponent(component[0].id);
 
@@ -76,6 +92,13 @@ describe('deleteComponent', () => {
       .execute();
 
     expect(deletedComponent).toHaveLength(0);
+
+    // Its status history goes with it
+    expect(await db.select().from(componentStatusChangesTable).execute()).toHaveLength(0);
+
+    // Subscribers who chose it stay subscribed, to every component
+    expect(await db.select().from(subscriberComponentsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(1);
   });
 
   it('should return false for non-existent component', async () => {
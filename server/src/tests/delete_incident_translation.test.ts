@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentTranslationsTable,
+  incidentUpdateTranslationsTable,
+  auditLogsTable
+} from '../db/schema';
+import { deleteIncidentTranslation } from '../handlers/delete_incident_translation';
+
+describe('deleteIncidentTranslation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let incidentId: number;
+  let incidentUpdateId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme', enabled_locales: ['en', 'de', 'fr'] })
+      .returning()
+      .execute();
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: pageResult[0].id, title: 'API errors', description: 'Failing', created_by: userResult[0].id })
+      .returning()
+      .execute();
+    incidentId = incidentResult[0].id;
+
+    const updateResult = await db.insert(incidentUpdatesTable)
+      .values({ incident_id: incidentId, title: 'Fixed', description: 'Rolled back', status: 'resolved', created_by: userResult[0].id })
+      .returning()
+      .execute();
+    incidentUpdateId = updateResult[0].id;
+
+    await db.insert(incidentTranslationsTable)
+      .values([
+        { incident_id: incidentId, locale: 'de', title: 'API-Fehler', description: 'Fehler' },
+        { incident_id: incidentId, locale: 'fr', title: 'Erreurs API', description: 'Erreurs' }
+      ])
+      .execute();
+
+    await db.insert(incidentUpdateTranslationsTable)
+      .values([
+        { incident_update_id: incidentUpdateId, locale: 'de', title: 'Behoben', description: 'Zurückgerollt' },
+        { incident_update_id: incidentUpdateId, locale: 'fr', title: 'Corrigé', description: 'Annulé' }
+      ])
+      .execute();
+  });
+
+  it('should remove the incident\'s and its updates\' translations in one language', async () => {
+    const result = await deleteIncidentTranslation({ incident_id: incidentId, locale: 'de' });
+
+    expect(result).toBe(true);
+
+    const incidentTranslations = await db.select().from(incidentTranslationsTable).execute();
+    const updateTranslations = await db.select().from(incidentUpdateTranslationsTable).execute();
+    expect(incidentTranslations.map(t => t.locale)).toEqual(['fr']);
+    expect(updateTranslations.map(t => t.locale)).toEqual(['fr']);
+
+    const logs = await db.select().from(auditLogsTable).execute();
+    expect(logs.map(log => log.entity_type).sort()).toEqual(['incident', 'incident_update']);
+    expect(logs.every(log => log.after!['translation_de'] === null)).toBe(true);
+  });
+
+  it('should return false when there is no translation in that language', async () => {
+    await deleteIncidentTranslation({ incident_id: incidentId, locale: 'de' });
+
+    expect(await deleteIncidentTranslation({ incident_id: incidentId, locale: 'de' })).toBe(false);
+  });
+
+  it('should throw for an unknown incident', async () => {
+    await expect(deleteIncidentTranslation({ incident_id: incidentId + 100, locale: 'de' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsSubscribersTable, auditLogsTable } from '../db/schema';
+import { deleteSmsSubscriber } from '../handlers/delete_sms_subscriber';
+
+describe('deleteSmsSubscriber', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let subscriberId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+
+    const subscriberResult = await db.insert(smsSubscribersTable)
+      .values({ status_page_id: pageResult[0].id, phone_number: '+14155550123', verification_code_hash: 'hashed_code' })
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+  });
+
+  it('should remove the subscriber and record it in the audit log without the code', async () => {
+    const result = await deleteSmsSubscriber(subscriberId, { userId, apiKey: null });
+
+    expect(result).toBe(true);
+    expect(await db.select().from(smsSubscribersTable).execute()).toHaveLength(0);
+
+    const logs = await db.select().from(auditLogsTable).execute();
+    expect(logs).toHaveLength(1);
+    expect(logs[0].organization_id).toEqual(organizationId);
+    expect(logs[0].entity_type).toEqual('sms_subscriber');
+    expect(logs[0].action).toEqual('delete');
+    expect(logs[0].before!['phone_number']).toEqual('+14155550123');
+    expect(logs[0].before!['verification_code_hash']).toBeUndefined();
+  });
+
+  it('should return false for an unknown subscriber', async () => {
+    expect(await deleteSmsSubscriber(subscriberId + 100)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  ssoConnectionsTable,
+  ssoRoleMappingsTable,
+  ssoIdentitiesTable,
+  ssoLoginAttemptsTable
+} from '../db/schema';
+import { deleteSsoConnection } from '../handlers/delete_sso_connection';
+
+describe('deleteSsoConnection', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const ownerResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+    ownerId = ownerResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should remove the connection with its mappings, identities and pending logins', async () => {
+    const connectionResult = await db.insert(ssoConnectionsTable)
+      .values({
+        organization_id: organizationId,
+        issuer: 'https://login.acme.com',
+        client_id: 'edgestatus',
+        client_secret: 'super-secret',
+        allowed_domains: ['acme.com'],
+        domain_verification_token: 'token-123'
+      })
+      .returning()
+      .execute();
+    const connectionId = connectionResult[0].id;
+
+    await db.insert(ssoRoleMappingsTable)
+      .values({ sso_connection_id: connectionId, group_name: 'sre', role: 'admin' })
+      .execute();
+    await db.insert(ssoIdentitiesTable)
+      .values({ sso_connection_id: connectionId, user_id: ownerId, subject: 'owner-1' })
+      .execute();
+    await db.insert(ssoLoginAttemptsTable)
+      .values({
+        sso_connection_id: connectionId,
+        state_hash: 'state-hash',
+        nonce: 'nonce',
+        code_verifier: 'verifier',
+        expires_at: new Date(Date.now() + 60_000)
+      })
+      .execute();
+
+    const result = await deleteSsoConnection(organizationId);
+
+    expect(result).toBe(true);
+    expect(await db.select().from(ssoConnectionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(ssoRoleMappingsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(ssoIdentitiesTable).execute()).toHaveLength(0);
+    expect(await db.select().from(ssoLoginAttemptsTable).execute()).toHaveLength(0);
+  });
+
+  it('should throw when no connection exists', async () => {
+    await expect(deleteSsoConnection(organizationId)).rejects.toThrow(/not found/i);
+  });
+});
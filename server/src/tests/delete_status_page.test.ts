@@ -10,7 +10,15 @@ import {
   incidentUpdatesTable, 
   maintenanceWindowsTable,
   incidentAffectedComponentsTable,
-  maintenanceAffectedComponentsTable
+  maintenanceAffectedComponentsTable,
+  chatIntegrationsTable,
+  chatThreadsTable,
+  smsSubscribersTable,
+  smsRulesTable,
+  smsMessagesTable,
+  apiKeysTable,
+  apiKeyStatusPagesTable,
+  auditLogsTable
 } from '../db/schema';
 import { deleteStatusPage } from '../handlers/delete_status_page';
 import { eq } from 'drizzle-orm';
@@ -59,7 +67,7 @@ describe('deleteStatusPage', () => {
       .execute();
 
     // Delete status page
-    const result = await deleteStatusPage(statusPage[0].id);
+    const result = await deleteStatusPage(statusPage[0].id, { userId: user[0].id, apiKey: null });
     expect(result).toBe(true);
 
     // Verify status page is deleted
@@ -69,6 +77,15 @@ describe('deleteStatusPage', () => {
       .execute();
 
     expect(remainingPages).toHaveLength(0);
+
+    // The deleted page survives in the audit log
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].action).toEqual('delete');
+    expect(entries[0].entity_type).toEqual('status_page');
+    expect(entries[0].actor_user_id).toEqual(user[0].id);
+    expect(entries[0].before).toMatchObject({ id: statusPage[0].id, name: 'Test Status Page', slug: 'test-status' });
+    expect(entries[0].after).toBeNull();
   });
 
   it('should cascade delete all related data', async () => {
@@ -181,6 +198,39 @@ describe('deleteStatusPage', () => {
       })
       .execute();
 
+    // Create a chat integration with a thread about the incident
+    const chatIntegration = await db.insert(chatIntegrationsTable)
+      .values({
+        status_page_id: statusPage[0].id,
+        provider: 'slack',
+        name: '#incidents',
+        bot_token: 'xoxb-test',
+        channel: 'C0123'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(chatThreadsTable)
+      .values({
+        chat_integration_id: chatIntegration[0].id,
+        incident_id: incident[0].id,
+        thread_ts: '1700000000.000100'
+      })
+      .execute();
+
+    // Create an SMS subscriber and rule, and a text already sent
+    await db.insert(smsSubscribersTable)
+      .values({ status_page_id: statusPage[0].id, phone_number: '+14155550123', verified_at: new Date() })
+      .execute();
+
+    await db.insert(smsRulesTable)
+      .values({ status_page_id: statusPage[0].id, event_type: 'incident.created' })
+      .execute();
+
+    await db.insert(smsMessagesTable)
+      .values({ organization_id: statusPage[0].organization_id, to: '+14155550123', kind: 'notification', status: 'sent' })
+      .execute();
+
     // Delete status page
     const result = await deleteStatusPage(statusPage[0].id);
     expect(result).toBe(true);
@@ -227,6 +277,33 @@ describe('deleteStatusPage', () => {
       .where(eq(maintenanceAffectedComponentsTable.maintenance_window_id, maintenance[0].id))
       .execute();
     expect(remainingMaintenanceComponents).toHaveLength(0);
+
+    const remainingChatIntegrations = await db.select()
+      .from(chatIntegrationsTable)
+      .where(eq(chatIntegrationsTable.status_page_id, statusPage[0].id))
+      .execute();
+    expect(remainingChatIntegrations).toHaveLength(0);
+
+    const remainingChatThreads = await db.select()
+      .from(chatThreadsTable)
+      .where(eq(chatThreadsTable.chat_integration_id, chatIntegration[0].id))
+      .execute();
+    expect(remainingChatThreads).toHaveLength(0);
+
+    const remainingSmsSubscribers = await db.select()
+      .from(smsSubscribersTable)
+      .where(eq(smsSubscribersTable.status_page_id, statusPage[0].id))
+      .execute();
+    expect(remainingSmsSubscribers).toHaveLength(0);
+
+    const remainingSmsRules = await db.select()
+      .from(smsRulesTable)
+      .where(eq(smsRulesTable.status_page_id, statusPage[0].id))
+      .execute();
+    expect(remainingSmsRules).toHaveLength(0);
+
+    // Sent texts stay on the organization's quota
+    expect(await db.select().from(smsMessagesTable).execute()).toHaveLength(1);
   });
 
   it('should handle multiple incidents with updates', async () => {
@@ -421,4 +498,59 @@ describe('deleteStatusPage', () => {
     expect(page2Components).toHaveLength(1);
     expect(page2Components[0].name).toEqual('Component 2-1');
   });
-});
\ No newline at end of file
+
+  it('should revoke API keys that were only allowed the deleted page', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password_hash: 'hash', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const organization = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', plan_type: 'pro', owner_id: user[0].id })
+      .returning()
+      .execute();
+
+    const pages = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: organization[0].id, name: 'Doomed', slug: 'doomed' },
+        { organization_id: organization[0].id, name: 'Kept', slug: 'kept' }
+      ])
+      .returning()
+      .execute();
+
+    const keys = await db.insert(apiKeysTable)
+      .values(['only-doomed', 'both', 'unrestricted'].map(name => ({
+        organization_id: organization[0].id,
+        name,
+        token_prefix: name,
+        token_hash: `hash-${name}`,
+        scopes: ['incidents:write' as const],
+        created_by: user[0].id
+      })))
+      .returning()
+      .execute();
+
+    await db.insert(apiKeyStatusPagesTable)
+      .values([
+        { api_key_id: keys[0].id, status_page_id: pages[0].id },
+        { api_key_id: keys[1].id, status_page_id: pages[0].id },
+        { api_key_id: keys[1].id, status_page_id: pages[1].id }
+      ])
+      .execute();
+
+    expect(await deleteStatusPage(pages[0].id)).toBe(true);
+
+    const restrictions = await db.select().from(apiKeyStatusPagesTable).execute();
+    expect(restrictions.map(r => [r.api_key_id, r.status_page_id])).toEqual([[keys[1].id, pages[1].id]]);
+
+    // Losing its only page must not turn a restricted key into one for every page
+    const remainingKeys = await db.select().from(apiKeysTable).orderBy(apiKeysTable.id).execute();
+    expect(remainingKeys[0].revoked_at).toBeInstanceOf(Date);
+    expect(remainingKeys[1].revoked_at).toBeNull();
+    expect(remainingKeys[2].revoked_at).toBeNull();
+
+    const entries = await db.select().from(auditLogsTable).where(eq(auditLogsTable.entity_type, 'api_key')).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_id).toEqual(keys[0].id);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, subscribersTable, auditLogsTable } from '../db/schema';
+import { deleteSubscriber } from '../handlers/delete_subscriber';
+
+describe('deleteSubscriber', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let subscriberId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: pageResult[0].id, email: 'reader@example.com', confirmed_at: new Date() })
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+  });
+
+  it('should remove the subscriber and record it in the audit log', async () => {
+    const result = await deleteSubscriber(subscriberId, { userId, apiKey: null });
+
+    expect(result).toBe(true);
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(0);
+
+    const logs = await db.select().from(auditLogsTable).execute();
+    expect(logs).toHaveLength(1);
+    expect(logs[0].organization_id).toEqual(organizationId);
+    expect(logs[0].entity_type).toEqual('subscriber');
+    expect(logs[0].action).toEqual('delete');
+    expect(logs[0].before!['email']).toEqual('reader@example.com');
+  });
+
+  it('should return false for an unknown subscriber', async () => {
+    expect(await deleteSubscriber(subscriberId + 100)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, webhookDeliveriesTable } from '../db/schema';
+import { deleteWebhookEndpoint } from '../handlers/delete_webhook_endpoint';
+
+describe('deleteWebhookEndpoint', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let endpointId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: orgResult[0].id, url: 'https://a.example.com', secret: 'whsec_a', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+  });
+
+  it('should delete the endpoint with its delivery log', async () => {
+    await db.insert(webhookDeliveriesTable)
+      .values([
+        { webhook_endpoint_id: endpointId, event_id: 'evt_1', event_type: 'incident.created', payload: {}, status: 'succeeded' },
+        { webhook_endpoint_id: endpointId, event_id: 'evt_2', event_type: 'incident.created', payload: {}, next_attempt_at: new Date() }
+      ])
+      .execute();
+
+    expect(await deleteWebhookEndpoint(endpointId)).toBe(true);
+
+    expect(await db.select().from(webhookEndpointsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(webhookDeliveriesTable).execute()).toHaveLength(0);
+  });
+
+  it('should return false for non-existent endpoint', async () => {
+    expect(await deleteWebhookEndpoint(99999)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { disableTwoFactor } from '../handlers/disable_two_factor';
+import { replaceRecoveryCodes } from '../lib/two_factor';
+import { generateTotpCode, generateTotpSecret, totpStep } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+describe('disableTwoFactor', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    secret = generateTotpSecret();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+    recoveryCodes = await replaceRecoveryCodes(userId);
+  });
+
+  const remainingCredentials = async () => {
+    return db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+  };
+
+  it('should remove the credential and recovery codes with a valid authenticator code', async () => {
+    const result = await disableTwoFactor({ code: generateTotpCode(secret) }, userId);
+
+    expect(result).toBe(true);
+    expect(await remainingCredentials()).toHaveLength(0);
+
+    const codes = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should accept a recovery code instead', async () => {
+    await disableTwoFactor({ code: recoveryCodes[3].toUpperCase() }, userId);
+
+    expect(await remainingCredentials()).toHaveLength(0);
+  });
+
+  it('should reject a wrong code and keep 2FA enabled', async () => {
+    await expect(disableTwoFactor({ code: generateTotpCode(secret, totpStep() + 5) }, userId))
+      .rejects.toThrow(/invalid authentication code/i);
+    await expect(disableTwoFactor({ code: 'aaaaa-bbbbb' }, userId))
+      .rejects.toThrow(/invalid authentication code/i);
+
+    expect(await remainingCredentials()).toHaveLength(1);
+  });
+
+  it('should throw when 2FA is not enabled', async () => {
+    await db.update(twoFactorCredentialsTable)
+      .set({ enabled_at: null })
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    await expect(disableTwoFactor({ code: generateTotpCode(secret) }, userId)).rejects.toThrow(/not enabled/i);
+  });
+});
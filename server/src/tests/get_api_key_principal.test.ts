@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, apiKeysTable, apiKeyStatusPagesTable } from '../db/schema';
+import { getApiKeyPrincipal } from '../handlers/get_api_key_principal';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('getApiKeyPrincipal', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+
+  const insertKey = async (token: string, values: Partial<typeof apiKeysTable.$inferInsert> = {}) => {
+    const result = await db.insert(apiKeysTable)
+      .values({
+        organization_id: organizationId,
+        name: 'CI',
+        token_prefix: token.slice(0, 10),
+        token_hash: hashToken(token),
+        scopes: ['read', 'incidents:write'],
+        created_by: userId,
+        ...values
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should resolve a valid token and record its use', async () => {
+    const apiKey = await insertKey('es_valid_token');
+    await db.insert(apiKeyStatusPagesTable)
+      .values({ api_key_id: apiKey.id, status_page_id: statusPageId })
+      .execute();
+
+    const result = await getApiKeyPrincipal('es_valid_token');
+
+    expect(result).toEqual({
+      id: apiKey.id,
+      organization_id: organizationId,
+      scopes: ['read', 'incidents:write'],
+      status_page_ids: [statusPageId],
+      created_by: userId
+    });
+
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, apiKey.id))
+      .execute();
+
+    expect(apiKeys[0].last_used_at).toBeInstanceOf(Date);
+  });
+
+  it('should return null for an unknown token', async () => {
+    expect(await getApiKeyPrincipal('es_unknown')).toBeNull();
+  });
+
+  it('should return null for a revoked key', async () => {
+    await insertKey('es_revoked_token', { revoked_at: new Date() });
+
+    expect(await getApiKeyPrincipal('es_revoked_token')).toBeNull();
+  });
+
+  it('should return null for an expired key', async () => {
+    const apiKey = await insertKey('es_expired_token', { expires_at: new Date(Date.now() - 1000) });
+
+    expect(await getApiKeyPrincipal('es_expired_token')).toBeNull();
+
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, apiKey.id))
+      .execute();
+
+    expect(apiKeys[0].last_used_at).toBeNull();
+  });
+
+  it('should return null when the key creator is deactivated', async () => {
+    await insertKey('es_orphaned_token');
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(await getApiKeyPrincipal('es_orphaned_token')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, apiKeysTable, apiKeyStatusPagesTable } from '../db/schema';
+import { getApiKeys } from '../handlers/get_api_keys';
+
+describe('getApiKeys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Test Org', slug: 'test-org', owner_id: userId },
+        { name: 'Other Org', slug: 'other-org', owner_id: userId }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should return an empty list when the organization has no keys', async () => {
+    const result = await getApiKeys(organizationId);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return keys for the organization with their restrictions', async () => {
+    const keyResult = await db.insert(apiKeysTable)
+      .values([
+        { organization_id: organizationId, name: 'Restricted', token_prefix: 'es_aaaaaaa', token_hash: 'hash-1', scopes: ['read'], created_by: userId },
+        { organization_id: organizationId, name: 'Unrestricted', token_prefix: 'es_bbbbbbb', token_hash: 'hash-2', scopes: ['incidents:write'], created_by: userId },
+        { organization_id: otherOrganizationId, name: 'Other', token_prefix: 'es_ccccccc', token_hash: 'hash-3', scopes: ['read'], created_by: userId }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(apiKeyStatusPagesTable)
+      .values({ api_key_id: keyResult[0].id, status_page_id: statusPageId })
+      .execute();
+
+    const result = await getApiKeys(organizationId);
+
+    expect(result).toHaveLength(2);
+
+    const restricted = result.find(k => k.name === 'Restricted')!;
+    const unrestricted = result.find(k => k.name === 'Unrestricted')!;
+
+    expect(restricted.status_page_ids).toEqual([statusPageId]);
+    expect(restricted.scopes).toEqual(['read']);
+    expect(unrestricted.status_page_ids).toEqual([]);
+    expect(unrestricted.scopes).toEqual(['incidents:write']);
+    result.forEach(k => {
+      expect((k as Record<string, unknown>)['token_hash']).toBeUndefined();
+      expect(k.created_at).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, apiKeysTable, auditLogsTable } from '../db/schema';
+import { getAuditLog } from '../handlers/get_audit_log';
+import { getAuditLogInputSchema, type GetAuditLogInput } from '../schema';
+import { auditLogRetentionDays } from '../lib/audit';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getAuditLog', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let memberId: number;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let apiKeyId: number;
+
+  const query = (input: Partial<GetAuditLogInput> = {}) => {
+    return getAuditLog(getAuditLogInputSchema.parse({ organization_id: organizationId, ...input }));
+  };
+
+  const entry = (values: Partial<typeof auditLogsTable.$inferInsert> = {}) => ({
+    organization_id: organizationId,
+    actor_user_id: ownerId,
+    entity_type: 'component' as const,
+    entity_id: 1,
+    action: 'update' as const,
+    before: { status: 'operational' },
+    after: { status: 'major_outage' },
+    ...values
+  });
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' }
+      ])
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+    memberId = userResult[1].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: ownerId },
+        { name: 'Other', slug: 'other', plan_type: 'pro', owner_id: ownerId }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+
+    const apiKeyResult = await db.insert(apiKeysTable)
+      .values({
+        organization_id: organizationId,
+        name: 'Deploy bot',
+        token_prefix: 'es_abcdefg',
+        token_hash: 'token_hash',
+        scopes: ['components:write'],
+        created_by: memberId
+      })
+      .returning()
+      .execute();
+    apiKeyId = apiKeyResult[0].id;
+  });
+
+  it('should return entries newest first with the actor resolved', async () => {
+    await db.insert(auditLogsTable)
+      .values([
+        entry({ entity_id: 1 }),
+        entry({ entity_id: 2, actor_user_id: memberId, api_key_id: apiKeyId }),
+        entry({ organization_id: otherOrganizationId })
+      ])
+      .execute();
+
+    const result = await query();
+
+    expect(result.entries).toHaveLength(2);
+    expect(result.next_cursor).toBeNull();
+    expect(result.retention_days).toEqual(auditLogRetentionDays.pro);
+
+    expect(result.entries[0].entity_id).toEqual(2);
+    expect(result.entries[0].actor_name).toEqual('Max Member');
+    expect(result.entries[0].actor_email).toEqual('member@example.com');
+    expect(result.entries[0].api_key_name).toEqual('Deploy bot');
+    expect(result.entries[0].before).toEqual({ status: 'operational' });
+    expect(result.entries[0].after).toEqual({ status: 'major_outage' });
+
+    expect(result.entries[1].entity_id).toEqual(1);
+    expect(result.entries[1].actor_name).toEqual('Olivia Owner');
+    expect(result.entries[1].api_key_id).toBeNull();
+    expect(result.entries[1].api_key_name).toBeNull();
+  });
+
+  it('should filter by entity, actor and time range', async () => {
+    const now = Date.now();
+    await db.insert(auditLogsTable)
+      .values([
+        entry({ entity_id: 1, created_at: new Date(now - 3 * DAY_MS) }),
+        entry({ entity_id: 2, actor_user_id: memberId, created_at: new Date(now - 2 * DAY_MS) }),
+        entry({ entity_type: 'incident', entity_id: 1, created_at: new Date(now - DAY_MS) })
+      ])
+      .execute();
+
+    const byEntity = await query({ entity_type: 'component', entity_id: 1 });
+    expect(byEntity.entries).toHaveLength(1);
+    expect(byEntity.entries[0].entity_type).toEqual('component');
+
+    const byType = await query({ entity_type: 'component' });
+    expect(byType.entries).toHaveLength(2);
+
+    const byActor = await query({ actor_user_id: memberId });
+    expect(byActor.entries.map(e => e.entity_id)).toEqual([2]);
+
+    const byRange = await query({ from: new Date(now - 2.5 * DAY_MS), to: new Date(now - 1.5 * DAY_MS) });
+    expect(byRange.entries.map(e => e.entity_id)).toEqual([2]);
+  });
+
+  it('should page through entries with a cursor', async () => {
+    await db.insert(auditLogsTable)
+      .values([1, 2, 3, 4, 5].map(entity_id => entry({ entity_id })))
+      .execute();
+
+    const firstPage = await query({ limit: 2 });
+    expect(firstPage.entries.map(e => e.entity_id)).toEqual([5, 4]);
+    expect(firstPage.next_cursor).not.toBeNull();
+
+    const secondPage = await query({ limit: 2, cursor: firstPage.next_cursor! });
+    expect(secondPage.entries.map(e => e.entity_id)).toEqual([3, 2]);
+
+    const lastPage = await query({ limit: 2, cursor: secondPage.next_cursor! });
+    expect(lastPage.entries.map(e => e.entity_id)).toEqual([1]);
+    expect(lastPage.next_cursor).toBeNull();
+  });
+
+  it('should hide entries past the plan retention even before they are purged', async () => {
+    const retentionDays = auditLogRetentionDays.pro!;
+    await db.insert(auditLogsTable)
+      .values([
+        entry({ entity_id: 1, created_at: new Date(Date.now() - (retentionDays + 1) * DAY_MS) }),
+        entry({ entity_id: 2 })
+      ])
+      .execute();
+
+    const result = await query();
+    expect(result.entries.map(e => e.entity_id)).toEqual([2]);
+
+    // Upgrading to a plan that keeps everything makes the older entry visible again
+    await db.update(organizationsTable)
+      .set({ plan_type: 'enterprise' })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    const upgraded = await query();
+    expect(upgraded.entries.map(e => e.entity_id)).toEqual([2, 1]);
+    expect(upgraded.retention_days).toBeNull();
+  });
+
+  it('should throw for an unknown organization', async () => {
+    await expect(query({ organization_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, chatIntegrationsTable } from '../db/schema';
+import { getChatIntegrations } from '../handlers/get_chat_integrations';
+
+describe('getChatIntegrations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should return an empty list when the page has no integrations', async () => {
+    expect(await getChatIntegrations(statusPageId)).toEqual([]);
+  });
+
+  it('should return the page integrations, oldest first, without credentials', async () => {
+    await db.insert(chatIntegrationsTable)
+      .values([
+        { status_page_id: statusPageId, provider: 'slack', name: '#incidents', bot_token: 'xoxb-test', channel: 'C0123', created_at: new Date('2024-01-01') },
+        { status_page_id: statusPageId, provider: 'teams', name: 'Operations', webhook_url: 'https://example.com/teams', created_at: new Date('2024-02-01') }
+      ])
+      .execute();
+
+    const result = await getChatIntegrations(statusPageId);
+
+    expect(result.map(integration => integration.name)).toEqual(['#incidents', 'Operations']);
+    expect(result[0]).toMatchObject({ provider: 'slack', channel: 'C0123', has_bot_token: true, has_webhook_url: false });
+    expect(result[1]).toMatchObject({ provider: 'teams', has_bot_token: false, has_webhook_url: true });
+    expect(JSON.stringify(result)).not.toContain('xoxb-test');
+    expect(JSON.stringify(result)).not.toContain('example.com/teams');
+  });
+});
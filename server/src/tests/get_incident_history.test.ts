@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable
+} from '../db/schema';
+import { getIncidentHistory } from '../handlers/get_incident_history';
+import { getIncidentHistoryInputSchema, type GetIncidentHistoryInput, type IncidentHistory } from '../schema';
+
+const titles = (history: IncidentHistory) => history.months.flatMap(month => month.incidents.map(incident => incident.title));
+
+describe('getIncidentHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let apiId: number;
+  let databaseId: number;
+
+  const query = (input: Partial<GetIncidentHistoryInput> = {}) => {
+    return getIncidentHistory(getIncidentHistoryInputSchema.parse({ status_page_id: statusPageId, ...input }));
+  };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'acme-other' }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API' },
+        { status_page_id: statusPageId, name: 'Database' }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    databaseId = componentResult[1].id;
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values([
+        {
+          status_page_id: statusPageId,
+          title: 'Elevated API errors',
+          description: 'Requests to the API are failing',
+          status: 'resolved',
+          created_by: userId,
+          created_at: new Date('2026-08-03T10:00:00Z'),
+          resolved_at: new Date('2026-08-03T12:00:00Z')
+        },
+        {
+          status_page_id: statusPageId,
+          title: 'Slow queries',
+          description: 'Database latency is elevated',
+          status: 'resolved',
+          created_by: userId,
+          created_at: new Date('2026-09-14T08:00:00Z'),
+          resolved_at: new Date('2026-09-14T09:00:00Z')
+        },
+        {
+          status_page_id: statusPageId,
+          title: 'Login problems',
+          description: 'Some users cannot sign in',
+          status: 'monitoring',
+          created_by: userId,
+          created_at: new Date('2026-09-20T08:00:00Z')
+        },
+        {
+          status_page_id: statusPageId,
+          title: 'Dashboard outage',
+          description: 'The dashboard does not load',
+          status: 'identified',
+          created_by: userId,
+          created_at: new Date('2026-10-02T08:00:00Z')
+        },
+        {
+          status_page_id: pageResult[1].id,
+          title: 'Elevated API errors elsewhere',
+          description: 'Not on this page',
+          status: 'resolved',
+          created_by: userId,
+          created_at: new Date('2026-10-05T08:00:00Z')
+        }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(incidentAffectedComponentsTable)
+      .values([
+        { incident_id: incidentResult[0].id, component_id: apiId },
+        { incident_id: incidentResult[1].id, component_id: databaseId },
+        { incident_id: incidentResult[2].id, component_id: apiId }
+      ])
+      .execute();
+
+    await db.insert(incidentUpdatesTable)
+      .values({
+        incident_id: incidentResult[1].id,
+        title: 'Fixed',
+        description: 'A missing index on the orders table was added',
+        status: 'resolved',
+        created_by: userId,
+        created_at: new Date('2026-09-14T09:00:00Z')
+      })
+      .execute();
+  });
+
+  it('should group incidents by month, newest first', async () => {
+    const result = await query();
+
+    expect(result.months.map(month => month.month)).toEqual(['2026-10', '2026-09', '2026-08']);
+    expect(result.months[1].incidents.map(incident => incident.title)).toEqual(['Login problems', 'Slow queries']);
+    expect(result.months[1].incidents[1].updates[0].description).toContain('missing index');
+    expect(result.months[1].incidents[1].affected_component_ids).toEqual([databaseId]);
+    expect(result.next_cursor).toBeNull();
+  });
+
+  it('should page through the history with a cursor', async () => {
+    const first = await query({ limit: 3 });
+    expect(titles(first)).toEqual(['Dashboard outage', 'Login problems', 'Slow queries']);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = await query({ limit: 3, cursor: first.next_cursor });
+    expect(titles(second)).toEqual(['Elevated API errors']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should not skip incidents that started in the same millisecond', async () => {
+    const startedAt = new Date('2026-07-01T00:00:00Z');
+    await db.insert(incidentsTable)
+      .values([1, 2, 3].map(n => ({
+        status_page_id: statusPageId,
+        title: `Simultaneous ${n}`,
+        description: 'Same moment',
+        created_by: userId,
+        created_at: startedAt
+      })))
+      .execute();
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: IncidentHistory = await query({ limit: 2, cursor });
+      seen.push(...titles(page));
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toEqual(7);
+  });
+
+  it('should filter by component, status and date range', async () => {
+    expect(titles(await query({ component_ids: [apiId] }))).toEqual(['Login problems', 'Elevated API errors']);
+    expect(titles(await query({ statuses: ['monitoring', 'identified'] }))).toEqual(['Dashboard outage', 'Login problems']);
+    expect(titles(await query({ from: new Date('2026-09-01T00:00:00Z'), to: new Date('2026-10-01T00:00:00Z') })))
+      .toEqual(['Login problems', 'Slow queries']);
+  });
+
+  it('should search titles, descriptions and update bodies', async () => {
+    expect(titles(await query({ query: 'api errors' }))).toEqual(['Elevated API errors']);
+    // Stemming matches "sign in" against "signing"
+    expect(titles(await query({ query: 'signing' }))).toEqual(['Login problems']);
+    // Only an update mentions the index
+    expect(titles(await query({ query: 'missing index' }))).toEqual(['Slow queries']);
+    expect(titles(await query({ query: 'dashboard -outage' }))).toEqual([]);
+  });
+
+  it('should reject malformed cursors and unknown pages', async () => {
+    await expect(query({ cursor: 'not-a-cursor' })).rejects.toThrow(/invalid history cursor/i);
+    await expect(getIncidentHistory(getIncidentHistoryInputSchema.parse({ status_page_id: 9999 }))).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentTranslationsTable,
+  incidentUpdateTranslationsTable
+} from '../db/schema';
+import { getIncidentTranslations } from '../handlers/get_incident_translations';
+
+describe('getIncidentTranslations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the translations of the incident and of its updates only', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme', enabled_locales: ['en', 'de', 'fr'] })
+      .returning()
+      .execute();
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values([
+        { status_page_id: pageResult[0].id, title: 'API errors', description: 'Failing', created_by: userResult[0].id },
+        { status_page_id: pageResult[0].id, title: 'Other', description: 'Other', created_by: userResult[0].id }
+      ])
+      .returning()
+      .execute();
+
+    const updateResult = await db.insert(incidentUpdatesTable)
+      .values([
+        { incident_id: incidentResult[0].id, title: 'Fixed', description: 'Rolled back', status: 'resolved', created_by: userResult[0].id },
+        { incident_id: incidentResult[1].id, title: 'Other', description: 'Other', status: 'resolved', created_by: userResult[0].id }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(incidentTranslationsTable)
+      .values([
+        { incident_id: incidentResult[0].id, locale: 'fr', title: 'Erreurs API', description: 'Erreurs' },
+        { incident_id: incidentResult[0].id, locale: 'de', title: 'API-Fehler', description: 'Fehler' },
+        { incident_id: incidentResult[1].id, locale: 'de', title: 'Andere', description: 'Andere' }
+      ])
+      .execute();
+
+    await db.insert(incidentUpdateTranslationsTable)
+      .values([
+        { incident_update_id: updateResult[0].id, locale: 'de', title: 'Behoben', description: 'Zurückgerollt' },
+        { incident_update_id: updateResult[1].id, locale: 'de', title: 'Andere', description: 'Andere' }
+      ])
+      .execute();
+
+    const result = await getIncidentTranslations(incidentResult[0].id);
+
+    expect(result.incident.map(t => [t.locale, t.title])).toEqual([['de', 'API-Fehler'], ['fr', 'Erreurs API']]);
+    expect(result.updates).toHaveLength(1);
+    expect(result.updates[0].incident_update_id).toEqual(updateResult[0].id);
+    expect(result.updates[0].title).toEqual('Behoben');
+  });
+});
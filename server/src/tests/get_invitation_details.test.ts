@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, invitationsTable } from '../db/schema';
+import { getInvitationDetails } from '../handlers/get_invitation_details';
+import { signToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('getInvitationDetails', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  const insertInvitation = async (email: string, values: Partial<typeof invitationsTable.$inferInsert> = {}) => {
+    const result = await db.insert(invitationsTable)
+      .values({
+        organization_id: organizationId,
+        email,
+        role: 'admin',
+        invited_by: ownerId,
+        expires_at: new Date(Date.now() + 60_000),
+        ...values
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should describe a pending invitation', async () => {
+    const invitation = await insertInvitation('new@example.com');
+
+    const result = await getInvitationDetails(signToken('invitation', invitation.id, invitation.expires_at));
+
+    expect(result).toEqual({
+      organization_name: 'Acme',
+      email: 'new@example.com',
+      role: 'admin',
+      expires_at: invitation.expires_at,
+      account_exists: false
+    });
+  });
+
+  it('should report whether the invitee already has an account', async () => {
+    const invitation = await insertInvitation('owner@example.com');
+
+    const result = await getInvitationDetails(signToken('invitation', invitation.id, invitation.expires_at));
+
+    expect(result.account_exists).toBe(true);
+  });
+
+  it('should reject tampered tokens and tokens for other purposes', async () => {
+    const invitation = await insertInvitation('new@example.com');
+    const token = signToken('invitation', invitation.id, invitation.expires_at);
+
+    await expect(getInvitationDetails(`${token}x`)).rejects.toThrow(/invalid or has expired/i);
+    await expect(getInvitationDetails(signToken('password_reset', invitation.id, invitation.expires_at)))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should reject revoked invitations', async () => {
+    const invitation = await insertInvitation('new@example.com', { status: 'revoked' });
+
+    await expect(getInvitationDetails(signToken('invitation', invitation.id, invitation.expires_at)))
+      .rejects.toThrow(/already been revoked/i);
+  });
+
+  it('should mark invitations past their expiry as expired', async () => {
+    const invitation = await insertInvitation('new@example.com', { expires_at: new Date(Date.now() - 1000) });
+
+    // Signed with a later expiry so only the stored expiry is in play
+    await expect(getInvitationDetails(signToken('invitation', invitation.id, new Date(Date.now() + 60_000))))
+      .rejects.toThrow(/invitation has expired/i);
+
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(eq(invitationsTable.id, invitation.id))
+      .execute();
+
+    expect(invitations[0].status).toEqual('expired');
+  });
+});
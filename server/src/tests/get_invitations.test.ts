@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, invitationsTable } from '../db/schema';
+import { getInvitations } from '../handlers/get_invitations';
+
+describe('getInvitations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+  let otherOrganizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Acme', slug: 'acme', owner_id: ownerId },
+        { name: 'Other', slug: 'other', owner_id: ownerId }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+  });
+
+  it('should return an empty list when there are no invitations', async () => {
+    const result = await getInvitations(organizationId);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return invitations for the organization only', async () => {
+    await db.insert(invitationsTable)
+      .values([
+        { organization_id: organizationId, email: 'a@example.com', invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) },
+        { organization_id: organizationId, email: 'b@example.com', status: 'revoked', invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) },
+        { organization_id: otherOrganizationId, email: 'c@example.com', invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) }
+      ])
+      .execute();
+
+    const result = await getInvitations(organizationId);
+
+    expect(result).toHaveLength(2);
+    expect(result.map(i => i.email).sort()).toEqual(['a@example.com', 'b@example.com']);
+    expect(result.find(i => i.email === 'b@example.com')!.status).toEqual('revoked');
+  });
+
+  it('should report pending invitations past their expiry as expired', async () => {
+    await db.insert(invitationsTable)
+      .values([
+        { organization_id: organizationId, email: 'stale@example.com', invited_by: ownerId, expires_at: new Date(Date.now() - 1000) },
+        { organization_id: organizationId, email: 'fresh@example.com', invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) },
+        { organization_id: organizationId, email: 'used@example.com', status: 'accepted', accepted_at: new Date(), invited_by: ownerId, expires_at: new Date(Date.now() - 1000) }
+      ])
+      .execute();
+
+    const result = await getInvitations(organizationId);
+
+    expect(result.find(i => i.email === 'stale@example.com')!.status).toEqual('expired');
+    expect(result.find(i => i.email === 'fresh@example.com')!.status).toEqual('pending');
+    expect(result.find(i => i.email === 'used@example.com')!.status).toEqual('accepted');
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, jobsTable } from '../db/schema';
+import { getJobs } from '../handlers/get_jobs';
+import { getJobsInputSchema } from '../schema';
+
+describe('getJobs', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let otherOrganizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Acme', slug: 'acme', owner_id: userResult[0].id },
+        { name: 'Other', slug: 'other', owner_id: userResult[0].id }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+
+    await db.insert(jobsTable)
+      .values([
+        { type: 'subscribers.notify', payload: {}, organization_id: organizationId, max_attempts: 5, status: 'succeeded' },
+        { type: 'chat.notify', payload: {}, organization_id: organizationId, max_attempts: 5, status: 'dead', last_error: 'Slack API error: invalid_auth' },
+        { type: 'sms.notify', payload: {}, organization_id: organizationId, max_attempts: 5 },
+        { type: 'sms.notify', payload: {}, organization_id: otherOrganizationId, max_attempts: 5, status: 'dead' },
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'dead' }
+      ])
+      .execute();
+  });
+
+  it('should count the organization\'s jobs by status and list the newest first', async () => {
+    const result = await getJobs(getJobsInputSchema.parse({ organization_id: organizationId }));
+
+    expect(result.counts).toEqual({ pending: 1, running: 0, succeeded: 1, dead: 1 });
+    expect(result.jobs.map(job => job.type)).toEqual(['sms.notify', 'chat.notify', 'subscribers.notify']);
+    result.jobs.forEach(job => expect(job.organization_id).toEqual(organizationId));
+  });
+
+  it('should filter by status and limit the list', async () => {
+    const dead = await getJobs(getJobsInputSchema.parse({ organization_id: organizationId, status: 'dead' }));
+    expect(dead.jobs).toHaveLength(1);
+    expect(dead.jobs[0].last_error).toEqual('Slack API error: invalid_auth');
+    // Counts always cover every status
+    expect(dead.counts.pending).toEqual(1);
+
+    const limited = await getJobs(getJobsInputSchema.parse({ organization_id: organizationId, limit: 2 }));
+    expect(limited.jobs).toHaveLength(2);
+  });
+
+  it('should return empty counts for organizations without jobs', async () => {
+    await db.delete(jobsTable).execute();
+
+    const result = await getJobs(getJobsInputSchema.parse({ organization_id: organizationId }));
+
+    expect(result).toEqual({ counts: { pending: 0, running: 0, succeeded: 0, dead: 0 }, jobs: [] });
+  });
+});
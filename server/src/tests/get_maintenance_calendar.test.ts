@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { getMaintenanceCalendar, CALENDAR_HISTORY_DAYS } from '../handlers/get_maintenance_calendar';
+import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
+import { maintenanceEventUid, renderCalendar } from '../lib/icalendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getMaintenanceCalendar', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let apiId: number;
+  let databaseId: number;
+  let apiWindowId: number;
+  let databaseWindowId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API' },
+        { status_page_id: statusPageId, name: 'Database' }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    databaseId = componentResult[1].id;
+
+    const now = Date.now();
+    const windowResult = await db.insert(maintenanceWindowsTable)
+      .values([
+        {
+          status_page_id: statusPageId,
+          title: 'API upgrade',
+          description: 'Rolling out v2',
+          scheduled_start: new Date(now + DAY_MS),
+          scheduled_end: new Date(now + DAY_MS + 2 * 60 * 60 * 1000),
+          created_by: userId
+        },
+        {
+          status_page_id: statusPageId,
+          title: 'Database failover test',
+          description: 'Switching to the replica; expect brief errors',
+          scheduled_start: new Date(now + 2 * DAY_MS),
+          scheduled_end: new Date(now + 2 * DAY_MS + 60 * 60 * 1000),
+          created_by: userId
+        }
+      ])
+      .returning()
+      .execute();
+    apiWindowId = windowResult[0].id;
+    databaseWindowId = windowResult[1].id;
+
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values([
+        { maintenance_window_id: apiWindowId, component_id: apiId },
+        { maintenance_window_id: databaseWindowId, component_id: databaseId }
+      ])
+      .execute();
+  });
+
+  it('should list maintenance windows as events in start order', async () => {
+    const calendar = await getMaintenanceCalendar('acme-status');
+
+    expect(calendar.name).toEqual('Acme Status maintenance');
+    expect(calendar.events.map(event => event.uid)).toEqual([
+      maintenanceEventUid(apiWindowId),
+      maintenanceEventUid(databaseWindowId)
+    ]);
+
+    const event = calendar.events[0];
+    expect(event.summary).toEqual('API upgrade');
+    expect(event.description).toContain('Affected components: API');
+    expect(event.categories).toEqual(['API']);
+    expect(event.status).toEqual('CONFIRMED');
+    expect(event.sequence).toEqual(0);
+    expect(event.url).toContain(`/s/acme-status#maintenance-${apiWindowId}`);
+  });
+
+  it('should narrow the calendar to the given components', async () => {
+    const calendar = await getMaintenanceCalendar('acme-status', [databaseId]);
+
+    expect(calendar.name).toEqual('Acme Status maintenance – Database');
+    expect(calendar.events.map(event => event.uid)).toEqual([maintenanceEventUid(databaseWindowId)]);
+  });
+
+  it('should keep the uid and bump the sequence when a window is rescheduled', async () => {
+    const start = new Date(Date.now() + 3 * DAY_MS);
+    await updateMaintenanceWindow({ id: apiWindowId, scheduled_start: start, scheduled_end: new Date(start.getTime() + DAY_MS) });
+    // Edits that leave the schedule alone do not need calendars to replace the event
+    await updateMaintenanceWindow({ id: apiWindowId, title: 'API v2 upgrade' });
+
+    const calendar = await getMaintenanceCalendar('acme-status', [apiId]);
+
+    expect(calendar.events[0].uid).toEqual(maintenanceEventUid(apiWindowId));
+    expect(calendar.events[0].sequence).toEqual(1);
+    expect(calendar.events[0].start).toEqual(start);
+    expect(calendar.events[0].summary).toEqual('API v2 upgrade');
+  });
+
+  it('should keep cancelled windows as cancelled events', async () => {
+    await updateMaintenanceWindow({ id: databaseWindowId, status: 'cancelled' });
+
+    const calendar = await getMaintenanceCalendar('acme-status', [databaseId]);
+
+    expect(calendar.events[0].status).toEqual('CANCELLED');
+    expect(calendar.events[0].sequence).toEqual(1);
+    expect(renderCalendar(calendar)).toContain('STATUS:CANCELLED\r\n');
+  });
+
+  it('should leave out windows that ended long ago', async () => {
+    const end = new Date(Date.now() - (CALENDAR_HISTORY_DAYS + 1) * DAY_MS);
+    await db.insert(maintenanceWindowsTable)
+      .values({
+        status_page_id: statusPageId,
+        title: 'Old maintenance',
+        description: 'Done',
+        status: 'completed',
+        scheduled_start: new Date(end.getTime() - 60 * 60 * 1000),
+        scheduled_end: end,
+        created_by: userId
+      })
+      .execute();
+
+    const calendar = await getMaintenanceCalendar('acme-status');
+
+    expect(calendar.events.map(event => event.summary)).not.toContain('Old maintenance');
+  });
+
+  it('should render a valid iCalendar document', async () => {
+    await updateMaintenanceWindow({ id: apiWindowId, description: 'Rolling out v2; no downtime, hopefully\nSecond line' });
+
+    const ics = renderCalendar(await getMaintenanceCalendar('acme-status'));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain(`UID:${maintenanceEventUid(apiWindowId)}\r\n`);
+    expect(ics).toMatch(/DTSTART:\d{8}T\d{6}Z\r\n/);
+    // Text values are escaped and long lines folded
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain('DESCRIPTION:Rolling out v2\\; no downtime\\, hopefully\\nSecond line');
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getMaintenanceCalendar('acme-status')).rejects.toThrow(/not found/i);
+  });
+});
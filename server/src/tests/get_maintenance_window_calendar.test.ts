@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { getMaintenanceWindowCalendar } from '../handlers/get_maintenance_window_calendar';
+import { maintenanceEventUid } from '../lib/icalendar';
+
+describe('getMaintenanceWindowCalendar', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let maintenanceWindowId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    // Downloading works for private pages too; only the dashboard offers it
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status', is_public: false })
+      .returning()
+      .execute();
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: pageResult[0].id, name: 'API' })
+      .returning()
+      .execute();
+
+    const windowResult = await db.insert(maintenanceWindowsTable)
+      .values({
+        status_page_id: pageResult[0].id,
+        title: 'API upgrade',
+        description: 'Rolling out v2',
+        scheduled_start: new Date('2030-01-01T10:00:00Z'),
+        scheduled_end: new Date('2030-01-01T12:00:00Z'),
+        created_by: userResult[0].id
+      })
+      .returning()
+      .execute();
+    maintenanceWindowId = windowResult[0].id;
+
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values({ maintenance_window_id: maintenanceWindowId, component_id: componentResult[0].id })
+      .execute();
+  });
+
+  it('should render the window as a single event', async () => {
+    const ics = await getMaintenanceWindowCalendar(maintenanceWindowId);
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain(`UID:${maintenanceEventUid(maintenanceWindowId)}\r\n`);
+    expect(ics).toContain('SUMMARY:API upgrade\r\n');
+    expect(ics).toContain('DTSTART:20300101T100000Z\r\n');
+    expect(ics).toContain('DTEND:20300101T120000Z\r\n');
+    expect(ics).toContain('CATEGORIES:API\r\n');
+    expect(ics).toContain('SEQUENCE:0\r\n');
+  });
+
+  it('should throw for unknown windows', async () => {
+    await expect(getMaintenanceWindowCalendar(999999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable } from '../db/schema';
+import { getOrganizationMembers } from '../handlers/get_organization_members';
+
+describe('getOrganizationMembers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let memberId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' }
+      ])
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+    memberId = userResult[1].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should list members with their user details', async () => {
+    await db.insert(organizationMembersTable)
+      .values([
+        { organization_id: organizationId, user_id: ownerId, role: 'owner' },
+        { organization_id: organizationId, user_id: memberId, role: 'viewer' }
+      ])
+      .execute();
+
+    const result = await getOrganizationMembers(organizationId);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].user_id).toEqual(ownerId);
+    expect(result[0].role).toEqual('owner');
+    expect(result[0].email).toEqual('owner@example.com');
+    expect(result[1].user_id).toEqual(memberId);
+    expect(result[1].first_name).toEqual('Max');
+    expect(result[1].last_name).toEqual('Member');
+    expect(result[1].role).toEqual('viewer');
+    expect(result[1].created_at).toBeInstanceOf(Date);
+    expect((result[1] as Record<string, unknown>)['password_hash']).toBeUndefined();
+  });
+
+  it('should add a member row for an owner who has none', async () => {
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: memberId, role: 'member' })
+      .execute();
+
+    const result = await getOrganizationMembers(organizationId);
+
+    expect(result).toHaveLength(2);
+    const owner = result.find(m => m.user_id === ownerId)!;
+    expect(owner.role).toEqual('owner');
+  });
+
+  it('should throw error for non-existent organization', async () => {
+    await expect(getOrganizationMembers(99999)).rejects.toThrow(/organization not found/i);
+  });
+});
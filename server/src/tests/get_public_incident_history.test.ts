@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable } from '../db/schema';
+import { getPublicIncidentHistory } from '../handlers/get_public_incident_history';
+import { getPublicIncidentHistoryInputSchema } from '../schema';
+
+describe('getPublicIncidentHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' },
+        { organization_id: orgResult[0].id, name: 'Internal', slug: 'acme-internal', is_public: false }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(incidentsTable)
+      .values(pageResult.map(page => ({
+        status_page_id: page.id,
+        title: `Outage on ${page.name}`,
+        description: 'Everything is down',
+        created_by: userId
+      })))
+      .execute();
+  });
+
+  it('should serve the history of a public page without user ids', async () => {
+    const result = await getPublicIncidentHistory(getPublicIncidentHistoryInputSchema.parse({ slug: 'acme-status' }));
+
+    expect(result.months).toHaveLength(1);
+    expect(result.months[0].incidents[0].title).toEqual('Outage on Acme Status');
+    expect(result.months[0].incidents[0]).not.toHaveProperty('created_by');
+  });
+
+  it('should only serve the history of a private page to viewers who may see it', async () => {
+    const input = getPublicIncidentHistoryInputSchema.parse({ slug: 'acme-internal' });
+
+    await expect(getPublicIncidentHistory(input)).rejects.toThrow(/not found/i);
+    await expect(getPublicIncidentHistory(input, { ip: null, cookies: {}, userId: null })).rejects.toThrow(/private/i);
+
+    const result = await getPublicIncidentHistory(input, { ip: null, cookies: {}, userId });
+    expect(result.months[0].incidents[0].title).toEqual('Outage on Internal');
+  });
+});
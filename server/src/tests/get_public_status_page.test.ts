@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable,
+  smsRulesTable
+} from '../db/schema';
+import { getPublicStatusPage } from '../handlers/get_public_status_page';
+import { worstComponentStatus } from '../lib/status';
+import { eq } from 'drizzle-orm';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getPublicStatusPage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        {
+          organization_id: orgResult[0].id,
+          name: 'Acme Status',
+          slug: 'acme-status',
+          description: 'Service health for Acme',
+          branding_primary_color: '#ff0000',
+          is_public: true
+        },
+        { organization_id: orgResult[0].id, name: 'Internal', slug: 'acme-internal', is_public: false }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should show the page with components ordered by position and the worst status overall', async () => {
+    await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'Database', status: 'partial_outage', position: 2 },
+        { status_page_id: statusPageId, name: 'API', status: 'operational', position: 1 },
+        { status_page_id: statusPageId, name: 'CDN', status: 'under_maintenance', position: 3 }
+      ])
+      .execute();
+
+    const result = await getPublicStatusPage('acme-status');
+
+    expect(result.page.name).toEqual('Acme Status');
+    expect(result.page.description).toEqual('Service health for Acme');
+    expect(result.page.branding_primary_color).toEqual('#ff0000');
+    expect(result.components.map(c => c.name)).toEqual(['API', 'Database', 'CDN']);
+    expect(result.overall_status).toEqual('partial_outage');
+    expect(result.active_incidents).toEqual([]);
+    expect(result.upcoming_maintenance).toEqual([]);
+    expect(result.past_incidents).toEqual([]);
+  });
+
+  it('should split active and past incidents and include the update timeline', async () => {
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: statusPageId, name: 'API', status: 'major_outage', position: 1 })
+      .returning()
+      .execute();
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values([
+        { status_page_id: statusPageId, title: 'API down', description: 'Errors', status: 'identified', created_by: userId },
+        {
+          status_page_id: statusPageId,
+          title: 'Old outage',
+          description: 'Fixed',
+          status: 'resolved',
+          created_by: userId,
+          resolved_at: new Date(Date.now() - 24 * HOUR_MS)
+        }
+      ])
+      .returning()
+      .execute();
+    const [active, past] = incidentResult;
+
+    await db.insert(incidentAffectedComponentsTable)
+      .values({ incident_id: active.id, component_id: componentResult[0].id })
+      .execute();
+
+    await db.insert(incidentUpdatesTable)
+      .values([
+        { incident_id: active.id, title: 'Investigating', description: 'Looking', status: 'investigating', created_by: userId, created_at: new Date(Date.now() - HOUR_MS) },
+        { incident_id: active.id, title: 'Identified', description: 'Found it', status: 'identified', created_by: userId },
+        { incident_id: past.id, title: 'Resolved', description: 'All good', status: 'resolved', created_by: userId }
+      ])
+      .execute();
+
+    const result = await getPublicStatusPage('acme-status');
+
+    expect(result.active_incidents).toHaveLength(1);
+    expect(result.active_incidents[0].title).toEqual('API down');
+    expect(result.active_incidents[0].affected_component_ids).toEqual([componentResult[0].id]);
+    expect(result.active_incidents[0].updates.map(u => u.title)).toEqual(['Identified', 'Investigating']);
+
+    expect(result.past_incidents).toHaveLength(1);
+    expect(result.past_incidents[0].title).toEqual('Old outage');
+    expect(result.past_incidents[0].updates.map(u => u.title)).toEqual(['Resolved']);
+  });
+
+  it('should never expose user ids', async () => {
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: statusPageId, title: 'API down', description: 'Errors', status: 'investigating', created_by: userId })
+      .returning()
+      .execute();
+    await db.insert(incidentUpdatesTable)
+      .values({ incident_id: incidentResult[0].id, title: 'Looking', description: 'Looking', status: 'investigating', created_by: userId })
+      .execute();
+    await db.insert(maintenanceWindowsTable)
+      .values({
+        status_page_id: statusPageId,
+        title: 'Upgrade',
+        description: 'Database upgrade',
+        scheduled_start: new Date(Date.now() + HOUR_MS),
+        scheduled_end: new Date(Date.now() + 2 * HOUR_MS),
+        created_by: userId
+      })
+      .execute();
+
+    const result = await getPublicStatusPage('acme-status');
+
+    expect(JSON.stringify(result)).not.toContain('created_by');
+    expect(JSON.stringify(result)).not.toContain('organization_id');
+  });
+
+  it('should list running and upcoming maintenance but not finished windows', async () => {
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: statusPageId, name: 'Database', status: 'under_maintenance', position: 1 })
+      .returning()
+      .execute();
+
+    const now = Date.now();
+    const maintenanceResult = await db.insert(maintenanceWindowsTable)
+      .values([
+        { status_page_id: statusPageId, title: 'Later', description: '', status: 'scheduled', scheduled_start: new Date(now + 48 * HOUR_MS), scheduled_end: new Date(now + 49 * HOUR_MS), created_by: userId },
+        { status_page_id: statusPageId, title: 'Running', description: '', status: 'in_progress', scheduled_start: new Date(now - HOUR_MS), scheduled_end: new Date(now + HOUR_MS), created_by: userId },
+        { status_page_id: statusPageId, title: 'Done', description: '', status: 'completed', scheduled_start: new Date(now - 3 * HOUR_MS), scheduled_end: new Date(now - 2 * HOUR_MS), created_by: userId },
+        { status_page_id: statusPageId, title: 'Stale', description: '', status: 'scheduled', scheduled_start: new Date(now - 3 * HOUR_MS), scheduled_end: new Date(now - 2 * HOUR_MS), created_by: userId },
+        { status_page_id: statusPageId, title: 'Cancelled', description: '', status: 'cancelled', scheduled_start: new Date(now + HOUR_MS), scheduled_end: new Date(now + 2 * HOUR_MS), created_by: userId }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values({ maintenance_window_id: maintenanceResult[1].id, component_id: componentResult[0].id })
+      .execute();
+
+    const result = await getPublicStatusPage('acme-status');
+
+    expect(result.upcoming_maintenance.map(m => m.title)).toEqual(['Running', 'Later']);
+    expect(result.upcoming_maintenance[0].affected_component_ids).toEqual([componentResult[0].id]);
+    expect(result.overall_status).toEqual('under_maintenance');
+  });
+
+  it('should link to the verified custom domain only while the plan includes it', async () => {
+    expect((await getPublicStatusPage('acme-status')).page.url).toMatch(/\/s\/acme-status$/);
+
+    await db.update(statusPagesTable)
+      .set({ custom_domain: 'status.acme.test', custom_domain_verified_at: new Date() })
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+    expect((await getPublicStatusPage('acme-status')).page.url).toMatch(/\/s\/acme-status$/);
+
+    await db.update(organizationsTable).set({ plan_type: 'plus' }).execute();
+    expect((await getPublicStatusPage('acme-status')).page.url).toEqual('https://status.acme.test');
+  });
+
+  it('should offer SMS subscriptions once the page has SMS rules on a plan that includes texts', async () => {
+    expect((await getPublicStatusPage('acme-status')).sms_subscriptions).toBe(false);
+
+    await db.insert(smsRulesTable)
+      .values({ status_page_id: statusPageId, event_type: 'incident.created' })
+      .execute();
+    expect((await getPublicStatusPage('acme-status')).sms_subscriptions).toBe(true);
+
+    await db.update(organizationsTable).set({ plan_type: 'free' }).execute();
+    expect((await getPublicStatusPage('acme-status')).sms_subscriptions).toBe(false);
+  });
+
+  it('should not serve private or unknown pages', async () => {
+    await expect(getPublicStatusPage('acme-internal')).rejects.toThrow(/not found/i);
+    await expect(getPublicStatusPage('nope')).rejects.toThrow(/not found/i);
+  });
+
+  it('should show private pages to members of the owning organization only', async () => {
+    const strangerResult = await db.insert(usersTable)
+      .values({ email: 'stranger@example.com', password_hash: 'hashed_password', first_name: 'Sam', last_name: 'Stranger' })
+      .returning()
+      .execute();
+
+    const result = await getPublicStatusPage('acme-internal', { ip: null, cookies: {}, userId });
+    expect(result.page.name).toEqual('Internal');
+
+    await expect(getPublicStatusPage('acme-internal', { ip: null, cookies: {}, userId: strangerResult[0].id }))
+      .rejects.toThrow(/private/i);
+    await expect(getPublicStatusPage('acme-internal', { ip: null, cookies: {}, userId: null }))
+      .rejects.toThrow(/private/i);
+  });
+
+  it('should rank component statuses by severity', () => {
+    expect(worstComponentStatus([])).toEqual('operational');
+    expect(worstComponentStatus(['under_maintenance', 'performance_issues'])).toEqual('performance_issues');
+    expect(worstComponentStatus(['major_outage', 'partial_outage'])).toEqual('major_outage');
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable } from '../db/schema';
+import { getPublicStatusPageByDomain } from '../handlers/get_public_status_page_by_domain';
+import { eq } from 'drizzle-orm';
+
+describe('getPublicStatusPageByDomain', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        {
+          organization_id: organizationId,
+          name: 'Acme Status',
+          slug: 'acme-status',
+          custom_domain: 'status.acme.test',
+          custom_domain_verification_token: 'token-123',
+          custom_domain_verified_at: new Date()
+        },
+        {
+          organization_id: organizationId,
+          name: 'Pending',
+          slug: 'acme-pending',
+          custom_domain: 'pending.acme.test',
+          custom_domain_verification_token: 'token-456'
+        }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should serve the page behind a verified domain, ignoring case and port', async () => {
+    const result = await getPublicStatusPageByDomain('Status.Acme.Test:8080');
+
+    expect(result?.page.name).toEqual('Acme Status');
+    expect(result?.page.slug).toEqual('acme-status');
+  });
+
+  it('should return null for unknown hosts and a missing header', async () => {
+    expect(await getPublicStatusPageByDomain('app.edgestatus.local')).toBeNull();
+    expect(await getPublicStatusPageByDomain(undefined)).toBeNull();
+  });
+
+  it('should not serve domains that are still unverified', async () => {
+    expect(await getPublicStatusPageByDomain('pending.acme.test')).toBeNull();
+  });
+
+  it('should serve private pages only to viewers who may see them', async () => {
+    await db.update(statusPagesTable)
+      .set({ is_public: false, access_ip_allowlist: ['10.0.0.0/8'] })
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+
+    await expect(getPublicStatusPageByDomain('status.acme.test')).rejects.toThrow(/not found/i);
+    await expect(getPublicStatusPageByDomain('status.acme.test', { ip: '192.0.2.1', cookies: {}, userId: null }))
+      .rejects.toThrow(/private/i);
+
+    const result = await getPublicStatusPageByDomain('status.acme.test', { ip: '10.1.2.3', cookies: {}, userId: null });
+    expect(result?.page.slug).toEqual('acme-status');
+  });
+
+  it('should stop serving once the organization moves to a plan without custom domains', async () => {
+    await db.update(organizationsTable)
+      .set({ plan_type: 'pro' })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(await getPublicStatusPageByDomain('status.acme.test')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable } from '../db/schema';
+import { getPublicUptime } from '../handlers/get_public_uptime';
+import { updateComponent } from '../handlers/update_component';
+import { UPTIME_DAYS } from '../lib/uptime';
+
+describe('getPublicUptime', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let componentId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' })
+      .returning()
+      .execute();
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: pageResult[0].id, name: 'API', created_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .returning()
+      .execute();
+    componentId = componentResult[0].id;
+  });
+
+  it('should reflect status changes made today', async () => {
+    await updateComponent({ id: componentId, status: 'major_outage' });
+
+    const uptime = await getPublicUptime('acme-status');
+
+    expect(uptime).toHaveLength(1);
+    expect(uptime[0].days).toHaveLength(UPTIME_DAYS);
+    const today = uptime[0].days.at(-1)!;
+    expect(today.worst_status).toEqual('major_outage');
+    expect(today.durations.operational).toBeGreaterThan(0);
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getPublicUptime('acme-status')).rejects.toThrow(/not found/i);
+  });
+});
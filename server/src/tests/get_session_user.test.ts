@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: 'hashed_password',
+        first_name: 'Test',
+        last_name: 'User',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should return the user for a valid session token', async () => {
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashToken('valid-token'), expires_at: new Date(Date.now() + 60_000) })
+      .execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(userId);
+    expect(result!.email).toEqual('test@example.com');
+    expect(result!.role).toEqual('admin');
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+  });
+
+  it('should return null for an unknown token', async () => {
+    const result = await getSessionUser('unknown-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null and remove the session once it has expired', async () => {
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashToken('expired-token'), expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await getSessionUser('expired-token');
+
+    expect(result).toBeNull();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken('expired-token')))
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return null and remove the session for a deactivated user', async () => {
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashToken('valid-token'), expires_at: new Date(Date.now() + 60_000) })
+      .execute();
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const result = await getSessionUser('valid-token');
+
+    expect(result).toBeNull();
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return null for a session still waiting for its second factor', async () => {
+    await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        token_hash: hashToken('pending-token'),
+        expires_at: new Date(Date.now() + 60_000),
+        two_factor_pending: true
+      })
+      .execute();
+
+    const result = await getSessionUser('pending-token');
+
+    expect(result).toBeNull();
+  });
+});
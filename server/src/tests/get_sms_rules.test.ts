@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsRulesTable } from '../db/schema';
+import { getSmsRules } from '../handlers/get_sms_rules';
+
+describe('getSmsRules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let otherPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'other' }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+    otherPageId = pageResult[1].id;
+  });
+
+  it('should return the page\'s rules', async () => {
+    await db.insert(smsRulesTable)
+      .values([
+        { status_page_id: statusPageId, event_type: 'incident.created', min_component_status: 'major_outage' },
+        { status_page_id: statusPageId, event_type: 'maintenance.started' },
+        { status_page_id: otherPageId, event_type: 'incident.updated' }
+      ])
+      .execute();
+
+    const rules = await getSmsRules(statusPageId);
+
+    expect(rules.map(rule => [rule.event_type, rule.min_component_status])).toEqual([
+      ['incident.created', 'major_outage'],
+      ['maintenance.started', null]
+    ]);
+  });
+
+  it('should return an empty list for a page without rules', async () => {
+    expect(await getSmsRules(statusPageId)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsSubscribersTable } from '../db/schema';
+import { getSmsSubscribers } from '../handlers/get_sms_subscribers';
+
+describe('getSmsSubscribers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let otherPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'other' }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+    otherPageId = pageResult[1].id;
+  });
+
+  it('should list the page\'s subscribers newest first without their verification codes', async () => {
+    await db.insert(smsSubscribersTable)
+      .values([
+        { status_page_id: statusPageId, phone_number: '+14155550101', verified_at: new Date(), created_at: new Date(Date.now() - 60_000) },
+        { status_page_id: statusPageId, phone_number: '+14155550102', verification_code_hash: 'hashed_code' },
+        { status_page_id: otherPageId, phone_number: '+14155550103' }
+      ])
+      .execute();
+
+    const subscribers = await getSmsSubscribers(statusPageId);
+
+    expect(subscribers.map(subscriber => subscriber.phone_number)).toEqual(['+14155550102', '+14155550101']);
+    expect(subscribers[0].verified_at).toBeNull();
+    expect(subscribers[1].verified_at).toBeInstanceOf(Date);
+    expect(subscribers[0]).not.toHaveProperty('verification_code_hash');
+  });
+
+  it('should return an empty list for a page without subscribers', async () => {
+    expect(await getSmsSubscribers(otherPageId)).toEqual([]);
+  });
+});
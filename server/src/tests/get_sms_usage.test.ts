@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, smsMessagesTable } from '../db/schema';
+import { getSmsUsage } from '../handlers/get_sms_usage';
+
+describe('getSmsUsage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let otherOrganizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Acme', slug: 'acme', plan_type: 'plus', owner_id: userResult[0].id },
+        { name: 'Other', slug: 'other', plan_type: 'free', owner_id: userResult[0].id }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+  });
+
+  it('should count this month\'s sent notifications against the plan\'s quota', async () => {
+    await db.insert(smsMessagesTable)
+      .values([
+        { organization_id: organizationId, to: '+14155550101', kind: 'verification', status: 'sent' },
+        { organization_id: organizationId, to: '+14155550101', kind: 'notification', status: 'sent' },
+        { organization_id: organizationId, to: '+14155550102', kind: 'notification', status: 'failed' },
+        { organization_id: organizationId, to: '+14155550104', kind: 'notification', status: 'pending' },
+        { organization_id: otherOrganizationId, to: '+14155550103', kind: 'notification', status: 'sent' }
+      ])
+      .execute();
+
+    const usage = await getSmsUsage(organizationId);
+
+    expect(usage.organization_id).toEqual(organizationId);
+    expect(usage.plan_type).toEqual('plus');
+    expect(usage.quota).toEqual(500);
+    // Verification codes have their own limits; texts waiting on the provider already count
+    expect(usage.used).toEqual(2);
+    expect(usage.period_start <= new Date()).toBe(true);
+    expect(usage.period_end > new Date()).toBe(true);
+  });
+
+  it('should report no texts on the free plan', async () => {
+    const usage = await getSmsUsage(otherOrganizationId);
+
+    expect(usage.quota).toEqual(0);
+    expect(usage.used).toEqual(0);
+  });
+
+  it('should throw for an unknown organization', async () => {
+    await expect(getSmsUsage(organizationId + 100)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, ssoConnectionsTable, ssoRoleMappingsTable } from '../db/schema';
+import { getSsoConnection } from '../handlers/get_sso_connection';
+
+describe('getSsoConnection', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const ownerResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: ownerResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should return null when no connection is configured', async () => {
+    expect(await getSsoConnection(organizationId)).toBeNull();
+  });
+
+  it('should return the connection with its role mappings and without the secret', async () => {
+    const connectionResult = await db.insert(ssoConnectionsTable)
+      .values({
+        organization_id: organizationId,
+        issuer: 'https://login.acme.com',
+        client_id: 'edgestatus',
+        client_secret: 'super-secret',
+        allowed_domains: ['acme.com'],
+        domain_verification_token: 'token-123'
+      })
+      .returning()
+      .execute();
+    await db.insert(ssoRoleMappingsTable)
+      .values([
+        { sso_connection_id: connectionResult[0].id, group_name: 'sre', role: 'admin' },
+        { sso_connection_id: connectionResult[0].id, group_name: 'support', role: 'member' }
+      ])
+      .execute();
+
+    const result = await getSsoConnection(organizationId);
+
+    expect(result!.id).toEqual(connectionResult[0].id);
+    expect(result!.allowed_domains).toEqual(['acme.com']);
+    expect(result!.verified_domains).toEqual([]);
+    expect(result!.role_mappings).toEqual([
+      { group: 'sre', role: 'admin' },
+      { group: 'support', role: 'member' }
+    ]);
+    expect((result as Record<string, unknown>)['client_secret']).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable } from '../db/schema';
+import { getStatusBadge } from '../handlers/get_status_badge';
+import { DEFAULT_BRAND_COLOR, renderStatusBadge, statusColors } from '../lib/badges';
+
+describe('getStatusBadge', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let apiId: number;
+  let databaseId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status', branding_primary_color: '#112233' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API', status: 'operational' },
+        { status_page_id: statusPageId, name: 'Database', status: 'partial_outage' }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    databaseId = componentResult[1].id;
+  });
+
+  it('should show the worst component status for the page', async () => {
+    const badge = await getStatusBadge('acme-status');
+
+    expect(badge).toEqual({ label: 'Acme Status', status: 'partial_outage', brandColor: '#112233' });
+  });
+
+  it('should show a single component', async () => {
+    expect(await getStatusBadge('acme-status', apiId)).toEqual({ label: 'API', status: 'operational', brandColor: '#112233' });
+    expect((await getStatusBadge('acme-status', databaseId)).status).toEqual('partial_outage');
+  });
+
+  it('should not show components of other pages', async () => {
+    const otherPage = await db.insert(statusPagesTable)
+      .values({ organization_id: (await db.select().from(organizationsTable).execute())[0].id, name: 'Other', slug: 'other' })
+      .returning()
+      .execute();
+    const otherComponent = await db.insert(componentsTable)
+      .values({ status_page_id: otherPage[0].id, name: 'Secret' })
+      .returning()
+      .execute();
+
+    await expect(getStatusBadge('acme-status', otherComponent[0].id)).rejects.toThrow(/component not found/i);
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getStatusBadge('acme-status')).rejects.toThrow(/status page not found/i);
+  });
+
+  it('should render the label in the brand color and the status in its own color', async () => {
+    const svg = renderStatusBadge(await getStatusBadge('acme-status'));
+
+    expect(svg).toContain('fill="#112233"');
+    expect(svg).toContain(`fill="${statusColors.partial_outage}"`);
+    expect(svg).toContain('<title>Acme Status: partial outage</title>');
+  });
+
+  it('should escape labels and fall back from unsafe brand colors', async () => {
+    const svg = renderStatusBadge({ label: 'A & <B>', status: 'operational', brandColor: 'red" onload="alert(1)' });
+
+    expect(svg).toContain('A &amp; &lt;B&gt;');
+    expect(svg).not.toContain('onload');
+    expect(svg).toContain(`fill="${DEFAULT_BRAND_COLOR}"`);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, maintenanceWindowsTable } from '../db/schema';
+import { getStatusEmbed } from '../handlers/get_status_embed';
+import { renderEmbedScript } from '../lib/embed';
+import { DEFAULT_BRAND_COLOR } from '../lib/badges';
+
+describe('getStatusEmbed', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should have no notices when nothing is happening', async () => {
+    const embed = await getStatusEmbed('acme-status');
+
+    expect(embed.notices).toEqual([]);
+    expect(embed.brandColor).toEqual(DEFAULT_BRAND_COLOR);
+  });
+
+  it('should list active incidents and maintenance in progress, but not scheduled maintenance', async () => {
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: statusPageId, title: 'API errors', description: 'Errors', status: 'identified', created_by: userId })
+      .returning()
+      .execute();
+    await db.insert(incidentsTable)
+      .values({ status_page_id: statusPageId, title: 'Old outage', description: 'Fixed', status: 'resolved', created_by: userId })
+      .execute();
+
+    const now = Date.now();
+    const maintenanceResult = await db.insert(maintenanceWindowsTable)
+      .values([
+        {
+          status_page_id: statusPageId,
+          title: 'Database upgrade',
+          description: 'Upgrading',
+          status: 'in_progress',
+          scheduled_start: new Date(now - 60 * 60 * 1000),
+          scheduled_end: new Date(now + 60 * 60 * 1000),
+          created_by: userId
+        },
+        {
+          status_page_id: statusPageId,
+          title: 'Network work',
+          description: 'Later',
+          status: 'scheduled',
+          scheduled_start: new Date(now + 24 * 60 * 60 * 1000),
+          scheduled_end: new Date(now + 25 * 60 * 60 * 1000),
+          created_by: userId
+        }
+      ])
+      .returning()
+      .execute();
+
+    const embed = await getStatusEmbed('acme-status');
+
+    expect(embed.notices.map(notice => notice.title)).toEqual(['API errors', 'Database upgrade']);
+    expect(embed.notices[0].label).toEqual('Identified');
+    expect(embed.notices[0].url).toEndWith(`/s/acme-status#incident-${incidentResult[0].id}`);
+    expect(embed.notices[1].url).toEndWith(`/s/acme-status#maintenance-${maintenanceResult[0].id}`);
+  });
+
+  it('should embed the state so titles cannot break out of the script', async () => {
+    await db.insert(incidentsTable)
+      .values({ status_page_id: statusPageId, title: '</script><script>alert(1)</script>', description: 'x', created_by: userId })
+      .execute();
+
+    const script = renderEmbedScript(await getStatusEmbed('acme-status'));
+
+    expect(script).not.toContain('</script>');
+    expect(script).toContain('\\u003c/script>');
+    expect(script).toContain('textContent');
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getStatusEmbed('acme-status')).rejects.toThrow(/not found/i);
+  });
+});
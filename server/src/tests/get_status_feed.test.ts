@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { getStatusFeed } from '../handlers/get_status_feed';
+import { renderAtomFeed, renderRssFeed } from '../lib/feeds';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getStatusFeed', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let apiId: number;
+  let databaseId: number;
+  let incidentId: number;
+  let updateId: number;
+  let maintenanceId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status', description: 'Service health' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API' },
+        { status_page_id: statusPageId, name: 'Database' }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    databaseId = componentResult[1].id;
+
+    const now = Date.now();
+    const incidentResult = await db.insert(incidentsTable)
+      .values({
+        status_page_id: statusPageId,
+        title: 'API errors',
+        description: 'Elevated error rates',
+        status: 'identified',
+        created_by: userId,
+        created_at: new Date(now - 3 * HOUR_MS),
+        updated_at: new Date(now - 2 * HOUR_MS)
+      })
+      .returning()
+      .execute();
+    incidentId = incidentResult[0].id;
+    await db.insert(incidentAffectedComponentsTable)
+      .values({ incident_id: incidentId, component_id: apiId })
+      .execute();
+
+    const updateResult = await db.insert(incidentUpdatesTable)
+      .values({
+        incident_id: incidentId,
+        title: 'Cause found',
+        description: 'A bad deploy',
+        status: 'identified',
+        created_by: userId,
+        created_at: new Date(now - 2 * HOUR_MS)
+      })
+      .returning()
+      .execute();
+    updateId = updateResult[0].id;
+
+    const maintenanceResult = await db.insert(maintenanceWindowsTable)
+      .values({
+        status_page_id: statusPageId,
+        title: 'Database upgrade',
+        description: 'Upgrading to a new major version',
+        scheduled_start: new Date(now + HOUR_MS),
+        scheduled_end: new Date(now + 2 * HOUR_MS),
+        created_by: userId,
+        created_at: new Date(now - HOUR_MS),
+        updated_at: new Date(now - HOUR_MS)
+      })
+      .returning()
+      .execute();
+    maintenanceId = maintenanceResult[0].id;
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values({ maintenance_window_id: maintenanceId, component_id: databaseId })
+      .execute();
+  });
+
+  it('should list incidents, each update and maintenance newest first with stable ids', async () => {
+    const feed = await getStatusFeed('acme-status');
+
+    expect(feed.id).toEqual('urn:edgestatus:status-page:acme-status');
+    expect(feed.title).toEqual('Acme Status');
+    expect(feed.description).toEqual('Service health');
+    expect(feed.link).toMatch(/\/s\/acme-status$/);
+    // The update bumped the incident, so both share a timestamp
+    expect(feed.entries.map(entry => entry.id)).toEqual([
+      `urn:edgestatus:maintenance:${maintenanceId}`,
+      `urn:edgestatus:incident-update:${updateId}`,
+      `urn:edgestatus:incident:${incidentId}`
+    ]);
+    expect(feed.updated).toEqual(feed.entries[0].updated);
+
+    const update = feed.entries[1];
+    expect(update.title).toEqual('Identified: API errors');
+    expect(update.content).toContain('A bad deploy');
+    expect(update.categories).toEqual(['API']);
+    expect(update.link).toEqual(`${feed.link}#incident-${incidentId}`);
+
+    expect(feed.entries[0].title).toEqual('Scheduled maintenance: Database upgrade');
+    expect(feed.entries[0].categories).toEqual(['Database']);
+  });
+
+  it('should keep update ids stable and bump updated timestamps as entries change', async () => {
+    const before = await getStatusFeed('acme-status');
+
+    await db.insert(incidentUpdatesTable)
+      .values({ incident_id: incidentId, title: 'Fixed', description: 'Rolled back', status: 'resolved', created_by: userId })
+      .execute();
+    await db.update(incidentsTable).set({ status: 'resolved', updated_at: new Date() }).execute();
+
+    const after = await getStatusFeed('acme-status');
+    const incidentBefore = before.entries.find(entry => entry.id === `urn:edgestatus:incident:${incidentId}`)!;
+    const incidentAfter = after.entries.find(entry => entry.id === `urn:edgestatus:incident:${incidentId}`)!;
+    const updateAfter = after.entries.find(entry => entry.id === `urn:edgestatus:incident-update:${updateId}`)!;
+
+    expect(after.entries).toHaveLength(4);
+    expect(after.entries.map(entry => entry.title)).toContain('Resolved: API errors');
+    expect(incidentAfter.updated.getTime()).toBeGreaterThan(incidentBefore.updated.getTime());
+    expect(incidentAfter.published).toEqual(incidentBefore.published);
+    expect(updateAfter.updated).toEqual(updateAfter.published);
+  });
+
+  it('should filter entries by affected component', async () => {
+    const apiFeed = await getStatusFeed('acme-status', [apiId]);
+    expect(apiFeed.id).toEqual(`urn:edgestatus:status-page:acme-status:components:${apiId}`);
+    expect(apiFeed.title).toEqual('Acme Status – API');
+    expect(apiFeed.entries.map(entry => entry.id)).toEqual([
+      `urn:edgestatus:incident-update:${updateId}`,
+      `urn:edgestatus:incident:${incidentId}`
+    ]);
+
+    const databaseFeed = await getStatusFeed('acme-status', [databaseId]);
+    expect(databaseFeed.entries.map(entry => entry.id)).toEqual([`urn:edgestatus:maintenance:${maintenanceId}`]);
+  });
+
+  it('should render valid RSS and Atom with escaped content', async () => {
+    await db.update(incidentsTable).set({ title: 'Errors <5xx> & timeouts' }).execute();
+    const feed = await getStatusFeed('acme-status');
+
+    const rss = renderRssFeed(feed, 'https://status.example.com/history.rss');
+    expect(rss).toContain('<rss version="2.0"');
+    expect(rss).toContain(`<guid isPermaLink="false">urn:edgestatus:incident-update:${updateId}</guid>`);
+    expect(rss).toContain('Errors &lt;5xx&gt; &amp; timeouts');
+    expect(rss).toContain('<atom:link href="https://status.example.com/history.rss" rel="self"');
+
+    const atom = renderAtomFeed(feed, 'https://status.example.com/history.atom');
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain('<id>urn:edgestatus:status-page:acme-status</id>');
+    expect(atom).toContain(`<updated>${feed.updated.toISOString()}</updated>`);
+    expect(atom).toContain('<category term="API"/>');
+    expect(atom).not.toContain('<5xx>');
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getStatusFeed('acme-status')).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, incidentUpdatesTable } from '../db/schema';
+import { getStatusFeedVersion } from '../handlers/get_status_feed_version';
+
+describe('getStatusFeedVersion', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  const pageUpdatedAt = new Date('2024-01-01T00:00:00Z');
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status', updated_at: pageUpdatedAt })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should fall back to the page itself when nothing has been posted', async () => {
+    expect(await getStatusFeedVersion('acme-status')).toEqual(pageUpdatedAt);
+  });
+
+  it('should follow the latest incident, update or maintenance change', async () => {
+    const incidentUpdatedAt = new Date('2024-02-01T00:00:00Z');
+    const incidentResult = await db.insert(incidentsTable)
+      .values({
+        status_page_id: statusPageId,
+        title: 'API errors',
+        description: 'Errors',
+        created_by: userId,
+        created_at: incidentUpdatedAt,
+        updated_at: incidentUpdatedAt
+      })
+      .returning()
+      .execute();
+    expect(await getStatusFeedVersion('acme-status')).toEqual(incidentUpdatedAt);
+
+    const updateCreatedAt = new Date('2024-03-01T12:30:00Z');
+    await db.insert(incidentUpdatesTable)
+      .values({
+        incident_id: incidentResult[0].id,
+        title: 'Update',
+        description: 'Still looking',
+        status: 'investigating',
+        created_by: userId,
+        created_at: updateCreatedAt
+      })
+      .execute();
+    expect(await getStatusFeedVersion('acme-status')).toEqual(updateCreatedAt);
+  });
+
+  it('should not answer for private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getStatusFeedVersion('acme-status')).rejects.toThrow(/not found/i);
+  });
+});
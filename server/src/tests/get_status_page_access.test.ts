@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, statusPagePasswordsTable } from '../db/schema';
+import { getStatusPageAccess } from '../handlers/get_status_page_access';
+
+describe('getStatusPageAccess', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({
+        organization_id: orgResult[0].id,
+        name: 'Internal',
+        slug: 'acme-internal',
+        is_public: false,
+        access_ip_allowlist: ['10.0.0.0/8']
+      })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should describe access without revealing the password', async () => {
+    expect(await getStatusPageAccess(statusPageId)).toEqual({
+      status_page_id: statusPageId,
+      is_public: false,
+      password_protected: false,
+      password_updated_at: null,
+      ip_allowlist: ['10.0.0.0/8']
+    });
+
+    await db.insert(statusPagePasswordsTable)
+      .values({ status_page_id: statusPageId, password_hash: await Bun.password.hash('open sesame') })
+      .execute();
+
+    const result = await getStatusPageAccess(statusPageId);
+    expect(result.password_protected).toBe(true);
+    expect(result.password_updated_at).toBeInstanceOf(Date);
+    expect(JSON.stringify(result)).not.toContain('argon');
+  });
+
+  it('should reject unknown pages', async () => {
+    await expect(getStatusPageAccess(9999)).rejects.toThrow(/not found/i);
+  });
+});
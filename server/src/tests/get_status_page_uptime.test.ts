@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable, componentStatusChangesTable } from '../db/schema';
+import { getStatusPageUptime } from '../handlers/get_status_page_uptime';
+import { rollupUptime, UPTIME_DAYS } from '../lib/uptime';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('rollupUptime', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+
+  it('should split time between statuses per UTC day', () => {
+    const rollup = rollupUptime(
+      { created_at: new Date('2024-03-01T00:00:00Z'), status: 'operational' },
+      [
+        { previous_status: 'operational', status: 'major_outage', changed_at: new Date('2024-03-09T06:00:00Z') },
+        { previous_status: 'major_outage', status: 'operational', changed_at: new Date('2024-03-09T12:00:00Z') }
+      ],
+      3,
+      now
+    );
+
+    expect(rollup.days.map(day => day.date)).toEqual(['2024-03-08', '2024-03-09', '2024-03-10']);
+    expect(rollup.days[0].durations).toEqual({ operational: 24 * 3600 });
+    expect(rollup.days[1].durations).toEqual({ operational: 18 * 3600, major_outage: 6 * 3600 });
+    expect(rollup.days[1].worst_status).toEqual('major_outage');
+    expect(rollup.days[1].uptime_percentage).toEqual(75);
+    // Today only counts up to now
+    expect(rollup.days[2].durations).toEqual({ operational: 12 * 3600 });
+    expect(rollup.uptime_percentage).toEqual(90);
+  });
+
+  it('should count partial outages for 30% and maintenance not at all', () => {
+    const rollup = rollupUptime(
+      { created_at: new Date('2024-03-09T00:00:00Z'), status: 'operational' },
+      [
+        { previous_status: 'partial_outage', status: 'under_maintenance', changed_at: new Date('2024-03-09T12:00:00Z') },
+        { previous_status: 'under_maintenance', status: 'operational', changed_at: new Date('2024-03-10T00:00:00Z') }
+      ],
+      2,
+      now
+    );
+
+    // Half a day of partial outage, then maintenance
+    expect(rollup.days[0].uptime_percentage).toEqual(85);
+    expect(rollup.days[0].worst_status).toEqual('partial_outage');
+    expect(rollup.days[1].uptime_percentage).toEqual(100);
+  });
+
+  it('should leave days before the component existed empty', () => {
+    const rollup = rollupUptime(
+      { created_at: new Date('2024-03-10T06:00:00Z'), status: 'performance_issues' },
+      [],
+      2,
+      now
+    );
+
+    expect(rollup.days[0]).toEqual({ date: '2024-03-09', durations: {}, worst_status: null, uptime_percentage: null });
+    expect(rollup.days[1].durations).toEqual({ performance_issues: 6 * 3600 });
+    expect(rollup.uptime_percentage).toEqual(100);
+  });
+});
+
+describe('getStatusPageUptime', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let apiId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API', position: 1, created_at: new Date(Date.now() - 200 * DAY_MS) },
+        { status_page_id: statusPageId, name: 'Database', position: 0 }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+  });
+
+  it('should return a 90-day series per component in display order', async () => {
+    const uptime = await getStatusPageUptime(statusPageId);
+
+    expect(uptime.map(component => component.name)).toEqual(['Database', 'API']);
+    expect(uptime[1].days).toHaveLength(UPTIME_DAYS);
+    expect(uptime[1].days.at(-1)!.date).toEqual(new Date().toISOString().slice(0, 10));
+    expect(uptime[1].days.every(day => day.worst_status === 'operational')).toBe(true);
+    expect(uptime[1].uptime_percentage).toEqual(100);
+  });
+
+  it('should start the window in the status left by the first change inside it', async () => {
+    const now = Date.now();
+    // Before the window; it should not matter
+    await db.insert(componentStatusChangesTable)
+      .values([
+        { component_id: apiId, previous_status: 'operational', status: 'major_outage', source: 'component', changed_at: new Date(now - 150 * DAY_MS) },
+        { component_id: apiId, previous_status: 'major_outage', status: 'operational', source: 'component', changed_at: new Date(now - 30 * DAY_MS) }
+      ])
+      .execute();
+
+    const uptime = await getStatusPageUptime(statusPageId);
+    const api = uptime.find(component => component.component_id === apiId)!;
+
+    // The component was down from the window start until 30 days ago
+    const downDays = api.days.filter(day => day.worst_status === 'major_outage');
+    expect(downDays.length).toBeGreaterThanOrEqual(UPTIME_DAYS - 31);
+    expect(downDays.length).toBeLessThanOrEqual(UPTIME_DAYS - 29);
+    expect(api.days.at(-1)!.worst_status).toEqual('operational');
+    expect(api.uptime_percentage).toBeGreaterThan(30);
+    expect(api.uptime_percentage).toBeLessThan(40);
+  });
+});
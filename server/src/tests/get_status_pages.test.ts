@@ -18,8 +18,7 @@ const testUser: CreateUserInput = {
 const testOrganization: CreateOrganizationInput = {
   name: 'Test Organization',
   slug: 'test-org',
-  plan_type: 'free',
-  owner_id: 1 // Will be set after user creation
+  plan_type: 'free'
 };
 
 const testStatusPage1: CreateStatusPageInput = {
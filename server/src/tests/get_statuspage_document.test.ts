@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  incidentAffectedComponentsTable,
+  maintenanceWindowsTable,
+  maintenanceAffectedComponentsTable
+} from '../db/schema';
+import { getStatuspageDocument } from '../handlers/get_statuspage_document';
+import { toStatuspageStatus } from '../lib/statuspage_v2';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getStatuspageDocument', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let apiId: number;
+  let databaseId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme-status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API', status: 'performance_issues', position: 1 },
+        { status_page_id: statusPageId, name: 'Database', status: 'operational', position: 2 }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    databaseId = componentResult[1].id;
+  });
+
+  it('should map component statuses and the overall indicator in summary.json', async () => {
+    const summary = await getStatuspageDocument('acme-status', 'summary');
+
+    expect(summary.page.id).toEqual('acme-status');
+    expect(summary.page.name).toEqual('Acme Status');
+    expect(summary.page.url).toMatch(/\/s\/acme-status$/);
+    expect(summary.status).toEqual({ indicator: 'minor', description: 'Partially Degraded Service' });
+    expect(summary.components?.map(c => [c.id, c.name, c.status])).toEqual([
+      [String(apiId), 'API', 'degraded_performance'],
+      [String(databaseId), 'Database', 'operational']
+    ]);
+    expect(summary.components?.[0].page_id).toEqual('acme-status');
+    expect(summary.incidents).toEqual([]);
+    expect(summary.scheduled_maintenances).toEqual([]);
+  });
+
+  it('should map every component status onto a Statuspage indicator', () => {
+    expect(toStatuspageStatus('operational').indicator).toEqual('none');
+    expect(toStatuspageStatus('performance_issues').indicator).toEqual('minor');
+    expect(toStatuspageStatus('partial_outage').indicator).toEqual('major');
+    expect(toStatuspageStatus('major_outage').indicator).toEqual('critical');
+    expect(toStatuspageStatus('under_maintenance').indicator).toEqual('maintenance');
+  });
+
+  it('should list unresolved incidents with their updates, impact and affected components', async () => {
+    const incidentResult = await db.insert(incidentsTable)
+      .values([
+        { status_page_id: statusPageId, title: 'Slow API', description: 'Latency', status: 'monitoring', created_by: userId },
+        { status_page_id: statusPageId, title: 'Old', description: 'Done', status: 'resolved', created_by: userId, resolved_at: new Date() }
+      ])
+      .returning()
+      .execute();
+    const incidentId = incidentResult[0].id;
+
+    await db.insert(incidentAffectedComponentsTable)
+      .values({ incident_id: incidentId, component_id: apiId })
+      .execute();
+    const monitoringAt = new Date(Date.now() - HOUR_MS);
+    await db.insert(incidentUpdatesTable)
+      .values([
+        { incident_id: incidentId, title: 'Found', description: 'Cache misconfigured', status: 'identified', created_by: userId, created_at: new Date(Date.now() - 2 * HOUR_MS) },
+        { incident_id: incidentId, title: 'Fix deployed', description: 'Watching latency', status: 'monitoring', created_by: userId, created_at: monitoringAt }
+      ])
+      .execute();
+
+    const document = await getStatuspageDocument('acme-status', 'incidents/unresolved');
+
+    expect(document.incidents).toHaveLength(1);
+    const [incident] = document.incidents!;
+    expect(incident.id).toEqual(String(incidentId));
+    expect(incident.name).toEqual('Slow API');
+    expect(incident.status).toEqual('monitoring');
+    expect(incident.impact).toEqual('minor');
+    expect(incident.monitoring_at).toEqual(monitoringAt.toISOString());
+    expect(incident.resolved_at).toBeNull();
+    expect(incident.components.map(c => c.name)).toEqual(['API']);
+    expect(incident.incident_updates.map(u => [u.status, u.body])).toEqual([
+      ['monitoring', 'Watching latency'],
+      ['identified', 'Cache misconfigured']
+    ]);
+    expect(JSON.stringify(document)).not.toContain('created_by');
+  });
+
+  it('should only list scheduled windows in scheduled-maintenances/upcoming.json', async () => {
+    const now = Date.now();
+    const maintenanceResult = await db.insert(maintenanceWindowsTable)
+      .values([
+        { status_page_id: statusPageId, title: 'Upgrade', description: 'Database upgrade', scheduled_start: new Date(now + HOUR_MS), scheduled_end: new Date(now + 2 * HOUR_MS), created_by: userId },
+        { status_page_id: statusPageId, title: 'Running', description: 'Now', status: 'in_progress', scheduled_start: new Date(now - HOUR_MS), scheduled_end: new Date(now + HOUR_MS), created_by: userId }
+      ])
+      .returning()
+      .execute();
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values({ maintenance_window_id: maintenanceResult[0].id, component_id: databaseId })
+      .execute();
+
+    const upcoming = await getStatuspageDocument('acme-status', 'scheduled-maintenances/upcoming');
+
+    expect(upcoming.scheduled_maintenances).toHaveLength(1);
+    const [maintenance] = upcoming.scheduled_maintenances!;
+    expect(maintenance.name).toEqual('Upgrade');
+    expect(maintenance.status).toEqual('scheduled');
+    expect(maintenance.impact).toEqual('maintenance');
+    expect(maintenance.scheduled_for).toEqual(new Date(now + HOUR_MS).toISOString());
+    expect(maintenance.scheduled_until).toEqual(new Date(now + 2 * HOUR_MS).toISOString());
+    expect(maintenance.components.map(c => c.name)).toEqual(['Database']);
+
+    // The summary includes maintenance that is already running
+    const summary = await getStatuspageDocument('acme-status', 'summary');
+    expect(summary.scheduled_maintenances?.map(m => m.status)).toEqual(['in_progress', 'scheduled']);
+  });
+
+  it('should return just the page and status in status.json', async () => {
+    const document = await getStatuspageDocument('acme-status', 'status');
+
+    expect(Object.keys(document)).toEqual(['page', 'status']);
+  });
+
+  it('should not serve private pages', async () => {
+    await db.update(statusPagesTable).set({ is_public: false }).execute();
+
+    await expect(getStatuspageDocument('acme-status', 'summary')).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, subscribersTable } from '../db/schema';
+import { getSubscribers } from '../handlers/get_subscribers';
+
+describe('getSubscribers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list a page\'s subscribers newest first, confirmed or not', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'acme-other' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(subscribersTable)
+      .values([
+        { status_page_id: pageResult[0].id, email: 'first@example.com', confirmed_at: new Date(), created_at: new Date('2030-01-01T00:00:00Z') },
+        { status_page_id: pageResult[0].id, email: 'second@example.com', created_at: new Date('2030-01-02T00:00:00Z') },
+        { status_page_id: pageResult[1].id, email: 'elsewhere@example.com' }
+      ])
+      .execute();
+
+    const subscribers = await getSubscribers(pageResult[0].id);
+
+    expect(subscribers.map(s => s.email)).toEqual(['second@example.com', 'first@example.com']);
+    expect(subscribers[0].confirmed_at).toBeNull();
+    expect(subscribers[1].confirmed_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable, subscribersTable } from '../db/schema';
+import { getSubscriptionPreferences } from '../handlers/get_subscription_preferences';
+import { signToken } from '../lib/auth';
+import { SUBSCRIPTION_PREFERENCES_PURPOSE, UNSUBSCRIBE_PURPOSE, setSubscriberComponents } from '../lib/subscribers';
+
+describe('getSubscriptionPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let subscriberId: number;
+  let apiId: number;
+  let dashboardId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'Dashboard', position: 2 },
+        { status_page_id: statusPageId, name: 'API', description: 'Public REST API', position: 1 }
+      ])
+      .returning()
+      .execute();
+    dashboardId = componentResult[0].id;
+    apiId = componentResult[1].id;
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: statusPageId, email: 'reader@example.com', confirmed_at: new Date() })
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+  });
+
+  const preferencesToken = (id: number) => signToken(SUBSCRIPTION_PREFERENCES_PURPOSE, id, new Date(Date.now() + 60 * 60 * 1000));
+
+  it('should list the page components in order with none chosen for a new subscriber', async () => {
+    const result = await getSubscriptionPreferences(preferencesToken(subscriberId));
+
+    expect(result.status_page_name).toEqual('Acme Status');
+    expect(result.email).toEqual('reader@example.com');
+    expect(result.components).toEqual([
+      { id: apiId, name: 'API', description: 'Public REST API' },
+      { id: dashboardId, name: 'Dashboard', description: null }
+    ]);
+    expect(result.component_ids).toEqual([]);
+  });
+
+  it('should return the chosen components', async () => {
+    await setSubscriberComponents(subscriberId, statusPageId, [dashboardId]);
+
+    const result = await getSubscriptionPreferences(preferencesToken(subscriberId));
+
+    expect(result.component_ids).toEqual([dashboardId]);
+  });
+
+  it('should reject invalid and wrong-purpose tokens', async () => {
+    await expect(getSubscriptionPreferences('not-a-token')).rejects.toThrow(/invalid or expired/i);
+
+    const unsubscribeToken = signToken(UNSUBSCRIBE_PURPOSE, subscriberId, new Date(Date.now() + 60 * 60 * 1000));
+    await expect(getSubscriptionPreferences(unsubscribeToken)).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject links of subscribers who have since unsubscribed', async () => {
+    await expect(getSubscriptionPreferences(preferencesToken(subscriberId + 1000))).rejects.toThrow(/invalid or expired/i);
+  });
+});
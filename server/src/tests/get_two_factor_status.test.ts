@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { getTwoFactorStatus } from '../handlers/get_two_factor_status';
+import { replaceRecoveryCodes } from '../lib/two_factor';
+import { eq } from 'drizzle-orm';
+
+describe('getTwoFactorStatus', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should report 2FA as disabled for users who never enrolled', async () => {
+    const result = await getTwoFactorStatus(userId);
+
+    expect(result).toEqual({ enabled: false, enabled_at: null, recovery_codes_remaining: 0 });
+  });
+
+  it('should treat an unconfirmed enrollment as disabled', async () => {
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' })
+      .execute();
+
+    const result = await getTwoFactorStatus(userId);
+
+    expect(result.enabled).toBe(false);
+  });
+
+  it('should count only unused recovery codes', async () => {
+    const enabledAt = new Date();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', enabled_at: enabledAt })
+      .execute();
+    await replaceRecoveryCodes(userId);
+
+    const codes = await db.select().from(recoveryCodesTable).execute();
+    await db.update(recoveryCodesTable)
+      .set({ used_at: new Date() })
+      .where(eq(recoveryCodesTable.id, codes[0].id))
+      .execute();
+
+    const result = await getTwoFactorStatus(userId);
+
+    expect(result.enabled).toBe(true);
+    expect(result.enabled_at!.getTime()).toEqual(enabledAt.getTime());
+    expect(result.recovery_codes_remaining).toEqual(9);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, webhookDeliveriesTable } from '../db/schema';
+import { getWebhookDeliveries } from '../handlers/get_webhook_deliveries';
+
+describe('getWebhookDeliveries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let endpointId: number;
+  let otherEndpointId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values([
+        { organization_id: orgResult[0].id, url: 'https://a.example.com', secret: 'whsec_a', event_types: ['incident.created'] },
+        { organization_id: orgResult[0].id, url: 'https://b.example.com', secret: 'whsec_b', event_types: ['incident.created'] }
+      ])
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+    otherEndpointId = endpointResult[1].id;
+  });
+
+  it('should return the endpoint deliveries, newest first, up to the limit', async () => {
+    await db.insert(webhookDeliveriesTable)
+      .values([
+        { webhook_endpoint_id: endpointId, event_id: 'evt_1', event_type: 'incident.created', payload: {}, status: 'succeeded', response_status: 200, created_at: new Date('2024-01-01') },
+        { webhook_endpoint_id: endpointId, event_id: 'evt_2', event_type: 'incident.resolved', payload: {}, status: 'failed', response_status: 500, created_at: new Date('2024-01-02') },
+        { webhook_endpoint_id: endpointId, event_id: 'evt_3', event_type: 'incident.updated', payload: {}, created_at: new Date('2024-01-03') },
+        { webhook_endpoint_id: otherEndpointId, event_id: 'evt_4', event_type: 'incident.created', payload: {} }
+      ])
+      .execute();
+
+    const result = await getWebhookDeliveries({ webhook_endpoint_id: endpointId, limit: 2 });
+
+    expect(result.map(delivery => delivery.event_id)).toEqual(['evt_3', 'evt_2']);
+    expect(result[1].status).toEqual('failed');
+    expect(result[1].response_status).toEqual(500);
+  });
+
+  it('should return an empty list when nothing was delivered', async () => {
+    expect(await getWebhookDeliveries({ webhook_endpoint_id: endpointId, limit: 50 })).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable } from '../db/schema';
+import { getWebhookEndpoints } from '../handlers/get_webhook_endpoints';
+
+describe('getWebhookEndpoints', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let otherOrganizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Test Org', slug: 'test-org', owner_id: userResult[0].id },
+        { name: 'Other Org', slug: 'other-org', owner_id: userResult[0].id }
+      ])
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+    otherOrganizationId = orgResult[1].id;
+  });
+
+  it('should return an empty list when the organization has no endpoints', async () => {
+    expect(await getWebhookEndpoints(organizationId)).toEqual([]);
+  });
+
+  it('should return the organization endpoints, newest first, without secrets', async () => {
+    await db.insert(webhookEndpointsTable)
+      .values([
+        { organization_id: organizationId, url: 'https://a.example.com', secret: 'whsec_a', event_types: ['incident.created'], created_at: new Date('2024-01-01') },
+        { organization_id: organizationId, url: 'https://b.example.com', secret: 'whsec_b', event_types: ['incident.resolved'], created_at: new Date('2024-02-01') },
+        { organization_id: otherOrganizationId, url: 'https://c.example.com', secret: 'whsec_c', event_types: ['incident.created'] }
+      ])
+      .execute();
+
+    const result = await getWebhookEndpoints(organizationId);
+
+    expect(result.map(endpoint => endpoint.url)).toEqual(['https://b.example.com', 'https://a.example.com']);
+    expect(result[0].event_types).toEqual(['incident.resolved']);
+    result.forEach(endpoint => expect((endpoint as Record<string, unknown>)['secret']).toBeUndefined());
+  });
+});
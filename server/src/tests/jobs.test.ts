@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, subscribersTable, jobsTable } from '../db/schema';
+import { createIncident } from '../handlers/create_incident';
+import {
+  enqueueJob,
+  runDueJobs,
+  purgeFinishedJobs,
+  jobRetryDelayMs,
+  JOB_CLAIM_MS,
+  JOB_MAX_ATTEMPTS,
+  JOB_RETENTION_MS
+} from '../lib/jobs';
+import { jobHandlers, type JobHandlers, type JobPayloads } from '../lib/job_handlers';
+import { eq } from 'drizzle-orm';
+
+const smsPayload = (text: string): JobPayloads['sms.notify'] => ({
+  statusPageId: 1,
+  notification: { event: 'incident.created', incidentId: null, text }
+});
+
+describe('job queue', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ran: string[];
+  let handlers: JobHandlers;
+
+  beforeEach(() => {
+    ran = [];
+    handlers = {
+      ...jobHandlers,
+      'sms.notify': async ({ notification }) => {
+        if (notification.text.startsWith('fail')) {
+          throw new Error(`Could not send ${notification.text}`);
+        }
+        ran.push(notification.text);
+      }
+    };
+  });
+
+  const getJob = async (id: number) => {
+    const results = await db.select().from(jobsTable).where(eq(jobsTable.id, id)).execute();
+    return results[0];
+  };
+
+  it('should queue jobs as pending and due right away', async () => {
+    const job = await enqueueJob('sms.notify', smsPayload('hello'));
+
+    expect(job.status).toEqual('pending');
+    expect(job.payload).toEqual(smsPayload('hello'));
+    expect(job.organization_id).toBeNull();
+    expect(job.attempts).toEqual(0);
+    expect(job.max_attempts).toEqual(JOB_MAX_ATTEMPTS);
+    expect(job.run_at.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should queue work with the same idempotency key only once per job type', async () => {
+    const first = await enqueueJob('sms.notify', smsPayload('first'), { idempotencyKey: 'incident:1' });
+    const second = await enqueueJob('sms.notify', smsPayload('second'), { idempotencyKey: 'incident:1' });
+    const otherType = await enqueueJob('chat.notify', {
+      statusPageId: 1,
+      notification: { subject: null, headline: 'Test', title: 'Test', status: 'Test', tone: 'neutral', text: '', affectedComponentIds: [] }
+    }, { idempotencyKey: 'incident:1' });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.payload).toEqual(smsPayload('first'));
+    expect(otherType.id).not.toEqual(first.id);
+    expect(await db.select().from(jobsTable).execute()).toHaveLength(2);
+  });
+
+  it('should run due jobs oldest first and leave later ones for later', async () => {
+    await enqueueJob('sms.notify', smsPayload('later'), { runAt: new Date(Date.now() + 60_000) });
+    const second = await enqueueJob('sms.notify', smsPayload('second'), { runAt: new Date(Date.now() - 1_000) });
+    await enqueueJob('sms.notify', smsPayload('first'), { runAt: new Date(Date.now() - 2_000) });
+
+    expect(await runDueJobs(new Date(), handlers)).toEqual(2);
+    expect(ran).toEqual(['first', 'second']);
+
+    const job = await getJob(second.id);
+    expect(job.status).toEqual('succeeded');
+    expect(job.attempts).toEqual(1);
+    expect(job.locked_until).toBeNull();
+    expect(job.finished_at).toBeInstanceOf(Date);
+
+    expect(await runDueJobs(new Date(), handlers)).toEqual(0);
+    expect(await runDueJobs(new Date(Date.now() + 120_000), handlers)).toEqual(1);
+    expect(ran).toEqual(['first', 'second', 'later']);
+  });
+
+  it('should retry failed jobs with backoff and dead-letter them after the last attempt', async () => {
+    const queued = await enqueueJob('sms.notify', smsPayload('fail'), { maxAttempts: 3 });
+    let now = new Date();
+
+    await runDueJobs(now, handlers);
+    let job = await getJob(queued.id);
+    expect(job.status).toEqual('pending');
+    expect(job.attempts).toEqual(1);
+    expect(job.last_error).toEqual('Could not send fail');
+    expect(job.run_at.getTime()).toEqual(now.getTime() + jobRetryDelayMs(1));
+    expect(job.finished_at).toBeNull();
+
+    // Not due again until the delay has passed
+    expect(await runDueJobs(now, handlers)).toEqual(0);
+
+    now = new Date(job.run_at.getTime());
+    await runDueJobs(now, handlers);
+    job = await getJob(queued.id);
+    expect(job.status).toEqual('pending');
+    expect(job.run_at.getTime()).toEqual(now.getTime() + jobRetryDelayMs(2));
+
+    await runDueJobs(new Date(job.run_at.getTime()), handlers);
+    job = await getJob(queued.id);
+    expect(job.status).toEqual('dead');
+    expect(job.attempts).toEqual(3);
+    expect(job.finished_at).toBeInstanceOf(Date);
+
+    expect(await runDueJobs(new Date(Date.now() + 24 * 60 * 60 * 1000), handlers)).toEqual(0);
+  });
+
+  it('should back off exponentially', () => {
+    expect(jobRetryDelayMs(1)).toEqual(10_000);
+    expect(jobRetryDelayMs(2)).toEqual(20_000);
+    expect(jobRetryDelayMs(4)).toEqual(80_000);
+  });
+
+  it('should fail jobs of unknown types', async () => {
+    const inserted = await db.insert(jobsTable)
+      .values({ type: 'unknown.type', payload: {}, max_attempts: 1 })
+      .returning()
+      .execute();
+
+    await runDueJobs(new Date(), handlers);
+
+    const job = await getJob(inserted[0].id);
+    expect(job.status).toEqual('dead');
+    expect(job.last_error).toMatch(/no handler/i);
+  });
+
+  it('should not run a job claimed by another worker until the claim expires', async () => {
+    const queued = await enqueueJob('sms.notify', smsPayload('claimed'));
+    const lockedUntil = new Date(Date.now() + JOB_CLAIM_MS);
+    await db.update(jobsTable)
+      .set({ status: 'running', attempts: 1, locked_until: lockedUntil })
+      .where(eq(jobsTable.id, queued.id))
+      .execute();
+
+    expect(await runDueJobs(new Date(), handlers)).toEqual(0);
+
+    // The worker stopped without finishing, so the job is run again once its claim has expired
+    expect(await runDueJobs(new Date(lockedUntil.getTime() + 1_000), handlers)).toEqual(1);
+    expect(ran).toEqual(['claimed']);
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('succeeded');
+    expect(job.attempts).toEqual(2);
+  });
+
+  it('should never run the same job in two overlapping runs', async () => {
+    for (let i = 0; i < 5; i++) {
+      await enqueueJob('sms.notify', smsPayload(`job ${i}`));
+    }
+
+    const counts = await Promise.all([runDueJobs(new Date(), handlers), runDueJobs(new Date(), handlers)]);
+
+    expect(counts[0] + counts[1]).toEqual(5);
+    expect(ran.sort()).toEqual(['job 0', 'job 1', 'job 2', 'job 3', 'job 4']);
+  });
+
+  it('should dead-letter jobs whose worker kept stopping on the last attempt', async () => {
+    const queued = await enqueueJob('sms.notify', smsPayload('interrupted'), { maxAttempts: 2 });
+    await db.update(jobsTable)
+      .set({ status: 'running', attempts: 2, locked_until: new Date(Date.now() - 1_000) })
+      .where(eq(jobsTable.id, queued.id))
+      .execute();
+
+    await runDueJobs(new Date(), handlers);
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('dead');
+    expect(job.last_error).toMatch(/interrupted/i);
+    expect(ran).toHaveLength(0);
+  });
+
+  it('should not record the outcome of a job that was claimed again while it ran', async () => {
+    const queued = await enqueueJob('sms.notify', smsPayload('slow'));
+    handlers['sms.notify'] = async () => {
+      // Another worker picked the job up after the claim expired
+      await db.update(jobsTable)
+        .set({ attempts: 2, locked_until: new Date(Date.now() + JOB_CLAIM_MS) })
+        .where(eq(jobsTable.id, queued.id))
+        .execute();
+    };
+
+    expect(await runDueJobs(new Date(), handlers)).toEqual(1);
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('running');
+    expect(job.attempts).toEqual(2);
+    expect(job.finished_at).toBeNull();
+  });
+
+  it('should purge succeeded jobs after the retention period but keep dead ones', async () => {
+    const old = new Date(Date.now() - JOB_RETENTION_MS - 60_000);
+    await db.insert(jobsTable)
+      .values([
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'succeeded', finished_at: old },
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'succeeded', finished_at: new Date() },
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'dead', finished_at: old },
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'pending' }
+      ])
+      .execute();
+
+    expect(await purgeFinishedJobs()).toEqual(1);
+
+    const remaining = await db.select().from(jobsTable).execute();
+    expect(remaining.map(job => job.status).sort()).toEqual(['dead', 'pending', 'succeeded']);
+  });
+
+  it('should queue a job per recipient once, even when the fan-out is retried', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    const subscriberResult = await db.insert(subscribersTable)
+      .values([
+        { status_page_id: pageResult[0].id, email: 'one@example.com', confirmed_at: new Date() },
+        { status_page_id: pageResult[0].id, email: 'two@example.com', confirmed_at: new Date() },
+        { status_page_id: pageResult[0].id, email: 'pending@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const fanOut = await enqueueJob('subscribers.notify', {
+      statusPageId: pageResult[0].id,
+      notification: { subject: 'Test', lines: ['Hello'] },
+      affectedComponentIds: []
+    }, { organizationId: orgResult[0].id });
+    await jobHandlers['subscribers.notify'](fanOut.payload as JobPayloads['subscribers.notify'], fanOut);
+    await jobHandlers['subscribers.notify'](fanOut.payload as JobPayloads['subscribers.notify'], fanOut);
+
+    const emails = await db.select().from(jobsTable).where(eq(jobsTable.type, 'subscriber.email')).execute();
+    expect(emails.map(job => (job.payload as JobPayloads['subscriber.email']).subscriberId).sort()).toEqual([
+      subscriberResult[0].id,
+      subscriberResult[1].id
+    ].sort());
+    emails.forEach(job => expect(job.organization_id).toEqual(orgResult[0].id));
+  });
+
+  it('should queue incident notifications for the organization instead of sending them during the request', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+
+    const incident = await createIncident({
+      status_page_id: pageResult[0].id,
+      title: 'API errors',
+      description: 'Some requests fail',
+      status: 'investigating',
+      affected_component_ids: []
+    }, userResult[0].id);
+
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs.map(job => job.type).sort()).toEqual(['chat.notify', 'sms.notify', 'subscribers.notify']);
+    jobs.forEach(job => {
+      expect(job.status).toEqual('pending');
+      expect(job.organization_id).toEqual(orgResult[0].id);
+      expect(job.idempotency_key).toEqual(`incident:${incident.id}`);
+      expect(job.payload).toMatchObject({ statusPageId: pageResult[0].id });
+    });
+
+    // Nothing to notify, which the jobs find out when they run
+    expect(await runDueJobs()).toEqual(3);
+    const finished = await db.select().from(jobsTable).execute();
+    finished.forEach(job => expect(job.status).toEqual('succeeded'));
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, twoFactorCredentialsTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { login } from '../handlers/login';
+import { hashToken, SESSION_TTL_MS, TWO_FACTOR_CHALLENGE_TTL_MS } from '../lib/auth';
+import { generateTotpSecret } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+const testInput: LoginInput = {
+  email: 'test@example.com',
+  password: 'password123'
+};
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const password_hash = await Bun.password.hash('password123', {
+      algorithm: 'bcrypt',
+      cost: 4
+    });
+
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash,
+        first_name: 'Test',
+        last_name: 'User',
+        role: 'member'
+      })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should return the user and a session token for valid credentials', async () => {
+    const result = await login(testInput);
+
+    expect(result.user.id).toEqual(userId);
+    expect(result.user.email).toEqual('test@example.com');
+    expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(result.two_factor_required).toBe(false);
+  });
+
+  it('should persist only the hashed session token', async () => {
+    const result = await login(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+    expect(sessions[0].expires_at.getTime()).toEqual(result.expires_at.getTime());
+  });
+
+  it('should create a separate session for each login', async () => {
+    const first = await login(testInput);
+    const second = await login(testInput);
+
+    expect(first.token).not.toEqual(second.token);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(login({ ...testInput, password: 'wrong-password' }))
+      .rejects.toThrow(/invalid email or password/i);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should reject an unknown email', async () => {
+    await expect(login({ ...testInput, email: 'nobody@example.com' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject deactivated accounts without creating a session', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(login(testInput)).rejects.toThrow(/deactivated/i);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should not reveal deactivation to a wrong password', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(login({ ...testInput, password: 'wrong-password' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should issue a short-lived pending session when 2FA is enabled', async () => {
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret: generateTotpSecret(), enabled_at: new Date() })
+      .execute();
+
+    const result = await login(testInput);
+
+    expect(result.two_factor_required).toBe(true);
+    expect(result.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS);
+    expect(result.expires_at.getTime()).toBeLessThan(Date.now() + SESSION_TTL_MS);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(result.token)))
+      .execute();
+
+    expect(sessions[0].two_factor_pending).toBe(true);
+  });
+
+  it('should ignore an enrollment that was never confirmed', async () => {
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret: generateTotpSecret() })
+      .execute();
+
+    const result = await login(testInput);
+
+    expect(result.two_factor_required).toBe(false);
+  });
+});
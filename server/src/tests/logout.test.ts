@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: 'hashed_password',
+        first_name: 'Test',
+        last_name: 'User'
+      })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    await db.insert(sessionsTable)
+      .values([
+        { user_id: userId, token_hash: hashToken('token-one'), expires_at: new Date(Date.now() + 60_000) },
+        { user_id: userId, token_hash: hashToken('token-two'), expires_at: new Date(Date.now() + 60_000) }
+      ])
+      .execute();
+  });
+
+  it('should delete the session for the given token', async () => {
+    const result = await logout('token-one');
+
+    expect(result).toBe(true);
+
+    const remaining = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].token_hash).toEqual(hashToken('token-two'));
+  });
+
+  it('should return false for an unknown token', async () => {
+    const result = await logout('unknown-token');
+
+    expect(result).toBe(false);
+
+    const remaining = await db.select().from(sessionsTable).execute();
+    expect(remaining).toHaveLength(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { isPrivateAddress, postToPublicUrl, getPublicUrl } from '../lib/outbound_requests';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private, link-local and reserved addresses', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const ip of ['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  it('should treat anything that is not an address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('postToPublicUrl', () => {
+  const request = { headers: {}, body: '{}', timeoutMs: 1_000 };
+
+  it('should refuse private addresses, whether given directly or by name', async () => {
+    await expect(postToPublicUrl('http://169.254.169.254/latest/meta-data', request)).rejects.toThrow(/169\.254\.169\.254 is not a public address/);
+    await expect(postToPublicUrl('http://[::1]:8080/', request)).rejects.toThrow(/::1 is not a public address/);
+    await expect(postToPublicUrl('http://localhost/', request)).rejects.toThrow(/localhost resolves to .*not a public address/);
+  });
+
+  it('should only post over http and https', async () => {
+    await expect(postToPublicUrl('ftp://example.com/', request)).rejects.toThrow(/unsupported protocol/i);
+  });
+});
+
+describe('getPublicUrl', () => {
+  const request = { headers: { Accept: 'application/json' }, timeoutMs: 1_000 };
+
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  it('should refuse private addresses like posts do', async () => {
+    await expect(getPublicUrl('http://169.254.169.254/latest/meta-data', request)).rejects.toThrow(/169\.254\.169\.254 is not a public address/);
+    await expect(getPublicUrl('http://localhost:5432/', request)).rejects.toThrow(/localhost resolves to .*not a public address/);
+  });
+
+  it('should send a GET without a body to allowed hosts', async () => {
+    receiver.responseBody = '{"issuer":"x"}';
+
+    const response = await getPublicUrl(`${receiver.url}/.well-known/openid-configuration`, request);
+
+    expect(await response.json()).toEqual({ issuer: 'x' });
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].method).toEqual('GET');
+    expect(receiver.requests[0].path).toEqual('/.well-known/openid-configuration');
+    expect(receiver.requests[0].body).toEqual('');
+  });
+});
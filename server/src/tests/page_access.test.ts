@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { type IncomingMessage } from 'http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, statusPageSessionsTable } from '../db/schema';
+import {
+  clientAddress,
+  findViewableStatusPage,
+  isIpAllowed,
+  normalizeIpAllowlist,
+  type PageViewer
+} from '../lib/page_access';
+import { hashToken, pageSessionCookieName } from '../lib/auth';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const requestFrom = (remoteAddress: string, headers: Record<string, string> = {}): IncomingMessage => {
+  return { socket: { remoteAddress }, headers } as unknown as IncomingMessage;
+};
+
+describe('page access', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  const stranger: PageViewer = { ip: '198.51.100.7', cookies: {}, userId: null };
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({
+        organization_id: orgResult[0].id,
+        name: 'Internal',
+        slug: 'acme-internal',
+        is_public: false,
+        access_ip_allowlist: ['10.0.0.0/8', '2001:db8::/32', '203.0.113.9']
+      })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should match addresses and CIDR ranges, including IPv4-mapped addresses', () => {
+    const allowlist = ['10.0.0.0/8', '2001:db8::/32', '203.0.113.9'];
+
+    expect(isIpAllowed('10.20.30.40', allowlist)).toBe(true);
+    expect(isIpAllowed('::ffff:10.20.30.40', allowlist)).toBe(true);
+    expect(isIpAllowed('2001:db8::1', allowlist)).toBe(true);
+    expect(isIpAllowed('203.0.113.9', allowlist)).toBe(true);
+    expect(isIpAllowed('203.0.113.10', allowlist)).toBe(false);
+    expect(isIpAllowed('11.0.0.1', allowlist)).toBe(false);
+    expect(isIpAllowed(null, allowlist)).toBe(false);
+    expect(isIpAllowed('10.0.0.1', [])).toBe(false);
+  });
+
+  it('should normalize the allowlist and reject invalid entries', () => {
+    expect(normalizeIpAllowlist([' 10.0.0.0/8 ', '2001:DB8::/32', '10.0.0.0/8'])).toEqual(['10.0.0.0/8', '2001:db8::/32']);
+
+    expect(() => normalizeIpAllowlist(['10.0.0.0/33'])).toThrow(/not a valid IP address/i);
+    expect(() => normalizeIpAllowlist(['intranet.acme.test'])).toThrow(/not a valid IP address/i);
+    expect(() => normalizeIpAllowlist(['10.0.0.0/8/1'])).toThrow(/not a valid IP address/i);
+  });
+
+  it('should only believe X-Real-IP from the local proxy', () => {
+    expect(clientAddress(requestFrom('127.0.0.1', { 'x-real-ip': '10.1.2.3' }))).toEqual('10.1.2.3');
+    expect(clientAddress(requestFrom('198.51.100.7', { 'x-real-ip': '10.1.2.3' }))).toEqual('198.51.100.7');
+    expect(clientAddress(requestFrom('127.0.0.1', { 'x-real-ip': 'not-an-ip' }))).toEqual('127.0.0.1');
+  });
+
+  it('should open private pages by address', async () => {
+    const { page } = await findViewableStatusPage('acme-internal', { ...stranger, ip: '10.9.8.7' });
+    expect(page.id).toEqual(statusPageId);
+
+    await expect(findViewableStatusPage('acme-internal', stranger)).rejects.toThrow(/private/i);
+  });
+
+  it('should open private pages with an unexpired session for that page', async () => {
+    await db.insert(statusPageSessionsTable)
+      .values([
+        { status_page_id: statusPageId, token_hash: hashToken('valid-token'), expires_at: new Date(Date.now() + HOUR_MS) },
+        { status_page_id: statusPageId, token_hash: hashToken('expired-token'), expires_at: new Date(Date.now() - HOUR_MS) }
+      ])
+      .execute();
+
+    const cookieName = pageSessionCookieName(statusPageId);
+    const { page } = await findViewableStatusPage('acme-internal', { ...stranger, cookies: { [cookieName]: 'valid-token' } });
+    expect(page.id).toEqual(statusPageId);
+
+    await expect(findViewableStatusPage('acme-internal', { ...stranger, cookies: { [cookieName]: 'expired-token' } }))
+      .rejects.toThrow(/private/i);
+    // A session is only honoured under the cookie of the page it was issued for
+    await expect(findViewableStatusPage('acme-internal', { ...stranger, cookies: { [pageSessionCookieName(statusPageId + 1)]: 'valid-token' } }))
+      .rejects.toThrow(/private/i);
+  });
+
+  it('should treat private pages as unknown when there is no viewer', async () => {
+    await expect(findViewableStatusPage('acme-internal', null)).rejects.toThrow(/not found/i);
+    await expect(findViewableStatusPage('nope', stranger)).rejects.toThrow(/not found/i);
+  });
+});
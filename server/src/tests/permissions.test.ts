@@ -0,0 +1,350 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  organizationMembersTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  maintenanceWindowsTable,
+  webhookEndpointsTable,
+  webhookDeliveriesTable,
+  chatIntegrationsTable,
+  smsSubscribersTable,
+  jobsTable,
+  twoFactorCredentialsTable
+} from '../db/schema';
+import { authorize, authorizeUserAdministration, getMemberRole, hasPermission, resolveTargetScope, type Actor } from '../lib/permissions';
+import { type ApiKeyPrincipal } from '../schema';
+import { generateTotpSecret } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (email: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      password_hash: 'hashed_password',
+      first_name: 'Test',
+      last_name: 'User'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const userActor = (userId: number): Actor => ({ userId, apiKey: null });
+
+describe('permissions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: any;
+  let admin: any;
+  let member: any;
+  let viewer: any;
+  let outsider: any;
+  let organization: any;
+  let statusPage: any;
+  let component: any;
+  let incident: any;
+  let maintenanceWindow: any;
+
+  beforeEach(async () => {
+    owner = await createUser('owner@example.com');
+    admin = await createUser('admin@example.com');
+    member = await createUser('member@example.com');
+    viewer = await createUser('viewer@example.com');
+    outsider = await createUser('outsider@example.com');
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', plan_type: 'pro', owner_id: owner.id })
+      .returning()
+      .execute();
+    organization = orgResult[0];
+
+    await db.insert(organizationMembersTable)
+      .values([
+        { organization_id: organization.id, user_id: admin.id, role: 'admin' },
+        { organization_id: organization.id, user_id: member.id, role: 'member' },
+        { organization_id: organization.id, user_id: viewer.id, role: 'viewer' }
+      ])
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organization.id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPage = pageResult[0];
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: statusPage.id, name: 'API' })
+      .returning()
+      .execute();
+    component = componentResult[0];
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: statusPage.id, title: 'Outage', description: 'Down', created_by: owner.id })
+      .returning()
+      .execute();
+    incident = incidentResult[0];
+
+    const maintenanceResult = await db.insert(maintenanceWindowsTable)
+      .values({
+        status_page_id: statusPage.id,
+        title: 'Upgrade',
+        description: 'Database upgrade',
+        scheduled_start: new Date('2024-01-01T00:00:00Z'),
+        scheduled_end: new Date('2024-01-01T02:00:00Z'),
+        created_by: owner.id
+      })
+      .returning()
+      .execute();
+    maintenanceWindow = maintenanceResult[0];
+  });
+
+  it('should grant permissions according to the role matrix', () => {
+    expect(hasPermission('viewer', 'organization:read')).toBe(true);
+    expect(hasPermission('viewer', 'incident:manage')).toBe(false);
+
+    expect(hasPermission('member', 'incident:manage')).toBe(true);
+    expect(hasPermission('member', 'maintenance:manage')).toBe(true);
+    expect(hasPermission('member', 'component:manage')).toBe(false);
+
+    expect(hasPermission('admin', 'status_page:manage')).toBe(true);
+    expect(hasPermission('admin', 'component:manage')).toBe(true);
+    expect(hasPermission('admin', 'api_key:manage')).toBe(true);
+    expect(hasPermission('member', 'api_key:manage')).toBe(false);
+    expect(hasPermission('admin', 'audit_log:read')).toBe(true);
+    expect(hasPermission('member', 'audit_log:read')).toBe(false);
+    expect(hasPermission('admin', 'webhook:manage')).toBe(true);
+    expect(hasPermission('member', 'webhook:manage')).toBe(false);
+    expect(hasPermission('admin', 'job:manage')).toBe(true);
+    expect(hasPermission('member', 'job:manage')).toBe(false);
+    expect(hasPermission('admin', 'member:manage')).toBe(false);
+    expect(hasPermission('admin', 'billing:manage')).toBe(false);
+
+    expect(hasPermission('owner', 'member:manage')).toBe(true);
+    expect(hasPermission('owner', 'billing:manage')).toBe(true);
+  });
+
+  it('should resolve the owning organization and status page for every target type', async () => {
+    expect(await resolveTargetScope({ organizationId: organization.id }))
+      .toEqual({ organizationId: organization.id, statusPageId: null });
+    expect(await resolveTargetScope({ statusPageId: statusPage.id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ componentId: component.id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ incidentId: incident.id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ maintenanceWindowId: maintenanceWindow.id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ componentId: 99999 })).toBeNull();
+  });
+
+  it('should resolve chat integrations to their status page', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPage.id, provider: 'teams', name: 'Operations', webhook_url: 'https://example.com/teams' })
+      .returning()
+      .execute();
+
+    expect(await resolveTargetScope({ chatIntegrationId: integrationResult[0].id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ chatIntegrationId: 99999 })).toBeNull();
+  });
+
+  it('should resolve SMS subscribers to their status page', async () => {
+    const subscriberResult = await db.insert(smsSubscribersTable)
+      .values({ status_page_id: statusPage.id, phone_number: '+14155550123' })
+      .returning()
+      .execute();
+
+    expect(await resolveTargetScope({ smsSubscriberId: subscriberResult[0].id }))
+      .toEqual({ organizationId: organization.id, statusPageId: statusPage.id });
+    expect(await resolveTargetScope({ smsSubscriberId: 99999 })).toBeNull();
+  });
+
+  it('should resolve webhook endpoints and their deliveries to the organization', async () => {
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: organization.id, url: 'https://hooks.example.com', secret: 'whsec_a', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    const deliveryResult = await db.insert(webhookDeliveriesTable)
+      .values({ webhook_endpoint_id: endpointResult[0].id, event_id: 'evt_1', event_type: 'incident.created', payload: {} })
+      .returning()
+      .execute();
+
+    expect(await resolveTargetScope({ webhookEndpointId: endpointResult[0].id }))
+      .toEqual({ organizationId: organization.id, statusPageId: null });
+    expect(await resolveTargetScope({ webhookDeliveryId: deliveryResult[0].id }))
+      .toEqual({ organizationId: organization.id, statusPageId: null });
+    expect(await resolveTargetScope({ webhookDeliveryId: 99999 })).toBeNull();
+  });
+
+  it('should resolve jobs to their organization, and jobs of no organization to nothing', async () => {
+    const jobResult = await db.insert(jobsTable)
+      .values([
+        { type: 'chat.notify', payload: {}, organization_id: organization.id, max_attempts: 5 },
+        { type: 'chat.notify', payload: {}, max_attempts: 5 }
+      ])
+      .returning()
+      .execute();
+
+    expect(await resolveTargetScope({ jobId: jobResult[0].id }))
+      .toEqual({ organizationId: organization.id, statusPageId: null });
+    expect(await resolveTargetScope({ jobId: jobResult[1].id })).toBeNull();
+    expect(await resolveTargetScope({ jobId: 99999 })).toBeNull();
+  });
+
+  it('should resolve member roles, treating the organization owner as owner', async () => {
+    expect(await getMemberRole(owner.id, organization.id)).toEqual('owner');
+    expect(await getMemberRole(admin.id, organization.id)).toEqual('admin');
+    expect(await getMemberRole(viewer.id, organization.id)).toEqual('viewer');
+    expect(await getMemberRole(outsider.id, organization.id)).toBeNull();
+  });
+
+  it('should authorize callers whose role grants the permission', async () => {
+    const result = await authorize(userActor(member.id), 'incident:manage', { incidentId: incident.id });
+
+    expect(result.organizationId).toEqual(organization.id);
+    expect(result.role).toEqual('member');
+
+    await authorize(userActor(admin.id), 'component:manage', { componentId: component.id });
+    await authorize(userActor(owner.id), 'member:manage', { organizationId: organization.id });
+  });
+
+  it('should reject insufficient roles with FORBIDDEN', async () => {
+    await expect(authorize(userActor(viewer.id), 'incident:manage', { statusPageId: statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(authorize(userActor(member.id), 'status_page:manage', { statusPageId: statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(authorize(userActor(admin.id), 'member:manage', { organizationId: organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(authorize(userActor(admin.id), 'billing:manage', { organizationId: organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject users outside the organization with FORBIDDEN', async () => {
+    await expect(authorize(userActor(outsider.id), 'organization:read', { maintenanceWindowId: maintenanceWindow.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject unknown targets with NOT_FOUND', async () => {
+    await expect(authorize(userActor(owner.id), 'status_page:manage', { statusPageId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should block changes by members without 2FA when the organization requires it', async () => {
+    await db.update(organizationsTable)
+      .set({ require_two_factor: true })
+      .where(eq(organizationsTable.id, organization.id))
+      .execute();
+
+    await expect(authorize(userActor(member.id), 'incident:manage', { incidentId: incident.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN', message: expect.stringMatching(/two-factor/i) });
+
+    // Reads stay available so members can still find their way to enrollment
+    await authorize(userActor(member.id), 'organization:read', { incidentId: incident.id });
+
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: member.id, secret: generateTotpSecret(), enabled_at: new Date() })
+      .execute();
+
+    await authorize(userActor(member.id), 'incident:manage', { incidentId: incident.id });
+  });
+
+  it('should not count an unconfirmed enrollment towards the 2FA requirement', async () => {
+    await db.update(organizationsTable)
+      .set({ require_two_factor: true })
+      .where(eq(organizationsTable.id, organization.id))
+      .execute();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: admin.id, secret: generateTotpSecret() })
+      .execute();
+
+    await expect(authorize(userActor(admin.id), 'component:manage', { componentId: component.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should allow account administration only over users wholly within the actor\'s organizations', async () => {
+    await expect(authorizeUserAdministration(userActor(owner.id), member.id)).resolves.toBeUndefined();
+    await expect(authorizeUserAdministration(userActor(admin.id), member.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Once the member also belongs to an organization the owner does not control, the owner loses that power
+    const otherOrgResult = await db.insert(organizationsTable)
+      .values({ name: 'Other Org', slug: 'other-org', owner_id: outsider.id })
+      .returning()
+      .execute();
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: otherOrgResult[0].id, user_id: member.id, role: 'viewer' })
+      .execute();
+
+    await expect(authorizeUserAdministration(userActor(owner.id), member.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should treat users without any organization as not found for account administration', async () => {
+    const loner = await createUser('loner@example.com');
+
+    await expect(authorizeUserAdministration(userActor(owner.id), loner.id)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  describe('API key actors', () => {
+    const keyActor = (apiKey: Partial<ApiKeyPrincipal>, userId: number = admin.id): Actor => ({
+      userId,
+      apiKey: {
+        id: 1,
+        organization_id: organization.id,
+        scopes: ['read'],
+        status_page_ids: [],
+        created_by: userId,
+        ...apiKey
+      }
+    });
+
+    it('should allow actions covered by the key scopes', async () => {
+      await authorize(keyActor({ scopes: ['read'] }), 'organization:read', { statusPageId: statusPage.id });
+      await authorize(keyActor({ scopes: ['incidents:write'] }), 'incident:manage', { incidentId: incident.id });
+      await authorize(keyActor({ scopes: ['components:write'] }), 'component:manage', { componentId: component.id });
+    });
+
+    it('should reject actions outside the key scopes', async () => {
+      await expect(authorize(keyActor({ scopes: ['read'] }), 'incident:manage', { statusPageId: statusPage.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(authorize(keyActor({ scopes: ['read', 'incidents:write', 'components:write'] }), 'status_page:manage', { statusPageId: statusPage.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(authorize(keyActor({ scopes: ['read'] }, owner.id), 'api_key:manage', { organizationId: organization.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should reject keys from another organization', async () => {
+      await expect(authorize(keyActor({ organization_id: organization.id + 1 }), 'organization:read', { statusPageId: statusPage.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should honour status page restrictions', async () => {
+      const restricted = keyActor({ scopes: ['read'], status_page_ids: [statusPage.id] });
+      await authorize(restricted, 'organization:read', { componentId: component.id });
+
+      const elsewhere = keyActor({ scopes: ['read'], status_page_ids: [statusPage.id + 1] });
+      await expect(authorize(elsewhere, 'organization:read', { componentId: component.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+      // Organization-wide targets are out of reach for page-restricted keys
+      await expect(authorize(restricted, 'organization:read', { organizationId: organization.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should hold keys to the 2FA enrollment of their creator', async () => {
+      await db.update(organizationsTable)
+        .set({ require_two_factor: true })
+        .where(eq(organizationsTable.id, organization.id))
+        .execute();
+
+      await expect(authorize(keyActor({ scopes: ['incidents:write'] }), 'incident:manage', { incidentId: incident.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await authorize(keyActor({ scopes: ['read'] }), 'organization:read', { incidentId: incident.id });
+    });
+
+    it('should never exceed the role of the key creator', async () => {
+      await expect(authorize(keyActor({ scopes: ['components:write'] }, member.id), 'component:manage', { componentId: component.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(authorize(keyActor({ scopes: ['read'] }, outsider.id), 'organization:read', { statusPageId: statusPage.id }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+});
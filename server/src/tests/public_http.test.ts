@@ -0,0 +1,245 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { connect, type AddressInfo } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable, subscribersTable } from '../db/schema';
+import { handlePublicHttpRequest } from '../lib/public_http';
+import { createServer as createAppServer } from '../index';
+import { unsubscribeUrls } from '../lib/subscribers';
+import { type StatuspageDocument } from '../lib/statuspage_v2';
+
+describe('handlePublicHttpRequest', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // Requests that no public route takes fall through, like they would to tRPC
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      handlePublicHttpRequest(req, res).then((handled) => {
+        if (!handled) {
+          res.writeHead(418);
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'plus', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({
+        organization_id: orgResult[0].id,
+        name: 'Acme Status',
+        slug: 'acme-status',
+        custom_domain: 'status.acme.test',
+        custom_domain_verified_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    await db.insert(componentsTable)
+      .values({ status_page_id: pageResult[0].id, name: 'API', status: 'major_outage' })
+      .execute();
+  });
+
+  it('should serve Statuspage v2 JSON by slug', async () => {
+    const response = await fetch(`${baseUrl}/s/acme-status/v2/summary.json`);
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toContain('application/json');
+    expect(response.headers.get('cache-control')).toContain('public');
+    const body = await response.json() as StatuspageDocument;
+    expect(body.status).toEqual({ indicator: 'critical', description: 'Major System Outage' });
+    expect(body.components?.[0].status).toEqual('major_outage');
+  });
+
+  it('should serve Statuspage v2 JSON on a verified custom domain', async () => {
+    const response = await fetch(`${baseUrl}/v2/status.json`, { headers: { Host: 'status.acme.test' } });
+
+    expect(response.status).toEqual(200);
+    expect((await response.json() as StatuspageDocument).page.url).toEqual('https://status.acme.test');
+  });
+
+  it('should serve feeds with validators and answer conditional requests with 304', async () => {
+    const response = await fetch(`${baseUrl}/s/acme-status/history.atom`);
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toContain('application/atom+xml');
+    const etag = response.headers.get('etag')!;
+    const lastModified = response.headers.get('last-modified')!;
+    expect(etag).toMatch(/^"[0-9a-f]+"$/);
+    expect(await response.text()).toContain('<feed');
+
+    expect((await fetch(`${baseUrl}/s/acme-status/history.atom`, { headers: { 'If-None-Match': etag } })).status).toEqual(304);
+    expect((await fetch(`${baseUrl}/s/acme-status/history.atom`, { headers: { 'If-Modified-Since': lastModified } })).status).toEqual(304);
+
+    // Each format and component filter is its own representation
+    const rss = await fetch(`${baseUrl}/s/acme-status/history.rss`, { headers: { 'If-None-Match': etag } });
+    expect(rss.status).toEqual(200);
+    expect(rss.headers.get('content-type')).toContain('application/rss+xml');
+    const filtered = await fetch(`${baseUrl}/s/acme-status/history.atom?component=1`, { headers: { 'If-None-Match': etag } });
+    expect(filtered.status).toEqual(200);
+
+    // Any change to the page invalidates the cached copy
+    await db.update(statusPagesTable).set({ updated_at: new Date(Date.now() + 5000) }).execute();
+    expect((await fetch(`${baseUrl}/s/acme-status/history.atom`, { headers: { 'If-None-Match': etag } })).status).toEqual(200);
+  });
+
+  it('should serve the maintenance calendar', async () => {
+    const response = await fetch(`${baseUrl}/s/acme-status/maintenance.ics`);
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toContain('text/calendar');
+    expect(await response.text()).toContain('BEGIN:VCALENDAR');
+
+    const etag = response.headers.get('etag')!;
+    expect((await fetch(`${baseUrl}/s/acme-status/maintenance.ics`, { headers: { 'If-None-Match': etag } })).status).toEqual(304);
+  });
+
+  it('should serve badges and the embed script to third-party sites', async () => {
+    const components = await db.select().from(componentsTable).execute();
+
+    const badge = await fetch(`${baseUrl}/s/acme-status/badge.svg`);
+    expect(badge.status).toEqual(200);
+    expect(badge.headers.get('content-type')).toContain('image/svg+xml');
+    expect(badge.headers.get('access-control-allow-origin')).toEqual('*');
+    expect(badge.headers.get('cross-origin-resource-policy')).toEqual('cross-origin');
+    expect(badge.headers.get('cache-control')).toContain('max-age=60');
+    expect(await badge.text()).toContain('major outage');
+    expect((await fetch(`${baseUrl}/s/acme-status/badge.svg`, { headers: { 'If-None-Match': badge.headers.get('etag')! } })).status).toEqual(304);
+
+    const componentBadge = await fetch(`${baseUrl}/s/acme-status/components/${components[0].id}/badge.svg`);
+    expect(componentBadge.status).toEqual(200);
+    expect(await componentBadge.text()).toContain('>API<');
+    expect((await fetch(`${baseUrl}/s/acme-status/components/999999/badge.svg`)).status).toEqual(404);
+
+    const script = await fetch(`${baseUrl}/s/acme-status/embed.js`);
+    expect(script.status).toEqual(200);
+    expect(script.headers.get('content-type')).toContain('application/javascript');
+    expect(script.headers.get('access-control-allow-origin')).toEqual('*');
+  });
+
+  it('should serve private pages only to allowed viewers, without shared caching', async () => {
+    await db.update(statusPagesTable).set({ is_public: false, access_ip_allowlist: ['10.0.0.0/8'] }).execute();
+
+    const denied = await fetch(`${baseUrl}/s/acme-status/v2/summary.json`, { headers: { 'X-Real-IP': '192.0.2.1' } });
+    expect(denied.status).toEqual(403);
+    expect(denied.headers.get('cache-control')).toEqual('private, no-cache');
+
+    const allowed = await fetch(`${baseUrl}/s/acme-status/v2/summary.json`, { headers: { 'X-Real-IP': '10.1.2.3' } });
+    expect(allowed.status).toEqual(200);
+    expect(allowed.headers.get('cache-control')).toEqual('private, no-cache');
+
+    const badge = await fetch(`${baseUrl}/s/acme-status/badge.svg`, { headers: { 'X-Real-IP': '10.1.2.3' } });
+    expect(badge.status).toEqual(200);
+    expect(badge.headers.get('cache-control')).toEqual('private, no-cache');
+    expect(badge.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should answer 404 for unknown pages and endpoints', async () => {
+    expect((await fetch(`${baseUrl}/s/nope/v2/summary.json`)).status).toEqual(404);
+    expect((await fetch(`${baseUrl}/s/acme-status/v2/everything.json`)).status).toEqual(404);
+  });
+
+  it('should unsubscribe with a one-click POST to the List-Unsubscribe URL', async () => {
+    const pages = await db.select().from(statusPagesTable).execute();
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: pages[0].id, email: 'reader@example.com', confirmed_at: new Date() })
+      .returning()
+      .execute();
+
+    const token = new URL(unsubscribeUrls(subscriberResult[0].id).oneClick).searchParams.get('token')!;
+    const response = await fetch(`${baseUrl}/one-click-unsubscribe?token=${token}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'List-Unsubscribe=One-Click'
+    });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('cache-control')).toEqual('no-store');
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(0);
+
+    const invalid = await fetch(`${baseUrl}/one-click-unsubscribe?token=nope`, { method: 'POST' });
+    expect(invalid.status).toEqual(400);
+
+    // Only POST unsubscribes, so link scanners fetching the URL change nothing
+    expect((await fetch(`${baseUrl}/one-click-unsubscribe?token=${token}`)).status).toEqual(418);
+  });
+
+  it('should leave other requests alone', async () => {
+    expect((await fetch(`${baseUrl}/v2/summary.json`)).status).toEqual(418);
+    expect((await fetch(`${baseUrl}/getPublicStatusPage?input=%7B%7D`)).status).toEqual(418);
+    expect((await fetch(`${baseUrl}/s/acme-status/v2/summary.json`, { method: 'POST' })).status).toEqual(418);
+  });
+  it('should answer request targets that are not valid URLs with 400', async () => {
+    const response = await new Promise<string>((resolve, reject) => {
+      const socket = connect((server.address() as AddressInfo).port, '127.0.0.1', () => {
+        socket.write('GET //[ HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n');
+      });
+      let data = '';
+      socket.on('data', (chunk) => { data += chunk; });
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+
+    expect(response).toStartWith('HTTP/1.1 400');
+  });
+
+  describe('in the application server', () => {
+    let appServer: Server;
+    let appUrl: string;
+
+    beforeAll(async () => {
+      appServer = createAppServer();
+      await new Promise<void>((resolve) => appServer.listen(0, '127.0.0.1', resolve));
+      appUrl = `http://127.0.0.1:${(appServer.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => appServer.close(() => resolve()));
+    });
+
+    it('should not let other sites read private pages', async () => {
+      await db.update(statusPagesTable).set({ is_public: false, access_ip_allowlist: ['10.0.0.0/8'] }).execute();
+      const headers = { 'X-Real-IP': '10.1.2.3', 'Origin': 'https://evil.example' };
+
+      for (const path of ['v2/summary.json', 'history.atom', 'maintenance.ics', 'badge.svg', 'embed.js']) {
+        const response = await fetch(`${appUrl}/s/acme-status/${path}`, { headers });
+        expect(response.status).toEqual(200);
+        expect(response.headers.get('access-control-allow-origin')).toBeNull();
+      }
+    });
+
+    it('should allow other origins on tRPC and the embeddable routes of public pages only', async () => {
+      const preflight = await fetch(`${appUrl}/getPublicStatusPage`, {
+        method: 'OPTIONS',
+        headers: { 'Origin': 'https://app.example', 'Access-Control-Request-Method': 'GET' }
+      });
+      expect(preflight.headers.get('access-control-allow-origin')).toEqual('*');
+
+      const badge = await fetch(`${appUrl}/s/acme-status/badge.svg`, { headers: { 'Origin': 'https://blog.example' } });
+      expect(badge.headers.get('access-control-allow-origin')).toEqual('*');
+
+      const summary = await fetch(`${appUrl}/s/acme-status/v2/summary.json`, { headers: { 'Origin': 'https://blog.example' } });
+      expect(summary.status).toEqual(200);
+      expect(summary.headers.get('access-control-allow-origin')).toBeNull();
+    });
+  });
+});
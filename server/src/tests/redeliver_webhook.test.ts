@@ -0,0 +1,108 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, webhookDeliveriesTable } from '../db/schema';
+import { redeliverWebhook } from '../handlers/redeliver_webhook';
+import { deliverDueWebhooks } from '../lib/webhooks';
+import { eq } from 'drizzle-orm';
+
+describe('redeliverWebhook', () => {
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let endpointId: number;
+  let deliveryId: number;
+
+  beforeEach(async () => {
+    receiver.requests.length = 0;
+    receiver.responseStatus = 200;
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: orgResult[0].id, url: receiver.url, secret: 'whsec_a', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+
+    const deliveryResult = await db.insert(webhookDeliveriesTable)
+      .values({
+        webhook_endpoint_id: endpointId,
+        event_id: 'evt_1',
+        event_type: 'incident.created',
+        payload: { id: 'evt_1', type: 'incident.created', data: { incident: { id: 1 } } },
+        status: 'failed',
+        attempts: 10,
+        response_status: 500
+      })
+      .returning()
+      .execute();
+    deliveryId = deliveryResult[0].id;
+  });
+
+  it('should send the same event again as a new delivery', async () => {
+    const result = await redeliverWebhook(deliveryId);
+
+    expect(result.id).not.toEqual(deliveryId);
+    expect(result.event_id).toEqual('evt_1');
+    expect(result.status).toEqual('succeeded');
+    expect(result.attempts).toEqual(1);
+    expect(result.response_status).toEqual(200);
+
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].headers['x-edgestatus-event-id']).toEqual('evt_1');
+    expect(JSON.parse(receiver.requests[0].body)).toEqual({ id: 'evt_1', type: 'incident.created', data: { incident: { id: 1 } } });
+
+    // The original stays in the log as it was
+    const originals = await db.select()
+      .from(webhookDeliveriesTable)
+      .where(eq(webhookDeliveriesTable.id, deliveryId))
+      .execute();
+    expect(originals[0].status).toEqual('failed');
+  });
+
+  it('should retry a failed redelivery like any other delivery', async () => {
+    receiver.responseStatus = 502;
+
+    const result = await redeliverWebhook(deliveryId);
+
+    expect(result.status).toEqual('pending');
+    expect(result.next_attempt_at).toBeInstanceOf(Date);
+
+    // Only due once its backoff has passed
+    expect(await deliverDueWebhooks()).toEqual(0);
+    expect(await deliverDueWebhooks(new Date(result.next_attempt_at!.getTime() + 1))).toEqual(1);
+  });
+
+  it('should refuse to redeliver to a disabled endpoint', async () => {
+    await db.update(webhookEndpointsTable)
+      .set({ is_active: false })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    await expect(redeliverWebhook(deliveryId)).rejects.toThrow(/webhook endpoint is disabled/i);
+  });
+
+  it('should throw error for non-existent delivery', async () => {
+    await expect(redeliverWebhook(99999)).rejects.toThrow(/webhook delivery with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable, recoveryCodesTable } from '../db/schema';
+import { regenerateRecoveryCodes } from '../handlers/regenerate_recovery_codes';
+import { replaceRecoveryCodes, verifySecondFactor } from '../lib/two_factor';
+import { generateTotpCode, generateTotpSecret, totpStep } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+describe('regenerateRecoveryCodes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let secret: string;
+  let originalCodes: string[];
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    secret = generateTotpSecret();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+    originalCodes = await replaceRecoveryCodes(userId);
+  });
+
+  it('should issue a fresh set of codes and invalidate the old ones', async () => {
+    const result = await regenerateRecoveryCodes({ code: generateTotpCode(secret) }, userId);
+
+    expect(result.recovery_codes).toHaveLength(10);
+    expect(result.recovery_codes).not.toContain(originalCodes[0]);
+
+    const stored = await db.select()
+      .from(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+    expect(stored).toHaveLength(10);
+
+    expect(await verifySecondFactor(userId, originalCodes[0])).toBe(false);
+    expect(await verifySecondFactor(userId, result.recovery_codes[0])).toBe(true);
+  });
+
+  it('should reject a wrong code', async () => {
+    await expect(regenerateRecoveryCodes({ code: generateTotpCode(secret, totpStep() + 5) }, userId))
+      .rejects.toThrow(/invalid authentication code/i);
+
+    expect(await verifySecondFactor(userId, originalCodes[0])).toBe(true);
+  });
+
+  it('should throw when 2FA is not enabled', async () => {
+    const otherResult = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hashed_password', first_name: 'Other', last_name: 'User' })
+      .returning()
+      .execute();
+
+    await expect(regenerateRecoveryCodes({ code: '123456' }, otherResult[0].id)).rejects.toThrow(/not enabled/i);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable } from '../db/schema';
+import { removeOrganizationMember } from '../handlers/remove_organization_member';
+import { eq } from 'drizzle-orm';
+
+describe('removeOrganizationMember', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let memberId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' }
+      ])
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+    memberId = userResult[1].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(organizationMembersTable)
+      .values([
+        { organization_id: organizationId, user_id: ownerId, role: 'owner' },
+        { organization_id: organizationId, user_id: memberId, role: 'member' }
+      ])
+      .execute();
+  });
+
+  it('should remove a member', async () => {
+    const result = await removeOrganizationMember(organizationId, memberId);
+
+    expect(result).toBe(true);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.organization_id, organizationId))
+      .execute();
+
+    expect(members.map(m => m.user_id)).toEqual([ownerId]);
+  });
+
+  it('should not remove the last owner', async () => {
+    await expect(removeOrganizationMember(organizationId, ownerId)).rejects.toThrow(/last owner/i);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.user_id, ownerId))
+      .execute();
+
+    expect(members).toHaveLength(1);
+  });
+
+  it('should not remove an owner who has no member row yet', async () => {
+    await db.delete(organizationMembersTable)
+      .where(eq(organizationMembersTable.user_id, ownerId))
+      .execute();
+
+    await expect(removeOrganizationMember(organizationId, ownerId)).rejects.toThrow(/last owner/i);
+  });
+
+  it('should move owner_id to a remaining owner when the current owner is removed', async () => {
+    await db.update(organizationMembersTable)
+      .set({ role: 'owner' })
+      .where(eq(organizationMembersTable.user_id, memberId))
+      .execute();
+
+    await removeOrganizationMember(organizationId, ownerId);
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(organizations[0].owner_id).toEqual(memberId);
+  });
+
+  it('should throw error for non-members', async () => {
+    await expect(removeOrganizationMember(organizationId, 99999)).rejects.toThrow(/not a member/i);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable } from '../db/schema';
+import { requestPasswordReset } from '../handlers/request_password_reset';
+import { createSmtpTransport, setMailTransport } from '../lib/mailer';
+import { hashToken, PASSWORD_RESET_TTL_MS } from '../lib/auth';
+
+describe('requestPasswordReset', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    setMailTransport(createSmtpTransport(sink.url));
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  let userId: number;
+
+  beforeEach(async () => {
+    sink.messages.length = 0;
+
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Uma', last_name: 'User' },
+        { email: 'inactive@example.com', password_hash: 'hashed_password', first_name: 'Ian', last_name: 'Inactive', is_active: false }
+      ])
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should store a hashed, time-limited token and email the plaintext link', async () => {
+    const now = new Date('2030-01-01T00:00:00Z');
+    setSystemTime(now);
+
+    const result = await requestPasswordReset({ email: 'user@example.com' });
+
+    expect(result).toBe(true);
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].to).toEqual(['user@example.com']);
+
+    const token = sink.messages[0].text.match(/\/reset-password\?token=(\S+)/)![1];
+    const tokens = await db.select().from(passwordResetTokensTable).execute();
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].user_id).toEqual(userId);
+    expect(tokens[0].token_hash).toEqual(hashToken(token));
+    expect(tokens[0].expires_at).toEqual(new Date(now.getTime() + PASSWORD_RESET_TTL_MS));
+    expect(tokens[0].used_at).toBeNull();
+  });
+
+  it('should issue a different token for every request', async () => {
+    await requestPasswordReset({ email: 'user@example.com' });
+    await requestPasswordReset({ email: 'user@example.com' });
+
+    const tokens = await db.select().from(passwordResetTokensTable).execute();
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0].token_hash).not.toEqual(tokens[1].token_hash);
+  });
+
+  it('should succeed silently for unknown and deactivated accounts', async () => {
+    expect(await requestPasswordReset({ email: 'nobody@example.com' })).toBe(true);
+    expect(await requestPasswordReset({ email: 'inactive@example.com' })).toBe(true);
+
+    expect(sink.messages).toHaveLength(0);
+    const tokens = await db.select().from(passwordResetTokensTable).execute();
+    expect(tokens).toHaveLength(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { resetPassword } from '../handlers/reset_password';
+import { hashToken, PASSWORD_RESET_TTL_MS } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('resetPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const issuedAt = new Date('2030-01-01T00:00:00Z');
+  let userId: number;
+
+  beforeEach(async () => {
+    setSystemTime(issuedAt);
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: await Bun.password.hash('old-password'), first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    await db.insert(passwordResetTokensTable)
+      .values({ user_id: userId, token_hash: hashToken('reset-token'), expires_at: new Date(issuedAt.getTime() + PASSWORD_RESET_TTL_MS) })
+      .execute();
+
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashToken('session-token'), expires_at: new Date(issuedAt.getTime() + 60_000) })
+      .execute();
+  });
+
+  it('should set the new password and sign out every session', async () => {
+    const result = await resetPassword({ token: 'reset-token', password: 'new-password' });
+
+    expect(result).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(await Bun.password.verify('new-password', users[0].password_hash)).toBe(true);
+    expect(await Bun.password.verify('old-password', users[0].password_hash)).toBe(false);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should only be usable once', async () => {
+    await resetPassword({ token: 'reset-token', password: 'new-password' });
+
+    await expect(resetPassword({ token: 'reset-token', password: 'another-password' })).rejects.toThrow(/invalid or has expired/i);
+
+    const tokens = await db.select().from(passwordResetTokensTable).execute();
+    expect(tokens[0].used_at).toBeInstanceOf(Date);
+  });
+
+  it('should accept the token just before it expires', async () => {
+    setSystemTime(new Date(issuedAt.getTime() + PASSWORD_RESET_TTL_MS - 1000));
+
+    expect(await resetPassword({ token: 'reset-token', password: 'new-password' })).toBe(true);
+  });
+
+  it('should reject the token once it has expired', async () => {
+    setSystemTime(new Date(issuedAt.getTime() + PASSWORD_RESET_TTL_MS));
+
+    await expect(resetPassword({ token: 'reset-token', password: 'new-password' })).rejects.toThrow(/invalid or has expired/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    expect(await Bun.password.verify('old-password', users[0].password_hash)).toBe(true);
+  });
+
+  it('should reject tokens for deactivated accounts', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(resetPassword({ token: 'reset-token', password: 'new-password' })).rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(resetPassword({ token: 'not-a-token', password: 'new-password' })).rejects.toThrow(/invalid or has expired/i);
+  });
+});
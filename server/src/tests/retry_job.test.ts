@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobsTable } from '../db/schema';
+import { retryJob } from '../handlers/retry_job';
+import { runDueJobs } from '../lib/jobs';
+import { jobHandlers } from '../lib/job_handlers';
+
+describe('retryJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should bring a dead job back to the queue with fresh attempts', async () => {
+    const inserted = await db.insert(jobsTable)
+      .values({
+        type: 'sms.notify',
+        payload: { statusPageId: 1, notification: { event: 'incident.created', incidentId: null, text: 'Test' } },
+        max_attempts: 5,
+        attempts: 5,
+        status: 'dead',
+        run_at: new Date(Date.now() - 60_000),
+        last_error: 'Provider unavailable',
+        finished_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    const result = await retryJob(inserted[0].id);
+
+    expect(result.status).toEqual('pending');
+    expect(result.attempts).toEqual(0);
+    expect(result.finished_at).toBeNull();
+    expect(result.last_error).toEqual('Provider unavailable');
+    expect(result.run_at.getTime()).toBeGreaterThan(inserted[0].run_at.getTime());
+
+    let sent = false;
+    await runDueJobs(new Date(), { ...jobHandlers, 'sms.notify': async () => { sent = true; } });
+
+    expect(sent).toBe(true);
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs[0].status).toEqual('succeeded');
+    expect(jobs[0].last_error).toBeNull();
+  });
+
+  it('should only retry dead jobs', async () => {
+    const inserted = await db.insert(jobsTable)
+      .values({ type: 'sms.notify', payload: {}, max_attempts: 5, status: 'succeeded' })
+      .returning()
+      .execute();
+
+    await expect(retryJob(inserted[0].id)).rejects.toThrow(/only dead jobs/i);
+    await expect(retryJob(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, apiKeysTable } from '../db/schema';
+import { revokeApiKey } from '../handlers/revoke_api_key';
+import { eq } from 'drizzle-orm';
+
+describe('revokeApiKey', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let apiKeyId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const keyResult = await db.insert(apiKeysTable)
+      .values({
+        organization_id: orgResult[0].id,
+        name: 'CI',
+        token_prefix: 'es_aaaaaaa',
+        token_hash: 'hash',
+        scopes: ['read'],
+        created_by: userResult[0].id
+      })
+      .returning()
+      .execute();
+    apiKeyId = keyResult[0].id;
+  });
+
+  it('should mark the key as revoked', async () => {
+    const result = await revokeApiKey(apiKeyId);
+
+    expect(result.id).toEqual(apiKeyId);
+    expect(result.revoked_at).toBeInstanceOf(Date);
+    expect(result.status_page_ids).toEqual([]);
+
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, apiKeyId))
+      .execute();
+
+    expect(apiKeys[0].revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw error for non-existent key', async () => {
+    await expect(revokeApiKey(99999)).rejects.toThrow(/api key with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, invitationsTable } from '../db/schema';
+import { revokeInvitation } from '../handlers/revoke_invitation';
+import { eq } from 'drizzle-orm';
+
+describe('revokeInvitation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should revoke a pending invitation', async () => {
+    const invitationResult = await db.insert(invitationsTable)
+      .values({ organization_id: organizationId, email: 'new@example.com', invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) })
+      .returning()
+      .execute();
+
+    const result = await revokeInvitation(invitationResult[0].id);
+
+    expect(result.status).toEqual('revoked');
+
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(eq(invitationsTable.id, invitationResult[0].id))
+      .execute();
+
+    expect(invitations[0].status).toEqual('revoked');
+  });
+
+  it('should not revoke an accepted invitation', async () => {
+    const invitationResult = await db.insert(invitationsTable)
+      .values({ organization_id: organizationId, email: 'new@example.com', status: 'accepted', accepted_at: new Date(), invited_by: ownerId, expires_at: new Date(Date.now() + 60_000) })
+      .returning()
+      .execute();
+
+    await expect(revokeInvitation(invitationResult[0].id)).rejects.toThrow(/already accepted/i);
+  });
+
+  it('should throw error for non-existent invitation', async () => {
+    await expect(revokeInvitation(99999)).rejects.toThrow(/invitation with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, auditLogsTable } from '../db/schema';
+import { rotateWebhookSecret } from '../handlers/rotate_webhook_secret';
+import { eq } from 'drizzle-orm';
+
+describe('rotateWebhookSecret', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let endpointId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: orgResult[0].id, url: 'https://a.example.com', secret: 'whsec_old', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+  });
+
+  it('should replace the secret and return the new one', async () => {
+    const result = await rotateWebhookSecret(endpointId);
+
+    expect(result.secret).toMatch(/^whsec_/);
+    expect(result.secret).not.toEqual('whsec_old');
+    expect(result.webhook_endpoint.id).toEqual(endpointId);
+
+    const endpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    expect(endpoints[0].secret).toEqual(result.secret);
+  });
+
+  it('should record the rotation without either secret', async () => {
+    await rotateWebhookSecret(endpointId, { userId, apiKey: null });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].after!['secret_rotated_at']).toBeDefined();
+    expect(JSON.stringify(entries[0])).not.toContain('whsec_');
+  });
+
+  it('should throw error for non-existent endpoint', async () => {
+    await expect(rotateWebhookSecret(99999)).rejects.toThrow(/webhook endpoint with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, chatIntegrationsTable, chatThreadsTable } from '../db/schema';
+import { sendTestChatMessage } from '../handlers/send_test_chat_message';
+import { setSlackApiUrl } from '../lib/chat_notifications';
+
+describe('sendTestChatMessage', () => {
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+    setSlackApiUrl(`${receiver.url}/api`);
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    receiver.requests.length = 0;
+    receiver.responseStatus = 200;
+    receiver.responseBody = 'ok';
+  });
+
+  it('should post a test message to the channel', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'teams', name: 'Operations', webhook_url: `${receiver.url}/teams` })
+      .returning()
+      .execute();
+
+    expect(await sendTestChatMessage(integrationResult[0].id)).toBe(true);
+
+    expect(receiver.requests).toHaveLength(1);
+    const card = JSON.parse(receiver.requests[0].body).attachments[0].content;
+    expect(card.body[0].text).toEqual('Test message');
+    expect(card.body[1].text).toEqual('Status is connected');
+  });
+
+  it('should not start a thread when posting with a bot token', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'slack', name: '#incidents', bot_token: 'xoxb-test', channel: 'C0123' })
+      .returning()
+      .execute();
+    receiver.responseBody = JSON.stringify({ ok: true, ts: '1700000000.000100' });
+
+    await sendTestChatMessage(integrationResult[0].id);
+
+    expect(receiver.requests[0].path).toEqual('/api/chat.postMessage');
+    expect(await db.select().from(chatThreadsTable).execute()).toHaveLength(0);
+  });
+
+  it('should report failures to the caller', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'slack', name: '#incidents', webhook_url: `${receiver.url}/slack` })
+      .returning()
+      .execute();
+    receiver.responseStatus = 404;
+    receiver.responseBody = 'no_service';
+
+    await expect(sendTestChatMessage(integrationResult[0].id)).rejects.toThrow(/slack responded with status 404/i);
+  });
+
+  it('should throw error for non-existent integration', async () => {
+    await expect(sendTestChatMessage(99999)).rejects.toThrow(/chat integration with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { sendVerificationEmail } from '../handlers/send_verification_email';
+import { createSmtpTransport, setMailTransport } from '../lib/mailer';
+import { verifySignedToken } from '../lib/auth';
+
+describe('sendVerificationEmail', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    setMailTransport(createSmtpTransport(sink.url));
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    sink.messages.length = 0;
+  });
+
+  it('should email a signed verification link', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'new@example.com', password_hash: 'hashed_password', first_name: 'Nina', last_name: 'New' })
+      .returning()
+      .execute();
+
+    const result = await sendVerificationEmail(userResult[0].id);
+
+    expect(result).toBe(true);
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].to).toEqual(['new@example.com']);
+    expect(sink.messages[0].subject).toMatch(/verify/i);
+
+    const token = sink.messages[0].text.match(/\/verify-email\?token=(\S+)/)![1];
+    expect(verifySignedToken(token, 'email_verification')).toEqual(userResult[0].id);
+  });
+
+  it('should refuse when the email is already verified', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'done@example.com', password_hash: 'hashed_password', first_name: 'Dana', last_name: 'Done', email_verified_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(sendVerificationEmail(userResult[0].id)).rejects.toThrow(/already verified/i);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(sendVerificationEmail(99999)).rejects.toThrow(/user with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsRulesTable, auditLogsTable } from '../db/schema';
+import { setSmsRules } from '../handlers/set_sms_rules';
+import { setSmsRulesInputSchema } from '../schema';
+
+describe('setSmsRules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should replace the page\'s rules and record the change in the audit log', async () => {
+    await db.insert(smsRulesTable)
+      .values({ status_page_id: statusPageId, event_type: 'maintenance.scheduled' })
+      .execute();
+
+    const rules = await setSmsRules(setSmsRulesInputSchema.parse({
+      status_page_id: statusPageId,
+      rules: [
+        { event_type: 'incident.created', min_component_status: 'major_outage' },
+        { event_type: 'incident.resolved', min_component_status: 'major_outage' },
+        { event_type: 'maintenance.started' }
+      ]
+    }), { userId, apiKey: null });
+
+    expect(rules.map(rule => [rule.event_type, rule.min_component_status])).toEqual([
+      ['incident.created', 'major_outage'],
+      ['incident.resolved', 'major_outage'],
+      ['maintenance.started', null]
+    ]);
+    expect(await db.select().from(smsRulesTable).execute()).toHaveLength(3);
+
+    const logs = await db.select().from(auditLogsTable).execute();
+    expect(logs).toHaveLength(1);
+    expect(logs[0].organization_id).toEqual(organizationId);
+    expect(logs[0].entity_type).toEqual('status_page');
+    expect(logs[0].entity_id).toEqual(statusPageId);
+    expect(logs[0].before!['sms_rules']).toEqual([{ event_type: 'maintenance.scheduled', min_component_status: null }]);
+    expect(logs[0].after!['sms_rules']).toHaveLength(3);
+  });
+
+  it('should remove every rule when given none', async () => {
+    await db.insert(smsRulesTable)
+      .values({ status_page_id: statusPageId, event_type: 'incident.created' })
+      .execute();
+
+    expect(await setSmsRules({ status_page_id: statusPageId, rules: [] })).toEqual([]);
+    expect(await db.select().from(smsRulesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject two rules for the same event', async () => {
+    await expect(setSmsRules({
+      status_page_id: statusPageId,
+      rules: [
+        { event_type: 'incident.created', min_component_status: null },
+        { event_type: 'incident.created', min_component_status: 'major_outage' }
+      ]
+    })).rejects.toThrow(/one SMS rule per event/i);
+  });
+
+  it('should reject a component status on maintenance rules', async () => {
+    await expect(setSmsRules({
+      status_page_id: statusPageId,
+      rules: [{ event_type: 'maintenance.started', min_component_status: 'major_outage' }]
+    })).rejects.toThrow(/only applies to incident events/i);
+
+    expect(await db.select().from(smsRulesTable).execute()).toHaveLength(0);
+  });
+
+  it('should only accept outage statuses as the minimum', () => {
+    expect(setSmsRulesInputSchema.safeParse({
+      status_page_id: statusPageId,
+      rules: [{ event_type: 'incident.created', min_component_status: 'operational' }]
+    }).success).toBe(false);
+  });
+
+  it('should throw for an unknown page', async () => {
+    await expect(setSmsRules({ status_page_id: statusPageId + 100, rules: [] })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, organizationsTable, organizationMembersTable, auditLogsTable } from '../db/schema';
+import { setUserActive } from '../handlers/set_user_active';
+import { login } from '../handlers/login';
+import { hashToken } from '../lib/auth';
+import { asc, eq } from 'drizzle-orm';
+
+describe('setUserActive', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: await Bun.password.hash('password123'), first_name: 'Uma', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashToken('session-token'), expires_at: new Date(Date.now() + 60_000) })
+      .execute();
+  });
+
+  it('should deactivate the user and revoke their sessions', async () => {
+    const result = await setUserActive(userId, false);
+
+    expect(result.is_active).toBe(false);
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, userId))
+      .execute();
+    expect(sessions).toHaveLength(0);
+
+    await expect(login({ email: 'user@example.com', password: 'password123' })).rejects.toThrow(/deactivated/i);
+  });
+
+  it('should reactivate the user', async () => {
+    await setUserActive(userId, false);
+    const result = await setUserActive(userId, true);
+
+    expect(result.is_active).toBe(true);
+
+    const session = await login({ email: 'user@example.com', password: 'password123' });
+    expect(session.user.id).toEqual(userId);
+  });
+
+  it('should record the change in each of the user\'s organizations', async () => {
+    const adminResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Ada', last_name: 'Admin' })
+      .returning()
+      .execute();
+    const adminId = adminResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values([
+        { name: 'Owned', slug: 'owned', owner_id: userId },
+        { name: 'Joined', slug: 'joined', owner_id: adminId },
+        { name: 'Unrelated', slug: 'unrelated', owner_id: adminId }
+      ])
+      .returning()
+      .execute();
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: orgResult[1].id, user_id: userId, role: 'member' })
+      .execute();
+
+    await setUserActive(userId, false, { userId: adminId, apiKey: null });
+    await setUserActive(userId, true, { userId: adminId, apiKey: null });
+
+    const entries = await db.select()
+      .from(auditLogsTable)
+      .orderBy(asc(auditLogsTable.id))
+      .execute();
+
+    expect(new Set(entries.map(entry => entry.organization_id))).toEqual(new Set([orgResult[0].id, orgResult[1].id]));
+    expect(entries).toHaveLength(4);
+    entries.forEach(entry => {
+      expect(entry.entity_type).toEqual('user');
+      expect(entry.entity_id).toEqual(userId);
+      expect(entry.action).toEqual('update');
+      expect(entry.actor_user_id).toEqual(adminId);
+    });
+    expect(entries.slice(0, 2).map(entry => entry.after)).toEqual([{ is_active: false }, { is_active: false }]);
+    expect(entries.slice(2).map(entry => entry.after)).toEqual([{ is_active: true }, { is_active: true }]);
+    expect(entries[0].before).toEqual({ is_active: true });
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(setUserActive(99999, false)).rejects.toThrow(/user with id 99999 not found/i);
+  });
+});
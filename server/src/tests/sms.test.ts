@@ -0,0 +1,217 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsMessagesTable } from '../db/schema';
+import {
+  createMemorySmsProvider,
+  createTwilioProvider,
+  getSmsUsageForOrganization,
+  sendSms,
+  setSmsProvider,
+  smsQuotaPeriod,
+  SMS_VERIFICATION_IP_HOURLY_LIMIT,
+  SMS_VERIFICATION_PAGE_DAILY_LIMIT,
+  type MemorySmsProvider
+} from '../lib/sms';
+
+describe('createTwilioProvider', () => {
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(() => {
+    receiver.requests.length = 0;
+  });
+
+  const twilio = () => createTwilioProvider({ accountSid: 'AC123', authToken: 'secret', apiUrl: receiver.url });
+
+  it('should post the message form-encoded to the Messages API with basic auth', async () => {
+    receiver.responseStatus = 201;
+    receiver.responseBody = JSON.stringify({ sid: 'SM0001', status: 'queued' });
+
+    const result = await twilio().send({ from: '+15005550006', to: '+14155550123', body: 'Hello & welcome' });
+
+    expect(result).toEqual({ status: 'sent', id: 'SM0001' });
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].path).toEqual('/2010-04-01/Accounts/AC123/Messages.json');
+    expect(receiver.requests[0].headers['authorization']).toEqual(`Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+    expect(receiver.requests[0].headers['content-type']).toEqual('application/x-www-form-urlencoded');
+
+    const form = new URLSearchParams(receiver.requests[0].body);
+    expect(form.get('From')).toEqual('+15005550006');
+    expect(form.get('To')).toEqual('+14155550123');
+    expect(form.get('Body')).toEqual('Hello & welcome');
+  });
+
+  it('should report numbers that opted out instead of failing', async () => {
+    receiver.responseStatus = 400;
+    receiver.responseBody = JSON.stringify({ code: 21610, message: 'Attempt to send to unsubscribed recipient' });
+
+    const result = await twilio().send({ from: '+15005550006', to: '+14155550123', body: 'Hello' });
+
+    expect(result).toEqual({ status: 'opted_out' });
+  });
+
+  it('should throw on other errors', async () => {
+    receiver.responseStatus = 400;
+    receiver.responseBody = JSON.stringify({ code: 21211, message: "The 'To' number is not a valid phone number." });
+
+    await expect(twilio().send({ from: '+15005550006', to: '+1', body: 'Hello' })).rejects.toThrow(/21211/);
+
+    receiver.responseStatus = 503;
+    receiver.responseBody = 'unavailable';
+
+    await expect(twilio().send({ from: '+15005550006', to: '+14155550123', body: 'Hello' })).rejects.toThrow(/503/);
+  });
+});
+
+describe('sendSms', () => {
+  let provider: MemorySmsProvider;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    provider = createMemorySmsProvider();
+    setSmsProvider(provider);
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  const notification = { kind: 'notification' } as const;
+  const verification = (ip: string | null = null) => ({ kind: 'verification', statusPageId, ip }) as const;
+
+  it('should send through the provider and log the message', async () => {
+    const result = await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Hello' }, notification);
+
+    expect(result.status).toEqual('sent');
+    expect(provider.messages).toHaveLength(1);
+    expect(provider.messages[0]).toMatchObject({ to: '+14155550123', body: 'Hello' });
+
+    const messages = await db.select().from(smsMessagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ organization_id: organizationId, to: '+14155550123', kind: 'notification', status: 'sent' });
+    expect(messages[0].provider_message_id).toEqual('memory-1');
+  });
+
+  it('should refuse to send once the monthly quota is used up', async () => {
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 100 }, () => ({ organization_id: organizationId, to: '+14155550123', kind: 'notification' as const, status: 'sent' as const })))
+      .execute();
+
+    const result = await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Hello' }, notification);
+
+    expect(result.status).toEqual('over_quota');
+    expect(provider.messages).toHaveLength(0);
+    expect(await sendSms(organizationId, 'free', { to: '+14155550123', body: 'Hello' }, verification())).toEqual({ status: 'over_quota' });
+  });
+
+  it('should not overshoot the quota when texts are sent at the same time', async () => {
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 98 }, () => ({ organization_id: organizationId, to: '+14155550123', kind: 'notification' as const, status: 'sent' as const })))
+      .execute();
+
+    const results = await Promise.all(Array.from({ length: 5 }, (_, i) => sendSms(organizationId, 'pro', { to: `+1415555010${i}`, body: 'Hello' }, notification)));
+
+    expect(results.filter(result => result.status === 'sent')).toHaveLength(2);
+    expect(results.filter(result => result.status === 'over_quota')).toHaveLength(3);
+    expect(provider.messages).toHaveLength(2);
+    expect((await getSmsUsageForOrganization(organizationId, 'pro')).used).toEqual(100);
+  });
+
+  it('should count texts still waiting on the provider', async () => {
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 100 }, () => ({ organization_id: organizationId, to: '+14155550123', kind: 'notification' as const, status: 'pending' as const })))
+      .execute();
+
+    expect((await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Hello' }, notification)).status).toEqual('over_quota');
+  });
+
+  it('should keep verification codes off the monthly quota and limit them per page and per address', async () => {
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 100 }, () => ({ organization_id: organizationId, to: '+14155550123', kind: 'notification' as const, status: 'sent' as const })))
+      .execute();
+
+    for (let i = 0; i < SMS_VERIFICATION_IP_HOURLY_LIMIT; i++) {
+      expect((await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Code' }, verification('198.51.100.7'))).status).toEqual('sent');
+    }
+    expect(await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Code' }, verification('198.51.100.7'))).toEqual({ status: 'rate_limited' });
+    expect((await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Code' }, verification('198.51.100.8'))).status).toEqual('sent');
+    expect((await getSmsUsageForOrganization(organizationId, 'pro')).used).toEqual(100);
+
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: SMS_VERIFICATION_PAGE_DAILY_LIMIT }, () => ({
+        organization_id: organizationId,
+        status_page_id: statusPageId,
+        to: '+14155550123',
+        kind: 'verification' as const,
+        status: 'sent' as const
+      })))
+      .execute();
+    expect(await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Code' }, verification('198.51.100.9'))).toEqual({ status: 'rate_limited' });
+  });
+
+  it('should only count texts sent this month', async () => {
+    const lastMonth = new Date(smsQuotaPeriod().start.getTime() - 1000);
+    await db.insert(smsMessagesTable)
+      .values([
+        { organization_id: organizationId, to: '+14155550123', kind: 'notification', status: 'sent', created_at: lastMonth },
+        { organization_id: organizationId, to: '+14155550123', kind: 'notification', status: 'failed' },
+        { organization_id: organizationId, to: '+14155550123', kind: 'notification', status: 'sent' },
+        { organization_id: organizationId, to: '+14155550123', kind: 'verification', status: 'sent' }
+      ])
+      .execute();
+
+    const usage = await getSmsUsageForOrganization(organizationId, 'pro');
+
+    expect(usage.used).toEqual(1);
+    expect(usage.quota).toEqual(100);
+    expect(usage.period_start.getUTCDate()).toEqual(1);
+  });
+
+  it('should log failed texts without counting them and rethrow the error', async () => {
+    setSmsProvider({ send: async () => { throw new Error('Provider unavailable'); } });
+
+    await expect(sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Hello' }, notification)).rejects.toThrow(/unavailable/i);
+
+    const messages = await db.select().from(smsMessagesTable).execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].status).toEqual('failed');
+    expect(messages[0].error).toEqual('Provider unavailable');
+    expect((await getSmsUsageForOrganization(organizationId, 'pro')).used).toEqual(0);
+  });
+
+  it('should not log texts to numbers that opted out', async () => {
+    provider.optedOut.add('+14155550123');
+
+    const result = await sendSms(organizationId, 'pro', { to: '+14155550123', body: 'Hello' }, notification);
+
+    expect(result).toEqual({ status: 'opted_out' });
+    expect(await db.select().from(smsMessagesTable).execute()).toHaveLength(0);
+  });
+});
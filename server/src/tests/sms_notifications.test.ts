@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, runQueuedJobs } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  smsSubscribersTable,
+  smsRulesTable,
+  smsMessagesTable
+} from '../db/schema';
+import { createIncident } from '../handlers/create_incident';
+import { createIncidentUpdate } from '../handlers/create_incident_update';
+import { createMaintenanceWindow } from '../handlers/create_maintenance_window';
+import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
+import { updateComponent } from '../handlers/update_component';
+import { createMemorySmsProvider, setSmsProvider, type MemorySmsProvider } from '../lib/sms';
+import { smsSubscriptionsAvailable } from '../lib/sms_notifications';
+import { runDueJobs, JOB_RETRY_BASE_MS } from '../lib/jobs';
+
+describe('SMS notifications', () => {
+  let provider: MemorySmsProvider;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+  let apiComponentId: number;
+
+  beforeEach(async () => {
+    provider = createMemorySmsProvider();
+    setSmsProvider(provider);
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: statusPageId, name: 'API', position: 1 })
+      .returning()
+      .execute();
+    apiComponentId = componentResult[0].id;
+
+    await db.insert(smsSubscribersTable)
+      .values([
+        { status_page_id: statusPageId, phone_number: '+14155550101', verified_at: new Date() },
+        { status_page_id: statusPageId, phone_number: '+14155550102', verified_at: new Date() },
+        { status_page_id: statusPageId, phone_number: '+14155550103' }
+      ])
+      .execute();
+  });
+
+  const addRules = async (...rules: Omit<typeof smsRulesTable.$inferInsert, 'status_page_id'>[]) => {
+    await db.insert(smsRulesTable)
+      .values(rules.map(rule => ({ status_page_id: statusPageId, ...rule })))
+      .execute();
+  };
+
+  const createTestIncident = (componentStatus?: 'partial_outage' | 'major_outage') => createIncident({
+    status_page_id: statusPageId,
+    title: 'API errors',
+    description: 'Some requests fail',
+    status: 'investigating',
+    affected_component_ids: [apiComponentId],
+    component_status: componentStatus
+  }, userId);
+
+  it('should not text anyone about events without a rule', async () => {
+    await addRules({ event_type: 'incident.resolved' });
+
+    await createTestIncident('major_outage');
+
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  it('should text verified subscribers about events with a rule', async () => {
+    await addRules({ event_type: 'incident.created' });
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(provider.messages.map(message => message.to)).toEqual(['+14155550101', '+14155550102']);
+
+    const lines = provider.messages[0].body.split('\n');
+    expect(lines[0]).toEqual('[Acme Status] New incident: API errors (Investigating)');
+    expect(lines[1]).toMatch(/^http.*acme/);
+    expect(lines[2]).toEqual('Reply STOP to unsubscribe');
+
+    const logged = await db.select().from(smsMessagesTable).execute();
+    expect(logged).toHaveLength(2);
+    logged.forEach(message => expect(message).toMatchObject({ organization_id: organizationId, kind: 'notification', status: 'sent' }));
+  });
+
+  it('should only text about incidents that took an affected component to the rule\'s status', async () => {
+    await addRules({ event_type: 'incident.created', min_component_status: 'major_outage' });
+
+    await createTestIncident('partial_outage');
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(0);
+
+    await createTestIncident('major_outage');
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(2);
+  });
+
+  it('should count a component that is down for another reason', async () => {
+    await addRules({ event_type: 'incident.created', min_component_status: 'partial_outage' });
+    await updateComponent({ id: apiComponentId, status: 'major_outage' });
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(2);
+  });
+
+  it('should still text the resolution of a major outage after the components recovered', async () => {
+    await addRules(
+      { event_type: 'incident.updated', min_component_status: 'major_outage' },
+      { event_type: 'incident.resolved', min_component_status: 'major_outage' }
+    );
+
+    const incident = await createTestIncident('major_outage');
+    await updateComponent({ id: apiComponentId, status: 'operational' });
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Fixed', description: 'Rolled back', status: 'resolved' }, userId);
+
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(2);
+    expect(provider.messages[0].body).toStartWith('[Acme Status] Resolved: API errors - Fixed');
+  });
+
+  it('should tell updates and resolutions apart', async () => {
+    await addRules({ event_type: 'incident.updated' });
+
+    const incident = await createTestIncident();
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Found it', description: 'A bad deploy', status: 'identified' }, userId);
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Fixed', description: 'Rolled back', status: 'resolved' }, userId);
+
+    await runQueuedJobs();
+    expect(provider.messages).toHaveLength(2);
+    expect(provider.messages[0].body).toStartWith('[Acme Status] Identified: API errors - Found it');
+  });
+
+  it('should text about maintenance transitions with a rule', async () => {
+    await addRules({ event_type: 'maintenance.scheduled' }, { event_type: 'maintenance.completed' });
+
+    const maintenanceWindow = await createMaintenanceWindow({
+      status_page_id: statusPageId,
+      title: 'Database upgrade',
+      description: 'Short read-only period',
+      scheduled_start: new Date(Date.now() + 60_000),
+      scheduled_end: new Date(Date.now() + 120_000),
+      affected_component_ids: [apiComponentId]
+    }, userId);
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'completed' });
+
+    await runQueuedJobs();
+    const bodies = provider.messages.filter(message => message.to === '+14155550101').map(message => message.body.split('\n')[0]);
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0]).toStartWith('[Acme Status] Scheduled maintenance: Database upgrade, starting ');
+    expect(bodies[1]).toEqual('[Acme Status] Maintenance completed: Database upgrade');
+  });
+
+  it('should stop texting once the monthly quota is used up', async () => {
+    await db.update(organizationsTable).set({ plan_type: 'pro' }).execute();
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 99 }, () => ({ organization_id: organizationId, to: '+14155550199', kind: 'notification' as const, status: 'sent' as const })))
+      .execute();
+    await addRules({ event_type: 'incident.created' });
+
+    const incident = await createTestIncident();
+
+    await runQueuedJobs();
+    expect(incident.id).toBeDefined();
+    expect(provider.messages.map(message => message.to)).toEqual(['+14155550101']);
+  });
+
+  it('should unsubscribe numbers that replied STOP', async () => {
+    await addRules({ event_type: 'incident.created' });
+    provider.optedOut.add('+14155550101');
+
+    await createTestIncident();
+
+    await runQueuedJobs();
+    expect(provider.messages.map(message => message.to)).toEqual(['+14155550102']);
+    const subscribers = await db.select().from(smsSubscribersTable).execute();
+    expect(subscribers.map(subscriber => subscriber.phone_number).sort()).toEqual(['+14155550102', '+14155550103']);
+  });
+
+  it('should keep texting the others when one text fails, and retry only that one', async () => {
+    await addRules({ event_type: 'incident.created' });
+    const memory = provider;
+    setSmsProvider({
+      send: async (message) => {
+        if (message.to === '+14155550101') {
+          throw new Error('Provider unavailable');
+        }
+        return memory.send(message);
+      }
+    });
+
+    const incident = await createTestIncident();
+
+    await runQueuedJobs();
+    expect(incident.id).toBeDefined();
+    expect(provider.messages.map(message => message.to)).toEqual(['+14155550102']);
+
+    setSmsProvider(memory);
+    await runDueJobs(new Date(Date.now() + JOB_RETRY_BASE_MS));
+    expect(provider.messages.map(message => message.to)).toEqual(['+14155550102', '+14155550101']);
+  });
+
+  it('should only offer SMS subscriptions on plans with a quota and pages with rules', async () => {
+    expect(await smsSubscriptionsAvailable(statusPageId, 'enterprise')).toBe(false);
+
+    await addRules({ event_type: 'incident.created' });
+
+    expect(await smsSubscriptionsAvailable(statusPageId, 'enterprise')).toBe(true);
+    expect(await smsSubscriptionsAvailable(statusPageId, 'free')).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startOidcProvider, type OidcProvider } from '../helpers/oidc_provider';
+import { db } from '../db';
+import { usersTable, organizationsTable, ssoConnectionsTable, ssoLoginAttemptsTable } from '../db/schema';
+import { startSsoLogin } from '../handlers/start_sso_login';
+import { codeChallengeFor, SSO_REDIRECT_URI } from '../lib/oidc';
+import { hashToken, SSO_LOGIN_TTL_MS } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('startSsoLogin', () => {
+  let provider: OidcProvider;
+
+  beforeAll(async () => {
+    provider = await startOidcProvider();
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const ownerResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: ownerResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(ssoConnectionsTable)
+      .values({
+        organization_id: organizationId,
+        issuer: provider.issuer,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        allowed_domains: ['acme.com'],
+        domain_verification_token: 'token-123'
+      })
+      .execute();
+  });
+
+  it('should build an authorization URL with state, nonce and a PKCE challenge', async () => {
+    const result = await startSsoLogin({ organization_slug: 'acme' });
+    const url = new URL(result.authorization_url);
+
+    expect(`${url.origin}${url.pathname}`).toEqual(`${provider.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toEqual('code');
+    expect(url.searchParams.get('client_id')).toEqual(provider.clientId);
+    expect(url.searchParams.get('redirect_uri')).toEqual(SSO_REDIRECT_URI);
+    expect(url.searchParams.get('scope')).toContain('openid');
+    expect(url.searchParams.get('state')).toEqual(result.state);
+    expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+
+    const attempts = await db.select()
+      .from(ssoLoginAttemptsTable)
+      .where(eq(ssoLoginAttemptsTable.state_hash, hashToken(result.state)))
+      .execute();
+
+    expect(attempts).toHaveLength(1);
+    expect(url.searchParams.get('nonce')).toEqual(attempts[0].nonce);
+    expect(url.searchParams.get('code_challenge')).toEqual(codeChallengeFor(attempts[0].code_verifier));
+    expect(attempts[0].expires_at.getTime()).toBeLessThanOrEqual(Date.now() + SSO_LOGIN_TTL_MS);
+  });
+
+  it('should throw for organizations without an enabled connection', async () => {
+    await expect(startSsoLogin({ organization_slug: 'unknown' })).rejects.toThrow(/not configured/i);
+
+    await db.update(ssoConnectionsTable)
+      .set({ is_enabled: false })
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    await expect(startSsoLogin({ organization_slug: 'acme' })).rejects.toThrow(/not configured/i);
+  });
+
+  it('should throw once the organization is no longer on the enterprise plan', async () => {
+    await db.update(organizationsTable)
+      .set({ plan_type: 'plus' })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    await expect(startSsoLogin({ organization_slug: 'acme' })).rejects.toThrow(/not configured/i);
+  });
+
+  it('should fail when the issuer does not serve a matching discovery document', async () => {
+    await db.update(ssoConnectionsTable)
+      .set({ issuer: `${provider.issuer}/nowhere` })
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    // The caller is not told what the issuer answered
+    await expect(startSsoLogin({ organization_slug: 'acme' })).rejects.toThrow(/^Identity provider request failed$/);
+  });
+
+  it('should refuse issuers on private addresses without saying what was reached', async () => {
+    await db.update(ssoConnectionsTable)
+      .set({ issuer: 'http://169.254.169.254/latest' })
+      .where(eq(ssoConnectionsTable.organization_id, organizationId))
+      .execute();
+
+    await expect(startSsoLogin({ organization_slug: 'acme' })).rejects.toThrow(/^Identity provider could not be reached$/);
+  });
+});
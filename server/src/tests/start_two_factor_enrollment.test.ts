@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, twoFactorCredentialsTable } from '../db/schema';
+import { startTwoFactorEnrollment } from '../handlers/start_two_factor_enrollment';
+import { eq } from 'drizzle-orm';
+
+describe('startTwoFactorEnrollment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash: 'hashed_password', first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should return a secret and a provisioning URI for the user', async () => {
+    const result = await startTwoFactorEnrollment(userId);
+
+    expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(result.provisioning_uri).toStartWith('otpauth://totp/EdgeStatus%3Auser%40example.com?');
+    expect(result.provisioning_uri).toContain(`secret=${result.secret}`);
+  });
+
+  it('should store a pending credential that is not yet enabled', async () => {
+    const result = await startTwoFactorEnrollment(userId);
+
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    expect(credentials).toHaveLength(1);
+    expect(credentials[0].secret).toEqual(result.secret);
+    expect(credentials[0].enabled_at).toBeNull();
+  });
+
+  it('should replace the pending secret when started again', async () => {
+    const first = await startTwoFactorEnrollment(userId);
+    const second = await startTwoFactorEnrollment(userId);
+
+    expect(second.secret).not.toEqual(first.secret);
+
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(eq(twoFactorCredentialsTable.user_id, userId))
+      .execute();
+
+    expect(credentials).toHaveLength(1);
+    expect(credentials[0].secret).toEqual(second.secret);
+  });
+
+  it('should refuse to restart once 2FA is enabled', async () => {
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', enabled_at: new Date() })
+      .execute();
+
+    await expect(startTwoFactorEnrollment(userId)).rejects.toThrow(/already enabled/i);
+  });
+
+  it('should throw for an unknown user', async () => {
+    await expect(startTwoFactorEnrollment(99999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsSubscribersTable, smsRulesTable, smsMessagesTable } from '../db/schema';
+import { subscribeToSmsUpdates } from '../handlers/subscribe_to_sms_updates';
+import { createMemorySmsProvider, setSmsProvider, SMS_VERIFICATION_IP_HOURLY_LIMIT, type MemorySmsProvider } from '../lib/sms';
+import { hashToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('subscribeToSmsUpdates', () => {
+  let provider: MemorySmsProvider;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    provider = createMemorySmsProvider();
+    setSmsProvider(provider);
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: organizationId, name: 'Acme Status', slug: 'acme' },
+        { organization_id: organizationId, name: 'Internal', slug: 'acme-internal', is_public: false }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    await db.insert(smsRulesTable)
+      .values(pageResult.map(page => ({ status_page_id: page.id, event_type: 'incident.created' as const })))
+      .execute();
+  });
+
+  it('should store an unverified subscriber and text a verification code', async () => {
+    const result = await subscribeToSmsUpdates('acme', '+14155550123');
+
+    expect(result).toBe(true);
+
+    const subscribers = await db.select().from(smsSubscribersTable).execute();
+    expect(subscribers).toHaveLength(1);
+    expect(subscribers[0].status_page_id).toEqual(statusPageId);
+    expect(subscribers[0].phone_number).toEqual('+14155550123');
+    expect(subscribers[0].verified_at).toBeNull();
+    expect(subscribers[0].verification_expires_at!.getTime()).toBeGreaterThan(Date.now());
+
+    expect(provider.messages).toHaveLength(1);
+    expect(provider.messages[0].to).toEqual('+14155550123');
+    expect(provider.messages[0].body).toContain('Acme Status');
+
+    const code = provider.messages[0].body.match(/^(\d{6}) /)![1];
+    expect(subscribers[0].verification_code_hash).toEqual(hashToken(`${subscribers[0].id}:${code}`));
+
+    const logged = await db.select().from(smsMessagesTable).execute();
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({ organization_id: organizationId, kind: 'verification', status: 'sent' });
+  });
+
+  it('should send at most one code a minute to the same number', async () => {
+    await subscribeToSmsUpdates('acme', '+14155550123');
+    await subscribeToSmsUpdates('acme', '+14155550123');
+
+    expect(await db.select().from(smsSubscribersTable).execute()).toHaveLength(1);
+    expect(provider.messages).toHaveLength(1);
+
+    await db.update(smsSubscribersTable)
+      .set({ verification_sent_at: new Date(Date.now() - 2 * 60 * 1000), verification_attempts: 3 })
+      .execute();
+
+    await subscribeToSmsUpdates('acme', '+14155550123');
+
+    expect(provider.messages).toHaveLength(2);
+    const subscribers = await db.select().from(smsSubscribersTable).execute();
+    expect(subscribers[0].verification_attempts).toEqual(0);
+  });
+
+  it('should not text a number that is already verified', async () => {
+    await db.insert(smsSubscribersTable)
+      .values({ status_page_id: statusPageId, phone_number: '+14155550123', verified_at: new Date() })
+      .execute();
+
+    const result = await subscribeToSmsUpdates('acme', '+14155550123');
+
+    expect(result).toBe(true);
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  it('should refuse subscriptions on pages without SMS rules or on plans without texts', async () => {
+    await db.delete(smsRulesTable).execute();
+    await expect(subscribeToSmsUpdates('acme', '+14155550123')).rejects.toThrow(/does not offer text message/i);
+
+    await db.insert(smsRulesTable).values({ status_page_id: statusPageId, event_type: 'incident.created' }).execute();
+    await db.update(organizationsTable).set({ plan_type: 'free' }).execute();
+    await expect(subscribeToSmsUpdates('acme', '+14155550123')).rejects.toThrow(/does not offer text message/i);
+
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  it('should text codes outside the monthly quota, within a limit per address', async () => {
+    await db.insert(smsMessagesTable)
+      .values(Array.from({ length: 100 }, () => ({ organization_id: organizationId, to: '+14155550199', kind: 'notification' as const, status: 'sent' as const })))
+      .execute();
+    const viewer = { ip: '198.51.100.7', cookies: {}, userId: null };
+
+    for (let i = 0; i < SMS_VERIFICATION_IP_HOURLY_LIMIT; i++) {
+      await subscribeToSmsUpdates('acme', `+1415555011${i}`, viewer);
+    }
+    await expect(subscribeToSmsUpdates('acme', '+14155550123', viewer)).rejects.toThrow(/too many verification codes/i);
+
+    expect(provider.messages).toHaveLength(SMS_VERIFICATION_IP_HOURLY_LIMIT);
+    const logged = await db.select().from(smsMessagesTable).where(eq(smsMessagesTable.kind, 'verification')).execute();
+    logged.forEach(message => expect(message).toMatchObject({ status_page_id: statusPageId, requester_ip: '198.51.100.7' }));
+  });
+
+  it('should tell numbers that opted out how to opt back in', async () => {
+    provider.optedOut.add('+14155550123');
+
+    await expect(subscribeToSmsUpdates('acme', '+14155550123')).rejects.toThrow(/START/);
+  });
+
+  it('should only accept subscriptions to private pages from viewers who can see them', async () => {
+    await expect(subscribeToSmsUpdates('acme-internal', '+14155550123')).rejects.toThrow(/not found/i);
+
+    const outsider = { ip: '198.51.100.7', cookies: {}, userId: null };
+    await expect(subscribeToSmsUpdates('acme-internal', '+14155550123', outsider)).rejects.toThrow(/private/i);
+
+    expect(await db.select().from(smsSubscribersTable).execute()).toHaveLength(0);
+    expect(provider.messages).toHaveLength(0);
+  });
+});
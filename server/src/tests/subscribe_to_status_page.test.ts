@@ -0,0 +1,111 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, subscribersTable } from '../db/schema';
+import { subscribeToStatusPage } from '../handlers/subscribe_to_status_page';
+import { createSmtpTransport, setMailTransport } from '../lib/mailer';
+import { SUBSCRIPTION_CONFIRMATION_RESEND_INTERVAL_MS, verifySignedToken } from '../lib/auth';
+import { SUBSCRIPTION_CONFIRMATION_PURPOSE } from '../lib/subscribers';
+
+describe('subscribeToStatusPage', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+    setMailTransport(createSmtpTransport(sink.url));
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    sink.messages.length = 0;
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Internal', slug: 'acme-internal', is_public: false }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should store an unconfirmed subscriber and email a confirmation link', async () => {
+    const result = await subscribeToStatusPage('acme', ' Reader@Example.com ');
+
+    expect(result).toBe(true);
+
+    const subscribers = await db.select().from(subscribersTable).execute();
+    expect(subscribers).toHaveLength(1);
+    expect(subscribers[0].status_page_id).toEqual(statusPageId);
+    expect(subscribers[0].email).toEqual('reader@example.com');
+    expect(subscribers[0].confirmed_at).toBeNull();
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].to).toEqual(['reader@example.com']);
+    expect(sink.messages[0].subject).toContain('Acme Status');
+
+    const token = sink.messages[0].text.match(/\/confirm-subscription\?token=(\S+)/)![1];
+    expect(verifySignedToken(token, SUBSCRIPTION_CONFIRMATION_PURPOSE)).toEqual(subscribers[0].id);
+  });
+
+  it('should resend the confirmation to an unconfirmed address at most once a minute', async () => {
+    await subscribeToStatusPage('acme', 'reader@example.com');
+    await subscribeToStatusPage('acme', 'READER@example.com');
+
+    const subscribers = await db.select().from(subscribersTable).execute();
+    expect(subscribers).toHaveLength(1);
+    expect(subscribers[0].confirmation_sent_at).toBeInstanceOf(Date);
+    expect(sink.messages).toHaveLength(1);
+
+    await db.update(subscribersTable)
+      .set({ confirmation_sent_at: new Date(Date.now() - SUBSCRIPTION_CONFIRMATION_RESEND_INTERVAL_MS - 1_000) })
+      .execute();
+
+    expect(await subscribeToStatusPage('acme', 'reader@example.com')).toBe(true);
+    expect(sink.messages).toHaveLength(2);
+  });
+
+  it('should not email an address that is already confirmed', async () => {
+    await db.insert(subscribersTable)
+      .values({ status_page_id: statusPageId, email: 'reader@example.com', confirmed_at: new Date() })
+      .execute();
+
+    const result = await subscribeToStatusPage('acme', 'reader@example.com');
+
+    expect(result).toBe(true);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should only accept subscriptions to private pages from viewers who can see them', async () => {
+    await expect(subscribeToStatusPage('acme-internal', 'reader@example.com')).rejects.toThrow(/not found/i);
+
+    const outsider = { ip: '198.51.100.7', cookies: {}, userId: null };
+    await expect(subscribeToStatusPage('acme-internal', 'reader@example.com', outsider)).rejects.toThrow(/private/i);
+
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(0);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should throw for an unknown page', async () => {
+    await expect(subscribeToStatusPage('missing', 'reader@example.com')).rejects.toThrow(/not found/i);
+  });
+});
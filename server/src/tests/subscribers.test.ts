@@ -0,0 +1,303 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, runQueuedJobs } from '../helpers';
+import { startSmtpSink, type SmtpSink } from '../helpers/smtp_sink';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  subscribersTable,
+  subscriberComponentsTable,
+  componentsTable,
+  jobsTable
+} from '../db/schema';
+import { createIncident } from '../handlers/create_incident';
+import { createIncidentUpdate } from '../handlers/create_incident_update';
+import { createMaintenanceWindow } from '../handlers/create_maintenance_window';
+import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
+import { setSubscriberComponents, wantsNotification } from '../lib/subscribers';
+import { runDueJobs, JOB_RETRY_BASE_MS } from '../lib/jobs';
+import { createSmtpTransport, setMailTransport, type MailMessage } from '../lib/mailer';
+import { verifySignedToken } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+import { SUBSCRIPTION_PREFERENCES_PURPOSE, UNSUBSCRIBE_PURPOSE } from '../lib/subscribers';
+
+describe('subscriber notifications', () => {
+  let sink: SmtpSink;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink();
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let confirmedSubscriberId: number;
+
+  beforeEach(async () => {
+    sink.messages.length = 0;
+    setMailTransport(createSmtpTransport(sink.url));
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values([
+        { status_page_id: statusPageId, email: 'confirmed@example.com', confirmed_at: new Date() },
+        { status_page_id: statusPageId, email: 'pending@example.com' }
+      ])
+      .returning()
+      .execute();
+    confirmedSubscriberId = subscriberResult[0].id;
+  });
+
+  it('should email confirmed subscribers with a one-click unsubscribe link when an incident is created', async () => {
+    await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: []
+    }, userId);
+
+    await runQueuedJobs();
+    expect(sink.messages).toHaveLength(1);
+    const message = sink.messages[0];
+    expect(message.to).toEqual(['confirmed@example.com']);
+    expect(message.subject).toEqual('[Acme Status] New incident: API errors');
+    expect(message.text).toContain('Some requests are failing');
+    expect(message.text).toContain('/s/acme');
+
+    const pageToken = message.text.match(/\/unsubscribe\?token=(\S+)/)![1];
+    expect(verifySignedToken(pageToken, UNSUBSCRIBE_PURPOSE)).toEqual(confirmedSubscriberId);
+
+    expect(message.headers['list-unsubscribe']).toMatch(/^<.*\/api\/one-click-unsubscribe\?token=\S+>$/);
+    expect(message.headers['list-unsubscribe-post']).toEqual('List-Unsubscribe=One-Click');
+
+    const preferencesToken = message.text.match(/\/subscription-preferences\?token=(\S+)/)![1];
+    expect(verifySignedToken(preferencesToken, SUBSCRIPTION_PREFERENCES_PURPOSE)).toEqual(confirmedSubscriberId);
+  });
+
+  it('should email subscribers about incident updates', async () => {
+    const incident = await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: []
+    }, userId);
+    await runQueuedJobs();
+    sink.messages.length = 0;
+
+    await createIncidentUpdate({
+      incident_id: incident.id,
+      title: 'Fixed',
+      description: 'A bad deploy was rolled back',
+      status: 'resolved'
+    }, userId);
+
+    await runQueuedJobs();
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].subject).toEqual('[Acme Status] Resolved: API errors');
+    expect(sink.messages[0].text).toContain('A bad deploy was rolled back');
+  });
+
+  it('should email subscribers when maintenance is scheduled and when it starts, but not when it ends', async () => {
+    const maintenanceWindow = await createMaintenanceWindow({
+      status_page_id: statusPageId,
+      title: 'Database upgrade',
+      description: 'Brief read-only period',
+      scheduled_start: new Date('2030-01-01T02:00:00Z'),
+      scheduled_end: new Date('2030-01-01T03:00:00Z'),
+      affected_component_ids: []
+    }, userId);
+
+    await runQueuedJobs();
+    expect(sink.messages.map(m => m.subject)).toEqual(['[Acme Status] Scheduled maintenance: Database upgrade']);
+
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+    // Starting again while already running is not news
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'completed' });
+
+    await runQueuedJobs();
+    expect(sink.messages.map(m => m.subject)).toEqual([
+      '[Acme Status] Scheduled maintenance: Database upgrade',
+      '[Acme Status] Maintenance in progress: Database upgrade'
+    ]);
+  });
+
+  it('should keep notifying the others when one delivery fails, and retry only that one', async () => {
+    await db.insert(subscribersTable)
+      .values({ status_page_id: statusPageId, email: 'another@example.com', confirmed_at: new Date() })
+      .execute();
+
+    let failing = true;
+    const delivered: MailMessage[] = [];
+    setMailTransport({
+      send: async (message) => {
+        if (failing && message.to === 'confirmed@example.com') {
+          throw new Error('Mailbox unavailable');
+        }
+        delivered.push(message);
+      }
+    });
+
+    await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: []
+    }, userId);
+
+    await runQueuedJobs();
+    expect(delivered.map(m => m.to)).toEqual(['another@example.com']);
+    const failed = await db.select().from(jobsTable).where(eq(jobsTable.status, 'pending')).execute();
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ type: 'subscriber.email', payload: { subscriberId: confirmedSubscriberId }, last_error: 'Mailbox unavailable' });
+
+    failing = false;
+    await runDueJobs(new Date(Date.now() + JOB_RETRY_BASE_MS));
+    expect(delivered.map(m => m.to)).toEqual(['another@example.com', 'confirmed@example.com']);
+  });
+
+  describe('component choices', () => {
+    let apiId: number;
+    let dashboardId: number;
+
+    beforeEach(async () => {
+      const componentResult = await db.insert(componentsTable)
+        .values([
+          { status_page_id: statusPageId, name: 'API' },
+          { status_page_id: statusPageId, name: 'Dashboard' }
+        ])
+        .returning()
+        .execute();
+      apiId = componentResult[0].id;
+      dashboardId = componentResult[1].id;
+
+      const subscriberResult = await db.insert(subscribersTable)
+        .values([
+          { status_page_id: statusPageId, email: 'api@example.com', confirmed_at: new Date() },
+          { status_page_id: statusPageId, email: 'dashboard@example.com', confirmed_at: new Date() }
+        ])
+        .returning()
+        .execute();
+      await setSubscriberComponents(subscriberResult[0].id, statusPageId, [apiId]);
+      await setSubscriberComponents(subscriberResult[1].id, statusPageId, [dashboardId]);
+    });
+
+    const recipients = () => sink.messages.flatMap(m => m.to).sort();
+
+    it('should only email subscribers who chose an affected component, and those who chose none', async () => {
+      await createIncident({
+        status_page_id: statusPageId,
+        title: 'API errors',
+        description: 'Some requests are failing',
+        status: 'investigating',
+        affected_component_ids: [apiId]
+      }, userId);
+
+      await runQueuedJobs();
+      expect(recipients()).toEqual(['api@example.com', 'confirmed@example.com']);
+    });
+
+    it('should email everyone about incidents that affect no particular component', async () => {
+      await createIncident({
+        status_page_id: statusPageId,
+        title: 'Degraded network',
+        description: 'Everything is slow',
+        status: 'investigating',
+        affected_component_ids: []
+      }, userId);
+
+      await runQueuedJobs();
+      expect(recipients()).toEqual(['api@example.com', 'confirmed@example.com', 'dashboard@example.com']);
+    });
+
+    it('should send incident updates to the same subscribers as the incident', async () => {
+      const incident = await createIncident({
+        status_page_id: statusPageId,
+        title: 'Dashboard errors',
+        description: 'Pages fail to load',
+        status: 'investigating',
+        affected_component_ids: [dashboardId]
+      }, userId);
+      await runQueuedJobs();
+      sink.messages.length = 0;
+
+      await createIncidentUpdate({
+        incident_id: incident.id,
+        title: 'Fixed',
+        description: 'A bad deploy was rolled back',
+        status: 'resolved'
+      }, userId);
+
+      await runQueuedJobs();
+      expect(recipients()).toEqual(['confirmed@example.com', 'dashboard@example.com']);
+    });
+
+    it('should only email subscribers of the affected components about maintenance', async () => {
+      const maintenanceWindow = await createMaintenanceWindow({
+        status_page_id: statusPageId,
+        title: 'Database upgrade',
+        description: 'Brief read-only period',
+        scheduled_start: new Date('2030-01-01T02:00:00Z'),
+        scheduled_end: new Date('2030-01-01T03:00:00Z'),
+        affected_component_ids: [apiId]
+      }, userId);
+
+      await runQueuedJobs();
+      expect(recipients()).toEqual(['api@example.com', 'confirmed@example.com']);
+      sink.messages.length = 0;
+
+      await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+
+      await runQueuedJobs();
+      expect(recipients()).toEqual(['api@example.com', 'confirmed@example.com']);
+    });
+
+    it('should replace earlier choices and reject components of other pages', async () => {
+      await setSubscriberComponents(confirmedSubscriberId, statusPageId, [apiId, dashboardId, apiId]);
+      await setSubscriberComponents(confirmedSubscriberId, statusPageId, [dashboardId]);
+
+      const choices = await db.select()
+        .from(subscriberComponentsTable)
+        .where(eq(subscriberComponentsTable.subscriber_id, confirmedSubscriberId))
+        .execute();
+      expect(choices.map(choice => choice.component_id)).toEqual([dashboardId]);
+
+      await expect(setSubscriberComponents(confirmedSubscriberId, statusPageId, [99999])).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('wantsNotification', () => {
+    it('should match chosen components against affected ones', () => {
+      expect(wantsNotification([], [1])).toBe(true);
+      expect(wantsNotification([1], [])).toBe(true);
+      expect(wantsNotification([1, 2], [2, 3])).toBe(true);
+      expect(wantsNotification([1], [2])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,593 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  incidentsTable,
+  incidentUpdatesTable,
+  maintenanceWindowsTable,
+  sessionsTable,
+  invitationsTable,
+  webhookEndpointsTable,
+  webhookDeliveriesTable,
+  chatIntegrationsTable,
+  smsSubscribersTable,
+  smsRulesTable,
+  jobsTable,
+  apiKeysTable,
+  ssoConnectionsTable,
+  subscribersTable,
+  incidentTranslationsTable,
+  incidentUpdateTranslationsTable
+} from '../db/schema';
+import { createCaller, createContext } from '../index';
+import { SESSION_COOKIE_NAME, hashToken } from '../lib/auth';
+import { setDnsResolver } from '../lib/custom_domains';
+import { eq } from 'drizzle-orm';
+
+// Build a router caller authenticated through a real session cookie
+const callerFor = async (token: string | null) => {
+  const req = new IncomingMessage(new Socket());
+  if (token) {
+    req.headers.cookie = `${SESSION_COOKIE_NAME}=${token}`;
+  }
+  const res = new ServerResponse(req);
+  return createCaller(await createContext({ req, res }));
+};
+
+// Create an organization with one of everything, owned by a fresh user
+const createTenant = async (name: string) => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: `${name}@example.com`,
+      password_hash: 'hashed_password',
+      first_name: name,
+      last_name: 'Owner'
+    })
+    .returning()
+    .execute();
+  const user = userResult[0];
+
+  await db.insert(sessionsTable)
+    .values({ user_id: user.id, token_hash: hashToken(`${name}-token`), expires_at: new Date(Date.now() + 60_000) })
+    .execute();
+
+  const orgResult = await db.insert(organizationsTable)
+    .values({ name, slug: name, plan_type: 'enterprise', owner_id: user.id })
+    .returning()
+    .execute();
+  const organization = orgResult[0];
+
+  const pageResult = await db.insert(statusPagesTable)
+    .values({ organization_id: organization.id, name: `${name} Status`, slug: `${name}-status` })
+    .returning()
+    .execute();
+  const statusPage = pageResult[0];
+
+  const componentResult = await db.insert(componentsTable)
+    .values({ status_page_id: statusPage.id, name: 'API' })
+    .returning()
+    .execute();
+  const component = componentResult[0];
+
+  const incidentResult = await db.insert(incidentsTable)
+    .values({ status_page_id: statusPage.id, title: 'Outage', description: 'API down', created_by: user.id })
+    .returning()
+    .execute();
+  const incident = incidentResult[0];
+
+  const updateResult = await db.insert(incidentUpdatesTable)
+    .values({ incident_id: incident.id, title: 'Investigating', description: 'Looking into it', status: 'investigating', created_by: user.id })
+    .returning()
+    .execute();
+  const incidentUpdate = updateResult[0];
+
+  const maintenanceResult = await db.insert(maintenanceWindowsTable)
+    .values({
+      status_page_id: statusPage.id,
+      title: 'Upgrade',
+      description: 'Database upgrade',
+      scheduled_start: new Date('2030-01-01T00:00:00Z'),
+      scheduled_end: new Date('2030-01-01T02:00:00Z'),
+      created_by: user.id
+    })
+    .returning()
+    .execute();
+  const maintenanceWindow = maintenanceResult[0];
+
+  const invitationResult = await db.insert(invitationsTable)
+    .values({ organization_id: organization.id, email: `new-${name}@example.com`, invited_by: user.id, expires_at: new Date(Date.now() + 60_000) })
+    .returning()
+    .execute();
+  const invitation = invitationResult[0];
+
+  return { user, organization, statusPage, component, incident, incidentUpdate, maintenanceWindow, invitation, token: `${name}-token` };
+};
+
+describe('tenant isolation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let tenantA: Awaited<ReturnType<typeof createTenant>>;
+  let tenantB: Awaited<ReturnType<typeof createTenant>>;
+  let caller: Awaited<ReturnType<typeof callerFor>>;
+
+  beforeEach(async () => {
+    tenantA = await createTenant('alpha');
+    tenantB = await createTenant('bravo');
+    caller = await callerFor(tenantA.token);
+  });
+
+  it('should allow access to the caller\'s own organization', async () => {
+    const pages = await caller.getStatusPages({ organizationId: tenantA.organization.id });
+    const components = await caller.getComponents({ statusPageId: tenantA.statusPage.id });
+    const updates = await caller.getIncidentUpdates({ incidentId: tenantA.incident.id });
+
+    expect(pages).toHaveLength(1);
+    expect(components).toHaveLength(1);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('should only list organizations the caller belongs to', async () => {
+    const organizations = await caller.getOrganizations();
+
+    expect(organizations.map(o => o.id)).toEqual([tenantA.organization.id]);
+  });
+
+  it('should reject unauthenticated callers', async () => {
+    const anonymous = await callerFor(null);
+
+    await expect(anonymous.getStatusPage({ id: tenantA.statusPage.id })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(anonymous.getOrganizations()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject cross-tenant organization procedures', async () => {
+    const organizationId = tenantB.organization.id;
+
+    await expect(caller.getStatusPages({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateOrganizationPlan({ id: organizationId, plan_type: 'free' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.addOrganizationMember({ organizationId, userId: tenantA.user.id, role: 'owner' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject cross-tenant invitation procedures', async () => {
+    const organizationId = tenantB.organization.id;
+
+    await expect(caller.createInvitation({ organization_id: organizationId, email: 'intruder@example.com' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getInvitations({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.revokeInvitation({ id: tenantB.invitation.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.revokeInvitation({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const invitations = await db.select().from(invitationsTable).execute();
+    expect(invitations).toHaveLength(2);
+    expect(invitations.find(i => i.id === tenantB.invitation.id)?.status).toEqual('pending');
+  });
+
+  it('should reject cross-tenant member procedures', async () => {
+    const organizationId = tenantB.organization.id;
+    const userId = tenantB.user.id;
+
+    await expect(caller.getOrganizationMembers({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateMemberRole({ organizationId, userId, role: 'viewer' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.removeOrganizationMember({ organizationId, userId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.transferOrganizationOwnership({ organizationId, newOwnerId: tenantA.user.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getOrganizationMembers({ organizationId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should not reach another tenant\'s users through the caller\'s own organization', async () => {
+    const organizationId = tenantA.organization.id;
+    const userId = tenantB.user.id;
+
+    await expect(caller.updateMemberRole({ organizationId, userId, role: 'viewer' })).rejects.toThrow(/not a member/i);
+    await expect(caller.removeOrganizationMember({ organizationId, userId })).rejects.toThrow(/not a member/i);
+    await expect(caller.transferOrganizationOwnership({ organizationId, newOwnerId: userId })).rejects.toThrow(/not a member/i);
+
+    const organizations = await db.select().from(organizationsTable).execute();
+    expect(organizations.find(o => o.id === tenantB.organization.id)?.owner_id).toEqual(tenantB.user.id);
+  });
+
+  it('should keep each tenant\'s audit log to itself', async () => {
+    const bravo = await callerFor(tenantB.token);
+    await bravo.updateComponent({ id: tenantB.component.id, status: 'major_outage' });
+
+    await expect(caller.getAuditLog({ organization_id: tenantB.organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Filtering the caller's own log by another tenant's entity finds nothing
+    const own = await caller.getAuditLog({ organization_id: tenantA.organization.id, entity_type: 'component', entity_id: tenantB.component.id });
+    expect(own.entries).toHaveLength(0);
+
+    const theirs = await bravo.getAuditLog({ organization_id: tenantB.organization.id });
+    expect(theirs.entries).toHaveLength(1);
+  });
+
+  it('should reject cross-tenant status page procedures', async () => {
+    const id = tenantB.statusPage.id;
+
+    await expect(caller.createStatusPage({
+      organization_id: tenantB.organization.id,
+      name: 'Injected',
+      slug: 'injected',
+      description: null,
+      custom_domain: null,
+      branding_logo_url: null,
+      branding_primary_color: null,
+      branding_secondary_color: null,
+      is_public: true
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getStatusPage({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateStatusPage({ id, name: 'Hijacked' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteStatusPage({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject cross-tenant custom domain procedures', async () => {
+    await db.update(statusPagesTable)
+      .set({ custom_domain: 'status.bravo.test', custom_domain_verification_token: 'token-123', custom_domain_verified_at: new Date() })
+      .where(eq(statusPagesTable.id, tenantB.statusPage.id))
+      .execute();
+
+    await expect(caller.verifyCustomDomain({ status_page_id: tenantB.statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.verifyCustomDomain({ status_page_id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    // A domain another tenant has verified cannot be claimed
+    await expect(caller.updateStatusPage({ id: tenantA.statusPage.id, custom_domain: 'status.bravo.test' })).rejects.toThrow(/already in use/i);
+
+    const pages = await db.select().from(statusPagesTable).execute();
+    expect(pages.find(p => p.id === tenantA.statusPage.id)?.custom_domain).toBeNull();
+  });
+
+  it('should not reveal who took over a domain in the other tenant\'s audit log', async () => {
+    await db.update(statusPagesTable)
+      .set({ custom_domain: 'status.shared.test', custom_domain_verification_token: 'bravo-token' })
+      .where(eq(statusPagesTable.id, tenantB.statusPage.id))
+      .execute();
+    await db.update(statusPagesTable)
+      .set({ custom_domain: 'status.shared.test', custom_domain_verification_token: 'alpha-token' })
+      .where(eq(statusPagesTable.id, tenantA.statusPage.id))
+      .execute();
+    setDnsResolver({ resolveTxt: async () => [['edgestatus-verification=alpha-token']] });
+
+    await caller.verifyCustomDomain({ status_page_id: tenantA.statusPage.id });
+
+    const bravo = await callerFor(tenantB.token);
+    const log = await bravo.getAuditLog({ organization_id: tenantB.organization.id });
+    expect(log.entries).toHaveLength(1);
+    expect(log.entries[0].entity_id).toEqual(tenantB.statusPage.id);
+    expect(log.entries[0].actor_user_id).toBeNull();
+    expect(log.entries[0].actor_name).toBeNull();
+    expect(log.entries[0].actor_email).toBeNull();
+  });
+
+  it('should reject cross-tenant component procedures', async () => {
+    const statusPageId = tenantB.statusPage.id;
+    const id = tenantB.component.id;
+
+    await expect(caller.createComponent({
+      status_page_id: statusPageId,
+      name: 'Injected',
+      description: null,
+      status: 'operational',
+      position: 0
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getComponents({ statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateComponent({ id, status: 'major_outage' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteComponent({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject cross-tenant incident procedures', async () => {
+    const statusPageId = tenantB.statusPage.id;
+    const incidentId = tenantB.incident.id;
+
+    await expect(caller.createIncident({
+      status_page_id: statusPageId,
+      title: 'Injected',
+      description: 'Injected incident',
+      status: 'investigating',
+      affected_component_ids: []
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getIncidents({ statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateIncident({ id: incidentId, status: 'resolved' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createIncidentUpdate({
+      incident_id: incidentId,
+      title: 'Injected',
+      description: 'Injected update',
+      status: 'resolved'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getIncidentUpdates({ incidentId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject another tenant\'s components on the caller\'s own incident', async () => {
+    await expect(caller.createIncident({
+      status_page_id: tenantA.statusPage.id,
+      title: 'Mixed',
+      description: 'References a foreign component',
+      status: 'investigating',
+      affected_component_ids: [tenantB.component.id]
+    })).rejects.toThrow(/do not belong to the status page/i);
+  });
+
+  it('should reject cross-tenant maintenance procedures', async () => {
+    const statusPageId = tenantB.statusPage.id;
+
+    await expect(caller.createMaintenanceWindow({
+      status_page_id: statusPageId,
+      title: 'Injected',
+      description: 'Injected maintenance',
+      scheduled_start: new Date('2030-02-01T00:00:00Z'),
+      scheduled_end: new Date('2030-02-01T01:00:00Z'),
+      affected_component_ids: []
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getMaintenanceWindows({ statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateMaintenanceWindow({ id: tenantB.maintenanceWindow.id, status: 'cancelled' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should reject cross-tenant webhook procedures', async () => {
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: tenantB.organization.id, url: 'https://hooks.bravo.test/', secret: 'bravo-secret', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    const id = endpointResult[0].id;
+    const deliveryResult = await db.insert(webhookDeliveriesTable)
+      .values({ webhook_endpoint_id: id, event_id: 'evt_1', event_type: 'incident.created', payload: {}, status: 'failed' })
+      .returning()
+      .execute();
+
+    await expect(caller.createWebhookEndpoint({
+      organization_id: tenantB.organization.id,
+      url: 'https://hooks.alpha.test/',
+      event_types: ['incident.created']
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getWebhookEndpoints({ organizationId: tenantB.organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateWebhookEndpoint({ id, url: 'https://hooks.alpha.test/' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.rotateWebhookSecret({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getWebhookDeliveries({ webhook_endpoint_id: id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.redeliverWebhook({ id: deliveryResult[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteWebhookEndpoint({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteWebhookEndpoint({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const endpoints = await db.select().from(webhookEndpointsTable).execute();
+    expect(endpoints).toHaveLength(1);
+    expect(endpoints[0].url).toEqual('https://hooks.bravo.test/');
+    expect(endpoints[0].secret).toEqual('bravo-secret');
+  });
+
+  it('should reject cross-tenant chat integration procedures', async () => {
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: tenantB.statusPage.id, provider: 'slack', name: 'Bravo alerts', bot_token: 'xoxb-bravo', channel: 'C123' })
+      .returning()
+      .execute();
+    const id = integrationResult[0].id;
+
+    await expect(caller.createChatIntegration({
+      status_page_id: tenantB.statusPage.id,
+      provider: 'teams',
+      name: 'Injected',
+      webhook_url: 'https://hooks.alpha.test/'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getChatIntegrations({ statusPageId: tenantB.statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateChatIntegration({ id, channel: 'C999' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.sendTestChatMessage({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteChatIntegration({ id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteChatIntegration({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const integrations = await db.select().from(chatIntegrationsTable).execute();
+    expect(integrations).toHaveLength(1);
+    expect(integrations[0].channel).toEqual('C123');
+  });
+
+  it('should reject cross-tenant SMS procedures', async () => {
+    const statusPageId = tenantB.statusPage.id;
+    const subscriberResult = await db.insert(smsSubscribersTable)
+      .values({ status_page_id: statusPageId, phone_number: '+15550100', verified_at: new Date() })
+      .returning()
+      .execute();
+    await db.insert(smsRulesTable)
+      .values({ status_page_id: statusPageId, event_type: 'incident.created', min_component_status: 'major_outage' })
+      .execute();
+
+    await expect(caller.getSmsSubscribers({ status_page_id: statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteSmsSubscriber({ id: subscriberResult[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteSmsSubscriber({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.getSmsRules({ status_page_id: statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.setSmsRules({ status_page_id: statusPageId, rules: [] })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getSmsUsage({ organizationId: tenantB.organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    expect(await db.select().from(smsSubscribersTable).execute()).toHaveLength(1);
+    expect(await db.select().from(smsRulesTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject cross-tenant job procedures', async () => {
+    const jobResult = await db.insert(jobsTable)
+      .values([
+        { type: 'chat.notify', payload: {}, organization_id: tenantB.organization.id, max_attempts: 5, status: 'dead' },
+        // System jobs belong to no organization, so no member can see or retry them
+        { type: 'sms.notify', payload: {}, max_attempts: 5, status: 'dead' }
+      ])
+      .returning()
+      .execute();
+
+    await expect(caller.getJobs({ organization_id: tenantB.organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.retryJob({ id: jobResult[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.retryJob({ id: jobResult[1].id })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const own = await caller.getJobs({ organization_id: tenantA.organization.id });
+    expect(own.jobs).toHaveLength(0);
+
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs.every(job => job.status === 'dead')).toBe(true);
+  });
+
+  it('should reject cross-tenant API key procedures', async () => {
+    const keyResult = await db.insert(apiKeysTable)
+      .values({ organization_id: tenantB.organization.id, name: 'Bravo CI', token_prefix: 'es_bravo', token_hash: hashToken('bravo-key'), scopes: ['read'], created_by: tenantB.user.id })
+      .returning()
+      .execute();
+
+    await expect(caller.createApiKey({
+      organization_id: tenantB.organization.id,
+      name: 'Injected',
+      scopes: ['incidents:write'],
+      expires_at: null
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getApiKeys({ organizationId: tenantB.organization.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.revokeApiKey({ id: keyResult[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.revokeApiKey({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    // The caller's own keys cannot be restricted to another tenant's pages
+    await expect(caller.createApiKey({
+      organization_id: tenantA.organization.id,
+      name: 'Mixed',
+      scopes: ['read'],
+      status_page_ids: [tenantB.statusPage.id],
+      expires_at: null
+    })).rejects.toThrow(/do not belong to the organization/i);
+
+    const keys = await db.select().from(apiKeysTable).execute();
+    expect(keys).toHaveLength(1);
+    expect(keys[0].revoked_at).toBeNull();
+  });
+
+  it('should reject deactivating or reactivating another tenant\'s users', async () => {
+    await expect(caller.deactivateUser({ userId: tenantB.user.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.reactivateUser({ userId: tenantB.user.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deactivateUser({ userId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users.find(u => u.id === tenantB.user.id)?.is_active).toBe(true);
+    // Their session still works
+    const bravo = await callerFor(tenantB.token);
+    expect(await bravo.getOrganizations()).toHaveLength(1);
+  });
+
+  it('should reject cross-tenant security settings', async () => {
+    await expect(caller.updateOrganizationSecurity({ id: tenantB.organization.id, require_two_factor: true })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateOrganizationSecurity({ id: 99999, require_two_factor: true })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const organizations = await db.select().from(organizationsTable).execute();
+    expect(organizations.find(o => o.id === tenantB.organization.id)?.require_two_factor).toBe(false);
+  });
+
+  it('should reject cross-tenant SSO procedures', async () => {
+    const organizationId = tenantB.organization.id;
+    await db.insert(ssoConnectionsTable)
+      .values({
+        organization_id: organizationId,
+        issuer: 'https://login.bravo.test',
+        client_id: 'bravo',
+        client_secret: 'bravo-secret',
+        allowed_domains: ['bravo.test'],
+        domain_verification_token: 'bravo-token'
+      })
+      .execute();
+
+    await expect(caller.getSsoConnection({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.upsertSsoConnection({
+      organization_id: organizationId,
+      issuer: 'https://login.alpha.test',
+      client_id: 'injected',
+      allowed_domains: ['alpha.test']
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.verifySsoDomain({ organizationId, domain: 'bravo.test' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteSsoConnection({ organizationId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getSsoConnection({ organizationId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const connections = await db.select().from(ssoConnectionsTable).execute();
+    expect(connections).toHaveLength(1);
+    expect(connections[0].issuer).toEqual('https://login.bravo.test');
+    expect(connections[0].verified_domains).toEqual([]);
+  });
+
+  it('should reject another tenant\'s maintenance calendar', async () => {
+    await expect(caller.getMaintenanceWindowCalendar({ maintenanceWindowId: tenantB.maintenanceWindow.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getMaintenanceWindowCalendar({ maintenanceWindowId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should reject another tenant\'s uptime history', async () => {
+    await expect(caller.getStatusPageUptime({ statusPageId: tenantB.statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getStatusPageUptime({ statusPageId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should reject cross-tenant page access settings', async () => {
+    const statusPageId = tenantB.statusPage.id;
+
+    await expect(caller.getStatusPageAccess({ status_page_id: statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateStatusPageAccess({
+      status_page_id: statusPageId,
+      password: 'let-me-in-please',
+      ip_allowlist: ['203.0.113.7']
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getStatusPageAccess({ status_page_id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const bravo = await callerFor(tenantB.token);
+    const access = await bravo.getStatusPageAccess({ status_page_id: statusPageId });
+    expect(access.password_protected).toBe(false);
+    expect(access.ip_allowlist).toEqual([]);
+  });
+
+  it('should reject another tenant\'s incident history', async () => {
+    await expect(caller.getIncidentHistory({ status_page_id: tenantB.statusPage.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getIncidentHistory({ status_page_id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const own = await caller.getIncidentHistory({ status_page_id: tenantA.statusPage.id });
+    expect(own.months.flatMap(month => month.incidents.map(incident => incident.id))).toEqual([tenantA.incident.id]);
+  });
+
+  it('should reject cross-tenant email subscriber procedures', async () => {
+    const statusPageId = tenantB.statusPage.id;
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: statusPageId, email: 'reader@bravo.test', confirmed_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(caller.getSubscribers({ status_page_id: statusPageId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteSubscriber({ id: subscriberResult[0].id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteSubscriber({ id: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject cross-tenant translation procedures', async () => {
+    await db.insert(incidentTranslationsTable)
+      .values({ incident_id: tenantB.incident.id, locale: 'de', title: 'Ausfall', description: 'API nicht erreichbar' })
+      .execute();
+
+    await expect(caller.getIncidentTranslations({ incidentId: tenantB.incident.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.upsertIncidentTranslation({
+      incident_id: tenantB.incident.id,
+      locale: 'de',
+      title: 'Gehackt',
+      description: 'Gehackt'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.upsertIncidentUpdateTranslation({
+      incident_update_id: tenantB.incidentUpdate.id,
+      locale: 'fr',
+      title: 'Piraté',
+      description: 'Piraté'
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteIncidentTranslation({ incident_id: tenantB.incident.id, locale: 'de' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getIncidentTranslations({ incidentId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.upsertIncidentUpdateTranslation({
+      incident_update_id: 99999,
+      locale: 'fr',
+      title: 'Piraté',
+      description: 'Piraté'
+    })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    const translations = await db.select().from(incidentTranslationsTable).execute();
+    expect(translations).toHaveLength(1);
+    expect(translations[0].title).toEqual('Ausfall');
+    expect(await db.select().from(incidentUpdateTranslationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should leave the other tenant\'s data untouched', async () => {
+    await caller.updateComponent({ id: tenantB.component.id, status: 'major_outage' }).catch(() => null);
+    await caller.deleteStatusPage({ id: tenantB.statusPage.id }).catch(() => null);
+
+    const components = await db.select().from(componentsTable).execute();
+    const pages = await db.select().from(statusPagesTable).execute();
+
+    expect(components.find(c => c.id === tenantB.component.id)?.status).toEqual('operational');
+    expect(pages).toHaveLength(2);
+  });
+});
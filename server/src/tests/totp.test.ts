@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  verifyTotpCode,
+  buildProvisioningUri,
+  totpStep
+} from '../lib/totp';
+
+// RFC 6238 appendix B uses the ASCII seed "12345678901234567890" for SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toEqual('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toEqual('12345678901234567890');
+    expect(base32Decode('gezdgnbv gy3tqojq')).toEqual(base32Decode('GEZDGNBVGY3TQOJQ'));
+    expect(() => base32Decode('not base32!')).toThrow(/base32/i);
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotpCode(RFC_SECRET, totpStep(59 * 1000), 8)).toEqual('94287082');
+    expect(generateTotpCode(RFC_SECRET, totpStep(1111111109 * 1000), 8)).toEqual('07081804');
+    expect(generateTotpCode(RFC_SECRET, totpStep(1234567890 * 1000), 8)).toEqual('89005924');
+    expect(generateTotpCode(RFC_SECRET, totpStep(20000000000 * 1000), 8)).toEqual('65353130');
+    expect(generateTotpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toEqual('081804');
+  });
+
+  it('should generate distinct 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toEqual(secret);
+  });
+
+  it('should accept codes within one step of the current time and return the matching step', () => {
+    const now = 1_700_000_000_000;
+    const step = totpStep(now);
+
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), now)).toEqual(step);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), now)).toEqual(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), now)).toEqual(step + 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '')).toBeNull();
+  });
+
+  it('should tolerate spaces inside a code', () => {
+    const now = 1_700_000_000_000;
+    const code = generateTotpCode(RFC_SECRET, totpStep(now));
+
+    expect(verifyTotpCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, now)).toEqual(totpStep(now));
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = buildProvisioningUri(RFC_SECRET, 'user@example.com', 'EdgeStatus');
+    const url = new URL(uri);
+
+    expect(url.protocol).toEqual('otpauth:');
+    expect(uri.startsWith('otpauth://totp/EdgeStatus%3Auser%40example.com?')).toBe(true);
+    expect(url.searchParams.get('secret')).toEqual(RFC_SECRET);
+    expect(url.searchParams.get('issuer')).toEqual('EdgeStatus');
+    expect(url.searchParams.get('digits')).toEqual('6');
+    expect(url.searchParams.get('period')).toEqual('30');
+  });
+});
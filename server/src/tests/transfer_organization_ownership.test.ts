@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable } from '../db/schema';
+import { transferOrganizationOwnership } from '../handlers/transfer_organization_ownership';
+import { getMemberRole } from '../lib/permissions';
+import { eq } from 'drizzle-orm';
+
+describe('transferOrganizationOwnership', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let memberId: number;
+  let outsiderId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' },
+        { email: 'outsider@example.com', password_hash: 'hashed_password', first_name: 'Oscar', last_name: 'Outsider' }
+      ])
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+    memberId = userResult[1].id;
+    outsiderId = userResult[2].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(organizationMembersTable)
+      .values({ organization_id: organizationId, user_id: memberId, role: 'member' })
+      .execute();
+  });
+
+  it('should make the member the owner and keep the previous owner as admin', async () => {
+    const result = await transferOrganizationOwnership(organizationId, memberId);
+
+    expect(result.owner_id).toEqual(memberId);
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.organization_id, organizationId))
+      .execute();
+
+    expect(members.find(m => m.user_id === memberId)!.role).toEqual('owner');
+    expect(members.find(m => m.user_id === ownerId)!.role).toEqual('admin');
+
+    expect(await getMemberRole(memberId, organizationId)).toEqual('owner');
+    expect(await getMemberRole(ownerId, organizationId)).toEqual('admin');
+  });
+
+  it('should only transfer to existing members', async () => {
+    await expect(transferOrganizationOwnership(organizationId, outsiderId)).rejects.toThrow(/not a member/i);
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(organizations[0].owner_id).toEqual(ownerId);
+  });
+
+  it('should be a no-op when transferring to the current owner', async () => {
+    const result = await transferOrganizationOwnership(organizationId, ownerId);
+
+    expect(result.owner_id).toEqual(ownerId);
+  });
+
+  it('should throw error for non-existent organization', async () => {
+    await expect(transferOrganizationOwnership(99999, memberId)).rejects.toThrow(/organization not found/i);
+  });
+});
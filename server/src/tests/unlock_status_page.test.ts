@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, statusPagePasswordsTable, statusPageSessionsTable } from '../db/schema';
+import { unlockStatusPage } from '../handlers/unlock_status_page';
+import { findViewableStatusPage } from '../lib/page_access';
+import { hashToken, pageSessionCookieName } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('unlockStatusPage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let statusPageId: number;
+  let otherStatusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Internal', slug: 'acme-internal', is_public: false },
+        { organization_id: orgResult[0].id, name: 'Finance', slug: 'acme-finance', is_public: false }
+      ])
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+    otherStatusPageId = pageResult[1].id;
+
+    await db.insert(statusPagePasswordsTable)
+      .values([
+        { status_page_id: statusPageId, password_hash: await Bun.password.hash('open sesame') },
+        { status_page_id: otherStatusPageId, password_hash: await Bun.password.hash('open sesame') }
+      ])
+      .execute();
+  });
+
+  it('should issue a session for the page when the password is right', async () => {
+    const result = await unlockStatusPage('acme-internal', 'open sesame');
+
+    expect(result.status_page_id).toEqual(statusPageId);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    // Only the hash of the token is stored
+    const sessions = await db.select().from(statusPageSessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashToken(result.token));
+
+    const viewer = { ip: null, cookies: { [pageSessionCookieName(statusPageId)]: result.token }, userId: null };
+    const { page } = await findViewableStatusPage('acme-internal', viewer);
+    expect(page.id).toEqual(statusPageId);
+  });
+
+  it('should scope the session to one page, even when pages share a password', async () => {
+    const result = await unlockStatusPage('acme-internal', 'open sesame');
+
+    const viewer = { ip: null, cookies: { [pageSessionCookieName(otherStatusPageId)]: result.token }, userId: null };
+    await expect(findViewableStatusPage('acme-finance', viewer)).rejects.toThrow(/private/i);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(unlockStatusPage('acme-internal', 'open barley')).rejects.toThrow(/incorrect page password/i);
+
+    expect(await db.select().from(statusPageSessionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not unlock pages without a password', async () => {
+    await db.delete(statusPagePasswordsTable)
+      .where(eq(statusPagePasswordsTable.status_page_id, statusPageId))
+      .execute();
+
+    await expect(unlockStatusPage('acme-internal', 'open sesame')).rejects.toThrow(/incorrect page password/i);
+  });
+
+  it('should reject unknown pages', async () => {
+    await expect(unlockStatusPage('nope', 'open sesame')).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable, subscribersTable, subscriberComponentsTable, auditLogsTable } from '../db/schema';
+import { unsubscribe } from '../handlers/unsubscribe';
+import { signToken } from '../lib/auth';
+import { SUBSCRIPTION_CONFIRMATION_PURPOSE, UNSUBSCRIBE_PURPOSE } from '../lib/subscribers';
+
+describe('unsubscribe', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let subscriberId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values([
+        { status_page_id: pageResult[0].id, email: 'reader@example.com', confirmed_at: new Date() },
+        { status_page_id: pageResult[0].id, email: 'other@example.com', confirmed_at: new Date() }
+      ])
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: pageResult[0].id, name: 'API' })
+      .returning()
+      .execute();
+
+    await db.insert(subscriberComponentsTable)
+      .values({ subscriber_id: subscriberId, component_id: componentResult[0].id })
+      .execute();
+  });
+
+  const unsubscribeToken = (id: number) => signToken(UNSUBSCRIBE_PURPOSE, id, new Date(Date.now() + 60 * 60 * 1000));
+
+  it('should remove only the subscriber the link was sent to', async () => {
+    const result = await unsubscribe(unsubscribeToken(subscriberId));
+
+    expect(result).toBe(true);
+
+    const subscribers = await db.select().from(subscribersTable).execute();
+    expect(subscribers.map(s => s.email)).toEqual(['other@example.com']);
+    expect(await db.select().from(subscriberComponentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should record the removal without an actor', async () => {
+    await unsubscribe(unsubscribeToken(subscriberId));
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].organization_id).toEqual(organizationId);
+    expect(entries[0].actor_user_id).toBeNull();
+    expect(entries[0].entity_type).toEqual('subscriber');
+    expect(entries[0].entity_id).toEqual(subscriberId);
+    expect(entries[0].action).toEqual('delete');
+    expect(entries[0].before?.['email']).toEqual('reader@example.com');
+    expect(entries[0].after).toBeNull();
+  });
+
+  it('should succeed when the link is used again', async () => {
+    const token = unsubscribeToken(subscriberId);
+    await unsubscribe(token);
+
+    expect(await unsubscribe(token)).toBe(true);
+    // Nothing was removed the second time
+    expect(await db.select().from(auditLogsTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject invalid and wrong-purpose tokens', async () => {
+    await expect(unsubscribe('not-a-token')).rejects.toThrow(/invalid or expired/i);
+    await expect(unsubscribe(signToken(SUBSCRIPTION_CONFIRMATION_PURPOSE, subscriberId, new Date(Date.now() + 60000)))).rejects.toThrow(/invalid or expired/i);
+
+    expect(await db.select().from(subscribersTable).execute()).toHaveLength(2);
+  });
+});
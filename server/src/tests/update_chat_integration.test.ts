@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, chatIntegrationsTable } from '../db/schema';
+import { updateChatIntegration } from '../handlers/update_chat_integration';
+import { eq } from 'drizzle-orm';
+
+describe('updateChatIntegration', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+  let integrationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Status', slug: 'status' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const integrationResult = await db.insert(chatIntegrationsTable)
+      .values({ status_page_id: statusPageId, provider: 'slack', name: '#incidents', webhook_url: 'https://hooks.slack.com/services/A' })
+      .returning()
+      .execute();
+    integrationId = integrationResult[0].id;
+  });
+
+  const storedIntegration = async () => {
+    const integrations = await db.select()
+      .from(chatIntegrationsTable)
+      .where(eq(chatIntegrationsTable.id, integrationId))
+      .execute();
+    return integrations[0];
+  };
+
+  it('should keep credentials that are left out', async () => {
+    const result = await updateChatIntegration({ id: integrationId, name: '#status' });
+
+    expect(result.name).toEqual('#status');
+    expect(result.has_webhook_url).toBe(true);
+    expect((await storedIntegration()).webhook_url).toEqual('https://hooks.slack.com/services/A');
+  });
+
+  it('should switch to threaded posting when a bot token and channel are added', async () => {
+    const result = await updateChatIntegration({ id: integrationId, bot_token: 'xoxb-test', channel: 'C0123' });
+
+    expect(result.has_bot_token).toBe(true);
+    expect(result.channel).toEqual('C0123');
+    expect((await storedIntegration()).bot_token).toEqual('xoxb-test');
+  });
+
+  it('should disable the integration', async () => {
+    expect((await updateChatIntegration({ id: integrationId, is_active: false })).is_active).toBe(false);
+  });
+
+  it('should reject changes that leave nothing to post with', async () => {
+    await expect(updateChatIntegration({ id: integrationId, webhook_url: null })).rejects.toThrow(/slack integrations need/i);
+    expect((await storedIntegration()).webhook_url).toEqual('https://hooks.slack.com/services/A');
+  });
+
+  it('should throw error for non-existent integration', async () => {
+    await expect(updateChatIntegration({ id: 99999, name: 'x' })).rejects.toThrow(/chat integration with id 99999 not found/i);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, organizationsTable, statusPagesTable, componentsTable } from '../db/schema';
+import { usersTable, organizationsTable, statusPagesTable, componentsTable, auditLogsTable, componentStatusChangesTable } from '../db/schema';
 import { type UpdateComponentInput } from '../schema';
 import { updateComponent } from '../handlers/update_component';
 import { eq } from 'drizzle-orm';
@@ -224,6 +224,61 @@ describe('updateComponent', () => {
     expect(result.updated_at.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
   });
 
+  it('should record who changed the status and what it was before', async () => {
+    const testData = await createTestData();
+
+    await updateComponent(
+      { id: testData.component.id, status: 'major_outage', name: 'Original Component' },
+      { userId: testData.user.id, apiKey: null }
+    );
+
+    const entries = await db.select()
+      .from(auditLogsTable)
+      .where(eq(auditLogsTable.entity_id, testData.component.id))
+      .execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].organization_id).toEqual(testData.organization.id);
+    expect(entries[0].actor_user_id).toEqual(testData.user.id);
+    expect(entries[0].entity_type).toEqual('component');
+    expect(entries[0].action).toEqual('update');
+    // Only the changed field is recorded
+    expect(entries[0].before).toEqual({ status: 'operational' });
+    expect(entries[0].after).toEqual({ status: 'major_outage' });
+  });
+
+  it('should not record an update that changed nothing', async () => {
+    const testData = await createTestData();
+
+    await updateComponent({ id: testData.component.id, status: 'operational' });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should record status changes in the component history', async () => {
+    const testData = await createTestData();
+
+    const updated = await updateComponent({ id: testData.component.id, status: 'partial_outage' });
+    await updateComponent({ id: testData.component.id, name: 'Renamed' });
+    await updateComponent({ id: testData.component.id, status: 'partial_outage' });
+    await updateComponent({ id: testData.component.id, status: 'operational' });
+
+    const changes = await db.select()
+      .from(componentStatusChangesTable)
+      .where(eq(componentStatusChangesTable.component_id, testData.component.id))
+      .orderBy(componentStatusChangesTable.id)
+      .execute();
+
+    expect(changes.map(change => [change.previous_status, change.status])).toEqual([
+      ['operational', 'partial_outage'],
+      ['partial_outage', 'operational']
+    ]);
+    expect(changes[0].source).toEqual('component');
+    expect(changes[0].source_id).toBeNull();
+    expect(changes[0].changed_at).toEqual(updated.updated_at);
+  });
+
   it('should handle all possible component statuses', async () => {
     const testData = await createTestData();
     const statuses = ['operational', 'performance_issues', 'partial_outage', 'major_outage', 'under_maintenance'] as const;
@@ -1,7 +1,15 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, organizationsTable, statusPagesTable, maintenanceWindowsTable } from '../db/schema';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  maintenanceWindowsTable,
+  componentsTable,
+  maintenanceAffectedComponentsTable,
+  componentStatusChangesTable
+} from '../db/schema';
 import { type UpdateMaintenanceWindowInput } from '../schema';
 import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
 import { eq } from 'drizzle-orm';
@@ -300,6 +308,67 @@ describe('updateMaintenanceWindow', () => {
     expect(dbResult[0].id).toEqual(result.id);
   });
 
+  it('should bump the sequence only when the window is rescheduled or cancelled', async () => {
+    await setupTestData();
+
+    const retitled = await updateMaintenanceWindow({ id: maintenanceWindowId, title: 'Renamed' });
+    expect(retitled.sequence).toEqual(0);
+
+    // Same times again is not a reschedule
+    const unchanged = await updateMaintenanceWindow({
+      id: maintenanceWindowId,
+      scheduled_start: new Date('2024-01-01T10:00:00Z'),
+      scheduled_end: new Date('2024-01-01T12:00:00Z')
+    });
+    expect(unchanged.sequence).toEqual(0);
+
+    const rescheduled = await updateMaintenanceWindow({ id: maintenanceWindowId, scheduled_end: new Date('2024-01-01T13:00:00Z') });
+    expect(rescheduled.sequence).toEqual(1);
+
+    const started = await updateMaintenanceWindow({ id: maintenanceWindowId, status: 'in_progress' });
+    expect(started.sequence).toEqual(1);
+
+    const cancelled = await updateMaintenanceWindow({ id: maintenanceWindowId, status: 'cancelled' });
+    expect(cancelled.sequence).toEqual(2);
+  });
+
+  it('should put affected components under maintenance while the window runs', async () => {
+    await setupTestData();
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: statusPageId, name: 'API' },
+        { status_page_id: statusPageId, name: 'Database' }
+      ])
+      .returning()
+      .execute();
+    const [api, database] = componentResult;
+    await db.insert(maintenanceAffectedComponentsTable)
+      .values([
+        { maintenance_window_id: maintenanceWindowId, component_id: api.id },
+        { maintenance_window_id: maintenanceWindowId, component_id: database.id }
+      ])
+      .execute();
+
+    await updateMaintenanceWindow({ id: maintenanceWindowId, status: 'in_progress' });
+    const during = await db.select().from(componentsTable).orderBy(componentsTable.id).execute();
+    expect(during.map(c => c.status)).toEqual(['under_maintenance', 'under_maintenance']);
+
+    // Something went wrong with the database during the maintenance; that must survive the window ending
+    await db.update(componentsTable).set({ status: 'major_outage' }).where(eq(componentsTable.id, database.id)).execute();
+
+    await updateMaintenanceWindow({ id: maintenanceWindowId, status: 'completed' });
+    const after = await db.select().from(componentsTable).orderBy(componentsTable.id).execute();
+    expect(after.map(c => c.status)).toEqual(['operational', 'major_outage']);
+
+    const changes = await db.select()
+      .from(componentStatusChangesTable)
+      .where(eq(componentStatusChangesTable.component_id, api.id))
+      .orderBy(componentStatusChangesTable.id)
+      .execute();
+    expect(changes.map(change => change.status)).toEqual(['under_maintenance', 'operational']);
+    expect(changes.every(change => change.source === 'maintenance' && change.source_id === maintenanceWindowId)).toBe(true);
+  });
+
   it('should throw error when maintenance window not found', async () => {
     await setupTestData();
 
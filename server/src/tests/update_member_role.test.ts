@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, organizationMembersTable, auditLogsTable } from '../db/schema';
+import { updateMemberRole } from '../handlers/update_member_role';
+import { eq } from 'drizzle-orm';
+
+describe('updateMemberRole', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let memberId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' },
+        { email: 'member@example.com', password_hash: 'hashed_password', first_name: 'Max', last_name: 'Member' }
+      ])
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+    memberId = userResult[1].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(organizationMembersTable)
+      .values([
+        { organization_id: organizationId, user_id: ownerId, role: 'owner' },
+        { organization_id: organizationId, user_id: memberId, role: 'member' }
+      ])
+      .execute();
+  });
+
+  it('should change a member role', async () => {
+    const result = await updateMemberRole(organizationId, memberId, 'admin');
+
+    expect(result.user_id).toEqual(memberId);
+    expect(result.role).toEqual('admin');
+
+    const members = await db.select()
+      .from(organizationMembersTable)
+      .where(eq(organizationMembersTable.user_id, memberId))
+      .execute();
+
+    expect(members[0].role).toEqual('admin');
+  });
+
+  it('should record the role change in the audit log', async () => {
+    const result = await updateMemberRole(organizationId, memberId, 'admin', { userId: ownerId, apiKey: null });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('member');
+    expect(entries[0].entity_id).toEqual(result.id);
+    expect(entries[0].actor_user_id).toEqual(ownerId);
+    expect(entries[0].before).toEqual({ role: 'member' });
+    expect(entries[0].after).toEqual({ role: 'admin' });
+  });
+
+  it('should not demote the last owner', async () => {
+    await expect(updateMemberRole(organizationId, ownerId, 'admin')).rejects.toThrow(/last owner/i);
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(organizations[0].owner_id).toEqual(ownerId);
+  });
+
+  it('should move owner_id to another owner when the current owner is demoted', async () => {
+    await updateMemberRole(organizationId, memberId, 'owner');
+    await updateMemberRole(organizationId, ownerId, 'admin');
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(organizations[0].owner_id).toEqual(memberId);
+  });
+
+  it('should throw error for non-members', async () => {
+    await expect(updateMemberRole(organizationId, 99999, 'admin')).rejects.toThrow(/not a member/i);
+  });
+});
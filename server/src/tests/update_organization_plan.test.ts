@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable } from '../db/schema';
+import { type UpdateOrganizationPlanInput } from '../schema';
+import { updateOrganizationPlan } from '../handlers/update_organization_plan';
+import { eq } from 'drizzle-orm';
+
+describe('updateOrganizationPlan', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'owner@example.com',
+        password_hash: 'hashed_password',
+        first_name: 'Owner',
+        last_name: 'User',
+        role: 'owner'
+      })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', plan_type: 'free', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  it('should change the plan type', async () => {
+    const input: UpdateOrganizationPlanInput = { id: organizationId, plan_type: 'plus' };
+
+    const result = await updateOrganizationPlan(input);
+
+    expect(result.id).toEqual(organizationId);
+    expect(result.plan_type).toEqual('plus');
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    expect(organizations[0].plan_type).toEqual('plus');
+    expect(organizations[0].updated_at.getTime()).toBeGreaterThanOrEqual(organizations[0].created_at.getTime());
+  });
+
+  it('should throw error for non-existent organization', async () => {
+    await expect(updateOrganizationPlan({ id: 99999, plan_type: 'pro' }))
+      .rejects.toThrow(/organization with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, twoFactorCredentialsTable } from '../db/schema';
+import { updateOrganizationSecurity } from '../handlers/update_organization_security';
+import { generateTotpSecret } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+describe('updateOrganizationSecurity', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+    ownerId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: ownerId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+  });
+
+  const enrollOwner = async () => {
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: ownerId, secret: generateTotpSecret(), enabled_at: new Date() })
+      .execute();
+  };
+
+  it('should default to not requiring 2FA', async () => {
+    const organizations = await db.select().from(organizationsTable).execute();
+
+    expect(organizations[0].require_two_factor).toBe(false);
+  });
+
+  it('should require 2FA when the caller is enrolled', async () => {
+    await enrollOwner();
+
+    const result = await updateOrganizationSecurity({ id: organizationId, require_two_factor: true }, ownerId);
+
+    expect(result.require_two_factor).toBe(true);
+
+    const organizations = await db.select()
+      .from(organizationsTable)
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+    expect(organizations[0].require_two_factor).toBe(true);
+  });
+
+  it('should refuse to require 2FA before the caller has enrolled', async () => {
+    await expect(updateOrganizationSecurity({ id: organizationId, require_two_factor: true }, ownerId))
+      .rejects.toThrow(/enable two-factor authentication on your own account/i);
+  });
+
+  it('should allow turning the requirement off without enrollment', async () => {
+    await db.update(organizationsTable)
+      .set({ require_two_factor: true })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    const result = await updateOrganizationSecurity({ id: organizationId, require_two_factor: false }, ownerId);
+
+    expect(result.require_two_factor).toBe(false);
+  });
+
+  it('should throw for an unknown organization', async () => {
+    await expect(updateOrganizationSecurity({ id: 99999, require_two_factor: false }, ownerId))
+      .rejects.toThrow(/not found/i);
+  });
+});
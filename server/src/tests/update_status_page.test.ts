@@ -33,7 +33,7 @@ describe('updateStatusPage', () => {
       .values({
         name: 'Test Org',
         slug: 'test-org',
-        plan_type: 'free',
+        plan_type: 'plus',
         owner_id: testUserId
       })
       .returning()
@@ -167,6 +167,75 @@ describe('updateStatusPage', () => {
     expect(result.updated_at.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
   });
 
+  it('should require verifying a new custom domain again', async () => {
+    const first = await updateStatusPage({ id: testStatusPageId, custom_domain: 'status.example.com' });
+    await db.update(statusPagesTable)
+      .set({ custom_domain_verified_at: new Date() })
+      .where(eq(statusPagesTable.id, testStatusPageId))
+      .execute();
+
+    // Setting the same domain again keeps the verification
+    const unchanged = await updateStatusPage({ id: testStatusPageId, custom_domain: 'Status.Example.com' });
+    expect(unchanged.custom_domain_verified_at).toBeInstanceOf(Date);
+    expect(unchanged.custom_domain_verification_token).toEqual(first.custom_domain_verification_token);
+
+    const changed = await updateStatusPage({ id: testStatusPageId, custom_domain: 'status.example.org' });
+    expect(changed.custom_domain).toEqual('status.example.org');
+    expect(changed.custom_domain_verified_at).toBeNull();
+    expect(changed.custom_domain_verification_token).not.toEqual(first.custom_domain_verification_token);
+
+    const removed = await updateStatusPage({ id: testStatusPageId, custom_domain: null });
+    expect(removed.custom_domain_verification_token).toBeNull();
+  });
+
+  it('should reject custom domains on plans that do not include them', async () => {
+    await db.update(organizationsTable)
+      .set({ plan_type: 'pro' })
+      .where(eq(organizationsTable.id, testOrganizationId))
+      .execute();
+
+    await expect(updateStatusPage({ id: testStatusPageId, custom_domain: 'status.example.com' }))
+      .rejects.toThrow(/custom domains are not available on the pro plan/i);
+  });
+
+  it('should reject a custom domain verified by another status page', async () => {
+    await db.insert(statusPagesTable)
+      .values({ organization_id: testOrganizationId, name: 'Other', slug: 'other', custom_domain: 'status.example.com', custom_domain_verified_at: new Date() })
+      .execute();
+
+    await expect(updateStatusPage({ id: testStatusPageId, custom_domain: 'status.example.com' }))
+      .rejects.toThrow(/already in use/i);
+  });
+
+  it('should allow a custom domain another status page has only claimed', async () => {
+    await db.insert(statusPagesTable)
+      .values({ organization_id: testOrganizationId, name: 'Other', slug: 'other', custom_domain: 'status.example.com' })
+      .execute();
+
+    const result = await updateStatusPage({ id: testStatusPageId, custom_domain: 'status.example.com' });
+
+    expect(result.custom_domain).toEqual('status.example.com');
+  });
+
+  it('should change the page\'s languages', async () => {
+    const result = await updateStatusPage({ id: testStatusPageId, default_locale: 'de', enabled_locales: ['en', 'de'] });
+
+    expect(result.default_locale).toEqual('de');
+    expect(result.enabled_locales).toEqual(['de', 'en']);
+
+    // Enabling more languages keeps the default
+    const widened = await updateStatusPage({ id: testStatusPageId, enabled_locales: ['de', 'en', 'fr'] });
+    expect(widened.default_locale).toEqual('de');
+    expect(widened.enabled_locales).toEqual(['de', 'en', 'fr']);
+  });
+
+  it('should reject disabling the default language', async () => {
+    await expect(updateStatusPage({ id: testStatusPageId, enabled_locales: ['de'] }))
+      .rejects.toThrow(/must be one of the enabled languages/i);
+    await expect(updateStatusPage({ id: testStatusPageId, default_locale: 'ja' }))
+      .rejects.toThrow(/must be one of the enabled languages/i);
+  });
+
   it('should throw error for non-existent status page', async () => {
     const updateInput: UpdateStatusPageInput = {
       id: 99999, // Non-existent ID
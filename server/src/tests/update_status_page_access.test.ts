@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  statusPagePasswordsTable,
+  statusPageSessionsTable,
+  auditLogsTable
+} from '../db/schema';
+import { updateStatusPageAccess } from '../handlers/update_status_page_access';
+import { unlockStatusPage } from '../handlers/unlock_status_page';
+
+describe('updateStatusPageAccess', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Internal', slug: 'acme-internal', is_public: false })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should set a hashed password and a normalized allowlist', async () => {
+    const result = await updateStatusPageAccess({
+      status_page_id: statusPageId,
+      password: 'open sesame',
+      ip_allowlist: ['10.0.0.0/8', ' 192.0.2.1 ']
+    });
+
+    expect(result.password_protected).toBe(true);
+    expect(result.password_updated_at).toBeInstanceOf(Date);
+    expect(result.ip_allowlist).toEqual(['10.0.0.0/8', '192.0.2.1']);
+
+    const passwords = await db.select().from(statusPagePasswordsTable).execute();
+    expect(passwords).toHaveLength(1);
+    expect(passwords[0].password_hash).not.toEqual('open sesame');
+    expect(await Bun.password.verify('open sesame', passwords[0].password_hash)).toBe(true);
+  });
+
+  it('should sign out unlocked viewers when the password changes', async () => {
+    await updateStatusPageAccess({ status_page_id: statusPageId, password: 'open sesame' });
+    await unlockStatusPage('acme-internal', 'open sesame');
+
+    await updateStatusPageAccess({ status_page_id: statusPageId, password: 'open barley' });
+
+    expect(await db.select().from(statusPageSessionsTable).execute()).toHaveLength(0);
+    await expect(unlockStatusPage('acme-internal', 'open sesame')).rejects.toThrow(/incorrect/i);
+    expect((await unlockStatusPage('acme-internal', 'open barley')).status_page_id).toEqual(statusPageId);
+  });
+
+  it('should remove the password and leave the allowlist alone when it is not given', async () => {
+    await updateStatusPageAccess({ status_page_id: statusPageId, password: 'open sesame', ip_allowlist: ['10.0.0.0/8'] });
+
+    const result = await updateStatusPageAccess({ status_page_id: statusPageId, password: null });
+
+    expect(result.password_protected).toBe(false);
+    expect(result.password_updated_at).toBeNull();
+    expect(result.ip_allowlist).toEqual(['10.0.0.0/8']);
+    expect(await db.select().from(statusPagePasswordsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject invalid allowlist entries without changing anything', async () => {
+    await expect(updateStatusPageAccess({ status_page_id: statusPageId, ip_allowlist: ['10.0.0.0/40'] }))
+      .rejects.toThrow(/not a valid IP address/i);
+
+    const pages = await db.select().from(statusPagesTable).execute();
+    expect(pages[0].access_ip_allowlist).toEqual([]);
+  });
+
+  it('should audit the change without the password', async () => {
+    await updateStatusPageAccess(
+      { status_page_id: statusPageId, password: 'open sesame', ip_allowlist: ['10.0.0.0/8'] },
+      { userId, apiKey: null }
+    );
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('status_page');
+    expect(entries[0].after).toMatchObject({ password_protected: true, ip_allowlist: ['10.0.0.0/8'] });
+    expect(JSON.stringify(entries[0])).not.toContain('open sesame');
+  });
+
+  it('should reject unknown pages', async () => {
+    await expect(updateStatusPageAccess({ status_page_id: 9999, password: 'open sesame' })).rejects.toThrow(/not found/i);
+  });
+});
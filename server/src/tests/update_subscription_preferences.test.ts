@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  subscribersTable,
+  subscriberComponentsTable,
+  auditLogsTable
+} from '../db/schema';
+import { updateSubscriptionPreferences } from '../handlers/update_subscription_preferences';
+import { signToken } from '../lib/auth';
+import { SUBSCRIPTION_PREFERENCES_PURPOSE } from '../lib/subscribers';
+import { asc } from 'drizzle-orm';
+
+describe('updateSubscriptionPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let subscriberId: number;
+  let apiId: number;
+  let dashboardId: number;
+  let otherPageComponentId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'other' }
+      ])
+      .returning()
+      .execute();
+
+    const componentResult = await db.insert(componentsTable)
+      .values([
+        { status_page_id: pageResult[0].id, name: 'API' },
+        { status_page_id: pageResult[0].id, name: 'Dashboard' },
+        { status_page_id: pageResult[1].id, name: 'Elsewhere' }
+      ])
+      .returning()
+      .execute();
+    apiId = componentResult[0].id;
+    dashboardId = componentResult[1].id;
+    otherPageComponentId = componentResult[2].id;
+
+    const subscriberResult = await db.insert(subscribersTable)
+      .values({ status_page_id: pageResult[0].id, email: 'reader@example.com', confirmed_at: new Date() })
+      .returning()
+      .execute();
+    subscriberId = subscriberResult[0].id;
+  });
+
+  const token = () => signToken(SUBSCRIPTION_PREFERENCES_PURPOSE, subscriberId, new Date(Date.now() + 60 * 60 * 1000));
+
+  it('should save the chosen components and return the new preferences', async () => {
+    const result = await updateSubscriptionPreferences({ token: token(), component_ids: [apiId, dashboardId] });
+
+    expect(result.component_ids.sort()).toEqual([apiId, dashboardId].sort());
+
+    const choices = await db.select().from(subscriberComponentsTable).execute();
+    expect(choices).toHaveLength(2);
+    expect(choices.every(choice => choice.subscriber_id === subscriberId)).toBe(true);
+  });
+
+  it('should go back to every component when none are chosen', async () => {
+    await updateSubscriptionPreferences({ token: token(), component_ids: [apiId] });
+
+    const result = await updateSubscriptionPreferences({ token: token(), component_ids: [] });
+
+    expect(result.component_ids).toEqual([]);
+    expect(await db.select().from(subscriberComponentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should record each change of components without an actor', async () => {
+    await updateSubscriptionPreferences({ token: token(), component_ids: [dashboardId, apiId] });
+    await updateSubscriptionPreferences({ token: token(), component_ids: [apiId, dashboardId] });
+    await updateSubscriptionPreferences({ token: token(), component_ids: [] });
+
+    const entries = await db.select()
+      .from(auditLogsTable)
+      .orderBy(asc(auditLogsTable.id))
+      .execute();
+
+    // Saving the same choice again records nothing
+    expect(entries).toHaveLength(2);
+    entries.forEach(entry => {
+      expect(entry.organization_id).toEqual(organizationId);
+      expect(entry.actor_user_id).toBeNull();
+      expect(entry.entity_type).toEqual('subscriber');
+      expect(entry.entity_id).toEqual(subscriberId);
+      expect(entry.action).toEqual('update');
+    });
+    const chosen = [apiId, dashboardId].sort((a, b) => a - b);
+    expect(entries[0].before).toEqual({ component_ids: [] });
+    expect(entries[0].after).toEqual({ component_ids: chosen });
+    expect(entries[1].before).toEqual({ component_ids: chosen });
+    expect(entries[1].after).toEqual({ component_ids: [] });
+  });
+
+  it('should reject components of other status pages and keep the earlier choice', async () => {
+    await updateSubscriptionPreferences({ token: token(), component_ids: [apiId] });
+
+    await expect(updateSubscriptionPreferences({ token: token(), component_ids: [dashboardId, otherPageComponentId] }))
+      .rejects.toThrow(/not found or do not belong/i);
+
+    const choices = await db.select().from(subscriberComponentsTable).execute();
+    expect(choices.map(choice => choice.component_id)).toEqual([apiId]);
+  });
+
+  it('should reject invalid tokens', async () => {
+    await expect(updateSubscriptionPreferences({ token: 'not-a-token', component_ids: [] })).rejects.toThrow(/invalid or expired/i);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, webhookEndpointsTable, auditLogsTable } from '../db/schema';
+import { updateWebhookEndpoint } from '../handlers/update_webhook_endpoint';
+import { eq } from 'drizzle-orm';
+
+describe('updateWebhookEndpoint', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let endpointId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', password_hash: 'hashed_password', first_name: 'Admin', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Test Org', slug: 'test-org', owner_id: userId })
+      .returning()
+      .execute();
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({ organization_id: orgResult[0].id, url: 'https://a.example.com', secret: 'whsec_a', event_types: ['incident.created'] })
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+  });
+
+  it('should update only the provided fields', async () => {
+    const result = await updateWebhookEndpoint({
+      id: endpointId,
+      url: 'https://b.example.com',
+      event_types: ['incident.created', 'maintenance.started']
+    });
+
+    expect(result.url).toEqual('https://b.example.com');
+    expect(result.event_types).toEqual(['incident.created', 'maintenance.started']);
+    expect(result.description).toBeNull();
+    expect(result.is_active).toBe(true);
+    expect((result as Record<string, unknown>)['secret']).toBeUndefined();
+
+    const endpoints = await db.select()
+      .from(webhookEndpointsTable)
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    expect(endpoints[0].secret).toEqual('whsec_a');
+  });
+
+  it('should disable and re-enable the endpoint', async () => {
+    expect((await updateWebhookEndpoint({ id: endpointId, is_active: false })).is_active).toBe(false);
+    expect((await updateWebhookEndpoint({ id: endpointId, is_active: true })).is_active).toBe(true);
+  });
+
+  it('should record the change', async () => {
+    await updateWebhookEndpoint({ id: endpointId, description: 'Pager' }, { userId, apiKey: null });
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].action).toEqual('update');
+    expect(entries[0].before).toEqual({ description: null });
+    expect(entries[0].after).toEqual({ description: 'Pager' });
+  });
+
+  it('should throw error for non-existent endpoint', async () => {
+    await expect(updateWebhookEndpoint({ id: 99999, is_active: false })).rejects.toThrow(/webhook endpoint with id 99999 not found/i);
+  });
+});
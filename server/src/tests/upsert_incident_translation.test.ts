@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, incidentTranslationsTable, auditLogsTable } from '../db/schema';
+import { upsertIncidentTranslation } from '../handlers/upsert_incident_translation';
+import { getPublicStatusPage } from '../handlers/get_public_status_page';
+
+describe('upsertIncidentTranslation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let incidentId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userId })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme', default_locale: 'en', enabled_locales: ['en', 'de', 'fr'] })
+      .returning()
+      .execute();
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: pageResult[0].id, title: 'API errors', description: 'Some requests are failing', created_by: userId })
+      .returning()
+      .execute();
+    incidentId = incidentResult[0].id;
+  });
+
+  it('should add a translation that the public page carries', async () => {
+    const result = await upsertIncidentTranslation({
+      incident_id: incidentId,
+      locale: 'de',
+      title: 'API-Fehler',
+      description: 'Einige Anfragen schlagen fehl'
+    }, { userId, apiKey: null });
+
+    expect(result.incident_id).toEqual(incidentId);
+    expect(result.locale).toEqual('de');
+
+    const page = await getPublicStatusPage('acme');
+    expect(page.active_incidents[0].translations).toEqual({
+      de: { title: 'API-Fehler', description: 'Einige Anfragen schlagen fehl' }
+    });
+
+    const logs = await db.select().from(auditLogsTable).execute();
+    expect(logs).toHaveLength(1);
+    expect(logs[0].entity_type).toEqual('incident');
+    expect(logs[0].entity_id).toEqual(incidentId);
+    expect(logs[0].before).toEqual({ translation_de: null });
+    expect(logs[0].after).toEqual({ translation_de: { title: 'API-Fehler', description: 'Einige Anfragen schlagen fehl' } });
+  });
+
+  it('should replace an existing translation in the same language', async () => {
+    await upsertIncidentTranslation({ incident_id: incidentId, locale: 'fr', title: 'Erreurs', description: 'Premier jet' });
+    await upsertIncidentTranslation({ incident_id: incidentId, locale: 'fr', title: 'Erreurs API', description: 'Certaines requêtes échouent' });
+
+    const translations = await db.select().from(incidentTranslationsTable).execute();
+    expect(translations).toHaveLength(1);
+    expect(translations[0].title).toEqual('Erreurs API');
+    expect(translations[0].updated_at.getTime()).toBeGreaterThanOrEqual(translations[0].created_at.getTime());
+  });
+
+  it('should reject the default language and languages the page does not offer', async () => {
+    await expect(upsertIncidentTranslation({ incident_id: incidentId, locale: 'en', title: 'A', description: 'B' }))
+      .rejects.toThrow(/default language/i);
+    await expect(upsertIncidentTranslation({ incident_id: incidentId, locale: 'ja', title: 'A', description: 'B' }))
+      .rejects.toThrow(/not enabled/i);
+
+    expect(await db.select().from(incidentTranslationsTable).execute()).toHaveLength(0);
+  });
+
+  it('should throw for an unknown incident', async () => {
+    await expect(upsertIncidentTranslation({ incident_id: incidentId + 100, locale: 'de', title: 'A', description: 'B' }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, incidentsTable, incidentUpdatesTable, incidentUpdateTranslationsTable } from '../db/schema';
+import { upsertIncidentUpdateTranslation } from '../handlers/upsert_incident_update_translation';
+import { getPublicStatusPage } from '../handlers/get_public_status_page';
+
+describe('upsertIncidentUpdateTranslation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let incidentUpdateId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme', default_locale: 'de', enabled_locales: ['de', 'en'] })
+      .returning()
+      .execute();
+
+    const incidentResult = await db.insert(incidentsTable)
+      .values({ status_page_id: pageResult[0].id, title: 'API-Fehler', description: 'Einige Anfragen schlagen fehl', created_by: userResult[0].id })
+      .returning()
+      .execute();
+
+    const updateResult = await db.insert(incidentUpdatesTable)
+      .values({ incident_id: incidentResult[0].id, title: 'Ursache gefunden', description: 'Ein fehlerhaftes Deployment', status: 'identified', created_by: userResult[0].id })
+      .returning()
+      .execute();
+    incidentUpdateId = updateResult[0].id;
+  });
+
+  it('should add a translation of the update that the public page carries', async () => {
+    const result = await upsertIncidentUpdateTranslation({
+      incident_update_id: incidentUpdateId,
+      locale: 'en',
+      title: 'Cause identified',
+      description: 'A bad deploy'
+    });
+
+    expect(result.incident_update_id).toEqual(incidentUpdateId);
+
+    const page = await getPublicStatusPage('acme');
+    expect(page.page.default_locale).toEqual('de');
+    expect(page.active_incidents[0].translations).toEqual({});
+    expect(page.active_incidents[0].updates[0].translations).toEqual({
+      en: { title: 'Cause identified', description: 'A bad deploy' }
+    });
+  });
+
+  it('should replace an existing translation in the same language', async () => {
+    await upsertIncidentUpdateTranslation({ incident_update_id: incidentUpdateId, locale: 'en', title: 'Cause', description: 'Draft' });
+    await upsertIncidentUpdateTranslation({ incident_update_id: incidentUpdateId, locale: 'en', title: 'Cause identified', description: 'A bad deploy' });
+
+    const translations = await db.select().from(incidentUpdateTranslationsTable).execute();
+    expect(translations).toHaveLength(1);
+    expect(translations[0].description).toEqual('A bad deploy');
+  });
+
+  it('should reject the page\'s default language', async () => {
+    await expect(upsertIncidentUpdateTranslation({ incident_update_id: incidentUpdateId, locale: 'de', title: 'A', description: 'B' }))
+      .rejects.toThrow(/default language/i);
+  });
+
+  it('should throw for an unknown update', async () => {
+    await expect(upsertIncidentUpdateTranslation({ incident_update_id: incidentUpdateId + 100, locale: 'en', title: 'A', description: 'B' }))
+      .rejects.toThrow(/not found/i);
+  });
+});
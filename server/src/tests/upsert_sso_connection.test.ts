@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, ssoConnectionsTable, ssoRoleMappingsTable } from '../db/schema';
+import { upsertSsoConnection } from '../handlers/upsert_sso_connection';
+import {
+  upsertSsoConnectionInputSchema,
+  ssoRoleSchema,
+  ssoRoleMappingSchema,
+  ssoConnectionSchema,
+  type UpsertSsoConnectionInput
+} from '../schema';
+import { SSO_REDIRECT_URI } from '../lib/oidc';
+import { eq } from 'drizzle-orm';
+
+describe('upsertSsoConnection', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let organizationId: number;
+  let input: UpsertSsoConnectionInput;
+
+  beforeEach(async () => {
+    const ownerResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: ownerResult[0].id })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    input = upsertSsoConnectionInputSchema.parse({
+      organization_id: organizationId,
+      issuer: 'https://login.acme.com/',
+      client_id: 'edgestatus',
+      client_secret: 'super-secret',
+      allowed_domains: ['Acme.com', 'acme.io'],
+      groups_claim: 'groups',
+      role_mappings: [{ group: 'sre', role: 'admin' }]
+    });
+  });
+
+  it('should create a connection without exposing the client secret', async () => {
+    const result = await upsertSsoConnection(input);
+
+    expect(result.issuer).toEqual('https://login.acme.com');
+    expect(result.client_id).toEqual('edgestatus');
+    expect(result.allowed_domains).toEqual(['acme.com', 'acme.io']);
+    expect(result.default_role).toEqual('member');
+    expect(result.groups_claim).toEqual('groups');
+    expect(result.role_mappings).toEqual([{ group: 'sre', role: 'admin' }]);
+    expect(result.is_enabled).toBe(true);
+    expect(result.redirect_uri).toEqual(SSO_REDIRECT_URI);
+    expect((result as Record<string, unknown>)['client_secret']).toBeUndefined();
+
+    const connections = await db.select().from(ssoConnectionsTable).execute();
+    expect(connections[0].client_secret).toEqual('super-secret');
+  });
+
+  it('should update in place, keeping the stored secret when none is given', async () => {
+    const created = await upsertSsoConnection(input);
+
+    const updated = await upsertSsoConnection({
+      ...input,
+      client_secret: undefined,
+      default_role: 'viewer',
+      role_mappings: [{ group: 'engineering', role: 'member' }]
+    });
+
+    expect(updated.id).toEqual(created.id);
+    expect(updated.default_role).toEqual('viewer');
+    expect(updated.role_mappings).toEqual([{ group: 'engineering', role: 'member' }]);
+
+    const connections = await db.select().from(ssoConnectionsTable).execute();
+    expect(connections).toHaveLength(1);
+    expect(connections[0].client_secret).toEqual('super-secret');
+
+    const mappings = await db.select()
+      .from(ssoRoleMappingsTable)
+      .where(eq(ssoRoleMappingsTable.sso_connection_id, created.id))
+      .execute();
+    expect(mappings).toHaveLength(1);
+  });
+
+  it('should give new connections a verification token and keep verification only for domains still allowed', async () => {
+    const created = await upsertSsoConnection(input);
+    expect(created.domain_verification_token).toMatch(/^[\w-]{22}$/);
+    expect(created.verified_domains).toEqual([]);
+
+    await db.update(ssoConnectionsTable)
+      .set({ verified_domains: ['acme.com', 'acme.io'] })
+      .where(eq(ssoConnectionsTable.id, created.id))
+      .execute();
+
+    const updated = await upsertSsoConnection({ ...input, client_secret: undefined, allowed_domains: ['acme.com', 'acme.dev'] });
+
+    expect(updated.domain_verification_token).toEqual(created.domain_verification_token);
+    expect(updated.verified_domains).toEqual(['acme.com']);
+
+    // Adding a domain back needs it to be verified again
+    const restored = await upsertSsoConnection({ ...input, client_secret: undefined });
+    expect(restored.verified_domains).toEqual(['acme.com']);
+  });
+
+  it('should require a client secret when creating', async () => {
+    await expect(upsertSsoConnection({ ...input, client_secret: undefined })).rejects.toThrow(/client secret is required/i);
+  });
+
+  it('should only be available on the enterprise plan', async () => {
+    await db.update(organizationsTable)
+      .set({ plan_type: 'plus' })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    await expect(upsertSsoConnection(input)).rejects.toThrow(/requires the enterprise plan/i);
+  });
+
+  it('should throw for an unknown organization', async () => {
+    await expect(upsertSsoConnection({ ...input, organization_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject invalid domains and owner role mappings', () => {
+    expect(upsertSsoConnectionInputSchema.safeParse({ ...input, allowed_domains: ['not a domain'] }).success).toBe(false);
+    expect(upsertSsoConnectionInputSchema.safeParse({ ...input, allowed_domains: [] }).success).toBe(false);
+    expect(upsertSsoConnectionInputSchema.safeParse({ ...input, role_mappings: [{ group: 'root', role: 'owner' }] }).success).toBe(false);
+    expect(upsertSsoConnectionInputSchema.safeParse({ ...input, default_role: 'owner' }).success).toBe(false);
+  });
+
+  it('should never store or describe owner as a role granted through SSO', async () => {
+    expect(ssoRoleSchema.safeParse('owner').success).toBe(false);
+    expect(ssoRoleMappingSchema.safeParse({ group: 'root', role: 'owner' }).success).toBe(false);
+
+    const created = await upsertSsoConnection(input);
+    expect(ssoConnectionSchema.safeParse({ ...created, default_role: 'owner' }).success).toBe(false);
+
+    await expect(db.update(ssoConnectionsTable)
+      .set({ default_role: 'owner' as 'admin' })
+      .where(eq(ssoConnectionsTable.id, created.id))
+      .execute()).rejects.toThrow();
+    await expect(db.insert(ssoRoleMappingsTable)
+      .values({ sso_connection_id: created.id, group_name: 'root', role: 'owner' as 'admin' })
+      .execute()).rejects.toThrow();
+  });
+});
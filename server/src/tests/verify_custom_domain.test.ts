@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, auditLogsTable } from '../db/schema';
+import { verifyCustomDomain } from '../handlers/verify_custom_domain';
+import { setDnsResolver } from '../lib/custom_domains';
+import { eq } from 'drizzle-orm';
+
+describe('verifyCustomDomain', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // TXT records keyed by hostname; anything else resolves like a missing record
+  const txtRecords = new Map<string, string[][]>();
+
+  beforeEach(() => {
+    txtRecords.clear();
+    setDnsResolver({
+      resolveTxt: async (hostname) => {
+        const records = txtRecords.get(hostname);
+        if (!records) {
+          throw Object.assign(new Error(`queryTxt ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+        }
+        return records;
+      }
+    });
+  });
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'plus', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({
+        organization_id: organizationId,
+        name: 'Acme Status',
+        slug: 'acme-status',
+        custom_domain: 'status.acme.test',
+        custom_domain_verification_token: 'token-123'
+      })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+  });
+
+  it('should verify the domain when the TXT challenge is published', async () => {
+    txtRecords.set('_edgestatus-challenge.status.acme.test', [['some-other-record'], ['edgestatus-verification=', 'token-123']]);
+
+    const result = await verifyCustomDomain(statusPageId, { userId, apiKey: null });
+
+    expect(result.custom_domain_verified_at).toBeInstanceOf(Date);
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].after).toHaveProperty('custom_domain_verified_at');
+  });
+
+  it('should take the domain over from pages that claimed it without verifying it', async () => {
+    const otherOrg = await db.insert(organizationsTable)
+      .values({ name: 'Squatter', slug: 'squatter', plan_type: 'plus', owner_id: userId })
+      .returning()
+      .execute();
+    const squatted = await db.insert(statusPagesTable)
+      .values({
+        organization_id: otherOrg[0].id,
+        name: 'Squatter Status',
+        slug: 'squatter-status',
+        custom_domain: 'status.acme.test',
+        custom_domain_verification_token: 'token-456'
+      })
+      .returning()
+      .execute();
+    txtRecords.set('_edgestatus-challenge.status.acme.test', [['edgestatus-verification=token-123']]);
+
+    const result = await verifyCustomDomain(statusPageId, { userId, apiKey: null });
+
+    expect(result.custom_domain_verified_at).toBeInstanceOf(Date);
+    const pages = await db.select().from(statusPagesTable).where(eq(statusPagesTable.id, squatted[0].id)).execute();
+    expect(pages[0].custom_domain).toBeNull();
+    expect(pages[0].custom_domain_verification_token).toBeNull();
+
+    const entries = await db.select().from(auditLogsTable).where(eq(auditLogsTable.organization_id, otherOrg[0].id)).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].actor_user_id).toBeNull();
+    expect(entries[0].api_key_id).toBeNull();
+    expect(entries[0].before).toMatchObject({ custom_domain: 'status.acme.test' });
+    expect(entries[0].after).toMatchObject({ custom_domain: null });
+  });
+
+  it('should reject a domain another page has already verified', async () => {
+    await db.insert(statusPagesTable)
+      .values({
+        organization_id: organizationId,
+        name: 'Owner Status',
+        slug: 'owner-status',
+        custom_domain: 'status.acme.test',
+        custom_domain_verification_token: 'token-456',
+        custom_domain_verified_at: new Date()
+      })
+      .execute();
+    txtRecords.set('_edgestatus-challenge.status.acme.test', [['edgestatus-verification=token-123']]);
+
+    await expect(verifyCustomDomain(statusPageId)).rejects.toThrow(/already in use/i);
+
+    const pages = await db.select().from(statusPagesTable).where(eq(statusPagesTable.id, statusPageId)).execute();
+    expect(pages[0].custom_domain_verified_at).toBeNull();
+  });
+
+  it('should reject when the record is missing or has the wrong value', async () => {
+    await expect(verifyCustomDomain(statusPageId))
+      .rejects.toThrow(/_edgestatus-challenge\.status\.acme\.test.*edgestatus-verification=token-123.*was not found/i);
+
+    txtRecords.set('_edgestatus-challenge.status.acme.test', [['edgestatus-verification=wrong']]);
+    await expect(verifyCustomDomain(statusPageId)).rejects.toThrow(/was not found/i);
+
+    const pages = await db.select().from(statusPagesTable).where(eq(statusPagesTable.id, statusPageId)).execute();
+    expect(pages[0].custom_domain_verified_at).toBeNull();
+  });
+
+  it('should pass on resolver failures other than a missing record', async () => {
+    setDnsResolver({
+      resolveTxt: async () => { throw Object.assign(new Error('queryTxt ETIMEOUT'), { code: 'ETIMEOUT' }); }
+    });
+
+    await expect(verifyCustomDomain(statusPageId)).rejects.toThrow(/ETIMEOUT/);
+  });
+
+  it('should reject pages without a custom domain', async () => {
+    await db.update(statusPagesTable)
+      .set({ custom_domain: null, custom_domain_verification_token: null })
+      .where(eq(statusPagesTable.id, statusPageId))
+      .execute();
+
+    await expect(verifyCustomDomain(statusPageId)).rejects.toThrow(/no custom domain to verify/i);
+  });
+
+  it('should reject organizations whose plan does not include custom domains', async () => {
+    txtRecords.set('_edgestatus-challenge.status.acme.test', [['edgestatus-verification=token-123']]);
+    await db.update(organizationsTable)
+      .set({ plan_type: 'free' })
+      .where(eq(organizationsTable.id, organizationId))
+      .execute();
+
+    await expect(verifyCustomDomain(statusPageId)).rejects.toThrow(/not available on the free plan/i);
+  });
+
+  it('should throw for an unknown status page', async () => {
+    await expect(verifyCustomDomain(99999)).rejects.toThrow(/status page with id 99999 not found/i);
+  });
+});
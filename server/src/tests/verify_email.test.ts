@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { verifyEmail } from '../handlers/verify_email';
+import { signToken, EMAIL_VERIFICATION_TTL_MS } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+describe('verifyEmail', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'new@example.com', password_hash: 'hashed_password', first_name: 'Nina', last_name: 'New' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+  });
+
+  it('should mark the email as verified', async () => {
+    const token = signToken('email_verification', userId, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    const result = await verifyEmail(token);
+
+    expect(result.id).toEqual(userId);
+    expect(result.email_verified_at).toBeInstanceOf(Date);
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(users[0].email_verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should accept the same link twice', async () => {
+    const token = signToken('email_verification', userId, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    const first = await verifyEmail(token);
+    const second = await verifyEmail(token);
+
+    expect(second.email_verified_at).toEqual(first.email_verified_at);
+  });
+
+  it('should accept a link just before it expires', async () => {
+    const issuedAt = new Date('2030-01-01T00:00:00Z');
+    setSystemTime(issuedAt);
+    const token = signToken('email_verification', userId, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    setSystemTime(new Date(issuedAt.getTime() + EMAIL_VERIFICATION_TTL_MS - 1000));
+    const result = await verifyEmail(token);
+
+    expect(result.email_verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a link after it expires', async () => {
+    const issuedAt = new Date('2030-01-01T00:00:00Z');
+    setSystemTime(issuedAt);
+    const token = signToken('email_verification', userId, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    setSystemTime(new Date(issuedAt.getTime() + EMAIL_VERIFICATION_TTL_MS));
+    await expect(verifyEmail(token)).rejects.toThrow(/invalid or has expired/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    expect(users[0].email_verified_at).toBeNull();
+  });
+
+  it('should reject tokens issued for another purpose', async () => {
+    const token = signToken('invitation', userId, new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+
+    await expect(verifyEmail(token)).rejects.toThrow(/invalid or has expired/i);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, statusPagesTable, smsSubscribersTable, smsRulesTable } from '../db/schema';
+import { subscribeToSmsUpdates } from '../handlers/subscribe_to_sms_updates';
+import { verifySmsSubscription } from '../handlers/verify_sms_subscription';
+import { createMemorySmsProvider, setSmsProvider, type MemorySmsProvider } from '../lib/sms';
+import { verifySmsSubscriptionInputSchema } from '../schema';
+
+describe('verifySmsSubscription', () => {
+  let provider: MemorySmsProvider;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    provider = createMemorySmsProvider();
+    setSmsProvider(provider);
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'pro', owner_id: userResult[0].id })
+      .returning()
+      .execute();
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values([
+        { organization_id: orgResult[0].id, name: 'Acme Status', slug: 'acme' },
+        { organization_id: orgResult[0].id, name: 'Other', slug: 'other' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(smsRulesTable)
+      .values(pageResult.map(page => ({ status_page_id: page.id, event_type: 'incident.created' as const })))
+      .execute();
+  });
+
+  const requestCode = async (slug = 'acme'): Promise<string> => {
+    await subscribeToSmsUpdates(slug, '+14155550123');
+    return provider.messages[provider.messages.length - 1].body.match(/^(\d{6}) /)![1];
+  };
+
+  const wrongCode = (code: string) => code === '000000' ? '000001' : '000000';
+
+  it('should verify the number with the texted code', async () => {
+    const code = await requestCode();
+
+    const result = await verifySmsSubscription('acme', { phone_number: '+14155550123', code });
+
+    expect(result).toBe(true);
+    const subscribers = await db.select().from(smsSubscribersTable).execute();
+    expect(subscribers[0].verified_at).toBeInstanceOf(Date);
+    expect(subscribers[0].verification_code_hash).toBeNull();
+
+    // Entering the code again is harmless
+    expect(await verifySmsSubscription('acme', { phone_number: '+14155550123', code })).toBe(true);
+  });
+
+  it('should reject wrong codes and lock the code after five attempts', async () => {
+    const code = await requestCode();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(verifySmsSubscription('acme', { phone_number: '+14155550123', code: wrongCode(code) })).rejects.toThrow(/invalid or expired/i);
+    }
+
+    await expect(verifySmsSubscription('acme', { phone_number: '+14155550123', code })).rejects.toThrow(/invalid or expired/i);
+    const subscribers = await db.select().from(smsSubscribersTable).execute();
+    expect(subscribers[0].verified_at).toBeNull();
+  });
+
+  it('should reject expired codes', async () => {
+    const code = await requestCode();
+    await db.update(smsSubscribersTable).set({ verification_expires_at: new Date(Date.now() - 1000) }).execute();
+
+    await expect(verifySmsSubscription('acme', { phone_number: '+14155550123', code })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should only accept the code on the page it was requested for', async () => {
+    const code = await requestCode();
+
+    await expect(verifySmsSubscription('other', { phone_number: '+14155550123', code })).rejects.toThrow(/invalid or expired/i);
+    await expect(verifySmsSubscription('acme', { phone_number: '+14155550124', code })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should normalize phone numbers and check the code format', () => {
+    const input = verifySmsSubscriptionInputSchema.parse({ phone_number: '+1 (415) 555-0123', code: ' 123456 ' });
+    expect(input).toEqual({ phone_number: '+14155550123', code: '123456' });
+
+    expect(verifySmsSubscriptionInputSchema.safeParse({ phone_number: '4155550123', code: '123456' }).success).toBe(false);
+    expect(verifySmsSubscriptionInputSchema.safeParse({ phone_number: '+14155550123', code: '12345' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, organizationsTable, ssoConnectionsTable, auditLogsTable } from '../db/schema';
+import { verifySsoDomain } from '../handlers/verify_sso_domain';
+import { setDnsResolver } from '../lib/custom_domains';
+
+describe('verifySsoDomain', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // TXT records keyed by hostname; anything else resolves like a missing record
+  const txtRecords = new Map<string, string[][]>();
+
+  beforeEach(() => {
+    txtRecords.clear();
+    setDnsResolver({
+      resolveTxt: async (hostname) => {
+        const records = txtRecords.get(hostname);
+        if (!records) {
+          throw Object.assign(new Error(`queryTxt ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+        }
+        return records;
+      }
+    });
+  });
+
+  let userId: number;
+  let organizationId: number;
+
+  beforeEach(async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@acme.com', password_hash: 'hashed_password', first_name: 'Owner', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', plan_type: 'enterprise', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    await db.insert(ssoConnectionsTable)
+      .values({
+        organization_id: organizationId,
+        issuer: 'https://login.acme.com',
+        client_id: 'edgestatus',
+        client_secret: 'super-secret',
+        allowed_domains: ['acme.com', 'acme.io'],
+        domain_verification_token: 'token-123'
+      })
+      .execute();
+  });
+
+  it('should verify an allowed domain when the TXT challenge is published', async () => {
+    txtRecords.set('_edgestatus-challenge.acme.com', [['edgestatus-verification=', 'token-123']]);
+
+    const result = await verifySsoDomain(organizationId, 'Acme.com', { userId, apiKey: null });
+
+    expect(result.verified_domains).toEqual(['acme.com']);
+
+    const entries = await db.select().from(auditLogsTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].entity_type).toEqual('sso_connection');
+    expect(entries[0].before).toEqual({ verified_domains: [] });
+    expect(entries[0].after).toEqual({ verified_domains: ['acme.com'] });
+
+    // Verifying again changes nothing
+    expect((await verifySsoDomain(organizationId, 'acme.com')).verified_domains).toEqual(['acme.com']);
+    expect(await db.select().from(auditLogsTable).execute()).toHaveLength(1);
+  });
+
+  it('should fail with the expected record when the challenge is missing', async () => {
+    txtRecords.set('_edgestatus-challenge.acme.io', [['edgestatus-verification=someone-elses-token']]);
+
+    await expect(verifySsoDomain(organizationId, 'acme.io'))
+      .rejects.toThrow('TXT record _edgestatus-challenge.acme.io with value "edgestatus-verification=token-123" was not found');
+
+    const connections = await db.select().from(ssoConnectionsTable).execute();
+    expect(connections[0].verified_domains).toEqual([]);
+  });
+
+  it('should only verify allowed domains of a configured connection', async () => {
+    await expect(verifySsoDomain(organizationId, 'gmail.com')).rejects.toThrow(/not one of the allowed/i);
+
+    await db.delete(ssoConnectionsTable).execute();
+    await expect(verifySsoDomain(organizationId, 'acme.com')).rejects.toThrow(/not configured/i);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, twoFactorCredentialsTable } from '../db/schema';
+import { login } from '../handlers/login';
+import { verifyTwoFactorLogin } from '../handlers/verify_two_factor_login';
+import { getSessionUser } from '../handlers/get_session_user';
+import { replaceRecoveryCodes } from '../lib/two_factor';
+import { generateTotpCode, generateTotpSecret, totpStep } from '../lib/totp';
+import { hashToken, SESSION_TTL_MS } from '../lib/auth';
+import { eq } from 'drizzle-orm';
+
+const credentials = { email: 'user@example.com', password: 'password123' };
+
+describe('verifyTwoFactorLogin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => setSystemTime());
+
+  let userId: number;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  beforeEach(async () => {
+    const password_hash = await Bun.password.hash('password123', { algorithm: 'bcrypt', cost: 4 });
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'user@example.com', password_hash, first_name: 'Test', last_name: 'User' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    secret = generateTotpSecret();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret, enabled_at: new Date() })
+      .execute();
+    recoveryCodes = await replaceRecoveryCodes(userId);
+  });
+
+  it('should turn the pending session into a full session with a new token', async () => {
+    const pending = await login(credentials);
+    expect(pending.two_factor_required).toBe(true);
+
+    const result = await verifyTwoFactorLogin(pending.token, { code: generateTotpCode(secret) });
+
+    expect(result.user.id).toEqual(userId);
+    expect(result.two_factor_required).toBe(false);
+    expect(result.token).not.toEqual(pending.token);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now() + SESSION_TTL_MS - 60_000);
+    expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    expect(await getSessionUser(result.token)).not.toBeNull();
+    expect(await getSessionUser(pending.token)).toBeNull();
+  });
+
+  it('should accept a recovery code once', async () => {
+    const first = await login(credentials);
+    await verifyTwoFactorLogin(first.token, { code: recoveryCodes[0] });
+
+    const second = await login(credentials);
+    await expect(verifyTwoFactorLogin(second.token, { code: recoveryCodes[0] })).rejects.toThrow(/invalid authentication code/i);
+  });
+
+  it('should not accept the same authenticator code twice', async () => {
+    const code = generateTotpCode(secret);
+
+    const first = await login(credentials);
+    await verifyTwoFactorLogin(first.token, { code });
+
+    const second = await login(credentials);
+    await expect(verifyTwoFactorLogin(second.token, { code })).rejects.toThrow(/invalid authentication code/i);
+
+    // The next step's code is still fine
+    await verifyTwoFactorLogin(second.token, { code: generateTotpCode(secret, totpStep() + 1) });
+  });
+
+  it('should discard the challenge after too many wrong codes', async () => {
+    const pending = await login(credentials);
+    const wrongCode = generateTotpCode(secret, totpStep() + 5);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(verifyTwoFactorLogin(pending.token, { code: wrongCode })).rejects.toThrow(/invalid authentication code/i);
+    }
+
+    await expect(verifyTwoFactorLogin(pending.token, { code: generateTotpCode(secret) }))
+      .rejects.toThrow(/invalid or has expired/i);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(pending.token)))
+      .execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should reject an expired challenge', async () => {
+    const pending = await login(credentials);
+
+    setSystemTime(new Date(Date.now() + 6 * 60 * 1000));
+
+    await expect(verifyTwoFactorLogin(pending.token, { code: generateTotpCode(secret) }))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should reject tokens of sessions that are already complete', async () => {
+    const pending = await login(credentials);
+    const session = await verifyTwoFactorLogin(pending.token, { code: generateTotpCode(secret) });
+
+    await expect(verifyTwoFactorLogin(session.token, { code: generateTotpCode(secret, totpStep() + 1) }))
+      .rejects.toThrow(/invalid or has expired/i);
+    await expect(verifyTwoFactorLogin('unknown-token', { code: '123456' }))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should reject the challenge once the account is deactivated', async () => {
+    const pending = await login(credentials);
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await expect(verifyTwoFactorLogin(pending.token, { code: generateTotpCode(secret) }))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+});
@@ -0,0 +1,388 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createHmac } from 'crypto';
+import { resetDB, createDB } from '../helpers';
+import { startWebhookReceiver, type WebhookReceiver } from '../helpers/webhook_receiver';
+import { db } from '../db';
+import {
+  usersTable,
+  organizationsTable,
+  statusPagesTable,
+  componentsTable,
+  webhookEndpointsTable,
+  webhookDeliveriesTable
+} from '../db/schema';
+import { createIncident } from '../handlers/create_incident';
+import { createIncidentUpdate } from '../handlers/create_incident_update';
+import { updateIncident } from '../handlers/update_incident';
+import { updateComponent } from '../handlers/update_component';
+import { createMaintenanceWindow } from '../handlers/create_maintenance_window';
+import { updateMaintenanceWindow } from '../handlers/update_maintenance_window';
+import {
+  deliverDueWebhooks,
+  emitWebhookEvent,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS
+} from '../lib/webhooks';
+import { allowPrivateHost } from '../lib/outbound_requests';
+import { asc, eq } from 'drizzle-orm';
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, '{"a":1}')).toEqual(`t=1700000000,v1=${expected}`);
+  });
+
+  it('should change with the timestamp', () => {
+    expect(signWebhookPayload('whsec_test', 1, '{}')).not.toEqual(signWebhookPayload('whsec_test', 2, '{}'));
+  });
+});
+
+describe('webhookRetryDelayMs', () => {
+  it('should double the delay after each failed attempt', () => {
+    expect(webhookRetryDelayMs(1)).toEqual(WEBHOOK_RETRY_BASE_MS);
+    expect(webhookRetryDelayMs(2)).toEqual(WEBHOOK_RETRY_BASE_MS * 2);
+    expect(webhookRetryDelayMs(4)).toEqual(WEBHOOK_RETRY_BASE_MS * 8);
+  });
+});
+
+describe('webhook events', () => {
+  let receiver: WebhookReceiver;
+
+  beforeAll(async () => {
+    receiver = await startWebhookReceiver();
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let organizationId: number;
+  let statusPageId: number;
+  let componentId: number;
+  let endpointId: number;
+
+  beforeEach(async () => {
+    receiver.requests.length = 0;
+    receiver.responseStatus = 200;
+    receiver.responseBody = 'ok';
+
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hashed_password', first_name: 'Olivia', last_name: 'Owner' })
+      .returning()
+      .execute();
+    userId = userResult[0].id;
+
+    const orgResult = await db.insert(organizationsTable)
+      .values({ name: 'Acme', slug: 'acme', owner_id: userId })
+      .returning()
+      .execute();
+    organizationId = orgResult[0].id;
+
+    const pageResult = await db.insert(statusPagesTable)
+      .values({ organization_id: organizationId, name: 'Acme Status', slug: 'acme' })
+      .returning()
+      .execute();
+    statusPageId = pageResult[0].id;
+
+    const componentResult = await db.insert(componentsTable)
+      .values({ status_page_id: statusPageId, name: 'API' })
+      .returning()
+      .execute();
+    componentId = componentResult[0].id;
+
+    const endpointResult = await db.insert(webhookEndpointsTable)
+      .values({
+        organization_id: organizationId,
+        url: `${receiver.url}/hooks`,
+        secret: 'whsec_test',
+        event_types: [
+          'incident.created',
+          'incident.updated',
+          'incident.resolved',
+          'component.status_changed',
+          'maintenance.started',
+          'maintenance.completed'
+        ]
+      })
+      .returning()
+      .execute();
+    endpointId = endpointResult[0].id;
+  });
+
+  const deliveries = () => db.select()
+    .from(webhookDeliveriesTable)
+    .orderBy(asc(webhookDeliveriesTable.id))
+    .execute();
+
+  it('should deliver a signed incident.created event', async () => {
+    const incident = await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: [componentId]
+    }, userId);
+
+    expect(await deliverDueWebhooks()).toEqual(1);
+    expect(receiver.requests).toHaveLength(1);
+
+    const request = receiver.requests[0];
+    expect(request.method).toEqual('POST');
+    expect(request.path).toEqual('/hooks');
+    expect(request.headers['content-type']).toEqual('application/json');
+    expect(request.headers['x-edgestatus-event']).toEqual('incident.created');
+
+    const payload = JSON.parse(request.body);
+    expect(payload.type).toEqual('incident.created');
+    expect(payload.id).toMatch(/^evt_/);
+    expect(request.headers['x-edgestatus-event-id']).toEqual(payload.id);
+    expect(payload.data.status_page).toMatchObject({ id: statusPageId, name: 'Acme Status', slug: 'acme' });
+    expect(payload.data.incident).toMatchObject({
+      id: incident.id,
+      title: 'API errors',
+      status: 'investigating',
+      affected_component_ids: [componentId]
+    });
+
+    const timestamp = Number(/t=(\d+)/.exec(request.headers['x-edgestatus-signature'])![1]);
+    expect(request.headers['x-edgestatus-signature']).toEqual(signWebhookPayload('whsec_test', timestamp, request.body));
+
+    const [delivery] = await deliveries();
+    expect(delivery.status).toEqual('succeeded');
+    expect(delivery.attempts).toEqual(1);
+    expect(delivery.response_status).toEqual(200);
+    expect(delivery.response_body).toEqual('ok');
+    expect(delivery.next_attempt_at).toBeNull();
+    expect(delivery.last_attempt_at).toBeInstanceOf(Date);
+  });
+
+  it('should emit incident.updated and then incident.resolved from incident updates', async () => {
+    const incident = await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: []
+    }, userId);
+
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Found it', description: 'A bad deploy', status: 'identified' }, userId);
+    await createIncidentUpdate({ incident_id: incident.id, title: 'Fixed', description: 'Rolled back', status: 'resolved' }, userId);
+
+    const rows = await deliveries();
+    expect(rows.map(row => row.event_type)).toEqual(['incident.created', 'incident.updated', 'incident.resolved']);
+    expect((rows[1].payload as any).data.update).toMatchObject({ title: 'Found it', status: 'identified' });
+    expect((rows[2].payload as any).data.incident.status).toEqual('resolved');
+  });
+
+  it('should emit incident.resolved only when an edit resolves the incident', async () => {
+    const incident = await createIncident({
+      status_page_id: statusPageId,
+      title: 'API errors',
+      description: 'Some requests are failing',
+      status: 'investigating',
+      affected_component_ids: [componentId]
+    }, userId);
+
+    await updateIncident({ id: incident.id, title: 'API errors in eu-west' });
+    await updateIncident({ id: incident.id, status: 'resolved' });
+    await updateIncident({ id: incident.id, description: 'Post-mortem to follow' });
+
+    const rows = await deliveries();
+    expect(rows.map(row => row.event_type)).toEqual(['incident.created', 'incident.updated', 'incident.resolved', 'incident.updated']);
+    expect((rows[1].payload as any).data.incident.affected_component_ids).toEqual([componentId]);
+  });
+
+  it('should emit component.status_changed with the previous status and cause', async () => {
+    await updateComponent({ id: componentId, status: 'major_outage' });
+    await updateComponent({ id: componentId, status: 'major_outage' });
+
+    const rows = await deliveries();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].event_type).toEqual('component.status_changed');
+    expect((rows[0].payload as any).data).toMatchObject({
+      component: { id: componentId, name: 'API', status: 'major_outage' },
+      previous_status: 'operational',
+      cause: { source: 'component', source_id: null }
+    });
+  });
+
+  it('should emit maintenance.started and maintenance.completed as the window runs', async () => {
+    const maintenanceWindow = await createMaintenanceWindow({
+      status_page_id: statusPageId,
+      title: 'Database upgrade',
+      description: 'Short read-only period',
+      scheduled_start: new Date(Date.now() + 60_000),
+      scheduled_end: new Date(Date.now() + 120_000),
+      affected_component_ids: [componentId]
+    }, userId);
+
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'in_progress' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, title: 'Database upgrade (extended)' });
+    await updateMaintenanceWindow({ id: maintenanceWindow.id, status: 'completed' });
+
+    const rows = await deliveries();
+    expect(rows.map(row => row.event_type)).toEqual([
+      'component.status_changed',
+      'maintenance.started',
+      'component.status_changed',
+      'maintenance.completed'
+    ]);
+    expect((rows[1].payload as any).data.maintenance_window).toMatchObject({
+      id: maintenanceWindow.id,
+      status: 'in_progress',
+      affected_component_ids: [componentId]
+    });
+    expect((rows[0].payload as any).data.cause).toEqual({ source: 'maintenance', source_id: maintenanceWindow.id });
+  });
+
+  it('should only queue events the endpoint subscribed to', async () => {
+    await db.update(webhookEndpointsTable)
+      .set({ event_types: ['incident.resolved'] })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+    await emitWebhookEvent(statusPageId, 'incident.resolved', {});
+
+    const rows = await deliveries();
+    expect(rows.map(row => row.event_type)).toEqual(['incident.resolved']);
+  });
+
+  it('should not queue events for other organizations or disabled endpoints', async () => {
+    const otherOrg = await db.insert(organizationsTable)
+      .values({ name: 'Other', slug: 'other', owner_id: userId })
+      .returning()
+      .execute();
+    await db.insert(webhookEndpointsTable)
+      .values({ organization_id: otherOrg[0].id, url: receiver.url, secret: 'whsec_other', event_types: ['incident.created'] })
+      .execute();
+    await db.update(webhookEndpointsTable)
+      .set({ is_active: false })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+
+    expect(await deliveries()).toHaveLength(0);
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    receiver.responseStatus = 500;
+    receiver.responseBody = 'boom';
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+
+    const before = Date.now();
+    await deliverDueWebhooks();
+
+    let [delivery] = await deliveries();
+    expect(delivery.status).toEqual('pending');
+    expect(delivery.attempts).toEqual(1);
+    expect(delivery.response_status).toEqual(500);
+    expect(delivery.response_body).toEqual('boom');
+    expect(delivery.error).toMatch(/status 500/);
+    expect(delivery.next_attempt_at!.getTime()).toBeGreaterThanOrEqual(before + WEBHOOK_RETRY_BASE_MS);
+
+    // Not due yet
+    expect(await deliverDueWebhooks()).toEqual(0);
+
+    await deliverDueWebhooks(new Date(delivery.next_attempt_at!.getTime() + 1));
+    [delivery] = await deliveries();
+    expect(delivery.attempts).toEqual(2);
+    expect(delivery.next_attempt_at!.getTime() - delivery.last_attempt_at!.getTime()).toEqual(WEBHOOK_RETRY_BASE_MS * 2);
+
+    receiver.responseStatus = 204;
+    await deliverDueWebhooks(new Date(delivery.next_attempt_at!.getTime() + 1));
+    [delivery] = await deliveries();
+    expect(delivery.status).toEqual('succeeded');
+    expect(delivery.attempts).toEqual(3);
+    expect(delivery.error).toBeNull();
+    expect(receiver.requests).toHaveLength(3);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    receiver.responseStatus = 503;
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+    await db.update(webhookDeliveriesTable)
+      .set({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 })
+      .execute();
+
+    await deliverDueWebhooks();
+
+    const [delivery] = await deliveries();
+    expect(delivery.status).toEqual('failed');
+    expect(delivery.attempts).toEqual(WEBHOOK_MAX_ATTEMPTS);
+    expect(delivery.next_attempt_at).toBeNull();
+  });
+
+  it('should record unreachable endpoints as failed attempts', async () => {
+    allowPrivateHost('127.0.0.1:1');
+    await db.update(webhookEndpointsTable)
+      .set({ url: 'http://127.0.0.1:1/hooks' })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+
+    await deliverDueWebhooks();
+
+    const [delivery] = await deliveries();
+    expect(delivery.status).toEqual('pending');
+    expect(delivery.attempts).toEqual(1);
+    expect(delivery.response_status).toBeNull();
+    expect(delivery.error).not.toBeNull();
+  });
+
+  it('should refuse to deliver to private addresses, checked when sending', async () => {
+    // The receiver is only allowed by its IP address; by name it resolves to loopback like anything else would
+    const port = new URL(receiver.url).port;
+    for (const url of [`http://localhost:${port}/hooks`, 'http://169.254.169.254/latest/meta-data', 'http://[::1]/hooks']) {
+      await db.update(webhookEndpointsTable)
+        .set({ url })
+        .where(eq(webhookEndpointsTable.id, endpointId))
+        .execute();
+      await db.delete(webhookDeliveriesTable).execute();
+      await emitWebhookEvent(statusPageId, 'incident.created', {});
+
+      await deliverDueWebhooks();
+
+      const [delivery] = await deliveries();
+      expect(delivery.status).toEqual('pending');
+      expect(delivery.response_status).toBeNull();
+      expect(delivery.error).toMatch(/not a public address/);
+    }
+    expect(receiver.requests).toHaveLength(0);
+  });
+
+  it('should hold deliveries while their endpoint is disabled', async () => {
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+    await db.update(webhookEndpointsTable)
+      .set({ is_active: false })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    expect(await deliverDueWebhooks()).toEqual(0);
+
+    await db.update(webhookEndpointsTable)
+      .set({ is_active: true })
+      .where(eq(webhookEndpointsTable.id, endpointId))
+      .execute();
+
+    expect(await deliverDueWebhooks()).toEqual(1);
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it('should not send a delivery twice when runs overlap', async () => {
+    await emitWebhookEvent(statusPageId, 'incident.created', {});
+
+    const counts = await Promise.all([deliverDueWebhooks(), deliverDueWebhooks()]);
+
+    expect(counts[0] + counts[1]).toEqual(1);
+    expect(receiver.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,17 @@
+import 'dotenv/config';
+import { startJobWorker } from './lib/jobs';
+import { assertSharedSigningSecret } from './lib/auth';
+
+// Runs background jobs outside the server process. Start the server with JOB_WORKER=separate so it only
+// queues them; any number of these workers can run side by side.
+assertSharedSigningSecret();
+const worker = startJobWorker();
+console.log('Job worker started');
+
+// Finish the jobs being run before exiting; unfinished ones are picked up again once their claim expires
+const shutdown = () => {
+  worker.stop().then(() => process.exit(0));
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);